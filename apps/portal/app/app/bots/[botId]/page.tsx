@@ -11,8 +11,10 @@ import {
   type Bot,
   BTN_PRIMARY,
   BTN_SECONDARY,
+  fetchStrategies,
   formatTick,
   isRecord,
+  type StrategyDescriptor,
 } from "../../../lib";
 import { FadeUp, PillPop, PresenceCard } from "../../../motion";
 
@@ -21,7 +23,16 @@ const WELL_KNOWN_MINTS: Record<string, string> = {
   USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
 };
 
-type StrategyType = "noop" | "dca" | "rebalance" | "agent";
+// Strategies with a hand-built form; any other registered strategy is
+// edited as JSON against the schema served by /api/strategies.
+const FORM_STRATEGIES = ["noop", "dca", "rebalance", "agent"];
+
+const FALLBACK_STRATEGIES: Array<Pick<StrategyDescriptor, "type" | "label">> = [
+  { type: "noop", label: "Noop" },
+  { type: "dca", label: "DCA" },
+  { type: "rebalance", label: "Rebalance" },
+  { type: "agent", label: "Agent" },
+];
 
 type DcaFields = {
   inputMint: string;
@@ -43,6 +54,9 @@ type AgentFields = {
   mandate: string;
   maxTradesPerDay: string;
   model: string;
+  dailyTokenBudget: string;
+  approvalMode: "auto" | "above-amount" | "always";
+  approvalAboveQuoteAtomic: string;
 };
 
 type AgentMemoryState = {
@@ -57,6 +71,63 @@ type AgentMemoryState = {
   updatedAt: string;
 };
 
+type LlmUsageState = {
+  usage: Array<{
+    day: string;
+    model: string;
+    ticks: number;
+    calls: number;
+    totalTokens: number;
+    costUsd: number | null;
+  }>;
+  today: { day: string; totalTokens: number; dailyTokenBudget: number | null };
+};
+
+type RunRow = {
+  id: number;
+  runId: string;
+  reason: string;
+  status: "ok" | "error" | "skipped";
+  strategy: string | null;
+  outcome: string | null;
+  startedAt: string;
+  durationMs: number;
+};
+
+type TradeRow = {
+  id: number;
+  side: string | null;
+  market: string | null;
+  size: string | null;
+  price: string | null;
+  status: string | null;
+  filledInAmount: string | null;
+  filledOutAmount: string | null;
+  feeLamports: string | null;
+  priorityFeeLamports: string | null;
+  submitAttempts: number | null;
+  createdAt: string;
+};
+
+type TradeProposalRow = {
+  id: string;
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  reasoning: string;
+  confidence: string;
+  valueQuoteAtomic: string | null;
+  status: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+type RunLogLine = Record<string, unknown> & {
+  ts?: string;
+  level?: string;
+  message?: string;
+};
+
 type PolicyFields = {
   simulateOnly: boolean;
   dryRun: boolean;
@@ -316,6 +387,13 @@ function BotShell({ botId }: { botId: string }) {
                 onTick={tickNow}
                 loading={loading}
               />
+              <RunTimeline botId={bot.id} getAccessToken={getAccessToken} />
+              <ProposalInbox botId={bot.id} getAccessToken={getAccessToken} />
+              <TradeList botId={bot.id} getAccessToken={getAccessToken} />
+              <NotificationSettings
+                botId={bot.id}
+                getAccessToken={getAccessToken}
+              />
             </FadeUp>
           ) : (
             <FadeUp>
@@ -363,7 +441,10 @@ function BotWorkspace({
   loading: boolean;
 }) {
   const [balances, setBalances] = useState<Balances | null>(null);
-  const [strategyType, setStrategyType] = useState<StrategyType>("noop");
+  const [strategyType, setStrategyType] = useState("noop");
+  const [strategies, setStrategies] = useState<StrategyDescriptor[]>([]);
+  // JSON config for strategies without a hand-built form.
+  const [customConfig, setCustomConfig] = useState("");
   const [dca, setDca] = useState<DcaFields>({
     inputMint: WELL_KNOWN_MINTS.SOL,
     outputMint: WELL_KNOWN_MINTS.USDC,
@@ -382,8 +463,12 @@ function BotWorkspace({
     mandate: "",
     maxTradesPerDay: "5",
     model: "",
+    dailyTokenBudget: "",
+    approvalMode: "auto",
+    approvalAboveQuoteAtomic: "",
   });
   const [agentMemory, setAgentMemory] = useState<AgentMemoryState | null>(null);
+  const [llmUsage, setLlmUsage] = useState<LlmUsageState | null>(null);
   const [policy, setPolicy] = useState<PolicyFields>({
     simulateOnly: true,
     dryRun: false,
@@ -402,15 +487,17 @@ function BotWorkspace({
       const token = await getAccessToken();
       if (!token || cancelled) return;
 
-      const [balRes, cfgRes] = await Promise.all([
+      const [balRes, cfgRes, registered] = await Promise.all([
         apiFetchJson(`/api/bots/${bot.id}/balance`, token, {
           method: "GET",
         }).catch(() => null),
         apiFetchJson(`/api/bots/${bot.id}/config`, token, {
           method: "GET",
         }).catch(() => null),
+        fetchStrategies(token).catch(() => []),
       ]);
       if (cancelled) return;
+      setStrategies(registered);
 
       // Apply balance
       if (
@@ -433,9 +520,10 @@ function BotWorkspace({
       // Load strategy
       const strat = config.strategy;
       if (isRecord(strat)) {
-        const t = strat.type as string;
-        if (t === "dca" || t === "rebalance" || t === "noop" || t === "agent") {
-          setStrategyType(t as StrategyType);
+        const t = String(strat.type ?? "noop");
+        setStrategyType(t);
+        if (!FORM_STRATEGIES.includes(t)) {
+          setCustomConfig(JSON.stringify(strat, null, 2));
         }
         if (t === "dca") {
           setDca({
@@ -464,6 +552,15 @@ function BotWorkspace({
             mandate: String(strat.mandate ?? ""),
             maxTradesPerDay: String(strat.maxTradesPerDay ?? "5"),
             model: String(strat.model ?? ""),
+            dailyTokenBudget: String(strat.dailyTokenBudget ?? ""),
+            approvalMode:
+              strat.approvalMode === "above-amount" ||
+              strat.approvalMode === "always"
+                ? strat.approvalMode
+                : "auto",
+            approvalAboveQuoteAtomic: String(
+              strat.approvalAboveQuoteAtomic ?? "",
+            ),
           });
           // Fetch agent memory
           apiFetchJson(`/api/bots/${bot.id}/agent/memory`, token, {
@@ -482,6 +579,19 @@ function BotWorkspace({
               }
             })
             .catch(() => {});
+          apiFetchJson(`/api/bots/${bot.id}/usage?days=7`, token, {
+            method: "GET",
+          })
+            .then((usageRes) => {
+              if (cancelled) return;
+              if (
+                isRecord(usageRes) &&
+                Array.isArray((usageRes as Record<string, unknown>).usage)
+              ) {
+                setLlmUsage(usageRes as unknown as LlmUsageState);
+              }
+            })
+            .catch(() => {});
         }
       }
 
@@ -544,7 +654,25 @@ function BotWorkspace({
           mandate: agent.mandate,
           maxTradesPerDay: Number(agent.maxTradesPerDay) || 5,
           ...(agent.model.trim() ? { model: agent.model.trim() } : {}),
+          ...(Number(agent.dailyTokenBudget) > 0
+            ? { dailyTokenBudget: Math.floor(Number(agent.dailyTokenBudget)) }
+            : {}),
+          ...(agent.approvalMode !== "auto"
+            ? { approvalMode: agent.approvalMode }
+            : {}),
+          ...(agent.approvalMode === "above-amount"
+            ? { approvalAboveQuoteAtomic: agent.approvalAboveQuoteAtomic }
+            : {}),
         };
+      } else if (strategyType !== "noop") {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(customConfig);
+        } catch {
+          throw new Error("invalid-strategy-json");
+        }
+        if (!isRecord(parsed)) throw new Error("invalid-strategy-json");
+        strategy = { ...parsed, type: strategyType };
       } else {
         strategy = { type: "noop" };
       }
@@ -569,6 +697,27 @@ function BotWorkspace({
     }
   }
 
+  const strategyOptions: Array<Pick<StrategyDescriptor, "type" | "label">> =
+    strategies.length > 0 ? strategies : FALLBACK_STRATEGIES;
+  const selectedStrategy = strategies.find((s) => s.type === strategyType);
+
+  // Seeds the JSON editor from the registry's default config when switching
+  // to a strategy that has no hand-built form.
+  function selectStrategy(type: string): void {
+    setStrategyType(type);
+    if (FORM_STRATEGIES.includes(type)) return;
+    const defaults = strategies.find((s) => s.type === type)?.defaultConfig;
+    setCustomConfig((current) => {
+      try {
+        const parsed = JSON.parse(current) as unknown;
+        if (isRecord(parsed) && parsed.type === type) return current;
+      } catch {
+        // Replace unparseable drafts below.
+      }
+      return JSON.stringify(defaults ?? { type }, null, 2);
+    });
+  }
+
   const mintLabel = (addr: string): string => {
     for (const [k, v] of Object.entries(WELL_KNOWN_MINTS)) {
       if (v === addr) return k;
@@ -635,31 +784,55 @@ function BotWorkspace({
               <div className="grid gap-1">
                 <span className="label">Type</span>
                 <div className="radio-group">
-                  {(
-                    ["noop", "dca", "rebalance", "agent"] as StrategyType[]
-                  ).map((t) => (
-                    <label key={t}>
+                  {strategyOptions.map((option) => (
+                    <label key={option.type}>
                       <input
                         type="radio"
                         name="strategyType"
-                        value={t}
-                        checked={strategyType === t}
-                        onChange={() => setStrategyType(t)}
+                        value={option.type}
+                        checked={strategyType === option.type}
+                        onChange={() => selectStrategy(option.type)}
                       />
-                      <span>
-                        {t === "noop"
-                          ? "Noop"
-                          : t === "dca"
-                            ? "DCA"
-                            : t === "rebalance"
-                              ? "Rebalance"
-                              : "Agent"}
-                      </span>
+                      <span>{option.label}</span>
                     </label>
                   ))}
                 </div>
+                {selectedStrategy?.description ? (
+                  <span className="text-muted text-[0.85rem]">
+                    {selectedStrategy.description}
+                  </span>
+                ) : null}
               </div>
 
+              {!FORM_STRATEGIES.includes(strategyType) ? (
+                <div className="grid gap-1">
+                  <span className="label">Config (JSON)</span>
+                  <textarea
+                    className={cn(INPUT, "min-h-[12rem] resize-y font-mono")}
+                    value={customConfig}
+                    onChange={(e) => setCustomConfig(e.target.value)}
+                  />
+                  {selectedStrategy?.configSchema.properties ? (
+                    <ul className="text-muted text-[0.85rem] grid gap-0.5">
+                      {Object.entries(selectedStrategy.configSchema.properties)
+                        .filter(([key]) => key !== "type")
+                        .map(([key, field]) => (
+                          <li key={key}>
+                            <code>{key}</code>
+                            {selectedStrategy.configSchema.required?.includes(
+                              key,
+                            )
+                              ? " (required)"
+                              : ""}
+                            {field.type ? ` · ${field.type}` : ""}
+                            {field.description ? ` · ${field.description}` : ""}
+                          </li>
+                        ))}
+                    </ul>
+                  ) : null}
+                </div>
+              ) : null}
+
               {strategyType === "dca" ? (
                 <>
                   <div className="grid gap-1">
@@ -862,6 +1035,64 @@ function BotWorkspace({
                       placeholder="Leave blank for ZAI_MODEL default"
                     />
                   </div>
+                  <div className="grid gap-1">
+                    <span className="label">
+                      Daily token budget (optional — blank means unlimited)
+                    </span>
+                    <input
+                      className={INPUT}
+                      type="text"
+                      inputMode="numeric"
+                      value={agent.dailyTokenBudget}
+                      onChange={(e) =>
+                        setAgent((p) => ({
+                          ...p,
+                          dailyTokenBudget: e.target.value,
+                        }))
+                      }
+                      placeholder="e.g. 200000"
+                    />
+                  </div>
+                  <div className="grid gap-1">
+                    <span className="label">Trade approval</span>
+                    <select
+                      className={cn("input", INPUT)}
+                      value={agent.approvalMode}
+                      onChange={(e) =>
+                        setAgent((p) => ({
+                          ...p,
+                          approvalMode: e.target
+                            .value as AgentFields["approvalMode"],
+                        }))
+                      }
+                    >
+                      <option value="auto">Execute automatically</option>
+                      <option value="above-amount">
+                        Approve trades above an amount
+                      </option>
+                      <option value="always">Approve every trade</option>
+                    </select>
+                  </div>
+                  {agent.approvalMode === "above-amount" ? (
+                    <div className="grid gap-1">
+                      <span className="label">
+                        Approval threshold (USDC atomic units)
+                      </span>
+                      <input
+                        className={INPUT}
+                        type="text"
+                        inputMode="numeric"
+                        value={agent.approvalAboveQuoteAtomic}
+                        onChange={(e) =>
+                          setAgent((p) => ({
+                            ...p,
+                            approvalAboveQuoteAtomic: e.target.value,
+                          }))
+                        }
+                        placeholder="e.g. 100000000 (100 USDC)"
+                      />
+                    </div>
+                  ) : null}
                 </>
               ) : null}
             </div>
@@ -926,6 +1157,50 @@ function BotWorkspace({
             </div>
           ) : null}
 
+          {/* LLM usage */}
+          {strategyType === "agent" && llmUsage ? (
+            <div className="card card-flat p-6">
+              <p className="label">LLM usage</p>
+              <div className="grid gap-4 mt-3">
+                <div className="grid gap-1">
+                  <span className="label">Tokens today (UTC)</span>
+                  <p className="font-mono">
+                    {llmUsage.today.totalTokens.toLocaleString()}
+                    {llmUsage.today.dailyTokenBudget
+                      ? ` / ${llmUsage.today.dailyTokenBudget.toLocaleString()}`
+                      : ""}
+                  </p>
+                </div>
+                {llmUsage.usage.length > 0 ? (
+                  <div className="grid gap-1">
+                    <span className="label">Last 7 days</span>
+                    <div className="grid gap-1.5">
+                      {llmUsage.usage.map((row) => (
+                        <div
+                          key={`${row.day}-${row.model}`}
+                          className="flex justify-between gap-4 text-[0.85rem] font-mono"
+                        >
+                          <span className="text-muted">
+                            {row.day} · {row.model}
+                          </span>
+                          <span>
+                            {row.totalTokens.toLocaleString()} tok · {row.calls}{" "}
+                            calls
+                            {row.costUsd !== null
+                              ? ` · $${row.costUsd.toFixed(4)}`
+                              : ""}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-muted">No LLM calls recorded yet.</p>
+                )}
+              </div>
+            </div>
+          ) : null}
+
           {/* Policy */}
           <div className="card card-flat p-6">
             <p className="label">Policy</p>
@@ -1026,3 +1301,715 @@ function BotWorkspace({
     </div>
   );
 }
+
+/* ------------------------------------------------------------------ */
+/*  Run timeline: indexed ticks + full log lines per run               */
+/* ------------------------------------------------------------------ */
+
+// Fields shown in the line header; everything else goes in the detail block.
+const LOG_HEADER_KEYS = new Set([
+  "ts",
+  "level",
+  "message",
+  "tenantId",
+  "runId",
+  "reason",
+]);
+
+function RunTimeline({
+  botId,
+  getAccessToken,
+}: {
+  botId: string;
+  getAccessToken: () => Promise<string | null>;
+}) {
+  const [runs, setRuns] = useState<RunRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [lines, setLines] = useState<RunLogLine[] | null>(null);
+  const [linesMsg, setLinesMsg] = useState<string | null>(null);
+
+  const loadRuns = useCallback(
+    async (before: number | null): Promise<void> => {
+      setLoading(true);
+      setError(null);
+      try {
+        const token = await getAccessToken();
+        if (!token) throw new Error("missing-access-token");
+        const query = before ? `?limit=20&before=${before}` : "?limit=20";
+        const payload = await apiFetchJson(
+          `/api/bots/${botId}/runs${query}`,
+          token,
+          { method: "GET" },
+        );
+        const page = isRecord(payload) ? payload : {};
+        const nextRuns = Array.isArray(page.runs)
+          ? (page.runs as RunRow[])
+          : [];
+        setRuns((prev) => (before ? [...prev, ...nextRuns] : nextRuns));
+        setNextCursor(
+          typeof page.nextCursor === "number" ? page.nextCursor : null,
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [botId, getAccessToken],
+  );
+
+  useEffect(() => {
+    void loadRuns(null);
+  }, [loadRuns]);
+
+  async function toggleRun(runId: string): Promise<void> {
+    if (openRunId === runId) {
+      setOpenRunId(null);
+      return;
+    }
+    setOpenRunId(runId);
+    setLines(null);
+    setLinesMsg(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) throw new Error("missing-access-token");
+      const payload = await apiFetchJson(
+        `/api/bots/${botId}/runs/${runId}`,
+        token,
+        { method: "GET" },
+      );
+      const nextLines = isRecord(payload) ? payload.lines : null;
+      if (Array.isArray(nextLines)) {
+        setLines(nextLines as RunLogLine[]);
+      } else {
+        setLinesMsg("Log not available (R2 logging disabled or expired).");
+      }
+    } catch (err) {
+      setLinesMsg(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <div className="card card-flat p-6 mt-5">
+      <div className="flex items-center justify-between gap-4">
+        <p className="label">Runs</p>
+        <button
+          className={BTN_SECONDARY}
+          onClick={() => void loadRuns(null)}
+          disabled={loading}
+          type="button"
+        >
+          Refresh
+        </button>
+      </div>
+      {error ? <p className="text-muted mt-3">{error}</p> : null}
+      {runs.length === 0 && !loading && !error ? (
+        <p className="text-muted mt-3">No runs recorded yet.</p>
+      ) : null}
+      <div className="grid gap-1.5 mt-3">
+        {runs.map((run) => (
+          <div key={run.runId} className="grid gap-1.5">
+            <button
+              className="flex justify-between gap-4 text-left text-[0.85rem] font-mono"
+              onClick={() => void toggleRun(run.runId)}
+              type="button"
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <span
+                  className={cn(
+                    "inline-flex items-center px-2 py-0.5 rounded-full border text-xs",
+                    run.status === "ok"
+                      ? "border-accent bg-accent-soft text-ink"
+                      : run.status === "error"
+                        ? "border-ink text-ink"
+                        : "border-border bg-surface text-muted",
+                  )}
+                >
+                  {run.status}
+                </span>
+                <span className="text-muted whitespace-nowrap">
+                  {formatTick(run.startedAt)} · {run.reason}
+                  {run.strategy ? ` · ${run.strategy}` : ""}
+                </span>
+              </span>
+              <span className="overflow-hidden text-ellipsis whitespace-nowrap">
+                {run.outcome ?? ""} · {(run.durationMs / 1000).toFixed(1)}s
+              </span>
+            </button>
+            {openRunId === run.runId ? (
+              <div className="grid gap-1 max-h-96 overflow-y-auto border-l border-border pl-3">
+                {linesMsg ? <p className="text-muted">{linesMsg}</p> : null}
+                {!lines && !linesMsg ? (
+                  <p className="text-muted">Loading…</p>
+                ) : null}
+                {(lines ?? []).map((line, i) => {
+                  const meta = Object.fromEntries(
+                    Object.entries(line).filter(
+                      ([key]) => !LOG_HEADER_KEYS.has(key),
+                    ),
+                  );
+                  return (
+                    <div
+                      key={`${line.ts ?? ""}-${i}`}
+                      className="grid gap-0.5 text-[0.8rem] font-mono"
+                    >
+                      <span>
+                        <span className="text-muted">
+                          {String(line.ts ?? "").slice(11, 19)}{" "}
+                          {String(line.level ?? "")}
+                        </span>{" "}
+                        {String(line.message ?? "")}
+                      </span>
+                      {Object.keys(meta).length > 0 ? (
+                        <pre className="text-muted whitespace-pre-wrap break-all">
+                          {JSON.stringify(meta, null, 2)}
+                        </pre>
+                      ) : null}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </div>
+      {nextCursor ? (
+        <div className="mt-3">
+          <button
+            className={BTN_SECONDARY}
+            onClick={() => void loadRuns(nextCursor)}
+            disabled={loading}
+            type="button"
+          >
+            {loading ? "Loading…" : "Load older runs"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Trades: recent swaps with their reconciled on-chain status         */
+/* ------------------------------------------------------------------ */
+
+// Sent but not yet confirmed; the bot reconciles these on later ticks.
+const PENDING_TRADE_STATUSES = new Set(["sent", "processed"]);
+
+function mintLabel(mint: string): string {
+  const known = Object.entries(WELL_KNOWN_MINTS).find(([, m]) => m === mint);
+  return known ? known[0] : `${mint.slice(0, 4)}…`;
+}
+
+function marketLabel(market: string | null): string {
+  const [inputMint, outputMint] = String(market ?? "").split("->");
+  if (!inputMint || !outputMint) return market ?? "";
+  return `${mintLabel(inputMint)} → ${mintLabel(outputMint)}`;
+}
+
+function TradeList({
+  botId,
+  getAccessToken,
+}: {
+  botId: string;
+  getAccessToken: () => Promise<string | null>;
+}) {
+  const [trades, setTrades] = useState<TradeRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) throw new Error("missing-access-token");
+      const payload = await apiFetchJson(
+        `/api/bots/${botId}/trades?limit=20`,
+        token,
+        { method: "GET" },
+      );
+      const rows = isRecord(payload) ? payload.trades : null;
+      setTrades(Array.isArray(rows) ? (rows as TradeRow[]) : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [botId, getAccessToken]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const expired = trades.filter((t) => t.status === "expired").length;
+
+  return (
+    <div className="card card-flat p-6 mt-5">
+      <div className="flex items-center justify-between gap-4">
+        <p className="label">Trades</p>
+        <button
+          className={BTN_SECONDARY}
+          onClick={() => void load()}
+          disabled={loading}
+          type="button"
+        >
+          Refresh
+        </button>
+      </div>
+      {error ? <p className="text-muted mt-3">{error}</p> : null}
+      {expired > 0 ? (
+        <p className="mt-3 text-sm">
+          {expired} recent {expired === 1 ? "swap" : "swaps"} expired before
+          landing on-chain; no funds moved for {expired === 1 ? "it" : "them"}.
+        </p>
+      ) : null}
+      {trades.length === 0 && !loading && !error ? (
+        <p className="text-muted mt-3">No trades recorded yet.</p>
+      ) : null}
+      <div className="grid gap-1.5 mt-3">
+        {trades.map((trade) => {
+          const status = trade.status ?? "unknown";
+          const pending = PENDING_TRADE_STATUSES.has(status);
+          const inAmount = trade.filledInAmount ?? trade.size ?? "?";
+          const outAmount = trade.filledOutAmount ?? trade.price ?? "?";
+          return (
+            <div
+              key={trade.id}
+              className="flex justify-between gap-4 text-[0.85rem] font-mono"
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <span
+                  className={cn(
+                    "inline-flex items-center px-2 py-0.5 rounded-full border text-xs",
+                    status === "confirmed" || status === "finalized"
+                      ? "border-accent bg-accent-soft text-ink"
+                      : status === "error" || status === "expired"
+                        ? "border-ink text-ink"
+                        : "border-border bg-surface text-muted",
+                  )}
+                >
+                  {pending ? "pending" : status}
+                </span>
+                <span className="text-muted whitespace-nowrap">
+                  {formatTick(`${trade.createdAt.replace(" ", "T")}Z`)} ·{" "}
+                  {trade.side ?? "swap"} · {marketLabel(trade.market)}
+                </span>
+              </span>
+              <span className="overflow-hidden text-ellipsis whitespace-nowrap">
+                {inAmount} → {outAmount}
+                {trade.feeLamports ? ` · fee ${trade.feeLamports}` : ""}
+                {trade.priorityFeeLamports
+                  ? ` · priority ${trade.priorityFeeLamports}`
+                  : ""}
+                {(trade.submitAttempts ?? 1) > 1
+                  ? ` · ${trade.submitAttempts} attempts`
+                  : ""}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Proposals: agent trades waiting for a human decision               */
+/* ------------------------------------------------------------------ */
+
+function ProposalInbox({
+  botId,
+  getAccessToken,
+}: {
+  botId: string;
+  getAccessToken: () => Promise<string | null>;
+}) {
+  const [proposals, setProposals] = useState<TradeProposalRow[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (): Promise<void> => {
+    setError(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) throw new Error("missing-access-token");
+      const payload = await apiFetchJson(
+        `/api/bots/${botId}/proposals?status=pending`,
+        token,
+        { method: "GET" },
+      );
+      const rows = isRecord(payload) ? payload.proposals : null;
+      setProposals(Array.isArray(rows) ? (rows as TradeProposalRow[]) : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [botId, getAccessToken]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function decide(
+    id: string,
+    decision: "approve" | "reject",
+  ): Promise<void> {
+    setBusyId(id);
+    setError(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) throw new Error("missing-access-token");
+      await apiFetchJson(
+        `/api/bots/${botId}/proposals/${id}/${decision}`,
+        token,
+        { method: "POST" },
+      );
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  // Only shown while something needs a decision.
+  if (proposals.length === 0 && !error) return null;
+
+  return (
+    <div className="card card-flat p-6 mt-5">
+      <div className="flex items-center justify-between gap-4">
+        <p className="label">Awaiting approval</p>
+        <button
+          className={BTN_SECONDARY}
+          onClick={() => void load()}
+          disabled={busyId !== null}
+          type="button"
+        >
+          Refresh
+        </button>
+      </div>
+      {error ? <p className="text-muted mt-3">{error}</p> : null}
+      <div className="grid gap-4 mt-3">
+        {proposals.map((proposal) => (
+          <div key={proposal.id} className="grid gap-2">
+            <div className="flex justify-between gap-4 text-[0.85rem] font-mono">
+              <span>
+                {proposal.amount} ·{" "}
+                {marketLabel(`${proposal.inputMint}->${proposal.outputMint}`)}
+              </span>
+              <span className="text-muted whitespace-nowrap">
+                {proposal.confidence} confidence · expires{" "}
+                {formatTick(proposal.expiresAt)}
+              </span>
+            </div>
+            <p className="text-sm">{proposal.reasoning}</p>
+            <div className="flex gap-2">
+              <button
+                className={BTN_PRIMARY}
+                onClick={() => void decide(proposal.id, "approve")}
+                disabled={busyId !== null}
+                type="button"
+              >
+                Approve
+              </button>
+              <button
+                className={BTN_SECONDARY}
+                onClick={() => void decide(proposal.id, "reject")}
+                disabled={busyId !== null}
+                type="button"
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Notifications: per-bot channels + event subscriptions              */
+/* ------------------------------------------------------------------ */
+
+type NotificationSinkType = "webhook" | "telegram" | "discord" | "email";
+
+type NotificationSubscriptionRow = {
+  id?: string;
+  sink: { type: NotificationSinkType } & Record<string, string>;
+  events: string[];
+  enabled: boolean;
+};
+
+const NOTIFICATION_EVENTS: Array<{ type: string; label: string }> = [
+  { type: "trade.executed", label: "Trade executed" },
+  { type: "trade.failed", label: "Trade failed" },
+  { type: "trade.proposed", label: "Trade awaiting approval" },
+  { type: "policy.rejected", label: "Policy rejection" },
+  { type: "killswitch.tripped", label: "Kill switch tripped" },
+  { type: "bot.disabled", label: "Bot disabled" },
+];
+
+// Secret fields come back redacted; leaving them untouched keeps the stored value.
+const SINK_FIELDS: Record<
+  NotificationSinkType,
+  Array<{ key: string; label: string; placeholder: string }>
+> = {
+  webhook: [
+    { key: "url", label: "URL", placeholder: "https://example.com/hook" },
+    { key: "secret", label: "Signing secret", placeholder: "optional" },
+  ],
+  telegram: [
+    { key: "botToken", label: "Bot token", placeholder: "123456:ABC…" },
+    { key: "chatId", label: "Chat id", placeholder: "-1001234567890" },
+  ],
+  discord: [
+    {
+      key: "webhookUrl",
+      label: "Webhook URL",
+      placeholder: "https://discord.com/api/webhooks/…",
+    },
+  ],
+  email: [
+    {
+      key: "relayUrl",
+      label: "Relay URL",
+      placeholder: "https://mail-relay.example.com/send",
+    },
+    { key: "to", label: "To", placeholder: "ops@example.com" },
+    { key: "from", label: "From", placeholder: "optional" },
+    { key: "token", label: "Relay token", placeholder: "optional" },
+  ],
+};
+
+function NotificationSettings({
+  botId,
+  getAccessToken,
+}: {
+  botId: string;
+  getAccessToken: () => Promise<string | null>;
+}) {
+  const [subs, setSubs] = useState<NotificationSubscriptionRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const load = useCallback(async (): Promise<void> => {
+    try {
+      const token = await getAccessToken();
+      if (!token) throw new Error("missing-access-token");
+      const payload = await apiFetchJson(
+        `/api/bots/${botId}/notifications`,
+        token,
+        { method: "GET" },
+      );
+      const rows = isRecord(payload) ? payload.subscriptions : null;
+      setSubs(
+        Array.isArray(rows) ? (rows as NotificationSubscriptionRow[]) : [],
+      );
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : String(err));
+    }
+  }, [botId, getAccessToken]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  function updateSub(
+    index: number,
+    update: (sub: NotificationSubscriptionRow) => NotificationSubscriptionRow,
+  ): void {
+    setSubs((prev) => prev.map((sub, i) => (i === index ? update(sub) : sub)));
+  }
+
+  async function save(): Promise<void> {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) throw new Error("missing-access-token");
+      const payload = await apiFetchJson(
+        `/api/bots/${botId}/notifications`,
+        token,
+        { method: "PUT", body: JSON.stringify({ subscriptions: subs }) },
+      );
+      const rows = isRecord(payload) ? payload.subscriptions : null;
+      if (Array.isArray(rows)) setSubs(rows as NotificationSubscriptionRow[]);
+      setMsg("Saved.");
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function sendTest(): Promise<void> {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const token = await getAccessToken();
+      if (!token) throw new Error("missing-access-token");
+      const payload = await apiFetchJson(
+        `/api/bots/${botId}/notifications/test`,
+        token,
+        { method: "POST" },
+      );
+      const deliveries = isRecord(payload) ? payload.deliveries : null;
+      const list = Array.isArray(deliveries)
+        ? (deliveries as Array<{ sink: string; ok: boolean; error?: string }>)
+        : [];
+      setMsg(
+        list.length === 0
+          ? "No enabled channels."
+          : list
+              .map((d) => `${d.sink}: ${d.ok ? "sent" : (d.error ?? "failed")}`)
+              .join(" · "),
+      );
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card card-flat p-6 mt-5">
+      <p className="label">Notifications</p>
+      <div className="grid gap-5 mt-4">
+        {subs.length === 0 ? (
+          <p className="text-muted">No notification channels yet.</p>
+        ) : null}
+        {subs.map((sub, index) => (
+          <div
+            key={sub.id ?? `new-${index}`}
+            className="grid gap-3 border-l border-border pl-3"
+          >
+            <div className="flex items-center justify-between gap-4">
+              <select
+                className={INPUT}
+                value={sub.sink.type}
+                onChange={(e) =>
+                  updateSub(index, (s) => ({
+                    ...s,
+                    sink: { type: e.target.value as NotificationSinkType },
+                  }))
+                }
+              >
+                {(Object.keys(SINK_FIELDS) as NotificationSinkType[]).map(
+                  (type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ),
+                )}
+              </select>
+              <label className="toggle-switch">
+                <input
+                  type="checkbox"
+                  checked={sub.enabled}
+                  onChange={(e) =>
+                    updateSub(index, (s) => ({
+                      ...s,
+                      enabled: e.target.checked,
+                    }))
+                  }
+                />
+                <div className="toggle-track" />
+                <div className="toggle-thumb" />
+              </label>
+            </div>
+            {SINK_FIELDS[sub.sink.type].map((field) => (
+              <div key={field.key} className="grid gap-1">
+                <span className="label">{field.label}</span>
+                <input
+                  className={INPUT}
+                  type="text"
+                  value={sub.sink[field.key] ?? ""}
+                  onChange={(e) =>
+                    updateSub(index, (s) => ({
+                      ...s,
+                      sink: { ...s.sink, [field.key]: e.target.value },
+                    }))
+                  }
+                  placeholder={field.placeholder}
+                />
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-3">
+              {NOTIFICATION_EVENTS.map((event) => (
+                <label
+                  key={event.type}
+                  className="flex items-center gap-1.5 text-[0.85rem]"
+                >
+                  <input
+                    type="checkbox"
+                    checked={sub.events.includes(event.type)}
+                    onChange={(e) =>
+                      updateSub(index, (s) => ({
+                        ...s,
+                        events: e.target.checked
+                          ? [...s.events, event.type]
+                          : s.events.filter((t) => t !== event.type),
+                      }))
+                    }
+                  />
+                  {event.label}
+                </label>
+              ))}
+            </div>
+            <div>
+              <button
+                className={BTN_SECONDARY}
+                onClick={() =>
+                  setSubs((prev) => prev.filter((_, i) => i !== index))
+                }
+                type="button"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            className={BTN_SECONDARY}
+            onClick={() =>
+              setSubs((prev) => [
+                ...prev,
+                {
+                  sink: { type: "webhook" },
+                  events: NOTIFICATION_EVENTS.map((event) => event.type),
+                  enabled: true,
+                },
+              ])
+            }
+            disabled={busy}
+            type="button"
+          >
+            Add channel
+          </button>
+          <button
+            className={BTN_PRIMARY}
+            onClick={() => void save()}
+            disabled={busy}
+            type="button"
+          >
+            {busy ? "Saving…" : "Save notifications"}
+          </button>
+          <button
+            className={BTN_SECONDARY}
+            onClick={() => void sendTest()}
+            disabled={busy}
+            type="button"
+          >
+            Send test
+          </button>
+        </div>
+        {msg ? <p className="text-muted">{msg}</p> : null}
+      </div>
+    </div>
+  );
+}
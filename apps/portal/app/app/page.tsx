@@ -43,6 +43,8 @@ type FinancialProfile = {
 const PROFILE_KEY = "str-financial-profile";
 const ONBOARDING_KEY = "str-onboarding-complete";
 
+// The worker validates answers against these labels (PROFILE_OPTIONS in
+// apps/worker/src/suitability.ts) and derives the bot's policy ceilings.
 const PROFILE_FIELDS: {
   key: keyof FinancialProfile;
   label: string;
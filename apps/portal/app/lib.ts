@@ -79,3 +79,35 @@ export type Bot = {
   createdAt: string;
   updatedAt: string;
 };
+
+// GET /api/strategies: registered strategies with the JSON schema of their
+// config, used to render config forms.
+export type StrategySchema = {
+  type?: string;
+  title?: string;
+  description?: string;
+  properties?: Record<string, StrategySchema>;
+  required?: string[];
+  items?: StrategySchema;
+  enum?: Array<string | number | boolean>;
+  default?: unknown;
+};
+
+export type StrategyDescriptor = {
+  type: string;
+  label: string;
+  description: string;
+  configSchema: StrategySchema;
+  defaultConfig: Record<string, unknown> & { type: string };
+};
+
+export async function fetchStrategies(
+  accessToken: string,
+): Promise<StrategyDescriptor[]> {
+  const res = await apiFetchJson("/api/strategies", accessToken, {
+    method: "GET",
+  });
+  return isRecord(res) && Array.isArray(res.strategies)
+    ? (res.strategies as StrategyDescriptor[])
+    : [];
+}
@@ -0,0 +1 @@
+ALTER TABLE trade_index ADD COLUMN trigger_id TEXT;
@@ -0,0 +1,2 @@
+-- Encrypted keypair for signer_type = 'local'. Never returned by the API.
+ALTER TABLE bots ADD COLUMN signer_secret TEXT;
@@ -0,0 +1,16 @@
+-- Daily LLM token usage per bot (tenant) and model; days are UTC (YYYY-MM-DD).
+-- cost_usd stays NULL when LLM_PRICING has no entry for the model.
+CREATE TABLE IF NOT EXISTS llm_usage (
+  tenant_id TEXT NOT NULL,
+  day TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  ticks INTEGER NOT NULL DEFAULT 0,
+  calls INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (tenant_id, day, provider, model)
+);
@@ -0,0 +1,19 @@
+-- One row per tick (run). The full structured log stays in R2 under log_key;
+-- this table makes runs listable per bot without listing R2 prefixes.
+CREATE TABLE IF NOT EXISTS run_index (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tenant_id TEXT NOT NULL,
+  run_id TEXT NOT NULL UNIQUE,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL,
+  strategy TEXT,
+  outcome TEXT,
+  error TEXT,
+  log_key TEXT NOT NULL,
+  log_lines INTEGER NOT NULL DEFAULT 0,
+  started_at TEXT NOT NULL,
+  finished_at TEXT NOT NULL,
+  duration_ms INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS run_index_tenant_idx ON run_index (tenant_id, id);
@@ -0,0 +1,20 @@
+-- Confirmed swaps with atomic amounts, fees and quote-denominated (USDC)
+-- values at execution. Cost basis and PnL are derived from this table.
+CREATE TABLE IF NOT EXISTS trade_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tenant_id TEXT NOT NULL,
+  run_id TEXT,
+  signature TEXT NOT NULL UNIQUE,
+  input_mint TEXT NOT NULL,
+  output_mint TEXT NOT NULL,
+  in_amount TEXT NOT NULL,
+  out_amount TEXT NOT NULL,
+  fee_lamports TEXT,
+  quote_mint TEXT NOT NULL,
+  in_value_quote TEXT,
+  out_value_quote TEXT,
+  fee_value_quote TEXT,
+  executed_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS trade_ledger_tenant_idx ON trade_ledger (tenant_id, id);
@@ -0,0 +1,14 @@
+-- Per-bot notification channels. `config_json` holds the sink settings
+-- (URLs, tokens); `events_json` is the list of subscribed event types.
+CREATE TABLE IF NOT EXISTS notification_subscriptions (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  sink_type TEXT NOT NULL,
+  config_json TEXT NOT NULL,
+  events_json TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS notification_subscriptions_tenant_idx ON notification_subscriptions (tenant_id);
@@ -0,0 +1,5 @@
+-- TWAP child swaps point at their parent order (kept in loop state).
+ALTER TABLE trade_index ADD COLUMN parent_id TEXT;
+ALTER TABLE trade_index ADD COLUMN slice_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS trade_index_parent_idx ON trade_index (parent_id);
@@ -0,0 +1,10 @@
+-- Confirmation tracking: swaps whose confirmation timed out are stored as
+-- "sent" and later reconciled against the chain.
+ALTER TABLE trade_index ADD COLUMN last_valid_block_height INTEGER;
+ALTER TABLE trade_index ADD COLUMN slot INTEGER;
+ALTER TABLE trade_index ADD COLUMN fee_lamports TEXT;
+ALTER TABLE trade_index ADD COLUMN filled_in_amount TEXT;
+ALTER TABLE trade_index ADD COLUMN filled_out_amount TEXT;
+ALTER TABLE trade_index ADD COLUMN reconciled_at TEXT;
+
+CREATE INDEX IF NOT EXISTS trade_index_status_idx ON trade_index (tenant_id, status);
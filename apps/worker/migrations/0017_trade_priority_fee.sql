@@ -0,0 +1,5 @@
+-- Priority fee spend per swap and fee-bump resubmissions. replaced_signatures
+-- is a comma-separated list of superseded attempts.
+ALTER TABLE trade_index ADD COLUMN priority_fee_lamports TEXT;
+ALTER TABLE trade_index ADD COLUMN submit_attempts INTEGER;
+ALTER TABLE trade_index ADD COLUMN replaced_signatures TEXT;
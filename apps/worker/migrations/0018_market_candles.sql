@@ -0,0 +1,16 @@
+-- OHLCV candles built from per-tick price samples. One row per pair
+-- ("<baseMint>-<quoteMint>"), interval and bucket start (unix seconds); the
+-- raw samples are archived as JSONL in R2 under markets/.
+CREATE TABLE IF NOT EXISTS market_candles (
+  pair TEXT NOT NULL,
+  interval TEXT NOT NULL,
+  t INTEGER NOT NULL,
+  o REAL NOT NULL,
+  h REAL NOT NULL,
+  l REAL NOT NULL,
+  c REAL NOT NULL,
+  v REAL NOT NULL DEFAULT 0,
+  samples INTEGER NOT NULL DEFAULT 1,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (pair, interval, t)
+);
@@ -0,0 +1,24 @@
+-- Agent trades held for human approval (AgentStrategy.approvalMode). The
+-- quote is a snapshot at proposal time; approved proposals are re-quoted and
+-- re-checked against the policy before they execute on the next tick.
+CREATE TABLE IF NOT EXISTS trade_proposals (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  run_id TEXT NOT NULL,
+  input_mint TEXT NOT NULL,
+  output_mint TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  reasoning TEXT NOT NULL,
+  confidence TEXT NOT NULL,
+  quote_json TEXT NOT NULL,
+  value_quote_atomic TEXT,
+  status TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  decided_at TEXT,
+  decided_by TEXT,
+  executed_run_id TEXT,
+  result_json TEXT
+);
+
+CREATE INDEX IF NOT EXISTS trade_proposals_tenant_idx ON trade_proposals (tenant_id, status, created_at);
@@ -0,0 +1,11 @@
+-- Token safety screening results per mint (mint/freeze authority, Token-2022
+-- extensions, holder concentration, liquidity) and the tier they map to. A
+-- NULL tier means the mint failed screening for `reason`. Rows are reused
+-- until they are older than the screener's TTL.
+CREATE TABLE IF NOT EXISTS token_screens (
+  mint TEXT PRIMARY KEY,
+  tier TEXT,
+  reason TEXT,
+  screen_json TEXT NOT NULL,
+  screened_at TEXT NOT NULL
+);
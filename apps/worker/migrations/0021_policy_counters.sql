@@ -0,0 +1,10 @@
+-- Per-tenant counters behind the policy's cooldown and daily spend rules
+-- (src/policy/counters.ts). Bumped for every broadcast swap; trades and
+-- spent_lamports belong to the UTC `day` and reset on the next one.
+CREATE TABLE IF NOT EXISTS policy_counters (
+  tenant_id TEXT PRIMARY KEY,
+  day TEXT NOT NULL,
+  trades INTEGER NOT NULL,
+  spent_lamports TEXT NOT NULL,
+  last_trade_at TEXT
+);
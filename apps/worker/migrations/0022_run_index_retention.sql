@@ -0,0 +1,3 @@
+-- insertRunIndex drops a tenant's rows older than the retention window on
+-- every insert; this keeps that delete off a full scan of the tenant's runs.
+CREATE INDEX IF NOT EXISTS run_index_tenant_started_idx ON run_index (tenant_id, started_at);
@@ -1,18 +1,39 @@
-import { type ChatMessage, type ChatToolCall, callLlm } from "./agent_llm";
+import {
+  addUsage,
+  createLlmClient,
+  emptyUsage,
+  type LlmClient,
+  type LlmMessage,
+  type LlmToolCall,
+} from "../../../src/llm/index";
+import { resolveAgentLlmConfig } from "./agent_llm";
 import { buildAgentSystemPrompt } from "./agent_prompt";
 import { type AgentToolRuntime, buildAgentToolset } from "./agent_tools";
 import type { JupiterClient } from "./jupiter";
 import {
+  estimateLlmCostUsd,
+  getDailyTokenTotal,
+  parseLlmPricing,
+  recordLlmUsage,
+  usageDay,
+} from "./llm_usage";
+import { getMarketIndicators, recordSnapshotPrice } from "./market_data";
+import {
+  addReflection,
   getAgentMemory,
   resetDailyTradeCount,
   saveAgentMemory,
 } from "./memory";
-import type { NormalizedPolicy } from "./policy";
+import { notifyBot } from "./notifications";
+import { isPolicyRejection, type NormalizedPolicy } from "./policy";
+import { settleTradeProposals } from "./proposals";
 import { gatherMarketSnapshot } from "./research";
+import type { Signer } from "./signer";
 import type { SolanaRpc } from "./solana_rpc";
-import { updateLoopState } from "./state";
+import type { StrategyStateStore, StrategyTickContext } from "./strategy_sdk";
+import { getBotSuitability, summarizeSuitability } from "./suitability";
 import { listTrades } from "./trade_index";
-import type { AgentStrategy, Env } from "./types";
+import type { AgentState, AgentStrategy, Env } from "./types";
 
 type LogFn = (
   level: "debug" | "info" | "warn" | "error",
@@ -39,8 +60,8 @@ function clampInt(
   return Math.max(min, Math.min(max, Math.floor(n)));
 }
 
-function parseToolArgs(call: ChatToolCall): Record<string, unknown> {
-  const raw = call.function.arguments ?? "";
+function parseToolArgs(call: LlmToolCall): Record<string, unknown> {
+  const raw = call.arguments ?? "";
   if (!raw) return {};
   try {
     const parsed = JSON.parse(raw) as unknown;
@@ -66,7 +87,12 @@ export async function runAgentTick(input: {
   wallet: string;
   policy: NormalizedPolicy;
   strategy: AgentStrategy;
-  privyWalletId?: string;
+  signer?: Signer;
+  state: StrategyStateStore<AgentState>;
+  executeSwap: StrategyTickContext<AgentStrategy, AgentState>["executeSwap"];
+  // Injected client (e.g. ScriptedLlmClient in tests); otherwise resolved from
+  // the strategy's provider settings and env.
+  llm?: LlmClient;
 }): Promise<void> {
   const {
     env,
@@ -80,19 +106,56 @@ export async function runAgentTick(input: {
     wallet,
     policy,
     strategy,
-    privyWalletId,
+    signer,
   } = input;
 
   // 1) Load memory
   let memory = await getAgentMemory(env, tenantId);
   memory = resetDailyTradeCount(memory);
 
+  // Proposals decided (or not) since the last tick.
+  const proposals = await settleTradeProposals({
+    env,
+    tenantId,
+    runId,
+    log,
+    executeSwap: input.executeSwap,
+  });
+  for (const proposal of proposals.expired) {
+    memory = addReflection(
+      memory,
+      `Trade proposal ${proposal.amount} ${proposal.inputMint} -> ${proposal.outputMint} expired without approval (reasoning: ${proposal.reasoning})`,
+    );
+  }
+  for (const proposal of proposals.settled) {
+    memory = addReflection(
+      memory,
+      proposal.status === "executed"
+        ? `Approved trade proposal ${proposal.amount} ${proposal.inputMint} -> ${proposal.outputMint} executed (${proposal.result?.status ?? "unknown"})`
+        : `Approved trade proposal ${proposal.amount} ${proposal.inputMint} -> ${proposal.outputMint} failed: ${proposal.result?.error ?? "unknown"}`,
+    );
+  }
+  if (proposals.expired.length > 0 || proposals.settled.length > 0) {
+    await saveAgentMemory(env, tenantId, memory);
+  }
+
   // 2) Gather initial context (also available via tools)
   const snapshot = await gatherMarketSnapshot(rpc, jupiter, wallet, policy, {
     quoteMint: strategy.quoteMint,
     quoteDecimals: strategy.quoteDecimals,
   });
+  await recordSnapshotPrice({ env, log, snapshot });
   const recentTrades = await listTrades(env, tenantId, 10);
+  const indicators = await getMarketIndicators(
+    env,
+    { baseMint: snapshot.baseMint, quoteMint: snapshot.quoteMint },
+    "1h",
+  ).catch((err) => {
+    log("warn", "agent indicators unavailable", {
+      err: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  });
 
   log("info", "agent tick start", {
     quoteMint: snapshot.quoteMint,
@@ -100,12 +163,17 @@ export async function runAgentTick(input: {
     baseAllocationPct: snapshot.baseAllocationPct,
   });
 
+  const suitability = await getBotSuitability(env, configTenantId ?? tenantId);
   const system = buildAgentSystemPrompt({
     memory,
     snapshot,
     recentTrades,
     strategy,
     policy,
+    indicators,
+    suitability: suitability
+      ? summarizeSuitability(suitability.profile, suitability.ceilings)
+      : null,
   });
 
   const { tools, handlers } = buildAgentToolset(strategy);
@@ -122,7 +190,7 @@ export async function runAgentTick(input: {
     wallet,
     policy,
     strategy,
-    privyWalletId,
+    signer,
     memory,
     snapshot,
     recentTrades,
@@ -130,7 +198,14 @@ export async function runAgentTick(input: {
     tradeExecuted: false,
   };
 
-  const messages: ChatMessage[] = [
+  const llmConfig = input.llm ? null : resolveAgentLlmConfig(env, strategy);
+  const day = usageDay();
+  const tokenBudget = strategy.dailyTokenBudget;
+  const tokensBeforeTick = tokenBudget
+    ? await getDailyTokenTotal(env, tenantId, day)
+    : 0;
+
+  const messages: LlmMessage[] = [
     { role: "system", content: system },
     {
       role: "user",
@@ -148,36 +223,56 @@ export async function runAgentTick(input: {
 
   let failure: unknown;
   let stepCount = 0;
+  let llmCalls = 0;
+  let usage = emptyUsage();
+  let finishReason = "max-steps";
   try {
     for (let step = 0; step < maxSteps; step += 1) {
       stepCount = step + 1;
       if (Date.now() > deadlineMs) {
         log("warn", "agent tick deadline exceeded", { maxSteps });
+        finishReason = "deadline";
+        break;
+      }
+
+      const tokensToday = tokensBeforeTick + usage.totalTokens;
+      if (tokenBudget && tokensToday >= tokenBudget) {
+        // Same outcome as the agent calling control_finish itself.
+        log("warn", "agent finished", {
+          summary: `daily token budget reached (${tokensToday}/${tokenBudget} tokens)`,
+        });
+        rt.stopRequested = true;
+        finishReason = "daily-token-budget";
         break;
       }
 
       const remainingMs = deadlineMs - Date.now();
       // Bound each LLM call by remaining time; allow up to 30s since some models
-      // can be slower (and the HTTP layer already hard-caps to 30s in callLlm()).
+      // can be slower.
       const llmTimeoutMs = Math.max(1_000, Math.min(30_000, remainingMs - 500));
+      const llm = llmConfig
+        ? createLlmClient({ ...llmConfig, timeoutMs: llmTimeoutMs })
+        : input.llm;
+      if (!llm) throw new Error("missing-llm");
 
-      const response = await callLlm(env, {
-        messages,
-        tools,
-        modelOverride: strategy.model,
-        timeoutMs: llmTimeoutMs,
-      });
+      const response = await llm.generate(messages, tools);
+      llmCalls += 1;
+      usage = addUsage(usage, response.usage);
 
-      messages.push(response.assistantMessage);
+      messages.push(response.message);
 
-      const toolCalls = response.toolCalls;
+      const toolCalls = response.toolCalls ?? [];
       log("debug", "agent llm step", {
         step: step + 1,
         finishReason: response.finishReason,
-        toolCalls: toolCalls.map((c) => c.function.name),
+        toolCalls: toolCalls.map((c) => c.name),
+        // Assistant text alongside the tool calls; shown in the run viewer.
+        reasoning: response.text ?? undefined,
+        usage: response.usage,
       });
 
       if (toolCalls.length === 0) {
+        finishReason = "no-tool-calls";
         break;
       }
 
@@ -193,7 +288,7 @@ export async function runAgentTick(input: {
       }
 
       for (const call of bounded) {
-        const name = call.function.name;
+        const name = call.name;
         const handler = handlers[name];
         if (!handler) {
           log("warn", "unknown tool call", { name });
@@ -218,6 +313,15 @@ export async function runAgentTick(input: {
           const msg = err instanceof Error ? err.message : String(err);
           log("error", "agent tool failed", { name, err: msg });
           result = { ok: false, error: msg };
+          if (isPolicyRejection(msg)) {
+            await notifyBot(env, tenantId, {
+              type: "policy.rejected",
+              level: "warn",
+              title: "Agent trade rejected by policy",
+              message: msg,
+              metadata: { runId, tool: name },
+            });
+          }
         }
 
         messages.push({
@@ -229,12 +333,16 @@ export async function runAgentTick(input: {
         if (rt.stopRequested) break;
       }
 
-      if (rt.stopRequested) break;
+      if (rt.stopRequested) {
+        finishReason = "control_finish";
+        break;
+      }
     }
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     log("error", "agent tick failed", { err: msg });
     failure = err;
+    finishReason = "error";
   } finally {
     // Persist whatever memory updates happened before failure.
     await saveAgentMemory(env, tenantId, rt.memory).catch((err) => {
@@ -242,16 +350,47 @@ export async function runAgentTick(input: {
         err: err instanceof Error ? err.message : String(err),
       });
     });
-    await updateLoopState(env, tenantId, (current) => ({
-      ...current,
-      agent: { ...(current.agent ?? {}), lastTickAt: new Date().toISOString() },
-    })).catch((err) => {
-      log("warn", "failed to update loop state", {
-        err: err instanceof Error ? err.message : String(err),
+    await input.state
+      .update((current) => ({
+        ...current,
+        lastTickAt: new Date().toISOString(),
+      }))
+      .catch((err) => {
+        log("warn", "failed to update loop state", {
+          err: err instanceof Error ? err.message : String(err),
+        });
       });
-    });
+
+    const provider = llmConfig?.provider ?? "injected";
+    const model = llmConfig?.model ?? "injected";
+    const costUsd = estimateLlmCostUsd(
+      parseLlmPricing(env.LLM_PRICING),
+      model,
+      usage,
+    );
+    if (llmCalls > 0) {
+      await recordLlmUsage(env, {
+        tenantId,
+        day,
+        provider,
+        model,
+        calls: llmCalls,
+        usage,
+        costUsd,
+      }).catch((err) => {
+        log("warn", "failed to record llm usage", {
+          err: err instanceof Error ? err.message : String(err),
+        });
+      });
+    }
 
     log("info", "agent tick end", {
+      provider,
+      model,
+      llmCalls,
+      usage,
+      costUsd,
+      finishReason,
       steps: stepCount,
       stopRequested: rt.stopRequested,
       tradeExecuted: rt.tradeExecuted,
@@ -1,174 +1,96 @@
-import type { Env } from "./types";
+import {
+  LLM_PROVIDERS,
+  type LlmProvider,
+  type LlmProviderConfig,
+} from "../../../src/llm/index";
+import type { AgentStrategy, Env } from "./types";
 
-export type ChatTool = {
-  type: "function";
-  function: {
-    name: string;
-    description: string;
-    parameters: Record<string, unknown>;
-  };
-};
+// The agent talks to LLMs through the shared provider layer in src/llm (also
+// used by the local agent). This module only resolves which provider, model
+// and credentials a bot uses.
 
-export type ChatToolCall = {
-  id: string;
-  type?: string;
-  function: {
-    name: string;
-    arguments: string;
-  };
+type ProviderDefaults = {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
 };
 
-export type ChatMessage =
-  | { role: "system"; content: string }
-  | { role: "user"; content: string }
-  | {
-      role: "assistant";
-      content: string | null;
-      tool_calls?: ChatToolCall[];
-    }
-  | {
-      role: "tool";
-      tool_call_id: string;
-      content: string;
-    };
-
-type ChatCompletionResponse = {
-  choices?: Array<{
-    message?: {
-      role?: string;
-      content?: string | null;
-      tool_calls?: Array<{
-        id?: string;
-        type?: string;
-        function?: {
-          name?: string;
-          arguments?: string;
-        };
-      }>;
-      // Legacy function calling format.
-      function_call?: {
-        name?: string;
-        arguments?: string;
-      };
-    };
-    finish_reason?: string;
-  }>;
-};
-
-export async function callLlm(
-  env: Env,
-  input: {
-    messages: ChatMessage[];
-    tools: ChatTool[];
-    modelOverride?: string;
-    timeoutMs?: number;
-  },
-): Promise<{
-  assistantMessage: Extract<ChatMessage, { role: "assistant" }>;
-  toolCalls: ChatToolCall[];
-  finishReason?: string;
-}> {
-  const baseUrl = env.ZAI_BASE_URL;
-  if (!baseUrl) throw new Error("zai-base-url-missing");
-  const apiKey = env.ZAI_API_KEY;
-  if (!apiKey) throw new Error("zai-api-key-missing");
-  const model = input.modelOverride || env.ZAI_MODEL;
-  if (!model) throw new Error("zai-model-not-configured");
-
-  const timeoutMs = Math.max(
-    1_000,
-    Math.min(30_000, input.timeoutMs ?? 20_000),
+export function isLlmProvider(value: unknown): value is LlmProvider {
+  return (
+    typeof value === "string" &&
+    (LLM_PROVIDERS as readonly string[]).includes(value)
   );
-  // Trim trailing slashes so callers can pass either "https://host" or "https://host/".
-  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
-
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        messages: input.messages,
-        tools: input.tools,
-        tool_choice: "auto",
-        stream: false,
-      }),
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      const text = await response.text().catch(() => "");
-      throw new Error(
-        `llm-api-error: ${response.status} ${text.slice(0, 200)}`,
-      );
-    }
-
-    const payload = (await response.json()) as ChatCompletionResponse;
-    const choice = payload.choices?.[0];
-    const msg = choice?.message;
+}
 
-    const toolCalls = parseToolCalls(msg);
-    const assistantMessage: Extract<ChatMessage, { role: "assistant" }> = {
-      role: "assistant",
-      content: msg?.content ?? null,
-      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+function providerDefaults(env: Env, provider: LlmProvider): ProviderDefaults {
+  if (provider === "openai_responses") {
+    return {
+      baseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+      apiKey: env.OPENAI_API_KEY,
+      model: env.OPENAI_MODEL,
     };
-
+  }
+  if (provider === "anthropic_messages") {
     return {
-      assistantMessage,
-      toolCalls,
-      finishReason: choice?.finish_reason,
+      baseUrl: env.ANTHROPIC_BASE_URL || "https://api.anthropic.com/v1",
+      apiKey: env.ANTHROPIC_API_KEY,
+      model: env.ANTHROPIC_MODEL,
     };
-  } catch (err) {
-    if (err instanceof DOMException && err.name === "AbortError") {
-      throw new Error(`llm-timeout: ${timeoutMs}ms exceeded`);
-    }
-    throw err;
-  } finally {
-    clearTimeout(timer);
   }
+  // openai_chat keeps the original ZAI_* settings (any OpenAI-compatible host).
+  return {
+    baseUrl: env.ZAI_BASE_URL,
+    apiKey: env.ZAI_API_KEY,
+    model: env.ZAI_MODEL,
+  };
 }
 
-function parseToolCalls(
-  message: ChatCompletionResponse["choices"][number]["message"] | undefined,
-): ChatToolCall[] {
-  const calls = message?.tool_calls;
-  if (calls && calls.length > 0) {
-    const out: ChatToolCall[] = [];
-    for (const c of calls) {
-      const id = String(c.id ?? "").trim();
-      const name = String(c.function?.name ?? "").trim();
-      const args = String(c.function?.arguments ?? "");
-      if (!id || !name) continue;
-      out.push({
-        id,
-        type: c.type,
-        function: { name, arguments: args },
-      });
-    }
-    return out;
-  }
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+// Per-bot provider/model/baseUrl overrides from AgentStrategy, falling back to
+// env defaults. The operator's API key is only ever sent to the provider's
+// default base URL or to hosts listed in LLM_ALLOWED_BASE_URLS, so a bot
+// config cannot redirect it elsewhere.
+export function resolveAgentLlmConfig(
+  env: Env,
+  strategy: AgentStrategy,
+): LlmProviderConfig {
+  const provider =
+    strategy.provider ??
+    (isLlmProvider(env.LLM_PROVIDER) ? env.LLM_PROVIDER : "openai_chat");
+  const defaults = providerDefaults(env, provider);
 
-  // Legacy single function_call format; translate to a tool call.
-  const legacy = message?.function_call;
-  if (legacy?.name) {
-    return [
-      {
-        id: "legacy_function_call",
-        type: "function",
-        function: {
-          name: String(legacy.name),
-          arguments: String(legacy.arguments ?? ""),
-        },
-      },
-    ];
+  const baseUrl = normalizeBaseUrl(strategy.baseUrl || defaults.baseUrl || "");
+  if (!baseUrl) throw new Error("missing-llm-base-url");
+  if (
+    strategy.baseUrl &&
+    baseUrl !== normalizeBaseUrl(defaults.baseUrl ?? "")
+  ) {
+    const allowed = new Set(
+      (env.LLM_ALLOWED_BASE_URLS ?? "")
+        .split(",")
+        .map(normalizeBaseUrl)
+        .filter(Boolean),
+    );
+    if (!allowed.has(baseUrl)) throw new Error("invalid-agent-baseUrl");
   }
 
-  return [];
+  const apiKey = defaults.apiKey;
+  if (!apiKey) throw new Error("missing-llm-api-key");
+  const model = strategy.model || defaults.model;
+  if (!model) throw new Error("missing-llm-model");
+
+  return {
+    provider,
+    baseUrl,
+    apiKey,
+    model,
+    // The agent can only act through tools, so never fall back to plain text.
+    toolMode: "tools",
+    maxRetries: 2,
+    retryBaseMs: 500,
+    retryMaxMs: 4_000,
+  };
 }
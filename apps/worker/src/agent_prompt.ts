@@ -1,3 +1,7 @@
+import {
+  type IndicatorSnapshot,
+  summarizeIndicators,
+} from "../../../src/market/index";
 import type { NormalizedPolicy } from "./policy";
 import type { TradeIndexResult } from "./trade_index";
 import type { AgentMemory, AgentStrategy, MarketSnapshot } from "./types";
@@ -26,11 +30,30 @@ export function buildAgentSystemPrompt(input: {
   recentTrades: TradeIndexResult[];
   strategy: AgentStrategy;
   policy: NormalizedPolicy;
+  // Latest indicators over the recorded 1h candles, when there are any.
+  indicators?: IndicatorSnapshot | null;
+  // Summary of the bot owner's financial profile and the limits it implies.
+  suitability?: string | null;
 }): string {
-  const { memory, snapshot, recentTrades, strategy, policy } = input;
-
-  const maxTradesPerDay = strategy.maxTradesPerDay ?? 5;
+  const {
+    memory,
+    snapshot,
+    recentTrades,
+    strategy,
+    policy,
+    indicators,
+    suitability,
+  } = input;
+
+  const maxTradesPerDay =
+    policy.maxTradesPerDay > 0
+      ? Math.min(strategy.maxTradesPerDay ?? 5, policy.maxTradesPerDay)
+      : (strategy.maxTradesPerDay ?? 5);
   const remaining = Math.max(0, maxTradesPerDay - memory.tradesProposedToday);
+  const allowed = [
+    ...policy.allowedTiers.map((tier) => `${tier} tier`),
+    ...policy.allowedMints,
+  ];
 
   const observationsBlock =
     memory.observations.length > 0
@@ -86,17 +109,40 @@ SOL balance: ${snapshot.baseBalanceAtomic} lamports (${baseBalanceDisplay} SOL)
 Quote balance: ${snapshot.quoteBalanceAtomic} atomic (${quoteBalanceDisplay})
 SOL price: ${snapshot.basePriceQuote} quote per SOL
 Portfolio value: ${snapshot.portfolioValueQuote} quote
-SOL allocation: ${snapshot.baseAllocationPct}%
+SOL allocation: ${snapshot.baseAllocationPct}%${
+    strategy.portfolioMints && strategy.portfolioMints.length > 0
+      ? `\nTracked portfolio mints: ${strategy.portfolioMints.join(", ")} (use market_portfolio_snapshot for per-asset balances/allocations)`
+      : ""
+  }
+
+Indicators (1h candles, recorded by the worker):
+${
+  indicators && indicators.candles > 0
+    ? summarizeIndicators(indicators)
+    : "(no recorded candles yet)"
+}
+Use market_candles / market_indicators for other intervals or pairs.
 
 Recent trades:
 ${tradesBlock}
 
 YOUR MANDATE (from the fund manager):
 ${mandate}
-
+${
+  suitability
+    ? `
+CLIENT PROFILE (trade within what suits this client):
+${suitability}
+`
+    : ""
+}
 POLICY CONSTRAINTS (non-negotiable):
-Allowed mints: ${policy.allowedMints.length > 0 ? policy.allowedMints.join(", ") : "any"}
-Max price impact: ${(policy.maxPriceImpactPct * 100).toFixed(1)}%
+Allowed mints: ${allowed.length > 0 ? allowed.join(", ") : "any that pass safety screening"}
+Max price impact: ${(policy.maxPriceImpactPct * 100).toFixed(1)}%${
+    policy.maxTradeQuoteAtomic !== "0"
+      ? `\nMax trade value: ${policy.maxTradeQuoteAtomic} quote atomic`
+      : ""
+  }
 Slippage tolerance: ${policy.slippageBps} bps
 Min SOL reserve (fees/rent): ${policy.minSolReserveLamports} lamports
 Simulate-only mode: ${policy.simulateOnly}
@@ -1,11 +1,24 @@
-import type { ChatTool, ChatToolCall } from "./agent_llm";
+import type { LlmToolCall, ToolSchema } from "../../../src/llm/index";
+import {
+  CANDLE_INTERVALS,
+  isCandleInterval,
+  type MarketPair,
+  parseMarketPair,
+  summarizeIndicators,
+} from "../../../src/market/index";
 import { getLoopConfig } from "./config";
 import type { JupiterClient } from "./jupiter";
+import { recordConfirmedSwap, valueInQuote } from "./ledger";
+import { getMarketIndicators, listCandles } from "./market_data";
 import { addReflection, appendObservation, updateThesis } from "./memory";
+import { notifyBot, notifySwapResult } from "./notifications";
 import type { NormalizedPolicy } from "./policy";
 import { enforcePolicy, normalizePolicy } from "./policy";
-import { signTransactionWithPrivyById } from "./privy";
-import { gatherMarketSnapshot } from "./research";
+import { countersWithinTick } from "./policy_counters";
+import { resolvePriorityFee, submitSwap } from "./priority_fee";
+import { createTradeProposal, requiresApproval } from "./proposals";
+import { gatherMarketSnapshot, gatherPortfolioSnapshot } from "./research";
+import type { Signer } from "./signer";
 import type { SolanaRpc } from "./solana_rpc";
 import { swapWithRetry } from "./swap";
 import type { TradeIndexResult } from "./trade_index";
@@ -32,7 +45,7 @@ export type AgentToolRuntime = {
   wallet: string;
   policy: NormalizedPolicy;
   strategy: AgentStrategy;
-  privyWalletId?: string;
+  signer?: Signer;
   memory: AgentMemory;
   snapshot: MarketSnapshot;
   recentTrades: TradeIndexResult[];
@@ -43,7 +56,7 @@ export type AgentToolRuntime = {
 export type AgentToolHandler = (
   args: Record<string, unknown>,
   rt: AgentToolRuntime,
-  call?: ChatToolCall,
+  call?: LlmToolCall,
 ) => Promise<unknown>;
 
 type ToolDef = {
@@ -55,18 +68,15 @@ type ToolDef = {
 };
 
 export function buildAgentToolset(strategy: AgentStrategy): {
-  tools: ChatTool[];
+  tools: ToolSchema[];
   handlers: Record<string, AgentToolHandler>;
 } {
   const defs = filterTools(TOOLS, strategy);
   return {
     tools: defs.map((d) => ({
-      type: "function",
-      function: {
-        name: d.name,
-        description: d.description,
-        parameters: d.parameters,
-      },
+      name: d.name,
+      description: d.description,
+      parameters: d.parameters,
     })),
     handlers: Object.fromEntries(defs.map((d) => [d.name, d.handler])),
   };
@@ -206,6 +216,150 @@ const TOOLS: ToolDef[] = [
     },
   },
 
+  {
+    name: "market_portfolio_snapshot",
+    description:
+      "Get a multi-asset portfolio view: balance, value in the quote mint and allocation % for each mint.",
+    parameters: {
+      type: "object",
+      properties: {
+        mints: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Mints to include (default: the strategy's portfolioMints, or SOL)",
+        },
+      },
+      required: [],
+    },
+    handler: async (args, rt) => {
+      const requested = Array.isArray(args.mints)
+        ? args.mints.filter(
+            (m): m is string => typeof m === "string" && m.trim() !== "",
+          )
+        : [];
+      const mints = (
+        requested.length > 0
+          ? requested
+          : (rt.strategy.portfolioMints ?? [SOL_MINT])
+      ).slice(0, 20);
+      const portfolio = await gatherPortfolioSnapshot(
+        rt.rpc,
+        rt.jupiter,
+        rt.wallet,
+        rt.policy,
+        {
+          mints,
+          quoteMint: rt.strategy.quoteMint,
+          quoteDecimals: rt.strategy.quoteDecimals,
+        },
+      );
+      rt.log("info", "agent tool portfolio snapshot", {
+        totalValueQuote: portfolio.totalValueQuote,
+        holdings: portfolio.holdings.length,
+      });
+      return { ok: true, portfolio };
+    },
+  },
+
+  {
+    name: "market_candles",
+    description:
+      "Get OHLCV candles recorded by the worker's price sampler (oldest first). Prices are quote units per base unit.",
+    parameters: {
+      type: "object",
+      properties: {
+        pair: {
+          type: "string",
+          description:
+            'Base-quote pair, e.g. "SOL-USDC" or "<baseMint>-<quoteMint>" (default: SOL in the strategy quote mint)',
+        },
+        interval: { type: "string", enum: [...CANDLE_INTERVALS] },
+        limit: { type: "number", description: "1-200 (default 48)" },
+      },
+      required: ["interval"],
+    },
+    handler: async (args, rt) => {
+      const interval = String(args.interval ?? "");
+      if (!isCandleInterval(interval)) {
+        return { ok: false, error: "invalid-interval" };
+      }
+      let pair: MarketPair;
+      try {
+        pair =
+          typeof args.pair === "string" && args.pair.trim()
+            ? parseMarketPair(args.pair)
+            : { baseMint: SOL_MINT, quoteMint: rt.snapshot.quoteMint };
+      } catch {
+        return { ok: false, error: "invalid-market-pair" };
+      }
+      const limit = clampInt(args.limit, 48, 1, 200);
+      const candles = await listCandles(rt.env, pair, interval, limit);
+      rt.log("info", "agent tool market candles", {
+        pair: `${pair.baseMint}-${pair.quoteMint}`,
+        interval,
+        count: candles.length,
+      });
+      return { ok: true, pair, interval, candles };
+    },
+  },
+
+  {
+    name: "market_indicators",
+    description:
+      "Compute SMA20, EMA12/26, RSI14, MACD, Bollinger(20,2), ATR14, realized volatility and VWAP over recorded candles. Deterministic; prefer this over eyeballing prices.",
+    parameters: {
+      type: "object",
+      properties: {
+        pair: {
+          type: "string",
+          description:
+            'Base-quote pair, e.g. "SOL-USDC" (default: SOL in the strategy quote mint)',
+        },
+        interval: { type: "string", enum: [...CANDLE_INTERVALS] },
+        limit: {
+          type: "number",
+          description: "Candles to use, 30-1000 (default 200)",
+        },
+      },
+      required: ["interval"],
+    },
+    handler: async (args, rt) => {
+      const interval = String(args.interval ?? "");
+      if (!isCandleInterval(interval)) {
+        return { ok: false, error: "invalid-interval" };
+      }
+      let pair: MarketPair;
+      try {
+        pair =
+          typeof args.pair === "string" && args.pair.trim()
+            ? parseMarketPair(args.pair)
+            : { baseMint: SOL_MINT, quoteMint: rt.snapshot.quoteMint };
+      } catch {
+        return { ok: false, error: "invalid-market-pair" };
+      }
+      const limit = clampInt(args.limit, 200, 30, 1000);
+      const indicators = await getMarketIndicators(
+        rt.env,
+        pair,
+        interval,
+        limit,
+      );
+      rt.log("info", "agent tool market indicators", {
+        pair: `${pair.baseMint}-${pair.quoteMint}`,
+        interval,
+        candles: indicators.candles,
+      });
+      return {
+        ok: true,
+        pair,
+        interval,
+        indicators,
+        summary: summarizeIndicators(indicators),
+      };
+    },
+  },
+
   {
     name: "market_token_balance",
     description:
@@ -272,7 +426,7 @@ const TOOLS: ToolDef[] = [
         slippageBps,
         swapMode,
       });
-      enforcePolicy(rt.policy, quote);
+      await enforcePolicy(rt.policy, quote);
       const summary = quoteSummary(quote as Record<string, unknown>);
       rt.log("info", "agent tool jupiter quote", summary);
       return { ok: true, quote: summary };
@@ -389,7 +543,7 @@ const TOOLS: ToolDef[] = [
   {
     name: "trade_jupiter_swap",
     description:
-      "Execute a Jupiter swap for this bot. Honors policy (allowed mints, price impact, caps, dryRun/simulateOnly).",
+      "Execute a Jupiter swap for this bot. Honors policy (allowed mints, price impact, caps, dryRun/simulateOnly). With an approval mode set, may return status pending_approval instead; the trade then runs on a later tick once a user approves it.",
     parameters: {
       type: "object",
       properties: {
@@ -490,7 +644,7 @@ const TOOLS: ToolDef[] = [
         slippageBps: rt.policy.slippageBps,
         swapMode: "ExactIn",
       });
-      enforcePolicy(rt.policy, quote);
+      await enforcePolicy(rt.policy, quote);
 
       // Count this trade attempt once we've got a valid quote.
       rt.memory.tradesProposedToday += 1;
@@ -503,6 +657,52 @@ const TOOLS: ToolDef[] = [
         confidence,
       });
 
+      if ((rt.strategy.approvalMode ?? "auto") !== "auto") {
+        const valueQuoteAtomic = await valueInQuote(
+          rt.jupiter,
+          inputMint,
+          amountAtomic,
+          rt.policy.slippageBps,
+        );
+        if (requiresApproval(rt.strategy, valueQuoteAtomic)) {
+          const proposal = await createTradeProposal(rt.env, {
+            tenantId: rt.tenantId,
+            runId: rt.runId,
+            inputMint,
+            outputMint,
+            amount,
+            reasoning,
+            confidence,
+            quote: quoteSummary(quote as Record<string, unknown>),
+            valueQuoteAtomic,
+            ttlMinutes: rt.strategy.approvalTtlMinutes,
+          });
+          rt.log("info", "agent trade proposed for approval", {
+            proposalId: proposal.id,
+            valueQuoteAtomic: proposal.valueQuoteAtomic,
+            expiresAt: proposal.expiresAt,
+          });
+          await notifyBot(rt.env, rt.tenantId, {
+            type: "trade.proposed",
+            level: "info",
+            title: "Trade awaiting approval",
+            message: `Swap ${amount} of ${inputMint} for ${outputMint}: ${reasoning}`,
+            metadata: {
+              runId: rt.runId,
+              proposalId: proposal.id,
+              expiresAt: proposal.expiresAt,
+            },
+          });
+          return {
+            ok: true,
+            status: "pending_approval",
+            proposalId: proposal.id,
+            expiresAt: proposal.expiresAt,
+            quote: quoteSummary(quote as Record<string, unknown>),
+          };
+        }
+      }
+
       if (rt.policy.dryRun) {
         await insertTradeIndex(rt.env, {
           tenantId: rt.tenantId,
@@ -526,11 +726,19 @@ const TOOLS: ToolDef[] = [
 
       await assertLoopStillEnabled(rt.env, rt.log, rt.configTenantId);
 
+      const fee = await resolvePriorityFee(rt.rpc, rt.policy, quote);
+
       const {
         swap,
         quoteResponse: usedQuote,
         refreshed,
-      } = await swapWithRetry(rt.jupiter, quote, rt.wallet, rt.policy);
+      } = await swapWithRetry(
+        rt.jupiter,
+        quote,
+        rt.wallet,
+        rt.policy,
+        fee.params,
+      );
       if (refreshed) {
         rt.log("warn", "agent: quote refreshed due to swap 422", {
           inAmount: usedQuote.inAmount,
@@ -538,11 +746,9 @@ const TOOLS: ToolDef[] = [
         });
       }
 
-      if (!rt.privyWalletId) throw new Error("missing-privy-wallet-id");
-      rt.log("info", "signing transaction", { walletId: rt.privyWalletId });
-      const signedBase64 = await signTransactionWithPrivyById(
-        rt.env,
-        rt.privyWalletId,
+      if (!rt.signer) throw new Error("missing-signer");
+      rt.log("info", "signing transaction", { signer: rt.signer.type });
+      const signedBase64 = await rt.signer.signTransaction(
         swap.swapTransaction,
       );
       rt.log("info", "transaction signed");
@@ -580,29 +786,26 @@ const TOOLS: ToolDef[] = [
 
       await assertLoopStillEnabled(rt.env, rt.log, rt.configTenantId);
 
-      const signature = await rt.rpc.sendTransactionBase64(signedBase64, {
-        skipPreflight: rt.policy.skipPreflight,
-        preflightCommitment: rt.policy.commitment,
-      });
-
-      rt.log("info", "agent tx submitted", {
-        signature,
-        lastValidBlockHeight: swap.lastValidBlockHeight,
-      });
-
-      const confirmation = await rt.rpc.confirmSignature(signature, {
-        commitment: rt.policy.commitment,
+      const submitted = await submitSwap({
+        rpc: rt.rpc,
+        jupiter: rt.jupiter,
+        signer: rt.signer,
+        wallet: rt.wallet,
+        policy: rt.policy,
+        quote: usedQuote,
+        swap,
+        signedBase64,
+        fee,
+        log: rt.log,
       });
-      const status = confirmation.ok
-        ? (confirmation.status ?? "confirmed")
-        : "error";
-      rt.log(confirmation.ok ? "info" : "warn", "agent tx confirmation", {
+      const { signature, status } = submitted;
+      rt.log(submitted.ok ? "info" : "warn", "agent tx confirmation", {
         signature,
         status,
-        err: confirmation.err ?? null,
+        err: submitted.err ?? null,
       });
 
-      await insertTradeIndex(rt.env, {
+      const counters = await insertTradeIndex(rt.env, {
         tenantId: rt.tenantId,
         runId: rt.runId,
         venue: "jupiter",
@@ -613,14 +816,46 @@ const TOOLS: ToolDef[] = [
         status,
         logKey: rt.logKey,
         signature,
+        lastValidBlockHeight: submitted.lastValidBlockHeight,
+        priorityFeeLamports: submitted.priorityFeeLamports,
+        submitAttempts: submitted.attempts,
+        replacedSignatures: submitted.replacedSignatures,
         reasoning,
       });
+      if (counters && rt.policy.counters) {
+        rt.policy.counters = countersWithinTick(rt.policy.counters, counters);
+      }
+      try {
+        await recordConfirmedSwap({
+          env: rt.env,
+          rpc: rt.rpc,
+          jupiter: rt.jupiter,
+          tenantId: rt.tenantId,
+          runId: rt.runId,
+          wallet: rt.wallet,
+          signature,
+          status,
+          quote: usedQuote,
+          slippageBps: rt.policy.slippageBps,
+        });
+      } catch (err) {
+        rt.log("warn", "failed to record ledger swap", {
+          signature,
+          err: err instanceof Error ? err.message : String(err),
+        });
+      }
+      await notifySwapResult(rt.env, rt.tenantId, {
+        runId: rt.runId,
+        signature,
+        status,
+        quote: usedQuote,
+      });
 
       return {
-        ok: confirmation.ok,
+        ok: submitted.ok,
         signature,
         status,
-        err: confirmation.err ?? null,
+        err: submitted.err ?? null,
       };
     },
   },
@@ -0,0 +1,242 @@
+import type { Env } from "./types";
+
+// read: GET routes. trade: start/stop/tick, breaker reset and TWAP cancel.
+// config: config, notifications and memory writes plus bot creation. Any
+// scope grants read.
+export const API_KEY_SCOPES = ["read", "trade", "config"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_PREFIX = "rk_";
+
+export type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type ApiKeyPrincipal = {
+  userId: string;
+  keyId: string;
+  scopes: ApiKeyScope[];
+};
+
+const MAX_KEYS_PER_USER = 20;
+const MAX_EXPIRY_DAYS = 365;
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return (
+    typeof value === "string" &&
+    (API_KEY_SCOPES as readonly string[]).includes(value)
+  );
+}
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export function hasApiKeyScope(
+  scopes: ApiKeyScope[],
+  required: ApiKeyScope,
+): boolean {
+  if (required === "read") return scopes.length > 0;
+  return scopes.includes(required);
+}
+
+// Scope a /api/bots/:id/<action>/<sub> request needs. Backtests only read
+// market data, so they count as reads.
+export function scopeForBotRoute(
+  method: string,
+  action: string,
+  sub: string | undefined,
+): ApiKeyScope {
+  if (method === "GET" || action === "backtest") return "read";
+  if (action === "policy" && sub === "evaluate") return "read";
+  if (action === "start" || action === "stop" || action === "tick") {
+    return "trade";
+  }
+  if (action === "breaker" && sub === "reset") return "trade";
+  if (action === "execution" && sub === "cancel") return "trade";
+  // Approving or rejecting an agent trade proposal.
+  if (action === "proposals") return "trade";
+  return "config";
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key),
+  );
+  return toHex(digest);
+}
+
+// D1 datetime() format, so expiry compares as text against datetime('now').
+function d1Datetime(date: Date): string {
+  return date.toISOString().replace("T", " ").slice(0, 19);
+}
+
+function parseScopes(raw: unknown): ApiKeyScope[] {
+  return String(raw ?? "")
+    .split(",")
+    .filter(isApiKeyScope);
+}
+
+function mapApiKeyRow(row: Record<string, unknown>): ApiKeyRow {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    prefix: String(row.prefix),
+    scopes: parseScopes(row.scopes),
+    expiresAt: row.expires_at ? String(row.expires_at) : null,
+    lastUsedAt: row.last_used_at ? String(row.last_used_at) : null,
+    revokedAt: row.revoked_at ? String(row.revoked_at) : null,
+    createdAt: String(row.created_at),
+  };
+}
+
+export function parseApiKeyInput(payload: Record<string, unknown>): {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays: number | null;
+} {
+  const name = String(payload.name ?? "").trim();
+  if (!name || name.length > 100) throw new Error("invalid-api-key-name");
+  const scopes = payload.scopes;
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every(isApiKeyScope)
+  ) {
+    throw new Error("invalid-api-key-scopes");
+  }
+  let expiresInDays: number | null = null;
+  if (payload.expiresInDays !== undefined && payload.expiresInDays !== null) {
+    const days = Number(payload.expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      throw new Error("invalid-api-key-expiresInDays");
+    }
+    expiresInDays = days;
+  }
+  return { name, scopes: [...new Set(scopes)], expiresInDays };
+}
+
+// Returns the plaintext key once; only its hash is stored.
+export async function createApiKey(
+  env: Env,
+  userId: string,
+  input: { name: string; scopes: ApiKeyScope[]; expiresInDays: number | null },
+): Promise<{ key: string; apiKey: ApiKeyRow }> {
+  const active = (await env.WAITLIST_DB.prepare(
+    "SELECT COUNT(*) as count FROM api_keys WHERE user_id = ?1 AND revoked_at IS NULL",
+  )
+    .bind(userId)
+    .first()) as { count?: number } | null;
+  if (Number(active?.count ?? 0) >= MAX_KEYS_PER_USER) {
+    throw new Error("invalid-api-key-limit");
+  }
+
+  const key = `${API_KEY_PREFIX}${base64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+  const id = crypto.randomUUID();
+  const prefix = key.slice(0, 10);
+  const expiresAt = input.expiresInDays
+    ? d1Datetime(new Date(Date.now() + input.expiresInDays * 86_400_000))
+    : null;
+  await env.WAITLIST_DB.prepare(
+    "INSERT INTO api_keys (id, user_id, name, prefix, key_hash, scopes, expires_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)",
+  )
+    .bind(
+      id,
+      userId,
+      input.name,
+      prefix,
+      await hashApiKey(key),
+      input.scopes.join(","),
+      expiresAt,
+    )
+    .run();
+
+  return {
+    key,
+    apiKey: {
+      id,
+      name: input.name,
+      prefix,
+      scopes: input.scopes,
+      expiresAt,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: d1Datetime(new Date()),
+    },
+  };
+}
+
+export async function listApiKeys(
+  env: Env,
+  userId: string,
+): Promise<ApiKeyRow[]> {
+  const result = await env.WAITLIST_DB.prepare(
+    "SELECT id, name, prefix, scopes, expires_at, last_used_at, revoked_at, created_at FROM api_keys WHERE user_id = ?1 ORDER BY created_at DESC",
+  )
+    .bind(userId)
+    .all();
+  return (result.results ?? []).map((row) =>
+    mapApiKeyRow(row as Record<string, unknown>),
+  );
+}
+
+export async function revokeApiKey(
+  env: Env,
+  userId: string,
+  keyId: string,
+): Promise<void> {
+  const res = await env.WAITLIST_DB.prepare(
+    "UPDATE api_keys SET revoked_at = COALESCE(revoked_at, datetime('now')) WHERE id = ?1 AND user_id = ?2",
+  )
+    .bind(keyId, userId)
+    .run();
+  if ((res.meta?.changes ?? 0) <= 0) throw new Error("not-found");
+}
+
+// Null for unknown, revoked or expired keys. Touches last_used_at.
+export async function authenticateApiKey(
+  env: Env,
+  key: string,
+): Promise<ApiKeyPrincipal | null> {
+  const row = (await env.WAITLIST_DB.prepare(
+    "SELECT id, user_id, scopes FROM api_keys WHERE key_hash = ?1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > datetime('now'))",
+  )
+    .bind(await hashApiKey(key))
+    .first()) as Record<string, unknown> | null;
+  if (!row) return null;
+
+  const keyId = String(row.id);
+  await env.WAITLIST_DB.prepare(
+    "UPDATE api_keys SET last_used_at = datetime('now') WHERE id = ?1",
+  )
+    .bind(keyId)
+    .run();
+  return {
+    userId: String(row.user_id),
+    keyId,
+    scopes: parseScopes(row.scopes),
+  };
+}
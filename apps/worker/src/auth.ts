@@ -1,11 +1,24 @@
 import { createRemoteJWKSet, jwtVerify } from "jose";
-
+import {
+  type ApiKeyScope,
+  authenticateApiKey,
+  hasApiKeyScope,
+  isApiKeyToken,
+} from "./api_keys";
+import { upsertUser } from "./bots_db";
 import type { Env } from "./types";
 
 type AuthUser = {
   privyUserId: string;
 };
 
+// `scopes` is null for portal sessions, which may do anything the user can.
+export type RequestPrincipal = {
+  userId: string;
+  apiKeyId: string | null;
+  scopes: ApiKeyScope[] | null;
+};
+
 let cachedJwksAppId: string | null = null;
 let cachedJwks: ReturnType<typeof createRemoteJWKSet> | null = null;
 
@@ -58,3 +71,28 @@ export async function requireUser(
 
   return { privyUserId };
 }
+
+// Accepts a portal (Privy) session or a scoped API key.
+export async function requireUserOrApiKey(
+  request: Request,
+  env: Env,
+): Promise<RequestPrincipal> {
+  const token = getBearerToken(request);
+  if (token && isApiKeyToken(token)) {
+    const key = await authenticateApiKey(env, token);
+    if (!key) throw new Error("unauthorized");
+    return { userId: key.userId, apiKeyId: key.keyId, scopes: key.scopes };
+  }
+  const auth = await requireUser(request, env);
+  const user = await upsertUser(env, auth.privyUserId);
+  return { userId: user.id, apiKeyId: null, scopes: null };
+}
+
+export function requireScope(
+  principal: RequestPrincipal,
+  scope: ApiKeyScope,
+): void {
+  if (principal.scopes && !hasApiKeyScope(principal.scopes, scope)) {
+    throw new Error("forbidden");
+  }
+}
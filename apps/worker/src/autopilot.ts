@@ -0,0 +1,277 @@
+import { checkCircuitBreakers, formatTrip } from "./circuit_breaker";
+import { getLoopConfig } from "./config";
+import { JupiterClient } from "./jupiter";
+import { acquireLoopLock, releaseLoopLock } from "./lock";
+import { createStrategyTickContext } from "./loop";
+import { notifyBot } from "./notifications";
+import {
+  isPolicyRejection,
+  type NormalizedPolicy,
+  normalizePolicy,
+} from "./policy";
+import { getPolicyCounters } from "./policy_counters";
+import { createSignerFromEnv, type Signer } from "./signer";
+import { SolanaRpc } from "./solana_rpc";
+import { getLoopState } from "./state";
+import { strategyDefinitionFor } from "./strategies";
+import type { StrategyLogFn } from "./strategy_sdk";
+import { applySuitabilityCeilings, getBotSuitability } from "./suitability";
+import { startTickRun } from "./tick_run";
+import { TokenScreener } from "./token_safety";
+import type { Env } from "./types";
+
+// Autopilot tick: config, kill switch, circuit breakers, then the registered
+// strategy's tick. Strategy logic itself lives behind the registry. The
+// legacy single-tenant loop and BotLoop run the same tick; they differ only
+// in where the config and signer come from.
+
+export type TickResult = {
+  ok: boolean;
+  error: string | null;
+  runId: string;
+  logKey: string;
+};
+
+type TickTarget = {
+  tenantId: string;
+  // D1 config row; unset reads the legacy KV config.
+  configTenantId?: string;
+  // Resolved once the policy is known: dry runs need no signer.
+  wallet: (
+    policy: NormalizedPolicy,
+  ) => Promise<{ wallet: string; signer?: Signer }>;
+};
+
+export async function runAutopilotTick(
+  env: Env,
+  ctx: ExecutionContext,
+  reason: "cron" | "manual" = "cron",
+): Promise<TickResult> {
+  return await runTick(
+    env,
+    ctx,
+    {
+      tenantId: env.TENANT_ID ?? "default",
+      wallet: async (policy) => {
+        const signer = policy.dryRun ? undefined : createSignerFromEnv(env);
+        return { wallet: await resolveWalletAddress(env, signer), signer };
+      },
+    },
+    reason,
+    true,
+  );
+}
+
+export type TenantTickInput = {
+  tenantId: string;
+  walletAddress: string;
+  // Required for live trading / simulation. Not required for dry-runs.
+  signer?: Signer;
+};
+
+export async function runAutopilotTickForTenant(
+  env: Env,
+  ctx: ExecutionContext,
+  input: TenantTickInput,
+  reason: "cron" | "manual" = "cron",
+  opts?: { skipLock?: boolean },
+): Promise<TickResult> {
+  return await runTick(
+    env,
+    ctx,
+    {
+      tenantId: input.tenantId,
+      configTenantId: input.tenantId,
+      wallet: async () => ({
+        wallet: input.walletAddress,
+        signer: input.signer,
+      }),
+    },
+    reason,
+    !opts?.skipLock,
+  );
+}
+
+async function runTick(
+  env: Env,
+  ctx: ExecutionContext,
+  target: TickTarget,
+  reason: "cron" | "manual",
+  shouldLock: boolean,
+): Promise<TickResult> {
+  const { tenantId, configTenantId } = target;
+  const run = startTickRun(env, tenantId, reason);
+  const { runId, logKey, log } = run;
+  let ok = true;
+  let errorMessage: string | null = null;
+
+  if (shouldLock) {
+    const locked = await acquireLoopLock(env, tenantId, runId);
+    if (!locked) {
+      log("warn", "tick skipped (lock held)");
+      await run.finish(null);
+      return { ok: true, error: null, runId, logKey };
+    }
+  }
+
+  try {
+    const config = await getLoopConfig(env, configTenantId);
+    if (!config.enabled) {
+      log("info", "loop disabled");
+      return { ok: true, error: null, runId, logKey };
+    }
+
+    // Suitability ceilings come from the bot owner's profile.
+    const suitability = await getBotSuitability(env, tenantId);
+    const policy = applySuitabilityCeilings(
+      normalizePolicy(config.policy),
+      suitability?.ceilings ?? null,
+    );
+    if (policy.killSwitch) {
+      log("warn", "kill switch enabled");
+      // A tripped breaker keeps failing the tick so bots.last_error keeps
+      // saying why the bot is halted.
+      const tripped = (await getLoopState(env, tenantId)).risk?.tripped;
+      if (tripped) {
+        ok = false;
+        errorMessage = formatTrip(tripped);
+      }
+      return { ok, error: errorMessage, runId, logKey };
+    }
+
+    const strategy = config.strategy;
+    const definition = strategyDefinitionFor(strategy);
+    if (!strategy || !definition || definition.type === "noop") {
+      log("info", "no strategy configured");
+      return { ok: true, error: null, runId, logKey };
+    }
+
+    const rpc = SolanaRpc.fromEnv(env);
+    policy.tokenScreener = new TokenScreener(env, rpc);
+    policy.counters = await getPolicyCounters(env, tenantId);
+    const jupiter = new JupiterClient(
+      // Jupiter introduced a gateway with new hostnames. The lite host is intended
+      // for free/testing (no API key), while the pro host requires an API key.
+      // See: https://dev.jup.ag/updates
+      env.JUPITER_BASE_URL ?? "https://lite-api.jup.ag",
+      env.JUPITER_API_KEY,
+    );
+
+    const { wallet, signer } = await target.wallet(policy);
+    if (!policy.dryRun && !signer) {
+      ok = false;
+      errorMessage = "missing-signer";
+      log("error", "missing signer for live tick");
+      return { ok, error: errorMessage, runId, logKey };
+    }
+
+    const trip = await checkCircuitBreakers({
+      env,
+      tenantId,
+      configTenantId,
+      rpc,
+      jupiter,
+      wallet,
+      policy,
+      log,
+    });
+    if (trip) {
+      ok = false;
+      errorMessage = formatTrip(trip);
+      await notifyBot(env, tenantId, {
+        type: "killswitch.tripped",
+        level: "error",
+        title: "Circuit breaker tripped; kill switch enabled",
+        message: trip.message,
+        metadata: { runId, reason: trip.reason },
+      });
+      return { ok, error: errorMessage, runId, logKey };
+    }
+
+    if (dailyTradeLimitReached(policy, log)) {
+      return { ok, error: errorMessage, runId, logKey };
+    }
+
+    log("info", "tick start", {
+      strategy: definition.type,
+      dryRun: policy.dryRun,
+      simulateOnly: policy.simulateOnly,
+    });
+
+    await definition.tick(
+      createStrategyTickContext(
+        {
+          env,
+          ctx,
+          tenantId,
+          configTenantId,
+          runId,
+          logKey,
+          log,
+          rpc,
+          jupiter,
+          wallet,
+          policy,
+          strategy,
+          signer,
+        },
+        definition.initialState,
+      ),
+    );
+    return { ok, error: errorMessage, runId, logKey };
+  } catch (err) {
+    ok = false;
+    errorMessage = err instanceof Error ? err.message : String(err);
+    log("error", "tick failed", {
+      err: err instanceof Error ? err.message : String(err),
+    });
+    if (isPolicyRejection(errorMessage)) {
+      await notifyBot(env, tenantId, {
+        type: "policy.rejected",
+        level: "warn",
+        title: "Trade rejected by policy",
+        message: errorMessage,
+        metadata: { runId },
+      });
+    }
+  } finally {
+    if (shouldLock) {
+      await releaseLoopLock(env, tenantId, runId);
+    }
+    await run.finish(errorMessage);
+    ctx.waitUntil(Promise.resolve());
+  }
+
+  return { ok, error: errorMessage, runId, logKey };
+}
+
+// Counts swaps sent today (the policy counters); dry runs and simulations
+// never reach the chain and do not count.
+function dailyTradeLimitReached(
+  policy: NormalizedPolicy,
+  log: StrategyLogFn,
+): boolean {
+  if (policy.maxTradesPerDay === 0) return false;
+  const tradesToday = policy.counters?.trades ?? 0;
+  if (tradesToday < policy.maxTradesPerDay) return false;
+  log("info", "daily trade limit reached", {
+    tradesToday,
+    maxTradesPerDay: policy.maxTradesPerDay,
+  });
+  return true;
+}
+
+async function resolveWalletAddress(
+  env: Env,
+  signer: Signer | undefined,
+): Promise<string> {
+  // For dry-runs we don't want to require a signer; we just need *some* address to query balances.
+  if (!signer) {
+    return (
+      env.DRYRUN_WALLET_ADDRESS ??
+      // System program address; fine for balance queries, never used for signing.
+      "11111111111111111111111111111111"
+    );
+  }
+  return await signer.getAddress();
+}
@@ -0,0 +1,884 @@
+import {
+  currentPolicyCounters,
+  type PolicyCounters,
+  recordPolicyTrade,
+} from "../../../src/policy/index";
+import type { JupiterQuoteResponse } from "./jupiter";
+import {
+  checkPolicyLimits,
+  type NormalizedPolicy,
+  normalizePolicy,
+} from "./policy";
+import { checkDcaFunds, isDcaDue, planRebalance } from "./strategy_plan";
+import {
+  applySuitabilityCeilings,
+  type SuitabilityCeilings,
+} from "./suitability";
+import type { TokenScreen } from "./token_safety";
+import {
+  evaluateTriggers,
+  markTriggerFilled,
+  type TriggerStates,
+} from "./triggers";
+import type {
+  AgentDecision,
+  AgentStrategy,
+  DcaStrategy,
+  LoopConfig,
+  MarketSnapshot,
+  RebalanceStrategy,
+  TriggersStrategy,
+} from "./types";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const MAX_CANDLES = 10_000;
+const ATOMIC = /^\d+$/;
+
+// Same shape as the local `market.candles` tool: unix seconds + OHLCV strings,
+// prices expressed as quote per base in UI units.
+export type BacktestCandle = {
+  t: number;
+  o: string;
+  h: string;
+  l: string;
+  c: string;
+  v: string;
+};
+
+export type BacktestPair = {
+  baseMint: string;
+  quoteMint: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+};
+
+export type BacktestQuoteModel = {
+  // Venue/platform fee taken from the output amount.
+  feeBps?: number;
+  // Realized slippage applied to the output amount (on top of price impact).
+  slippageBps?: number;
+  // Pool depth in quote UI units; impact = notional / (depth + notional).
+  depthQuote?: number;
+  // Network fee charged in lamports per executed swap.
+  txFeeLamports?: number;
+};
+
+export type BacktestBalances = {
+  baseAtomic: string;
+  quoteAtomic: string;
+  // SOL for network fees and the reserve when neither side of the pair is
+  // SOL. Ignored otherwise: the SOL side of the pair pays.
+  solLamports?: string;
+};
+
+export type BacktestAgentDecider = (input: {
+  index: number;
+  candle: BacktestCandle;
+  snapshot: MarketSnapshot;
+}) => AgentDecision | null;
+
+export type BacktestInput = {
+  config: LoopConfig;
+  candles: BacktestCandle[];
+  pair?: Partial<BacktestPair>;
+  initialBalances: BacktestBalances;
+  quoteModel?: BacktestQuoteModel;
+  // Agent strategies need a deterministic decision source; LLM calls against
+  // historical data are neither cheap nor repeatable.
+  agentDecider?: BacktestAgentDecider;
+  // The owner's suitability ceilings, applied as on a live tick.
+  ceilings?: SuitabilityCeilings | null;
+  // Screens of the pair's non-bluechip mints. Without one, a tier allowlist
+  // rejects the mint with token-not-screened.
+  screens?: TokenScreen[];
+};
+
+export type BacktestTrade = {
+  ts: string;
+  side: string;
+  status: "filled" | "rejected";
+  reason: string | null;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  feeAtomic: string;
+  priceImpactPct: number;
+  price: number;
+};
+
+export type BacktestEquityPoint = {
+  ts: string;
+  price: number;
+  baseAtomic: string;
+  quoteAtomic: string;
+  valueQuote: number;
+};
+
+export type BacktestMetrics = {
+  ticks: number;
+  trades: number;
+  rejected: number;
+  startValueQuote: number;
+  endValueQuote: number;
+  // Fractions (0.05 = 5%), matching the policy's *Pct conventions.
+  returnPct: number;
+  maxDrawdownPct: number;
+  sharpe: number;
+  turnover: number;
+  feesQuote: number;
+};
+
+export type BacktestResult = {
+  strategy: string;
+  pair: BacktestPair;
+  equity: BacktestEquityPoint[];
+  trades: BacktestTrade[];
+  metrics: BacktestMetrics;
+};
+
+// sol is only spent when neither pair mint is SOL; see solSide().
+type SimWallet = { base: bigint; quote: bigint; sol: bigint };
+
+type TickContext = {
+  index: number;
+  candle: BacktestCandle;
+  ts: string;
+  nowMs: number;
+  price: number;
+  pair: BacktestPair;
+  // Carries the simulated policy counters as of this tick.
+  policy: NormalizedPolicy;
+  screens: Map<string, TokenScreen>;
+  model: Required<BacktestQuoteModel>;
+  wallet: SimWallet;
+  trades: BacktestTrade[];
+};
+
+export function runBacktest(input: BacktestInput): BacktestResult {
+  const candles = [...input.candles].sort((a, b) => a.t - b.t);
+  if (candles.length === 0) throw new Error("invalid-backtest-candles");
+  if (candles.length > MAX_CANDLES) {
+    throw new Error("invalid-backtest-candles-too-many");
+  }
+
+  const pair: BacktestPair = {
+    baseMint: input.pair?.baseMint ?? SOL_MINT,
+    quoteMint: input.pair?.quoteMint ?? USDC_MINT,
+    baseDecimals: input.pair?.baseDecimals ?? 9,
+    quoteDecimals: input.pair?.quoteDecimals ?? 6,
+  };
+  const model: Required<BacktestQuoteModel> = {
+    feeBps: Math.max(0, input.quoteModel?.feeBps ?? 0),
+    slippageBps: Math.max(0, input.quoteModel?.slippageBps ?? 0),
+    depthQuote: Math.max(0, input.quoteModel?.depthQuote ?? 1_000_000),
+    txFeeLamports: Math.max(0, input.quoteModel?.txFeeLamports ?? 5_000),
+  };
+
+  const policy = applySuitabilityCeilings(
+    normalizePolicy(input.config.policy),
+    input.ceilings ?? null,
+  );
+  const screens = new Map(
+    (input.screens ?? []).map((screen) => [screen.mint, screen]),
+  );
+  const strategy = input.config.strategy ?? { type: "noop" as const };
+  if (strategy.type === "portfolio") {
+    // Backtests replay a single base/quote candle series.
+    throw new Error("invalid-backtest-strategy-portfolio");
+  }
+  if (strategy.type === "agent" && !input.agentDecider) {
+    throw new Error("missing-backtest-agent-decider");
+  }
+
+  const wallet: SimWallet = {
+    base: parseAtomic(input.initialBalances.baseAtomic),
+    quote: parseAtomic(input.initialBalances.quoteAtomic),
+    sol: parseAtomic(input.initialBalances.solLamports ?? "0"),
+  };
+  const trades: BacktestTrade[] = [];
+  const equity: BacktestEquityPoint[] = [];
+  const state: {
+    dcaLastAt?: string;
+    agentDay?: string;
+    agentTrades: number;
+    triggers?: TriggerStates;
+    counters: PolicyCounters | null;
+  } = { agentTrades: 0, counters: null };
+
+  candles.forEach((candle, index) => {
+    const price = Number(candle.c);
+    if (!Number.isFinite(price) || price <= 0) return;
+    const nowMs = candle.t * 1000;
+    const ctx: TickContext = {
+      index,
+      candle,
+      ts: new Date(nowMs).toISOString(),
+      nowMs,
+      price,
+      pair,
+      policy: {
+        ...policy,
+        counters: currentPolicyCounters(state.counters, new Date(nowMs)),
+      },
+      screens,
+      model,
+      wallet,
+      trades,
+    };
+
+    // Mirrors runAutopilotTickForTenant: a kill switch halts every tick, and
+    // so does reaching maxTradesPerDay.
+    if (!policy.killSwitch && !dailyTradeLimitReached(ctx.policy)) {
+      if (strategy.type === "dca") {
+        if (tickDca(ctx, strategy, state.dcaLastAt)) state.dcaLastAt = ctx.ts;
+      } else if (strategy.type === "rebalance") {
+        tickRebalance(ctx, strategy);
+      } else if (strategy.type === "triggers") {
+        state.triggers = tickTriggers(ctx, strategy, state.triggers);
+      } else if (strategy.type === "agent" && input.agentDecider) {
+        const day = ctx.ts.slice(0, 10);
+        if (state.agentDay !== day) {
+          state.agentDay = day;
+          state.agentTrades = 0;
+        }
+        const decision = input.agentDecider({
+          index,
+          candle,
+          snapshot: snapshotFor(ctx),
+        });
+        if (tickAgent(ctx, strategy, decision, state.agentTrades)) {
+          state.agentTrades += 1;
+        }
+      }
+    }
+    state.counters = ctx.policy.counters;
+
+    equity.push({
+      ts: ctx.ts,
+      price,
+      baseAtomic: wallet.base.toString(),
+      quoteAtomic: wallet.quote.toString(),
+      valueQuote: valueQuote(wallet, price, pair),
+    });
+  });
+
+  return {
+    strategy: strategy.type,
+    pair,
+    equity,
+    trades,
+    metrics: computeMetrics(equity, trades, candles, pair),
+  };
+}
+
+function dailyTradeLimitReached(policy: NormalizedPolicy): boolean {
+  return (
+    policy.maxTradesPerDay > 0 &&
+    (policy.counters?.trades ?? 0) >= policy.maxTradesPerDay
+  );
+}
+
+// Price oracle quotes are never sent, so the counters do not apply to them
+// (enforcePriceQuotePolicy on a live tick).
+function checkPriceQuote(ctx: TickContext, quote: JupiterQuoteResponse): void {
+  checkPolicyLimits(
+    { ...ctx.policy, counters: null },
+    quote,
+    ctx.screens,
+    new Date(ctx.nowMs),
+  );
+}
+
+function tickDca(
+  ctx: TickContext,
+  strategy: DcaStrategy,
+  lastAt: string | undefined,
+): boolean {
+  if (!isDcaDue(strategy, lastAt, ctx.nowMs)) return false;
+  const funds = checkDcaFunds({
+    strategy,
+    solBalanceLamports: solBalance(ctx),
+    reserveLamports: BigInt(ctx.policy.minSolReserveLamports),
+  });
+  if (!funds.ok) {
+    rejectTrade(ctx, "swap", strategy, strategy.amount, funds.reason);
+    return false;
+  }
+  return executeSwap(ctx, "swap", {
+    inputMint: strategy.inputMint,
+    outputMint: strategy.outputMint,
+    amount: strategy.amount,
+  });
+}
+
+function tickRebalance(ctx: TickContext, strategy: RebalanceStrategy): void {
+  if (strategy.baseMint !== SOL_MINT) {
+    throw new Error("invalid-backtest-rebalance-base");
+  }
+  assertPairMint(ctx.pair, strategy.baseMint);
+  assertPairMint(ctx.pair, strategy.quoteMint);
+
+  // Same price oracle as the live loop: quote one whole base token.
+  const priceQuote = simulateQuote(ctx, {
+    inputMint: ctx.pair.baseMint,
+    outputMint: ctx.pair.quoteMint,
+    amount: (10n ** BigInt(ctx.pair.baseDecimals)).toString(),
+  });
+  try {
+    checkPriceQuote(ctx, priceQuote.quote);
+  } catch (err) {
+    rejectTrade(
+      ctx,
+      "rebalance_price",
+      { inputMint: ctx.pair.baseMint, outputMint: ctx.pair.quoteMint },
+      priceQuote.quote.inAmount,
+      err instanceof Error ? err.message : String(err),
+    );
+    return;
+  }
+
+  const plan = planRebalance({
+    strategy,
+    baseBalanceAtomic: ctx.wallet.base,
+    quoteBalanceAtomic: ctx.wallet.quote,
+    quotePerBaseAtomic: BigInt(priceQuote.quote.outAmount),
+    baseDecimals: BigInt(ctx.pair.baseDecimals),
+    reserveLamports: BigInt(ctx.policy.minSolReserveLamports),
+  });
+  if (plan.action.type === "none") return;
+
+  if (plan.action.type === "sell") {
+    executeSwap(ctx, "rebalance_sell", {
+      inputMint: ctx.pair.baseMint,
+      outputMint: ctx.pair.quoteMint,
+      amount: plan.action.amountAtomic.toString(),
+    });
+    return;
+  }
+  executeSwap(ctx, "rebalance_buy", {
+    inputMint: ctx.pair.quoteMint,
+    outputMint: ctx.pair.baseMint,
+    amount: plan.action.amountAtomic.toString(),
+  });
+}
+
+function tickTriggers(
+  ctx: TickContext,
+  strategy: TriggersStrategy,
+  states: TriggerStates | undefined,
+): TriggerStates | undefined {
+  assertPairMint(ctx.pair, strategy.baseMint);
+  assertPairMint(ctx.pair, strategy.quoteMint);
+
+  const priceQuote = simulateQuote(ctx, {
+    inputMint: ctx.pair.baseMint,
+    outputMint: ctx.pair.quoteMint,
+    amount: (10n ** BigInt(ctx.pair.baseDecimals)).toString(),
+  });
+  try {
+    checkPriceQuote(ctx, priceQuote.quote);
+  } catch (err) {
+    rejectTrade(
+      ctx,
+      "trigger_price",
+      { inputMint: ctx.pair.baseMint, outputMint: ctx.pair.quoteMint },
+      priceQuote.quote.inAmount,
+      err instanceof Error ? err.message : String(err),
+    );
+    return states;
+  }
+
+  const evaluation = evaluateTriggers({
+    strategy,
+    states,
+    quotePerBaseAtomic: BigInt(priceQuote.quote.outAmount),
+    baseBalanceAtomic: ctx.wallet.base,
+    quoteBalanceAtomic: ctx.wallet.quote,
+    reserveLamports: BigInt(ctx.policy.minSolReserveLamports),
+    nowIso: ctx.ts,
+  });
+  const fire = evaluation.fire;
+  if (!fire) return evaluation.states;
+
+  const filled = executeSwap(
+    ctx,
+    fire.side === "buy" ? "trigger_buy" : "trigger_sell",
+    {
+      inputMint: fire.side === "buy" ? strategy.quoteMint : strategy.baseMint,
+      outputMint: fire.side === "buy" ? strategy.baseMint : strategy.quoteMint,
+      amount: fire.amountAtomic.toString(),
+    },
+  );
+  if (!filled) return evaluation.states;
+  return markTriggerFilled(
+    strategy,
+    evaluation.states,
+    fire.trigger.id,
+    ctx.ts,
+  );
+}
+
+function confidenceRank(value: string): number {
+  if (value === "high") return 2;
+  if (value === "medium") return 1;
+  return 0;
+}
+
+function tickAgent(
+  ctx: TickContext,
+  strategy: AgentStrategy,
+  decision: AgentDecision | null,
+  tradesToday: number,
+): boolean {
+  if (!decision || decision.action !== "trade") return false;
+
+  // Same gates as the trade_jupiter_swap tool (minus the thesis requirement,
+  // which only exists to force the LLM to reason before trading).
+  const minConfidence = strategy.minConfidence ?? "medium";
+  if (confidenceRank(decision.confidence) < confidenceRank(minConfidence)) {
+    rejectTrade(
+      ctx,
+      "agent_swap",
+      decision,
+      decision.amount,
+      "confidence-too-low",
+    );
+    return false;
+  }
+  if (tradesToday >= (strategy.maxTradesPerDay ?? 5)) {
+    rejectTrade(
+      ctx,
+      "agent_swap",
+      decision,
+      decision.amount,
+      "daily-trade-cap-reached",
+    );
+    return false;
+  }
+  if (!/^\d+$/.test(decision.amount) || decision.amount === "0") {
+    rejectTrade(ctx, "agent_swap", decision, decision.amount, "invalid-amount");
+    return false;
+  }
+  return executeSwap(ctx, "agent_swap", decision);
+}
+
+function executeSwap(
+  ctx: TickContext,
+  side: string,
+  request: { inputMint: string; outputMint: string; amount: string },
+): boolean {
+  assertPairMint(ctx.pair, request.inputMint);
+  assertPairMint(ctx.pair, request.outputMint);
+
+  const { quote, feeAtomic } = simulateQuote(ctx, request);
+  try {
+    checkPolicyLimits(ctx.policy, quote, ctx.screens, new Date(ctx.nowMs));
+  } catch (err) {
+    rejectTrade(
+      ctx,
+      side,
+      request,
+      request.amount,
+      err instanceof Error ? err.message : String(err),
+    );
+    return false;
+  }
+
+  const inAmount = BigInt(quote.inAmount);
+  const outAmount = BigInt(quote.outAmount);
+  const inputIsBase = request.inputMint === ctx.pair.baseMint;
+  const needed = { base: 0n, quote: 0n, sol: 0n };
+  needed[inputIsBase ? "base" : "quote"] += inAmount;
+  needed[solSide(ctx.pair)] += BigInt(Math.floor(ctx.model.txFeeLamports));
+  // On-chain the swap would simply fail; record it as a rejection instead.
+  if (
+    ctx.wallet.base < needed.base ||
+    ctx.wallet.quote < needed.quote ||
+    ctx.wallet.sol < needed.sol
+  ) {
+    rejectTrade(
+      ctx,
+      side,
+      request,
+      request.amount,
+      "insufficient-input-balance",
+    );
+    return false;
+  }
+
+  ctx.wallet.base -= needed.base;
+  ctx.wallet.quote -= needed.quote;
+  ctx.wallet.sol -= needed.sol;
+  ctx.wallet[inputIsBase ? "quote" : "base"] += outAmount;
+  ctx.policy.counters = recordPolicyTrade(
+    ctx.policy.counters,
+    { inputMint: quote.inputMint, inAmount: quote.inAmount },
+    new Date(ctx.nowMs),
+  );
+
+  ctx.trades.push({
+    ts: ctx.ts,
+    side,
+    status: "filled",
+    reason: null,
+    inputMint: quote.inputMint,
+    outputMint: quote.outputMint,
+    inAmount: quote.inAmount,
+    outAmount: quote.outAmount,
+    feeAtomic: feeAtomic.toString(),
+    priceImpactPct: Number(quote.priceImpactPct ?? 0),
+    price: ctx.price,
+  });
+  return true;
+}
+
+function rejectTrade(
+  ctx: TickContext,
+  side: string,
+  mints: { inputMint: string; outputMint: string },
+  amount: string,
+  reason: string,
+): void {
+  ctx.trades.push({
+    ts: ctx.ts,
+    side,
+    status: "rejected",
+    reason,
+    inputMint: mints.inputMint,
+    outputMint: mints.outputMint,
+    inAmount: amount,
+    outAmount: "0",
+    feeAtomic: "0",
+    priceImpactPct: 0,
+    price: ctx.price,
+  });
+}
+
+// Simulated Jupiter ExactIn quote priced off the candle close. The result has
+// the same shape as a live quote so it can go through checkPolicyLimits().
+function simulateQuote(
+  ctx: TickContext,
+  request: { inputMint: string; outputMint: string; amount: string },
+): { quote: JupiterQuoteResponse; feeAtomic: bigint } {
+  const { pair, model, price } = ctx;
+  const inputIsBase = request.inputMint === pair.baseMint;
+  const inDecimals = inputIsBase ? pair.baseDecimals : pair.quoteDecimals;
+  const outDecimals = inputIsBase ? pair.quoteDecimals : pair.baseDecimals;
+
+  const inUi = Number(parseAtomic(request.amount)) / 10 ** inDecimals;
+  const notionalQuote = inputIsBase ? inUi * price : inUi;
+  const priceImpactPct =
+    model.depthQuote > 0
+      ? notionalQuote / (model.depthQuote + notionalQuote)
+      : 0;
+  const grossOutUi = inputIsBase ? inUi * price : inUi / price;
+  const afterImpactUi = grossOutUi * (1 - priceImpactPct);
+  const feeUi = afterImpactUi * (model.feeBps / 10_000);
+  const outUi = (afterImpactUi - feeUi) * (1 - model.slippageBps / 10_000);
+
+  const quote: JupiterQuoteResponse = {
+    inputMint: request.inputMint,
+    outputMint: request.outputMint,
+    inAmount: parseAtomic(request.amount).toString(),
+    outAmount: toAtomic(outUi, outDecimals).toString(),
+    priceImpactPct: priceImpactPct.toString(),
+    slippageBps: ctx.policy.slippageBps,
+    swapMode: "ExactIn",
+    routePlan: [{ swapInfo: { label: "backtest" } }],
+  };
+  return { quote, feeAtomic: toAtomic(feeUi, outDecimals) };
+}
+
+function snapshotFor(ctx: TickContext): MarketSnapshot {
+  const value = valueQuote(ctx.wallet, ctx.price, ctx.pair);
+  const baseValue =
+    (Number(ctx.wallet.base) / 10 ** ctx.pair.baseDecimals) * ctx.price;
+  return {
+    ts: ctx.ts,
+    baseMint: ctx.pair.baseMint,
+    quoteMint: ctx.pair.quoteMint,
+    quoteDecimals: ctx.pair.quoteDecimals,
+    baseBalanceAtomic: ctx.wallet.base.toString(),
+    quoteBalanceAtomic: ctx.wallet.quote.toString(),
+    basePriceQuote: ctx.price.toFixed(2),
+    portfolioValueQuote: value.toFixed(2),
+    baseAllocationPct:
+      value > 0 ? Math.round((baseValue / value) * 10_000) / 100 : 0,
+  };
+}
+
+// Which wallet balance holds the SOL that pays fees and backs the reserve.
+function solSide(pair: BacktestPair): keyof SimWallet {
+  if (pair.baseMint === SOL_MINT) return "base";
+  if (pair.quoteMint === SOL_MINT) return "quote";
+  return "sol";
+}
+
+function solBalance(ctx: TickContext): bigint {
+  return ctx.wallet[solSide(ctx.pair)];
+}
+
+function assertPairMint(pair: BacktestPair, mint: string): void {
+  if (mint !== pair.baseMint && mint !== pair.quoteMint) {
+    throw new Error("invalid-backtest-mint-not-in-pair");
+  }
+}
+
+function valueQuote(wallet: SimWallet, price: number, pair: BacktestPair) {
+  return (
+    (Number(wallet.base) / 10 ** pair.baseDecimals) * price +
+    Number(wallet.quote) / 10 ** pair.quoteDecimals
+  );
+}
+
+function computeMetrics(
+  equity: BacktestEquityPoint[],
+  trades: BacktestTrade[],
+  candles: BacktestCandle[],
+  pair: BacktestPair,
+): BacktestMetrics {
+  const values = equity.map((p) => p.valueQuote);
+  const start = values[0] ?? 0;
+  const end = values[values.length - 1] ?? 0;
+
+  let peak = 0;
+  let maxDrawdownPct = 0;
+  for (const v of values) {
+    peak = Math.max(peak, v);
+    if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, (peak - v) / peak);
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i += 1) {
+    const prev = values[i - 1] ?? 0;
+    if (prev > 0) returns.push((values[i] ?? 0) / prev - 1);
+  }
+  const mean = returns.reduce((a, b) => a + b, 0) / (returns.length || 1);
+  const variance =
+    returns.length > 1
+      ? returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (returns.length - 1)
+      : 0;
+  const std = Math.sqrt(variance);
+  const periodSeconds = medianSpacingSeconds(candles);
+  const periodsPerYear = periodSeconds > 0 ? (365 * 86_400) / periodSeconds : 0;
+  const sharpe = std > 0 ? (mean / std) * Math.sqrt(periodsPerYear) : 0;
+
+  let tradedQuote = 0;
+  let feesQuote = 0;
+  for (const trade of trades) {
+    if (trade.status !== "filled") continue;
+    const quoteSide = trade.inputMint === pair.quoteMint;
+    const quoteAmount = Number(quoteSide ? trade.inAmount : trade.outAmount);
+    tradedQuote += quoteAmount / 10 ** pair.quoteDecimals;
+    const fee = Number(trade.feeAtomic);
+    feesQuote += quoteSide
+      ? (fee / 10 ** pair.baseDecimals) * trade.price
+      : fee / 10 ** pair.quoteDecimals;
+  }
+  const avgEquity = values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+  return {
+    ticks: equity.length,
+    trades: trades.filter((t) => t.status === "filled").length,
+    rejected: trades.filter((t) => t.status === "rejected").length,
+    startValueQuote: start,
+    endValueQuote: end,
+    returnPct: start > 0 ? end / start - 1 : 0,
+    maxDrawdownPct,
+    sharpe,
+    turnover: avgEquity > 0 ? tradedQuote / avgEquity : 0,
+    feesQuote,
+  };
+}
+
+function medianSpacingSeconds(candles: BacktestCandle[]): number {
+  const gaps: number[] = [];
+  for (let i = 1; i < candles.length; i += 1) {
+    const gap = (candles[i]?.t ?? 0) - (candles[i - 1]?.t ?? 0);
+    if (gap > 0) gaps.push(gap);
+  }
+  if (gaps.length === 0) return 0;
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)] ?? 0;
+}
+
+function parseAtomic(value: string): bigint {
+  if (!ATOMIC.test(value)) throw new Error("invalid-backtest-amount");
+  return BigInt(value);
+}
+
+function toAtomic(ui: number, decimals: number): bigint {
+  if (!Number.isFinite(ui) || ui <= 0) return 0n;
+  return BigInt(Math.floor(ui * 10 ** decimals));
+}
+
+/* ------------------------------------------------------------------ */
+/*  Fixture parsing (JSONL / CSV)                                      */
+/* ------------------------------------------------------------------ */
+
+function toUnixSeconds(value: unknown): number {
+  if (typeof value === "number" || /^\d+(\.\d+)?$/.test(String(value))) {
+    const n = Number(value);
+    // Accept millisecond timestamps too.
+    return n > 1e12 ? Math.floor(n / 1000) : Math.floor(n);
+  }
+  const ms = Date.parse(String(value));
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : 0;
+}
+
+export function normalizeCandle(raw: unknown): BacktestCandle | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const r = raw as Record<string, unknown>;
+  const t = toUnixSeconds(r.t ?? r.unixTime ?? r.time ?? r.timestamp ?? 0);
+  const c = r.c ?? r.close;
+  if (!t || c === undefined || c === null || c === "") return null;
+  return {
+    t,
+    o: String(r.o ?? r.open ?? c),
+    h: String(r.h ?? r.high ?? c),
+    l: String(r.l ?? r.low ?? c),
+    c: String(c),
+    v: String(r.v ?? r.volume ?? "0"),
+  };
+}
+
+export function parseCandlesJsonl(text: string): BacktestCandle[] {
+  const out: BacktestCandle[] = [];
+  for (const line of text.split("\n").map((item) => item.trim())) {
+    if (!line) continue;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      throw new Error("invalid-backtest-candles-jsonl");
+    }
+    const candle = normalizeCandle(raw);
+    if (candle) out.push(candle);
+  }
+  return out;
+}
+
+export function candlesFromPayload(
+  payload: Record<string, unknown>,
+): BacktestCandle[] {
+  if (Array.isArray(payload.candles)) {
+    return payload.candles
+      .map(normalizeCandle)
+      .filter((c): c is BacktestCandle => c !== null);
+  }
+  if (typeof payload.candlesJsonl === "string") {
+    return parseCandlesJsonl(payload.candlesJsonl);
+  }
+  if (typeof payload.candlesCsv === "string") {
+    return parseCandlesCsv(payload.candlesCsv);
+  }
+  throw new Error("missing-backtest-candles");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// The optional simulation settings of a backtest request, checked field by
+// field. Throws "invalid-backtest-<option>".
+export function backtestOptionsFromPayload(payload: Record<string, unknown>): {
+  initialBalances?: BacktestBalances;
+  pair?: Partial<BacktestPair>;
+  quoteModel?: BacktestQuoteModel;
+} {
+  const options: ReturnType<typeof backtestOptionsFromPayload> = {};
+
+  if (payload.initialBalances !== undefined) {
+    const b = payload.initialBalances;
+    const atomic = (value: unknown) =>
+      typeof value === "string" && ATOMIC.test(value);
+    if (
+      !isObject(b) ||
+      !atomic(b.baseAtomic) ||
+      !atomic(b.quoteAtomic) ||
+      (b.solLamports !== undefined && !atomic(b.solLamports))
+    ) {
+      throw new Error("invalid-backtest-initial-balances");
+    }
+    options.initialBalances = {
+      baseAtomic: String(b.baseAtomic),
+      quoteAtomic: String(b.quoteAtomic),
+      ...(b.solLamports !== undefined
+        ? { solLamports: String(b.solLamports) }
+        : {}),
+    };
+  }
+
+  if (payload.pair !== undefined) {
+    const p = payload.pair;
+    if (!isObject(p)) throw new Error("invalid-backtest-pair");
+    const pair: Partial<BacktestPair> = {};
+    for (const key of ["baseMint", "quoteMint"] as const) {
+      const value = p[key];
+      if (value === undefined) continue;
+      if (typeof value !== "string" || value.trim() === "") {
+        throw new Error("invalid-backtest-pair");
+      }
+      pair[key] = value;
+    }
+    for (const key of ["baseDecimals", "quoteDecimals"] as const) {
+      const value = p[key];
+      if (value === undefined) continue;
+      if (
+        typeof value !== "number" ||
+        !Number.isInteger(value) ||
+        value < 0 ||
+        value > 18
+      ) {
+        throw new Error("invalid-backtest-pair");
+      }
+      pair[key] = value;
+    }
+    options.pair = pair;
+  }
+
+  if (payload.quoteModel !== undefined) {
+    const m = payload.quoteModel;
+    if (!isObject(m)) throw new Error("invalid-backtest-quote-model");
+    const model: BacktestQuoteModel = {};
+    for (const key of [
+      "feeBps",
+      "slippageBps",
+      "depthQuote",
+      "txFeeLamports",
+    ] as const) {
+      const value = m[key];
+      if (value === undefined) continue;
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new Error("invalid-backtest-quote-model");
+      }
+      model[key] = value;
+    }
+    options.quoteModel = model;
+  }
+
+  return options;
+}
+
+export function parseCandlesCsv(text: string): BacktestCandle[] {
+  const lines = text
+    .split("\n")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  const header = (lines.shift() ?? "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase());
+  const out: BacktestCandle[] = [];
+  for (const line of lines) {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const row: Record<string, string> = {};
+    header.forEach((key, i) => {
+      row[key] = cells[i] ?? "";
+    });
+    const candle = normalizeCandle(row);
+    if (candle) out.push(candle);
+  }
+  return out;
+}
@@ -1,21 +1,29 @@
-import { recordBotTickResult } from "./bots_db";
+import { runAutopilotTickForTenant } from "./autopilot";
+import { getBotSignerRef, recordBotTickResult } from "./bots_db";
 import { getLoopConfig, updateLoopConfig } from "./config";
-import { defaultAgentStrategy, SOL_MINT, USDC_MINT } from "./defaults";
-import { runAutopilotTickForTenant } from "./loop";
+import { defaultAgentStrategy } from "./defaults";
+import { isParentOrderActive } from "./execution";
+import { notifyBot } from "./notifications";
+import { reconcileBotTrades } from "./reconcile";
 import { json } from "./response";
+import { createSigner, type Signer, type SignerRef } from "./signer";
+import { getLoopState } from "./state";
+import { assertPolicyWithinCeilings, getBotSuitability } from "./suitability";
+import { countPendingTrades } from "./trade_index";
 import type { Env } from "./types";
-import { validatePolicy, validateStrategy } from "./validation";
+import { asLoopPolicy, validateStrategy } from "./validation";
 
 type TickReason = "cron" | "manual";
 
 const BOT_ID_HEADER = "x-ralph-bot-id";
 const TICK_INTERVAL_MS = 60_000;
 const MAX_TICK_RUNTIME_MS = 120_000;
+const MIN_ALARM_DELAY_MS = 1_000;
 
 type BotMeta = {
   enabled: boolean;
   walletAddress: string;
-  privyWalletId: string;
+  signer: SignerRef;
 };
 
 export class BotLoop {
@@ -76,8 +84,12 @@ export class BotLoop {
             update.enabled = payload.enabled;
           }
           if (payload.policy !== undefined) {
-            validatePolicy(payload.policy);
-            update.policy = payload.policy as import("./types").LoopPolicy;
+            update.policy = asLoopPolicy(payload.policy);
+            const suitability = await getBotSuitability(this.env, storedBotId);
+            assertPolicyWithinCeilings(
+              update.policy,
+              suitability?.ceilings ?? null,
+            );
           }
           if (payload.strategy !== undefined) {
             if (
@@ -97,7 +109,7 @@ export class BotLoop {
             await this.ensureAlarm();
             if (runNow) this.enqueueTick("manual");
           } else {
-            await this.disableAlarm();
+            await this.parkAlarm(storedBotId);
           }
           return json({ ok: true, config });
         }
@@ -107,13 +119,15 @@ export class BotLoop {
         const current = await getLoopConfig(this.env, storedBotId);
         const strat = current.strategy as { type?: unknown } | undefined;
         const policyAllowed = current.policy?.allowedMints;
+        // No default allowlist is filled in here: what the bot may trade is
+        // set through /config, where it is checked against suitability.
+        if (!Array.isArray(policyAllowed) || policyAllowed.length === 0) {
+          throw new Error("missing-policy-allowedMints");
+        }
         const update: Partial<import("./types").LoopConfig> = { enabled: true };
         if (!strat || strat.type === "noop") {
           update.strategy = defaultAgentStrategy();
         }
-        if (!Array.isArray(policyAllowed) || policyAllowed.length === 0) {
-          update.policy = { allowedMints: [SOL_MINT, USDC_MINT] };
-        }
         const config = await updateLoopConfig(this.env, update, storedBotId);
         await this.ensureAlarm();
         this.enqueueTick("manual");
@@ -126,7 +140,7 @@ export class BotLoop {
           { enabled: false },
           storedBotId,
         );
-        await this.disableAlarm();
+        await this.parkAlarm(storedBotId);
         return json({ ok: true, config });
       }
 
@@ -141,7 +155,7 @@ export class BotLoop {
         if (meta?.enabled && config.enabled) {
           await this.ensureAlarm();
         } else {
-          await this.disableAlarm();
+          await this.parkAlarm(storedBotId);
         }
         return json({ ok: true });
       }
@@ -191,17 +205,39 @@ export class BotLoop {
     if (!botId) return;
 
     const meta = await this.getBotMeta(botId);
-    if (!meta || !meta.enabled) {
+    if (!meta) {
       await this.disableAlarm();
       return;
     }
+    // Swaps sent by earlier ticks are settled first, so breakers and the
+    // strategy see their final status.
+    await reconcileBotTrades(this.env, {
+      tenantId: botId,
+      wallet: meta.walletAddress,
+    });
+    if (!meta.enabled) {
+      await this.parkAlarm(botId);
+      return;
+    }
 
     const config = await getLoopConfig(this.env, botId);
     if (!config.enabled) {
-      await this.disableAlarm();
+      await this.parkAlarm(botId);
       return;
     }
 
+    // A misconfigured signer only matters for live ticks; the loop reports
+    // "missing-signer" then, while dry runs keep working.
+    let signer: Signer | undefined;
+    try {
+      signer = createSigner(this.env, meta.signer);
+    } catch (err) {
+      console.error("bot_loop.signer.error", {
+        botId,
+        err: err instanceof Error ? err.message : String(err),
+      });
+    }
+
     const result = await runAutopilotTickForTenant(
       this.env,
       // DurableObjectState has waitUntil(); that's all the loop needs.
@@ -209,7 +245,7 @@ export class BotLoop {
       {
         tenantId: botId,
         walletAddress: meta.walletAddress,
-        privyWalletId: meta.privyWalletId,
+        signer,
       },
       reason,
       { skipLock: true },
@@ -221,18 +257,40 @@ export class BotLoop {
       error: result.error,
     }).catch(() => {});
 
-    // Reschedule next tick if still enabled.
+    // Reschedule next tick if still enabled. Both were enabled when the tick
+    // started, so a change here means the bot was disabled during the tick.
     const nextConfig = await getLoopConfig(this.env, botId);
-    if (!nextConfig.enabled) {
-      await this.disableAlarm();
-      return;
-    }
-    const nextMeta = await this.getBotMeta(botId);
-    if (!nextMeta?.enabled) {
-      await this.disableAlarm();
+    const nextMeta = nextConfig.enabled ? await this.getBotMeta(botId) : null;
+    if (!nextConfig.enabled || !nextMeta?.enabled) {
+      await this.parkAlarm(botId);
+      await notifyBot(this.env, botId, {
+        type: "bot.disabled",
+        level: "warn",
+        title: "Bot disabled",
+        message: result.error
+          ? `Loop stopped after a failed tick: ${result.error}`
+          : "Loop stopped; no further ticks are scheduled.",
+        metadata: { runId: result.runId },
+      });
       return;
     }
     await this.ensureAlarm();
+    await this.scheduleParentOrderChild(botId);
+  }
+
+  // A TWAP child due before the next regular tick gets its own alarm.
+  private async scheduleParentOrderChild(botId: string): Promise<void> {
+    const order = (await getLoopState(this.env, botId)).parentOrder;
+    if (!isParentOrderActive(order)) return;
+    const now = Date.now();
+    const childAt = Math.max(
+      Date.parse(order.nextAt),
+      now + MIN_ALARM_DELAY_MS,
+    );
+    const current = await this.state.storage.getAlarm();
+    if (!current || childAt < current) {
+      await this.state.storage.setAlarm(childAt);
+    }
   }
 
   private async ensureAlarm(now = Date.now()): Promise<void> {
@@ -249,9 +307,20 @@ export class BotLoop {
     await this.state.storage.deleteAlarm();
   }
 
+  // A stopped bot keeps its alarm while swaps are still pending confirmation;
+  // those alarms only reconcile.
+  private async parkAlarm(botId: string): Promise<void> {
+    const pending = await countPendingTrades(this.env, botId).catch(() => 0);
+    if (pending > 0) {
+      await this.ensureAlarm();
+      return;
+    }
+    await this.disableAlarm();
+  }
+
   private async getBotMeta(botId: string): Promise<BotMeta | null> {
     const row = (await this.env.WAITLIST_DB.prepare(
-      "SELECT enabled, wallet_address as walletAddress, privy_wallet_id as privyWalletId FROM bots WHERE id = ?1",
+      "SELECT enabled, wallet_address as walletAddress FROM bots WHERE id = ?1",
     )
       .bind(botId)
       .first()) as unknown;
@@ -259,12 +328,13 @@ export class BotLoop {
     if (!row || typeof row !== "object") return null;
     const r = row as Record<string, unknown>;
     const walletAddress = String(r.walletAddress ?? "").trim();
-    const privyWalletId = String(r.privyWalletId ?? "").trim();
-    if (!walletAddress || !privyWalletId) return null;
+    if (!walletAddress) return null;
+    const signer = await getBotSignerRef(this.env, botId);
+    if (!signer) return null;
     return {
       enabled: Number(r.enabled) === 1,
       walletAddress,
-      privyWalletId,
+      signer,
     };
   }
 }
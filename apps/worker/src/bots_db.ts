@@ -1,3 +1,4 @@
+import type { SignerRef } from "./signer";
 import type { Env } from "./types";
 
 export type UserRow = {
@@ -155,6 +156,36 @@ export async function getBotForUser(
   return mapBotRow(row as Record<string, unknown>);
 }
 
+// Admin lookups (ADMIN_TOKEN) are not scoped to a user.
+export async function getBotById(
+  env: Env,
+  botId: string,
+): Promise<BotRow | null> {
+  const row = (await env.WAITLIST_DB.prepare(
+    `
+    SELECT
+      id,
+      user_id as userId,
+      name,
+      enabled,
+      signer_type as signerType,
+      privy_wallet_id as privyWalletId,
+      wallet_address as walletAddress,
+      last_tick_at as lastTickAt,
+      last_error as lastError,
+      created_at as createdAt,
+      updated_at as updatedAt
+    FROM bots
+    WHERE id = ?1
+    `,
+  )
+    .bind(botId)
+    .first()) as unknown;
+
+  if (!row || typeof row !== "object") return null;
+  return mapBotRow(row as Record<string, unknown>);
+}
+
 export async function createBotRow(
   env: Env,
   input: {
@@ -162,8 +193,10 @@ export async function createBotRow(
     name: string;
     enabled: boolean;
     signerType: string;
+    // Empty for non-Privy signers (the column predates other signer types).
     privyWalletId: string;
     walletAddress: string;
+    signerSecret?: string | null;
   },
 ): Promise<BotRow> {
   const id = crypto.randomUUID();
@@ -177,8 +210,9 @@ export async function createBotRow(
       signer_type,
       privy_wallet_id,
       wallet_address,
+      signer_secret,
       updated_at
-    ) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, datetime('now'))
+    ) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, datetime('now'))
     `,
   )
     .bind(
@@ -189,6 +223,7 @@ export async function createBotRow(
       input.signerType,
       input.privyWalletId,
       input.walletAddress,
+      input.signerSecret ?? null,
     )
     .run();
 
@@ -197,6 +232,40 @@ export async function createBotRow(
   return bot;
 }
 
+// Kept out of BotRow so the encrypted keypair never reaches API responses.
+export async function getBotSignerRef(
+  env: Env,
+  botId: string,
+): Promise<SignerRef | null> {
+  const row = (await env.WAITLIST_DB.prepare(
+    "SELECT signer_type as signerType, privy_wallet_id as privyWalletId, wallet_address as walletAddress, signer_secret as signerSecret, user_id as userId FROM bots WHERE id = ?1",
+  )
+    .bind(botId)
+    .first()) as Record<string, unknown> | null;
+  if (!row) return null;
+  return {
+    signerType: String(row.signerType ?? "privy"),
+    privyWalletId: String(row.privyWalletId ?? ""),
+    walletAddress: String(row.walletAddress ?? ""),
+    signerSecret: row.signerSecret ? String(row.signerSecret) : null,
+    botId,
+    userId: String(row.userId ?? ""),
+  };
+}
+
+// Financial profile of the user who owns the bot, as stored.
+export async function getBotOwnerProfile(
+  env: Env,
+  botId: string,
+): Promise<Record<string, unknown> | null> {
+  const row = (await env.WAITLIST_DB.prepare(
+    "SELECT users.profile as profile FROM bots JOIN users ON users.id = bots.user_id WHERE bots.id = ?1",
+  )
+    .bind(botId)
+    .first()) as Record<string, unknown> | null;
+  return row ? parseProfile(row.profile) : null;
+}
+
 export async function setBotEnabledForUser(
   env: Env,
   userId: string,
@@ -220,6 +289,19 @@ export async function setBotEnabledForUser(
   return bot;
 }
 
+export async function setBotEnabled(
+  env: Env,
+  botId: string,
+  enabled: boolean,
+): Promise<void> {
+  const res = await env.WAITLIST_DB.prepare(
+    "UPDATE bots SET enabled = ?1, updated_at = datetime('now') WHERE id = ?2",
+  )
+    .bind(enabled ? 1 : 0, botId)
+    .run();
+  if ((res.meta?.changes ?? 0) <= 0) throw new Error("not-found");
+}
+
 export async function listEnabledBots(env: Env, limit = 10): Promise<BotRow[]> {
   const result = await env.WAITLIST_DB.prepare(
     `
@@ -268,3 +350,14 @@ export async function recordBotTickResult(
     .bind(input.ok ? null : err || "tick-failed", input.botId)
     .run();
 }
+
+export async function clearBotLastError(
+  env: Env,
+  botId: string,
+): Promise<void> {
+  await env.WAITLIST_DB.prepare(
+    "UPDATE bots SET last_error = NULL, updated_at = datetime('now') WHERE id = ?1",
+  )
+    .bind(botId)
+    .run();
+}
@@ -0,0 +1,301 @@
+import { updateLoopConfig } from "./config";
+import { SOL_MINT } from "./defaults";
+import type { JupiterClient } from "./jupiter";
+import { LEDGER_QUOTE_MINT, listLedgerSwaps } from "./ledger";
+import type { NormalizedPolicy } from "./policy";
+import { gatherPortfolioSnapshot } from "./research";
+import type { SolanaRpc } from "./solana_rpc";
+import { getLoopState, updateLoopState } from "./state";
+import {
+  listRecentLiveSwapStatuses,
+  PENDING_TRADE_STATUSES,
+} from "./trade_index";
+import type { CircuitBreakerReason, Env, RiskState } from "./types";
+
+export type CircuitBreakerTrip = {
+  reason: CircuitBreakerReason;
+  message: string;
+};
+
+const PPM = 1_000_000n;
+
+function toBigInt(value: string | undefined): bigint | null {
+  if (!value) return null;
+  try {
+    return BigInt(value);
+  } catch {
+    return null;
+  }
+}
+
+function pctToPpm(pct: number): bigint {
+  return BigInt(Math.round(pct * 1_000_000));
+}
+
+export function hasEquityBreakers(policy: NormalizedPolicy): boolean {
+  return (
+    policy.maxDailyLossQuoteAtomic !== "0" ||
+    policy.maxDailyLossPct > 0 ||
+    policy.maxDrawdownPct > 0
+  );
+}
+
+// Failed swaps at the head of `statuses` (newest first). Expired swaps never
+// landed and count as failures; swaps still pending confirmation are skipped.
+export function countConsecutiveFailures(statuses: string[]): number {
+  let count = 0;
+  for (const status of statuses) {
+    if ((PENDING_TRADE_STATUSES as readonly string[]).includes(status)) {
+      continue;
+    }
+    if (status !== "error" && status !== "expired") break;
+    count += 1;
+  }
+  return count;
+}
+
+// Pure breaker evaluation. `equityQuote` is the wallet value in quote atomic
+// units (null when it was not measured); the day-start baseline rolls over
+// at UTC midnight and the high-water mark only ever rises.
+export function evaluateBreakers(
+  policy: NormalizedPolicy,
+  input: {
+    state: RiskState | undefined;
+    now: Date;
+    equityQuote: bigint | null;
+    consecutiveFailures: number;
+  },
+): { trip: CircuitBreakerTrip | null; nextState: RiskState } {
+  const state = input.state ?? {};
+  const day = input.now.toISOString().slice(0, 10);
+  const nextState: RiskState = { ...state };
+  let trip: CircuitBreakerTrip | null = null;
+
+  const equity = input.equityQuote;
+  if (equity !== null) {
+    const dayStart =
+      state.day === day
+        ? (toBigInt(state.dayStartValueQuote) ?? equity)
+        : equity;
+    const previousHigh = toBigInt(state.highWaterMarkQuote) ?? equity;
+    const highWaterMark = equity > previousHigh ? equity : previousHigh;
+    nextState.day = day;
+    nextState.dayStartValueQuote = dayStart.toString();
+    nextState.highWaterMarkQuote = highWaterMark.toString();
+
+    const dailyLoss = dayStart - equity;
+    const drawdown = highWaterMark - equity;
+    const maxDailyLoss = BigInt(policy.maxDailyLossQuoteAtomic);
+    if (maxDailyLoss > 0n && dailyLoss >= maxDailyLoss) {
+      trip = {
+        reason: "daily-loss",
+        message: `lost ${dailyLoss} today (limit ${maxDailyLoss})`,
+      };
+    } else if (
+      policy.maxDailyLossPct > 0 &&
+      dayStart > 0n &&
+      dailyLoss * PPM >= dayStart * pctToPpm(policy.maxDailyLossPct)
+    ) {
+      trip = {
+        reason: "daily-loss-pct",
+        message: `lost ${dailyLoss} of ${dayStart} today (limit ${policy.maxDailyLossPct})`,
+      };
+    } else if (
+      policy.maxDrawdownPct > 0 &&
+      highWaterMark > 0n &&
+      drawdown * PPM >= highWaterMark * pctToPpm(policy.maxDrawdownPct)
+    ) {
+      trip = {
+        reason: "drawdown",
+        message: `down ${drawdown} from high-water mark ${highWaterMark} (limit ${policy.maxDrawdownPct})`,
+      };
+    }
+  }
+
+  if (
+    !trip &&
+    policy.maxConsecutiveFailedSwaps > 0 &&
+    input.consecutiveFailures >= policy.maxConsecutiveFailedSwaps
+  ) {
+    trip = {
+      reason: "consecutive-failed-swaps",
+      message: `${input.consecutiveFailures} consecutive failed swaps (limit ${policy.maxConsecutiveFailedSwaps})`,
+    };
+  }
+
+  if (trip) {
+    nextState.tripped = { at: input.now.toISOString(), ...trip };
+  }
+  return { trip, nextState };
+}
+
+export function formatTrip(trip: CircuitBreakerTrip): string {
+  return `circuit-breaker: ${trip.reason}: ${trip.message}`;
+}
+
+// Wallet value in the ledger quote mint across SOL, the allowlist and every
+// mint the ledger has traded.
+async function measureEquity(
+  env: Env,
+  tenantId: string,
+  rpc: SolanaRpc,
+  jupiter: JupiterClient,
+  wallet: string,
+  policy: NormalizedPolicy,
+): Promise<bigint> {
+  const swaps = await listLedgerSwaps(env, tenantId);
+  const mints = new Set<string>([SOL_MINT, ...policy.allowedMints]);
+  for (const swap of swaps) {
+    mints.add(swap.inputMint);
+    mints.add(swap.outputMint);
+  }
+  const snapshot = await gatherPortfolioSnapshot(rpc, jupiter, wallet, policy, {
+    mints: [...mints],
+    quoteMint: LEDGER_QUOTE_MINT,
+  });
+  return snapshot.holdings.reduce(
+    (sum, holding) => sum + BigInt(holding.valueQuoteAtomic),
+    0n,
+  );
+}
+
+type BreakerInput = {
+  env: Env;
+  tenantId: string;
+  // Where the tripped kill switch is written; unset is the legacy KV config.
+  configTenantId?: string;
+  rpc: SolanaRpc;
+  jupiter: JupiterClient;
+  wallet: string;
+  policy: NormalizedPolicy;
+  log: (
+    level: "debug" | "info" | "warn" | "error",
+    message: string,
+    meta?: Record<string, unknown>,
+  ) => void;
+};
+
+// Equity is only measured when an equity breaker is configured, and failed
+// swaps only counted when that breaker is.
+async function measureBreakerInputs(
+  input: BreakerInput,
+  risk: RiskState | undefined,
+): Promise<{ equityQuote: bigint | null; consecutiveFailures: number }> {
+  const { env, tenantId, policy, log } = input;
+  let equityQuote: bigint | null = null;
+  if (hasEquityBreakers(policy)) {
+    try {
+      equityQuote = await measureEquity(
+        env,
+        tenantId,
+        input.rpc,
+        input.jupiter,
+        input.wallet,
+        policy,
+      );
+    } catch (err) {
+      // A pricing outage should not halt the bot on its own.
+      log("warn", "circuit breaker equity unavailable", {
+        err: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  const consecutiveFailures =
+    policy.maxConsecutiveFailedSwaps > 0
+      ? countConsecutiveFailures(
+          await listRecentLiveSwapStatuses(env, tenantId, {
+            limit: policy.maxConsecutiveFailedSwaps,
+            since: risk?.failuresSince ?? null,
+          }),
+        )
+      : 0;
+  return { equityQuote, consecutiveFailures };
+}
+
+export function hasCircuitBreakers(policy: NormalizedPolicy): boolean {
+  return hasEquityBreakers(policy) || policy.maxConsecutiveFailedSwaps > 0;
+}
+
+// Runs at the start of a tick. Updates the baselines in loop state and, when
+// a breaker trips, sets killSwitch so the bot stays halted until an operator
+// resets it.
+export async function checkCircuitBreakers(
+  input: BreakerInput,
+): Promise<CircuitBreakerTrip | null> {
+  const { env, tenantId, configTenantId, policy, log } = input;
+  const state = await getLoopState(env, tenantId);
+  let risk = state.risk;
+  if (risk?.tripped) {
+    // The kill switch was cleared through config instead of the reset
+    // endpoint; treat that as a reset.
+    log("info", "circuit breaker cleared", { reason: risk.tripped.reason });
+    risk = { failuresSince: new Date().toISOString() };
+    await updateLoopState(env, tenantId, (current) => ({ ...current, risk }));
+  }
+
+  if (!hasCircuitBreakers(policy)) return null;
+
+  const { equityQuote, consecutiveFailures } = await measureBreakerInputs(
+    input,
+    risk,
+  );
+  const { trip, nextState } = evaluateBreakers(policy, {
+    state: risk,
+    now: new Date(),
+    equityQuote,
+    consecutiveFailures,
+  });
+  await updateLoopState(env, tenantId, (current) => ({
+    ...current,
+    risk: nextState,
+  }));
+  if (!trip) return null;
+
+  await updateLoopConfig(env, { policy: { killSwitch: true } }, configTenantId);
+  log("error", "circuit breaker tripped", {
+    reason: trip.reason,
+    detail: trip.message,
+    equityQuote: equityQuote === null ? null : equityQuote.toString(),
+  });
+  return trip;
+}
+
+// What checkCircuitBreakers would find now, without writing state or
+// config.
+export async function previewCircuitBreakers(
+  input: BreakerInput,
+): Promise<CircuitBreakerTrip | null> {
+  if (!hasCircuitBreakers(input.policy)) return null;
+  let risk = (await getLoopState(input.env, input.tenantId)).risk;
+  if (risk?.tripped) {
+    if (input.policy.killSwitch) {
+      return { reason: risk.tripped.reason, message: risk.tripped.message };
+    }
+    // Cleared through config; the next tick resets it.
+    risk = { failuresSince: new Date().toISOString() };
+  }
+  const { equityQuote, consecutiveFailures } = await measureBreakerInputs(
+    input,
+    risk,
+  );
+  return evaluateBreakers(input.policy, {
+    state: risk,
+    now: new Date(),
+    equityQuote,
+    consecutiveFailures,
+  }).trip;
+}
+
+// Operator reset: clears the trip, restarts the baselines from the next
+// tick, ignores earlier failed swaps and lifts the kill switch.
+export async function resetCircuitBreaker(
+  env: Env,
+  tenantId: string,
+): Promise<RiskState> {
+  const next = await updateLoopState(env, tenantId, (current) => ({
+    ...current,
+    risk: { failuresSince: new Date().toISOString() },
+  }));
+  await updateLoopConfig(env, { policy: { killSwitch: false } }, tenantId);
+  return next.risk ?? {};
+}
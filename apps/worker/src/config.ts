@@ -1,10 +1,17 @@
+import { upgradePolicy } from "../../../src/policy/index";
 import type { Env, LoopConfig, LoopPolicy, StrategyConfig } from "./types";
 
 const LEGACY_CONFIG_KEY = "loop:config";
 
+// Stored policies from before the schema was versioned are upgraded on read.
 function parseStoredConfig(value: unknown): LoopConfig | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) return null;
-  return value as LoopConfig;
+  const config = value as LoopConfig;
+  if (!config.policy || typeof config.policy !== "object") return config;
+  return {
+    ...config,
+    policy: upgradePolicy(config.policy) as LoopPolicy,
+  };
 }
 
 export async function getLoopConfig(
@@ -0,0 +1,315 @@
+import type { NormalizedPolicy } from "./policy";
+import { updateLoopState } from "./state";
+import type { SwapFill } from "./strategy_sdk";
+import { PENDING_TRADE_STATUSES } from "./trade_index";
+import type {
+  Env,
+  ExecutionConfig,
+  ParentOrder,
+  ParentOrderStatus,
+} from "./types";
+
+export const MAX_TWAP_SLICES = 50;
+export const MIN_TWAP_INTERVAL_SECONDS = 10;
+export const MAX_TWAP_DURATION_MINUTES = 24 * 60;
+const DEFAULT_INTERVAL_SECONDS = 60;
+const DEFAULT_MAX_DURATION_MINUTES = 60;
+
+const PPM = 1_000_000n;
+
+export type ChildDecision =
+  | { action: "execute" }
+  | { action: "wait"; reason: "slice-price-impact" }
+  | { action: "cancel"; reason: "adverse-move"; movePct: number };
+
+export function isTwap(execution: ExecutionConfig | undefined): boolean {
+  return execution?.mode === "twap";
+}
+
+export function isParentOrderActive(
+  order: ParentOrder | undefined,
+): order is ParentOrder {
+  return order?.status === "active";
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+function minNonZero(a: bigint, b: bigint): bigint {
+  if (a <= 0n) return b;
+  if (b <= 0n) return a;
+  return a < b ? a : b;
+}
+
+// Per-child amount cap: the policy trade cap and an optional strategy cap,
+// whichever is tighter ("0" = none).
+export function sliceAmountCap(
+  policy: NormalizedPolicy,
+  strategyCap?: string,
+): bigint {
+  const strategy =
+    strategyCap && /^[0-9]+$/.test(strategyCap) ? BigInt(strategyCap) : 0n;
+  return minNonZero(BigInt(policy.maxTradeAmountAtomic), strategy);
+}
+
+export function slicePriceImpactLimit(
+  execution: ExecutionConfig,
+  policy: NormalizedPolicy,
+): number {
+  const slice = execution.maxSlicePriceImpactPct;
+  return typeof slice === "number" && slice < policy.maxPriceImpactPct
+    ? slice
+    : policy.maxPriceImpactPct;
+}
+
+// Child count for a parent order. Without an explicit `slices`, impact is
+// treated as linear in size: a full-size quote at 3x the per-slice limit
+// needs three children. Every child also has to fit under the amount cap.
+export function planTwapSlices(input: {
+  totalAmount: bigint;
+  fullPriceImpactPct: number;
+  maxSlicePriceImpactPct: number;
+  maxSliceAmount: bigint;
+  slices?: number;
+}): number {
+  let count = input.slices ?? 1;
+  if (
+    input.slices === undefined &&
+    input.maxSlicePriceImpactPct > 0 &&
+    input.fullPriceImpactPct > input.maxSlicePriceImpactPct
+  ) {
+    count = Math.ceil(input.fullPriceImpactPct / input.maxSlicePriceImpactPct);
+  }
+  if (input.maxSliceAmount > 0n && input.totalAmount > input.maxSliceAmount) {
+    count = Math.max(
+      count,
+      Number(ceilDiv(input.totalAmount, input.maxSliceAmount)),
+    );
+  }
+  return Math.max(1, Math.min(MAX_TWAP_SLICES, count));
+}
+
+export function createParentOrder(input: {
+  strategy: ParentOrder["strategy"];
+  side: string;
+  inputMint: string;
+  outputMint: string;
+  totalAmount: bigint;
+  slices: number;
+  execution: ExecutionConfig;
+  policy: NormalizedPolicy;
+  maxSliceAmount: bigint;
+  now: Date;
+}): ParentOrder {
+  const { execution, now } = input;
+  const durationMinutes =
+    execution.maxDurationMinutes ?? DEFAULT_MAX_DURATION_MINUTES;
+  return {
+    id: crypto.randomUUID(),
+    strategy: input.strategy,
+    side: input.side,
+    inputMint: input.inputMint,
+    outputMint: input.outputMint,
+    totalAmount: input.totalAmount.toString(),
+    filledAmount: "0",
+    outAmount: "0",
+    slices: input.slices,
+    slicesDone: 0,
+    intervalSeconds: execution.intervalSeconds ?? DEFAULT_INTERVAL_SECONDS,
+    maxSlicePriceImpactPct: slicePriceImpactLimit(execution, input.policy),
+    maxSliceAmount: input.maxSliceAmount.toString(),
+    cancelOnAdverseMovePct: execution.cancelOnAdverseMovePct ?? 0,
+    startedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + durationMinutes * 60_000).toISOString(),
+    nextAt: now.toISOString(),
+    status: "active",
+  };
+}
+
+// Remaining amount spread evenly over the remaining children, bounded by the
+// per-child cap.
+export function nextChildAmount(order: ParentOrder): bigint {
+  const remaining = BigInt(order.totalAmount) - BigInt(order.filledAmount);
+  if (remaining <= 0n) return 0n;
+  const slicesLeft = BigInt(Math.max(1, order.slices - order.slicesDone));
+  const amount = ceilDiv(remaining, slicesLeft);
+  const cap = BigInt(order.maxSliceAmount);
+  return cap > 0n && amount > cap ? cap : amount;
+}
+
+export function isChildDue(order: ParentOrder, now: Date): boolean {
+  return now.getTime() >= Date.parse(order.nextAt);
+}
+
+export function isParentExpired(order: ParentOrder, now: Date): boolean {
+  return now.getTime() >= Date.parse(order.expiresAt);
+}
+
+// A child is deferred while its own impact is over the per-slice limit, and
+// the rest of the order is cancelled once its price (output per unit input)
+// is worse than the first child's by cancelOnAdverseMovePct or more.
+export function evaluateChildQuote(
+  order: ParentOrder,
+  quote: { inAmount: string; outAmount: string; priceImpactPct: number },
+): ChildDecision {
+  if (quote.priceImpactPct > order.maxSlicePriceImpactPct) {
+    return { action: "wait", reason: "slice-price-impact" };
+  }
+  if (order.cancelOnAdverseMovePct > 0 && order.refInAmount) {
+    const refIn = BigInt(order.refInAmount);
+    const refOut = BigInt(order.refOutAmount ?? "0");
+    const inAmount = BigInt(quote.inAmount);
+    if (refIn > 0n && refOut > 0n && inAmount > 0n) {
+      // move = 1 - (out / in) / (refOut / refIn), in PPM.
+      const ratioPpm =
+        (BigInt(quote.outAmount) * refIn * PPM) / (inAmount * refOut);
+      const movePpm = PPM - ratioPpm;
+      const limitPpm = BigInt(Math.round(order.cancelOnAdverseMovePct * 1e6));
+      if (movePpm >= limitPpm) {
+        return {
+          action: "cancel",
+          reason: "adverse-move",
+          movePct: Number(movePpm) / 1e6,
+        };
+      }
+    }
+  }
+  return { action: "execute" };
+}
+
+export function finishParentOrder(
+  order: ParentOrder,
+  status: Exclude<ParentOrderStatus, "active">,
+  reason: string,
+  now: Date,
+): ParentOrder {
+  return { ...order, status, reason, finishedAt: now.toISOString() };
+}
+
+// Books a child's result. Dry-run and simulated fills count, so previews
+// walk the whole schedule; a child that failed on-chain fails the parent;
+// one that expired unseen uses up its slot without filling.
+function bookChild(
+  order: ParentOrder,
+  fill: { inAmount: string; outAmount: string; status: string },
+  now: Date,
+): ParentOrder {
+  if (fill.status === "error" || fill.status === "simulate_error") {
+    return finishParentOrder(
+      { ...order, slicesDone: order.slicesDone + 1 },
+      "failed",
+      `child-${fill.status}`,
+      now,
+    );
+  }
+  const next: ParentOrder =
+    fill.status === "expired"
+      ? { ...order, slicesDone: order.slicesDone + 1 }
+      : {
+          ...order,
+          slicesDone: order.slicesDone + 1,
+          filledAmount: (
+            BigInt(order.filledAmount) + BigInt(fill.inAmount)
+          ).toString(),
+          outAmount: (
+            BigInt(order.outAmount) + BigInt(fill.outAmount)
+          ).toString(),
+          refInAmount: order.refInAmount ?? fill.inAmount,
+          refOutAmount: order.refOutAmount ?? fill.outAmount,
+        };
+  if (BigInt(next.filledAmount) >= BigInt(next.totalAmount)) {
+    return finishParentOrder(next, "completed", "filled", now);
+  }
+  if (next.slicesDone >= next.slices) {
+    return finishParentOrder(next, "completed", "slices-exhausted", now);
+  }
+  return next;
+}
+
+// Records the child just executed and schedules the next one. A live child
+// still unconfirmed (sent or processed) is held as pendingChild instead of
+// counting as filled.
+export function applyChildFill(
+  order: ParentOrder,
+  fill: SwapFill & { sliceIndex: number },
+  now: Date,
+): ParentOrder {
+  const scheduled = {
+    ...order,
+    nextAt: new Date(
+      now.getTime() + order.intervalSeconds * 1000,
+    ).toISOString(),
+  };
+  if (isPendingChildStatus(fill.status)) {
+    return {
+      ...scheduled,
+      pendingChild: {
+        sliceIndex: fill.sliceIndex,
+        signature: fill.signature ?? null,
+        inAmount: fill.inAmount,
+        outAmount: fill.outAmount,
+      },
+    };
+  }
+  return bookChild(scheduled, fill, now);
+}
+
+// Books the pending child once reconciliation has settled its trade_index
+// row, with the amounts read from the chain when it landed. Returns the
+// order unchanged while the row is still pending.
+export function settlePendingChild(
+  order: ParentOrder,
+  trade: {
+    status: string;
+    filledInAmount: string | null;
+    filledOutAmount: string | null;
+  },
+  now: Date,
+): ParentOrder {
+  const pending = order.pendingChild;
+  if (!pending || isPendingChildStatus(trade.status)) return order;
+  return bookChild(
+    { ...order, pendingChild: undefined },
+    {
+      status: trade.status,
+      inAmount: trade.filledInAmount ?? pending.inAmount,
+      outAmount: trade.filledOutAmount ?? pending.outAmount,
+    },
+    now,
+  );
+}
+
+function isPendingChildStatus(status: string): boolean {
+  return (PENDING_TRADE_STATUSES as readonly string[]).includes(status);
+}
+
+// Skips this interval without using up a child.
+export function deferChild(order: ParentOrder, now: Date): ParentOrder {
+  return {
+    ...order,
+    nextAt: new Date(
+      now.getTime() + order.intervalSeconds * 1000,
+    ).toISOString(),
+  };
+}
+
+// Cancels the bot's active parent order; children already sent stand.
+export async function cancelParentOrder(
+  env: Env,
+  tenantId: string,
+): Promise<ParentOrder> {
+  let cancelled: ParentOrder | null = null;
+  await updateLoopState(env, tenantId, (current) => {
+    if (!isParentOrderActive(current.parentOrder)) return current;
+    cancelled = finishParentOrder(
+      current.parentOrder,
+      "cancelled",
+      "operator",
+      new Date(),
+    );
+    return { ...current, parentOrder: cancelled };
+  });
+  if (!cancelled) throw new Error("not-found");
+  return cancelled;
+}
@@ -1,25 +1,89 @@
-import { requireUser } from "./auth";
+import { isCostBasisMethod } from "../../../src/ledger/index";
+import { isCandleInterval, parseMarketPair } from "../../../src/market/index";
+import {
+  dispatchNotification,
+  NOTIFICATION_EVENT_TYPES,
+} from "../../../src/notify/index";
+import {
+  createApiKey,
+  listApiKeys,
+  parseApiKeyInput,
+  revokeApiKey,
+  scopeForBotRoute,
+} from "./api_keys";
+import { requireScope, requireUser, requireUserOrApiKey } from "./auth";
+import {
+  backtestOptionsFromPayload,
+  candlesFromPayload,
+  runBacktest,
+} from "./backtest";
 
 export { BotLoop } from "./bot_loop_do";
 
+import { runAutopilotTick } from "./autopilot";
 import {
+  type BotRow,
+  clearBotLastError,
   createBotRow,
+  getBotById,
   getBotForUser,
+  getBotSignerRef,
   listBotsForUser,
+  setBotEnabled,
   setBotEnabledForUser,
   setUserProfile,
   upsertUser,
 } from "./bots_db";
+import { resetCircuitBreaker } from "./circuit_breaker";
 import { getLoopConfig, requireAdmin, updateLoopConfig } from "./config";
 import { defaultAgentStrategy, SOL_MINT, USDC_MINT } from "./defaults";
-import { runAutopilotTick } from "./loop";
+import { cancelParentOrder } from "./execution";
+import { JupiterClient } from "./jupiter";
+import { getBotPnl } from "./ledger";
+import { listLlmUsage, usageDay } from "./llm_usage";
+import {
+  base58Encode,
+  encryptLocalKeypair,
+  generateLocalKeypair,
+} from "./local_signer";
+import { readJsonl } from "./logs";
+import { listCandles, sampleMarkets } from "./market_data";
 import { getAgentMemory, saveAgentMemory } from "./memory";
+import {
+  listNotificationSubscriptions,
+  parseNotificationSubscriptions,
+  redactSubscription,
+  replaceNotificationSubscriptions,
+} from "./notifications";
+import {
+  evaluateBotPolicy,
+  validatePolicyEvaluationRequest,
+} from "./policy_evaluation";
 import { createPrivySolanaWallet } from "./privy";
+import {
+  decideTradeProposal,
+  getTradeProposal,
+  isTradeProposalStatus,
+  listTradeProposals,
+} from "./proposals";
+import { getMintBalanceAtomic } from "./research";
 import { json, okCors, withCors } from "./response";
+import { getRun, listRuns } from "./run_index";
+import { createSigner, isSignerType } from "./signer";
 import { SolanaRpc } from "./solana_rpc";
+import { getLoopState } from "./state";
+import { listStrategies } from "./strategies";
+import {
+  assertPolicyWithinCeilings,
+  deriveSuitabilityCeilings,
+  getBotSuitability,
+  parseFinancialProfile,
+  validateFinancialProfile,
+} from "./suitability";
+import { TokenScreener } from "./token_safety";
 import { listTrades } from "./trade_index";
-import type { Env } from "./types";
-import { validatePolicy, validateStrategy } from "./validation";
+import type { Env, LoopPolicy } from "./types";
+import { asLoopPolicy, asStrategyConfig, validateStrategy } from "./validation";
 
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -62,34 +126,71 @@ export default {
         const auth = await requireUser(request, env);
         const user = await upsertUser(env, auth.privyUserId);
         const bots = await listBotsForUser(env, user.id);
-        return withCors(json({ ok: true, user, bots }), env);
+        const profile = parseFinancialProfile(user.profile);
+        return withCors(
+          json({
+            ok: true,
+            user,
+            bots,
+            suitability: profile ? deriveSuitabilityCeilings(profile) : null,
+          }),
+          env,
+        );
       }
 
       if (request.method === "PATCH" && url.pathname === "/api/me/profile") {
         const auth = await requireUser(request, env);
         const user = await upsertUser(env, auth.privyUserId);
         const payload = await readPayload(request);
-        const profile = payload.profile;
-        if (!profile || typeof profile !== "object" || Array.isArray(profile)) {
-          return withCors(
-            json({ ok: false, error: "invalid-profile" }, { status: 400 }),
-            env,
-          );
-        }
-        await setUserProfile(env, user.id, profile as Record<string, unknown>);
-        return withCors(json({ ok: true }), env);
+        const profile = validateFinancialProfile(payload.profile);
+        await setUserProfile(env, user.id, profile);
+        return withCors(
+          json({ ok: true, suitability: deriveSuitabilityCeilings(profile) }),
+          env,
+        );
       }
 
-      if (url.pathname === "/api/bots" && request.method === "GET") {
+      // API keys are managed from a portal session only; a key cannot mint
+      // or revoke keys.
+      if (
+        url.pathname === "/api/keys" ||
+        url.pathname.startsWith("/api/keys/")
+      ) {
         const auth = await requireUser(request, env);
         const user = await upsertUser(env, auth.privyUserId);
-        const bots = await listBotsForUser(env, user.id);
+        const keyId = url.pathname.split("/").filter(Boolean)[2];
+        if (request.method === "GET" && !keyId) {
+          const keys = await listApiKeys(env, user.id);
+          return withCors(json({ ok: true, keys }), env);
+        }
+        if (request.method === "POST" && !keyId) {
+          const input = parseApiKeyInput(await readPayload(request));
+          const created = await createApiKey(env, user.id, input);
+          return withCors(json({ ok: true, ...created }), env);
+        }
+        if (request.method === "DELETE" && keyId) {
+          await revokeApiKey(env, user.id, keyId);
+          return withCors(json({ ok: true }), env);
+        }
+      }
+
+      if (request.method === "GET" && url.pathname === "/api/strategies") {
+        const principal = await requireUserOrApiKey(request, env);
+        requireScope(principal, "read");
+        return withCors(json({ ok: true, strategies: listStrategies() }), env);
+      }
+
+      if (url.pathname === "/api/bots" && request.method === "GET") {
+        const principal = await requireUserOrApiKey(request, env);
+        requireScope(principal, "read");
+        const bots = await listBotsForUser(env, principal.userId);
         return withCors(json({ ok: true, bots }), env);
       }
 
       if (url.pathname === "/api/bots" && request.method === "POST") {
-        const auth = await requireUser(request, env);
-        const user = await upsertUser(env, auth.privyUserId);
+        const principal = await requireUserOrApiKey(request, env);
+        requireScope(principal, "config");
+        const user = { id: principal.userId };
 
         const payload = await readPayload(request);
         const name = String(payload.name ?? "Ralph").trim();
@@ -100,30 +201,43 @@ export default {
           );
         }
 
-        const wallet = await createPrivySolanaWallet(env);
+        const signerType = payload.signerType ?? "privy";
+        if (!isSignerType(signerType)) throw new Error("invalid-signerType");
+        const signerColumns = await provisionBotSigner(
+          env,
+          signerType,
+          payload,
+        );
 
         const bot = await createBotRow(env, {
           userId: user.id,
           name,
           enabled: false,
-          signerType: "privy",
-          privyWalletId: wallet.walletId,
-          walletAddress: wallet.address,
+          signerType,
+          ...signerColumns,
         });
 
+        // The starting policy stays within the owner's suitability ceilings.
+        const ceilings =
+          (await getBotSuitability(env, bot.id))?.ceilings ?? null;
+        const policy: LoopPolicy = {
+          dryRun: false,
+          simulateOnly: true,
+          allowedMints: ["bluechip"],
+          slippageBps: 50,
+          maxPriceImpactPct: Math.min(
+            0.05,
+            ceilings?.maxPriceImpactPct ?? 0.05,
+          ),
+          maxTradeAmountAtomic: "0",
+          minSolReserveLamports: "50000000",
+        };
+        assertPolicyWithinCeilings(policy, ceilings);
         const config = await updateLoopConfig(
           env,
           {
             enabled: false,
-            policy: {
-              dryRun: false,
-              simulateOnly: true,
-              allowedMints: [SOL_MINT, USDC_MINT],
-              slippageBps: 50,
-              maxPriceImpactPct: 0.05,
-              maxTradeAmountAtomic: "0",
-              minSolReserveLamports: "50000000",
-            },
+            policy,
             strategy: defaultAgentStrategy(),
           },
           bot.id,
@@ -132,7 +246,7 @@ export default {
         return withCors(json({ ok: true, bot, config }), env);
       }
 
-      // Bot actions: /api/bots/:id/(start|stop|tick|config|trades)
+      // Bot actions: /api/bots/:id/(start|stop|tick|config|trades|pnl|breaker|execution|notifications|proposals|runs|usage|backtest)
       if (url.pathname.startsWith("/api/bots/")) {
         const parts = url.pathname.split("/").filter(Boolean);
         const botId = parts[2] ?? "";
@@ -144,8 +258,8 @@ export default {
           );
         }
 
-        const auth = await requireUser(request, env);
-        const user = await upsertUser(env, auth.privyUserId);
+        const principal = await requireUserOrApiKey(request, env);
+        const user = { id: principal.userId };
         const bot = await getBotForUser(env, user.id, botId);
         if (!bot) {
           return withCors(
@@ -153,6 +267,10 @@ export default {
             env,
           );
         }
+        requireScope(
+          principal,
+          scopeForBotRoute(request.method, action, parts[4]),
+        );
 
         if (request.method === "GET" && !action) {
           return withCors(json({ ok: true, bot }), env);
@@ -236,11 +354,285 @@ export default {
           return withCors(json({ ok: true, trades }), env);
         }
 
+        if (request.method === "GET" && action === "pnl") {
+          const method = url.searchParams.get("method") ?? "fifo";
+          if (!isCostBasisMethod(method)) throw new Error("invalid-pnl-method");
+          const bucket = url.searchParams.get("bucket") ?? "day";
+          if (bucket !== "day" && bucket !== "week") {
+            throw new Error("invalid-pnl-bucket");
+          }
+          const days = Number(url.searchParams.get("days") ?? "30");
+          const jupiter = new JupiterClient(
+            env.JUPITER_BASE_URL ?? "https://lite-api.jup.ag",
+            env.JUPITER_API_KEY,
+          );
+          const pnl = await getBotPnl(env, jupiter, botId, {
+            method,
+            bucket,
+            days: Number.isFinite(days) ? days : 30,
+          });
+          return withCors(json({ ok: true, ...pnl }), env);
+        }
+
+        if (action === "notifications") {
+          if (request.method === "GET" && !parts[4]) {
+            const subscriptions = await listNotificationSubscriptions(
+              env,
+              botId,
+            );
+            return withCors(
+              json({
+                ok: true,
+                subscriptions: subscriptions.map(redactSubscription),
+                eventTypes: NOTIFICATION_EVENT_TYPES,
+              }),
+              env,
+            );
+          }
+          if (request.method === "PUT" && !parts[4]) {
+            const payload = await readPayload(request);
+            const existing = await listNotificationSubscriptions(env, botId);
+            const subscriptions = parseNotificationSubscriptions(
+              payload.subscriptions,
+              existing,
+            );
+            await replaceNotificationSubscriptions(env, botId, subscriptions);
+            return withCors(
+              json({
+                ok: true,
+                subscriptions: subscriptions.map(redactSubscription),
+              }),
+              env,
+            );
+          }
+          if (request.method === "POST" && parts[4] === "test") {
+            // Sent to every enabled subscription regardless of its events.
+            const subscriptions = (
+              await listNotificationSubscriptions(env, botId)
+            ).filter((sub) => sub.enabled);
+            const deliveries = await dispatchNotification(
+              subscriptions.map((sub) => sub.sink),
+              {
+                type: "operator",
+                level: "info",
+                title: "Test notification",
+                message: `Notifications for ${bot.name} are working.`,
+                botId,
+                ts: new Date().toISOString(),
+              },
+            );
+            return withCors(json({ ok: true, deliveries }), env);
+          }
+        }
+
+        if (action === "breaker") {
+          if (request.method === "GET" && !parts[4]) {
+            const state = await getLoopState(env, botId);
+            return withCors(json({ ok: true, risk: state.risk ?? null }), env);
+          }
+          if (request.method === "POST" && parts[4] === "reset") {
+            const risk = await resetCircuitBreaker(env, botId);
+            await clearBotLastError(env, botId);
+            return withCors(json({ ok: true, risk }), env);
+          }
+        }
+
+        if (action === "execution") {
+          if (request.method === "GET" && !parts[4]) {
+            const state = await getLoopState(env, botId);
+            return withCors(
+              json({ ok: true, parentOrder: state.parentOrder ?? null }),
+              env,
+            );
+          }
+          if (request.method === "POST" && parts[4] === "cancel") {
+            const parentOrder = await cancelParentOrder(env, botId);
+            return withCors(json({ ok: true, parentOrder }), env);
+          }
+        }
+
+        if (action === "proposals") {
+          const proposalId = parts[4];
+          if (request.method === "GET" && !proposalId) {
+            const statusParam = url.searchParams.get("status");
+            const status =
+              statusParam && isTradeProposalStatus(statusParam)
+                ? statusParam
+                : undefined;
+            if (statusParam && !status) {
+              throw new Error("invalid-proposal-status");
+            }
+            const limit = Number(url.searchParams.get("limit") ?? "50");
+            const proposals = await listTradeProposals(env, botId, {
+              status,
+              limit: Number.isFinite(limit) ? limit : 50,
+            });
+            return withCors(json({ ok: true, proposals }), env);
+          }
+          if (request.method === "GET" && proposalId && !parts[5]) {
+            const proposal = await getTradeProposal(env, botId, proposalId);
+            if (!proposal) throw new Error("not-found");
+            return withCors(json({ ok: true, proposal }), env);
+          }
+          if (
+            request.method === "POST" &&
+            proposalId &&
+            (parts[5] === "approve" || parts[5] === "reject")
+          ) {
+            const proposal = await decideTradeProposal(
+              env,
+              botId,
+              proposalId,
+              parts[5] === "approve" ? "approved" : "rejected",
+              user.id,
+            );
+            if (proposal.status === "approved") {
+              // Execute on the next tick rather than waiting for the timer.
+              ctx.waitUntil(
+                botLoopFetchJson(env, botId, "/tick", {
+                  method: "POST",
+                }).catch(() => {}),
+              );
+            }
+            return withCors(json({ ok: true, proposal }), env);
+          }
+        }
+
+        if (request.method === "GET" && action === "runs") {
+          const runId = parts[4];
+          if (runId) {
+            const run = await getRun(env, botId, runId);
+            if (!run) {
+              return withCors(
+                json({ ok: false, error: "not-found" }, { status: 404 }),
+                env,
+              );
+            }
+            // null when R2 is not configured or the log object is gone.
+            const lines = await readJsonl(env, run.logKey);
+            return withCors(json({ ok: true, run, lines }), env);
+          }
+          const limit = Number(url.searchParams.get("limit") ?? "20");
+          const before = Number(url.searchParams.get("before") ?? "");
+          const page = await listRuns(env, botId, {
+            limit: Number.isFinite(limit) ? limit : 20,
+            before: Number.isFinite(before) ? before : null,
+          });
+          return withCors(json({ ok: true, ...page }), env);
+        }
+
+        if (request.method === "GET" && action === "usage") {
+          const daysRaw = Number(url.searchParams.get("days") ?? "30");
+          const [usage, config] = await Promise.all([
+            listLlmUsage(env, botId, Number.isFinite(daysRaw) ? daysRaw : 30),
+            getLoopConfig(env, botId),
+          ]);
+          const day = usageDay();
+          const strategy = config.strategy;
+          return withCors(
+            json({
+              ok: true,
+              usage,
+              today: {
+                day,
+                totalTokens: usage
+                  .filter((row) => row.day === day)
+                  .reduce((sum, row) => sum + row.totalTokens, 0),
+                dailyTokenBudget:
+                  strategy?.type === "agent"
+                    ? (strategy.dailyTokenBudget ?? null)
+                    : null,
+              },
+            }),
+            env,
+          );
+        }
+
+        if (
+          request.method === "POST" &&
+          action === "policy" &&
+          parts[4] === "evaluate"
+        ) {
+          const payload = await readPayload(request);
+          const evaluation = await evaluateBotPolicy(
+            env,
+            bot,
+            validatePolicyEvaluationRequest(payload),
+          );
+          return withCors(json({ ok: true, ...evaluation }), env);
+        }
+
+        if (request.method === "POST" && action === "backtest") {
+          const payload = await readPayload(request);
+          const stored = await getLoopConfig(env, botId);
+          const config = {
+            ...stored,
+            policy:
+              payload.policy !== undefined
+                ? asLoopPolicy(payload.policy)
+                : stored.policy,
+            strategy:
+              payload.strategy !== undefined
+                ? asStrategyConfig(payload.strategy)
+                : stored.strategy,
+          };
+
+          // Agent backtests need a deterministic decider, which only
+          // in-process callers of runBacktest can supply.
+          if (config.strategy?.type === "agent") {
+            throw new Error("invalid-backtest-strategy-agent");
+          }
+          const options = backtestOptionsFromPayload(payload);
+          const candles = candlesFromPayload(payload);
+
+          const rpc = SolanaRpc.fromEnv(env);
+          const baseMint = options.pair?.baseMint ?? SOL_MINT;
+          const quoteMint = options.pair?.quoteMint ?? USDC_MINT;
+
+          // Default the simulated wallet to the bot's current balances of the
+          // pair's mints (SOL/USDC when no pair is given).
+          let initialBalances = options.initialBalances;
+          if (!initialBalances) {
+            const [baseAtomic, quoteAtomic, lamports] = await Promise.all([
+              getMintBalanceAtomic(rpc, bot.walletAddress, baseMint),
+              getMintBalanceAtomic(rpc, bot.walletAddress, quoteMint),
+              rpc.getBalanceLamports(bot.walletAddress),
+            ]);
+            initialBalances = {
+              baseAtomic: baseAtomic.toString(),
+              quoteAtomic: quoteAtomic.toString(),
+              solLamports: lamports.toString(),
+            };
+          }
+
+          // Same ceilings and token screens as a live tick; the screens are
+          // today's, not the candles'.
+          const screener = new TokenScreener(env, rpc);
+          const [suitability, screens] = await Promise.all([
+            getBotSuitability(env, botId),
+            Promise.all([baseMint, quoteMint].map((m) => screener.screen(m))),
+          ]);
+
+          const result = runBacktest({
+            config,
+            candles,
+            initialBalances,
+            pair: options.pair,
+            quoteModel: options.quoteModel,
+            ceilings: suitability?.ceilings ?? null,
+            screens,
+          });
+          return withCors(json({ ok: true, result }), env);
+        }
+
         if (request.method === "GET" && action === "balance") {
+          const signerRef = await getBotSignerRef(env, botId);
+          if (!signerRef) throw new Error("not-found");
+          const address = await createSigner(env, signerRef).getAddress();
           const rpc = SolanaRpc.fromEnv(env);
           const [lamports, usdcAtomic] = await Promise.all([
-            rpc.getBalanceLamports(bot.walletAddress),
-            rpc.getTokenBalanceAtomic(bot.walletAddress, USDC_MINT),
+            rpc.getBalanceLamports(address),
+            rpc.getTokenBalanceAtomic(address, USDC_MINT),
           ]);
           return withCors(
             json({
@@ -301,13 +693,34 @@ export default {
         }
       }
 
+      // Admin routes act on the legacy single-tenant KV config unless a
+      // `botId` (query param, or body field for /api/config) targets a bot.
       if (request.method === "GET" && url.pathname === "/api/loop/status") {
+        const botId = url.searchParams.get("botId");
+        if (botId) {
+          requireAdmin(request, env);
+          const bot = await requireAdminBot(env, botId);
+          const status = await botLoopFetchJson(env, bot.id, "/status", {
+            method: "GET",
+          });
+          const config = await getLoopConfig(env, bot.id);
+          return withCors(json({ ok: true, bot, status, config }), env);
+        }
         const config = await getLoopConfig(env);
         return withCors(json({ ok: true, config }), env);
       }
 
       if (request.method === "POST" && url.pathname === "/api/loop/start") {
         requireAdmin(request, env);
+        const botId = url.searchParams.get("botId");
+        if (botId) {
+          const bot = await requireAdminBot(env, botId);
+          await setBotEnabled(env, bot.id, true);
+          const payload = (await botLoopFetchJson(env, bot.id, "/start", {
+            method: "POST",
+          })) as { config?: unknown };
+          return withCors(json({ ok: true, config: payload.config }), env);
+        }
         const config = await updateLoopConfig(env, { enabled: true });
         // Start should behave like an orchestration "kick": enable, then tick ASAP.
         ctx.waitUntil(runAutopilotTick(env, ctx, "manual"));
@@ -316,6 +729,15 @@ export default {
 
       if (request.method === "POST" && url.pathname === "/api/loop/stop") {
         requireAdmin(request, env);
+        const botId = url.searchParams.get("botId");
+        if (botId) {
+          const bot = await requireAdminBot(env, botId);
+          const payload = (await botLoopFetchJson(env, bot.id, "/stop", {
+            method: "POST",
+          })) as { config?: unknown };
+          await setBotEnabled(env, bot.id, false);
+          return withCors(json({ ok: true, config: payload.config }), env);
+        }
         const config = await updateLoopConfig(env, { enabled: false });
         return withCors(json({ ok: true, config }), env);
       }
@@ -323,11 +745,32 @@ export default {
       if (request.method === "POST" && url.pathname === "/api/config") {
         requireAdmin(request, env);
         const payload = await readPayload(request);
+        const botId =
+          typeof payload.botId === "string" && payload.botId
+            ? payload.botId
+            : url.searchParams.get("botId");
+        if (botId) {
+          const bot = await requireAdminBot(env, botId);
+          // The bot's DO validates the update and reschedules its alarm.
+          const { botId: _botId, ...update } = payload;
+          const doPayload = (await botLoopFetchJson(env, bot.id, "/config", {
+            method: "PATCH",
+            body: JSON.stringify(update),
+          })) as { config?: unknown };
+          return withCors(json({ ok: true, config: doPayload.config }), env);
+        }
         const runNow = Boolean(payload.runNow);
         const adminUpdate: Partial<import("./types").LoopConfig> = {};
         if (payload.policy !== undefined) {
-          validatePolicy(payload.policy);
-          adminUpdate.policy = payload.policy as import("./types").LoopPolicy;
+          adminUpdate.policy = asLoopPolicy(payload.policy);
+          const suitability = await getBotSuitability(
+            env,
+            env.TENANT_ID ?? "default",
+          );
+          assertPolicyWithinCeilings(
+            adminUpdate.policy,
+            suitability?.ceilings ?? null,
+          );
         }
         if (payload.strategy && typeof payload.strategy === "object") {
           validateStrategy(payload.strategy);
@@ -343,15 +786,80 @@ export default {
 
       if (request.method === "POST" && url.pathname === "/api/loop/tick") {
         requireAdmin(request, env);
+        const botId = url.searchParams.get("botId");
+        if (botId) {
+          const bot = await requireAdminBot(env, botId);
+          await botLoopFetchJson(env, bot.id, "/tick", { method: "POST" });
+          return withCors(json({ ok: true, submitted: true }), env);
+        }
         ctx.waitUntil(runAutopilotTick(env, ctx, "manual"));
         return withCors(json({ ok: true }), env);
       }
 
+      if (
+        request.method === "GET" &&
+        url.pathname.startsWith("/api/markets/") &&
+        url.pathname.endsWith("/candles")
+      ) {
+        const principal = await requireUserOrApiKey(request, env);
+        requireScope(principal, "read");
+        const parts = url.pathname.split("/").filter(Boolean);
+        if (parts.length !== 4) {
+          return withCors(
+            json({ ok: false, error: "not-found" }, { status: 404 }),
+            env,
+          );
+        }
+        const pair = parseMarketPair(decodeURIComponent(parts[2] ?? ""));
+        const interval = url.searchParams.get("interval") ?? "1h";
+        if (!isCandleInterval(interval)) {
+          throw new Error("invalid-interval");
+        }
+        const limit = Number(url.searchParams.get("limit") ?? "200");
+        const to = Number(url.searchParams.get("to") ?? "");
+        const candles = await listCandles(
+          env,
+          pair,
+          interval,
+          Number.isFinite(limit) ? limit : 200,
+          Number.isFinite(to) && to > 0 ? to : undefined,
+        );
+        return withCors(json({ ok: true, pair, interval, candles }), env);
+      }
+
+      if (
+        request.method === "GET" &&
+        url.pathname.startsWith("/api/tokens/") &&
+        url.pathname.endsWith("/safety")
+      ) {
+        const principal = await requireUserOrApiKey(request, env);
+        requireScope(principal, "read");
+        const parts = url.pathname.split("/").filter(Boolean);
+        if (parts.length !== 4) {
+          return withCors(
+            json({ ok: false, error: "not-found" }, { status: 404 }),
+            env,
+          );
+        }
+        const mint = decodeURIComponent(parts[2] ?? "");
+        if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(mint)) {
+          throw new Error("invalid-mint");
+        }
+        const screen = await new TokenScreener(
+          env,
+          SolanaRpc.fromEnv(env),
+        ).screen(mint);
+        return withCors(json({ ok: true, screen }), env);
+      }
+
       if (request.method === "GET" && url.pathname === "/api/trades") {
         requireAdmin(request, env);
         const limitRaw = url.searchParams.get("limit") ?? "50";
         const limit = Number(limitRaw);
-        const tenantId = env.TENANT_ID ?? "default";
+        const botId = url.searchParams.get("botId");
+        const tenantId = botId
+          ? (await requireAdminBot(env, botId)).id
+          : (env.TENANT_ID ?? "default");
         const trades = await listTrades(
           env,
           tenantId,
@@ -376,11 +884,17 @@ export default {
       const status =
         message === "unauthorized"
           ? 401
-          : message === "not-found"
-            ? 404
-            : message.startsWith("invalid-") || message.startsWith("missing-")
-              ? 400
-              : 500;
+          : message === "forbidden"
+            ? 403
+            : message === "not-found"
+              ? 404
+              : message === "proposal-not-pending" ||
+                  message === "proposal-expired"
+                ? 409
+                : message.startsWith("invalid-") ||
+                    message.startsWith("missing-")
+                  ? 400
+                  : 500;
       if (status >= 500) {
         // Avoid leaking request headers or secrets; log only safe metadata.
         console.error("api.error", {
@@ -397,10 +911,50 @@ export default {
   async scheduled(_event: ScheduledEvent, env: Env, ctx: ExecutionContext) {
     // Bot loops are scheduled via Durable Object alarms.
     // Keep the legacy single-tenant cron for local dev + backwards compatibility.
+    ctx.waitUntil(sampleMarkets(env));
     await runAutopilotTick(env, ctx);
   },
 };
 
+// Creates (or registers) the signing key for a new bot and returns the
+// signer columns for the bots row.
+async function provisionBotSigner(
+  env: Env,
+  signerType: "privy" | "local" | "remote",
+  payload: Record<string, unknown>,
+): Promise<{
+  privyWalletId: string;
+  walletAddress: string;
+  signerSecret?: string;
+}> {
+  if (signerType === "local") {
+    if (!env.LOCAL_SIGNER_SECRET)
+      throw new Error("local-signer-not-configured");
+    const keypair = await generateLocalKeypair();
+    return {
+      privyWalletId: "",
+      walletAddress: base58Encode(keypair.publicKey),
+      signerSecret: await encryptLocalKeypair(keypair, env.LOCAL_SIGNER_SECRET),
+    };
+  }
+  if (signerType === "remote") {
+    if (!env.REMOTE_SIGNER_URL) {
+      throw new Error("remote-signer-not-configured");
+    }
+    const walletAddress = String(payload.walletAddress ?? "").trim();
+    if (!walletAddress) throw new Error("missing-walletAddress");
+    return { privyWalletId: "", walletAddress };
+  }
+  const wallet = await createPrivySolanaWallet(env);
+  return { privyWalletId: wallet.walletId, walletAddress: wallet.address };
+}
+
+async function requireAdminBot(env: Env, botId: string): Promise<BotRow> {
+  const bot = await getBotById(env, botId);
+  if (!bot) throw new Error("not-found");
+  return bot;
+}
+
 async function readPayload(request: Request): Promise<Record<string, unknown>> {
   const contentType = request.headers.get("content-type") ?? "";
   if (contentType.includes("application/json")) {
@@ -19,9 +19,29 @@ export type JupiterQuoteResponse = {
 export type JupiterSwapResponse = {
   swapTransaction: string;
   lastValidBlockHeight: number;
+  // Priority fee (or Jito tip) Jupiter built into the transaction, and the
+  // compute unit limit it set.
+  prioritizationFeeLamports?: number;
+  computeUnitLimit?: number;
   [k: string]: unknown;
 };
 
+export type PriorityLevel = "medium" | "high" | "veryHigh";
+
+// Fee fields of the swap request. Unset fields keep Jupiter's defaults.
+export type SwapFeeParams = {
+  computeUnitPriceMicroLamports?: number;
+  prioritizationFeeLamports?:
+    | {
+        priorityLevelWithMaxLamports: {
+          priorityLevel: PriorityLevel;
+          maxLamports: number;
+        };
+      }
+    | { jitoTipLamports: number };
+  dynamicComputeUnitLimit?: boolean;
+};
+
 export type QuoteRequest = {
   inputMint: string;
   outputMint: string;
@@ -81,10 +101,12 @@ export class JupiterClient {
     return data as JupiterQuoteResponse;
   }
 
-  async swap(request: {
-    quoteResponse: JupiterQuoteResponse;
-    userPublicKey: string;
-  }): Promise<JupiterSwapResponse> {
+  async swap(
+    request: {
+      quoteResponse: JupiterQuoteResponse;
+      userPublicKey: string;
+    } & SwapFeeParams,
+  ): Promise<JupiterSwapResponse> {
     const url = new URL("/swap/v1/swap", this.baseUrl);
     const headers: Record<string, string> = {
       "content-type": "application/json",
@@ -97,6 +119,9 @@ export class JupiterClient {
         quoteResponse: request.quoteResponse,
         userPublicKey: request.userPublicKey,
         wrapAndUnwrapSol: true,
+        computeUnitPriceMicroLamports: request.computeUnitPriceMicroLamports,
+        prioritizationFeeLamports: request.prioritizationFeeLamports,
+        dynamicComputeUnitLimit: request.dynamicComputeUnitLimit,
       }),
     });
 
@@ -0,0 +1,286 @@
+import {
+  bucketRealizedPnl,
+  buildLedger,
+  type CostBasisMethod,
+  type LedgerSwap,
+  type LedgerTrade,
+  type MarkedPosition,
+  markToMarket,
+  type PnlBucket,
+  type PnlBucketPeriod,
+} from "../../../src/ledger/index";
+import { SOL_MINT, USDC_MINT } from "./defaults";
+import type { JupiterClient, JupiterQuoteResponse } from "./jupiter";
+import type { SolanaRpc, TransactionTokenBalance } from "./solana_rpc";
+import type { Env } from "./types";
+
+// The worker ledger values everything in USDC (atomic, 6 decimals).
+export const LEDGER_QUOTE_MINT = USDC_MINT;
+export const LEDGER_QUOTE_DECIMALS = 6;
+
+export type LedgerRow = {
+  tenantId: string;
+  runId: string;
+  signature: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  feeLamports: string | null;
+  inValueQuote: string | null;
+  outValueQuote: string | null;
+  feeValueQuote: string | null;
+};
+
+const CONFIRMED_STATUSES = new Set(["confirmed", "finalized"]);
+
+export async function insertLedgerSwap(
+  env: Env,
+  row: LedgerRow,
+): Promise<void> {
+  // Signatures are unique, so re-recording the same swap is a no-op.
+  await env.WAITLIST_DB.prepare(
+    "INSERT OR IGNORE INTO trade_ledger (tenant_id, run_id, signature, input_mint, output_mint, in_amount, out_amount, fee_lamports, quote_mint, in_value_quote, out_value_quote, fee_value_quote) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)",
+  )
+    .bind(
+      row.tenantId,
+      row.runId,
+      row.signature,
+      row.inputMint,
+      row.outputMint,
+      row.inAmount,
+      row.outAmount,
+      row.feeLamports,
+      LEDGER_QUOTE_MINT,
+      row.inValueQuote,
+      row.outValueQuote,
+      row.feeValueQuote,
+    )
+    .run();
+}
+
+export async function listLedgerSwaps(
+  env: Env,
+  tenantId: string,
+): Promise<LedgerSwap[]> {
+  const result = await env.WAITLIST_DB.prepare(
+    "SELECT signature, input_mint, output_mint, in_amount, out_amount, in_value_quote, out_value_quote, fee_value_quote, executed_at FROM trade_ledger WHERE tenant_id = ?1 ORDER BY id ASC",
+  )
+    .bind(tenantId)
+    .all();
+  return (result.results ?? []).map((row) => {
+    const r = row as Record<string, unknown>;
+    return {
+      // D1 datetime('now') is UTC without a zone suffix.
+      ts: `${String(r.executed_at).replace(" ", "T")}Z`,
+      signature: r.signature ? String(r.signature) : null,
+      inputMint: String(r.input_mint),
+      outputMint: String(r.output_mint),
+      inAmount: String(r.in_amount),
+      outAmount: String(r.out_amount),
+      inValueQuote: r.in_value_quote ? String(r.in_value_quote) : null,
+      outValueQuote: r.out_value_quote ? String(r.out_value_quote) : null,
+      feeValueQuote: r.fee_value_quote ? String(r.fee_value_quote) : null,
+    };
+  });
+}
+
+// Change in the wallet's token balance for `mint` across the transaction.
+// SOL is excluded: Jupiter wraps/unwraps it inside the transaction, so the
+// token balances do not reflect the native amount moved.
+export function walletTokenDelta(
+  pre: TransactionTokenBalance[],
+  post: TransactionTokenBalance[],
+  wallet: string,
+  mint: string,
+): bigint | null {
+  if (mint === SOL_MINT) return null;
+  const sum = (balances: TransactionTokenBalance[]) =>
+    balances
+      .filter((b) => b.mint === mint && b.owner === wallet)
+      .reduce((total, b) => total + BigInt(b.uiTokenAmount.amount || "0"), 0n);
+  const matched = [...pre, ...post].some(
+    (b) => b.mint === mint && b.owner === wallet,
+  );
+  return matched ? sum(post) - sum(pre) : null;
+}
+
+// Quote-atomic value of `amount` of `mint`; null when no route exists.
+// Valuation quotes are not trades and skip enforcePolicy.
+export async function valueInQuote(
+  jupiter: JupiterClient,
+  mint: string,
+  amount: bigint,
+  slippageBps: number,
+): Promise<bigint | null> {
+  if (amount <= 0n) return 0n;
+  if (mint === LEDGER_QUOTE_MINT) return amount;
+  try {
+    const quote = await jupiter.quote({
+      inputMint: mint,
+      outputMint: LEDGER_QUOTE_MINT,
+      amount: amount.toString(),
+      slippageBps: Math.max(1, slippageBps),
+      swapMode: "ExactIn",
+    });
+    return BigInt(quote.outAmount || "0");
+  } catch {
+    return null;
+  }
+}
+
+// Records a landed swap in the ledger. Amounts prefer the wallet's actual
+// token balance changes over the quote; values and the network fee are
+// converted to USDC at execution time. Non-confirmed statuses are ignored.
+export async function recordConfirmedSwap(input: {
+  env: Env;
+  rpc: SolanaRpc;
+  jupiter: JupiterClient;
+  tenantId: string;
+  runId: string;
+  wallet: string;
+  signature: string;
+  status: string;
+  quote: JupiterQuoteResponse;
+  slippageBps: number;
+}): Promise<void> {
+  const { env, rpc, jupiter, quote, slippageBps } = input;
+  if (!CONFIRMED_STATUSES.has(input.status)) return;
+
+  const meta = await rpc.getTransactionMeta(input.signature);
+  const actualIn = meta
+    ? walletTokenDelta(
+        meta.preTokenBalances,
+        meta.postTokenBalances,
+        input.wallet,
+        quote.inputMint,
+      )
+    : null;
+  const actualOut = meta
+    ? walletTokenDelta(
+        meta.preTokenBalances,
+        meta.postTokenBalances,
+        input.wallet,
+        quote.outputMint,
+      )
+    : null;
+  const inAmount =
+    actualIn !== null && actualIn < 0n ? -actualIn : BigInt(quote.inAmount);
+  const outAmount =
+    actualOut !== null && actualOut > 0n ? actualOut : BigInt(quote.outAmount);
+
+  // A quote-mint side is its own value; otherwise value the output leg
+  // (what was received), falling back to the input leg.
+  let inValue: bigint | null = null;
+  let outValue: bigint | null = null;
+  if (quote.inputMint === LEDGER_QUOTE_MINT) {
+    inValue = inAmount;
+  } else if (quote.outputMint === LEDGER_QUOTE_MINT) {
+    outValue = outAmount;
+  } else {
+    outValue = await valueInQuote(
+      jupiter,
+      quote.outputMint,
+      outAmount,
+      slippageBps,
+    );
+    if (outValue === null) {
+      inValue = await valueInQuote(
+        jupiter,
+        quote.inputMint,
+        inAmount,
+        slippageBps,
+      );
+    }
+  }
+  const feeValue = meta
+    ? await valueInQuote(jupiter, SOL_MINT, meta.fee, slippageBps)
+    : null;
+
+  await insertLedgerSwap(env, {
+    tenantId: input.tenantId,
+    runId: input.runId,
+    signature: input.signature,
+    inputMint: quote.inputMint,
+    outputMint: quote.outputMint,
+    inAmount: inAmount.toString(),
+    outAmount: outAmount.toString(),
+    feeLamports: meta ? meta.fee.toString() : null,
+    inValueQuote: inValue === null ? null : inValue.toString(),
+    outValueQuote: outValue === null ? null : outValue.toString(),
+    feeValueQuote: feeValue === null ? null : feeValue.toString(),
+  });
+}
+
+export type BotPnl = {
+  quoteMint: string;
+  quoteDecimals: number;
+  method: CostBasisMethod;
+  realizedPnl: string;
+  unrealizedPnl: string;
+  fees: string;
+  positions: MarkedPosition[];
+  buckets: PnlBucket[];
+  // Newest first.
+  trades: LedgerTrade[];
+};
+
+// Slippage used for valuation quotes only; nothing is executed.
+const VALUATION_SLIPPAGE_BPS = 50;
+
+export async function getBotPnl(
+  env: Env,
+  jupiter: JupiterClient,
+  tenantId: string,
+  opts: {
+    method: CostBasisMethod;
+    bucket: PnlBucketPeriod;
+    days: number;
+    tradeLimit?: number;
+  },
+): Promise<BotPnl> {
+  const swaps = await listLedgerSwaps(env, tenantId);
+  const ledger = buildLedger(swaps, {
+    quoteMint: LEDGER_QUOTE_MINT,
+    method: opts.method,
+  });
+
+  const values = new Map<string, bigint | null>();
+  // Sequential on purpose: the lite Jupiter host rate-limits bursts.
+  for (const position of ledger.positions) {
+    values.set(
+      position.mint,
+      await valueInQuote(
+        jupiter,
+        position.mint,
+        BigInt(position.amount),
+        VALUATION_SLIPPAGE_BPS,
+      ),
+    );
+  }
+  const marked = markToMarket(ledger.positions, values);
+
+  const days = Math.max(1, Math.min(366, Math.floor(opts.days)));
+  const cutoff = new Date(Date.now() - (days - 1) * 86_400_000)
+    .toISOString()
+    .slice(0, 10);
+  const limit = Math.max(1, Math.min(200, Math.floor(opts.tradeLimit ?? 50)));
+
+  return {
+    quoteMint: LEDGER_QUOTE_MINT,
+    quoteDecimals: LEDGER_QUOTE_DECIMALS,
+    method: ledger.method,
+    realizedPnl: ledger.realizedPnl,
+    unrealizedPnl: marked.unrealizedPnl,
+    fees: ledger.fees,
+    positions: marked.positions,
+    buckets: bucketRealizedPnl(ledger.trades, opts.bucket).filter(
+      // Weekly buckets start on Monday, so keep the one containing the cutoff.
+      (bucket) =>
+        bucket.start >= cutoff ||
+        (opts.bucket === "week" &&
+          Date.parse(bucket.start) + 7 * 86_400_000 > Date.parse(cutoff)),
+    ),
+    trades: ledger.trades.slice(-limit).reverse(),
+  };
+}
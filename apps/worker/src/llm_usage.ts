@@ -0,0 +1,146 @@
+import type { LlmUsage } from "../../../src/llm/index";
+import type { Env } from "./types";
+
+export type LlmUsageDay = {
+  day: string;
+  provider: string;
+  model: string;
+  ticks: number;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number | null;
+};
+
+// USD per 1M tokens, keyed by model id. Configured via LLM_PRICING, e.g.
+// {"glm-4.7":{"input":0.6,"output":2.2}}.
+export type LlmPricing = Record<string, { input: number; output: number }>;
+
+export function usageDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function parseLlmPricing(raw: string | undefined): LlmPricing {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return {};
+    }
+    const out: LlmPricing = {};
+    for (const [model, price] of Object.entries(parsed)) {
+      if (!price || typeof price !== "object") continue;
+      const p = price as Record<string, unknown>;
+      const input = Number(p.input);
+      const output = Number(p.output);
+      if (Number.isFinite(input) && Number.isFinite(output)) {
+        out[model] = { input, output };
+      }
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+// Returns null for models without a price so "unknown" is not shown as free.
+export function estimateLlmCostUsd(
+  pricing: LlmPricing,
+  model: string,
+  usage: LlmUsage,
+): number | null {
+  const price = pricing[model];
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+export async function recordLlmUsage(
+  env: Env,
+  row: {
+    tenantId: string;
+    day: string;
+    provider: string;
+    model: string;
+    calls: number;
+    usage: LlmUsage;
+    costUsd: number | null;
+  },
+): Promise<void> {
+  await env.WAITLIST_DB.prepare(
+    `INSERT INTO llm_usage (tenant_id, day, provider, model, ticks, calls, prompt_tokens, completion_tokens, total_tokens, cost_usd)
+     VALUES (?1, ?2, ?3, ?4, 1, ?5, ?6, ?7, ?8, ?9)
+     ON CONFLICT (tenant_id, day, provider, model) DO UPDATE SET
+       ticks = ticks + 1,
+       calls = calls + excluded.calls,
+       prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+       completion_tokens = completion_tokens + excluded.completion_tokens,
+       total_tokens = total_tokens + excluded.total_tokens,
+       cost_usd = CASE
+         WHEN excluded.cost_usd IS NULL THEN cost_usd
+         ELSE COALESCE(cost_usd, 0) + excluded.cost_usd
+       END,
+       updated_at = datetime('now')`,
+  )
+    .bind(
+      row.tenantId,
+      row.day,
+      row.provider,
+      row.model,
+      row.calls,
+      row.usage.inputTokens,
+      row.usage.outputTokens,
+      row.usage.totalTokens,
+      row.costUsd,
+    )
+    .run();
+}
+
+// Tokens used by a bot on one day across all models; drives dailyTokenBudget.
+export async function getDailyTokenTotal(
+  env: Env,
+  tenantId: string,
+  day: string,
+): Promise<number> {
+  const row = (await env.WAITLIST_DB.prepare(
+    "SELECT COALESCE(SUM(total_tokens), 0) AS total FROM llm_usage WHERE tenant_id = ?1 AND day = ?2",
+  )
+    .bind(tenantId, day)
+    .first()) as Record<string, unknown> | null;
+  return Number(row?.total ?? 0);
+}
+
+export async function listLlmUsage(
+  env: Env,
+  tenantId: string,
+  days = 30,
+): Promise<LlmUsageDay[]> {
+  const capped = Math.max(1, Math.min(366, Math.floor(days)));
+  const since = usageDay(new Date(Date.now() - (capped - 1) * 86_400_000));
+  const result = await env.WAITLIST_DB.prepare(
+    "SELECT day, provider, model, ticks, calls, prompt_tokens, completion_tokens, total_tokens, cost_usd FROM llm_usage WHERE tenant_id = ?1 AND day >= ?2 ORDER BY day DESC, model ASC",
+  )
+    .bind(tenantId, since)
+    .all();
+
+  return (result.results ?? []).map((row) => {
+    const r = row as Record<string, unknown>;
+    return {
+      day: String(r.day),
+      provider: String(r.provider),
+      model: String(r.model),
+      ticks: Number(r.ticks ?? 0),
+      calls: Number(r.calls ?? 0),
+      promptTokens: Number(r.prompt_tokens ?? 0),
+      completionTokens: Number(r.completion_tokens ?? 0),
+      totalTokens: Number(r.total_tokens ?? 0),
+      costUsd:
+        r.cost_usd === null || r.cost_usd === undefined
+          ? null
+          : Number(r.cost_usd),
+    };
+  });
+}
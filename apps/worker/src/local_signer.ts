@@ -0,0 +1,197 @@
+// Local Ed25519 keypair signer. The 32-byte seed is stored encrypted at rest
+// (AES-GCM, key from LOCAL_SIGNER_SECRET) and only decrypted for signing.
+// Uses WebCrypto only so it runs in Workers, Bun and Node without a Solana SDK.
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const ENCRYPTED_PREFIX = "v1";
+
+export function base58Encode(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros += 1;
+  let value = 0n;
+  for (const b of bytes) value = value * 256n + BigInt(b);
+  let out = "";
+  while (value > 0n) {
+    out = BASE58_ALPHABET[Number(value % 58n)] + out;
+    value /= 58n;
+  }
+  return "1".repeat(zeros) + out;
+}
+
+export function base58Decode(input: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < input.length && input[zeros] === "1") zeros += 1;
+  let value = 0n;
+  for (const char of input) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error("invalid-base58");
+    value = value * 58n + BigInt(digit);
+  }
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value % 256n));
+    value /= 256n;
+  }
+  return new Uint8Array([...new Array(zeros).fill(0), ...bytes]);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+export function base64ToBytes(input: string): Uint8Array {
+  const binary = atob(input);
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) out[i] = binary.charCodeAt(i);
+  return out;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(input: string): Uint8Array {
+  const padded = input.replace(/-/g, "+").replace(/_/g, "/");
+  return base64ToBytes(padded + "=".repeat((4 - (padded.length % 4)) % 4));
+}
+
+async function importEncryptionKey(secret: string): Promise<CryptoKey> {
+  const raw = base64ToBytes(secret);
+  if (raw.length !== 32) throw new Error("invalid-local-signer-secret");
+  return await crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export type LocalKeypair = {
+  // 32-byte Ed25519 seed.
+  seed: Uint8Array;
+  publicKey: Uint8Array;
+};
+
+export async function generateLocalKeypair(): Promise<LocalKeypair> {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const jwk = (await crypto.subtle.exportKey("jwk", pair.privateKey)) as {
+    d?: string;
+    x?: string;
+  };
+  if (!jwk.d || !jwk.x) throw new Error("local-signer-keygen-failed");
+  return { seed: fromBase64Url(jwk.d), publicKey: fromBase64Url(jwk.x) };
+}
+
+// "v1:<iv b64>:<ciphertext b64>" where the plaintext is seed || publicKey.
+export async function encryptLocalKeypair(
+  keypair: LocalKeypair,
+  secret: string,
+): Promise<string> {
+  const key = await importEncryptionKey(secret);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plain = new Uint8Array(64);
+  plain.set(keypair.seed, 0);
+  plain.set(keypair.publicKey, 32);
+  const cipher = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plain),
+  );
+  return `${ENCRYPTED_PREFIX}:${bytesToBase64(iv)}:${bytesToBase64(cipher)}`;
+}
+
+export async function decryptLocalKeypair(
+  encrypted: string,
+  secret: string,
+): Promise<LocalKeypair> {
+  const [version, ivB64, cipherB64] = encrypted.split(":");
+  if (version !== ENCRYPTED_PREFIX || !ivB64 || !cipherB64) {
+    throw new Error("invalid-local-signer-keypair");
+  }
+  const key = await importEncryptionKey(secret);
+  let plain: Uint8Array;
+  try {
+    plain = new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: base64ToBytes(ivB64) },
+        key,
+        base64ToBytes(cipherB64),
+      ),
+    );
+  } catch {
+    throw new Error("local-signer-decrypt-failed");
+  }
+  if (plain.length !== 64) throw new Error("invalid-local-signer-keypair");
+  return { seed: plain.slice(0, 32), publicKey: plain.slice(32) };
+}
+
+function readCompactU16(
+  bytes: Uint8Array,
+  offset: number,
+): { value: number; size: number } {
+  let value = 0;
+  for (let i = 0; i < 3; i += 1) {
+    const byte = bytes[offset + i];
+    if (byte === undefined) throw new Error("invalid-transaction");
+    value |= (byte & 0x7f) << (7 * i);
+    if ((byte & 0x80) === 0) return { value, size: i + 1 };
+  }
+  throw new Error("invalid-transaction");
+}
+
+// Signs a base64 wire transaction (legacy or v0) in place: the signature is
+// written into the slot matching the keypair's position among the required
+// signers, leaving any other signatures untouched.
+export async function signWireTransaction(
+  keypair: LocalKeypair,
+  base64WireTransaction: string,
+): Promise<string> {
+  const wire = base64ToBytes(base64WireTransaction);
+  const sigCount = readCompactU16(wire, 0);
+  const sigStart = sigCount.size;
+  const messageStart = sigStart + sigCount.value * 64;
+  const message = wire.slice(messageStart);
+  if (message.length === 0) throw new Error("invalid-transaction");
+
+  // v0 messages carry a 0x80 version prefix before the header.
+  let offset = (message[0] ?? 0) & 0x80 ? 1 : 0;
+  const requiredSigners = message[offset] ?? 0;
+  offset += 3;
+  const keyCount = readCompactU16(message, offset);
+  offset += keyCount.size;
+
+  let index = -1;
+  for (let i = 0; i < Math.min(requiredSigners, keyCount.value); i += 1) {
+    const key = message.subarray(offset + i * 32, offset + (i + 1) * 32);
+    if (key.every((b, j) => b === keypair.publicKey[j])) {
+      index = i;
+      break;
+    }
+  }
+  if (index < 0 || index >= sigCount.value) {
+    throw new Error("local-signer-not-a-required-signer");
+  }
+
+  const privateKey = await crypto.subtle.importKey(
+    "jwk",
+    {
+      kty: "OKP",
+      crv: "Ed25519",
+      d: toBase64Url(keypair.seed),
+      x: toBase64Url(keypair.publicKey),
+    },
+    { name: "Ed25519" },
+    false,
+    ["sign"],
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: "Ed25519" }, privateKey, message),
+  );
+  wire.set(signature, sigStart + index * 64);
+  return bytesToBase64(wire);
+}
@@ -21,6 +21,31 @@ export async function writeJsonl(env: Env, key: string, lines: string[]) {
   });
 }
 
+// Returns null when R2 is not configured or the object does not exist.
+// Malformed lines are skipped rather than failing the whole read.
+export async function readJsonl(
+  env: Env,
+  key: string,
+): Promise<Array<Record<string, unknown>> | null> {
+  if (!env.LOGS_BUCKET) return null;
+  const object = await env.LOGS_BUCKET.get(key);
+  if (!object) return null;
+  const text = await object.text();
+  const out: Array<Record<string, unknown>> = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as unknown;
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        out.push(parsed as Record<string, unknown>);
+      }
+    } catch {
+      // ignore
+    }
+  }
+  return out;
+}
+
 export function makeLogKey(tenantId: string, runId: string, date = new Date()) {
   const iso = date.toISOString().slice(0, 10);
   return `logs/${tenantId}/${iso}/${runId}.jsonl`;
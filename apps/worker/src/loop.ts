@@ -1,418 +1,484 @@
-import { runAgentTick } from "./agent";
 import { getLoopConfig } from "./config";
-import { JupiterClient } from "./jupiter";
-import { acquireLoopLock, releaseLoopLock } from "./lock";
-import { makeLogKey, writeJsonl } from "./logs";
-import { enforcePolicy, normalizePolicy } from "./policy";
-import { getPrivyWalletAddress, signTransactionWithPrivyById } from "./privy";
-import { SolanaRpc } from "./solana_rpc";
-import { getLoopState, updateLoopState } from "./state";
+import {
+  applyChildFill,
+  createParentOrder,
+  deferChild,
+  evaluateChildQuote,
+  finishParentOrder,
+  isChildDue,
+  isParentExpired,
+  isParentOrderActive,
+  isTwap,
+  nextChildAmount,
+  planTwapSlices,
+  settlePendingChild,
+  sliceAmountCap,
+  slicePriceImpactLimit,
+} from "./execution";
+import type { JupiterClient, JupiterQuoteResponse } from "./jupiter";
+import { recordConfirmedSwap } from "./ledger";
+import { recordQuotePrice } from "./market_data";
+import { notifySwapResult } from "./notifications";
+import {
+  enforcePolicy,
+  enforcePriceQuotePolicy,
+  normalizePolicy,
+} from "./policy";
+import { countersWithinTick } from "./policy_counters";
+import { resolvePriorityFee, submitSwap } from "./priority_fee";
+import { gatherPortfolioSnapshot, getMintBalanceAtomic } from "./research";
+import type { Signer } from "./signer";
+import type { SolanaRpc } from "./solana_rpc";
+import { getLoopState, strategyStateStore, updateLoopState } from "./state";
+import {
+  checkDcaFunds,
+  dcaIntervalMinutes,
+  isDcaDue,
+  planPortfolio,
+  planRebalance,
+  scalePortfolioBuys,
+} from "./strategy_plan";
+import type { StrategyTickContext, SwapFill } from "./strategy_sdk";
 import { swapWithRetry } from "./swap";
-import { insertTradeIndex } from "./trade_index";
+import {
+  getChildTrade,
+  insertTradeIndex,
+  type TradeIndexRow,
+} from "./trade_index";
+import {
+  evaluateTriggers,
+  markTriggerFilled,
+  type TriggerStates,
+  triggerDecimals,
+} from "./triggers";
 import type {
+  DcaState,
   DcaStrategy,
   Env,
+  ExecutionConfig,
+  ParentOrder,
+  PortfolioStrategy,
   RebalanceStrategy,
-  StrategyConfig,
+  TriggersStrategy,
 } from "./types";
 
 const SOL_MINT = "So11111111111111111111111111111111111111112";
 const SOL_DECIMALS = 9n;
 
-export async function runAutopilotTick(
-  env: Env,
-  ctx: ExecutionContext,
-  reason: "cron" | "manual" = "cron",
+export async function runDca(
+  input: StrategyTickContext<DcaStrategy, DcaState>,
 ) {
-  const runId = crypto.randomUUID();
-  const tenantId = env.TENANT_ID ?? "default";
-  const logKey = makeLogKey(tenantId, runId);
-  const lines: string[] = [];
-
-  const log = (
-    level: "debug" | "info" | "warn" | "error",
-    message: string,
-    meta?: Record<string, unknown>,
-  ) => {
-    const line = JSON.stringify({
-      ts: new Date().toISOString(),
-      level,
-      message,
-      tenantId,
-      runId,
-      reason,
-      ...(meta ?? {}),
+  const { env, log, rpc, jupiter, wallet, policy, strategy } = input;
+  if (await resumeParentOrder(input, "dca")) return;
+
+  const state = await input.state.get();
+  if (!isDcaDue(strategy, state.lastAt, Date.now())) {
+    log("info", "dca not due yet", {
+      everyMinutes: dcaIntervalMinutes(strategy),
+      lastAt: state.lastAt,
     });
-    lines.push(line);
-    console.log(line);
-  };
-
-  const flush = async () => {
-    try {
-      await writeJsonl(env, logKey, lines);
-    } catch (err) {
-      // Logging should never take the worker down.
-      console.log(
-        JSON.stringify({
-          ts: new Date().toISOString(),
-          level: "warn",
-          message: "failed to flush R2 logs",
-          tenantId,
-          runId,
-          err: err instanceof Error ? err.message : String(err),
-        }),
-      );
-    }
-  };
-
-  const locked = await acquireLoopLock(env, tenantId, runId);
-  if (!locked) {
-    log("warn", "tick skipped (lock held)");
-    await flush();
     return;
   }
 
-  try {
-    const config = await getLoopConfig(env);
-    if (!config.enabled) {
-      log("info", "loop disabled");
-      return;
-    }
-
-    const policy = normalizePolicy(config.policy);
-    if (policy.killSwitch) {
-      log("warn", "kill switch enabled");
-      return;
-    }
-
-    const strategy = normalizeStrategy(config.strategy);
-    if (!strategy || strategy.type === "noop") {
-      log("info", "no strategy configured");
-      return;
-    }
+  const solBalanceLamports = await rpc.getBalanceLamports(wallet);
+  const reserveLamports = BigInt(policy.minSolReserveLamports);
+  const funds = checkDcaFunds({
+    strategy,
+    solBalanceLamports,
+    reserveLamports,
+  });
 
-    const rpc = SolanaRpc.fromEnv(env);
-    const jupiter = new JupiterClient(
-      // Jupiter introduced a gateway with new hostnames. The lite host is intended
-      // for free/testing (no API key), while the pro host requires an API key.
-      // See: https://dev.jup.ag/updates
-      env.JUPITER_BASE_URL ?? "https://lite-api.jup.ag",
-      env.JUPITER_API_KEY,
+  if (!funds.ok) {
+    log(
+      "warn",
+      funds.reason === "insufficient-sol"
+        ? "insufficient SOL for DCA (after reserve)"
+        : "insufficient SOL for fees (reserve)",
+      {
+        solBalanceLamports: solBalanceLamports.toString(),
+        reserveLamports: reserveLamports.toString(),
+        ...(funds.reason === "insufficient-sol"
+          ? { amount: strategy.amount }
+          : {}),
+      },
     );
-    const wallet = await resolveWalletAddress(env, policy);
-    const privyWalletId = policy.dryRun
-      ? undefined
-      : (env.PRIVY_WALLET_ID ?? undefined);
-
-    log("info", "tick start", {
-      strategy: strategy.type,
-      dryRun: policy.dryRun,
+    if (!policy.dryRun) return;
+  }
+
+  if (strategy.execution && isTwap(strategy.execution)) {
+    // The DCA interval starts when the parent order does, so a long TWAP
+    // never queues a second parent behind it.
+    await input.state.update((current) => ({
+      ...current,
+      lastAt: new Date().toISOString(),
+    }));
+    await startParentOrder({
+      ...input,
+      strategyType: "dca",
+      side: "swap",
+      inputMint: strategy.inputMint,
+      outputMint: strategy.outputMint,
+      totalAmount: BigInt(strategy.amount),
+      execution: strategy.execution,
     });
+    return;
+  }
 
-    if (strategy.type === "dca") {
-      await runDca({
-        env,
-        ctx,
-        tenantId,
-        runId,
-        logKey,
-        log,
-        rpc,
-        jupiter,
-        wallet,
-        policy,
-        strategy,
-        privyWalletId,
-      });
-      return;
-    }
+  const quote = await jupiter.quote({
+    inputMint: strategy.inputMint,
+    outputMint: strategy.outputMint,
+    amount: strategy.amount,
+    slippageBps: policy.slippageBps,
+    swapMode: "ExactIn",
+  });
+  await recordQuotePrice({ env, rpc, log, quote });
 
-    if (strategy.type === "rebalance") {
-      await runRebalance({
-        env,
-        ctx,
-        tenantId,
-        runId,
-        logKey,
-        log,
-        rpc,
-        jupiter,
-        wallet,
-        policy,
-        strategy,
-        privyWalletId,
-      });
-      return;
-    }
+  await executeQuotedSwap({
+    ...input,
+    side: "swap",
+    label: "dca",
+    quote,
+    // Write lastAt BEFORE sending to guarantee at-most-once execution.
+    // If the send fails, we skip one DCA interval (safe) rather than
+    // risk double-executing on crash (unsafe with real funds).
+    commit: () =>
+      input.state.update((current) => ({
+        ...current,
+        lastAt: new Date().toISOString(),
+      })),
+  });
+}
 
-    if (strategy.type === "agent") {
-      await runAgentTick({
-        env,
-        ctx,
-        tenantId,
-        runId,
-        logKey,
-        log,
-        rpc,
-        jupiter,
-        wallet,
-        policy,
-        strategy,
-        privyWalletId,
-      });
-      return;
-    }
+export async function runRebalance(
+  input: StrategyTickContext<RebalanceStrategy>,
+) {
+  const { env, log, rpc, jupiter, wallet, policy, strategy } = input;
 
-    log("warn", "unsupported strategy type", {
-      type: (strategy as StrategyConfig).type,
-    });
-  } catch (err) {
-    log("error", "tick failed", {
-      err: err instanceof Error ? err.message : String(err),
-    });
-  } finally {
-    await releaseLoopLock(env, tenantId, runId);
-    await flush();
-    ctx.waitUntil(Promise.resolve());
+  if (strategy.baseMint !== SOL_MINT) {
+    throw new Error("rebalance-only-sol-base-supported");
   }
-}
+  if (await resumeParentOrder(input, "rebalance")) return;
+  const twap = strategy.execution && isTwap(strategy.execution);
 
-export type TenantTickInput = {
-  tenantId: string;
-  walletAddress: string;
-  // Required for live trading / simulation. Not required for dry-runs.
-  privyWalletId?: string;
-};
+  const solBalanceLamports = await rpc.getBalanceLamports(wallet);
+  const quoteBalanceAtomic = await rpc.getTokenBalanceAtomic(
+    wallet,
+    strategy.quoteMint,
+  );
 
-export async function runAutopilotTickForTenant(
-  env: Env,
-  ctx: ExecutionContext,
-  input: TenantTickInput,
-  reason: "cron" | "manual" = "cron",
-  opts?: { skipLock?: boolean },
-): Promise<{
-  ok: boolean;
-  error: string | null;
-  runId: string;
-  logKey: string;
-}> {
-  const runId = crypto.randomUUID();
-  const tenantId = input.tenantId;
-  const logKey = makeLogKey(tenantId, runId);
-  const lines: string[] = [];
-  let ok = true;
-  let errorMessage: string | null = null;
-
-  const log = (
-    level: "debug" | "info" | "warn" | "error",
-    message: string,
-    meta?: Record<string, unknown>,
-  ) => {
-    const line = JSON.stringify({
-      ts: new Date().toISOString(),
-      level,
-      message,
-      tenantId,
-      runId,
-      reason,
-      ...(meta ?? {}),
-    });
-    lines.push(line);
-    console.log(line);
-  };
+  // Price oracle via Jupiter: 1 SOL -> quoteMint.
+  const oneSolLamports = (10n ** SOL_DECIMALS).toString();
+  const priceQuote = await jupiter.quote({
+    inputMint: SOL_MINT,
+    outputMint: strategy.quoteMint,
+    amount: oneSolLamports,
+    slippageBps: Math.max(1, policy.slippageBps),
+    swapMode: "ExactIn",
+  });
+  await enforcePriceQuotePolicy(policy, priceQuote);
+  await recordQuotePrice({ env, rpc, log, quote: priceQuote });
 
-  const flush = async () => {
-    try {
-      await writeJsonl(env, logKey, lines);
-    } catch (err) {
-      // Logging should never take the worker down.
-      console.log(
-        JSON.stringify({
-          ts: new Date().toISOString(),
-          level: "warn",
-          message: "failed to flush R2 logs",
-          tenantId,
-          runId,
-          err: err instanceof Error ? err.message : String(err),
-        }),
-      );
-    }
-  };
+  const quotePerSolAtomic = BigInt(priceQuote.outAmount || "0");
+  if (quotePerSolAtomic <= 0n) {
+    log("warn", "rebalance: no price route");
+    return;
+  }
 
-  const shouldLock = !opts?.skipLock;
-  if (shouldLock) {
-    const locked = await acquireLoopLock(env, tenantId, runId);
-    if (!locked) {
-      log("warn", "tick skipped (lock held)");
-      await flush();
-      return { ok: true, error: null, runId, logKey };
-    }
+  const plan = planRebalance({
+    // TWAP moves the whole imbalance; the caps bound each child instead.
+    strategy: twap
+      ? {
+          ...strategy,
+          maxSellBaseAmount: undefined,
+          maxBuyQuoteAmount: undefined,
+        }
+      : strategy,
+    baseBalanceAtomic: solBalanceLamports,
+    quoteBalanceAtomic,
+    quotePerBaseAtomic: quotePerSolAtomic,
+    baseDecimals: SOL_DECIMALS,
+    reserveLamports: BigInt(policy.minSolReserveLamports),
+  });
+  if (plan.action.type === "none" && plan.action.reason === "empty-portfolio") {
+    log("info", "rebalance: empty portfolio");
+    return;
   }
 
-  try {
-    const config = await getLoopConfig(env, tenantId);
-    if (!config.enabled) {
-      log("info", "loop disabled");
-      return { ok: true, error: null, runId, logKey };
-    }
+  log("info", "rebalance snapshot", {
+    quotePerSolAtomic: quotePerSolAtomic.toString(),
+    solBalanceLamports: solBalanceLamports.toString(),
+    quoteBalanceAtomic: quoteBalanceAtomic.toString(),
+    solValueQuoteAtomic: plan.baseValueQuoteAtomic.toString(),
+    totalQuoteAtomic: plan.totalQuoteAtomic.toString(),
+    currentBasePct: plan.currentBaseBps / 100,
+    targetBasePct: plan.targetBps / 100,
+    thresholdPct: plan.thresholdBps / 100,
+  });
 
-    const policy = normalizePolicy(config.policy);
-    if (policy.killSwitch) {
-      log("warn", "kill switch enabled");
-      return { ok: true, error: null, runId, logKey };
+  if (plan.action.type === "none") {
+    if (plan.action.reason === "within-threshold") {
+      log("info", "rebalance within threshold, no trade");
+    } else if (plan.action.reason === "zero-sell") {
+      log("warn", "rebalance: computed sell amount is 0");
+    } else if (plan.action.reason === "insufficient-reserve") {
+      log("warn", "rebalance: insufficient SOL for fees (reserve)", {
+        solBalanceLamports: solBalanceLamports.toString(),
+        reserveLamports: policy.minSolReserveLamports,
+      });
+    } else {
+      log("warn", "rebalance: computed buy amount is 0");
     }
+    return;
+  }
 
-    const strategy = normalizeStrategy(config.strategy);
-    if (!strategy || strategy.type === "noop") {
-      log("info", "no strategy configured");
-      return { ok: true, error: null, runId, logKey };
-    }
+  if (twap && strategy.execution) {
+    const sell = plan.action.type === "sell";
+    await startParentOrder({
+      ...input,
+      strategyType: "rebalance",
+      side: sell ? "rebalance_sell" : "rebalance_buy",
+      inputMint: sell ? SOL_MINT : strategy.quoteMint,
+      outputMint: sell ? strategy.quoteMint : SOL_MINT,
+      totalAmount: plan.action.amountAtomic,
+      execution: strategy.execution,
+      strategyCap: sell
+        ? strategy.maxSellBaseAmount
+        : strategy.maxBuyQuoteAmount,
+    });
+    return;
+  }
 
-    const rpc = SolanaRpc.fromEnv(env);
-    const jupiter = new JupiterClient(
-      env.JUPITER_BASE_URL ?? "https://lite-api.jup.ag",
-      env.JUPITER_API_KEY,
-    );
+  if (plan.action.type === "sell") {
+    // Sell SOL -> quoteMint.
+    const quote = await jupiter.quote({
+      inputMint: SOL_MINT,
+      outputMint: strategy.quoteMint,
+      amount: plan.action.amountAtomic.toString(),
+      slippageBps: policy.slippageBps,
+      swapMode: "ExactIn",
+    });
+    await executeQuotedSwap({
+      ...input,
+      side: "rebalance_sell",
+      label: "rebalance sell",
+      quote,
+    });
+    return;
+  }
 
-    const wallet = input.walletAddress;
-    if (!policy.dryRun && !input.privyWalletId) {
-      ok = false;
-      errorMessage = "missing-privy-wallet-id";
-      log("error", "missing privyWalletId for live tick");
-      return { ok, error: errorMessage, runId, logKey };
-    }
+  // Buy SOL using quoteMint.
+  const quote = await jupiter.quote({
+    inputMint: strategy.quoteMint,
+    outputMint: SOL_MINT,
+    amount: plan.action.amountAtomic.toString(),
+    slippageBps: policy.slippageBps,
+    swapMode: "ExactIn",
+  });
+  await executeQuotedSwap({
+    ...input,
+    side: "rebalance_buy",
+    label: "rebalance buy",
+    quote,
+  });
+}
 
-    log("info", "tick start", {
-      strategy: strategy.type,
-      dryRun: policy.dryRun,
-      simulateOnly: policy.simulateOnly,
-    });
+export async function runTriggers(
+  input: StrategyTickContext<TriggersStrategy, TriggerStates>,
+) {
+  const { env, log, rpc, jupiter, wallet, policy, strategy } = input;
+  const { baseDecimals, quoteDecimals } = triggerDecimals(strategy);
 
-    if (strategy.type === "dca") {
-      await runDca({
-        env,
-        ctx,
-        tenantId,
-        configTenantId: tenantId,
-        runId,
-        logKey,
-        log,
-        rpc,
-        jupiter,
-        wallet,
-        policy,
-        strategy,
-        privyWalletId: input.privyWalletId,
-      });
-      return { ok, error: errorMessage, runId, logKey };
-    }
+  const [baseBalanceAtomic, quoteBalanceAtomic] = await Promise.all([
+    getMintBalanceAtomic(rpc, wallet, strategy.baseMint),
+    getMintBalanceAtomic(rpc, wallet, strategy.quoteMint),
+  ]);
 
-    if (strategy.type === "rebalance") {
-      await runRebalance({
-        env,
-        ctx,
-        tenantId,
-        configTenantId: tenantId,
-        runId,
-        logKey,
-        log,
-        rpc,
-        jupiter,
-        wallet,
-        policy,
-        strategy,
-        privyWalletId: input.privyWalletId,
-      });
-      return { ok, error: errorMessage, runId, logKey };
-    }
+  // Price oracle via Jupiter: 1 base token -> quoteMint.
+  const priceQuote = await jupiter.quote({
+    inputMint: strategy.baseMint,
+    outputMint: strategy.quoteMint,
+    amount: (10n ** BigInt(baseDecimals)).toString(),
+    slippageBps: Math.max(1, policy.slippageBps),
+    swapMode: "ExactIn",
+  });
+  await enforcePriceQuotePolicy(policy, priceQuote);
+  await recordQuotePrice({
+    env,
+    rpc,
+    log,
+    quote: priceQuote,
+    decimals: {
+      [strategy.baseMint]: baseDecimals,
+      [strategy.quoteMint]: quoteDecimals,
+    },
+  });
 
-    if (strategy.type === "agent") {
-      await runAgentTick({
-        env,
-        ctx,
-        tenantId,
-        configTenantId: tenantId,
-        runId,
-        logKey,
-        log,
-        rpc,
-        jupiter,
-        wallet,
-        policy,
-        strategy,
-        privyWalletId: input.privyWalletId,
-      });
-      return { ok, error: errorMessage, runId, logKey };
-    }
+  const quotePerBaseAtomic = BigInt(priceQuote.outAmount || "0");
+  if (quotePerBaseAtomic <= 0n) {
+    log("warn", "triggers: no price route");
+    return;
+  }
 
-    log("warn", "unsupported strategy type", {
-      type: (strategy as StrategyConfig).type,
-    });
-  } catch (err) {
-    ok = false;
-    errorMessage = err instanceof Error ? err.message : String(err);
-    log("error", "tick failed", {
-      err: err instanceof Error ? err.message : String(err),
-    });
-  } finally {
-    if (shouldLock) {
-      await releaseLoopLock(env, tenantId, runId);
-    }
-    await flush();
-    ctx.waitUntil(Promise.resolve());
+  const states = await input.state.get();
+  const nowIso = new Date().toISOString();
+  const evaluation = evaluateTriggers({
+    strategy,
+    states,
+    quotePerBaseAtomic,
+    baseBalanceAtomic,
+    quoteBalanceAtomic,
+    reserveLamports: BigInt(policy.minSolReserveLamports),
+    nowIso,
+  });
+  // Persist armed/peak state every tick so trailing stops track the high.
+  await input.state.update(() => evaluation.states);
+
+  log("info", "triggers snapshot", {
+    quotePerBaseAtomic: quotePerBaseAtomic.toString(),
+    baseBalanceAtomic: baseBalanceAtomic.toString(),
+    quoteBalanceAtomic: quoteBalanceAtomic.toString(),
+    armed: strategy.triggers
+      .filter((t) => evaluation.states[t.id]?.status === "armed")
+      .map((t) => t.id),
+  });
+  for (const skip of evaluation.skipped) {
+    log("warn", "trigger crossed but not executable", skip);
+  }
+
+  const fire = evaluation.fire;
+  if (!fire) {
+    log("info", "no trigger crossed");
+    return;
   }
 
-  return { ok, error: errorMessage, runId, logKey };
+  const triggerId = fire.trigger.id;
+  const quote = await jupiter.quote({
+    inputMint: fire.side === "buy" ? strategy.quoteMint : strategy.baseMint,
+    outputMint: fire.side === "buy" ? strategy.baseMint : strategy.quoteMint,
+    amount: fire.amountAtomic.toString(),
+    slippageBps: policy.slippageBps,
+    swapMode: "ExactIn",
+  });
+  await executeQuotedSwap({
+    ...input,
+    side: fire.side === "buy" ? "trigger_buy" : "trigger_sell",
+    label: "trigger",
+    quote,
+    logMeta: { triggerId, kind: fire.trigger.kind },
+    tags: { triggerId },
+    // Mark filled BEFORE sending (at-most-once, same reasoning as DCA lastAt).
+    // Dry-run and simulated fills leave the trigger armed: a one-shot order
+    // is only used up by a real send.
+    commitLiveOnly: true,
+    commit: () =>
+      input.state.update((current) =>
+        markTriggerFilled(
+          strategy,
+          current,
+          triggerId,
+          new Date().toISOString(),
+        ),
+      ),
+  });
 }
 
-function normalizeStrategy(strategy: unknown): StrategyConfig | null {
-  if (!strategy || typeof strategy !== "object") return null;
-  const type = (strategy as { type?: unknown }).type;
-  if (
-    type === "dca" ||
-    type === "rebalance" ||
-    type === "noop" ||
-    type === "agent"
-  ) {
-    return strategy as StrategyConfig;
-  }
-  return null;
+type LoopLogFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  meta?: Record<string, unknown>,
+) => void;
+
+// Binds the per-tick services a strategy's `tick` receives: its state slice
+// and the swap executor below.
+export function createStrategyTickContext<
+  TConfig extends { type: string },
+  TState,
+>(
+  input: Omit<StrategyTickContext<TConfig, TState>, "state" | "executeSwap">,
+  initialState: () => TState,
+): StrategyTickContext<TConfig, TState> {
+  return {
+    ...input,
+    state: strategyStateStore(
+      input.env,
+      input.tenantId,
+      input.strategy.type,
+      initialState,
+    ),
+    executeSwap: (request) => executeSwapLeg({ ...input, ...request }),
+  };
 }
 
-async function resolveWalletAddress(
-  env: Env,
-  policy: ReturnType<typeof normalizePolicy>,
-): Promise<string> {
-  // For dry-runs we don't want to require Privy; we just need *some* address to query balances.
-  if (policy.dryRun) {
-    return (
-      env.DRYRUN_WALLET_ADDRESS ??
-      // System program address; fine for balance queries, never used for signing.
-      "11111111111111111111111111111111"
-    );
-  }
-  return await getPrivyWalletAddress(env);
+// Quote -> policy -> (dry run | simulate | sign + send) -> trade_index for a
+// single swap. Returns null when the policy rejects the quote so callers
+// executing several legs can move on to the next one. A caller that already
+// holds a quote (TWAP children) passes it in; `parent` tags the trade_index
+// row as a child of that parent order.
+async function executeSwapLeg(
+  input: SwapContext & {
+    side: string;
+    inputMint: string;
+    outputMint: string;
+    amount: string;
+    quote?: JupiterQuoteResponse;
+    reasoning?: string;
+    parent?: { id: string; sliceIndex: number };
+  },
+): Promise<SwapFill | null> {
+  const { jupiter, policy, side, reasoning, parent } = input;
+  const quote =
+    input.quote ??
+    (await jupiter.quote({
+      inputMint: input.inputMint,
+      outputMint: input.outputMint,
+      amount: input.amount,
+      slippageBps: policy.slippageBps,
+      swapMode: "ExactIn",
+    }));
+  return await executeQuotedSwap({
+    ...input,
+    label: side,
+    quote,
+    tags: { parentId: parent?.id, sliceIndex: parent?.sliceIndex, reasoning },
+    skipRejected: true,
+  });
 }
 
-async function runDca(input: {
+type SwapContext = {
   env: Env;
-  ctx: ExecutionContext;
   tenantId: string;
   configTenantId?: string;
   runId: string;
   logKey: string;
-  log: (
-    level: "debug" | "info" | "warn" | "error",
-    message: string,
-    meta?: Record<string, unknown>,
-  ) => void;
+  log: LoopLogFn;
   rpc: SolanaRpc;
   jupiter: JupiterClient;
   wallet: string;
   policy: ReturnType<typeof normalizePolicy>;
-  strategy: DcaStrategy;
-  privyWalletId?: string;
-}) {
+  signer?: Signer;
+};
+
+// Every strategy swap goes through here so the policy check, trade_index
+// row (and the policy counters it records) and ledger entry stay the same
+// across strategies. `commit` runs once the swap is going ahead: after the
+// dry-run or simulation is recorded, or right before a live send; with
+// `commitLiveOnly` only the live send runs it. With `skipRejected` a policy
+// rejection is logged and null returned instead of failing the tick.
+async function executeQuotedSwap(
+  input: SwapContext & {
+    side: string;
+    label: string;
+    quote: JupiterQuoteResponse;
+    logMeta?: Record<string, unknown>;
+    tags?: Pick<
+      TradeIndexRow,
+      "triggerId" | "parentId" | "sliceIndex" | "reasoning"
+    >;
+    commit?: () => Promise<unknown>;
+    commitLiveOnly?: boolean;
+    skipRejected?: boolean;
+  },
+): Promise<SwapFill | null> {
   const {
     env,
     tenantId,
@@ -424,52 +490,31 @@ async function runDca(input: {
     jupiter,
     wallet,
     policy,
-    strategy,
-    privyWalletId,
+    signer,
+    side,
+    label,
+    quote,
+    logMeta,
+    tags,
+    commit,
   } = input;
-  const everyMinutes = Math.max(1, Math.floor(strategy.everyMinutes ?? 60));
-
-  const state = await getLoopState(env, tenantId);
-  const lastAt = state.dca?.lastAt ? Date.parse(state.dca.lastAt) : NaN;
-  const now = Date.now();
-  if (Number.isFinite(lastAt) && now - lastAt < everyMinutes * 60_000) {
-    log("info", "dca not due yet", { everyMinutes, lastAt: state.dca?.lastAt });
-    return;
-  }
-
-  const solBalanceLamports = await rpc.getBalanceLamports(wallet);
-  const reserveLamports = BigInt(policy.minSolReserveLamports);
+  const commitPaperFill = input.commitLiveOnly ? undefined : commit;
 
-  if (strategy.inputMint === SOL_MINT) {
-    const needed = BigInt(strategy.amount) + reserveLamports;
-    if (solBalanceLamports < needed) {
-      log("warn", "insufficient SOL for DCA (after reserve)", {
-        solBalanceLamports: solBalanceLamports.toString(),
-        reserveLamports: reserveLamports.toString(),
-        amount: strategy.amount,
-      });
-      if (!policy.dryRun) return;
-    }
-  } else {
-    if (solBalanceLamports < reserveLamports) {
-      log("warn", "insufficient SOL for fees (reserve)", {
-        solBalanceLamports: solBalanceLamports.toString(),
-        reserveLamports: reserveLamports.toString(),
-      });
-      if (!policy.dryRun) return;
-    }
+  try {
+    await enforcePolicy(policy, quote);
+  } catch (err) {
+    if (!input.skipRejected) throw err;
+    log("warn", `${label} rejected by policy`, {
+      inputMint: quote.inputMint,
+      outputMint: quote.outputMint,
+      inAmount: quote.inAmount,
+      err: err instanceof Error ? err.message : String(err),
+    });
+    return null;
   }
 
-  const quote = await jupiter.quote({
-    inputMint: strategy.inputMint,
-    outputMint: strategy.outputMint,
-    amount: strategy.amount,
-    slippageBps: policy.slippageBps,
-    swapMode: "ExactIn",
-  });
-  enforcePolicy(policy, quote);
-
-  log("info", "jupiter quote", {
+  log("info", `${label} quote`, {
+    ...logMeta,
     inputMint: quote.inputMint,
     outputMint: quote.outputMint,
     inAmount: quote.inAmount,
@@ -483,45 +528,44 @@ async function runDca(input: {
       runId,
       venue: "jupiter",
       market: `${quote.inputMint}->${quote.outputMint}`,
-      side: "swap",
+      side,
       size: quote.inAmount,
       price: quote.outAmount,
       status: "dry_run",
       logKey,
       signature: null,
+      ...tags,
     });
-    await updateLoopState(env, tenantId, (current) => ({
-      ...current,
-      dca: { ...(current.dca ?? {}), lastAt: new Date().toISOString() },
-    }));
+    await commitPaperFill?.();
     log("info", "dry run complete");
-    return;
+    return {
+      status: "dry_run",
+      inAmount: quote.inAmount,
+      outAmount: quote.outAmount,
+    };
   }
 
   // Re-check config before building/signing/sending: allows "stop" / kill switch / policy edits
   // to take effect quickly, even if a tick is already in-flight (openclaw-style control).
   await assertLoopStillEnabled(env, log, configTenantId);
 
+  const fee = await resolvePriorityFee(rpc, policy, quote);
+
   const {
     swap,
     quoteResponse: usedQuote,
     refreshed,
-  } = await swapWithRetry(jupiter, quote, wallet, policy);
+  } = await swapWithRetry(jupiter, quote, wallet, policy, fee.params);
   if (refreshed) {
-    log("warn", "quote refreshed due to swap 422", {
+    log("warn", `${label}: quote refreshed due to swap 422`, {
       inAmount: usedQuote.inAmount,
       outAmount: usedQuote.outAmount,
       priceImpactPct: usedQuote.priceImpactPct ?? 0,
     });
   }
-
-  if (!privyWalletId) throw new Error("missing-privy-wallet-id");
-  log("info", "signing transaction", { walletId: privyWalletId });
-  const signedBase64 = await signTransactionWithPrivyById(
-    env,
-    privyWalletId,
-    swap.swapTransaction,
-  );
+  if (!signer) throw new Error("missing-signer");
+  log("info", "signing transaction", { signer: signer.type });
+  const signedBase64 = await signer.signTransaction(swap.swapTransaction);
   log("info", "transaction signed");
 
   if (policy.simulateOnly) {
@@ -529,438 +573,458 @@ async function runDca(input: {
       commitment: policy.commitment,
       sigVerify: true,
     });
-
     const ok = !sim.err;
-    log(ok ? "info" : "warn", "tx simulated", {
+    log(ok ? "info" : "warn", `${label} simulated`, {
+      ...logMeta,
       ok,
       err: sim.err ?? null,
       unitsConsumed: sim.unitsConsumed ?? null,
     });
-
     await insertTradeIndex(env, {
       tenantId,
       runId,
       venue: "jupiter",
       market: `${usedQuote.inputMint}->${usedQuote.outputMint}`,
-      side: "swap",
+      side,
       size: usedQuote.inAmount,
       price: usedQuote.outAmount,
       status: ok ? "simulated" : "simulate_error",
       logKey,
       signature: null,
+      ...tags,
     });
-
-    await updateLoopState(env, tenantId, (current) => ({
-      ...current,
-      dca: { ...(current.dca ?? {}), lastAt: new Date().toISOString() },
-    }));
-    return;
+    await commitPaperFill?.();
+    return {
+      status: ok ? "simulated" : "simulate_error",
+      inAmount: usedQuote.inAmount,
+      outAmount: usedQuote.outAmount,
+    };
   }
 
   await assertLoopStillEnabled(env, log, configTenantId);
+  await commit?.();
 
-  // Write lastAt BEFORE sending to guarantee at-most-once execution.
-  // If the send fails, we skip one DCA interval (safe) rather than
-  // risk double-executing on crash (unsafe with real funds).
-  await updateLoopState(env, tenantId, (current) => ({
-    ...current,
-    dca: { ...(current.dca ?? {}), lastAt: new Date().toISOString() },
-  }));
-
-  const signature = await rpc.sendTransactionBase64(signedBase64, {
-    skipPreflight: policy.skipPreflight,
-    preflightCommitment: policy.commitment,
-  });
-
-  log("info", "tx submitted", {
-    signature,
-    lastValidBlockHeight: swap.lastValidBlockHeight,
-  });
-
-  const confirmation = await rpc.confirmSignature(signature, {
-    commitment: policy.commitment,
+  const submitted = await submitSwap({
+    rpc,
+    jupiter,
+    signer,
+    wallet,
+    policy,
+    quote: usedQuote,
+    swap,
+    signedBase64,
+    fee,
+    log,
   });
-  const status = confirmation.ok
-    ? (confirmation.status ?? "confirmed")
-    : "error";
-  log(confirmation.ok ? "info" : "warn", "tx confirmation", {
+  const { signature, status } = submitted;
+  log(submitted.ok ? "info" : "warn", `${label} confirmation`, {
+    ...logMeta,
     signature,
     status,
-    err: confirmation.err ?? null,
+    err: submitted.err ?? null,
   });
-
-  await insertTradeIndex(env, {
+  const counters = await insertTradeIndex(env, {
     tenantId,
     runId,
     venue: "jupiter",
     market: `${usedQuote.inputMint}->${usedQuote.outputMint}`,
-    side: "swap",
+    side,
     size: usedQuote.inAmount,
     price: usedQuote.outAmount,
     status,
     logKey,
     signature,
+    lastValidBlockHeight: submitted.lastValidBlockHeight,
+    priorityFeeLamports: submitted.priorityFeeLamports,
+    submitAttempts: submitted.attempts,
+    replacedSignatures: submitted.replacedSignatures,
+    ...tags,
   });
-}
-
-async function runRebalance(input: {
-  env: Env;
-  ctx: ExecutionContext;
-  tenantId: string;
-  configTenantId?: string;
-  runId: string;
-  logKey: string;
-  log: (
-    level: "debug" | "info" | "warn" | "error",
-    message: string,
-    meta?: Record<string, unknown>,
-  ) => void;
-  rpc: SolanaRpc;
-  jupiter: JupiterClient;
-  wallet: string;
-  policy: ReturnType<typeof normalizePolicy>;
-  strategy: RebalanceStrategy;
-  privyWalletId?: string;
-}) {
-  const {
+  // Later legs of the tick see this swap's daily spend and trade count;
+  // the cooldown stays measured from the last trade before the tick.
+  if (counters && policy.counters) {
+    policy.counters = countersWithinTick(policy.counters, counters);
+  }
+  await recordLiveSwap({
     env,
-    tenantId,
-    configTenantId,
-    runId,
-    logKey,
-    log,
     rpc,
     jupiter,
+    log,
+    tenantId,
+    runId,
     wallet,
-    policy,
-    strategy,
-    privyWalletId,
-  } = input;
-
-  if (strategy.baseMint !== SOL_MINT) {
-    throw new Error("rebalance-only-sol-base-supported");
-  }
-
-  const targetBps = Math.max(
-    0,
-    Math.min(10_000, Math.round(strategy.targetBasePct * 10_000)),
-  );
-  const thresholdBps = Math.max(
-    0,
-    Math.min(10_000, Math.round((strategy.thresholdPct ?? 0.01) * 10_000)),
-  );
-
-  const solBalanceLamports = await rpc.getBalanceLamports(wallet);
-  const quoteBalanceAtomic = await rpc.getTokenBalanceAtomic(
-    wallet,
-    strategy.quoteMint,
-  );
-
-  // Price oracle via Jupiter: 1 SOL -> quoteMint.
-  const oneSolLamports = (10n ** SOL_DECIMALS).toString();
-  const priceQuote = await jupiter.quote({
-    inputMint: SOL_MINT,
-    outputMint: strategy.quoteMint,
-    amount: oneSolLamports,
-    slippageBps: Math.max(1, policy.slippageBps),
-    swapMode: "ExactIn",
+    signature,
+    status,
+    quote: usedQuote,
+    slippageBps: policy.slippageBps,
   });
-  enforcePolicy(policy, priceQuote);
-
-  const quotePerSolAtomic = BigInt(priceQuote.outAmount || "0");
-  if (quotePerSolAtomic <= 0n) {
-    log("warn", "rebalance: no price route");
-    return;
-  }
-
-  const solValueQuoteAtomic =
-    (solBalanceLamports * quotePerSolAtomic) / 10n ** SOL_DECIMALS;
-  const totalQuoteAtomic = solValueQuoteAtomic + quoteBalanceAtomic;
-  if (totalQuoteAtomic <= 0n) {
-    log("info", "rebalance: empty portfolio");
-    return;
-  }
+  return {
+    status,
+    signature,
+    inAmount: usedQuote.inAmount,
+    outAmount: usedQuote.outAmount,
+  };
+}
 
-  const currentBaseBps = Number(
-    (solValueQuoteAtomic * 10_000n) / totalQuoteAtomic,
-  );
-  const deltaBps = currentBaseBps - targetBps;
+function parentOrderMeta(order: ParentOrder): Record<string, unknown> {
+  return {
+    parentId: order.id,
+    side: order.side,
+    status: order.status,
+    slicesDone: order.slicesDone,
+    slices: order.slices,
+    filledAmount: order.filledAmount,
+    totalAmount: order.totalAmount,
+    reason: order.reason,
+  };
+}
 
-  log("info", "rebalance snapshot", {
-    quotePerSolAtomic: quotePerSolAtomic.toString(),
-    solBalanceLamports: solBalanceLamports.toString(),
-    quoteBalanceAtomic: quoteBalanceAtomic.toString(),
-    solValueQuoteAtomic: solValueQuoteAtomic.toString(),
-    totalQuoteAtomic: totalQuoteAtomic.toString(),
-    currentBasePct: currentBaseBps / 100,
-    targetBasePct: targetBps / 100,
-    thresholdPct: thresholdBps / 100,
+async function saveParentOrder(
+  env: Env,
+  tenantId: string,
+  order: ParentOrder,
+): Promise<void> {
+  await updateLoopState(env, tenantId, (current) => {
+    const stored = current.parentOrder;
+    // A cancel from the API while a child was in flight wins; the child's
+    // progress is still recorded.
+    if (
+      stored?.id === order.id &&
+      stored.status !== "active" &&
+      order.status === "active"
+    ) {
+      return {
+        ...current,
+        parentOrder: {
+          ...order,
+          status: stored.status,
+          reason: stored.reason,
+          finishedAt: stored.finishedAt,
+        },
+      };
+    }
+    return { ...current, parentOrder: order };
   });
+}
 
-  if (Math.abs(deltaBps) <= thresholdBps) {
-    log("info", "rebalance within threshold, no trade");
-    return;
+// Works the bot's active TWAP parent order instead of the strategy. Returns
+// false when there is none for this strategy; a parent left over from a
+// different strategy is cancelled.
+async function resumeParentOrder(
+  input: SwapContext,
+  strategyType: ParentOrder["strategy"],
+): Promise<boolean> {
+  const { env, tenantId, log } = input;
+  const order = (await getLoopState(env, tenantId)).parentOrder;
+  if (!isParentOrderActive(order)) return false;
+  if (order.strategy !== strategyType) {
+    const cancelled = finishParentOrder(
+      order,
+      "cancelled",
+      "strategy-changed",
+      new Date(),
+    );
+    await saveParentOrder(env, tenantId, cancelled);
+    log("warn", "twap: parent order cancelled", parentOrderMeta(cancelled));
+    return false;
   }
+  await runParentOrderChild({ ...input, order });
+  return true;
+}
 
-  const desiredSolValueQuoteAtomic =
-    (totalQuoteAtomic * BigInt(targetBps)) / 10_000n;
-
-  if (solValueQuoteAtomic > desiredSolValueQuoteAtomic) {
-    // Sell SOL -> quoteMint.
-    const excessQuoteAtomic = solValueQuoteAtomic - desiredSolValueQuoteAtomic;
-    let sellLamports =
-      (excessQuoteAtomic * 10n ** SOL_DECIMALS) / quotePerSolAtomic;
-    const maxSell = strategy.maxSellBaseAmount
-      ? BigInt(strategy.maxSellBaseAmount)
-      : sellLamports;
-    if (sellLamports > maxSell) sellLamports = maxSell;
-
-    const reserveLamports = BigInt(policy.minSolReserveLamports);
-    if (sellLamports + reserveLamports > solBalanceLamports) {
-      sellLamports =
-        solBalanceLamports > reserveLamports
-          ? solBalanceLamports - reserveLamports
-          : 0n;
-    }
-
-    if (sellLamports <= 0n) {
-      log("warn", "rebalance: computed sell amount is 0");
-      return;
-    }
-
-    const quote = await jupiter.quote({
-      inputMint: SOL_MINT,
-      outputMint: strategy.quoteMint,
-      amount: sellLamports.toString(),
+async function startParentOrder(
+  input: SwapContext & {
+    strategyType: ParentOrder["strategy"];
+    side: string;
+    inputMint: string;
+    outputMint: string;
+    totalAmount: bigint;
+    execution: ExecutionConfig;
+    strategyCap?: string;
+  },
+): Promise<void> {
+  const { env, tenantId, log, jupiter, policy, execution } = input;
+  const maxSliceAmount = sliceAmountCap(policy, input.strategyCap);
+  const maxSlicePriceImpactPct = slicePriceImpactLimit(execution, policy);
+
+  // Only an automatic slice count needs the full-size quote.
+  let fullPriceImpactPct = 0;
+  if (execution.slices === undefined) {
+    const full = await jupiter.quote({
+      inputMint: input.inputMint,
+      outputMint: input.outputMint,
+      amount: input.totalAmount.toString(),
       slippageBps: policy.slippageBps,
       swapMode: "ExactIn",
     });
-    enforcePolicy(policy, quote);
-
-    log("info", "rebalance sell quote", {
-      inAmount: quote.inAmount,
-      outAmount: quote.outAmount,
-      priceImpactPct: quote.priceImpactPct ?? 0,
-    });
-
-    if (policy.dryRun) {
-      await insertTradeIndex(env, {
-        tenantId,
-        runId,
-        venue: "jupiter",
-        market: `${quote.inputMint}->${quote.outputMint}`,
-        side: "rebalance_sell",
-        size: quote.inAmount,
-        price: quote.outAmount,
-        status: "dry_run",
-        logKey,
-        signature: null,
-      });
-      log("info", "dry run complete");
-      return;
-    }
+    fullPriceImpactPct = Number(full.priceImpactPct ?? 0);
+  }
 
-    await assertLoopStillEnabled(env, log, configTenantId);
-
-    const {
-      swap,
-      quoteResponse: usedQuote,
-      refreshed,
-    } = await swapWithRetry(jupiter, quote, wallet, policy);
-    if (refreshed) log("warn", "rebalance: quote refreshed due to swap 422");
-    if (!privyWalletId) throw new Error("missing-privy-wallet-id");
-    log("info", "signing transaction", { walletId: privyWalletId });
-    const signedBase64 = await signTransactionWithPrivyById(
-      env,
-      privyWalletId,
-      swap.swapTransaction,
-    );
-    log("info", "transaction signed");
+  const order = createParentOrder({
+    strategy: input.strategyType,
+    side: input.side,
+    inputMint: input.inputMint,
+    outputMint: input.outputMint,
+    totalAmount: input.totalAmount,
+    slices: planTwapSlices({
+      totalAmount: input.totalAmount,
+      fullPriceImpactPct,
+      maxSlicePriceImpactPct,
+      maxSliceAmount,
+      slices: execution.slices,
+    }),
+    execution,
+    policy,
+    maxSliceAmount,
+    now: new Date(),
+  });
+  await saveParentOrder(env, tenantId, order);
+  log("info", "twap: parent order created", {
+    ...parentOrderMeta(order),
+    fullPriceImpactPct,
+    intervalSeconds: order.intervalSeconds,
+    expiresAt: order.expiresAt,
+  });
+  await runParentOrderChild({ ...input, order });
+}
 
-    if (policy.simulateOnly) {
-      const sim = await rpc.simulateTransactionBase64(signedBase64, {
-        commitment: policy.commitment,
-        sigVerify: true,
-      });
-      const ok = !sim.err;
-      log(ok ? "info" : "warn", "rebalance sell simulated", {
-        ok,
-        err: sim.err ?? null,
-        unitsConsumed: sim.unitsConsumed ?? null,
-      });
-      await insertTradeIndex(env, {
-        tenantId,
-        runId,
-        venue: "jupiter",
-        market: `${usedQuote.inputMint}->${usedQuote.outputMint}`,
-        side: "rebalance_sell",
-        size: usedQuote.inAmount,
-        price: usedQuote.outAmount,
-        status: ok ? "simulated" : "simulate_error",
-        logKey,
-        signature: null,
+// Executes at most one child per tick. nextAt is pushed out before the swap
+// is sent so a crash mid-send can never double-execute a child.
+async function runParentOrderChild(
+  input: SwapContext & { order: ParentOrder },
+): Promise<void> {
+  const { env, tenantId, log, rpc, jupiter, wallet, policy } = input;
+  let { order } = input;
+  const now = new Date();
+
+  if (isParentExpired(order, now)) {
+    const expired = finishParentOrder(order, "expired", "max-duration", now);
+    await saveParentOrder(env, tenantId, expired);
+    log("warn", "twap: parent order expired", parentOrderMeta(expired));
+    return;
+  }
+  if (order.pendingChild) {
+    const { sliceIndex } = order.pendingChild;
+    const trade = await getChildTrade(env, tenantId, order.id, sliceIndex);
+    const settled = trade?.status
+      ? settlePendingChild(order, { ...trade, status: trade.status }, now)
+      : order;
+    if (settled === order) {
+      log("info", "twap: waiting for child confirmation", {
+        parentId: order.id,
+        sliceIndex,
+        signature: order.pendingChild.signature,
       });
       return;
     }
-
-    await assertLoopStillEnabled(env, log, configTenantId);
-
-    const signature = await rpc.sendTransactionBase64(signedBase64, {
-      skipPreflight: policy.skipPreflight,
-      preflightCommitment: policy.commitment,
-    });
-    const confirmation = await rpc.confirmSignature(signature, {
-      commitment: policy.commitment,
-    });
-    const status = confirmation.ok
-      ? (confirmation.status ?? "confirmed")
-      : "error";
-    log(confirmation.ok ? "info" : "warn", "rebalance sell confirmation", {
-      signature,
-      status,
-      err: confirmation.err ?? null,
-    });
-    await insertTradeIndex(env, {
-      tenantId,
-      runId,
-      venue: "jupiter",
-      market: `${usedQuote.inputMint}->${usedQuote.outputMint}`,
-      side: "rebalance_sell",
-      size: usedQuote.inAmount,
-      price: usedQuote.outAmount,
-      status,
-      logKey,
-      signature,
+    await saveParentOrder(env, tenantId, settled);
+    log("info", "twap: child settled", {
+      ...parentOrderMeta(settled),
+      sliceIndex,
+      childStatus: trade?.status ?? null,
     });
-    return; // rebalance sell complete
+    if (!isParentOrderActive(settled)) return;
+    order = settled;
   }
-
-  // Buy SOL using quoteMint.
-  const deficitQuoteAtomic = desiredSolValueQuoteAtomic - solValueQuoteAtomic;
-  let spendQuoteAtomic = deficitQuoteAtomic;
-  const maxBuy = strategy.maxBuyQuoteAmount
-    ? BigInt(strategy.maxBuyQuoteAmount)
-    : spendQuoteAtomic;
-  if (spendQuoteAtomic > maxBuy) spendQuoteAtomic = maxBuy;
-  if (spendQuoteAtomic > quoteBalanceAtomic)
-    spendQuoteAtomic = quoteBalanceAtomic;
-
-  const reserveLamports = BigInt(policy.minSolReserveLamports);
-  if (solBalanceLamports < reserveLamports) {
-    log("warn", "rebalance: insufficient SOL for fees (reserve)", {
-      solBalanceLamports: solBalanceLamports.toString(),
-      reserveLamports: reserveLamports.toString(),
+  if (!isChildDue(order, now)) {
+    log("info", "twap: next child not due yet", {
+      parentId: order.id,
+      nextAt: order.nextAt,
     });
     return;
   }
 
-  if (spendQuoteAtomic <= 0n) {
-    log("warn", "rebalance: computed buy amount is 0");
+  let amount = nextChildAmount(order);
+  if (!policy.dryRun) {
+    let available = await getMintBalanceAtomic(rpc, wallet, order.inputMint);
+    if (order.inputMint === SOL_MINT) {
+      const reserve = BigInt(policy.minSolReserveLamports);
+      available = available > reserve ? available - reserve : 0n;
+    }
+    if (amount > available) amount = available;
+  }
+  if (amount <= 0n) {
+    const done = finishParentOrder(
+      order,
+      "cancelled",
+      "insufficient-balance",
+      now,
+    );
+    await saveParentOrder(env, tenantId, done);
+    log("warn", "twap: parent order cancelled", parentOrderMeta(done));
     return;
   }
 
   const quote = await jupiter.quote({
-    inputMint: strategy.quoteMint,
-    outputMint: SOL_MINT,
-    amount: spendQuoteAtomic.toString(),
+    inputMint: order.inputMint,
+    outputMint: order.outputMint,
+    amount: amount.toString(),
     slippageBps: policy.slippageBps,
     swapMode: "ExactIn",
   });
-  enforcePolicy(policy, quote);
-  log("info", "rebalance buy quote", {
+  const decision = evaluateChildQuote(order, {
     inAmount: quote.inAmount,
     outAmount: quote.outAmount,
-    priceImpactPct: quote.priceImpactPct ?? 0,
+    priceImpactPct: Number(quote.priceImpactPct ?? 0),
   });
-
-  if (policy.dryRun) {
-    await insertTradeIndex(env, {
-      tenantId,
-      runId,
-      venue: "jupiter",
-      market: `${quote.inputMint}->${quote.outputMint}`,
-      side: "rebalance_buy",
-      size: quote.inAmount,
-      price: quote.outAmount,
-      status: "dry_run",
-      logKey,
-      signature: null,
+  if (decision.action === "wait") {
+    await saveParentOrder(env, tenantId, deferChild(order, now));
+    log("warn", "twap: child deferred (price impact over slice limit)", {
+      parentId: order.id,
+      priceImpactPct: quote.priceImpactPct ?? 0,
+      maxSlicePriceImpactPct: order.maxSlicePriceImpactPct,
     });
-    log("info", "dry run complete");
     return;
   }
-
-  await assertLoopStillEnabled(env, log, configTenantId);
-
-  const {
-    swap,
-    quoteResponse: usedQuote,
-    refreshed,
-  } = await swapWithRetry(jupiter, quote, wallet, policy);
-  if (refreshed) log("warn", "rebalance: quote refreshed due to swap 422");
-  if (!privyWalletId) throw new Error("missing-privy-wallet-id");
-  log("info", "signing transaction", { walletId: privyWalletId });
-  const signedBase64 = await signTransactionWithPrivyById(
-    env,
-    privyWalletId,
-    swap.swapTransaction,
-  );
-  log("info", "transaction signed");
-
-  if (policy.simulateOnly) {
-    const sim = await rpc.simulateTransactionBase64(signedBase64, {
-      commitment: policy.commitment,
-      sigVerify: true,
-    });
-    const ok = !sim.err;
-    log(ok ? "info" : "warn", "rebalance buy simulated", {
-      ok,
-      err: sim.err ?? null,
-      unitsConsumed: sim.unitsConsumed ?? null,
-    });
-    await insertTradeIndex(env, {
-      tenantId,
-      runId,
-      venue: "jupiter",
-      market: `${usedQuote.inputMint}->${usedQuote.outputMint}`,
-      side: "rebalance_buy",
-      size: usedQuote.inAmount,
-      price: usedQuote.outAmount,
-      status: ok ? "simulated" : "simulate_error",
-      logKey,
-      signature: null,
+  if (decision.action === "cancel") {
+    const cancelled = finishParentOrder(
+      order,
+      "cancelled",
+      "adverse-move",
+      now,
+    );
+    await saveParentOrder(env, tenantId, cancelled);
+    log("warn", "twap: parent order cancelled", {
+      ...parentOrderMeta(cancelled),
+      movePct: decision.movePct,
     });
     return;
   }
 
-  await assertLoopStillEnabled(env, log, configTenantId);
+  // The cooldown spaces out orders, not the slices of one: children after
+  // the first are not held back by their siblings.
+  const childPolicy =
+    order.slicesDone > 0 && policy.counters
+      ? { ...policy, counters: { ...policy.counters, lastTradeAt: null } }
+      : policy;
+  try {
+    await enforcePolicy(childPolicy, quote);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await saveParentOrder(
+      env,
+      tenantId,
+      finishParentOrder(order, "failed", message, now),
+    );
+    throw err;
+  }
 
-  const signature = await rpc.sendTransactionBase64(signedBase64, {
-    skipPreflight: policy.skipPreflight,
-    preflightCommitment: policy.commitment,
+  await saveParentOrder(env, tenantId, deferChild(order, now));
+  const sliceIndex = order.slicesDone + 1;
+  const fill = await executeSwapLeg({
+    ...input,
+    policy: childPolicy,
+    side: order.side,
+    inputMint: order.inputMint,
+    outputMint: order.outputMint,
+    amount: amount.toString(),
+    quote,
+    parent: { id: order.id, sliceIndex },
   });
-  const confirmation = await rpc.confirmSignature(signature, {
-    commitment: policy.commitment,
+  if (!fill) return;
+
+  const next = applyChildFill(order, { ...fill, sliceIndex }, new Date());
+  await saveParentOrder(env, tenantId, next);
+  log("info", next.pendingChild ? "twap: child sent" : "twap: child filled", {
+    ...parentOrderMeta(next),
+    sliceIndex,
+    childStatus: fill.status,
+    signature: fill.signature ?? null,
   });
-  const status = confirmation.ok
-    ? (confirmation.status ?? "confirmed")
-    : "error";
-  log(confirmation.ok ? "info" : "warn", "rebalance buy confirmation", {
-    signature,
-    status,
-    err: confirmation.err ?? null,
+}
+
+export async function runPortfolio(
+  input: StrategyTickContext<PortfolioStrategy>,
+) {
+  const { log, rpc, jupiter, wallet, policy, strategy } = input;
+
+  const snapshot = await gatherPortfolioSnapshot(rpc, jupiter, wallet, policy, {
+    mints: Object.keys(strategy.targets),
+    quoteMint: strategy.quoteMint,
+    quoteDecimals: strategy.quoteDecimals,
   });
-  await insertTradeIndex(env, {
-    tenantId,
-    runId,
-    venue: "jupiter",
-    market: `${usedQuote.inputMint}->${usedQuote.outputMint}`,
-    side: "rebalance_buy",
-    size: usedQuote.inAmount,
-    price: usedQuote.outAmount,
-    status,
-    logKey,
-    signature,
+  const plan = planPortfolio({
+    strategy,
+    holdings: snapshot.holdings.map((h) => ({
+      mint: h.mint,
+      balanceAtomic: BigInt(h.balanceAtomic),
+      valueQuoteAtomic: BigInt(h.valueQuoteAtomic),
+    })),
+    reserveLamports: BigInt(policy.minSolReserveLamports),
+    maxTradeAmountAtomic: BigInt(policy.maxTradeAmountAtomic),
+  });
+
+  if (plan.totalQuoteAtomic <= 0n) {
+    log("info", "portfolio: empty portfolio");
+    return;
+  }
+
+  log("info", "portfolio snapshot", {
+    totalValueQuote: snapshot.totalValueQuote,
+    driftPct: plan.driftBps / 100,
+    assets: plan.assets.map((a) => ({
+      mint: a.mint,
+      currentPct: a.currentBps / 100,
+      targetPct: a.targetBps / 100,
+    })),
+  });
+
+  if (plan.sells.length === 0 && plan.buys.length === 0) {
+    log("info", "portfolio within drift band, no trade");
+    return;
+  }
+
+  for (const sell of plan.sells) {
+    await executeSwapLeg({
+      ...input,
+      side: "portfolio_sell",
+      inputMint: sell.mint,
+      outputMint: strategy.quoteMint,
+      amount: sell.amountAtomic.toString(),
+    });
+  }
+
+  let buys = plan.buys;
+  if (buys.length > 0 && !policy.dryRun && !policy.simulateOnly) {
+    // Sells have settled by now; size buys off what actually landed.
+    let available = await getMintBalanceAtomic(rpc, wallet, strategy.quoteMint);
+    if (strategy.quoteMint === SOL_MINT) {
+      const reserve = BigInt(policy.minSolReserveLamports);
+      available = available > reserve ? available - reserve : 0n;
+    }
+    buys = scalePortfolioBuys(buys, available);
+  }
+
+  for (const buy of buys) {
+    await executeSwapLeg({
+      ...input,
+      side: "portfolio_buy",
+      inputMint: strategy.quoteMint,
+      outputMint: buy.mint,
+      amount: buy.spendQuoteAtomic.toString(),
+    });
+  }
+}
+
+// Ledger bookkeeping and notifications must never fail a tick whose swap
+// already landed.
+async function recordLiveSwap(
+  input: Parameters<typeof recordConfirmedSwap>[0] & { log: LoopLogFn },
+): Promise<void> {
+  const { log, ...rest } = input;
+  try {
+    await recordConfirmedSwap(rest);
+  } catch (err) {
+    log("warn", "failed to record ledger swap", {
+      signature: input.signature,
+      err: err instanceof Error ? err.message : String(err),
+    });
+  }
+  await notifySwapResult(input.env, input.tenantId, {
+    runId: input.runId,
+    signature: input.signature,
+    status: input.status,
+    quote: input.quote,
   });
 }
 
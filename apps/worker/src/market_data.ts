@@ -0,0 +1,285 @@
+import {
+  CANDLE_INTERVAL_SECONDS,
+  CANDLE_INTERVALS,
+  type Candle,
+  type CandleInterval,
+  candleStart,
+  computeIndicators,
+  formatSampleLine,
+  type IndicatorSnapshot,
+  MAX_CANDLES,
+  type MarketPair,
+  marketPairKey,
+  type PriceSample,
+  parseMarketPair,
+  sampleDay,
+  sampleObjectKey,
+} from "../../../src/market/index";
+import { JupiterClient, type JupiterQuoteResponse } from "./jupiter";
+import { appendLog } from "./logs";
+import { SolanaRpc } from "./solana_rpc";
+import type { Env, MarketSnapshot } from "./types";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const USDT_MINT = "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB";
+
+const KNOWN_DECIMALS: Record<string, number> = {
+  [SOL_MINT]: 9,
+  [USDC_MINT]: 6,
+  [USDT_MINT]: 6,
+};
+const STABLE_MINTS = new Set([USDC_MINT, USDT_MINT]);
+
+// Mint decimals never change; cache lookups for the isolate's lifetime.
+const decimalsCache = new Map<string, number>();
+
+type LogFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  meta?: Record<string, unknown>,
+) => void;
+
+export function marketSampleKey(pair: MarketPair, t: number): string {
+  return `markets/${sampleObjectKey(pair, sampleDay(t))}`;
+}
+
+export async function resolveMintDecimals(
+  rpc: SolanaRpc,
+  mint: string,
+): Promise<number> {
+  const known = KNOWN_DECIMALS[mint] ?? decimalsCache.get(mint);
+  if (known !== undefined) return known;
+  const decimals = await rpc.getMintDecimals(mint);
+  decimalsCache.set(mint, decimals);
+  return decimals;
+}
+
+// Candles are quoted in a stablecoin when one side is, else in SOL, else in
+// the swap's output mint; a swap in either direction maps to one market.
+export function orientMarketPair(
+  inputMint: string,
+  outputMint: string,
+): MarketPair {
+  const quoteMint =
+    STABLE_MINTS.has(outputMint) || STABLE_MINTS.has(inputMint)
+      ? STABLE_MINTS.has(outputMint)
+        ? outputMint
+        : inputMint
+      : outputMint === SOL_MINT || inputMint === SOL_MINT
+        ? SOL_MINT
+        : outputMint;
+  return {
+    baseMint: quoteMint === outputMint ? inputMint : outputMint,
+    quoteMint,
+  };
+}
+
+// Quote units per base unit implied by a quote; null without a route.
+export function priceFromQuote(
+  quote: Pick<
+    JupiterQuoteResponse,
+    "inputMint" | "outputMint" | "inAmount" | "outAmount"
+  >,
+  pair: MarketPair,
+  decimals: { base: number; quote: number },
+): number | null {
+  const inAmount = Number(quote.inAmount);
+  const outAmount = Number(quote.outAmount);
+  if (!(inAmount > 0) || !(outAmount > 0)) return null;
+  const sellsBase = quote.inputMint === pair.baseMint;
+  const base = (sellsBase ? inAmount : outAmount) / 10 ** decimals.base;
+  const quoteUnits = (sellsBase ? outAmount : inAmount) / 10 ** decimals.quote;
+  return quoteUnits / base;
+}
+
+// Folds a sample into every candle interval in D1 and appends it to the
+// pair's daily JSONL object in R2. Samples are assumed to arrive in time
+// order: the latest write sets the close.
+export async function recordPriceSample(
+  env: Env,
+  pair: MarketPair,
+  sample: PriceSample,
+): Promise<void> {
+  const key = marketPairKey(pair);
+  const volume = sample.volume ?? 0;
+  await env.WAITLIST_DB.batch(
+    CANDLE_INTERVALS.map((interval) =>
+      env.WAITLIST_DB.prepare(
+        "INSERT INTO market_candles (pair, interval, t, o, h, l, c, v) VALUES (?1, ?2, ?3, ?4, ?4, ?4, ?4, ?5) ON CONFLICT(pair, interval, t) DO UPDATE SET h = max(h, excluded.h), l = min(l, excluded.l), c = excluded.c, v = v + excluded.v, samples = samples + 1, updated_at = datetime('now')",
+      ).bind(
+        key,
+        interval,
+        candleStart(sample.t, interval),
+        sample.price,
+        volume,
+      ),
+    ),
+  );
+  await appendLog(
+    env,
+    marketSampleKey(pair, sample.t),
+    formatSampleLine({ ...sample, volume }),
+  );
+}
+
+// Records the price a tick already quoted. Sampling is best-effort and never
+// fails the tick.
+export async function recordQuotePrice(input: {
+  env: Env;
+  rpc: SolanaRpc;
+  log: LogFn;
+  quote: JupiterQuoteResponse;
+  decimals?: Record<string, number>;
+}): Promise<void> {
+  const { env, rpc, log, quote } = input;
+  try {
+    const pair = orientMarketPair(quote.inputMint, quote.outputMint);
+    const decimalsOf = async (mint: string) =>
+      input.decimals?.[mint] ?? (await resolveMintDecimals(rpc, mint));
+    const price = priceFromQuote(quote, pair, {
+      base: await decimalsOf(pair.baseMint),
+      quote: await decimalsOf(pair.quoteMint),
+    });
+    if (price === null) return;
+    await recordPriceSample(env, pair, {
+      t: Math.floor(Date.now() / 1000),
+      price,
+    });
+  } catch (err) {
+    log("warn", "market sample failed", {
+      err: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+// Agent ticks quote SOL inside gatherMarketSnapshot; its price is rounded
+// for the prompt, which is precise enough for SOL/stable candles.
+export async function recordSnapshotPrice(input: {
+  env: Env;
+  log: LogFn;
+  snapshot: MarketSnapshot;
+}): Promise<void> {
+  const { env, log, snapshot } = input;
+  const price = Number(snapshot.basePriceQuote);
+  if (!(price > 0)) return;
+  try {
+    await recordPriceSample(
+      env,
+      { baseMint: snapshot.baseMint, quoteMint: snapshot.quoteMint },
+      { t: Math.floor(Date.now() / 1000), price },
+    );
+  } catch (err) {
+    log("warn", "market sample failed", {
+      err: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+// Newest `limit` candles at or before `to` (unix seconds), oldest first.
+export async function listCandles(
+  env: Env,
+  pair: MarketPair,
+  interval: CandleInterval,
+  limit = 200,
+  to = Math.floor(Date.now() / 1000),
+): Promise<Candle[]> {
+  const safeLimit = Math.max(1, Math.min(Math.floor(limit), MAX_CANDLES));
+  const result = await env.WAITLIST_DB.prepare(
+    "SELECT t, o, h, l, c, v FROM market_candles WHERE pair = ?1 AND interval = ?2 AND t <= ?3 ORDER BY t DESC LIMIT ?4",
+  )
+    .bind(marketPairKey(pair), interval, to, safeLimit)
+    .all<{
+      t: number;
+      o: number;
+      h: number;
+      l: number;
+      c: number;
+      v: number;
+    }>();
+  return (result.results ?? []).reverse().map((row) => ({
+    t: Number(row.t),
+    o: String(row.o),
+    h: String(row.h),
+    l: String(row.l),
+    c: String(row.c),
+    v: String(row.v),
+  }));
+}
+
+export async function getMarketIndicators(
+  env: Env,
+  pair: MarketPair,
+  interval: CandleInterval,
+  limit = 200,
+): Promise<IndicatorSnapshot> {
+  const candles = await listCandles(env, pair, interval, limit);
+  return computeIndicators(candles, {
+    intervalSeconds: CANDLE_INTERVAL_SECONDS[interval],
+  });
+}
+
+// MARKET_SAMPLE_PAIRS: comma-separated pairs ("SOL-USDC" or
+// "<baseMint>-<quoteMint>") sampled on every cron tick, with or without
+// bots trading them.
+export function parseSamplePairs(value: string | undefined): MarketPair[] {
+  const pairs: MarketPair[] = [];
+  for (const item of (value ?? "").split(",")) {
+    if (!item.trim()) continue;
+    try {
+      pairs.push(parseMarketPair(item));
+    } catch {
+      console.log(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "warn",
+          message: "ignoring invalid MARKET_SAMPLE_PAIRS entry",
+          pair: item.trim(),
+        }),
+      );
+    }
+  }
+  return pairs;
+}
+
+export async function sampleMarkets(env: Env): Promise<void> {
+  const pairs = parseSamplePairs(env.MARKET_SAMPLE_PAIRS);
+  if (pairs.length === 0) return;
+  const rpc = SolanaRpc.fromEnv(env);
+  const jupiter = new JupiterClient(
+    env.JUPITER_BASE_URL ?? "https://lite-api.jup.ag",
+    env.JUPITER_API_KEY,
+  );
+  // Sequential on purpose: the lite Jupiter host rate-limits bursts.
+  for (const pair of pairs) {
+    try {
+      const baseDecimals = await resolveMintDecimals(rpc, pair.baseMint);
+      const quote = await jupiter.quote({
+        inputMint: pair.baseMint,
+        outputMint: pair.quoteMint,
+        amount: (10n ** BigInt(baseDecimals)).toString(),
+        slippageBps: 50,
+        swapMode: "ExactIn",
+      });
+      const price = priceFromQuote(quote, pair, {
+        base: baseDecimals,
+        quote: await resolveMintDecimals(rpc, pair.quoteMint),
+      });
+      if (price === null) continue;
+      await recordPriceSample(env, pair, {
+        t: Math.floor(Date.now() / 1000),
+        price,
+      });
+    } catch (err) {
+      console.log(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "warn",
+          message: "market sample failed",
+          pair: marketPairKey(pair),
+          err: err instanceof Error ? err.message : String(err),
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import {
+  dispatchNotification,
+  isNotificationEventType,
+  isNotificationSinkType,
+  NOTIFICATION_EVENT_TYPES,
+  type NotificationDelivery,
+  type NotificationEvent,
+  type NotificationEventType,
+  type NotificationSink,
+} from "../../../src/notify/index";
+import type { JupiterQuoteResponse } from "./jupiter";
+import { PENDING_TRADE_STATUSES } from "./trade_index";
+import type { Env } from "./types";
+
+export type NotificationSubscription = {
+  id: string;
+  sink: NotificationSink;
+  events: NotificationEventType[];
+  enabled: boolean;
+};
+
+export type BotNotification = Omit<NotificationEvent, "ts" | "botId">;
+
+// Secrets are never returned by the API; sending this value back on update
+// keeps the stored secret.
+export const REDACTED_SECRET = "********";
+
+const MAX_SUBSCRIPTIONS = 10;
+
+// Sink fields that carry credentials (a Discord webhook URL embeds its token).
+const SECRET_FIELDS: Record<NotificationSink["type"], string[]> = {
+  webhook: ["secret"],
+  telegram: ["botToken"],
+  discord: ["webhookUrl"],
+  email: ["token"],
+};
+
+function mapSubscriptionRow(
+  row: Record<string, unknown>,
+): NotificationSubscription | null {
+  try {
+    const sink = JSON.parse(String(row.config_json)) as NotificationSink;
+    const events = (JSON.parse(String(row.events_json)) as unknown[]).filter(
+      isNotificationEventType,
+    );
+    if (!isNotificationSinkType(sink?.type)) return null;
+    return {
+      id: String(row.id),
+      sink,
+      events,
+      enabled: Number(row.enabled) === 1,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function listNotificationSubscriptions(
+  env: Env,
+  tenantId: string,
+): Promise<NotificationSubscription[]> {
+  const result = await env.WAITLIST_DB.prepare(
+    "SELECT id, sink_type, config_json, events_json, enabled FROM notification_subscriptions WHERE tenant_id = ?1 ORDER BY created_at ASC, id ASC",
+  )
+    .bind(tenantId)
+    .all();
+  return (result.results ?? [])
+    .map((row) => mapSubscriptionRow(row as Record<string, unknown>))
+    .filter((sub): sub is NotificationSubscription => sub !== null);
+}
+
+// Replaces the bot's subscriptions in one batch.
+export async function replaceNotificationSubscriptions(
+  env: Env,
+  tenantId: string,
+  subscriptions: NotificationSubscription[],
+): Promise<void> {
+  const db = env.WAITLIST_DB;
+  await db.batch([
+    db
+      .prepare("DELETE FROM notification_subscriptions WHERE tenant_id = ?1")
+      .bind(tenantId),
+    ...subscriptions.map((sub) =>
+      db
+        .prepare(
+          "INSERT INTO notification_subscriptions (id, tenant_id, sink_type, config_json, events_json, enabled) VALUES (?1, ?2, ?3, ?4, ?5, ?6)",
+        )
+        .bind(
+          sub.id,
+          tenantId,
+          sub.sink.type,
+          JSON.stringify(sub.sink),
+          JSON.stringify(sub.events),
+          sub.enabled ? 1 : 0,
+        ),
+    ),
+  ]);
+}
+
+export function redactSubscription(
+  sub: NotificationSubscription,
+): NotificationSubscription {
+  const sink = { ...sub.sink } as Record<string, unknown>;
+  for (const field of SECRET_FIELDS[sub.sink.type]) {
+    if (typeof sink[field] === "string" && sink[field]) {
+      sink[field] = REDACTED_SECRET;
+    }
+  }
+  return { ...sub, sink: sink as NotificationSink };
+}
+
+function requiredString(
+  value: unknown,
+  field: string,
+  opts?: { url?: boolean },
+): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`invalid-notification-${field}`);
+  }
+  const trimmed = value.trim();
+  if (
+    opts?.url &&
+    trimmed !== REDACTED_SECRET &&
+    !/^https?:\/\//.test(trimmed)
+  ) {
+    throw new Error(`invalid-notification-${field}`);
+  }
+  return trimmed;
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new Error(`invalid-notification-${field}`);
+  }
+  return value.trim();
+}
+
+function parseSink(raw: unknown): NotificationSink {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("invalid-notification-sink");
+  }
+  const s = raw as Record<string, unknown>;
+  if (s.type === "webhook") {
+    return {
+      type: "webhook",
+      url: requiredString(s.url, "url", { url: true }),
+      secret: optionalString(s.secret, "secret"),
+    };
+  }
+  if (s.type === "telegram") {
+    return {
+      type: "telegram",
+      botToken: requiredString(s.botToken, "botToken"),
+      chatId: requiredString(
+        typeof s.chatId === "number" ? String(s.chatId) : s.chatId,
+        "chatId",
+      ),
+    };
+  }
+  if (s.type === "discord") {
+    return {
+      type: "discord",
+      webhookUrl: requiredString(s.webhookUrl, "webhookUrl", { url: true }),
+    };
+  }
+  if (s.type === "email") {
+    return {
+      type: "email",
+      relayUrl: requiredString(s.relayUrl, "relayUrl", { url: true }),
+      to: requiredString(s.to, "to"),
+      from: optionalString(s.from, "from"),
+      token: optionalString(s.token, "token"),
+    };
+  }
+  throw new Error("invalid-notification-sink-type");
+}
+
+// Validates a PUT payload. Redacted secrets are restored from the stored
+// subscription with the same id and sink type; new subscriptions get an id.
+export function parseNotificationSubscriptions(
+  raw: unknown,
+  existing: NotificationSubscription[],
+): NotificationSubscription[] {
+  if (!Array.isArray(raw) || raw.length > MAX_SUBSCRIPTIONS) {
+    throw new Error("invalid-notification-subscriptions");
+  }
+  const byId = new Map(existing.map((sub) => [sub.id, sub]));
+  return raw.map((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error("invalid-notification-subscription");
+    }
+    const s = item as Record<string, unknown>;
+    const id = typeof s.id === "string" && s.id ? s.id : crypto.randomUUID();
+    const sink = parseSink(s.sink) as Record<string, unknown>;
+    const previous = byId.get(id);
+    for (const field of SECRET_FIELDS[sink.type as NotificationSink["type"]]) {
+      if (sink[field] !== REDACTED_SECRET) continue;
+      const stored =
+        previous && previous.sink.type === sink.type
+          ? (previous.sink as Record<string, unknown>)[field]
+          : undefined;
+      if (typeof stored !== "string") {
+        throw new Error(`invalid-notification-${field}`);
+      }
+      sink[field] = stored;
+    }
+
+    let events: NotificationEventType[] = [...NOTIFICATION_EVENT_TYPES];
+    if (s.events !== undefined) {
+      if (
+        !Array.isArray(s.events) ||
+        !s.events.every(isNotificationEventType)
+      ) {
+        throw new Error("invalid-notification-events");
+      }
+      events = [...new Set(s.events)];
+    }
+    if (s.enabled !== undefined && typeof s.enabled !== "boolean") {
+      throw new Error("invalid-notification-enabled");
+    }
+    return {
+      id,
+      sink: sink as NotificationSink,
+      events,
+      enabled: s.enabled !== false,
+    };
+  });
+}
+
+function logDeliveryFailures(
+  tenantId: string,
+  type: NotificationEventType,
+  deliveries: NotificationDelivery[],
+): void {
+  for (const delivery of deliveries) {
+    if (delivery.ok) continue;
+    console.log(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        level: "warn",
+        message: "notification delivery failed",
+        tenantId,
+        event: type,
+        sink: delivery.sink,
+        err: delivery.error,
+      }),
+    );
+  }
+}
+
+// Sends to the bot's enabled subscriptions for this event type. Never throws:
+// notifications must not fail the tick that produced them.
+export async function notifyBot(
+  env: Env,
+  tenantId: string,
+  event: BotNotification,
+): Promise<NotificationDelivery[]> {
+  try {
+    const sinks = (await listNotificationSubscriptions(env, tenantId))
+      .filter((sub) => sub.enabled && sub.events.includes(event.type))
+      .map((sub) => sub.sink);
+    if (sinks.length === 0) return [];
+    const deliveries = await dispatchNotification(sinks, {
+      ...event,
+      botId: tenantId,
+      ts: new Date().toISOString(),
+    });
+    logDeliveryFailures(tenantId, event.type, deliveries);
+    return deliveries;
+  } catch (err) {
+    console.log(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        level: "warn",
+        message: "notification dispatch failed",
+        tenantId,
+        event: event.type,
+        err: err instanceof Error ? err.message : String(err),
+      }),
+    );
+    return [];
+  }
+}
+
+// trade.executed for landed swaps, trade.failed for failed or expired ones.
+// Swaps still pending confirmation are notified once reconciled.
+export async function notifySwapResult(
+  env: Env,
+  tenantId: string,
+  input: {
+    runId: string;
+    signature: string;
+    status: string;
+    quote: JupiterQuoteResponse;
+  },
+): Promise<void> {
+  if ((PENDING_TRADE_STATUSES as readonly string[]).includes(input.status)) {
+    return;
+  }
+  const failed = input.status === "error" || input.status === "expired";
+  await notifyBot(env, tenantId, {
+    type: failed ? "trade.failed" : "trade.executed",
+    level: failed ? "error" : "info",
+    title: failed ? "Trade failed" : "Trade executed",
+    message: `${input.quote.inputMint} -> ${input.quote.outputMint}: ${input.quote.inAmount} in, ${input.quote.outAmount} out (${input.status})`,
+    metadata: {
+      runId: input.runId,
+      signature: input.signature,
+      status: input.status,
+      inputMint: input.quote.inputMint,
+      outputMint: input.quote.outputMint,
+      inAmount: input.quote.inAmount,
+      outAmount: input.quote.outAmount,
+    },
+  });
+}
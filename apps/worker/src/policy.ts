@@ -1,10 +1,38 @@
-import type { JupiterQuoteResponse } from "./jupiter";
-import type { LoopPolicy } from "./types";
+import {
+  counterPolicyFacts,
+  evaluatePolicy,
+  type PolicyCounters,
+  type PolicyFacts,
+  quotePriceImpactPct,
+  quoteValueAtomic,
+  upgradePolicy,
+} from "../../../src/policy/index";
+import type { JupiterQuoteResponse, PriorityLevel } from "./jupiter";
+import {
+  BLUECHIP_MINTS,
+  isTokenTier,
+  TOKEN_SCREEN_REJECTIONS,
+  type TokenScreen,
+  type TokenScreener,
+  type TokenTier,
+  tierSatisfies,
+} from "./token_safety";
+import type { LoopPolicy, PriorityFeePolicy } from "./types";
 
 export type NormalizedPolicy = {
   killSwitch: boolean;
+  // Raw mints from policy.allowedMints; tier names go to allowedTiers. Both
+  // empty allows any mint.
   allowedMints: string[];
+  allowedTiers: TokenTier[];
   maxTradeAmountAtomic: string; // "0" means unlimited
+  maxTradeQuoteAtomic: string; // "0" means unlimited
+  maxTradesPerDay: number; // 0 means unlimited
+  // Set by the owner's suitability profile; null allows any tier.
+  suitableTier: TokenTier | null;
+  // Attached by the tick once it has an RPC client; without one, only
+  // bluechip mints pass tier checks and output mints go unscreened.
+  tokenScreener: TokenScreener | null;
   maxPriceImpactPct: number;
   slippageBps: number;
   simulateOnly: boolean;
@@ -12,12 +40,83 @@ export type NormalizedPolicy = {
   skipPreflight: boolean;
   commitment: "processed" | "confirmed" | "finalized";
   minSolReserveLamports: string;
+  cooldownSeconds: number; // 0 means off
+  dailySpendCapLamports: string; // "0" means unlimited
+  // Attached by the tick as of its start; without them the cooldown and
+  // daily spend rules are skipped (backtests).
+  counters: PolicyCounters | null;
+  maxDailyLossQuoteAtomic: string; // "0" means off
+  maxDailyLossPct: number; // 0 means off
+  maxDrawdownPct: number; // 0 means off
+  maxConsecutiveFailedSwaps: number; // 0 means off
+  priorityFee: NormalizedPriorityFee | null; // null keeps Jupiter defaults
 };
 
+export type NormalizedPriorityFee = {
+  mode: PriorityFeePolicy["mode"];
+  microLamports: number;
+  percentile: number;
+  priorityLevel: PriorityLevel;
+  maxLamports: string; // "0" means no cap
+  jitoTipLamports: string; // "0" means no tip
+  resubmitAfterSlots: number; // 0 means off
+  maxResubmits: number;
+  bumpPct: number;
+};
+
+function fraction(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.max(0, Math.min(1, value))
+    : 0;
+}
+
+function atomic(value: unknown): string {
+  return typeof value === "string" && /^[0-9]+$/.test(value) ? value : "0";
+}
+
+function wholeNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.max(0, Math.floor(value))
+    : fallback;
+}
+
+function normalizePriorityFee(
+  fee: PriorityFeePolicy | undefined,
+): NormalizedPriorityFee | null {
+  if (
+    !fee ||
+    (fee.mode !== "static" &&
+      fee.mode !== "percentile" &&
+      fee.mode !== "maxLamports")
+  ) {
+    return null;
+  }
+  const priorityLevel =
+    fee.priorityLevel === "medium" || fee.priorityLevel === "veryHigh"
+      ? fee.priorityLevel
+      : "high";
+  return {
+    mode: fee.mode,
+    microLamports: wholeNumber(fee.microLamports, 0),
+    percentile: Math.min(100, Math.max(1, wholeNumber(fee.percentile, 75))),
+    priorityLevel,
+    maxLamports: atomic(fee.maxLamports),
+    jitoTipLamports: atomic(fee.jitoTipLamports),
+    resubmitAfterSlots: wholeNumber(fee.resubmitAfterSlots, 0),
+    maxResubmits: Math.min(5, wholeNumber(fee.maxResubmits, 2)),
+    bumpPct:
+      typeof fee.bumpPct === "number" && Number.isFinite(fee.bumpPct)
+        ? Math.max(0, fee.bumpPct)
+        : 0.5,
+  };
+}
+
 export function normalizePolicy(
-  policy: LoopPolicy | undefined,
+  stored: LoopPolicy | undefined,
 ): NormalizedPolicy {
-  const allowedMints = Array.isArray(policy?.allowedMints)
+  // Accepts the legacy local field names too.
+  const policy = stored ? (upgradePolicy(stored) as LoopPolicy) : undefined;
+  const allowed = Array.isArray(policy?.allowedMints)
     ? policy?.allowedMints.filter((m): m is string => typeof m === "string")
     : [];
 
@@ -44,11 +143,16 @@ export function normalizePolicy(
 
   return {
     killSwitch: Boolean(policy?.killSwitch),
-    allowedMints,
+    allowedMints: allowed.filter((entry) => !isTokenTier(entry)),
+    allowedTiers: allowed.filter(isTokenTier),
     maxTradeAmountAtomic:
       typeof policy?.maxTradeAmountAtomic === "string"
         ? policy.maxTradeAmountAtomic
         : "0",
+    maxTradeQuoteAtomic: atomic(policy?.maxTradeQuoteAtomic),
+    maxTradesPerDay: wholeNumber(policy?.maxTradesPerDay, 0),
+    suitableTier: null,
+    tokenScreener: null,
     maxPriceImpactPct,
     slippageBps,
     simulateOnly: Boolean(policy?.simulateOnly),
@@ -59,38 +163,194 @@ export function normalizePolicy(
       typeof policy?.minSolReserveLamports === "string"
         ? policy.minSolReserveLamports
         : "50000000",
+    cooldownSeconds: wholeNumber(policy?.cooldownSeconds, 0),
+    dailySpendCapLamports: atomic(policy?.dailySpendCapLamports),
+    counters: null,
+    maxDailyLossQuoteAtomic:
+      typeof policy?.maxDailyLossQuoteAtomic === "string" &&
+      /^[0-9]+$/.test(policy.maxDailyLossQuoteAtomic)
+        ? policy.maxDailyLossQuoteAtomic
+        : "0",
+    maxDailyLossPct: fraction(policy?.maxDailyLossPct),
+    maxDrawdownPct: fraction(policy?.maxDrawdownPct),
+    maxConsecutiveFailedSwaps:
+      typeof policy?.maxConsecutiveFailedSwaps === "number" &&
+      Number.isFinite(policy.maxConsecutiveFailedSwaps)
+        ? Math.max(0, Math.floor(policy.maxConsecutiveFailedSwaps))
+        : 0,
+    priorityFee: normalizePriorityFee(policy?.priorityFee),
   };
 }
 
-export function enforcePolicy(
+// Errors enforcePolicy throws for a quote that breaks the policy limits.
+const POLICY_REJECTIONS = new Set([
+  "mint-not-allowed",
+  "mint-not-suitable",
+  "trade-amount-exceeds-cap",
+  "trade-value-exceeds-cap",
+  "trade-value-unknown",
+  "price-impact-too-high",
+  "daily-spend-cap-exceeded",
+  "cooldown-active",
+  "token-not-screened",
+  ...TOKEN_SCREEN_REJECTIONS,
+]);
+
+export function isPolicyRejection(message: string | null): boolean {
+  return message !== null && POLICY_REJECTIONS.has(message);
+}
+
+// Screens the quote's output mint, and its input mint when a tier allowlist
+// or a suitable tier needs it. Bluechip mints and policies without a
+// screener are not screened.
+export async function screenQuoteMints(
   policy: NormalizedPolicy,
   quoteResponse: JupiterQuoteResponse,
-): void {
+): Promise<Map<string, TokenScreen>> {
+  const screens = new Map<string, TokenScreen>();
+  const screener = policy.tokenScreener;
+  if (!screener) return screens;
+  const tiered = policy.allowedTiers.length > 0 || policy.suitableTier !== null;
+  const mints = [quoteResponse.outputMint];
+  if (tiered) mints.push(quoteResponse.inputMint);
+  for (const mint of mints) {
+    if (mint && !screens.has(mint) && !BLUECHIP_MINTS.includes(mint)) {
+      screens.set(mint, await screener.screen(mint));
+    }
+  }
+  return screens;
+}
+
+// Throws the first failed rule's reason when the quote breaks the policy.
+export async function enforcePolicy(
+  policy: NormalizedPolicy,
+  quoteResponse: JupiterQuoteResponse,
+): Promise<void> {
   if (policy.killSwitch) {
     throw new Error("kill-switch-enabled");
   }
+  checkPolicyLimits(
+    policy,
+    quoteResponse,
+    await screenQuoteMints(policy, quoteResponse),
+  );
+}
+
+// Price oracle quotes (1 base token -> quote mint) are never sent, so the
+// cooldown and daily spend counters do not apply to them.
+export async function enforcePriceQuotePolicy(
+  policy: NormalizedPolicy,
+  quoteResponse: JupiterQuoteResponse,
+): Promise<void> {
+  await enforcePolicy({ ...policy, counters: null }, quoteResponse);
+}
+
+// Tier of a curated or screened mint; null when unscreened or failed.
+function screenedTier(
+  mint: string,
+  screens: Map<string, TokenScreen>,
+): TokenTier | null {
+  if (BLUECHIP_MINTS.includes(mint)) return "bluechip";
+  return screens.get(mint)?.tier ?? null;
+}
+
+// Why a mint is off the allowlist, or null when it is on it.
+function allowlistMiss(
+  policy: NormalizedPolicy,
+  mint: string,
+  screens: Map<string, TokenScreen>,
+): string | null {
+  if (policy.allowedMints.includes(mint)) return null;
+  if (policy.allowedTiers.length === 0) return "mint-not-allowed";
+  const tier = screenedTier(mint, screens);
+  if (tier === null) {
+    return screens.get(mint)?.reason ?? "token-not-screened";
+  }
+  return policy.allowedTiers.some((allowed) => tierSatisfies(tier, allowed))
+    ? null
+    : "mint-not-allowed";
+}
+
+// The quote-level facts for the shared policy rules, plus cooldown and
+// daily spend as of `now` when counters are attached. The caller adds the
+// wallet and history facts (reserve, daily trades, breakers) when it has
+// them.
+export function quotePolicyFacts(
+  policy: NormalizedPolicy,
+  quoteResponse: JupiterQuoteResponse,
+  screens: Map<string, TokenScreen> = new Map(),
+  now = new Date(),
+): PolicyFacts {
   const inputMint = quoteResponse.inputMint;
   const outputMint = quoteResponse.outputMint;
-  if (policy.allowedMints.length > 0) {
-    if (
-      (inputMint && !policy.allowedMints.includes(inputMint)) ||
-      (outputMint && !policy.allowedMints.includes(outputMint))
-    ) {
-      throw new Error("mint-not-allowed");
-    }
+  const facts: PolicyFacts = { killSwitch: policy.killSwitch };
+  if (policy.allowedMints.length > 0 || policy.allowedTiers.length > 0) {
+    const misses = [inputMint, outputMint].flatMap((mint) => {
+      const miss = mint ? allowlistMiss(policy, mint, screens) : null;
+      return miss ? [{ mint, miss }] : [];
+    });
+    facts.allowedMints = {
+      observed: misses[0]?.mint ?? `${inputMint} -> ${outputMint}`,
+      threshold: [...policy.allowedTiers, ...policy.allowedMints].join(", "),
+      reason: misses[0]?.miss ?? null,
+    };
   }
-  const inAmount = quoteResponse.inAmount;
-  if (policy.maxTradeAmountAtomic !== "0" && inAmount) {
-    if (BigInt(inAmount) > BigInt(policy.maxTradeAmountAtomic)) {
-      throw new Error("trade-amount-exceeds-cap");
-    }
+  const output = screens.get(outputMint);
+  if (output) {
+    facts.tokenScreen = {
+      observed: output.tier ?? output.reason,
+      threshold: "any-screened",
+      reason:
+        output.tier === null ? (output.reason ?? "token-not-screened") : null,
+    };
   }
-  const priceImpactPctRaw = quoteResponse.priceImpactPct;
-  const priceImpactPct =
-    typeof priceImpactPctRaw === "string"
-      ? Number(priceImpactPctRaw)
-      : (priceImpactPctRaw ?? 0);
-  if (priceImpactPct > policy.maxPriceImpactPct) {
-    throw new Error("price-impact-too-high");
+  const suitableTier = policy.suitableTier;
+  if (suitableTier) {
+    const tiers = [inputMint, outputMint].map((mint) =>
+      screenedTier(mint, screens),
+    );
+    facts.suitableTier = {
+      observed: tiers.map((tier) => tier ?? "unscreened").join(" -> "),
+      threshold: suitableTier,
+      reason: tiers.every((tier) => tier && tierSatisfies(tier, suitableTier))
+        ? null
+        : "mint-not-suitable",
+    };
+  }
+  if (quoteResponse.inAmount) {
+    facts.tradeAmount = {
+      atomic: quoteResponse.inAmount,
+      maxAtomic: policy.maxTradeAmountAtomic,
+    };
+  }
+  const value = quoteValueAtomic(quoteResponse);
+  facts.tradeValue = {
+    quoteAtomic: value === null ? null : value.toString(),
+    maxQuoteAtomic: policy.maxTradeQuoteAtomic,
+  };
+  facts.priceImpact = {
+    pct: quotePriceImpactPct(quoteResponse),
+    maxPct: policy.maxPriceImpactPct,
+  };
+  if (policy.counters) {
+    Object.assign(
+      facts,
+      counterPolicyFacts(policy, policy.counters, quoteResponse, now),
+    );
   }
+  return facts;
+}
+
+// The synchronous checks against already screened mints. Backtests call it
+// directly with the screens they were given and the candle's time as `now`.
+export function checkPolicyLimits(
+  policy: NormalizedPolicy,
+  quoteResponse: JupiterQuoteResponse,
+  screens: Map<string, TokenScreen> = new Map(),
+  now = new Date(),
+): void {
+  const report = evaluatePolicy(
+    quotePolicyFacts(policy, quoteResponse, screens, now),
+  );
+  if (!report.allow) throw new Error(report.reasons[0]);
 }
@@ -0,0 +1,65 @@
+import {
+  type CountedTrade,
+  currentPolicyCounters,
+  type PolicyCounters,
+  recordPolicyTrade,
+} from "../../../src/policy/index";
+import type { Env } from "./types";
+
+async function readStoredCounters(
+  env: Env,
+  tenantId: string,
+): Promise<PolicyCounters | null> {
+  const row = (await env.WAITLIST_DB.prepare(
+    "SELECT day, trades, spent_lamports, last_trade_at FROM policy_counters WHERE tenant_id = ?1",
+  )
+    .bind(tenantId)
+    .first()) as Record<string, unknown> | null;
+  if (!row) return null;
+  return {
+    day: String(row.day),
+    trades: Number(row.trades ?? 0),
+    spentLamports: String(row.spent_lamports ?? "0"),
+    lastTradeAt: row.last_trade_at ? String(row.last_trade_at) : null,
+  };
+}
+
+export async function getPolicyCounters(
+  env: Env,
+  tenantId: string,
+  now = new Date(),
+): Promise<PolicyCounters> {
+  return currentPolicyCounters(await readStoredCounters(env, tenantId), now);
+}
+
+// Read-modify-write; ticks for a tenant hold its loop lock, so they do not
+// race each other.
+export async function recordPolicyCounters(
+  env: Env,
+  tenantId: string,
+  trade: CountedTrade,
+  now = new Date(),
+): Promise<PolicyCounters> {
+  const next = recordPolicyTrade(
+    await readStoredCounters(env, tenantId),
+    trade,
+    now,
+  );
+  await env.WAITLIST_DB.prepare(
+    "INSERT INTO policy_counters (tenant_id, day, trades, spent_lamports, last_trade_at) VALUES (?1, ?2, ?3, ?4, ?5) ON CONFLICT(tenant_id) DO UPDATE SET day = excluded.day, trades = excluded.trades, spent_lamports = excluded.spent_lamports, last_trade_at = excluded.last_trade_at",
+  )
+    .bind(tenantId, next.day, next.trades, next.spentLamports, next.lastTradeAt)
+    .run();
+  return next;
+}
+
+// The counters for the rest of a tick once one of its swaps is recorded:
+// daily spend and trades move on, but lastTradeAt stays at its tick-start
+// value so the legs of one tick (portfolio sells then buys, a rebalance)
+// are not held back by the cooldown.
+export function countersWithinTick(
+  tickStart: PolicyCounters,
+  recorded: PolicyCounters,
+): PolicyCounters {
+  return { ...recorded, lastTradeAt: tickStart.lastTradeAt };
+}
@@ -0,0 +1,130 @@
+import { evaluatePolicy, type PolicyReport } from "../../../src/policy/index";
+import { hasCircuitBreakers, previewCircuitBreakers } from "./circuit_breaker";
+import { getLoopConfig } from "./config";
+import { SOL_MINT } from "./defaults";
+import { JupiterClient } from "./jupiter";
+import { normalizePolicy, quotePolicyFacts, screenQuoteMints } from "./policy";
+import { getPolicyCounters } from "./policy_counters";
+import { SolanaRpc } from "./solana_rpc";
+import { applySuitabilityCeilings, getBotSuitability } from "./suitability";
+import { TokenScreener } from "./token_safety";
+import type { Env } from "./types";
+
+// Dry run of the policy for a hypothetical trade: quotes it, then reports
+// every rule the live tick would apply, without executing or writing state.
+
+export type PolicyEvaluationRequest = {
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+};
+
+export type PolicyEvaluation = {
+  quote: {
+    inAmount: string;
+    outAmount: string;
+    priceImpactPct: string | number | null;
+    swapUsdValue: string | null;
+  };
+  report: PolicyReport;
+};
+
+const MINT = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export function validatePolicyEvaluationRequest(
+  value: unknown,
+): PolicyEvaluationRequest {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("invalid-evaluation");
+  }
+  const raw = value as Record<string, unknown>;
+  for (const key of ["inputMint", "outputMint"] as const) {
+    if (typeof raw[key] !== "string" || !MINT.test(raw[key])) {
+      throw new Error(`invalid-evaluation-${key}`);
+    }
+  }
+  if (typeof raw.amount !== "string" || !/^[1-9][0-9]*$/.test(raw.amount)) {
+    throw new Error("invalid-evaluation-amount");
+  }
+  return {
+    inputMint: raw.inputMint as string,
+    outputMint: raw.outputMint as string,
+    amount: raw.amount,
+  };
+}
+
+export async function evaluateBotPolicy(
+  env: Env,
+  bot: { id: string; walletAddress: string },
+  request: PolicyEvaluationRequest,
+  now = new Date(),
+): Promise<PolicyEvaluation> {
+  const config = await getLoopConfig(env, bot.id);
+  const suitability = await getBotSuitability(env, bot.id);
+  const policy = applySuitabilityCeilings(
+    normalizePolicy(config.policy),
+    suitability?.ceilings ?? null,
+  );
+  const rpc = SolanaRpc.fromEnv(env);
+  policy.tokenScreener = new TokenScreener(env, rpc);
+  const counters = await getPolicyCounters(env, bot.id, now);
+  policy.counters = counters;
+  const jupiter = new JupiterClient(
+    env.JUPITER_BASE_URL ?? "https://lite-api.jup.ag",
+    env.JUPITER_API_KEY,
+  );
+
+  const quote = await jupiter.quote({
+    inputMint: request.inputMint,
+    outputMint: request.outputMint,
+    amount: request.amount,
+    slippageBps: policy.slippageBps,
+    swapMode: "ExactIn",
+  });
+  const facts = quotePolicyFacts(
+    policy,
+    quote,
+    await screenQuoteMints(policy, quote),
+    now,
+  );
+
+  const balance = await rpc.getBalanceLamports(bot.walletAddress);
+  facts.solReserve = {
+    lamportsAfter: (request.inputMint === SOL_MINT
+      ? balance - BigInt(request.amount)
+      : balance
+    ).toString(),
+    minLamports: policy.minSolReserveLamports,
+  };
+  facts.tradesToday = {
+    count: counters.trades,
+    max: policy.maxTradesPerDay,
+  };
+  if (hasCircuitBreakers(policy)) {
+    const trip = await previewCircuitBreakers({
+      env,
+      tenantId: bot.id,
+      rpc,
+      jupiter,
+      wallet: bot.walletAddress,
+      policy,
+      log: () => {},
+    });
+    facts.circuitBreaker = {
+      observed: trip?.message ?? null,
+      threshold: null,
+      reason: trip ? `circuit-breaker-${trip.reason}` : null,
+    };
+  }
+
+  return {
+    quote: {
+      inAmount: quote.inAmount,
+      outAmount: quote.outAmount,
+      priceImpactPct: quote.priceImpactPct ?? null,
+      swapUsdValue:
+        typeof quote.swapUsdValue === "string" ? quote.swapUsdValue : null,
+    },
+    report: evaluatePolicy(facts),
+  };
+}
@@ -0,0 +1,297 @@
+import type {
+  JupiterClient,
+  JupiterQuoteResponse,
+  JupiterSwapResponse,
+  PriorityLevel,
+  SwapFeeParams,
+} from "./jupiter";
+import type { NormalizedPolicy, NormalizedPriorityFee } from "./policy";
+import { tradeStatusFromConfirmation } from "./reconcile";
+import type { Signer } from "./signer";
+import { meetsCommitment, type SolanaRpc } from "./solana_rpc";
+
+// Per-transaction compute unit ceiling. Unit price caps assume a swap can
+// use all of it, so the cap holds whatever limit Jupiter sets.
+export const MAX_COMPUTE_UNITS = 1_400_000;
+const MAX_FEE_ACCOUNTS = 128;
+// A blockhash is valid for 150 blocks, roughly a minute; an unseen attempt
+// is only replaced once its blockhash has expired.
+const BLOCKHASH_EXPIRY_MS = 90_000;
+const POLL_MS = 1_000;
+// Lowest percentile-mode unit price, so a quiet fee market still leaves
+// resubmissions something to bump.
+const MIN_PERCENTILE_MICRO_LAMPORTS = 1_000;
+const PRIORITY_LEVELS: PriorityLevel[] = ["medium", "high", "veryHigh"];
+
+type LogFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  meta?: Record<string, unknown>,
+) => void;
+
+export type PriorityFee = {
+  params: SwapFeeParams;
+  // Unit price before bumps (static and percentile modes).
+  baseMicroLamports: number;
+};
+
+export type SubmittedSwap = {
+  signature: string;
+  // Reached policy.commitment without an error.
+  ok: boolean;
+  status: string;
+  err: unknown;
+  lastValidBlockHeight: number;
+  attempts: number;
+  // Earlier attempts superseded by a bumped resubmission.
+  replacedSignatures: string[];
+  priorityFeeLamports: string | null;
+};
+
+// Nearest-rank percentile; 0 without samples.
+export function feePercentile(fees: number[], percentile: number): number {
+  if (fees.length === 0) return 0;
+  const sorted = [...fees].sort((a, b) => a - b);
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+// Highest unit price that keeps a MAX_COMPUTE_UNITS transaction's priority
+// fee under maxLamports ("0" = no cap).
+export function capMicroLamports(
+  microLamports: number,
+  maxLamports: string,
+): number {
+  const cap = BigInt(maxLamports);
+  if (cap === 0n) return microLamports;
+  const max = Number((cap * 1_000_000n) / BigInt(MAX_COMPUTE_UNITS));
+  return Math.min(microLamports, max);
+}
+
+// Write-locked pool accounts of the route, which is what
+// getRecentPrioritizationFees filters on.
+export function routeAccounts(quote: JupiterQuoteResponse): string[] {
+  const keys = (quote.routePlan ?? [])
+    .map((step) => step.swapInfo?.ammKey)
+    .filter((key): key is string => typeof key === "string" && key !== "");
+  return [...new Set(keys)].slice(0, MAX_FEE_ACCOUNTS);
+}
+
+// Swap request fee fields for attempt `attempt` (0 = first send). Each
+// resubmission raises the unit price by bumpPct, or the priority level by
+// one step in maxLamports mode; caps still apply.
+export function priorityFeeParams(
+  fee: NormalizedPriorityFee,
+  baseMicroLamports: number,
+  attempt: number,
+): SwapFeeParams {
+  if (fee.mode === "maxLamports") {
+    const level =
+      PRIORITY_LEVELS[
+        Math.min(
+          PRIORITY_LEVELS.length - 1,
+          PRIORITY_LEVELS.indexOf(fee.priorityLevel) + attempt,
+        )
+      ];
+    return {
+      prioritizationFeeLamports: {
+        priorityLevelWithMaxLamports: {
+          priorityLevel: level,
+          maxLamports: Number(fee.maxLamports),
+        },
+      },
+      dynamicComputeUnitLimit: true,
+    };
+  }
+  const bumped = Math.ceil(baseMicroLamports * (1 + fee.bumpPct) ** attempt);
+  const params: SwapFeeParams = {
+    computeUnitPriceMicroLamports: capMicroLamports(bumped, fee.maxLamports),
+    dynamicComputeUnitLimit: true,
+  };
+  if (fee.jitoTipLamports !== "0") {
+    params.prioritizationFeeLamports = {
+      jitoTipLamports: Number(fee.jitoTipLamports),
+    };
+  }
+  return params;
+}
+
+// Fee for the first send. Without a priorityFee policy the swap keeps
+// Jupiter's defaults.
+export async function resolvePriorityFee(
+  rpc: SolanaRpc,
+  policy: NormalizedPolicy,
+  quote: JupiterQuoteResponse,
+): Promise<PriorityFee> {
+  const fee = policy.priorityFee;
+  if (!fee) return { params: {}, baseMicroLamports: 0 };
+  let baseMicroLamports = fee.microLamports;
+  if (fee.mode === "percentile") {
+    const recent = await rpc.getRecentPrioritizationFees(routeAccounts(quote));
+    baseMicroLamports = Math.max(
+      feePercentile(
+        recent.map((row) => row.prioritizationFee),
+        fee.percentile,
+      ),
+      fee.microLamports,
+      MIN_PERCENTILE_MICRO_LAMPORTS,
+    );
+  }
+  return {
+    params: priorityFeeParams(fee, baseMicroLamports, 0),
+    baseMicroLamports,
+  };
+}
+
+// Priority fee (plus Jito tip) of a built swap in lamports: Jupiter's
+// figure when it reports one, else unit price times compute unit limit.
+export function swapPriorityFeeLamports(
+  swap: JupiterSwapResponse,
+  params: SwapFeeParams,
+): string | null {
+  if (typeof swap.prioritizationFeeLamports === "number") {
+    return String(swap.prioritizationFeeLamports);
+  }
+  const price = params.computeUnitPriceMicroLamports;
+  if (price === undefined || typeof swap.computeUnitLimit !== "number") {
+    return null;
+  }
+  const tip =
+    params.prioritizationFeeLamports &&
+    "jitoTipLamports" in params.prioritizationFeeLamports
+      ? BigInt(params.prioritizationFeeLamports.jitoTipLamports)
+      : 0n;
+  const units = BigInt(swap.computeUnitLimit);
+  return ((BigInt(price) * units + 999_999n) / 1_000_000n + tip).toString();
+}
+
+type Attempt = {
+  signature: string;
+  swap: JupiterSwapResponse;
+  params: SwapFeeParams;
+};
+
+// Sends a signed swap and waits for policy.commitment. With
+// resubmitAfterSlots set, an attempt the cluster has not seen after that
+// many slots, and whose blockhash has since expired, is rebuilt with a
+// bumped fee, re-signed and sent again. Each rebuild gets a fresh blockhash,
+// so waiting for the previous one to expire is what keeps two attempts from
+// both landing. Superseded signatures are kept on the trade.
+export async function submitSwap(input: {
+  rpc: SolanaRpc;
+  jupiter: JupiterClient;
+  signer: Signer;
+  wallet: string;
+  policy: NormalizedPolicy;
+  quote: JupiterQuoteResponse;
+  swap: JupiterSwapResponse;
+  signedBase64: string;
+  fee: PriorityFee;
+  log: LogFn;
+}): Promise<SubmittedSwap> {
+  const { rpc, policy, log } = input;
+  const send = (signedBase64: string) =>
+    rpc.sendTransactionBase64(signedBase64, {
+      skipPreflight: policy.skipPreflight,
+      preflightCommitment: policy.commitment,
+    });
+
+  const attempts: Attempt[] = [
+    {
+      signature: await send(input.signedBase64),
+      swap: input.swap,
+      params: input.fee.params,
+    },
+  ];
+  log("info", "tx submitted", {
+    signature: attempts[0].signature,
+    lastValidBlockHeight: input.swap.lastValidBlockHeight,
+    priorityFeeLamports: swapPriorityFeeLamports(input.swap, input.fee.params),
+  });
+
+  const result = (
+    attempt: Attempt,
+    status: string,
+    err: unknown = null,
+  ): SubmittedSwap => ({
+    signature: attempt.signature,
+    ok: !err && meetsCommitment(status, policy.commitment),
+    status,
+    err,
+    lastValidBlockHeight: attempt.swap.lastValidBlockHeight,
+    attempts: attempts.length,
+    replacedSignatures: attempts
+      .filter((a) => a !== attempt)
+      .map((a) => a.signature),
+    priorityFeeLamports: swapPriorityFeeLamports(attempt.swap, attempt.params),
+  });
+
+  const fee = policy.priorityFee;
+  if (!fee || fee.resubmitAfterSlots <= 0) {
+    const confirmation = await rpc.confirmSignature(attempts[0].signature, {
+      commitment: policy.commitment,
+    });
+    return result(
+      attempts[0],
+      tradeStatusFromConfirmation(confirmation),
+      confirmation.err ?? null,
+    );
+  }
+
+  let sentAtSlot = await rpc.getSlot("processed");
+  let canResubmit = true;
+  let seen: Attempt | null = null;
+  const deadline = Date.now() + BLOCKHASH_EXPIRY_MS * (fee.maxResubmits + 1);
+  while (Date.now() < deadline) {
+    const last = attempts[attempts.length - 1];
+    // Read before the statuses: an attempt unseen at a height past its
+    // lastValidBlockHeight can no longer land.
+    const slot = await rpc.getSlot("processed");
+    const expired =
+      slot - sentAtSlot >= fee.resubmitAfterSlots &&
+      (await rpc.getBlockHeight("confirmed")) > last.swap.lastValidBlockHeight;
+    const statuses = await rpc.getSignatureStatuses(
+      attempts.map((a) => a.signature),
+    );
+    const index = statuses.findIndex((status) => status !== null);
+    const status = index >= 0 ? statuses[index] : null;
+    if (status) {
+      seen = attempts[index];
+      if (status.err) return result(seen, "error", status.err);
+      if (meetsCommitment(status.confirmationStatus, policy.commitment)) {
+        return result(seen, status.confirmationStatus ?? "confirmed");
+      }
+    } else if (expired) {
+      if (!canResubmit || attempts.length > fee.maxResubmits) break;
+      const params = priorityFeeParams(
+        fee,
+        input.fee.baseMicroLamports,
+        attempts.length,
+      );
+      try {
+        const swap = await input.jupiter.swap({
+          quoteResponse: input.quote,
+          userPublicKey: input.wallet,
+          ...params,
+        });
+        const signed = await input.signer.signTransaction(swap.swapTransaction);
+        attempts.push({ signature: await send(signed), swap, params });
+        sentAtSlot = slot;
+        log("warn", "tx resubmitted with a bumped fee", {
+          signature: attempts[attempts.length - 1].signature,
+          attempt: attempts.length,
+          lastValidBlockHeight: swap.lastValidBlockHeight,
+          priorityFeeLamports: swapPriorityFeeLamports(swap, params),
+        });
+      } catch (err) {
+        // Typically a stale quote; nothing sent can land any more.
+        canResubmit = false;
+        log("warn", "tx resubmission failed", {
+          err: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    await new Promise((r) => setTimeout(r, POLL_MS));
+  }
+  return result(seen ?? attempts[attempts.length - 1], "sent");
+}
@@ -0,0 +1,394 @@
+import type { StrategyLogFn, SwapFill, SwapRequest } from "./strategy_sdk";
+import type { AgentStrategy, Env } from "./types";
+
+// Human-in-the-loop approval for agent trades. With an approval mode set,
+// trade_jupiter_swap stores a pending proposal instead of swapping. A user
+// approves or rejects it through the API; the next agent tick executes
+// approved proposals and feeds expired ones back to the agent.
+
+export type ApprovalMode = "auto" | "above-amount" | "always";
+
+export const APPROVAL_MODES: ApprovalMode[] = [
+  "auto",
+  "above-amount",
+  "always",
+];
+
+export const DEFAULT_APPROVAL_TTL_MINUTES = 60;
+export const MAX_APPROVAL_TTL_MINUTES = 7 * 24 * 60;
+
+export type TradeProposalStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "expired"
+  | "executing"
+  | "executed"
+  | "failed";
+
+export type TradeProposalResult = {
+  status?: string;
+  signature?: string;
+  inAmount?: string;
+  outAmount?: string;
+  error?: string;
+};
+
+export type TradeProposal = {
+  id: string;
+  tenantId: string;
+  runId: string;
+  inputMint: string;
+  outputMint: string;
+  // Atomic units of inputMint.
+  amount: string;
+  reasoning: string;
+  confidence: string;
+  // Quote summary at proposal time; execution always re-quotes.
+  quote: Record<string, unknown>;
+  // USDC atomic value of the trade at proposal time, when known.
+  valueQuoteAtomic: string | null;
+  status: TradeProposalStatus;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt: string | null;
+  decidedBy: string | null;
+  executedRunId: string | null;
+  result: TradeProposalResult | null;
+};
+
+const TRADE_PROPOSAL_STATUSES: TradeProposalStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+  "executing",
+  "executed",
+  "failed",
+];
+
+export function isTradeProposalStatus(
+  value: unknown,
+): value is TradeProposalStatus {
+  return TRADE_PROPOSAL_STATUSES.includes(value as TradeProposalStatus);
+}
+
+export function isApprovalMode(value: unknown): value is ApprovalMode {
+  return APPROVAL_MODES.includes(value as ApprovalMode);
+}
+
+// Unknown trade values (no route to USDC) always need approval in
+// "above-amount" mode.
+export function requiresApproval(
+  strategy: AgentStrategy,
+  valueQuoteAtomic: bigint | null,
+): boolean {
+  const mode = strategy.approvalMode ?? "auto";
+  if (mode === "always") return true;
+  if (mode !== "above-amount") return false;
+  if (valueQuoteAtomic === null) return true;
+  return valueQuoteAtomic > BigInt(strategy.approvalAboveQuoteAtomic ?? "0");
+}
+
+function parseJson<T>(value: unknown): T | null {
+  if (typeof value !== "string" || !value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+function mapProposalRow(row: Record<string, unknown>): TradeProposal {
+  return {
+    id: String(row.id),
+    tenantId: String(row.tenant_id),
+    runId: String(row.run_id),
+    inputMint: String(row.input_mint),
+    outputMint: String(row.output_mint),
+    amount: String(row.amount),
+    reasoning: String(row.reasoning),
+    confidence: String(row.confidence),
+    quote: parseJson<Record<string, unknown>>(row.quote_json) ?? {},
+    valueQuoteAtomic: row.value_quote_atomic
+      ? String(row.value_quote_atomic)
+      : null,
+    status: String(row.status) as TradeProposalStatus,
+    createdAt: String(row.created_at),
+    expiresAt: String(row.expires_at),
+    decidedAt: row.decided_at ? String(row.decided_at) : null,
+    decidedBy: row.decided_by ? String(row.decided_by) : null,
+    executedRunId: row.executed_run_id ? String(row.executed_run_id) : null,
+    result: parseJson<TradeProposalResult>(row.result_json),
+  };
+}
+
+const PROPOSAL_COLUMNS =
+  "id, tenant_id, run_id, input_mint, output_mint, amount, reasoning, confidence, quote_json, value_quote_atomic, status, created_at, expires_at, decided_at, decided_by, executed_run_id, result_json";
+
+export async function createTradeProposal(
+  env: Env,
+  input: {
+    tenantId: string;
+    runId: string;
+    inputMint: string;
+    outputMint: string;
+    amount: string;
+    reasoning: string;
+    confidence: string;
+    quote: Record<string, unknown>;
+    valueQuoteAtomic: bigint | null;
+    ttlMinutes?: number;
+    now?: Date;
+  },
+): Promise<TradeProposal> {
+  const now = input.now ?? new Date();
+  const ttlMinutes = input.ttlMinutes ?? DEFAULT_APPROVAL_TTL_MINUTES;
+  const proposal: TradeProposal = {
+    id: crypto.randomUUID(),
+    tenantId: input.tenantId,
+    runId: input.runId,
+    inputMint: input.inputMint,
+    outputMint: input.outputMint,
+    amount: input.amount,
+    reasoning: input.reasoning,
+    confidence: input.confidence,
+    quote: input.quote,
+    valueQuoteAtomic: input.valueQuoteAtomic?.toString() ?? null,
+    status: "pending",
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlMinutes * 60_000).toISOString(),
+    decidedAt: null,
+    decidedBy: null,
+    executedRunId: null,
+    result: null,
+  };
+  await env.WAITLIST_DB.prepare(
+    "INSERT INTO trade_proposals (id, tenant_id, run_id, input_mint, output_mint, amount, reasoning, confidence, quote_json, value_quote_atomic, status, created_at, expires_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13)",
+  )
+    .bind(
+      proposal.id,
+      proposal.tenantId,
+      proposal.runId,
+      proposal.inputMint,
+      proposal.outputMint,
+      proposal.amount,
+      proposal.reasoning,
+      proposal.confidence,
+      JSON.stringify(proposal.quote),
+      proposal.valueQuoteAtomic,
+      proposal.status,
+      proposal.createdAt,
+      proposal.expiresAt,
+    )
+    .run();
+  return proposal;
+}
+
+// Newest first.
+export async function listTradeProposals(
+  env: Env,
+  tenantId: string,
+  opts: { status?: TradeProposalStatus; limit?: number } = {},
+): Promise<TradeProposal[]> {
+  const limit = Math.max(1, Math.min(100, Math.floor(opts.limit ?? 50)));
+  const statement = opts.status
+    ? env.WAITLIST_DB.prepare(
+        `SELECT ${PROPOSAL_COLUMNS} FROM trade_proposals WHERE tenant_id = ?1 AND status = ?2 ORDER BY created_at DESC LIMIT ?3`,
+      ).bind(tenantId, opts.status, limit)
+    : env.WAITLIST_DB.prepare(
+        `SELECT ${PROPOSAL_COLUMNS} FROM trade_proposals WHERE tenant_id = ?1 ORDER BY created_at DESC LIMIT ?2`,
+      ).bind(tenantId, limit);
+  const result = await statement.all();
+  return (result.results ?? []).map((row) =>
+    mapProposalRow(row as Record<string, unknown>),
+  );
+}
+
+export async function getTradeProposal(
+  env: Env,
+  tenantId: string,
+  id: string,
+): Promise<TradeProposal | null> {
+  const row = await env.WAITLIST_DB.prepare(
+    `SELECT ${PROPOSAL_COLUMNS} FROM trade_proposals WHERE tenant_id = ?1 AND id = ?2`,
+  )
+    .bind(tenantId, id)
+    .first();
+  return row ? mapProposalRow(row as Record<string, unknown>) : null;
+}
+
+// Status changes are compare-and-set on the current status, so a proposal
+// is decided once and executed at most once.
+async function transition(
+  env: Env,
+  tenantId: string,
+  id: string,
+  from: TradeProposalStatus,
+  to: TradeProposalStatus,
+  fields: {
+    decidedAt?: string;
+    decidedBy?: string;
+    executedRunId?: string;
+    result?: TradeProposalResult;
+  } = {},
+): Promise<boolean> {
+  const result = await env.WAITLIST_DB.prepare(
+    "UPDATE trade_proposals SET status = ?1, decided_at = COALESCE(?2, decided_at), decided_by = COALESCE(?3, decided_by), executed_run_id = COALESCE(?4, executed_run_id), result_json = COALESCE(?5, result_json) WHERE tenant_id = ?6 AND id = ?7 AND status = ?8",
+  )
+    .bind(
+      to,
+      fields.decidedAt ?? null,
+      fields.decidedBy ?? null,
+      fields.executedRunId ?? null,
+      fields.result ? JSON.stringify(fields.result) : null,
+      tenantId,
+      id,
+      from,
+    )
+    .run();
+  return Number(result.meta?.changes ?? 0) > 0;
+}
+
+export async function decideTradeProposal(
+  env: Env,
+  tenantId: string,
+  id: string,
+  decision: "approved" | "rejected",
+  decidedBy: string,
+  now = new Date(),
+): Promise<TradeProposal> {
+  const proposal = await getTradeProposal(env, tenantId, id);
+  if (!proposal) throw new Error("not-found");
+  if (proposal.status !== "pending") throw new Error("proposal-not-pending");
+  if (Date.parse(proposal.expiresAt) <= now.getTime()) {
+    throw new Error("proposal-expired");
+  }
+  const changed = await transition(env, tenantId, id, "pending", decision, {
+    decidedAt: now.toISOString(),
+    decidedBy,
+  });
+  if (!changed) throw new Error("proposal-not-pending");
+  return {
+    ...proposal,
+    status: decision,
+    decidedAt: now.toISOString(),
+    decidedBy,
+  };
+}
+
+// Marks pending proposals past their expiry as expired and returns them.
+export async function expireTradeProposals(
+  env: Env,
+  tenantId: string,
+  now = new Date(),
+): Promise<TradeProposal[]> {
+  const result = await env.WAITLIST_DB.prepare(
+    `SELECT ${PROPOSAL_COLUMNS} FROM trade_proposals WHERE tenant_id = ?1 AND status = 'pending' AND expires_at <= ?2 ORDER BY created_at`,
+  )
+    .bind(tenantId, now.toISOString())
+    .all();
+  const expired: TradeProposal[] = [];
+  for (const row of result.results ?? []) {
+    const proposal = mapProposalRow(row as Record<string, unknown>);
+    if (await transition(env, tenantId, proposal.id, "pending", "expired")) {
+      expired.push({ ...proposal, status: "expired" });
+    }
+  }
+  return expired;
+}
+
+// Claims approved proposals for execution (approved -> executing), oldest
+// first.
+export async function claimApprovedProposals(
+  env: Env,
+  tenantId: string,
+  runId: string,
+): Promise<TradeProposal[]> {
+  const result = await env.WAITLIST_DB.prepare(
+    `SELECT ${PROPOSAL_COLUMNS} FROM trade_proposals WHERE tenant_id = ?1 AND status = 'approved' ORDER BY created_at`,
+  )
+    .bind(tenantId)
+    .all();
+  const claimed: TradeProposal[] = [];
+  for (const row of result.results ?? []) {
+    const proposal = mapProposalRow(row as Record<string, unknown>);
+    const ok = await transition(
+      env,
+      tenantId,
+      proposal.id,
+      "approved",
+      "executing",
+      { executedRunId: runId },
+    );
+    if (ok)
+      claimed.push({ ...proposal, status: "executing", executedRunId: runId });
+  }
+  return claimed;
+}
+
+export async function finishTradeProposal(
+  env: Env,
+  tenantId: string,
+  id: string,
+  status: "executed" | "failed",
+  result: TradeProposalResult,
+): Promise<void> {
+  await transition(env, tenantId, id, "executing", status, { result });
+}
+
+// Runs at the start of an agent tick: expires stale proposals and executes
+// approved ones through the strategy's swap path, which re-quotes and
+// re-runs enforcePolicy. Returns what happened so the agent can reflect on it.
+export async function settleTradeProposals(input: {
+  env: Env;
+  tenantId: string;
+  runId: string;
+  log: StrategyLogFn;
+  executeSwap(request: SwapRequest): Promise<SwapFill | null>;
+  now?: Date;
+}): Promise<{ expired: TradeProposal[]; settled: TradeProposal[] }> {
+  const { env, tenantId, runId, log } = input;
+  const expired = await expireTradeProposals(env, tenantId, input.now);
+  for (const proposal of expired) {
+    log("info", "trade proposal expired", { proposalId: proposal.id });
+  }
+
+  const settled: TradeProposal[] = [];
+  for (const proposal of await claimApprovedProposals(env, tenantId, runId)) {
+    let status: "executed" | "failed";
+    let result: TradeProposalResult;
+    try {
+      const fill = await input.executeSwap({
+        side: "agent_swap",
+        inputMint: proposal.inputMint,
+        outputMint: proposal.outputMint,
+        amount: proposal.amount,
+        reasoning: proposal.reasoning,
+      });
+      if (fill) {
+        status = "executed";
+        result = {
+          status: fill.status,
+          signature: fill.signature,
+          inAmount: fill.inAmount,
+          outAmount: fill.outAmount,
+        };
+      } else {
+        status = "failed";
+        result = { error: "policy-rejected" };
+      }
+    } catch (err) {
+      status = "failed";
+      result = { error: err instanceof Error ? err.message : String(err) };
+    }
+    await finishTradeProposal(env, tenantId, proposal.id, status, result);
+    log(status === "executed" ? "info" : "warn", "trade proposal settled", {
+      proposalId: proposal.id,
+      status,
+      ...result,
+    });
+    settled.push({ ...proposal, status, result });
+  }
+  return { expired, settled };
+}
@@ -0,0 +1,335 @@
+import { getLoopConfig } from "./config";
+import { SOL_MINT } from "./defaults";
+import { JupiterClient, type JupiterQuoteResponse } from "./jupiter";
+import { recordConfirmedSwap, walletTokenDelta } from "./ledger";
+import { notifySwapResult } from "./notifications";
+import { normalizePolicy } from "./policy";
+import {
+  type SignatureStatus,
+  SolanaRpc,
+  type TransactionMeta,
+} from "./solana_rpc";
+import {
+  listReconcilableTrades,
+  PENDING_TRADE_STATUSES,
+  type TradeIndexResult,
+  type TradeReconciliation,
+  updateTradeReconciliation,
+} from "./trade_index";
+import type { Env } from "./types";
+
+export type ResolvedTradeStatus =
+  | "confirmed"
+  | "finalized"
+  | "error"
+  | "expired";
+
+export type ReconcileOutcome = {
+  id: number;
+  signature: string;
+  from: string;
+  status: ResolvedTradeStatus;
+};
+
+const RECONCILE_BATCH = 25;
+// Rows sent before lastValidBlockHeight was recorded expire by age instead;
+// a blockhash is valid for roughly a minute and a half.
+const UNTRACKED_EXPIRY_MS = 10 * 60_000;
+
+export function isPendingTradeStatus(status: string | null): boolean {
+  return (PENDING_TRADE_STATUSES as readonly string[]).includes(status ?? "");
+}
+
+// trade_index status for a confirmSignature result. A confirmation timeout
+// is not a failure: the transaction may still land, so it stays "sent" until
+// reconciled.
+export function tradeStatusFromConfirmation(confirmation: {
+  ok: boolean;
+  status?: string;
+}): string {
+  if (confirmation.ok) return confirmation.status ?? "confirmed";
+  return confirmation.status === "timeout" ? "sent" : "error";
+}
+
+// Final status of a pending swap, or null while it can still land.
+// "processed" is not final: the block can still be dropped with its fork.
+export function resolveTradeStatus(input: {
+  status: SignatureStatus | null;
+  blockHeight: number | null;
+  lastValidBlockHeight: number | null;
+  createdAt: string;
+  now: Date;
+}): ResolvedTradeStatus | null {
+  const { status } = input;
+  if (status) {
+    if (status.err) return "error";
+    if (status.confirmationStatus === "finalized") return "finalized";
+    if (status.confirmationStatus === "confirmed") return "confirmed";
+    return null;
+  }
+  if (input.lastValidBlockHeight !== null) {
+    return input.blockHeight !== null &&
+      input.blockHeight > input.lastValidBlockHeight
+      ? "expired"
+      : null;
+  }
+  // created_at is D1 datetime('now'): "YYYY-MM-DD HH:MM:SS" in UTC.
+  const createdAt = Date.parse(`${input.createdAt.replace(" ", "T")}Z`);
+  return input.now.getTime() - createdAt >= UNTRACKED_EXPIRY_MS
+    ? "expired"
+    : null;
+}
+
+// Native SOL change of the wallet, excluding the network fee when the wallet
+// paid it. Jupiter wraps and unwraps SOL inside the swap, so this is the
+// amount of SOL actually swapped.
+export function walletNativeDelta(
+  meta: TransactionMeta,
+  wallet: string,
+): bigint | null {
+  const index = meta.accountKeys.indexOf(wallet);
+  const pre = meta.preBalances[index];
+  const post = meta.postBalances[index];
+  if (index < 0 || pre === undefined || post === undefined) return null;
+  return post - pre + (index === 0 ? meta.fee : 0n);
+}
+
+// Filled amounts from the wallet's balance changes; null when the
+// transaction did not move the mint (e.g. it failed on-chain).
+export function tradeFill(
+  meta: TransactionMeta,
+  wallet: string,
+  inputMint: string,
+  outputMint: string,
+): { filledInAmount: string | null; filledOutAmount: string | null } {
+  const delta = (mint: string) =>
+    mint === SOL_MINT
+      ? walletNativeDelta(meta, wallet)
+      : walletTokenDelta(
+          meta.preTokenBalances,
+          meta.postTokenBalances,
+          wallet,
+          mint,
+        );
+  const spent = delta(inputMint);
+  const received = delta(outputMint);
+  return {
+    filledInAmount: spent !== null && spent < 0n ? (-spent).toString() : null,
+    filledOutAmount:
+      received !== null && received > 0n ? received.toString() : null,
+  };
+}
+
+function parseMarket(market: string | null): [string, string] | null {
+  const [inputMint, outputMint] = String(market ?? "").split("->");
+  return inputMint && outputMint ? [inputMint, outputMint] : null;
+}
+
+// Settles a swap that was pending when it was recorded: confirmed swaps go
+// into the ledger, and the trade notification sent now carries the final
+// status.
+async function settlePendingSwap(input: {
+  env: Env;
+  rpc: SolanaRpc;
+  jupiter: JupiterClient;
+  tenantId: string;
+  wallet: string;
+  slippageBps: number;
+  row: TradeIndexResult;
+  update: TradeReconciliation;
+}): Promise<void> {
+  const { row, update } = input;
+  const market = parseMarket(row.market);
+  if (!market || !row.signature) return;
+  const quote: JupiterQuoteResponse = {
+    inputMint: market[0],
+    outputMint: market[1],
+    inAmount: update.filledInAmount ?? row.size ?? "0",
+    outAmount: update.filledOutAmount ?? row.price ?? "0",
+  };
+  try {
+    await recordConfirmedSwap({
+      env: input.env,
+      rpc: input.rpc,
+      jupiter: input.jupiter,
+      tenantId: input.tenantId,
+      runId: row.runId ?? "",
+      wallet: input.wallet,
+      signature: row.signature,
+      status: update.status,
+      quote,
+      slippageBps: input.slippageBps,
+    });
+  } catch (err) {
+    console.log(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        level: "warn",
+        message: "failed to record ledger swap",
+        tenantId: input.tenantId,
+        signature: row.signature,
+        err: err instanceof Error ? err.message : String(err),
+      }),
+    );
+  }
+  await notifySwapResult(input.env, input.tenantId, {
+    runId: row.runId ?? "",
+    signature: row.signature,
+    status: update.status,
+    quote,
+  });
+}
+
+// One reconciliation pass over the bot's unsettled swaps. Pending swaps are
+// resolved from their signature status (or blockhash expiry); confirmed ones
+// get their real fills, fee and slot from the landed transaction. Rows the
+// RPC has not indexed yet are left for the next pass.
+export async function reconcileTrades(input: {
+  env: Env;
+  rpc: SolanaRpc;
+  jupiter: JupiterClient;
+  tenantId: string;
+  wallet: string;
+  slippageBps: number;
+  now?: Date;
+}): Promise<ReconcileOutcome[]> {
+  const { env, rpc, tenantId } = input;
+  const now = input.now ?? new Date();
+  const rows = await listReconcilableTrades(env, tenantId, RECONCILE_BATCH);
+  if (rows.length === 0) return [];
+
+  // A fee-bumped swap is pending on every attempt it sent; whichever one
+  // the cluster has seen becomes the trade's signature.
+  const pending = rows.filter((row) => isPendingTradeStatus(row.status));
+  const attempts = pending.flatMap((row) =>
+    [row.signature ?? "", ...row.replacedSignatures].map((signature) => ({
+      id: row.id,
+      signature,
+    })),
+  );
+  const statuses = await rpc.getSignatureStatuses(
+    attempts.map((attempt) => attempt.signature),
+  );
+  const seenById = new Map<
+    number,
+    { signature: string; status: SignatureStatus }
+  >();
+  attempts.forEach((attempt, i) => {
+    const status = statuses[i];
+    if (status && !seenById.has(attempt.id)) {
+      seenById.set(attempt.id, { signature: attempt.signature, status });
+    }
+  });
+  let blockHeight: number | null | undefined;
+
+  const outcomes: ReconcileOutcome[] = [];
+  for (const row of rows) {
+    if (!row.signature) continue;
+    const wasPending = isPendingTradeStatus(row.status);
+    let signature = row.signature;
+    let status: ResolvedTradeStatus | null = row.status as ResolvedTradeStatus;
+    if (wasPending) {
+      const seen = seenById.get(row.id);
+      const signatureStatus = seen?.status ?? null;
+      if (seen) signature = seen.signature;
+      if (
+        !signatureStatus &&
+        row.lastValidBlockHeight !== null &&
+        blockHeight === undefined
+      ) {
+        blockHeight = await rpc.getBlockHeight("confirmed").catch(() => null);
+      }
+      status = resolveTradeStatus({
+        status: signatureStatus,
+        blockHeight: blockHeight ?? null,
+        lastValidBlockHeight: row.lastValidBlockHeight,
+        createdAt: row.createdAt,
+        now,
+      });
+    }
+    if (!status) continue;
+
+    let update: TradeReconciliation = {
+      status,
+      signature,
+      slot: null,
+      feeLamports: null,
+      filledInAmount: null,
+      filledOutAmount: null,
+    };
+    if (status !== "expired") {
+      const meta = await rpc.getTransactionMeta(signature);
+      if (!meta) continue;
+      const market = parseMarket(row.market);
+      update = {
+        status,
+        signature,
+        slot: meta.slot,
+        feeLamports: meta.fee.toString(),
+        ...(market
+          ? tradeFill(meta, input.wallet, market[0], market[1])
+          : { filledInAmount: null, filledOutAmount: null }),
+      };
+    }
+    await updateTradeReconciliation(env, row.id, update);
+    outcomes.push({
+      id: row.id,
+      signature,
+      from: row.status ?? "",
+      status,
+    });
+    if (wasPending) {
+      await settlePendingSwap({
+        ...input,
+        row: { ...row, signature },
+        update,
+      });
+    }
+  }
+  return outcomes;
+}
+
+// BotLoop entry point. Never throws: reconciliation must not block ticks.
+export async function reconcileBotTrades(
+  env: Env,
+  input: { tenantId: string; wallet: string },
+): Promise<ReconcileOutcome[]> {
+  try {
+    const config = await getLoopConfig(env, input.tenantId);
+    const outcomes = await reconcileTrades({
+      env,
+      rpc: SolanaRpc.fromEnv(env),
+      jupiter: new JupiterClient(
+        env.JUPITER_BASE_URL ?? "https://lite-api.jup.ag",
+        env.JUPITER_API_KEY,
+      ),
+      tenantId: input.tenantId,
+      wallet: input.wallet,
+      slippageBps: normalizePolicy(config.policy).slippageBps,
+    });
+    for (const outcome of outcomes) {
+      if (outcome.from === outcome.status) continue;
+      console.log(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: outcome.status === "expired" ? "warn" : "info",
+          message: "trade reconciled",
+          tenantId: input.tenantId,
+          ...outcome,
+        }),
+      );
+    }
+    return outcomes;
+  } catch (err) {
+    console.log(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        level: "warn",
+        message: "trade reconciliation failed",
+        tenantId: input.tenantId,
+        err: err instanceof Error ? err.message : String(err),
+      }),
+    );
+    return [];
+  }
+}
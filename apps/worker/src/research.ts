@@ -1,8 +1,12 @@
 import type { JupiterClient } from "./jupiter";
 import type { NormalizedPolicy } from "./policy";
-import { enforcePolicy } from "./policy";
+import { enforcePriceQuotePolicy } from "./policy";
 import type { SolanaRpc } from "./solana_rpc";
-import type { MarketSnapshot } from "./types";
+import type {
+  MarketSnapshot,
+  PortfolioHolding,
+  PortfolioSnapshot,
+} from "./types";
 
 const SOL_MINT = "So11111111111111111111111111111111111111112";
 const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
@@ -51,7 +55,7 @@ export async function gatherMarketSnapshot(
     slippageBps: Math.max(1, policy.slippageBps),
     swapMode: "ExactIn",
   });
-  enforcePolicy(policy, priceQuote);
+  await enforcePriceQuotePolicy(policy, priceQuote);
 
   const quotePerSolAtomic = BigInt(priceQuote.outAmount || "0");
   // SOL value in quote atomic
@@ -75,3 +79,72 @@ export async function gatherMarketSnapshot(
     baseAllocationPct: Math.round(baseAllocationPct * 100) / 100,
   };
 }
+
+export async function getMintBalanceAtomic(
+  rpc: SolanaRpc,
+  wallet: string,
+  mint: string,
+): Promise<bigint> {
+  if (mint === SOL_MINT) return await rpc.getBalanceLamports(wallet);
+  return await rpc.getTokenBalanceAtomic(wallet, mint);
+}
+
+// Multi-asset counterpart of gatherMarketSnapshot. Each holding is valued by
+// quoting the full balance into the quote mint (its liquidation value), so no
+// per-mint decimals are needed. Valuation quotes are not trades and skip
+// enforcePolicy; the trade quotes built from this view still go through it.
+export async function gatherPortfolioSnapshot(
+  rpc: SolanaRpc,
+  jupiter: JupiterClient,
+  wallet: string,
+  policy: NormalizedPolicy,
+  opts: { mints: string[]; quoteMint?: string; quoteDecimals?: number },
+): Promise<PortfolioSnapshot> {
+  const quoteMint = opts.quoteMint ?? USDC_MINT;
+  const quoteDecimals = clampDecimals(opts.quoteDecimals, 6);
+  const mints = [...new Set([...opts.mints, quoteMint])];
+
+  const balances = await Promise.all(
+    mints.map((mint) => getMintBalanceAtomic(rpc, wallet, mint)),
+  );
+
+  const values: bigint[] = [];
+  // Sequential on purpose: the lite Jupiter host rate-limits bursts.
+  for (const [i, mint] of mints.entries()) {
+    const balance = balances[i] ?? 0n;
+    if (mint === quoteMint || balance <= 0n) {
+      values.push(mint === quoteMint ? balance : 0n);
+      continue;
+    }
+    const quote = await jupiter.quote({
+      inputMint: mint,
+      outputMint: quoteMint,
+      amount: balance.toString(),
+      slippageBps: Math.max(1, policy.slippageBps),
+      swapMode: "ExactIn",
+    });
+    values.push(BigInt(quote.outAmount || "0"));
+  }
+
+  const totalQuoteAtomic = values.reduce((sum, v) => sum + v, 0n);
+  const holdings: PortfolioHolding[] = mints.map((mint, i) => {
+    const value = values[i] ?? 0n;
+    return {
+      mint,
+      balanceAtomic: (balances[i] ?? 0n).toString(),
+      valueQuoteAtomic: value.toString(),
+      allocationPct:
+        totalQuoteAtomic > 0n
+          ? Number((value * 10000n) / totalQuoteAtomic) / 100
+          : 0,
+    };
+  });
+
+  return {
+    ts: new Date().toISOString(),
+    quoteMint,
+    quoteDecimals,
+    totalValueQuote: formatAtomic(totalQuoteAtomic, quoteDecimals, 2),
+    holdings,
+  };
+}
@@ -12,7 +12,10 @@ export function withCors(response: Response, env: Env) {
   const allowed = env.ALLOWED_ORIGINS ?? "*";
   const headers = new Headers(response.headers);
   headers.set("access-control-allow-origin", allowed);
-  headers.set("access-control-allow-methods", "GET,POST,PATCH,OPTIONS");
+  headers.set(
+    "access-control-allow-methods",
+    "GET,POST,PUT,PATCH,DELETE,OPTIONS",
+  );
   headers.set("access-control-allow-headers", "content-type,authorization");
   headers.set("access-control-max-age", "86400");
   return new Response(response.body, {
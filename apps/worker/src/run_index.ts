@@ -0,0 +1,208 @@
+import type { Env } from "./types";
+
+export type RunStatus = "ok" | "error" | "skipped";
+
+export type RunSummary = {
+  status: RunStatus;
+  strategy: string | null;
+  outcome: string | null;
+};
+
+export type RunIndexRow = {
+  tenantId: string;
+  runId: string;
+  reason: string;
+  logKey: string;
+  startedAt: Date;
+  finishedAt: Date;
+  error: string | null;
+  // Raw JSONL lines as written to R2.
+  lines: string[];
+};
+
+export type RunIndexResult = {
+  id: number;
+  tenantId: string;
+  runId: string;
+  reason: string;
+  status: RunStatus;
+  strategy: string | null;
+  outcome: string | null;
+  error: string | null;
+  logKey: string;
+  logLines: number;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+};
+
+export type RunPage = {
+  runs: RunIndexResult[];
+  // Pass back as `before` to fetch the next (older) page.
+  nextCursor: number | null;
+};
+
+const MAX_OUTCOME_LENGTH = 200;
+// Index rows older than this are dropped as new runs are indexed. The R2
+// logs they point at have their own lifecycle.
+const RUN_RETENTION_DAYS = 30;
+
+function parseLine(line: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(line) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_OUTCOME_LENGTH
+    ? `${value.slice(0, MAX_OUTCOME_LENGTH - 1)}…`
+    : value;
+}
+
+// Derives the list-view fields from a tick's log lines. Ticks that return
+// before "tick start" (lock held, loop disabled, kill switch, no strategy) are
+// "skipped"; the outcome is the last non-debug message, or the agent's finish
+// reason for agent ticks.
+export function summarizeRun(
+  lines: string[],
+  error: string | null,
+): RunSummary {
+  const entries = lines
+    .map(parseLine)
+    .filter((entry): entry is Record<string, unknown> => entry !== null);
+  const start = entries.find((entry) => entry.message === "tick start");
+  const strategy =
+    typeof start?.strategy === "string" ? String(start.strategy) : null;
+
+  if (error) {
+    return { status: "error", strategy, outcome: truncate(error) };
+  }
+
+  const visible = entries.filter((entry) => entry.level !== "debug");
+  if (!start) {
+    const first = visible[0]?.message;
+    return {
+      status: "skipped",
+      strategy,
+      outcome: typeof first === "string" ? truncate(first) : null,
+    };
+  }
+
+  const agentEnd = entries.find((entry) => entry.message === "agent tick end");
+  if (agentEnd && typeof agentEnd.finishReason === "string") {
+    return {
+      status: "ok",
+      strategy,
+      outcome: `agent: ${agentEnd.finishReason}`,
+    };
+  }
+
+  const last = visible[visible.length - 1]?.message;
+  return {
+    status: "ok",
+    strategy,
+    outcome: typeof last === "string" ? truncate(last) : null,
+  };
+}
+
+export async function insertRunIndex(
+  env: Env,
+  row: RunIndexRow,
+): Promise<void> {
+  const summary = summarizeRun(row.lines, row.error);
+  await env.WAITLIST_DB.prepare(
+    "INSERT INTO run_index (tenant_id, run_id, reason, status, strategy, outcome, error, log_key, log_lines, started_at, finished_at, duration_ms) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)",
+  )
+    .bind(
+      row.tenantId,
+      row.runId,
+      row.reason,
+      summary.status,
+      summary.strategy,
+      summary.outcome,
+      row.error,
+      row.logKey,
+      row.lines.length,
+      row.startedAt.toISOString(),
+      row.finishedAt.toISOString(),
+      Math.max(0, row.finishedAt.getTime() - row.startedAt.getTime()),
+    )
+    .run();
+  const cutoff = new Date(
+    row.startedAt.getTime() - RUN_RETENTION_DAYS * 86_400_000,
+  );
+  await env.WAITLIST_DB.prepare(
+    "DELETE FROM run_index WHERE tenant_id = ?1 AND started_at < ?2",
+  )
+    .bind(row.tenantId, cutoff.toISOString())
+    .run();
+}
+
+function mapRunRow(row: Record<string, unknown>): RunIndexResult {
+  const status = String(row.status);
+  return {
+    id: Number(row.id),
+    tenantId: String(row.tenant_id),
+    runId: String(row.run_id),
+    reason: String(row.reason),
+    status: status === "error" || status === "skipped" ? status : "ok",
+    strategy: row.strategy ? String(row.strategy) : null,
+    outcome: row.outcome ? String(row.outcome) : null,
+    error: row.error ? String(row.error) : null,
+    logKey: String(row.log_key),
+    logLines: Number(row.log_lines ?? 0),
+    startedAt: String(row.started_at),
+    finishedAt: String(row.finished_at),
+    durationMs: Number(row.duration_ms ?? 0),
+  };
+}
+
+const RUN_COLUMNS =
+  "id, tenant_id, run_id, reason, status, strategy, outcome, error, log_key, log_lines, started_at, finished_at, duration_ms";
+
+// Newest first, keyset-paginated on the row id.
+export async function listRuns(
+  env: Env,
+  tenantId: string,
+  opts: { limit?: number; before?: number | null } = {},
+): Promise<RunPage> {
+  const limit = Math.max(1, Math.min(100, Math.floor(opts.limit ?? 20)));
+  const before =
+    opts.before && Number.isFinite(opts.before) && opts.before > 0
+      ? Math.floor(opts.before)
+      : null;
+  const statement = before
+    ? env.WAITLIST_DB.prepare(
+        `SELECT ${RUN_COLUMNS} FROM run_index WHERE tenant_id = ?1 AND id < ?2 ORDER BY id DESC LIMIT ?3`,
+      ).bind(tenantId, before, limit)
+    : env.WAITLIST_DB.prepare(
+        `SELECT ${RUN_COLUMNS} FROM run_index WHERE tenant_id = ?1 ORDER BY id DESC LIMIT ?2`,
+      ).bind(tenantId, limit);
+  const result = await statement.all();
+  const runs = (result.results ?? []).map((row) =>
+    mapRunRow(row as Record<string, unknown>),
+  );
+  const last = runs[runs.length - 1];
+  return {
+    runs,
+    nextCursor: runs.length === limit && last ? last.id : null,
+  };
+}
+
+export async function getRun(
+  env: Env,
+  tenantId: string,
+  runId: string,
+): Promise<RunIndexResult | null> {
+  const row = await env.WAITLIST_DB.prepare(
+    `SELECT ${RUN_COLUMNS} FROM run_index WHERE tenant_id = ?1 AND run_id = ?2`,
+  )
+    .bind(tenantId, runId)
+    .first();
+  return row ? mapRunRow(row as Record<string, unknown>) : null;
+}
@@ -0,0 +1,160 @@
+import {
+  base58Encode,
+  decryptLocalKeypair,
+  signWireTransaction,
+} from "./local_signer";
+import {
+  getPrivyWalletAddressById,
+  signTransactionWithPrivyById,
+} from "./privy";
+import type { Env } from "./types";
+
+export type SignerType = "privy" | "local" | "remote";
+
+export interface Signer {
+  readonly type: SignerType;
+  getAddress(): Promise<string>;
+  // Takes and returns a base64 wire transaction.
+  signTransaction(base64WireTransaction: string): Promise<string>;
+}
+
+// Signer columns from the bots row (or env for the legacy loop).
+export type SignerRef = {
+  signerType: string;
+  walletAddress?: string;
+  privyWalletId?: string;
+  signerSecret?: string | null;
+  // The bot and its owner, sent to the remote signer so it can check that
+  // the tenant is allowed to sign for the address.
+  botId?: string;
+  userId?: string;
+};
+
+export type RemoteSignerIdentity = { userId: string; botId: string };
+
+const REMOTE_SIGNER_TIMEOUT_MS = 10_000;
+
+export function isSignerType(value: unknown): value is SignerType {
+  return value === "privy" || value === "local" || value === "remote";
+}
+
+export function createSigner(env: Env, ref: SignerRef): Signer {
+  if (ref.signerType === "privy") {
+    const walletId = ref.privyWalletId?.trim();
+    if (!walletId) throw new Error("missing-privy-wallet-id");
+    return createPrivySigner(env, walletId);
+  }
+  if (ref.signerType === "local") {
+    if (!ref.signerSecret) throw new Error("missing-local-signer-keypair");
+    return createLocalSigner(env, ref.signerSecret);
+  }
+  if (ref.signerType === "remote") {
+    if (!ref.walletAddress) throw new Error("missing-remote-signer-address");
+    return createRemoteSigner(
+      env,
+      ref.walletAddress,
+      ref.userId && ref.botId
+        ? { userId: ref.userId, botId: ref.botId }
+        : undefined,
+    );
+  }
+  throw new Error("invalid-signer-type");
+}
+
+// Legacy single-tenant loop: signer comes from env instead of a bots row.
+export function createSignerFromEnv(env: Env): Signer {
+  return createSigner(env, {
+    signerType: env.SIGNER_TYPE ?? "privy",
+    privyWalletId: env.PRIVY_WALLET_ID,
+    signerSecret: env.LOCAL_SIGNER_KEYPAIR,
+    walletAddress: env.REMOTE_SIGNER_ADDRESS,
+  });
+}
+
+export function createPrivySigner(env: Env, walletId: string): Signer {
+  return {
+    type: "privy",
+    getAddress: () => getPrivyWalletAddressById(env, walletId),
+    signTransaction: (tx) => signTransactionWithPrivyById(env, walletId, tx),
+  };
+}
+
+export function createLocalSigner(env: Env, encryptedKeypair: string): Signer {
+  const load = async () => {
+    if (!env.LOCAL_SIGNER_SECRET) {
+      throw new Error("local-signer-not-configured");
+    }
+    return await decryptLocalKeypair(encryptedKeypair, env.LOCAL_SIGNER_SECRET);
+  };
+  return {
+    type: "local",
+    getAddress: async () => base58Encode((await load()).publicKey),
+    signTransaction: async (tx) => signWireTransaction(await load(), tx),
+  };
+}
+
+// POSTs { address, transaction, encoding, userId, botId } to
+// REMOTE_SIGNER_URL and expects { signedTransaction } back. The token only
+// proves the request came from this worker: the callback owns the key and
+// must check that userId owns address before signing. The legacy env loop
+// has no tenant and sends no identity.
+export function createRemoteSigner(
+  env: Env,
+  address: string,
+  identity?: RemoteSignerIdentity,
+): Signer {
+  return {
+    type: "remote",
+    getAddress: async () => address,
+    signTransaction: async (tx) => {
+      const url = env.REMOTE_SIGNER_URL;
+      if (!url) throw new Error("remote-signer-not-configured");
+      const headers: Record<string, string> = {
+        "content-type": "application/json",
+      };
+      if (env.REMOTE_SIGNER_TOKEN) {
+        headers.authorization = `Bearer ${env.REMOTE_SIGNER_TOKEN}`;
+      }
+      const controller = new AbortController();
+      const timer = setTimeout(
+        () => controller.abort(),
+        REMOTE_SIGNER_TIMEOUT_MS,
+      );
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            address,
+            transaction: tx,
+            encoding: "base64",
+            ...identity,
+          }),
+          signal: controller.signal,
+        });
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") {
+          throw new Error(
+            `remote-signer-timeout: ${REMOTE_SIGNER_TIMEOUT_MS}ms exceeded`,
+          );
+        }
+        throw err;
+      } finally {
+        clearTimeout(timer);
+      }
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new Error(`remote-signer-failed: ${response.status} ${text}`);
+      }
+      const payload = (await response.json().catch(() => null)) as {
+        signedTransaction?: unknown;
+      } | null;
+      const signed = payload?.signedTransaction;
+      if (typeof signed !== "string" || !signed) {
+        throw new Error("remote-signer-missing-signed-transaction");
+      }
+      return signed;
+    },
+  };
+}
@@ -21,6 +21,55 @@ function safeJsonString(value: unknown): string {
   }
 }
 
+export type TransactionTokenBalance = {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string };
+};
+
+export type SignatureStatus = {
+  slot?: number;
+  confirmationStatus?: string;
+  err?: unknown;
+};
+
+export type TransactionMeta = {
+  fee: bigint;
+  slot: number | null;
+  err: unknown;
+  accountKeys: string[];
+  preBalances: bigint[];
+  postBalances: bigint[];
+  preTokenBalances: TransactionTokenBalance[];
+  postTokenBalances: TransactionTokenBalance[];
+};
+
+export type ParsedMint = {
+  // "spl-token" or "spl-token-2022".
+  program: string;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  supply: string;
+  // Token-2022 extensions, e.g. "transferFeeConfig", "permanentDelegate".
+  extensions: Array<{ extension: string; state: Record<string, unknown> }>;
+};
+
+const COMMITMENT_RANK: Record<string, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2,
+};
+
+// True when a signature's confirmationStatus is at least `want`.
+export function meetsCommitment(
+  confirmationStatus: string | undefined,
+  want: "processed" | "confirmed" | "finalized",
+): boolean {
+  const rank = COMMITMENT_RANK[confirmationStatus ?? ""];
+  return rank !== undefined && rank >= COMMITMENT_RANK[want];
+}
+
 export class SolanaRpc {
   constructor(private readonly endpoint: string) {}
 
@@ -163,6 +212,147 @@ export class SolanaRpc {
     return result.value?.[0] || null;
   }
 
+  // One RPC call for up to 256 signatures; entries are null for signatures
+  // the node has never seen.
+  async getSignatureStatuses(
+    signatures: string[],
+  ): Promise<Array<SignatureStatus | null>> {
+    if (signatures.length === 0) return [];
+    const result = await this.request<{
+      value: Array<SignatureStatus | null>;
+    }>("getSignatureStatuses", [
+      signatures,
+      { searchTransactionHistory: true },
+    ]);
+    return signatures.map((_, i) => result.value?.[i] ?? null);
+  }
+
+  async getSlot(
+    commitment: "processed" | "confirmed" | "finalized" = "processed",
+  ): Promise<number> {
+    return await this.request<number>("getSlot", [{ commitment }]);
+  }
+
+  // Per-slot prioritization fees (micro-lamports per compute unit) paid by
+  // transactions that write-locked all of `accounts`, for recent slots.
+  async getRecentPrioritizationFees(
+    accounts: string[],
+  ): Promise<Array<{ slot: number; prioritizationFee: number }>> {
+    const result = await this.request<
+      Array<{ slot?: number; prioritizationFee?: number }>
+    >("getRecentPrioritizationFees", [accounts]);
+    return (result ?? [])
+      .filter((row) => typeof row.prioritizationFee === "number")
+      .map((row) => ({
+        slot: Number(row.slot ?? 0),
+        prioritizationFee: Number(row.prioritizationFee),
+      }));
+  }
+
+  async getMintDecimals(mint: string): Promise<number> {
+    const result = await this.request<{ value?: { decimals?: number } }>(
+      "getTokenSupply",
+      [mint],
+    );
+    const decimals = result.value?.decimals;
+    if (typeof decimals !== "number") throw new Error("rpc-missing-decimals");
+    return decimals;
+  }
+
+  // Null when the account does not exist or is not a token mint.
+  async getParsedMint(mint: string): Promise<ParsedMint | null> {
+    const result = await this.request<{
+      value?: {
+        data?: {
+          program?: string;
+          parsed?: {
+            type?: string;
+            info?: {
+              mintAuthority?: string | null;
+              freezeAuthority?: string | null;
+              supply?: string;
+              extensions?: Array<{
+                extension?: string;
+                state?: Record<string, unknown>;
+              }>;
+            };
+          };
+        };
+      } | null;
+    }>("getAccountInfo", [mint, { encoding: "jsonParsed" }]);
+    const data = result.value?.data;
+    const info = data?.parsed?.info;
+    if (!data?.program || data.parsed?.type !== "mint" || !info) return null;
+    return {
+      program: data.program,
+      mintAuthority: info.mintAuthority ?? null,
+      freezeAuthority: info.freezeAuthority ?? null,
+      supply: info.supply ?? "0",
+      extensions: (info.extensions ?? []).flatMap((ext) =>
+        typeof ext.extension === "string"
+          ? [{ extension: ext.extension, state: ext.state ?? {} }]
+          : [],
+      ),
+    };
+  }
+
+  // Largest token accounts of a mint (up to 20), by atomic amount.
+  async getTokenLargestAccounts(
+    mint: string,
+  ): Promise<Array<{ address: string; amount: string }>> {
+    const result = await this.request<{
+      value?: Array<{ address?: string; amount?: string }>;
+    }>("getTokenLargestAccounts", [mint]);
+    return (result.value ?? []).flatMap((account) =>
+      typeof account.address === "string" && typeof account.amount === "string"
+        ? [{ address: account.address, amount: account.amount }]
+        : [],
+    );
+  }
+
+  async getBlockHeight(
+    commitment: "processed" | "confirmed" | "finalized" = "confirmed",
+  ): Promise<number> {
+    return await this.request<number>("getBlockHeight", [{ commitment }]);
+  }
+
+  // Fee, slot and balance changes of a landed transaction; null when the
+  // RPC has not indexed it yet. Native balances are per account key; the
+  // fee payer is the first key.
+  async getTransactionMeta(signature: string): Promise<TransactionMeta | null> {
+    const result = await this.request<{
+      slot?: number;
+      transaction?: { message?: { accountKeys?: string[] } };
+      meta?: {
+        fee?: number;
+        err?: unknown;
+        preBalances?: number[];
+        postBalances?: number[];
+        preTokenBalances?: TransactionTokenBalance[];
+        postTokenBalances?: TransactionTokenBalance[];
+      } | null;
+    } | null>("getTransaction", [
+      signature,
+      {
+        encoding: "json",
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      },
+    ]);
+    const meta = result?.meta;
+    if (!meta || typeof meta.fee !== "number") return null;
+    return {
+      fee: BigInt(meta.fee),
+      slot: typeof result?.slot === "number" ? result.slot : null,
+      err: meta.err ?? null,
+      accountKeys: result?.transaction?.message?.accountKeys ?? [],
+      preBalances: (meta.preBalances ?? []).map((b) => BigInt(b)),
+      postBalances: (meta.postBalances ?? []).map((b) => BigInt(b)),
+      preTokenBalances: meta.preTokenBalances ?? [],
+      postTokenBalances: meta.postTokenBalances ?? [],
+    };
+  }
+
   async confirmSignature(
     signature: string,
     opts?: {
@@ -183,13 +373,7 @@ export class SolanaRpc {
         if (status.err) {
           return { ok: false, status: confirmationStatus, err: status.err };
         }
-        if (
-          confirmationStatus === want ||
-          (want === "confirmed" && confirmationStatus === "finalized") ||
-          (want === "processed" &&
-            (confirmationStatus === "confirmed" ||
-              confirmationStatus === "finalized"))
-        ) {
+        if (meetsCommitment(confirmationStatus, want)) {
           return { ok: true, status: confirmationStatus };
         }
       }
@@ -1,3 +1,4 @@
+import type { StrategyStateStore } from "./strategy_sdk";
 import type { Env, LoopState } from "./types";
 
 function stateKey(tenantId: string): string {
@@ -25,3 +26,27 @@ export async function updateLoopState(
   await env.CONFIG_KV.put(stateKey(tenantId), JSON.stringify(next));
   return next;
 }
+
+// Each strategy keeps its state under its own type, so `dca` and `triggers`
+// state written before the strategy registry existed still reads back.
+export function strategyStateStore<TState>(
+  env: Env,
+  tenantId: string,
+  key: string,
+  initialState: () => TState,
+): StrategyStateStore<TState> {
+  const read = (state: LoopState): TState => {
+    const value = (state as Record<string, unknown>)[key];
+    return value === undefined ? initialState() : (value as TState);
+  };
+  return {
+    get: async () => read(await getLoopState(env, tenantId)),
+    update: async (fn) => {
+      const next = await updateLoopState(env, tenantId, (current) => ({
+        ...current,
+        [key]: fn(read(current)),
+      }));
+      return read(next);
+    },
+  };
+}
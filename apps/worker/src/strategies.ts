@@ -0,0 +1,665 @@
+import { runAgentTick } from "./agent";
+import { isLlmProvider } from "./agent_llm";
+import { defaultAgentStrategy, SOL_MINT, USDC_MINT } from "./defaults";
+import {
+  MAX_TWAP_DURATION_MINUTES,
+  MAX_TWAP_SLICES,
+  MIN_TWAP_INTERVAL_SECONDS,
+} from "./execution";
+import { runDca, runPortfolio, runRebalance, runTriggers } from "./loop";
+import {
+  APPROVAL_MODES,
+  DEFAULT_APPROVAL_TTL_MINUTES,
+  isApprovalMode,
+  MAX_APPROVAL_TTL_MINUTES,
+} from "./proposals";
+import {
+  defineStrategy,
+  describeStrategy,
+  type JsonSchema,
+  type StrategyDefinition,
+  type StrategyDescriptor,
+} from "./strategy_sdk";
+import type { TriggerStates } from "./triggers";
+import type {
+  AgentState,
+  AgentStrategy,
+  DcaState,
+  DcaStrategy,
+  PortfolioStrategy,
+  RebalanceStrategy,
+  TriggersStrategy,
+} from "./types";
+
+// Built-in strategies and the registry the autopilot tick, config
+// validation and GET /api/strategies read from. A new strategy is one
+// `defineStrategy` entry plus a `registerStrategy` call.
+
+const MINT: JsonSchema = { type: "string", title: "Mint address" };
+const ATOMIC_AMOUNT: JsonSchema = {
+  type: "string",
+  pattern: "^[0-9]+$",
+  description: "Atomic units of the input mint.",
+};
+const FRACTION: JsonSchema = { type: "number", minimum: 0, maximum: 1 };
+
+const EXECUTION_SCHEMA: JsonSchema = {
+  type: "object",
+  title: "Execution",
+  description: "Split the order into TWAP child swaps across bot alarms.",
+  required: ["mode"],
+  properties: {
+    mode: { type: "string", enum: ["immediate", "twap"], default: "immediate" },
+    slices: { type: "integer", minimum: 1, maximum: MAX_TWAP_SLICES },
+    intervalSeconds: {
+      type: "integer",
+      minimum: MIN_TWAP_INTERVAL_SECONDS,
+      maximum: 86_400,
+    },
+    maxDurationMinutes: {
+      type: "integer",
+      minimum: 1,
+      maximum: MAX_TWAP_DURATION_MINUTES,
+    },
+    maxSlicePriceImpactPct: FRACTION,
+    cancelOnAdverseMovePct: FRACTION,
+  },
+};
+
+function validateExecution(raw: unknown, strategy: "dca" | "rebalance"): void {
+  const prefix = `invalid-${strategy}-execution`;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(prefix);
+  }
+  const e = raw as Record<string, unknown>;
+  if (e.mode !== "immediate" && e.mode !== "twap") {
+    throw new Error(`${prefix}-mode`);
+  }
+  const integer = (key: string, min: number, max: number) => {
+    if (e[key] === undefined) return;
+    const n = Number(e[key]);
+    if (
+      typeof e[key] !== "number" ||
+      !Number.isInteger(n) ||
+      n < min ||
+      n > max
+    ) {
+      throw new Error(`${prefix}-${key}`);
+    }
+  };
+  integer("slices", 1, MAX_TWAP_SLICES);
+  integer("intervalSeconds", MIN_TWAP_INTERVAL_SECONDS, 86_400);
+  integer("maxDurationMinutes", 1, MAX_TWAP_DURATION_MINUTES);
+  for (const key of ["maxSlicePriceImpactPct", "cancelOnAdverseMovePct"]) {
+    if (e[key] === undefined) continue;
+    const n = e[key];
+    if (typeof n !== "number" || !Number.isFinite(n) || n <= 0 || n > 1) {
+      throw new Error(`${prefix}-${key}`);
+    }
+  }
+}
+
+function validateDcaStrategy(s: Record<string, unknown>): void {
+  if (!s.inputMint || typeof s.inputMint !== "string") {
+    throw new Error("invalid-dca-inputMint");
+  }
+  if (!s.outputMint || typeof s.outputMint !== "string") {
+    throw new Error("invalid-dca-outputMint");
+  }
+  if (
+    !s.amount ||
+    typeof s.amount !== "string" ||
+    !/^[0-9]+$/.test(s.amount) ||
+    s.amount === "0"
+  ) {
+    throw new Error("invalid-dca-amount");
+  }
+  if (s.execution !== undefined) validateExecution(s.execution, "dca");
+}
+
+function validateRebalanceStrategy(s: Record<string, unknown>): void {
+  if (!s.baseMint || typeof s.baseMint !== "string") {
+    throw new Error("invalid-rebalance-baseMint");
+  }
+  if (!s.quoteMint || typeof s.quoteMint !== "string") {
+    throw new Error("invalid-rebalance-quoteMint");
+  }
+  const pct = Number(s.targetBasePct);
+  if (!Number.isFinite(pct) || pct < 0 || pct > 1) {
+    throw new Error("invalid-rebalance-targetBasePct");
+  }
+  if (s.execution !== undefined) validateExecution(s.execution, "rebalance");
+}
+
+function validatePortfolioStrategy(s: Record<string, unknown>): void {
+  if (!s.quoteMint || typeof s.quoteMint !== "string") {
+    throw new Error("invalid-portfolio-quoteMint");
+  }
+  if (s.quoteDecimals !== undefined) {
+    const n = Number(s.quoteDecimals);
+    if (!Number.isInteger(n) || n < 0 || n > 18) {
+      throw new Error("invalid-portfolio-quoteDecimals");
+    }
+  }
+  if (!s.targets || typeof s.targets !== "object" || Array.isArray(s.targets)) {
+    throw new Error("invalid-portfolio-targets");
+  }
+  const entries = Object.entries(s.targets as Record<string, unknown>);
+  if (entries.length < 2 || entries.length > 20) {
+    throw new Error("invalid-portfolio-targets");
+  }
+  let sum = 0;
+  for (const [mint, weight] of entries) {
+    const w = Number(weight);
+    if (!mint.trim() || !Number.isFinite(w) || w < 0 || w > 1) {
+      throw new Error("invalid-portfolio-targets");
+    }
+    sum += w;
+  }
+  if (Math.abs(sum - 1) > 0.001) {
+    throw new Error("invalid-portfolio-targets-sum");
+  }
+  if (s.driftPct !== undefined) {
+    const n = Number(s.driftPct);
+    if (!Number.isFinite(n) || n < 0 || n > 1) {
+      throw new Error("invalid-portfolio-driftPct");
+    }
+  }
+}
+
+const TRIGGER_KINDS = new Set([
+  "limit_buy",
+  "take_profit",
+  "stop_loss",
+  "trailing_stop",
+]);
+
+function validateTriggersStrategy(s: Record<string, unknown>): void {
+  if (!s.baseMint || typeof s.baseMint !== "string") {
+    throw new Error("invalid-triggers-baseMint");
+  }
+  if (!s.quoteMint || typeof s.quoteMint !== "string") {
+    throw new Error("invalid-triggers-quoteMint");
+  }
+  for (const key of ["baseDecimals", "quoteDecimals"] as const) {
+    if (s[key] !== undefined) {
+      const n = Number(s[key]);
+      if (!Number.isInteger(n) || n < 0 || n > 18) {
+        throw new Error(`invalid-triggers-${key}`);
+      }
+    }
+  }
+  if (
+    !Array.isArray(s.triggers) ||
+    s.triggers.length === 0 ||
+    s.triggers.length > 20
+  ) {
+    throw new Error("invalid-triggers-list");
+  }
+  const ids = new Set<string>();
+  for (const item of s.triggers as unknown[]) {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error("invalid-triggers-list");
+    }
+    const t = item as Record<string, unknown>;
+    if (typeof t.id !== "string" || !t.id.trim() || ids.has(t.id)) {
+      throw new Error("invalid-trigger-id");
+    }
+    ids.add(t.id);
+    if (typeof t.kind !== "string" || !TRIGGER_KINDS.has(t.kind)) {
+      throw new Error("invalid-trigger-kind");
+    }
+    if (t.kind === "trailing_stop") {
+      const pct = Number(t.trailingPct);
+      if (!Number.isFinite(pct) || pct <= 0 || pct >= 1) {
+        throw new Error("invalid-trigger-trailingPct");
+      }
+    } else if (
+      typeof t.price !== "string" ||
+      !/^\d+(\.\d+)?$/.test(t.price) ||
+      Number(t.price) <= 0
+    ) {
+      throw new Error("invalid-trigger-price");
+    }
+    const hasAmount = t.amount !== undefined;
+    if (
+      hasAmount &&
+      (typeof t.amount !== "string" ||
+        !/^[0-9]+$/.test(t.amount) ||
+        t.amount === "0")
+    ) {
+      throw new Error("invalid-trigger-amount");
+    }
+    if (t.kind === "limit_buy") {
+      if (!hasAmount) throw new Error("invalid-trigger-amount");
+      if (t.sellPct !== undefined) throw new Error("invalid-trigger-sellPct");
+    } else {
+      const hasPct = t.sellPct !== undefined;
+      if (hasAmount === hasPct) throw new Error("invalid-trigger-amount");
+      if (hasPct) {
+        const pct = Number(t.sellPct);
+        if (!Number.isFinite(pct) || pct <= 0 || pct > 1) {
+          throw new Error("invalid-trigger-sellPct");
+        }
+      }
+    }
+    if (
+      t.ocoGroup !== undefined &&
+      (typeof t.ocoGroup !== "string" || !t.ocoGroup.trim())
+    ) {
+      throw new Error("invalid-trigger-ocoGroup");
+    }
+  }
+}
+
+function validateAgentStrategy(s: Record<string, unknown>): void {
+  if (s.provider !== undefined && !isLlmProvider(s.provider)) {
+    throw new Error("invalid-agent-provider");
+  }
+  if (s.model !== undefined) {
+    if (typeof s.model !== "string" || !s.model.trim()) {
+      throw new Error("invalid-agent-model");
+    }
+  }
+  if (s.baseUrl !== undefined) {
+    if (typeof s.baseUrl !== "string" || !/^https?:\/\//.test(s.baseUrl)) {
+      throw new Error("invalid-agent-baseUrl");
+    }
+  }
+  if (s.minConfidence !== undefined) {
+    const c = String(s.minConfidence);
+    if (c !== "low" && c !== "medium" && c !== "high") {
+      throw new Error("invalid-agent-minConfidence");
+    }
+  }
+  if (s.maxTradesPerDay !== undefined) {
+    const n = Number(s.maxTradesPerDay);
+    if (!Number.isFinite(n) || n < 0 || n > 100) {
+      throw new Error("invalid-agent-maxTradesPerDay");
+    }
+  }
+  if (s.dailyTokenBudget !== undefined) {
+    const n = Number(s.dailyTokenBudget);
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error("invalid-agent-dailyTokenBudget");
+    }
+  }
+  if (s.maxStepsPerTick !== undefined) {
+    const n = Number(s.maxStepsPerTick);
+    if (!Number.isFinite(n) || n < 1 || n > 12) {
+      throw new Error("invalid-agent-maxStepsPerTick");
+    }
+  }
+  if (s.maxToolCallsPerStep !== undefined) {
+    const n = Number(s.maxToolCallsPerStep);
+    if (!Number.isFinite(n) || n < 1 || n > 10) {
+      throw new Error("invalid-agent-maxToolCallsPerStep");
+    }
+  }
+  if (s.allowedActions !== undefined) {
+    if (!Array.isArray(s.allowedActions)) {
+      throw new Error("invalid-agent-allowedActions");
+    }
+    const valid = new Set([
+      "trade",
+      "update_thesis",
+      "log_observation",
+      "skip",
+    ]);
+    for (const item of s.allowedActions) {
+      if (typeof item !== "string" || !valid.has(item)) {
+        throw new Error("invalid-agent-allowedActions");
+      }
+    }
+  }
+  if (s.toolPolicy !== undefined) {
+    if (
+      !s.toolPolicy ||
+      typeof s.toolPolicy !== "object" ||
+      Array.isArray(s.toolPolicy)
+    ) {
+      throw new Error("invalid-agent-toolPolicy");
+    }
+    const p = s.toolPolicy as Record<string, unknown>;
+    for (const key of ["allow", "deny"] as const) {
+      if (p[key] !== undefined) {
+        if (!Array.isArray(p[key])) throw new Error("invalid-agent-toolPolicy");
+        for (const name of p[key] as unknown[]) {
+          if (typeof name !== "string" || !name.trim()) {
+            throw new Error("invalid-agent-toolPolicy");
+          }
+        }
+      }
+    }
+    if (p.allowAll !== undefined && typeof p.allowAll !== "boolean") {
+      throw new Error("invalid-agent-toolPolicy");
+    }
+  }
+  if (s.quoteMint !== undefined) {
+    if (typeof s.quoteMint !== "string" || !s.quoteMint.trim()) {
+      throw new Error("invalid-agent-quoteMint");
+    }
+  }
+  if (s.quoteDecimals !== undefined) {
+    const n = Number(s.quoteDecimals);
+    if (!Number.isFinite(n) || n < 0 || n > 18) {
+      throw new Error("invalid-agent-quoteDecimals");
+    }
+  }
+  if (s.portfolioMints !== undefined) {
+    if (
+      !Array.isArray(s.portfolioMints) ||
+      s.portfolioMints.length > 20 ||
+      s.portfolioMints.some((m) => typeof m !== "string" || !m.trim())
+    ) {
+      throw new Error("invalid-agent-portfolioMints");
+    }
+  }
+  if (s.approvalMode !== undefined && !isApprovalMode(s.approvalMode)) {
+    throw new Error("invalid-agent-approvalMode");
+  }
+  if (s.approvalAboveQuoteAtomic !== undefined) {
+    if (
+      typeof s.approvalAboveQuoteAtomic !== "string" ||
+      !/^[0-9]+$/.test(s.approvalAboveQuoteAtomic)
+    ) {
+      throw new Error("invalid-agent-approvalAboveQuoteAtomic");
+    }
+  }
+  if (
+    s.approvalMode === "above-amount" &&
+    s.approvalAboveQuoteAtomic === undefined
+  ) {
+    throw new Error("invalid-agent-approvalAboveQuoteAtomic");
+  }
+  if (s.approvalTtlMinutes !== undefined) {
+    const n = s.approvalTtlMinutes;
+    if (
+      typeof n !== "number" ||
+      !Number.isInteger(n) ||
+      n < 1 ||
+      n > MAX_APPROVAL_TTL_MINUTES
+    ) {
+      throw new Error("invalid-agent-approvalTtlMinutes");
+    }
+  }
+}
+
+const noopStrategy = defineStrategy<{ type: "noop" }, null>({
+  type: "noop",
+  label: "None",
+  description: "No strategy; the bot ticks without trading.",
+  configSchema: {
+    type: "object",
+    required: ["type"],
+    properties: { type: { const: "noop" } },
+  },
+  defaultConfig: () => ({ type: "noop" }),
+  validate: () => {},
+  initialState: () => null,
+  tick: async () => {},
+});
+
+const dcaStrategy = defineStrategy<DcaStrategy, DcaState>({
+  type: "dca",
+  label: "Dollar-cost averaging",
+  description: "Swap a fixed amount of one mint into another on a schedule.",
+  configSchema: {
+    type: "object",
+    required: ["type", "inputMint", "outputMint", "amount"],
+    properties: {
+      type: { const: "dca" },
+      inputMint: MINT,
+      outputMint: MINT,
+      amount: ATOMIC_AMOUNT,
+      everyMinutes: { type: "integer", minimum: 1, default: 60 },
+      execution: EXECUTION_SCHEMA,
+    },
+  },
+  defaultConfig: () => ({
+    type: "dca",
+    inputMint: USDC_MINT,
+    outputMint: SOL_MINT,
+    amount: "10000000",
+    everyMinutes: 60,
+  }),
+  validate: validateDcaStrategy,
+  initialState: () => ({}),
+  tick: runDca,
+});
+
+const rebalanceStrategy = defineStrategy<RebalanceStrategy, null>({
+  type: "rebalance",
+  label: "Two-asset rebalance",
+  description:
+    "Hold a target share of the base mint, trading back when it drifts past the threshold.",
+  configSchema: {
+    type: "object",
+    required: ["type", "baseMint", "quoteMint", "targetBasePct"],
+    properties: {
+      type: { const: "rebalance" },
+      baseMint: MINT,
+      quoteMint: MINT,
+      targetBasePct: FRACTION,
+      thresholdPct: { ...FRACTION, default: 0.01 },
+      maxSellBaseAmount: ATOMIC_AMOUNT,
+      maxBuyQuoteAmount: ATOMIC_AMOUNT,
+      execution: EXECUTION_SCHEMA,
+    },
+  },
+  defaultConfig: () => ({
+    type: "rebalance",
+    baseMint: SOL_MINT,
+    quoteMint: USDC_MINT,
+    targetBasePct: 0.5,
+    thresholdPct: 0.01,
+  }),
+  validate: validateRebalanceStrategy,
+  initialState: () => null,
+  tick: runRebalance,
+});
+
+const triggersStrategy = defineStrategy<TriggersStrategy, TriggerStates>({
+  type: "triggers",
+  label: "Price triggers",
+  description:
+    "Limit buys, take-profits, stop-losses and trailing stops on one pair.",
+  configSchema: {
+    type: "object",
+    required: ["type", "baseMint", "quoteMint", "triggers"],
+    properties: {
+      type: { const: "triggers" },
+      baseMint: MINT,
+      quoteMint: MINT,
+      baseDecimals: { type: "integer", minimum: 0, maximum: 18, default: 9 },
+      quoteDecimals: { type: "integer", minimum: 0, maximum: 18, default: 6 },
+      triggers: {
+        type: "array",
+        minItems: 1,
+        maxItems: 20,
+        items: {
+          type: "object",
+          required: ["id", "kind"],
+          properties: {
+            id: { type: "string" },
+            kind: { type: "string", enum: [...TRIGGER_KINDS] },
+            price: {
+              type: "string",
+              pattern: "^\\d+(\\.\\d+)?$",
+              description: "Quote per base in UI units.",
+            },
+            trailingPct: FRACTION,
+            amount: ATOMIC_AMOUNT,
+            sellPct: FRACTION,
+            ocoGroup: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  defaultConfig: () => ({
+    type: "triggers",
+    baseMint: SOL_MINT,
+    quoteMint: USDC_MINT,
+    triggers: [
+      {
+        id: "stop",
+        kind: "stop_loss",
+        price: "100",
+        sellPct: 1,
+        ocoGroup: "exit",
+      },
+    ],
+  }),
+  validate: validateTriggersStrategy,
+  initialState: () => ({}),
+  tick: runTriggers,
+});
+
+const portfolioStrategy = defineStrategy<PortfolioStrategy, null>({
+  type: "portfolio",
+  label: "Multi-asset portfolio",
+  description:
+    "Rebalance several mints to target weights, routing every swap through the quote mint.",
+  configSchema: {
+    type: "object",
+    required: ["type", "quoteMint", "targets"],
+    properties: {
+      type: { const: "portfolio" },
+      quoteMint: MINT,
+      quoteDecimals: { type: "integer", minimum: 0, maximum: 18, default: 6 },
+      targets: {
+        type: "object",
+        description: "Mint -> target weight; weights sum to 1.",
+        additionalProperties: FRACTION,
+      },
+      driftPct: { ...FRACTION, default: 0.02 },
+    },
+  },
+  defaultConfig: () => ({
+    type: "portfolio",
+    quoteMint: USDC_MINT,
+    targets: { [SOL_MINT]: 0.5, [USDC_MINT]: 0.5 },
+    driftPct: 0.02,
+  }),
+  validate: validatePortfolioStrategy,
+  initialState: () => null,
+  tick: runPortfolio,
+});
+
+const agentStrategy = defineStrategy<AgentStrategy, AgentState>({
+  type: "agent",
+  label: "LLM agent",
+  description:
+    "An LLM researches with read-only tools and trades within its mandate and the policy.",
+  configSchema: {
+    type: "object",
+    required: ["type"],
+    properties: {
+      type: { const: "agent" },
+      provider: {
+        type: "string",
+        enum: ["openai_chat", "openai_responses", "anthropic_messages"],
+      },
+      model: { type: "string" },
+      baseUrl: { type: "string", pattern: "^https?://" },
+      mandate: { type: "string" },
+      minConfidence: {
+        type: "string",
+        enum: ["low", "medium", "high"],
+        default: "medium",
+      },
+      maxTradesPerDay: { type: "number", minimum: 0, maximum: 100 },
+      dailyTokenBudget: { type: "integer", minimum: 1 },
+      allowedActions: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["trade", "update_thesis", "log_observation", "skip"],
+        },
+      },
+      maxStepsPerTick: { type: "number", minimum: 1, maximum: 12 },
+      maxToolCallsPerStep: { type: "number", minimum: 1, maximum: 10 },
+      toolPolicy: {
+        type: "object",
+        properties: {
+          allow: { type: "array", items: { type: "string" } },
+          deny: { type: "array", items: { type: "string" } },
+          allowAll: { type: "boolean" },
+        },
+      },
+      quoteMint: MINT,
+      quoteDecimals: { type: "number", minimum: 0, maximum: 18 },
+      portfolioMints: { type: "array", maxItems: 20, items: MINT },
+      approvalMode: {
+        type: "string",
+        enum: APPROVAL_MODES,
+        default: "auto",
+        description: "Hold trades as proposals until a user approves them.",
+      },
+      approvalAboveQuoteAtomic: {
+        ...ATOMIC_AMOUNT,
+        description: "above-amount: USDC atomic value that needs approval.",
+      },
+      approvalTtlMinutes: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_APPROVAL_TTL_MINUTES,
+        default: DEFAULT_APPROVAL_TTL_MINUTES,
+      },
+    },
+  },
+  defaultConfig: defaultAgentStrategy,
+  validate: validateAgentStrategy,
+  initialState: () => ({}),
+  tick: (context) => runAgentTick(context),
+});
+
+type RegisteredStrategy = StrategyDefinition<{ type: string }, unknown>;
+
+// `risk` and `parentOrder` share the loop state with strategy state slices.
+const RESERVED_TYPES = new Set(["risk", "parentOrder"]);
+
+const registry = new Map<string, RegisteredStrategy>();
+
+export function registerStrategy<TConfig extends { type: string }, TState>(
+  definition: StrategyDefinition<TConfig, TState>,
+): void {
+  if (!/^[a-z][a-z0-9_]*$/.test(definition.type)) {
+    throw new Error("invalid-strategy-type");
+  }
+  if (RESERVED_TYPES.has(definition.type)) {
+    throw new Error("strategy-type-reserved");
+  }
+  if (registry.has(definition.type)) {
+    throw new Error("strategy-already-registered");
+  }
+  registry.set(definition.type, definition as RegisteredStrategy);
+}
+
+registerStrategy(noopStrategy);
+registerStrategy(dcaStrategy);
+registerStrategy(rebalanceStrategy);
+registerStrategy(triggersStrategy);
+registerStrategy(portfolioStrategy);
+registerStrategy(agentStrategy);
+
+export function getStrategyDefinition(
+  type: string,
+): RegisteredStrategy | undefined {
+  return registry.get(type);
+}
+
+// The definition for a stored strategy config, or null when it has no
+// registered type.
+export function strategyDefinitionFor(
+  strategy: unknown,
+): RegisteredStrategy | null {
+  if (!strategy || typeof strategy !== "object") return null;
+  const type = (strategy as { type?: unknown }).type;
+  return typeof type === "string" ? (registry.get(type) ?? null) : null;
+}
+
+export function listStrategies(): StrategyDescriptor[] {
+  return [...registry.values()].map(describeStrategy);
+}
@@ -0,0 +1,300 @@
+import type {
+  DcaStrategy,
+  PortfolioStrategy,
+  RebalanceStrategy,
+} from "./types";
+
+// Pure decision helpers shared by the live loop and the backtester. They only
+// look at balances/prices; quoting, policy and execution stay with the caller.
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+export function dcaIntervalMinutes(strategy: DcaStrategy): number {
+  return Math.max(1, Math.floor(strategy.everyMinutes ?? 60));
+}
+
+export function isDcaDue(
+  strategy: DcaStrategy,
+  lastAt: string | undefined,
+  nowMs: number,
+): boolean {
+  const lastAtMs = lastAt ? Date.parse(lastAt) : NaN;
+  if (!Number.isFinite(lastAtMs)) return true;
+  return nowMs - lastAtMs >= dcaIntervalMinutes(strategy) * 60_000;
+}
+
+export type DcaFundsCheck =
+  | { ok: true }
+  | { ok: false; reason: "insufficient-sol" | "insufficient-sol-reserve" };
+
+export function checkDcaFunds(input: {
+  strategy: DcaStrategy;
+  solBalanceLamports: bigint;
+  reserveLamports: bigint;
+}): DcaFundsCheck {
+  const { strategy, solBalanceLamports, reserveLamports } = input;
+  if (strategy.inputMint === SOL_MINT) {
+    if (solBalanceLamports < BigInt(strategy.amount) + reserveLamports) {
+      return { ok: false, reason: "insufficient-sol" };
+    }
+  } else if (solBalanceLamports < reserveLamports) {
+    return { ok: false, reason: "insufficient-sol-reserve" };
+  }
+  return { ok: true };
+}
+
+export type RebalanceAction =
+  | {
+      type: "none";
+      reason:
+        | "empty-portfolio"
+        | "within-threshold"
+        | "zero-sell"
+        | "zero-buy"
+        | "insufficient-reserve";
+    }
+  // Sell base for quote; amount in base atomic units.
+  | { type: "sell"; amountAtomic: bigint }
+  // Buy base with quote; amount in quote atomic units.
+  | { type: "buy"; amountAtomic: bigint };
+
+export type RebalancePlan = {
+  targetBps: number;
+  thresholdBps: number;
+  currentBaseBps: number;
+  baseValueQuoteAtomic: bigint;
+  totalQuoteAtomic: bigint;
+  action: RebalanceAction;
+};
+
+export function planRebalance(input: {
+  strategy: RebalanceStrategy;
+  baseBalanceAtomic: bigint;
+  quoteBalanceAtomic: bigint;
+  // Quote atomic units received for exactly one whole base token.
+  quotePerBaseAtomic: bigint;
+  baseDecimals: bigint;
+  reserveLamports: bigint;
+}): RebalancePlan {
+  const {
+    strategy,
+    baseBalanceAtomic,
+    quoteBalanceAtomic,
+    quotePerBaseAtomic,
+    baseDecimals,
+    reserveLamports,
+  } = input;
+
+  const targetBps = Math.max(
+    0,
+    Math.min(10_000, Math.round(strategy.targetBasePct * 10_000)),
+  );
+  const thresholdBps = Math.max(
+    0,
+    Math.min(10_000, Math.round((strategy.thresholdPct ?? 0.01) * 10_000)),
+  );
+
+  const baseUnit = 10n ** baseDecimals;
+  const baseValueQuoteAtomic =
+    (baseBalanceAtomic * quotePerBaseAtomic) / baseUnit;
+  const totalQuoteAtomic = baseValueQuoteAtomic + quoteBalanceAtomic;
+
+  const plan = (currentBaseBps: number, action: RebalanceAction) => ({
+    targetBps,
+    thresholdBps,
+    currentBaseBps,
+    baseValueQuoteAtomic,
+    totalQuoteAtomic,
+    action,
+  });
+
+  if (totalQuoteAtomic <= 0n || quotePerBaseAtomic <= 0n) {
+    return plan(0, { type: "none", reason: "empty-portfolio" });
+  }
+
+  const currentBaseBps = Number(
+    (baseValueQuoteAtomic * 10_000n) / totalQuoteAtomic,
+  );
+  if (Math.abs(currentBaseBps - targetBps) <= thresholdBps) {
+    return plan(currentBaseBps, { type: "none", reason: "within-threshold" });
+  }
+
+  const desiredBaseValueQuoteAtomic =
+    (totalQuoteAtomic * BigInt(targetBps)) / 10_000n;
+
+  if (baseValueQuoteAtomic > desiredBaseValueQuoteAtomic) {
+    const excessQuoteAtomic =
+      baseValueQuoteAtomic - desiredBaseValueQuoteAtomic;
+    let sellAtomic = (excessQuoteAtomic * baseUnit) / quotePerBaseAtomic;
+    const maxSell = strategy.maxSellBaseAmount
+      ? BigInt(strategy.maxSellBaseAmount)
+      : sellAtomic;
+    if (sellAtomic > maxSell) sellAtomic = maxSell;
+
+    // The base asset is SOL, so keep the fee/rent reserve out of the sale.
+    if (sellAtomic + reserveLamports > baseBalanceAtomic) {
+      sellAtomic =
+        baseBalanceAtomic > reserveLamports
+          ? baseBalanceAtomic - reserveLamports
+          : 0n;
+    }
+    if (sellAtomic <= 0n) {
+      return plan(currentBaseBps, { type: "none", reason: "zero-sell" });
+    }
+    return plan(currentBaseBps, { type: "sell", amountAtomic: sellAtomic });
+  }
+
+  let spendQuoteAtomic = desiredBaseValueQuoteAtomic - baseValueQuoteAtomic;
+  const maxBuy = strategy.maxBuyQuoteAmount
+    ? BigInt(strategy.maxBuyQuoteAmount)
+    : spendQuoteAtomic;
+  if (spendQuoteAtomic > maxBuy) spendQuoteAtomic = maxBuy;
+  if (spendQuoteAtomic > quoteBalanceAtomic)
+    spendQuoteAtomic = quoteBalanceAtomic;
+
+  if (baseBalanceAtomic < reserveLamports) {
+    return plan(currentBaseBps, {
+      type: "none",
+      reason: "insufficient-reserve",
+    });
+  }
+  if (spendQuoteAtomic <= 0n) {
+    return plan(currentBaseBps, { type: "none", reason: "zero-buy" });
+  }
+  return plan(currentBaseBps, { type: "buy", amountAtomic: spendQuoteAtomic });
+}
+
+export type PortfolioSell = {
+  mint: string;
+  // Atomic units of the holding being sold.
+  amountAtomic: bigint;
+  valueQuoteAtomic: bigint;
+};
+
+export type PortfolioBuy = {
+  mint: string;
+  spendQuoteAtomic: bigint;
+};
+
+export type PortfolioPlan = {
+  totalQuoteAtomic: bigint;
+  driftBps: number;
+  assets: Array<{ mint: string; currentBps: number; targetBps: number }>;
+  // Execute sells first so buys are funded by their proceeds.
+  sells: PortfolioSell[];
+  buys: PortfolioBuy[];
+};
+
+export function portfolioDriftBps(strategy: PortfolioStrategy): number {
+  return Math.max(
+    0,
+    Math.min(10_000, Math.round((strategy.driftPct ?? 0.02) * 10_000)),
+  );
+}
+
+function descending(a: bigint, b: bigint): number {
+  if (a === b) return 0;
+  return a > b ? -1 : 1;
+}
+
+export function planPortfolio(input: {
+  strategy: PortfolioStrategy;
+  holdings: Array<{
+    mint: string;
+    balanceAtomic: bigint;
+    // Quote atomic units received for selling the whole balance.
+    valueQuoteAtomic: bigint;
+  }>;
+  reserveLamports: bigint;
+  // Per-trade input cap (0n = unlimited, same as policy "0").
+  maxTradeAmountAtomic: bigint;
+}): PortfolioPlan {
+  const { strategy, reserveLamports, maxTradeAmountAtomic } = input;
+  const driftBps = portfolioDriftBps(strategy);
+  const byMint = new Map(input.holdings.map((h) => [h.mint, h]));
+  const mints = [
+    ...new Set([...Object.keys(strategy.targets), ...byMint.keys()]),
+  ];
+  const totalQuoteAtomic = input.holdings.reduce(
+    (sum, h) => sum + h.valueQuoteAtomic,
+    0n,
+  );
+
+  const plan: PortfolioPlan = {
+    totalQuoteAtomic,
+    driftBps,
+    assets: [],
+    sells: [],
+    buys: [],
+  };
+  if (totalQuoteAtomic <= 0n) return plan;
+
+  const cap = (amount: bigint) =>
+    maxTradeAmountAtomic > 0n && amount > maxTradeAmountAtomic
+      ? maxTradeAmountAtomic
+      : amount;
+
+  for (const mint of mints) {
+    const holding = byMint.get(mint);
+    const balance = holding?.balanceAtomic ?? 0n;
+    const value = holding?.valueQuoteAtomic ?? 0n;
+    const targetBps = Math.max(
+      0,
+      Math.min(10_000, Math.round((strategy.targets[mint] ?? 0) * 10_000)),
+    );
+    const currentBps = Number((value * 10_000n) / totalQuoteAtomic);
+    plan.assets.push({ mint, currentBps, targetBps });
+
+    // The quote mint is the hub every leg routes through; it absorbs the rest.
+    if (mint === strategy.quoteMint) continue;
+    if (Math.abs(currentBps - targetBps) <= driftBps) continue;
+
+    const targetValue = (totalQuoteAtomic * BigInt(targetBps)) / 10_000n;
+    if (value > targetValue) {
+      if (balance <= 0n) continue;
+      let sell = (balance * (value - targetValue)) / value;
+      if (mint === SOL_MINT && sell + reserveLamports > balance) {
+        sell = balance > reserveLamports ? balance - reserveLamports : 0n;
+      }
+      sell = cap(sell);
+      if (sell <= 0n) continue;
+      plan.sells.push({
+        mint,
+        amountAtomic: sell,
+        valueQuoteAtomic: (value * sell) / balance,
+      });
+    } else {
+      const spend = cap(targetValue - value);
+      if (spend > 0n) plan.buys.push({ mint, spendQuoteAtomic: spend });
+    }
+  }
+
+  // Buys can only spend quote we hold plus what the sells are expected to
+  // return; scale them down pro rata when that is not enough.
+  let fundable = byMint.get(strategy.quoteMint)?.balanceAtomic ?? 0n;
+  if (strategy.quoteMint === SOL_MINT) {
+    fundable = fundable > reserveLamports ? fundable - reserveLamports : 0n;
+  }
+  for (const sell of plan.sells) fundable += sell.valueQuoteAtomic;
+  plan.buys = scalePortfolioBuys(plan.buys, fundable);
+
+  plan.sells.sort((a, b) => descending(a.valueQuoteAtomic, b.valueQuoteAtomic));
+  plan.buys.sort((a, b) => descending(a.spendQuoteAtomic, b.spendQuoteAtomic));
+  return plan;
+}
+
+// Pro-rata shrink of buy legs so their total fits within `available`.
+export function scalePortfolioBuys(
+  buys: PortfolioBuy[],
+  available: bigint,
+): PortfolioBuy[] {
+  const wanted = buys.reduce((sum, leg) => sum + leg.spendQuoteAtomic, 0n);
+  if (wanted <= available) return buys;
+  if (available <= 0n) return [];
+  return buys
+    .map((leg) => ({
+      ...leg,
+      spendQuoteAtomic: (leg.spendQuoteAtomic * available) / wanted,
+    }))
+    .filter((leg) => leg.spendQuoteAtomic > 0n);
+}
@@ -0,0 +1,122 @@
+import type { JupiterClient, JupiterQuoteResponse } from "./jupiter";
+import type { NormalizedPolicy } from "./policy";
+import type { Signer } from "./signer";
+import type { SolanaRpc } from "./solana_rpc";
+import type { Env } from "./types";
+
+// Strategy plugin contract. A strategy is a definition registered in
+// strategies.ts; the autopilot tick looks it up by `strategy.type`, and
+// validation, the config API and the portal forms all read the same entry.
+
+export type StrategyLogFn = (
+  level: "debug" | "info" | "warn" | "error",
+  message: string,
+  meta?: Record<string, unknown>,
+) => void;
+
+// The subset of JSON Schema the portal renders config forms from.
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: Array<string | number | boolean>;
+  const?: string | number | boolean;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+};
+
+export type SwapRequest = {
+  // trade_index side, e.g. "buy", "sell", "swap".
+  side: string;
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  // Reuse a quote the strategy already fetched instead of quoting again.
+  quote?: JupiterQuoteResponse;
+  // Stored on the trade_index row.
+  reasoning?: string;
+};
+
+export type SwapFill = {
+  status: string;
+  signature?: string;
+  inAmount: string;
+  outAmount: string;
+};
+
+// The strategy's own slice of the loop state, persisted between ticks.
+export type StrategyStateStore<TState> = {
+  get(): Promise<TState>;
+  update(fn: (current: TState) => TState): Promise<TState>;
+};
+
+export type StrategyTickContext<TConfig, TState = unknown> = {
+  env: Env;
+  ctx: ExecutionContext;
+  tenantId: string;
+  // Tenant whose loop config is re-checked before execution.
+  configTenantId?: string;
+  runId: string;
+  logKey: string;
+  log: StrategyLogFn;
+  rpc: SolanaRpc;
+  jupiter: JupiterClient;
+  wallet: string;
+  policy: NormalizedPolicy;
+  strategy: TConfig;
+  signer?: Signer;
+  state: StrategyStateStore<TState>;
+  // Quote -> policy -> dry run | simulate | send -> trade_index -> ledger.
+  // Resolves null when the policy rejects the quote.
+  executeSwap(request: SwapRequest): Promise<SwapFill | null>;
+};
+
+export type StrategyDefinition<
+  TConfig extends { type: string } = { type: string },
+  TState = unknown,
+> = {
+  type: TConfig["type"];
+  label: string;
+  description: string;
+  configSchema: JsonSchema;
+  defaultConfig(): TConfig;
+  // Throws a kebab-case error code (e.g. "invalid-dca-amount").
+  validate(config: Record<string, unknown>): void;
+  initialState(): TState;
+  tick(context: StrategyTickContext<TConfig, TState>): Promise<void>;
+};
+
+// What the config API serves to the portal.
+export type StrategyDescriptor = {
+  type: string;
+  label: string;
+  description: string;
+  configSchema: JsonSchema;
+  defaultConfig: { type: string };
+};
+
+export function defineStrategy<TConfig extends { type: string }, TState>(
+  definition: StrategyDefinition<TConfig, TState>,
+): StrategyDefinition<TConfig, TState> {
+  return definition;
+}
+
+export function describeStrategy(
+  definition: StrategyDefinition<{ type: string }, unknown>,
+): StrategyDescriptor {
+  return {
+    type: definition.type,
+    label: definition.label,
+    description: definition.description,
+    configSchema: definition.configSchema,
+    defaultConfig: definition.defaultConfig(),
+  };
+}
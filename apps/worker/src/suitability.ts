@@ -0,0 +1,254 @@
+import { getBotOwnerProfile } from "./bots_db";
+import type { NormalizedPolicy } from "./policy";
+import {
+  BLUECHIP_MINTS,
+  isTokenTier,
+  type TokenTier,
+  tierSatisfies,
+} from "./token_safety";
+import type { Env, LoopPolicy } from "./types";
+
+// The financial profile the portal collects before bot creation, and the
+// policy ceilings it implies. Ceilings clamp the bot's policy on every tick
+// and config writes cannot exceed them.
+
+// Option labels are the portal's; keep both lists in sync.
+export const PROFILE_OPTIONS = {
+  annualIncome: [
+    "Less than $25,000",
+    "$25,000 – $50,000",
+    "$50,000 – $100,000",
+    "$100,000 – $250,000",
+    "More than $250,000",
+  ],
+  liquidNetWorth: [
+    "Less than $10,000",
+    "$10,000 – $50,000",
+    "$50,000 – $100,000",
+    "$100,000 – $500,000",
+    "More than $500,000",
+  ],
+  investmentExperience: [
+    "None",
+    "Beginner",
+    "Intermediate",
+    "Advanced",
+    "Professional",
+  ],
+  riskTolerance: [
+    "Conservative",
+    "Moderately conservative",
+    "Moderate",
+    "Aggressive",
+    "Very aggressive",
+  ],
+  investmentGoal: [
+    "Capital preservation",
+    "Income generation",
+    "Growth",
+    "Speculation",
+    "Learning / experimentation",
+  ],
+  cryptoExperience: ["None", "Beginner", "Intermediate", "Advanced"],
+  timeHorizon: [
+    "Less than 1 month",
+    "1 – 6 months",
+    "6 – 12 months",
+    "1 – 3 years",
+    "No specific timeline",
+  ],
+} as const;
+
+type ProfileOptions = typeof PROFILE_OPTIONS;
+
+export type FinancialProfile = {
+  [K in keyof ProfileOptions]: ProfileOptions[K][number];
+};
+
+const PROFILE_FIELDS = Object.keys(PROFILE_OPTIONS) as Array<
+  keyof ProfileOptions
+>;
+
+export type SuitabilityCeilings = {
+  // 0 (most cautious) to 4.
+  riskLevel: number;
+  maxTradeQuoteAtomic: string;
+  maxPriceImpactPct: number;
+  maxTradesPerDay: number;
+  // Broadest token tier the profile may trade.
+  allowedTier: TokenTier;
+};
+
+export function validateFinancialProfile(value: unknown): FinancialProfile {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("invalid-profile");
+  }
+  const raw = value as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    if (!PROFILE_FIELDS.includes(key as keyof ProfileOptions)) {
+      throw new Error(`invalid-profile-${key}`);
+    }
+  }
+  for (const key of PROFILE_FIELDS) {
+    if (!(PROFILE_OPTIONS[key] as readonly unknown[]).includes(raw[key])) {
+      throw new Error(`invalid-profile-${key}`);
+    }
+  }
+  return raw as FinancialProfile;
+}
+
+// Stored profiles predate validation; anything that doesn't parse counts as
+// no profile.
+export function parseFinancialProfile(value: unknown): FinancialProfile | null {
+  try {
+    return validateFinancialProfile(value);
+  } catch {
+    return null;
+  }
+}
+
+// Per-trade cap in USD at the highest risk level, by liquid net worth band.
+const CAPITAL_AT_RISK_USD = [100, 500, 1_000, 5_000, 10_000];
+const MAX_PRICE_IMPACT_PCT = [0.005, 0.01, 0.02, 0.03, 0.05];
+const MAX_TRADES_PER_DAY = [2, 4, 8, 16, 32];
+const ALLOWED_TIER: TokenTier[] = [
+  "bluechip",
+  "bluechip",
+  "verified",
+  "verified",
+  "any-screened",
+];
+
+// Risk tolerance sets the level; a short horizon, little crypto experience
+// or a capital preservation goal cap it.
+export function deriveSuitabilityCeilings(
+  profile: FinancialProfile,
+): SuitabilityCeilings {
+  const horizonCap = [1, 2, 4, 4, 4][
+    PROFILE_OPTIONS.timeHorizon.indexOf(profile.timeHorizon)
+  ];
+  const experienceCap = [1, 2, 3, 4][
+    PROFILE_OPTIONS.cryptoExperience.indexOf(profile.cryptoExperience)
+  ];
+  const goalCap = profile.investmentGoal === "Capital preservation" ? 1 : 4;
+  const riskLevel = Math.min(
+    PROFILE_OPTIONS.riskTolerance.indexOf(profile.riskTolerance),
+    horizonCap,
+    experienceCap,
+    goalCap,
+  );
+  const capitalUsd =
+    CAPITAL_AT_RISK_USD[
+      PROFILE_OPTIONS.liquidNetWorth.indexOf(profile.liquidNetWorth)
+    ];
+  const maxTradeUsd = (capitalUsd * (riskLevel + 1)) / 5;
+  return {
+    riskLevel,
+    maxTradeQuoteAtomic: String(Math.round(maxTradeUsd * 1_000_000)),
+    maxPriceImpactPct: MAX_PRICE_IMPACT_PCT[riskLevel],
+    maxTradesPerDay: MAX_TRADES_PER_DAY[riskLevel],
+    allowedTier: ALLOWED_TIER[riskLevel],
+  };
+}
+
+// Null when the bot's owner has no valid profile (or the bot is the legacy
+// single tenant); such bots run without ceilings.
+export async function getBotSuitability(
+  env: Env,
+  botId: string,
+): Promise<{
+  profile: FinancialProfile;
+  ceilings: SuitabilityCeilings;
+} | null> {
+  const profile = parseFinancialProfile(await getBotOwnerProfile(env, botId));
+  return profile
+    ? { profile, ceilings: deriveSuitabilityCeilings(profile) }
+    : null;
+}
+
+// Clamps a normalized policy to the ceilings. Unlimited settings ("0" / 0)
+// take the ceiling.
+export function applySuitabilityCeilings(
+  policy: NormalizedPolicy,
+  ceilings: SuitabilityCeilings | null,
+): NormalizedPolicy {
+  if (!ceilings) return policy;
+  const maxTradeQuoteAtomic =
+    policy.maxTradeQuoteAtomic === "0" ||
+    BigInt(policy.maxTradeQuoteAtomic) > BigInt(ceilings.maxTradeQuoteAtomic)
+      ? ceilings.maxTradeQuoteAtomic
+      : policy.maxTradeQuoteAtomic;
+  return {
+    ...policy,
+    maxTradeQuoteAtomic,
+    maxTradesPerDay:
+      policy.maxTradesPerDay === 0
+        ? ceilings.maxTradesPerDay
+        : Math.min(policy.maxTradesPerDay, ceilings.maxTradesPerDay),
+    maxPriceImpactPct: Math.min(
+      policy.maxPriceImpactPct,
+      ceilings.maxPriceImpactPct,
+    ),
+    suitableTier: ceilings.allowedTier,
+  };
+}
+
+// Rejects explicit policy settings above the ceilings. Unset or unlimited
+// settings pass; the tick clamps them.
+export function assertPolicyWithinCeilings(
+  policy: LoopPolicy,
+  ceilings: SuitabilityCeilings | null,
+): void {
+  if (!ceilings) return;
+  if (
+    policy.maxTradeQuoteAtomic &&
+    policy.maxTradeQuoteAtomic !== "0" &&
+    BigInt(policy.maxTradeQuoteAtomic) > BigInt(ceilings.maxTradeQuoteAtomic)
+  ) {
+    throw new Error("invalid-policy-maxTradeQuoteAtomic-exceeds-suitability");
+  }
+  if (
+    policy.maxTradesPerDay &&
+    policy.maxTradesPerDay > ceilings.maxTradesPerDay
+  ) {
+    throw new Error("invalid-policy-maxTradesPerDay-exceeds-suitability");
+  }
+  if (
+    policy.maxPriceImpactPct !== undefined &&
+    policy.maxPriceImpactPct > ceilings.maxPriceImpactPct
+  ) {
+    throw new Error("invalid-policy-maxPriceImpactPct-exceeds-suitability");
+  }
+  // Tier entries may not be broader than the ceiling. Raw mints are
+  // screened at trade time, except under a bluechip ceiling, which no
+  // screen can satisfy.
+  const allowed = ceilings.allowedTier;
+  if (
+    (policy.allowedMints ?? []).some((entry) =>
+      isTokenTier(entry)
+        ? !tierSatisfies(entry, allowed)
+        : allowed === "bluechip" && !BLUECHIP_MINTS.includes(entry),
+    )
+  ) {
+    throw new Error("invalid-policy-allowedMints-exceeds-suitability");
+  }
+}
+
+const TIER_LABELS: Record<TokenTier, string> = {
+  bluechip: "bluechip tokens (SOL, USDC, USDT, mSOL, jitoSOL, JUP)",
+  verified: "bluechip or verified tokens",
+  "any-screened": "tokens that pass safety screening",
+};
+
+// For the agent system prompt.
+export function summarizeSuitability(
+  profile: FinancialProfile,
+  ceilings: SuitabilityCeilings,
+): string {
+  const maxTradeUsd = Number(ceilings.maxTradeQuoteAtomic) / 1_000_000;
+  return [
+    `Risk tolerance: ${profile.riskTolerance}; goal: ${profile.investmentGoal}; horizon: ${profile.timeHorizon}.`,
+    `Experience: ${profile.investmentExperience} investor, ${profile.cryptoExperience} in crypto. Liquid net worth: ${profile.liquidNetWorth}.`,
+    `Hard limits from this profile: at most $${maxTradeUsd} per trade, ${ceilings.maxTradesPerDay} trades per day, ${(ceilings.maxPriceImpactPct * 100).toFixed(1)}% price impact, ${TIER_LABELS[ceilings.allowedTier]} only.`,
+  ].join("\n");
+}
@@ -2,6 +2,7 @@ import type {
   JupiterClient,
   JupiterQuoteResponse,
   JupiterSwapResponse,
+  SwapFeeParams,
 } from "./jupiter";
 import type { NormalizedPolicy } from "./policy";
 import { enforcePolicy } from "./policy";
@@ -11,6 +12,7 @@ export async function swapWithRetry(
   quoteResponse: JupiterQuoteResponse,
   userPublicKey: string,
   policy: NormalizedPolicy,
+  fee: SwapFeeParams = {},
 ): Promise<{
   swap: JupiterSwapResponse;
   quoteResponse: JupiterQuoteResponse;
@@ -18,7 +20,7 @@ export async function swapWithRetry(
 }> {
   try {
     return {
-      swap: await jupiter.swap({ quoteResponse, userPublicKey }),
+      swap: await jupiter.swap({ quoteResponse, userPublicKey, ...fee }),
       quoteResponse,
       refreshed: false,
     };
@@ -29,11 +31,12 @@ export async function swapWithRetry(
       quoteResponse,
       policy.slippageBps,
     );
-    enforcePolicy(policy, refreshedQuote);
+    await enforcePolicy(policy, refreshedQuote);
     return {
       swap: await jupiter.swap({
         quoteResponse: refreshedQuote,
         userPublicKey,
+        ...fee,
       }),
       quoteResponse: refreshedQuote,
       refreshed: true,
@@ -0,0 +1,80 @@
+import { makeLogKey, writeJsonl } from "./logs";
+import { insertRunIndex, summarizeRun } from "./run_index";
+import type { StrategyLogFn } from "./strategy_sdk";
+import type { Env } from "./types";
+
+// One tick's structured log. Lines go to the console as they are logged;
+// finish() writes them to R2 and indexes the run in D1 so it can be listed
+// without listing R2 prefixes.
+export type TickRun = {
+  runId: string;
+  logKey: string;
+  log: StrategyLogFn;
+  finish(error: string | null): Promise<void>;
+};
+
+export function startTickRun(
+  env: Env,
+  tenantId: string,
+  reason: string,
+): TickRun {
+  const runId = crypto.randomUUID();
+  const logKey = makeLogKey(tenantId, runId);
+  const lines: string[] = [];
+  const startedAt = new Date();
+
+  // Logging and indexing should never take the worker down.
+  const warn = (message: string, err: unknown) => {
+    console.log(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        level: "warn",
+        message,
+        tenantId,
+        runId,
+        err: err instanceof Error ? err.message : String(err),
+      }),
+    );
+  };
+
+  const log: StrategyLogFn = (level, message, meta) => {
+    const line = JSON.stringify({
+      ts: new Date().toISOString(),
+      level,
+      message,
+      tenantId,
+      runId,
+      reason,
+      ...(meta ?? {}),
+    });
+    lines.push(line);
+    console.log(line);
+  };
+
+  const finish = async (error: string | null) => {
+    try {
+      await writeJsonl(env, logKey, lines);
+    } catch (err) {
+      warn("failed to flush R2 logs", err);
+    }
+    // Ticks that did nothing (lock held, loop disabled, no strategy) fire
+    // every minute; their log is kept in R2 but they are not indexed.
+    if (summarizeRun(lines, error).status === "skipped") return;
+    try {
+      await insertRunIndex(env, {
+        tenantId,
+        runId,
+        reason,
+        logKey,
+        startedAt,
+        finishedAt: new Date(),
+        error,
+        lines,
+      });
+    } catch (err) {
+      warn("failed to index run", err);
+    }
+  };
+
+  return { runId, logKey, log, finish };
+}
@@ -0,0 +1,242 @@
+import {
+  type LiquidityPair,
+  liquidityByMint,
+  RAYDIUM_PAIRS_PATH,
+} from "../../../src/market/index";
+import { SOL_MINT, USDC_MINT } from "./defaults";
+import type { SolanaRpc } from "./solana_rpc";
+import type { Env } from "./types";
+
+// On-chain safety screening of swap mints. A screened mint lands in a tier
+// that policies can allow instead of listing raw mints; a mint that fails a
+// check has no tier and a reason code enforcePolicy rejects with.
+
+export const TOKEN_TIERS = ["bluechip", "verified", "any-screened"] as const;
+
+export type TokenTier = (typeof TOKEN_TIERS)[number];
+
+export function isTokenTier(value: unknown): value is TokenTier {
+  return (TOKEN_TIERS as readonly unknown[]).includes(value);
+}
+
+// True when a mint in `tier` is allowed by `allowed`; tiers nest, so a
+// bluechip mint is also verified and any-screened.
+export function tierSatisfies(tier: TokenTier, allowed: TokenTier): boolean {
+  return TOKEN_TIERS.indexOf(tier) <= TOKEN_TIERS.indexOf(allowed);
+}
+
+// Curated; never screened on-chain.
+export const BLUECHIP_MINTS: readonly string[] = [
+  SOL_MINT,
+  USDC_MINT,
+  // USDT
+  "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+  // mSOL
+  "mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So",
+  // jitoSOL
+  "J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yyac6Y7kGCPn",
+  // JUP
+  "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN",
+];
+
+// Errors a failed screen carries.
+export const TOKEN_SCREEN_REJECTIONS = [
+  "token-not-found",
+  "token-mint-authority",
+  "token-freeze-authority",
+  "token-transfer-fee",
+  "token-permanent-delegate",
+  "token-holder-concentration",
+  "token-low-liquidity",
+] as const;
+
+// Share of supply the 10 largest accounts may hold, and pool TVL in USD.
+const MAX_TOP_HOLDERS_PCT = 0.5;
+const MIN_LIQUIDITY_USD = 10_000;
+const VERIFIED_MAX_TOP_HOLDERS_PCT = 0.3;
+const VERIFIED_MIN_LIQUIDITY_USD = 250_000;
+
+const SCREEN_TTL_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_RAYDIUM_BASE_URL = "https://api.raydium.io";
+
+export type TokenScreen = {
+  mint: string;
+  // null when the mint failed screening.
+  tier: TokenTier | null;
+  reason: (typeof TOKEN_SCREEN_REJECTIONS)[number] | null;
+  // "spl-token" or "spl-token-2022"; null for bluechip and missing mints.
+  program: string | null;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  extensions: string[];
+  // Share of supply held by the 10 largest accounts (0..1).
+  topHoldersPct: number | null;
+  liquidityUsd: number | null;
+  screenedAt: string;
+};
+
+export type TokenScreenerOptions = {
+  fetchPairs?: () => Promise<LiquidityPair[]>;
+  now?: () => Date;
+};
+
+// Screens and caches mints for one tick (in memory) and for SCREEN_TTL_MS
+// across ticks (token_screens). RPC and Raydium failures throw and are not
+// cached.
+export class TokenScreener {
+  private readonly screens = new Map<string, TokenScreen>();
+  private pairs: Promise<LiquidityPair[]> | null = null;
+
+  constructor(
+    private readonly env: Env,
+    private readonly rpc: SolanaRpc,
+    private readonly options: TokenScreenerOptions = {},
+  ) {}
+
+  async screen(mint: string): Promise<TokenScreen> {
+    const cached = this.screens.get(mint);
+    if (cached) return cached;
+    const now = this.options.now?.() ?? new Date();
+    const screen = BLUECHIP_MINTS.includes(mint)
+      ? bluechipScreen(mint, now)
+      : ((await this.readCached(mint, now)) ??
+        (await this.store(await this.screenOnChain(mint, now))));
+    this.screens.set(mint, screen);
+    return screen;
+  }
+
+  private async readCached(
+    mint: string,
+    now: Date,
+  ): Promise<TokenScreen | null> {
+    const row = (await this.env.WAITLIST_DB.prepare(
+      "SELECT screen_json, screened_at FROM token_screens WHERE mint = ?1",
+    )
+      .bind(mint)
+      .first()) as { screen_json?: string; screened_at?: string } | null;
+    if (!row?.screen_json || !row.screened_at) return null;
+    if (now.getTime() - Date.parse(row.screened_at) > SCREEN_TTL_MS) {
+      return null;
+    }
+    try {
+      return JSON.parse(row.screen_json) as TokenScreen;
+    } catch {
+      return null;
+    }
+  }
+
+  private async store(screen: TokenScreen): Promise<TokenScreen> {
+    await this.env.WAITLIST_DB.prepare(
+      "INSERT INTO token_screens (mint, tier, reason, screen_json, screened_at) VALUES (?1, ?2, ?3, ?4, ?5) ON CONFLICT(mint) DO UPDATE SET tier = excluded.tier, reason = excluded.reason, screen_json = excluded.screen_json, screened_at = excluded.screened_at",
+    )
+      .bind(
+        screen.mint,
+        screen.tier,
+        screen.reason,
+        JSON.stringify(screen),
+        screen.screenedAt,
+      )
+      .run();
+    return screen;
+  }
+
+  private async screenOnChain(mint: string, now: Date): Promise<TokenScreen> {
+    const screen: TokenScreen = {
+      mint,
+      tier: null,
+      reason: null,
+      program: null,
+      mintAuthority: null,
+      freezeAuthority: null,
+      extensions: [],
+      topHoldersPct: null,
+      liquidityUsd: null,
+      screenedAt: now.toISOString(),
+    };
+    const parsed = await this.rpc.getParsedMint(mint);
+    if (!parsed) return { ...screen, reason: "token-not-found" };
+    screen.program = parsed.program;
+    screen.mintAuthority = parsed.mintAuthority;
+    screen.freezeAuthority = parsed.freezeAuthority;
+    screen.extensions = parsed.extensions.map((ext) => ext.extension);
+    if (parsed.mintAuthority) {
+      return { ...screen, reason: "token-mint-authority" };
+    }
+    if (parsed.freezeAuthority) {
+      return { ...screen, reason: "token-freeze-authority" };
+    }
+    // A zero fee today can be raised by the fee authority later.
+    if (screen.extensions.includes("transferFeeConfig")) {
+      return { ...screen, reason: "token-transfer-fee" };
+    }
+    const delegate = parsed.extensions.find(
+      (ext) => ext.extension === "permanentDelegate",
+    );
+    if (delegate?.state.delegate) {
+      return { ...screen, reason: "token-permanent-delegate" };
+    }
+
+    const supply = BigInt(parsed.supply);
+    const largest = await this.rpc.getTokenLargestAccounts(mint);
+    const top = largest
+      .slice(0, 10)
+      .reduce((sum, account) => sum + BigInt(account.amount), 0n);
+    screen.topHoldersPct =
+      supply > 0n ? Number((top * 10_000n) / supply) / 10_000 : 1;
+    if (screen.topHoldersPct > MAX_TOP_HOLDERS_PCT) {
+      return { ...screen, reason: "token-holder-concentration" };
+    }
+
+    screen.liquidityUsd = Number(
+      liquidityByMint(await this.fetchPairs(), mint).totalTvlUsd,
+    );
+    if (screen.liquidityUsd < MIN_LIQUIDITY_USD) {
+      return { ...screen, reason: "token-low-liquidity" };
+    }
+    const verified =
+      screen.liquidityUsd >= VERIFIED_MIN_LIQUIDITY_USD &&
+      screen.topHoldersPct <= VERIFIED_MAX_TOP_HOLDERS_PCT;
+    return { ...screen, tier: verified ? "verified" : "any-screened" };
+  }
+
+  // The pair list is large; fetch it at most once per screener.
+  private fetchPairs(): Promise<LiquidityPair[]> {
+    if (!this.pairs) {
+      this.pairs = this.options.fetchPairs
+        ? this.options.fetchPairs()
+        : fetchRaydiumPairs(this.env);
+      this.pairs.catch(() => {
+        this.pairs = null;
+      });
+    }
+    return this.pairs;
+  }
+}
+
+function bluechipScreen(mint: string, now: Date): TokenScreen {
+  return {
+    mint,
+    tier: "bluechip",
+    reason: null,
+    program: null,
+    mintAuthority: null,
+    freezeAuthority: null,
+    extensions: [],
+    topHoldersPct: null,
+    liquidityUsd: null,
+    screenedAt: now.toISOString(),
+  };
+}
+
+async function fetchRaydiumPairs(env: Env): Promise<LiquidityPair[]> {
+  const baseUrl = (env.RAYDIUM_BASE_URL ?? DEFAULT_RAYDIUM_BASE_URL).replace(
+    /\/+$/,
+    "",
+  );
+  const response = await fetch(`${baseUrl}${RAYDIUM_PAIRS_PATH}`);
+  if (!response.ok) {
+    throw new Error(`raydium-http-error: ${response.status}`);
+  }
+  const pairs = await response.json();
+  return Array.isArray(pairs) ? (pairs as LiquidityPair[]) : [];
+}
@@ -1,3 +1,5 @@
+import type { PolicyCounters } from "../../../src/policy/index";
+import { recordPolicyCounters } from "./policy_counters";
 import type { Env } from "./types";
 
 export type TradeIndexRow = {
@@ -12,6 +14,18 @@ export type TradeIndexRow = {
   logKey?: string | null;
   signature?: string | null;
   reasoning?: string | null;
+  triggerId?: string | null;
+  // TWAP children: the parent order id and 1-based child number.
+  parentId?: string | null;
+  sliceIndex?: number | null;
+  // Blockhash expiry of the sent transaction; unconfirmed swaps past it are
+  // reconciled as expired.
+  lastValidBlockHeight?: number | null;
+  // Priority fee (plus any Jito tip) of the recorded attempt, and how many
+  // fee-bumped attempts were sent.
+  priorityFeeLamports?: string | null;
+  submitAttempts?: number | null;
+  replacedSignatures?: string[];
 };
 
 export type TradeIndexResult = {
@@ -27,15 +41,83 @@ export type TradeIndexResult = {
   logKey: string | null;
   signature: string | null;
   reasoning: string | null;
+  triggerId: string | null;
+  parentId: string | null;
+  sliceIndex: number | null;
+  lastValidBlockHeight: number | null;
+  slot: number | null;
+  feeLamports: string | null;
+  filledInAmount: string | null;
+  filledOutAmount: string | null;
+  reconciledAt: string | null;
+  priorityFeeLamports: string | null;
+  submitAttempts: number | null;
+  replacedSignatures: string[];
   createdAt: string;
 };
 
+// Live swaps sent but not yet seen at confirmed commitment.
+export const PENDING_TRADE_STATUSES = ["sent", "processed"] as const;
+
+export type TradeReconciliation = {
+  status: string;
+  // The attempt that landed, when a fee-bumped resubmission replaced it.
+  signature: string;
+  slot: number | null;
+  feeLamports: string | null;
+  filledInAmount: string | null;
+  filledOutAmount: string | null;
+};
+
+const TRADE_COLUMNS =
+  "id, tenant_id, run_id, venue, market, side, size, price, status, log_key, signature, reasoning, trigger_id, parent_id, slice_index, last_valid_block_height, slot, fee_lamports, filled_in_amount, filled_out_amount, reconciled_at, priority_fee_lamports, submit_attempts, replaced_signatures, created_at";
+
+function optionalNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function mapTradeRow(r: Record<string, unknown>): TradeIndexResult {
+  return {
+    id: Number(r.id),
+    tenantId: String(r.tenant_id),
+    runId: r.run_id ? String(r.run_id) : null,
+    venue: r.venue ? String(r.venue) : null,
+    market: r.market ? String(r.market) : null,
+    side: r.side ? String(r.side) : null,
+    size: r.size ? String(r.size) : null,
+    price: r.price ? String(r.price) : null,
+    status: r.status ? String(r.status) : null,
+    logKey: r.log_key ? String(r.log_key) : null,
+    signature: r.signature ? String(r.signature) : null,
+    reasoning: r.reasoning ? String(r.reasoning) : null,
+    triggerId: r.trigger_id ? String(r.trigger_id) : null,
+    parentId: r.parent_id ? String(r.parent_id) : null,
+    sliceIndex: optionalNumber(r.slice_index),
+    lastValidBlockHeight: optionalNumber(r.last_valid_block_height),
+    slot: optionalNumber(r.slot),
+    feeLamports: r.fee_lamports ? String(r.fee_lamports) : null,
+    filledInAmount: r.filled_in_amount ? String(r.filled_in_amount) : null,
+    filledOutAmount: r.filled_out_amount ? String(r.filled_out_amount) : null,
+    reconciledAt: r.reconciled_at ? String(r.reconciled_at) : null,
+    priorityFeeLamports: r.priority_fee_lamports
+      ? String(r.priority_fee_lamports)
+      : null,
+    submitAttempts: optionalNumber(r.submit_attempts),
+    replacedSignatures: r.replaced_signatures
+      ? String(r.replaced_signatures).split(",").filter(Boolean)
+      : [],
+    createdAt: String(r.created_at),
+  };
+}
+
+// Returns the bumped policy counters, or null when the row is not a
+// broadcast swap that may have moved funds.
 export async function insertTradeIndex(
   env: Env,
   row: TradeIndexRow,
-): Promise<void> {
+): Promise<PolicyCounters | null> {
   await env.WAITLIST_DB.prepare(
-    "INSERT INTO trade_index (tenant_id, run_id, venue, market, side, size, price, status, log_key, signature, reasoning) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)",
+    "INSERT INTO trade_index (tenant_id, run_id, venue, market, side, size, price, status, log_key, signature, reasoning, trigger_id, parent_id, slice_index, last_valid_block_height, priority_fee_lamports, submit_attempts, replaced_signatures) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17, ?18)",
   )
     .bind(
       row.tenantId,
@@ -49,8 +131,25 @@ export async function insertTradeIndex(
       row.logKey ?? null,
       row.signature ?? null,
       row.reasoning ?? null,
+      row.triggerId ?? null,
+      row.parentId ?? null,
+      row.sliceIndex ?? null,
+      row.lastValidBlockHeight ?? null,
+      row.priorityFeeLamports ?? null,
+      row.submitAttempts ?? null,
+      row.replacedSignatures?.length ? row.replacedSignatures.join(",") : null,
     )
     .run();
+  // Every broadcast swap is recorded here, so the policy's cooldown and
+  // daily spend counters are bumped alongside. Swaps that failed on-chain or
+  // expired unlanded spent nothing and are left to the failure breaker.
+  const [inputMint] = row.market.split("->");
+  if (!row.signature || !inputMint || !row.size) return null;
+  if (row.status === "error" || row.status === "expired") return null;
+  return await recordPolicyCounters(env, row.tenantId, {
+    inputMint,
+    inAmount: row.size,
+  });
 }
 
 export async function listTrades(
@@ -60,27 +159,100 @@ export async function listTrades(
 ): Promise<TradeIndexResult[]> {
   const capped = Math.max(1, Math.min(200, Math.floor(limit)));
   const result = await env.WAITLIST_DB.prepare(
-    "SELECT id, tenant_id, run_id, venue, market, side, size, price, status, log_key, signature, reasoning, created_at FROM trade_index WHERE tenant_id = ?1 ORDER BY id DESC LIMIT ?2",
+    `SELECT ${TRADE_COLUMNS} FROM trade_index WHERE tenant_id = ?1 ORDER BY id DESC LIMIT ?2`,
   )
     .bind(tenantId, capped)
     .all();
 
-  return (result.results ?? []).map((row) => {
-    const r = row as Record<string, unknown>;
-    return {
-      id: Number(r.id),
-      tenantId: String(r.tenant_id),
-      runId: r.run_id ? String(r.run_id) : null,
-      venue: r.venue ? String(r.venue) : null,
-      market: r.market ? String(r.market) : null,
-      side: r.side ? String(r.side) : null,
-      size: r.size ? String(r.size) : null,
-      price: r.price ? String(r.price) : null,
-      status: r.status ? String(r.status) : null,
-      logKey: r.log_key ? String(r.log_key) : null,
-      signature: r.signature ? String(r.signature) : null,
-      reasoning: r.reasoning ? String(r.reasoning) : null,
-      createdAt: String(r.created_at),
-    };
-  });
+  return (result.results ?? []).map((row) =>
+    mapTradeRow(row as Record<string, unknown>),
+  );
+}
+
+// Statuses of the most recent live swaps, newest first. `since` is an ISO
+// timestamp; older rows are ignored.
+export async function listRecentLiveSwapStatuses(
+  env: Env,
+  tenantId: string,
+  opts: { limit: number; since?: string | null },
+): Promise<string[]> {
+  const capped = Math.max(1, Math.min(1000, Math.floor(opts.limit)));
+  // created_at is D1 datetime('now'): "YYYY-MM-DD HH:MM:SS" in UTC.
+  const since = opts.since
+    ? opts.since.replace("T", " ").slice(0, 19)
+    : "0000-00-00 00:00:00";
+  const result = await env.WAITLIST_DB.prepare(
+    // Dry-run and simulated rows never touched the chain.
+    "SELECT status FROM trade_index WHERE tenant_id = ?1 AND created_at >= ?2 AND status NOT IN ('dry_run', 'simulated', 'simulate_error') ORDER BY id DESC LIMIT ?3",
+  )
+    .bind(tenantId, since, capped)
+    .all();
+  return (result.results ?? []).map((row) =>
+    String((row as Record<string, unknown>).status ?? ""),
+  );
+}
+
+// Oldest first: pending swaps, plus confirmed swaps from the last day whose
+// fills and fees have not been read from the chain yet.
+export async function listReconcilableTrades(
+  env: Env,
+  tenantId: string,
+  limit: number,
+): Promise<TradeIndexResult[]> {
+  const result = await env.WAITLIST_DB.prepare(
+    `SELECT ${TRADE_COLUMNS} FROM trade_index WHERE tenant_id = ?1 AND signature IS NOT NULL AND reconciled_at IS NULL AND (status IN ('sent', 'processed') OR (status IN ('confirmed', 'finalized') AND created_at >= datetime('now', '-1 day'))) ORDER BY id ASC LIMIT ?2`,
+  )
+    .bind(tenantId, Math.max(1, Math.floor(limit)))
+    .all();
+  return (result.results ?? []).map((row) =>
+    mapTradeRow(row as Record<string, unknown>),
+  );
+}
+
+// The trade_index row of a TWAP child, e.g. to see whether reconciliation
+// has settled it.
+export async function getChildTrade(
+  env: Env,
+  tenantId: string,
+  parentId: string,
+  sliceIndex: number,
+): Promise<TradeIndexResult | null> {
+  const row = await env.WAITLIST_DB.prepare(
+    `SELECT ${TRADE_COLUMNS} FROM trade_index WHERE tenant_id = ?1 AND parent_id = ?2 AND slice_index = ?3 ORDER BY id DESC LIMIT 1`,
+  )
+    .bind(tenantId, parentId, sliceIndex)
+    .first();
+  return row ? mapTradeRow(row as Record<string, unknown>) : null;
+}
+
+export async function countPendingTrades(
+  env: Env,
+  tenantId: string,
+): Promise<number> {
+  const row = (await env.WAITLIST_DB.prepare(
+    "SELECT COUNT(*) as count FROM trade_index WHERE tenant_id = ?1 AND signature IS NOT NULL AND reconciled_at IS NULL AND status IN ('sent', 'processed')",
+  )
+    .bind(tenantId)
+    .first()) as { count?: number } | null;
+  return Number(row?.count ?? 0);
+}
+
+export async function updateTradeReconciliation(
+  env: Env,
+  id: number,
+  update: TradeReconciliation,
+): Promise<void> {
+  await env.WAITLIST_DB.prepare(
+    "UPDATE trade_index SET status = ?2, signature = ?3, slot = ?4, fee_lamports = ?5, filled_in_amount = ?6, filled_out_amount = ?7, reconciled_at = datetime('now') WHERE id = ?1",
+  )
+    .bind(
+      id,
+      update.status,
+      update.signature,
+      update.slot,
+      update.feeLamports,
+      update.filledInAmount,
+      update.filledOutAmount,
+    )
+    .run();
 }
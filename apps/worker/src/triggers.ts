@@ -0,0 +1,186 @@
+import type { TriggerOrder, TriggerState, TriggersStrategy } from "./types";
+
+// Pure evaluation for the "triggers" strategy. Shared by the live loop and the
+// backtester; quoting, policy and execution stay with the caller.
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+export type TriggerStates = Record<string, TriggerState>;
+
+export type TriggerFire = {
+  trigger: TriggerOrder;
+  // buy: spend quote (amount in quote atomic). sell: sell base (base atomic).
+  side: "buy" | "sell";
+  amountAtomic: bigint;
+};
+
+export type TriggerEvaluation = {
+  states: TriggerStates;
+  // At most one trigger fires per tick so balances stay consistent.
+  fire: TriggerFire | null;
+  skipped: Array<{ id: string; reason: "insufficient-quote" | "zero-sell" }>;
+};
+
+export function triggerDecimals(strategy: TriggersStrategy): {
+  baseDecimals: number;
+  quoteDecimals: number;
+} {
+  return {
+    baseDecimals: strategy.baseDecimals ?? 9,
+    quoteDecimals: strategy.quoteDecimals ?? 6,
+  };
+}
+
+// "120.5" with 6 decimals -> 120500000n. Extra fractional digits are truncated.
+export function priceToAtomic(price: string, decimals: number): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(price.trim());
+  if (!match) throw new Error("invalid-trigger-price");
+  const whole = match[1] ?? "0";
+  const frac = (match[2] ?? "").slice(0, decimals).padEnd(decimals, "0");
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(frac || "0");
+}
+
+function isSell(trigger: TriggerOrder): boolean {
+  return trigger.kind !== "limit_buy";
+}
+
+function crossed(
+  trigger: TriggerOrder,
+  priceAtomic: bigint,
+  peakAtomic: bigint,
+  quoteDecimals: number,
+): boolean {
+  if (trigger.kind === "trailing_stop") {
+    const trailBps = BigInt(Math.round((trigger.trailingPct ?? 0) * 10_000));
+    if (peakAtomic <= 0n || trailBps <= 0n) return false;
+    return priceAtomic * 10_000n <= peakAtomic * (10_000n - trailBps);
+  }
+  const target = priceToAtomic(trigger.price ?? "", quoteDecimals);
+  if (trigger.kind === "take_profit") return priceAtomic >= target;
+  return priceAtomic <= target;
+}
+
+export function evaluateTriggers(input: {
+  strategy: TriggersStrategy;
+  states: TriggerStates | undefined;
+  // Quote atomic units received for exactly one whole base token.
+  quotePerBaseAtomic: bigint;
+  baseBalanceAtomic: bigint;
+  quoteBalanceAtomic: bigint;
+  reserveLamports: bigint;
+  nowIso: string;
+}): TriggerEvaluation {
+  const { strategy, quotePerBaseAtomic, nowIso } = input;
+  const { quoteDecimals } = triggerDecimals(strategy);
+  const previous = input.states ?? {};
+  const states: TriggerStates = { ...previous };
+  const configured = new Set(strategy.triggers.map((t) => t.id));
+
+  // Triggers removed from the config are cancelled rather than forgotten so
+  // the history stays visible in state.
+  for (const [id, state] of Object.entries(previous)) {
+    if (!configured.has(id) && state.status === "armed") {
+      states[id] = {
+        status: "cancelled",
+        reason: "removed",
+        updatedAt: nowIso,
+      };
+    }
+  }
+
+  let fire: TriggerFire | null = null;
+  const skipped: TriggerEvaluation["skipped"] = [];
+
+  for (const trigger of strategy.triggers) {
+    const current = states[trigger.id] ?? {
+      status: "armed",
+      updatedAt: nowIso,
+    };
+    if (current.status !== "armed") continue;
+
+    let peakAtomic = BigInt(current.peakPriceAtomic ?? "0");
+    if (trigger.kind === "trailing_stop" && quotePerBaseAtomic > peakAtomic) {
+      peakAtomic = quotePerBaseAtomic;
+      states[trigger.id] = {
+        ...current,
+        peakPriceAtomic: peakAtomic.toString(),
+        updatedAt: nowIso,
+      };
+    } else {
+      states[trigger.id] = current;
+    }
+
+    if (fire) continue;
+    if (!crossed(trigger, quotePerBaseAtomic, peakAtomic, quoteDecimals)) {
+      continue;
+    }
+
+    if (!isSell(trigger)) {
+      let spend = BigInt(trigger.amount ?? "0");
+      let available = input.quoteBalanceAtomic;
+      if (strategy.quoteMint === SOL_MINT) {
+        available =
+          available > input.reserveLamports
+            ? available - input.reserveLamports
+            : 0n;
+      }
+      if (spend > available) spend = available;
+      if (spend <= 0n) {
+        skipped.push({ id: trigger.id, reason: "insufficient-quote" });
+        continue;
+      }
+      fire = { trigger, side: "buy", amountAtomic: spend };
+      continue;
+    }
+
+    let sell =
+      trigger.amount !== undefined
+        ? BigInt(trigger.amount)
+        : (input.baseBalanceAtomic *
+            BigInt(Math.round((trigger.sellPct ?? 0) * 10_000))) /
+          10_000n;
+    let available = input.baseBalanceAtomic;
+    if (strategy.baseMint === SOL_MINT) {
+      available =
+        available > input.reserveLamports
+          ? available - input.reserveLamports
+          : 0n;
+    }
+    if (sell > available) sell = available;
+    if (sell <= 0n) {
+      skipped.push({ id: trigger.id, reason: "zero-sell" });
+      continue;
+    }
+    fire = { trigger, side: "sell", amountAtomic: sell };
+  }
+
+  return { states, fire, skipped };
+}
+
+// Marks a trigger filled and cancels the rest of its OCO group.
+export function markTriggerFilled(
+  strategy: TriggersStrategy,
+  states: TriggerStates,
+  triggerId: string,
+  nowIso: string,
+): TriggerStates {
+  const next: TriggerStates = { ...states };
+  const filled = strategy.triggers.find((t) => t.id === triggerId);
+  next[triggerId] = {
+    ...(next[triggerId] ?? {}),
+    status: "filled",
+    updatedAt: nowIso,
+  };
+  if (!filled?.ocoGroup) return next;
+  for (const other of strategy.triggers) {
+    if (other.id === triggerId || other.ocoGroup !== filled.ocoGroup) continue;
+    if ((next[other.id]?.status ?? "armed") !== "armed") continue;
+    next[other.id] = {
+      ...(next[other.id] ?? {}),
+      status: "cancelled",
+      reason: "oco",
+      updatedAt: nowIso,
+    };
+  }
+  return next;
+}
@@ -1,3 +1,5 @@
+import type { POLICY_VERSION } from "../../../src/policy/index";
+
 export type LoopConfig = {
   enabled: boolean;
   policy?: LoopPolicy;
@@ -5,11 +7,19 @@ export type LoopConfig = {
   updatedAt?: string;
 };
 
+// The shared policy document (src/policy/schema.ts) plus worker-only
+// execution settings. Configs saved before versioning have no version.
 export type LoopPolicy = {
+  version?: typeof POLICY_VERSION;
   killSwitch?: boolean;
   allowedMints?: string[];
   // "0" means unlimited.
   maxTradeAmountAtomic?: string;
+  // Per-trade value cap in quote (USDC) atomic units; "0" means unlimited.
+  maxTradeQuoteAtomic?: string;
+  // Trades recorded per UTC day, checked at the start of each tick; 0 means
+  // unlimited.
+  maxTradesPerDay?: number;
   maxPriceImpactPct?: number;
   slippageBps?: number;
   // If true, build + sign + simulate the swap on Solana RPC, but do not broadcast.
@@ -20,6 +30,48 @@ export type LoopPolicy = {
   commitment?: "processed" | "confirmed" | "finalized";
   // Keep some SOL to pay fees / rent; expressed in lamports.
   minSolReserveLamports?: string;
+  // Minimum seconds between broadcast swaps; 0 means none.
+  cooldownSeconds?: number;
+  // SOL sold per UTC day by broadcast swaps, in lamports; "0" means
+  // unlimited.
+  dailySpendCapLamports?: string;
+  // Circuit breakers, evaluated at the start of every bot tick. When one
+  // trips the bot sets killSwitch and stays halted until reset via the API.
+  // Quote (USDC) atomic units; "0" disables.
+  maxDailyLossQuoteAtomic?: string;
+  // Decimals like maxPriceImpactPct (0.05 = 5%); 0 disables.
+  maxDailyLossPct?: number;
+  maxDrawdownPct?: number;
+  // 0 disables.
+  maxConsecutiveFailedSwaps?: number;
+  // Unset keeps Jupiter's default fee and compute budget.
+  priorityFee?: PriorityFeePolicy;
+};
+
+export type PriorityFeePolicy = {
+  // static: a fixed compute unit price. percentile: a percentile of recent
+  // prioritization fees on the route's pools. maxLamports: Jupiter's
+  // estimate at priorityLevel, capped at maxLamports.
+  mode: "static" | "percentile" | "maxLamports";
+  // Compute unit price for static mode.
+  microLamports?: number;
+  // 1-100 for percentile mode (default 75).
+  percentile?: number;
+  // maxLamports mode (default "high"); resubmissions raise it a level.
+  priorityLevel?: "medium" | "high" | "veryHigh";
+  // Priority fee cap in lamports. Required for maxLamports mode; in the
+  // other modes the unit price is clipped so a transaction at the compute
+  // unit ceiling stays under it. "0" = no cap.
+  maxLamports?: string;
+  // Optional Jito tip in lamports, on top of the compute unit price.
+  jitoTipLamports?: string;
+  // Re-sign and resend with a bumped fee when no attempt has been seen after
+  // this many slots. 0 disables.
+  resubmitAfterSlots?: number;
+  // Default 2.
+  maxResubmits?: number;
+  // Unit price increase per resubmission (default 0.5 = +50%).
+  bumpPct?: number;
 };
 
 export type DcaStrategy = {
@@ -30,6 +82,7 @@ export type DcaStrategy = {
   amount: string;
   // Minimum time between executions.
   everyMinutes?: number;
+  execution?: ExecutionConfig;
 };
 
 export type RebalanceStrategy = {
@@ -42,18 +95,42 @@ export type RebalanceStrategy = {
   // Caps expressed in atomic units of the respective input mint.
   maxSellBaseAmount?: string;
   maxBuyQuoteAmount?: string;
+  // With TWAP execution the caps bound each child swap instead of clipping
+  // the rebalance.
+  execution?: ExecutionConfig;
+};
+
+// How DCA and rebalance orders are executed. "twap" splits a parent order
+// into child swaps spread across BotLoop alarms.
+export type ExecutionConfig = {
+  mode: "immediate" | "twap";
+  // Child swaps; derived from price impact and caps when unset.
+  slices?: number;
+  intervalSeconds?: number;
+  // Per-child limit; never looser than policy.maxPriceImpactPct.
+  maxSlicePriceImpactPct?: number;
+  maxDurationMinutes?: number;
+  // 0..1: cancel the rest of the order once the child price is this much
+  // worse than the first child's.
+  cancelOnAdverseMovePct?: number;
 };
 
 export type AgentStrategy = {
   type: "agent";
-  /** LLM model override — falls back to ZAI_MODEL env var */
+  /** LLM provider — falls back to LLM_PROVIDER env var, then openai_chat */
+  provider?: "openai_chat" | "openai_responses" | "anthropic_messages";
+  /** LLM model override — falls back to the provider's *_MODEL env var */
   model?: string;
+  /** LLM base URL override — must be the provider default or in LLM_ALLOWED_BASE_URLS */
+  baseUrl?: string;
   /** User-provided mandate — high-level instructions the agent must follow */
   mandate?: string;
   /** Minimum confidence required to execute a trade */
   minConfidence?: "low" | "medium" | "high";
   /** Max trades per day (safety cap) */
   maxTradesPerDay?: number;
+  /** Max LLM tokens per UTC day; the tick finishes early once reached */
+  dailyTokenBudget?: number;
   /** Allowed actions: which tools the agent can use */
   allowedActions?: ("trade" | "update_thesis" | "log_observation" | "skip")[];
   /** Tool loop: max number of LLM/tool steps per tick */
@@ -70,23 +147,158 @@ export type AgentStrategy = {
   quoteMint?: string;
   /** Quote mint decimals for display (default: 6 for USDC) */
   quoteDecimals?: number;
+  /** Mints shown in the multi-asset portfolio view (default: SOL + quoteMint) */
+  portfolioMints?: string[];
+  /** Hold trades for user approval: never (auto, default), above a value, or always */
+  approvalMode?: "auto" | "above-amount" | "always";
+  /** above-amount: trades worth more than this (USDC atomic units) need approval */
+  approvalAboveQuoteAtomic?: string;
+  /** Minutes a proposal waits for a decision before it expires (default 60) */
+  approvalTtlMinutes?: number;
+};
+
+export type TriggerOrder = {
+  // Stable id; used for state tracking and recorded on every fill.
+  id: string;
+  // limit_buy: buy when price <= price
+  // take_profit: sell when price >= price
+  // stop_loss: sell when price <= price
+  // trailing_stop: sell when price falls trailingPct below the highest price seen while armed
+  kind: "limit_buy" | "take_profit" | "stop_loss" | "trailing_stop";
+  // Quote per base in UI units (e.g. "120.5" USDC per SOL).
+  price?: string;
+  trailingPct?: number; // 0..1
+  // limit_buy: quote atomic units to spend. Sells: base atomic units to sell.
+  amount?: string;
+  // Sells only: fraction of the base balance to sell (0..1), instead of amount.
+  sellPct?: number;
+  // Filling one trigger cancels the other armed triggers in the same group (OCO).
+  ocoGroup?: string;
+};
+
+export type TriggersStrategy = {
+  type: "triggers";
+  baseMint: string;
+  quoteMint: string;
+  baseDecimals?: number; // default 9 (SOL)
+  quoteDecimals?: number; // default 6 (USDC)
+  triggers: TriggerOrder[];
+};
+
+export type PortfolioStrategy = {
+  type: "portfolio";
+  // Valuation mint; every swap routes through it (sell X -> quote, quote -> buy Y).
+  quoteMint: string;
+  quoteDecimals?: number; // default 6 (USDC)
+  // mint -> target weight (0..1). Weights must sum to 1; include quoteMint to hold cash.
+  targets: Record<string, number>;
+  // Per-asset drift band before trading, as a fraction of portfolio value.
+  driftPct?: number; // 0..1, default 0.02
 };
 
 export type StrategyConfig =
   | { type: "noop" }
   | DcaStrategy
   | RebalanceStrategy
-  | AgentStrategy;
+  | AgentStrategy
+  | TriggersStrategy
+  | PortfolioStrategy;
 
+export type TriggerState = {
+  status: "armed" | "filled" | "cancelled";
+  // Trailing stops only: highest quote-per-base (atomic) seen while armed.
+  peakPriceAtomic?: string;
+  reason?: string;
+  updatedAt: string;
+};
+
+export type DcaState = {
+  lastAt?: string;
+};
+
+export type AgentState = {
+  lastTickAt?: string;
+};
+
+// Strategy state lives under the strategy type; `risk` and `parentOrder`
+// are shared by every strategy.
 export type LoopState = {
-  dca?: {
-    lastAt?: string;
+  dca?: DcaState;
+  agent?: AgentState;
+  // Keyed by TriggerOrder.id.
+  triggers?: Record<string, TriggerState>;
+  risk?: RiskState;
+  // Active (or most recently finished) TWAP parent order.
+  parentOrder?: ParentOrder;
+};
+
+export type ParentOrderStatus =
+  | "active"
+  | "completed"
+  | "cancelled"
+  | "expired"
+  | "failed";
+
+// Amounts are input-mint atomic strings unless noted.
+export type ParentOrder = {
+  id: string;
+  strategy: "dca" | "rebalance";
+  // trade_index side of the child swaps.
+  side: string;
+  inputMint: string;
+  outputMint: string;
+  totalAmount: string;
+  filledAmount: string;
+  // Output-mint atomic units received so far.
+  outAmount: string;
+  slices: number;
+  slicesDone: number;
+  intervalSeconds: number;
+  maxSlicePriceImpactPct: number;
+  // Per-child amount cap ("0" = none).
+  maxSliceAmount: string;
+  cancelOnAdverseMovePct: number;
+  // First child's fill, the reference for adverse-move cancellation.
+  refInAmount?: string;
+  refOutAmount?: string;
+  // A child sent live whose confirmation timed out. It is booked once
+  // reconciliation settles its trade_index row; no other child is sent
+  // while it is pending.
+  pendingChild?: {
+    sliceIndex: number;
+    signature: string | null;
+    inAmount: string;
+    outAmount: string;
   };
-  agent?: {
-    lastTickAt?: string;
+  startedAt: string;
+  expiresAt: string;
+  nextAt: string;
+  status: ParentOrderStatus;
+  finishedAt?: string;
+  reason?: string;
+};
+
+// Circuit breaker baselines; values are quote (USDC) atomic strings.
+export type RiskState = {
+  // UTC day the dayStartValueQuote baseline belongs to.
+  day?: string;
+  dayStartValueQuote?: string;
+  highWaterMarkQuote?: string;
+  // Failed swaps before this timestamp are ignored (set on reset).
+  failuresSince?: string;
+  tripped?: {
+    at: string;
+    reason: CircuitBreakerReason;
+    message: string;
   };
 };
 
+export type CircuitBreakerReason =
+  | "daily-loss"
+  | "daily-loss-pct"
+  | "drawdown"
+  | "consecutive-failed-swaps";
+
 export type AgentMemory = {
   thesis: string;
   observations: AgentObservation[];
@@ -138,6 +350,22 @@ export type MarketSnapshot = {
   baseAllocationPct: number;
 };
 
+export type PortfolioHolding = {
+  mint: string;
+  balanceAtomic: string;
+  // Value in quote atomic units (what selling the whole holding would return).
+  valueQuoteAtomic: string;
+  allocationPct: number;
+};
+
+export type PortfolioSnapshot = {
+  ts: string;
+  quoteMint: string;
+  quoteDecimals: number;
+  totalValueQuote: string;
+  holdings: PortfolioHolding[];
+};
+
 export type Env = {
   WAITLIST_DB: D1Database;
   CONFIG_KV: KVNamespace;
@@ -148,16 +376,45 @@ export type Env = {
   PRIVY_APP_ID?: string;
   PRIVY_APP_SECRET?: string;
   PRIVY_WALLET_ID?: string;
+  // Signer selection for the legacy single-tenant loop ("privy" by default).
+  // Bots use bots.signer_type instead.
+  SIGNER_TYPE?: string;
+  // base64 32-byte AES key protecting local keypairs at rest.
+  LOCAL_SIGNER_SECRET?: string;
+  // Encrypted keypair for the legacy loop when SIGNER_TYPE=local.
+  LOCAL_SIGNER_KEYPAIR?: string;
+  // HTTP signing callback for signer_type "remote".
+  REMOTE_SIGNER_URL?: string;
+  REMOTE_SIGNER_TOKEN?: string;
+  REMOTE_SIGNER_ADDRESS?: string;
   // Used for local/mainnet dry-runs so you can test quoting + policy without Privy.
   // Must be a valid base58 Solana pubkey string.
   DRYRUN_WALLET_ADDRESS?: string;
   RPC_ENDPOINT?: string;
   JUPITER_BASE_URL?: string;
   JUPITER_API_KEY?: string;
+  // Pool list source for token liquidity screening (https://api.raydium.io).
+  RAYDIUM_BASE_URL?: string;
   TENANT_ID?: string;
   LOOP_ENABLED_DEFAULT?: string;
   ALLOWED_ORIGINS?: string;
+  // Default agent LLM provider (openai_chat | openai_responses | anthropic_messages).
+  LLM_PROVIDER?: string;
+  // Comma-separated base URLs bots may select in addition to provider defaults.
+  LLM_ALLOWED_BASE_URLS?: string;
+  // JSON map of model -> { input, output } USD per 1M tokens, for cost estimates.
+  LLM_PRICING?: string;
+  // openai_chat (OpenAI-compatible chat completions).
   ZAI_API_KEY?: string;
   ZAI_BASE_URL?: string;
   ZAI_MODEL?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_MODEL?: string;
+  ANTHROPIC_API_KEY?: string;
+  ANTHROPIC_BASE_URL?: string;
+  ANTHROPIC_MODEL?: string;
+  // Comma-separated pairs ("SOL-USDC" or "<baseMint>-<quoteMint>") the cron
+  // samples for candles regardless of bots.
+  MARKET_SAMPLE_PAIRS?: string;
 };
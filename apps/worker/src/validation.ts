@@ -1,188 +1,62 @@
+import { parsePolicy, upgradePolicy } from "../../../src/policy/index";
+import { strategyDefinitionFor } from "./strategies";
 import type { LoopPolicy, StrategyConfig } from "./types";
 
 export function validateStrategy(strategy: unknown): void {
   if (!strategy || typeof strategy !== "object") return;
-  const s = strategy as Record<string, unknown>;
-  const type = s.type;
-  if (
-    type !== "noop" &&
-    type !== "dca" &&
-    type !== "rebalance" &&
-    type !== "agent"
-  ) {
-    throw new Error("invalid-strategy-type");
-  }
-  if (type === "dca") {
-    if (!s.inputMint || typeof s.inputMint !== "string") {
-      throw new Error("invalid-dca-inputMint");
-    }
-    if (!s.outputMint || typeof s.outputMint !== "string") {
-      throw new Error("invalid-dca-outputMint");
-    }
-    if (
-      !s.amount ||
-      typeof s.amount !== "string" ||
-      !/^[0-9]+$/.test(s.amount) ||
-      s.amount === "0"
-    ) {
-      throw new Error("invalid-dca-amount");
-    }
-  }
-  if (type === "rebalance") {
-    if (!s.baseMint || typeof s.baseMint !== "string") {
-      throw new Error("invalid-rebalance-baseMint");
-    }
-    if (!s.quoteMint || typeof s.quoteMint !== "string") {
-      throw new Error("invalid-rebalance-quoteMint");
-    }
-    const pct = Number(s.targetBasePct);
-    if (!Number.isFinite(pct) || pct < 0 || pct > 1) {
-      throw new Error("invalid-rebalance-targetBasePct");
-    }
-  }
-  if (type === "agent") {
-    if (s.minConfidence !== undefined) {
-      const c = String(s.minConfidence);
-      if (c !== "low" && c !== "medium" && c !== "high") {
-        throw new Error("invalid-agent-minConfidence");
-      }
-    }
-    if (s.maxTradesPerDay !== undefined) {
-      const n = Number(s.maxTradesPerDay);
-      if (!Number.isFinite(n) || n < 0 || n > 100) {
-        throw new Error("invalid-agent-maxTradesPerDay");
-      }
-    }
-    if (s.maxStepsPerTick !== undefined) {
-      const n = Number(s.maxStepsPerTick);
-      if (!Number.isFinite(n) || n < 1 || n > 12) {
-        throw new Error("invalid-agent-maxStepsPerTick");
-      }
-    }
-    if (s.maxToolCallsPerStep !== undefined) {
-      const n = Number(s.maxToolCallsPerStep);
-      if (!Number.isFinite(n) || n < 1 || n > 10) {
-        throw new Error("invalid-agent-maxToolCallsPerStep");
-      }
-    }
-    if (s.allowedActions !== undefined) {
-      if (!Array.isArray(s.allowedActions)) {
-        throw new Error("invalid-agent-allowedActions");
-      }
-      const valid = new Set([
-        "trade",
-        "update_thesis",
-        "log_observation",
-        "skip",
-      ]);
-      for (const item of s.allowedActions) {
-        if (typeof item !== "string" || !valid.has(item)) {
-          throw new Error("invalid-agent-allowedActions");
-        }
-      }
-    }
-    if (s.toolPolicy !== undefined) {
-      if (
-        !s.toolPolicy ||
-        typeof s.toolPolicy !== "object" ||
-        Array.isArray(s.toolPolicy)
-      ) {
-        throw new Error("invalid-agent-toolPolicy");
-      }
-      const p = s.toolPolicy as Record<string, unknown>;
-      for (const key of ["allow", "deny"] as const) {
-        if (p[key] !== undefined) {
-          if (!Array.isArray(p[key]))
-            throw new Error("invalid-agent-toolPolicy");
-          for (const name of p[key] as unknown[]) {
-            if (typeof name !== "string" || !name.trim()) {
-              throw new Error("invalid-agent-toolPolicy");
-            }
-          }
-        }
-      }
-      if (p.allowAll !== undefined && typeof p.allowAll !== "boolean") {
-        throw new Error("invalid-agent-toolPolicy");
-      }
-    }
-    if (s.quoteMint !== undefined) {
-      if (typeof s.quoteMint !== "string" || !s.quoteMint.trim()) {
-        throw new Error("invalid-agent-quoteMint");
-      }
-    }
-    if (s.quoteDecimals !== undefined) {
-      const n = Number(s.quoteDecimals);
-      if (!Number.isFinite(n) || n < 0 || n > 18) {
-        throw new Error("invalid-agent-quoteDecimals");
-      }
-    }
-  }
+  const definition = strategyDefinitionFor(strategy);
+  if (!definition) throw new Error("invalid-strategy-type");
+  definition.validate(strategy as Record<string, unknown>);
 }
 
 export function validatePolicy(policy: unknown): void {
-  if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
-    throw new Error("invalid-policy");
-  }
+  // The shared fields, in either the version 1 or the legacy local shape.
+  parsePolicy(policy);
   const p = policy as Record<string, unknown>;
 
-  if (p.killSwitch !== undefined && typeof p.killSwitch !== "boolean") {
-    throw new Error("invalid-policy-killSwitch");
+  for (const key of ["simulateOnly", "dryRun", "skipPreflight"] as const) {
+    if (p[key] !== undefined && typeof p[key] !== "boolean") {
+      throw new Error(`invalid-policy-${key}`);
+    }
   }
-  if (p.allowedMints !== undefined) {
-    if (!Array.isArray(p.allowedMints))
-      throw new Error("invalid-policy-allowedMints");
-    for (const mint of p.allowedMints) {
-      if (typeof mint !== "string" || !mint.trim()) {
-        throw new Error("invalid-policy-allowedMints");
-      }
+  if (p.commitment !== undefined) {
+    const c = String(p.commitment);
+    if (c !== "processed" && c !== "confirmed" && c !== "finalized") {
+      throw new Error("invalid-policy-commitment");
     }
   }
-  if (p.maxTradeAmountAtomic !== undefined) {
+  if (p.maxDailyLossQuoteAtomic !== undefined) {
     if (
-      typeof p.maxTradeAmountAtomic !== "string" ||
-      !/^[0-9]+$/.test(p.maxTradeAmountAtomic)
+      typeof p.maxDailyLossQuoteAtomic !== "string" ||
+      !/^[0-9]+$/.test(p.maxDailyLossQuoteAtomic)
     ) {
-      throw new Error("invalid-policy-maxTradeAmountAtomic");
+      throw new Error("invalid-policy-maxDailyLossQuoteAtomic");
     }
   }
-  if (p.maxPriceImpactPct !== undefined) {
+  for (const key of ["maxDailyLossPct", "maxDrawdownPct"] as const) {
+    const value = p[key];
+    if (value === undefined) continue;
     if (
-      typeof p.maxPriceImpactPct !== "number" ||
-      !Number.isFinite(p.maxPriceImpactPct)
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      value < 0 ||
+      value > 1
     ) {
-      throw new Error("invalid-policy-maxPriceImpactPct");
-    }
-    if (p.maxPriceImpactPct < 0 || p.maxPriceImpactPct > 1) {
-      throw new Error("invalid-policy-maxPriceImpactPct");
-    }
-  }
-  if (p.slippageBps !== undefined) {
-    if (typeof p.slippageBps !== "number" || !Number.isFinite(p.slippageBps)) {
-      throw new Error("invalid-policy-slippageBps");
-    }
-    if (p.slippageBps < 0 || p.slippageBps > 10_000) {
-      throw new Error("invalid-policy-slippageBps");
-    }
-  }
-  for (const key of ["simulateOnly", "dryRun", "skipPreflight"] as const) {
-    if (p[key] !== undefined && typeof p[key] !== "boolean") {
       throw new Error(`invalid-policy-${key}`);
     }
   }
-  if (p.commitment !== undefined) {
-    const c = String(p.commitment);
-    if (c !== "processed" && c !== "confirmed" && c !== "finalized") {
-      throw new Error("invalid-policy-commitment");
-    }
-  }
-  if (p.minSolReserveLamports !== undefined) {
+  if (p.maxConsecutiveFailedSwaps !== undefined) {
+    const value = p.maxConsecutiveFailedSwaps;
     if (
-      typeof p.minSolReserveLamports !== "string" ||
-      !/^[0-9]+$/.test(p.minSolReserveLamports)
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 0 ||
+      value > 1000
     ) {
-      throw new Error("invalid-policy-minSolReserveLamports");
+      throw new Error("invalid-policy-maxConsecutiveFailedSwaps");
     }
   }
+  if (p.priorityFee !== undefined) validatePriorityFee(p.priorityFee);
 }
 
 // Narrowing helpers for callers who want to rely on the type post-validation.
@@ -191,7 +65,66 @@ export function asStrategyConfig(value: unknown): StrategyConfig {
   return value as StrategyConfig;
 }
 
+// Validated and upgraded to the current policy version.
 export function asLoopPolicy(value: unknown): LoopPolicy {
   validatePolicy(value);
-  return value as LoopPolicy;
+  return upgradePolicy(value as Record<string, unknown>) as LoopPolicy;
+}
+
+function validatePriorityFee(raw: unknown): void {
+  const prefix = "invalid-policy-priorityFee";
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(prefix);
+  }
+  const f = raw as Record<string, unknown>;
+  if (
+    f.mode !== "static" &&
+    f.mode !== "percentile" &&
+    f.mode !== "maxLamports"
+  ) {
+    throw new Error(`${prefix}-mode`);
+  }
+  const integer = (key: string, min: number, max: number) => {
+    if (f[key] === undefined) return;
+    const n = f[key];
+    if (typeof n !== "number" || !Number.isInteger(n) || n < min || n > max) {
+      throw new Error(`${prefix}-${key}`);
+    }
+  };
+  integer("microLamports", 0, 1_000_000_000);
+  integer("percentile", 1, 100);
+  integer("resubmitAfterSlots", 0, 150);
+  integer("maxResubmits", 0, 5);
+  for (const key of ["maxLamports", "jitoTipLamports"]) {
+    if (f[key] === undefined) continue;
+    if (typeof f[key] !== "string" || !/^[0-9]+$/.test(f[key] as string)) {
+      throw new Error(`${prefix}-${key}`);
+    }
+  }
+  if (
+    f.priorityLevel !== undefined &&
+    f.priorityLevel !== "medium" &&
+    f.priorityLevel !== "high" &&
+    f.priorityLevel !== "veryHigh"
+  ) {
+    throw new Error(`${prefix}-priorityLevel`);
+  }
+  if (f.bumpPct !== undefined) {
+    const n = f.bumpPct;
+    if (typeof n !== "number" || !Number.isFinite(n) || n < 0 || n > 10) {
+      throw new Error(`${prefix}-bumpPct`);
+    }
+  }
+  if (f.mode === "static" && f.microLamports === undefined) {
+    throw new Error(`${prefix}-microLamports`);
+  }
+  if (f.mode === "maxLamports") {
+    if (f.maxLamports === undefined || f.maxLamports === "0") {
+      throw new Error(`${prefix}-maxLamports`);
+    }
+    // Jupiter takes either a capped priority level or a Jito tip.
+    if (f.jitoTipLamports !== undefined) {
+      throw new Error(`${prefix}-jitoTipLamports`);
+    }
+  }
 }
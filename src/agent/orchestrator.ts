@@ -5,6 +5,7 @@ import type {
   LlmToolCall,
   ToolSchema,
 } from "../llm/types.js";
+import { policyCounterStoreFor } from "../runtime/policy_counter_store.js";
 import type { ToolContext, ToolRegistry } from "../tools/registry.js";
 import { info, warn } from "../util/logger.js";
 import { isRecord } from "../util/types.js";
@@ -20,7 +21,6 @@ export type AutopilotPlan = {
 
 type AgentState = {
   inFlight: boolean;
-  lastTradeAtMs?: number;
   tickCount: number;
   messages: LlmMessage[];
 };
@@ -80,9 +80,13 @@ export class AgentOrchestrator {
         };
       }
 
-      const now = Date.now();
-      if (this.state.lastTradeAtMs) {
-        const elapsed = (now - this.state.lastTradeAtMs) / 1000;
+      // The swap tools record every trade in the counter store, so the
+      // cooldown holds across restarts.
+      const { lastTradeAt } = await policyCounterStoreFor(
+        this.ctx.config,
+      ).read();
+      if (lastTradeAt) {
+        const elapsed = (Date.now() - Date.parse(lastTradeAt)) / 1000;
         if (elapsed < policy.cooldownSeconds) {
           return {
             actionsTaken: actions,
@@ -207,9 +211,6 @@ export class AgentOrchestrator {
         tool_call_id: call.id,
         content: JSON.stringify(result),
       });
-      if (call.name === "trade.jupiter_swap") {
-        this.state.lastTradeAtMs = Date.now();
-      }
     }
     return toolResults;
   }
@@ -1,4 +1,5 @@
 import type { ToolSchema } from "../llm/types.js";
+import type { PolicyDocument } from "../policy/index.js";
 
 export type PromptPlan = {
   inputMint: string;
@@ -7,15 +8,17 @@ export type PromptPlan = {
   slippageBps: number;
 };
 
-export type PromptPolicy = {
-  killSwitch: boolean;
-  allowedMints: string[];
-  maxTradeAmountLamports: string;
-  maxSlippageBps: number;
-  maxPriceImpactPct: number;
-  cooldownSeconds: number;
-  dailySpendCapLamports?: string | null;
-};
+export type PromptPolicy = Pick<
+  PolicyDocument,
+  | "killSwitch"
+  | "allowedMints"
+  | "maxTradeAmountAtomic"
+  | "slippageBps"
+  | "maxPriceImpactPct"
+  | "cooldownSeconds"
+  | "dailySpendCapLamports"
+  | "maxTradesPerDay"
+>;
 
 export function buildAutonomousPrompt(input: {
   instruction: string;
@@ -25,8 +28,8 @@ export function buildAutonomousPrompt(input: {
 }): string {
   const { instruction, policy, plan, tools } = input;
   const slippageHint = plan
-    ? `min(plan.slippageBps=${plan.slippageBps}, policy.maxSlippageBps=${policy.maxSlippageBps})`
-    : `policy.maxSlippageBps=${policy.maxSlippageBps}`;
+    ? `min(plan.slippageBps=${plan.slippageBps}, policy.slippageBps=${policy.slippageBps})`
+    : `policy.slippageBps=${policy.slippageBps}`;
 
   const lines = [
     "IDENTITY:",
@@ -41,8 +44,8 @@ export function buildAutonomousPrompt(input: {
     "DECISION LOOP:",
     `1) Observe: wallet.get_balances; market.* pricing/routes; market.perps_funding_rates; market.prediction_*; use slippageBps=${slippageHint}.`,
     "2) Propose: choose trade candidate, size, and route; avoid unnecessary tool calls.",
-    "3) Validate: risk.check_trade with quote summary + balances + policy; enforce cooldown; trade only if allow=true.",
-    "4) Execute: trade.jupiter_swap for spot; use perps or prediction-market execution tools if available; then log and wait for next tick.",
+    "3) Validate: risk.check_trade with quote summary + balances + policy; trade only if allow=true. Swaps are also checked against the policy, cooldown and daily caps before sending.",
+    "4) Execute: trade.jupiter_swap for spot, or trade.best_execution to compare venues and slice large orders; use perps or prediction-market execution tools if available; then log and wait for next tick.",
     "PROACTIVITY & MULTI-TASKING:",
     "1) If multiple research threads are needed, split into sub-tasks and run them in parallel.",
     "2) Use sessions.spawn for parallel analysis; track runIds and check with runs.status/runs.wait.",
@@ -54,7 +57,7 @@ export function buildAutonomousPrompt(input: {
     "STRATEGY SELECTION PROTOCOL:",
     "1) Detect regime: trend vs mean-reversion vs high-vol; use candles, funding, and price impact clues.",
     "2) Pick signals: momentum/mean-revert/arb; include perps funding-based hedges and prediction-market edges when applicable.",
-    "3) Size positions: risk budgeted size; cap by policy.maxTradeAmountLamports and dailySpendCapLamports. Note: maxTradeAmountLamports=0 means no cap.",
+    "3) Size positions: risk budgeted size; cap by policy.maxTradeAmountAtomic and dailySpendCapLamports. Note: 0 means no cap.",
     "4) Select route: minimize price impact and slippage; avoid thin liquidity.",
     "5) Skip trade if uncertainty is high or policy/risk checks fail.",
     "TRADE TYPE SELECTION:",
@@ -70,7 +73,7 @@ export function buildAutonomousPrompt(input: {
     ...buildToolingLines(tools),
     "SAFETY:",
     "Do not attempt to bypass tool policy/sandbox; guardrails are advisory, enforcement is via policy/tool allowlists.",
-    `POLICY: killSwitch=${policy.killSwitch}, maxTradeAmountLamports=${policy.maxTradeAmountLamports}, maxSlippageBps=${policy.maxSlippageBps}, maxPriceImpactPct=${policy.maxPriceImpactPct}, cooldownSeconds=${policy.cooldownSeconds}, dailySpendCapLamports=${policy.dailySpendCapLamports ?? "unset"}.`,
+    `POLICY: killSwitch=${policy.killSwitch}, maxTradeAmountAtomic=${policy.maxTradeAmountAtomic}, slippageBps=${policy.slippageBps}, maxPriceImpactPct=${policy.maxPriceImpactPct}, cooldownSeconds=${policy.cooldownSeconds}, dailySpendCapLamports=${policy.dailySpendCapLamports}, maxTradesPerDay=${policy.maxTradesPerDay}.`,
     policy.allowedMints.length > 0
       ? `ALLOWED MINTS: ${policy.allowedMints.join(", ")}`
       : "ALLOWED MINTS: any",
@@ -2,16 +2,23 @@ import fs from "node:fs";
 import path from "node:path";
 import YAML from "yaml";
 import { z } from "zod";
+import { LLM_PROVIDERS } from "../llm/index.js";
+import { parseLocalPolicy } from "../policy/index.js";
 import { isRecord } from "../util/types.js";
 
-const PolicySchema = z.object({
-  killSwitch: z.boolean().default(false),
-  allowedMints: z.array(z.string()).default([]),
-  maxTradeAmountLamports: z.string().default("0"),
-  maxSlippageBps: z.number().int().default(50),
-  maxPriceImpactPct: z.number().default(1),
-  cooldownSeconds: z.number().int().default(30),
-  dailySpendCapLamports: z.string().optional(),
+// The shared policy document; parseLocalPolicy also upgrades the legacy local
+// shape (maxTradeAmountLamports, maxSlippageBps). The local gateway keeps
+// its original 30 second cooldown default; the worker's is 0.
+const PolicySchema = z.unknown().transform((value, ctx) => {
+  try {
+    return parseLocalPolicy(value ?? {}, { cooldownSeconds: 30 });
+  } catch (err) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: err instanceof Error ? err.message : String(err),
+    });
+    return z.NEVER;
+  }
 });
 
 const ToolPolicySchema = z.object({
@@ -40,6 +47,8 @@ const RuntimeSchema = z
     sessionsDir: z.string().default("sessions"),
     runsDir: z.string().default("runs"),
     tasksDir: z.string().default("tasks"),
+    // Cooldown and daily spend counters, kept across restarts.
+    policyCountersPath: z.string().optional(),
     lanes: z
       .record(z.number().int().positive())
       .default({ main: 1, subagent: 4, autopilot: 1 }),
@@ -62,13 +71,20 @@ const ConfigSchema = z.object({
     sdkMode: z.enum(["web3"]).default("web3"),
   }),
   llm: z.object({
-    provider: z
-      .enum(["openai_chat", "openai_responses", "anthropic_messages"])
-      .default("openai_chat"),
+    provider: z.enum(LLM_PROVIDERS).default("openai_chat"),
     baseUrl: z.string().min(1),
     apiKey: z.string().min(1),
     model: z.string().min(1),
     toolMode: z.enum(["auto", "tools", "functions", "none"]).default("auto"),
+    // Required by anthropic_messages; optional cap for the OpenAI providers.
+    maxTokens: z.number().int().positive().optional(),
+    // Stream responses over SSE (openai_responses, anthropic_messages).
+    stream: z.boolean().default(false),
+    maxRetries: z.number().int().min(0).default(3),
+    retryBaseMs: z.number().int().min(0).default(500),
+    retryMaxMs: z.number().int().min(0).default(5_000),
+    maxConcurrency: z.number().int().min(1).default(1),
+    timeoutMs: z.number().int().positive().optional(),
   }),
   autopilot: z.object({
     enabled: z.boolean().default(false),
@@ -112,6 +128,34 @@ const ConfigSchema = z.object({
   notify: z
     .object({
       webhookUrl: z.string().optional(),
+      // HMAC-SHA256 key for the x-ralph-signature header.
+      webhookSecret: z.string().optional(),
+      telegram: z
+        .object({
+          botToken: z.string().optional(),
+          chatId: z.string().optional(),
+        })
+        .optional(),
+      discord: z
+        .object({
+          webhookUrl: z.string().optional(),
+        })
+        .optional(),
+      email: z
+        .object({
+          relayUrl: z.string().optional(),
+          to: z.string().optional(),
+          from: z.string().optional(),
+          token: z.string().optional(),
+        })
+        .optional(),
+    })
+    .default({}),
+  // Price samples in the worker's R2 markets/ layout, read by
+  // market.recorded_candles.
+  marketData: z
+    .object({
+      dir: z.string().default("market-data"),
     })
     .default({}),
   runtime: RuntimeSchema,
@@ -203,6 +247,13 @@ export function loadConfig(configPath?: string): RalphConfig {
       apiKey: process.env.LLM_API_KEY,
       model: process.env.LLM_MODEL,
       toolMode: process.env.LLM_TOOL_MODE,
+      maxTokens: envNumber(process.env.LLM_MAX_TOKENS),
+      stream: envBool(process.env.LLM_STREAM),
+      maxRetries: envNumber(process.env.LLM_MAX_RETRIES),
+      retryBaseMs: envNumber(process.env.LLM_RETRY_BASE_MS),
+      retryMaxMs: envNumber(process.env.LLM_RETRY_MAX_MS),
+      maxConcurrency: envNumber(process.env.LLM_MAX_CONCURRENCY),
+      timeoutMs: envNumber(process.env.LLM_TIMEOUT_MS),
     },
     autopilot: {
       enabled: envBool(process.env.AUTOPILOT_ENABLED),
@@ -215,12 +266,29 @@ export function loadConfig(configPath?: string): RalphConfig {
     },
     notify: {
       webhookUrl: process.env.NOTIFY_WEBHOOK_URL,
+      webhookSecret: process.env.NOTIFY_WEBHOOK_SECRET,
+      telegram: {
+        botToken: process.env.NOTIFY_TELEGRAM_BOT_TOKEN,
+        chatId: process.env.NOTIFY_TELEGRAM_CHAT_ID,
+      },
+      discord: {
+        webhookUrl: process.env.NOTIFY_DISCORD_WEBHOOK_URL,
+      },
+      email: {
+        relayUrl: process.env.NOTIFY_EMAIL_RELAY_URL,
+        to: process.env.NOTIFY_EMAIL_TO,
+        from: process.env.NOTIFY_EMAIL_FROM,
+        token: process.env.NOTIFY_EMAIL_TOKEN,
+      },
     },
     tools: {
       skillsDir: process.env.SKILLS_DIR,
       allow: envList(process.env.TOOLS_ALLOW),
       deny: envList(process.env.TOOLS_DENY),
     },
+    marketData: {
+      dir: process.env.MARKET_DATA_DIR,
+    },
   };
 
   const merged = deepMerge(fileConfig, envOverrides);
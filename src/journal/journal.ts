@@ -25,6 +25,22 @@ export class TradeJournal {
     await appendJsonl(filePath, redact(entry));
   }
 
+  // Journal days (YYYY-MM-DD) in ascending order.
+  async listDates(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.baseDir);
+      return files
+        .map((file) => /^(\d{4}-\d{2}-\d{2})\.jsonl$/.exec(file)?.[1])
+        .filter((date): date is string => Boolean(date))
+        .sort();
+    } catch (err) {
+      if (isErrnoException(err) && err.code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+  }
+
   async read(date: string): Promise<Record<string, unknown>[]> {
     const filePath = path.join(this.baseDir, `${date}.jsonl`);
     try {
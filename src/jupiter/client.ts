@@ -23,9 +23,23 @@ export type QuoteResponse = JupiterQuoteResponse;
 
 export type SwapResponse = JupiterSwapResponse;
 
+export type PriorityLevel = "medium" | "high" | "veryHigh";
+
+// Fee fields of a swap build. prioritizationFeeLamports either lets Jupiter
+// pick a unit price for the level (capped at maxLamports) or adds a Jito tip.
 export type SwapRequest = {
   quoteResponse: QuoteResponse;
   userPublicKey: string;
+  computeUnitPriceMicroLamports?: number;
+  prioritizationFeeLamports?:
+    | {
+        priorityLevelWithMaxLamports: {
+          priorityLevel: PriorityLevel;
+          maxLamports: number;
+        };
+      }
+    | { jitoTipLamports: number };
+  dynamicComputeUnitLimit?: boolean;
 };
 
 export type TokenInfo = {
@@ -108,6 +122,9 @@ export class JupiterClient {
         quoteResponse: request.quoteResponse,
         userPublicKey: request.userPublicKey,
         wrapAndUnwrapSol: true,
+        computeUnitPriceMicroLamports: request.computeUnitPriceMicroLamports,
+        prioritizationFeeLamports: request.prioritizationFeeLamports,
+        dynamicComputeUnitLimit: request.dynamicComputeUnitLimit,
       }),
     });
 
@@ -24,6 +24,8 @@ export const JupiterQuoteResponseSchema = z
 export const JupiterSwapResponseSchema = z.object({
   swapTransaction: z.string(),
   lastValidBlockHeight: z.coerce.number(),
+  prioritizationFeeLamports: z.coerce.number().optional(),
+  computeUnitLimit: z.coerce.number().optional(),
 });
 
 export type JupiterQuoteResponse = z.infer<typeof JupiterQuoteResponseSchema>;
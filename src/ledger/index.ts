@@ -0,0 +1,16 @@
+export {
+  bucketRealizedPnl,
+  buildLedger,
+  COST_BASIS_METHODS,
+  type CostBasisMethod,
+  isCostBasisMethod,
+  type LedgerPosition,
+  type LedgerResult,
+  type LedgerSwap,
+  type LedgerTrade,
+  type MarkedPosition,
+  markToMarket,
+  type PnlBucket,
+  type PnlBucketPeriod,
+  pnlBucketStart,
+} from "./ledger.js";
@@ -0,0 +1,295 @@
+// Position and cost-basis ledger shared by the worker (D1-backed) and the
+// local gateway (TradeJournal-backed). Runtime-neutral: amounts and values are
+// atomic bigint strings, values are denominated in a single quote mint.
+
+export const COST_BASIS_METHODS = ["fifo", "average"] as const;
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+
+export type PnlBucketPeriod = "day" | "week";
+
+export type LedgerSwap = {
+  ts: string;
+  signature?: string | null;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  // Quote-atomic values at execution; null when no price was available.
+  inValueQuote?: string | null;
+  outValueQuote?: string | null;
+  // Network/priority fees converted to the quote mint.
+  feeValueQuote?: string | null;
+};
+
+export type LedgerTrade = {
+  ts: string;
+  signature: string | null;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  valueQuote: string | null;
+  feeQuote: string;
+  // Cost basis of the lots consumed from the input mint.
+  costBasis: string;
+  realizedPnl: string;
+  // Input amount that had no tracked lots (e.g. held before the ledger).
+  untrackedAmount: string;
+};
+
+export type LedgerPosition = {
+  mint: string;
+  amount: string;
+  costBasis: string;
+};
+
+export type LedgerResult = {
+  quoteMint: string;
+  method: CostBasisMethod;
+  positions: LedgerPosition[];
+  trades: LedgerTrade[];
+  realizedPnl: string;
+  fees: string;
+};
+
+export type MarkedPosition = LedgerPosition & {
+  value: string | null;
+  unrealizedPnl: string | null;
+};
+
+export type PnlBucket = {
+  period: PnlBucketPeriod;
+  start: string;
+  trades: number;
+  realizedPnl: string;
+  fees: string;
+};
+
+type Lot = { amount: bigint; cost: bigint };
+
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return (
+    typeof value === "string" &&
+    (COST_BASIS_METHODS as readonly string[]).includes(value)
+  );
+}
+
+function toBigInt(value: string | null | undefined): bigint | null {
+  if (value === null || value === undefined || value === "") return null;
+  try {
+    return BigInt(value);
+  } catch {
+    return null;
+  }
+}
+
+// Removes `amount` from the front of the lot queue (FIFO). With the average
+// method there is only ever one lot, so this is a proportional reduction.
+function takeLots(
+  lots: Lot[],
+  amount: bigint,
+): { amount: bigint; cost: bigint } {
+  let remaining = amount;
+  let taken = 0n;
+  let cost = 0n;
+  while (remaining > 0n && lots.length > 0) {
+    const lot = lots[0] as Lot;
+    if (lot.amount <= remaining) {
+      lots.shift();
+      remaining -= lot.amount;
+      taken += lot.amount;
+      cost += lot.cost;
+      continue;
+    }
+    const partCost = (lot.cost * remaining) / lot.amount;
+    lot.amount -= remaining;
+    lot.cost -= partCost;
+    taken += remaining;
+    cost += partCost;
+    remaining = 0n;
+  }
+  return { amount: taken, cost };
+}
+
+function addLot(lots: Lot[], lot: Lot, method: CostBasisMethod): void {
+  if (lot.amount <= 0n) return;
+  const existing = lots[0];
+  if (method === "average" && existing) {
+    existing.amount += lot.amount;
+    existing.cost += lot.cost;
+    return;
+  }
+  lots.push(lot);
+}
+
+// Replays swaps in time order. Buys (quote -> mint) open lots at the quote
+// spent plus fees; sells and mint -> mint swaps realize proceeds (execution
+// value minus fees) against the consumed lots. When a mint -> mint swap has
+// no execution value, the consumed cost basis carries over to the output.
+export function buildLedger(
+  swaps: LedgerSwap[],
+  opts: { quoteMint: string; method?: CostBasisMethod },
+): LedgerResult {
+  const method = opts.method ?? "fifo";
+  const quoteMint = opts.quoteMint;
+  const lotsByMint = new Map<string, Lot[]>();
+  const lotsFor = (mint: string): Lot[] => {
+    let lots = lotsByMint.get(mint);
+    if (!lots) {
+      lots = [];
+      lotsByMint.set(mint, lots);
+    }
+    return lots;
+  };
+
+  const ordered = swaps
+    .map((swap, index) => ({ swap, index }))
+    .sort(
+      (a, b) =>
+        Date.parse(a.swap.ts) - Date.parse(b.swap.ts) || a.index - b.index,
+    );
+
+  const trades: LedgerTrade[] = [];
+  let realizedTotal = 0n;
+  let feeTotal = 0n;
+  for (const { swap } of ordered) {
+    const inAmount = toBigInt(swap.inAmount);
+    const outAmount = toBigInt(swap.outAmount);
+    if (inAmount === null || outAmount === null) continue;
+    if (swap.inputMint === swap.outputMint) continue;
+    const fee = toBigInt(swap.feeValueQuote) ?? 0n;
+
+    const value =
+      swap.inputMint === quoteMint
+        ? inAmount
+        : swap.outputMint === quoteMint
+          ? outAmount
+          : (toBigInt(swap.outValueQuote) ?? toBigInt(swap.inValueQuote));
+
+    let consumed = { amount: 0n, cost: 0n };
+    let realized = 0n;
+    if (swap.inputMint !== quoteMint) {
+      consumed = takeLots(lotsFor(swap.inputMint), inAmount);
+      if (value !== null && inAmount > 0n) {
+        // Only the tracked part of the input has a cost basis to realize.
+        const proceeds = ((value - fee) * consumed.amount) / inAmount;
+        realized = proceeds - consumed.cost;
+      }
+    }
+
+    if (swap.outputMint !== quoteMint) {
+      const cost =
+        swap.inputMint === quoteMint
+          ? inAmount + fee
+          : value !== null
+            ? value
+            : consumed.cost;
+      addLot(lotsFor(swap.outputMint), { amount: outAmount, cost }, method);
+    }
+
+    realizedTotal += realized;
+    feeTotal += fee;
+    trades.push({
+      ts: swap.ts,
+      signature: swap.signature ?? null,
+      inputMint: swap.inputMint,
+      outputMint: swap.outputMint,
+      inAmount: inAmount.toString(),
+      outAmount: outAmount.toString(),
+      valueQuote: value === null ? null : value.toString(),
+      feeQuote: fee.toString(),
+      costBasis: consumed.cost.toString(),
+      realizedPnl: realized.toString(),
+      untrackedAmount:
+        swap.inputMint === quoteMint
+          ? "0"
+          : (inAmount - consumed.amount).toString(),
+    });
+  }
+
+  const positions: LedgerPosition[] = [];
+  for (const [mint, lots] of lotsByMint) {
+    const amount = lots.reduce((sum, lot) => sum + lot.amount, 0n);
+    if (amount <= 0n) continue;
+    const costBasis = lots.reduce((sum, lot) => sum + lot.cost, 0n);
+    positions.push({
+      mint,
+      amount: amount.toString(),
+      costBasis: costBasis.toString(),
+    });
+  }
+
+  return {
+    quoteMint,
+    method,
+    positions,
+    trades,
+    realizedPnl: realizedTotal.toString(),
+    fees: feeTotal.toString(),
+  };
+}
+
+// `values` maps mint -> current quote-atomic value of the ledger position's
+// amount; missing or null values leave that position unpriced.
+export function markToMarket(
+  positions: LedgerPosition[],
+  values: Map<string, bigint | null>,
+): { positions: MarkedPosition[]; unrealizedPnl: string } {
+  let total = 0n;
+  const marked = positions.map((position) => {
+    const value = values.get(position.mint) ?? null;
+    if (value === null) {
+      return { ...position, value: null, unrealizedPnl: null };
+    }
+    const pnl = value - BigInt(position.costBasis);
+    total += pnl;
+    return {
+      ...position,
+      value: value.toString(),
+      unrealizedPnl: pnl.toString(),
+    };
+  });
+  return { positions: marked, unrealizedPnl: total.toString() };
+}
+
+// UTC day (YYYY-MM-DD) or the Monday that starts the UTC week.
+export function pnlBucketStart(ts: string, period: PnlBucketPeriod): string {
+  const date = new Date(ts);
+  if (period === "week") {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+export function bucketRealizedPnl(
+  trades: LedgerTrade[],
+  period: PnlBucketPeriod,
+): PnlBucket[] {
+  const buckets = new Map<
+    string,
+    { trades: number; realized: bigint; fees: bigint }
+  >();
+  for (const trade of trades) {
+    if (!Number.isFinite(Date.parse(trade.ts))) continue;
+    const start = pnlBucketStart(trade.ts, period);
+    const bucket = buckets.get(start) ?? {
+      trades: 0,
+      realized: 0n,
+      fees: 0n,
+    };
+    bucket.trades += 1;
+    bucket.realized += BigInt(trade.realizedPnl);
+    bucket.fees += BigInt(trade.feeQuote);
+    buckets.set(start, bucket);
+  }
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([start, bucket]) => ({
+      period,
+      start,
+      trades: bucket.trades,
+      realizedPnl: bucket.realized.toString(),
+      fees: bucket.fees.toString(),
+    }));
+}
@@ -0,0 +1,321 @@
+import { readSseEvents, requestWithRetry } from "./http.js";
+import {
+  type AnthropicContentBlock,
+  type AnthropicMessagesResponse,
+  AnthropicMessagesResponseSchema,
+} from "./schema.js";
+import { buildToolNameMap, type ToolNameMap } from "./tool_names.js";
+import type {
+  LlmClient,
+  LlmGenerateOptions,
+  LlmMessage,
+  LlmProviderConfig,
+  LlmResponse,
+  LlmToolCall,
+  ToolSchema,
+} from "./types.js";
+
+type AnthropicMode = "tools" | "none";
+
+type AnthropicMessage = {
+  role: "user" | "assistant";
+  content: Array<Record<string, unknown>>;
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Anthropic Messages API (/messages). System messages move to the top-level
+// `system` field, tool calls become tool_use blocks and tool results are sent
+// back as tool_result blocks inside a user turn.
+export class AnthropicMessagesClient implements LlmClient {
+  private autoMode?: AnthropicMode;
+
+  constructor(private readonly config: LlmProviderConfig) {}
+
+  async generate(
+    messages: LlmMessage[],
+    tools: ToolSchema[],
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse> {
+    const toolNameMap = buildToolNameMap(tools);
+    const mode = this.config.toolMode;
+    if (mode === "auto") {
+      return this.generateAuto(messages, toolNameMap, options);
+    }
+    // There is no legacy functions API here; "functions" means tools.
+    return this.sendRequest(
+      messages,
+      toolNameMap,
+      mode === "none" ? "none" : "tools",
+      options,
+    );
+  }
+
+  private async sendRequest(
+    messages: LlmMessage[],
+    toolNameMap: ToolNameMap,
+    mode: AnthropicMode,
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse> {
+    const url = `${this.config.baseUrl.replace(/\/$/, "")}/messages`;
+    const useTools = toolNameMap.tools.length > 0 && mode === "tools";
+    const system = messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content ?? "")
+      .join("\n\n");
+    const payload: Record<string, unknown> = {
+      model: this.config.model,
+      max_tokens: this.config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages: toAnthropicMessages(messages, useTools),
+      stream: this.config.stream,
+    };
+    if (system) {
+      payload.system = system;
+    }
+    if (useTools) {
+      payload.tools = toolNameMap.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+      payload.tool_choice = { type: "auto" };
+    }
+
+    const response = await requestWithRetry(
+      url,
+      payload,
+      {
+        "x-api-key": this.config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      this.config,
+    );
+    const data = this.config.stream
+      ? await readStreamedMessage(response, options)
+      : AnthropicMessagesResponseSchema.parse(await response.json());
+    return toLlmResponse(data, toolNameMap);
+  }
+
+  private async generateAuto(
+    messages: LlmMessage[],
+    toolNameMap: ToolNameMap,
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse> {
+    const order: AnthropicMode[] = this.autoMode
+      ? [this.autoMode]
+      : ["tools", "none"];
+    let lastError: unknown;
+    for (const mode of order) {
+      try {
+        const result = await this.sendRequest(
+          messages,
+          toolNameMap,
+          mode,
+          options,
+        );
+        this.autoMode = mode;
+        return result;
+      } catch (err) {
+        lastError = err;
+        if (!this.isToolSupportError(err)) {
+          throw err;
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  private isToolSupportError(err: unknown): boolean {
+    const message = err instanceof Error ? err.message : String(err);
+    return (
+      message.includes("tools: Extra inputs are not permitted") ||
+      message.includes("does not support tools") ||
+      message.includes("tool use is not supported") ||
+      message.includes("invalid tools") ||
+      message.includes("tool_choice")
+    );
+  }
+}
+
+function toAnthropicMessages(
+  messages: LlmMessage[],
+  useTools: boolean,
+): AnthropicMessage[] {
+  const out: AnthropicMessage[] = [];
+  // The API requires alternating roles, and all tool results for one
+  // assistant turn must share a single user message.
+  const push = (
+    role: AnthropicMessage["role"],
+    block: Record<string, unknown>,
+  ) => {
+    const last = out[out.length - 1];
+    if (last && last.role === role) {
+      last.content.push(block);
+    } else {
+      out.push({ role, content: [block] });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+    if (message.role === "tool") {
+      if (useTools) {
+        push("user", {
+          type: "tool_result",
+          tool_use_id: message.tool_call_id ?? "",
+          content: message.content ?? "",
+        });
+      } else {
+        // Without tools the API rejects tool blocks, so replay as text.
+        push("user", {
+          type: "text",
+          text: `Tool result (${message.tool_call_id ?? "unknown"}): ${message.content ?? ""}`,
+        });
+      }
+      continue;
+    }
+    if (message.content) {
+      push(message.role, { type: "text", text: message.content });
+    }
+    if (message.role !== "assistant") continue;
+    for (const call of message.tool_calls ?? []) {
+      if (useTools) {
+        push("assistant", {
+          type: "tool_use",
+          id: call.id,
+          name: call.function.name,
+          input: parseToolInput(call.function.arguments),
+        });
+      } else {
+        push("assistant", {
+          type: "text",
+          text: `Tool call ${call.function.name} (${call.id}): ${call.function.arguments}`,
+        });
+      }
+    }
+  }
+  return out;
+}
+
+function parseToolInput(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || "{}") as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function toLlmResponse(
+  data: AnthropicMessagesResponse,
+  toolNameMap: ToolNameMap,
+): LlmResponse {
+  const textParts: string[] = [];
+  const toolCalls: LlmToolCall[] = [];
+  const toolCallPayload: NonNullable<LlmMessage["tool_calls"]> = [];
+  for (const block of data.content) {
+    if (block.type === "text" && block.text) {
+      textParts.push(block.text);
+    } else if (block.type === "tool_use" && block.id && block.name) {
+      const args = JSON.stringify(block.input ?? {});
+      toolCalls.push({
+        id: block.id,
+        name: toolNameMap.toOriginal.get(block.name) ?? block.name,
+        arguments: args,
+      });
+      toolCallPayload.push({
+        id: block.id,
+        type: "function",
+        function: { name: block.name, arguments: args },
+      });
+    }
+  }
+
+  const text = textParts.length > 0 ? textParts.join("") : null;
+  return {
+    message: {
+      role: "assistant",
+      content: text,
+      tool_calls: toolCallPayload.length > 0 ? toolCallPayload : undefined,
+    },
+    text,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: data.usage
+      ? {
+          inputTokens: data.usage.input_tokens,
+          outputTokens: data.usage.output_tokens,
+          totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+        }
+      : undefined,
+    finishReason: data.stop_reason ?? undefined,
+  };
+}
+
+// Rebuilds the message from content_block_* events. tool_use input arrives as
+// partial JSON fragments and is only parsed once the block stops; usage is
+// split between message_start (input) and message_delta (output).
+async function readStreamedMessage(
+  response: Response,
+  options?: LlmGenerateOptions,
+): Promise<AnthropicMessagesResponse> {
+  const blocks: AnthropicContentBlock[] = [];
+  const partialJson = new Map<number, string>();
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let stopReason: string | undefined;
+  for await (const event of readSseEvents(response)) {
+    const data = JSON.parse(event.data) as {
+      type?: string;
+      index?: number;
+      message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+      content_block?: AnthropicContentBlock;
+      delta?: {
+        type?: string;
+        text?: string;
+        partial_json?: string;
+        stop_reason?: string;
+      };
+      usage?: { output_tokens?: number };
+    };
+    const index = data.index ?? 0;
+    if (data.type === "message_start") {
+      inputTokens = data.message?.usage?.input_tokens ?? 0;
+      outputTokens = data.message?.usage?.output_tokens ?? 0;
+    } else if (data.type === "content_block_start" && data.content_block) {
+      blocks[index] = { ...data.content_block };
+    } else if (data.type === "content_block_delta" && data.delta) {
+      const block = blocks[index];
+      if (!block) continue;
+      if (data.delta.type === "text_delta" && data.delta.text) {
+        block.text = (block.text ?? "") + data.delta.text;
+        options?.onTextDelta?.(data.delta.text);
+      } else if (data.delta.type === "input_json_delta") {
+        partialJson.set(
+          index,
+          (partialJson.get(index) ?? "") + (data.delta.partial_json ?? ""),
+        );
+      }
+    } else if (data.type === "content_block_stop") {
+      const block = blocks[index];
+      const json = partialJson.get(index);
+      if (block?.type === "tool_use" && json) {
+        block.input = JSON.parse(json);
+      }
+    } else if (data.type === "message_delta") {
+      stopReason = data.delta?.stop_reason ?? stopReason;
+      outputTokens = data.usage?.output_tokens ?? outputTokens;
+    } else if (data.type === "message_stop") {
+      return {
+        content: blocks.filter(Boolean),
+        stop_reason: stopReason,
+        usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+      };
+    } else if (data.type === "error") {
+      throw new Error(`LLM request failed: ${event.data}`);
+    }
+  }
+  throw new Error("LLM stream ended without message_stop");
+}
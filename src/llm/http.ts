@@ -0,0 +1,199 @@
+import { sleep } from "../util/time.js";
+import type { LlmProviderConfig } from "./types.js";
+
+type RetryConfig = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+type SemaphoreRelease = () => void;
+
+class Semaphore {
+  private active = 0;
+  private readonly queue: Array<(release: SemaphoreRelease) => void> = [];
+
+  constructor(private readonly capacity: number) {}
+
+  async acquire(): Promise<SemaphoreRelease> {
+    if (this.active < this.capacity) {
+      this.active += 1;
+      return () => this.release();
+    }
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+    });
+  }
+
+  private release(): void {
+    this.active = Math.max(0, this.active - 1);
+    const next = this.queue.shift();
+    if (next) {
+      this.active += 1;
+      next(() => this.release());
+    }
+  }
+}
+
+// One semaphore per configured capacity, shared by every client in the
+// process so parallel agents respect the same limit.
+const semaphores = new Map<number, Semaphore>();
+
+function getSemaphore(maxConcurrency: number | undefined): Semaphore | null {
+  if (!maxConcurrency || maxConcurrency <= 0) return null;
+  const capacity = Math.floor(maxConcurrency);
+  let semaphore = semaphores.get(capacity);
+  if (!semaphore) {
+    semaphore = new Semaphore(capacity);
+    semaphores.set(capacity, semaphore);
+  }
+  return semaphore;
+}
+
+function getRetryConfig(config: LlmProviderConfig): RetryConfig {
+  return {
+    maxRetries: Math.max(0, config.maxRetries ?? 3),
+    baseDelayMs: Math.max(0, config.retryBaseMs ?? 500),
+    maxDelayMs: Math.max(0, config.retryMaxMs ?? 5_000),
+  };
+}
+
+function computeRetryDelay(
+  attempt: number,
+  cfg: RetryConfig,
+  retryAfter: string | null,
+): number {
+  if (retryAfter) {
+    const seconds = Number.parseInt(retryAfter, 10);
+    if (Number.isFinite(seconds) && seconds > 0) {
+      return Math.min(cfg.maxDelayMs, seconds * 1000);
+    }
+    const parsed = Date.parse(retryAfter);
+    if (!Number.isNaN(parsed)) {
+      const delta = parsed - Date.now();
+      if (delta > 0) {
+        return Math.min(cfg.maxDelayMs, delta);
+      }
+    }
+  }
+  const exp = Math.min(cfg.maxDelayMs, cfg.baseDelayMs * 2 ** attempt);
+  const jitter = Math.floor(Math.random() * Math.min(250, exp));
+  return Math.min(cfg.maxDelayMs, exp + jitter);
+}
+
+// POSTs JSON with retry/backoff on 408/429/5xx, honouring Retry-After.
+// Concurrency, retry and timeout settings come from the provider config.
+export async function requestWithRetry(
+  url: string,
+  payload: Record<string, unknown>,
+  headers: Record<string, string>,
+  config: LlmProviderConfig,
+): Promise<Response> {
+  const cfg = getRetryConfig(config);
+  const semaphore = getSemaphore(config.maxConcurrency);
+  let lastError: Error | null = null;
+  for (let attempt = 0; attempt <= cfg.maxRetries; attempt += 1) {
+    const release = semaphore ? await semaphore.acquire() : () => {};
+    const controller = new AbortController();
+    const timer = config.timeoutMs
+      ? setTimeout(() => controller.abort(), config.timeoutMs)
+      : undefined;
+    let response: Response | null = null;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...headers,
+        },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new Error(`LLM request timed out after ${config.timeoutMs}ms`);
+      }
+      lastError = err instanceof Error ? err : new Error(String(err));
+    } finally {
+      if (timer) clearTimeout(timer);
+      release();
+    }
+
+    if (response?.ok) {
+      return response;
+    }
+
+    if (response) {
+      const body = await response.text().catch(() => "");
+      if (shouldRetry(response.status) && attempt < cfg.maxRetries) {
+        await sleep(
+          computeRetryDelay(attempt, cfg, response.headers.get("retry-after")),
+        );
+        continue;
+      }
+      throw new Error(
+        `LLM request failed: ${response.status} ${body.slice(0, 500)}`,
+      );
+    }
+
+    if (attempt < cfg.maxRetries) {
+      await sleep(computeRetryDelay(attempt, cfg, null));
+    }
+  }
+
+  if (lastError) {
+    throw lastError;
+  }
+  throw new Error("LLM request failed: unknown error");
+}
+
+function shouldRetry(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export type SseEvent = {
+  event?: string;
+  data: string;
+};
+
+// Minimal text/event-stream reader: yields one event per blank-line separated
+// block, joining multi-line data fields. Comments and ids are ignored.
+export async function* readSseEvents(
+  response: Response,
+): AsyncGenerator<SseEvent> {
+  if (!response.body) {
+    throw new Error("LLM stream missing body");
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const parse = (block: string): SseEvent | null => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+  };
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer = (buffer + decoder.decode(value, { stream: true })).replace(
+      /\r\n/g,
+      "\n",
+    );
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0) {
+      const parsed = parse(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) yield parsed;
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+  const tail = parse(buffer.trim());
+  if (tail) yield tail;
+}
@@ -1,18 +1,43 @@
-import type { RalphConfig } from "../config/config.js";
+import { AnthropicMessagesClient } from "./anthropic_messages.js";
 import { OpenAiChatClient } from "./openai_chat.js";
-import type { LlmClient } from "./types.js";
+import { OpenAiResponsesClient } from "./openai_responses.js";
+import type { LlmClient, LlmProviderConfig } from "./types.js";
 
-export function createLlmClient(config: RalphConfig["llm"]): LlmClient {
+// Provider layer shared by the local agent and the edge worker. Everything
+// under src/llm must stay runtime-neutral (fetch + WebCrypto only).
+export function createLlmClient(config: LlmProviderConfig): LlmClient {
   if (config.provider === "openai_chat") {
     return new OpenAiChatClient(config);
   }
-  throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  if (config.provider === "openai_responses") {
+    return new OpenAiResponsesClient(config);
+  }
+  if (config.provider === "anthropic_messages") {
+    return new AnthropicMessagesClient(config);
+  }
+  throw new Error(`Unsupported LLM provider: ${String(config.provider)}`);
 }
 
+export const LLM_PROVIDERS = [
+  "openai_chat",
+  "openai_responses",
+  "anthropic_messages",
+] as const;
+
+export {
+  ScriptedLlmClient,
+  type ScriptedRequest,
+  type ScriptedStep,
+} from "./scripted.js";
 export type {
   LlmClient,
+  LlmGenerateOptions,
   LlmMessage,
+  LlmProvider,
+  LlmProviderConfig,
   LlmResponse,
   LlmToolCall,
+  LlmUsage,
   ToolSchema,
 } from "./types.js";
+export { addUsage, emptyUsage } from "./usage.js";
@@ -0,0 +1,252 @@
+import { readSseEvents, requestWithRetry } from "./http.js";
+import {
+  type OpenAiResponsesResponse,
+  OpenAiResponsesResponseSchema,
+} from "./schema.js";
+import { buildToolNameMap, type ToolNameMap } from "./tool_names.js";
+import type {
+  LlmClient,
+  LlmGenerateOptions,
+  LlmMessage,
+  LlmProviderConfig,
+  LlmResponse,
+  LlmToolCall,
+  ToolSchema,
+} from "./types.js";
+
+type ResponsesMode = "tools" | "none";
+
+// OpenAI Responses API (/responses). System messages become `instructions`;
+// tool calls and results are top-level function_call / function_call_output
+// input items keyed by call_id.
+export class OpenAiResponsesClient implements LlmClient {
+  private autoMode?: ResponsesMode;
+
+  constructor(private readonly config: LlmProviderConfig) {}
+
+  async generate(
+    messages: LlmMessage[],
+    tools: ToolSchema[],
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse> {
+    const toolNameMap = buildToolNameMap(tools);
+    const mode = this.config.toolMode;
+    if (mode === "auto") {
+      return this.generateAuto(messages, toolNameMap, options);
+    }
+    // There is no legacy functions API here; "functions" means tools.
+    return this.sendRequest(
+      messages,
+      toolNameMap,
+      mode === "none" ? "none" : "tools",
+      options,
+    );
+  }
+
+  private async sendRequest(
+    messages: LlmMessage[],
+    toolNameMap: ToolNameMap,
+    mode: ResponsesMode,
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse> {
+    const url = `${this.config.baseUrl.replace(/\/$/, "")}/responses`;
+    const useTools = toolNameMap.tools.length > 0 && mode === "tools";
+    const instructions = messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content ?? "")
+      .join("\n\n");
+    const payload: Record<string, unknown> = {
+      model: this.config.model,
+      input: toResponsesInput(messages, useTools),
+      store: false,
+      stream: this.config.stream,
+    };
+    if (instructions) {
+      payload.instructions = instructions;
+    }
+    if (this.config.maxTokens) {
+      payload.max_output_tokens = this.config.maxTokens;
+    }
+    if (useTools) {
+      payload.tools = toolNameMap.tools.map((tool) => ({
+        type: "function",
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      }));
+      payload.tool_choice = "auto";
+    }
+
+    const response = await requestWithRetry(
+      url,
+      payload,
+      { authorization: `Bearer ${this.config.apiKey}` },
+      this.config,
+    );
+    const data = this.config.stream
+      ? await readStreamedResponse(response, options)
+      : OpenAiResponsesResponseSchema.parse(await response.json());
+    return toLlmResponse(data, toolNameMap);
+  }
+
+  private async generateAuto(
+    messages: LlmMessage[],
+    toolNameMap: ToolNameMap,
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse> {
+    const order: ResponsesMode[] = this.autoMode
+      ? [this.autoMode]
+      : ["tools", "none"];
+    let lastError: unknown;
+    for (const mode of order) {
+      try {
+        const result = await this.sendRequest(
+          messages,
+          toolNameMap,
+          mode,
+          options,
+        );
+        this.autoMode = mode;
+        return result;
+      } catch (err) {
+        lastError = err;
+        if (!this.isToolSupportError(err)) {
+          throw err;
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  private isToolSupportError(err: unknown): boolean {
+    const message = err instanceof Error ? err.message : String(err);
+    return (
+      message.includes("Unknown parameter: 'tools'") ||
+      message.includes("Unsupported parameter: 'tools'") ||
+      message.includes("does not support tools") ||
+      message.includes("invalid tools") ||
+      message.includes("tool_choice")
+    );
+  }
+}
+
+function toResponsesInput(
+  messages: LlmMessage[],
+  useTools: boolean,
+): Array<Record<string, unknown>> {
+  const input: Array<Record<string, unknown>> = [];
+  for (const message of messages) {
+    if (message.role === "system") continue;
+    if (message.role === "tool") {
+      if (useTools) {
+        input.push({
+          type: "function_call_output",
+          call_id: message.tool_call_id ?? "",
+          output: message.content ?? "",
+        });
+      } else {
+        // Without tools the API rejects function items, so replay as text.
+        input.push({
+          role: "user",
+          content: `Tool result (${message.tool_call_id ?? "unknown"}): ${message.content ?? ""}`,
+        });
+      }
+      continue;
+    }
+    if (message.content) {
+      input.push({ role: message.role, content: message.content });
+    }
+    for (const call of message.tool_calls ?? []) {
+      if (useTools) {
+        input.push({
+          type: "function_call",
+          call_id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        });
+      } else {
+        input.push({
+          role: "assistant",
+          content: `Tool call ${call.function.name} (${call.id}): ${call.function.arguments}`,
+        });
+      }
+    }
+  }
+  return input;
+}
+
+function toLlmResponse(
+  data: OpenAiResponsesResponse,
+  toolNameMap: ToolNameMap,
+): LlmResponse {
+  const textParts: string[] = [];
+  const toolCalls: LlmToolCall[] = [];
+  const toolCallPayload: NonNullable<LlmMessage["tool_calls"]> = [];
+  for (const item of data.output) {
+    if (item.type === "message") {
+      for (const part of item.content ?? []) {
+        if (part.type === "output_text" && part.text) {
+          textParts.push(part.text);
+        }
+      }
+    } else if (item.type === "function_call" && item.name && item.call_id) {
+      const args = item.arguments || "{}";
+      toolCalls.push({
+        id: item.call_id,
+        name: toolNameMap.toOriginal.get(item.name) ?? item.name,
+        arguments: args,
+      });
+      toolCallPayload.push({
+        id: item.call_id,
+        type: "function",
+        function: { name: item.name, arguments: args },
+      });
+    }
+  }
+
+  const text = textParts.length > 0 ? textParts.join("") : null;
+  return {
+    message: {
+      role: "assistant",
+      content: text,
+      tool_calls: toolCallPayload.length > 0 ? toolCallPayload : undefined,
+    },
+    text,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: data.usage
+      ? {
+          inputTokens: data.usage.input_tokens,
+          outputTokens: data.usage.output_tokens,
+          totalTokens:
+            data.usage.total_tokens ??
+            data.usage.input_tokens + data.usage.output_tokens,
+        }
+      : undefined,
+    finishReason: data.status,
+  };
+}
+
+// The terminal response.completed event carries the full response, so deltas
+// are only forwarded to the caller, not reassembled.
+async function readStreamedResponse(
+  response: Response,
+  options?: LlmGenerateOptions,
+): Promise<OpenAiResponsesResponse> {
+  for await (const event of readSseEvents(response)) {
+    if (event.data === "[DONE]") break;
+    const data = JSON.parse(event.data) as {
+      type?: string;
+      delta?: string;
+      response?: unknown;
+      message?: string;
+    };
+    if (data.type === "response.output_text.delta" && data.delta) {
+      options?.onTextDelta?.(data.delta);
+    } else if (data.type === "response.completed") {
+      return OpenAiResponsesResponseSchema.parse(data.response);
+    } else if (data.type === "response.failed" || data.type === "error") {
+      throw new Error(`LLM request failed: ${event.data}`);
+    }
+  }
+  throw new Error("LLM stream ended without a completed response");
+}
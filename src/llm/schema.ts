@@ -27,9 +27,83 @@ export const OpenAiChatResponseSchema = z.object({
   choices: z.array(
     z.object({
       message: OpenAiMessageSchema,
+      finish_reason: z.string().nullish(),
     }),
   ),
+  usage: z
+    .object({
+      prompt_tokens: z.number().default(0),
+      completion_tokens: z.number().default(0),
+      total_tokens: z.number().optional(),
+    })
+    .nullish(),
 });
 
 export type OpenAiMessage = z.infer<typeof OpenAiMessageSchema>;
 export type OpenAiToolCall = z.infer<typeof OpenAiToolCallSchema>;
+
+export const OpenAiResponsesOutputItemSchema = z
+  .object({
+    type: z.string(),
+    role: z.string().optional(),
+    content: z
+      .array(
+        z
+          .object({ type: z.string(), text: z.string().optional() })
+          .passthrough(),
+      )
+      .optional(),
+    call_id: z.string().optional(),
+    name: z.string().optional(),
+    arguments: z.string().optional(),
+  })
+  .passthrough();
+
+export const OpenAiResponsesUsageSchema = z.object({
+  input_tokens: z.number().default(0),
+  output_tokens: z.number().default(0),
+  total_tokens: z.number().optional(),
+});
+
+export const OpenAiResponsesResponseSchema = z
+  .object({
+    status: z.string().optional(),
+    output: z.array(OpenAiResponsesOutputItemSchema),
+    usage: OpenAiResponsesUsageSchema.nullish(),
+  })
+  .passthrough();
+
+export const AnthropicContentBlockSchema = z
+  .object({
+    type: z.string(),
+    text: z.string().optional(),
+    id: z.string().optional(),
+    name: z.string().optional(),
+    input: z.unknown().optional(),
+  })
+  .passthrough();
+
+export const AnthropicUsageSchema = z.object({
+  input_tokens: z.number().default(0),
+  output_tokens: z.number().default(0),
+});
+
+export const AnthropicMessagesResponseSchema = z
+  .object({
+    role: z.string().optional(),
+    content: z.array(AnthropicContentBlockSchema),
+    stop_reason: z.string().nullish(),
+    usage: AnthropicUsageSchema.nullish(),
+  })
+  .passthrough();
+
+export type OpenAiResponsesResponse = z.infer<
+  typeof OpenAiResponsesResponseSchema
+>;
+export type AnthropicMessagesResponse = z.infer<
+  typeof AnthropicMessagesResponseSchema
+>;
+export type OpenAiResponsesOutputItem = z.infer<
+  typeof OpenAiResponsesOutputItemSchema
+>;
+export type AnthropicContentBlock = z.infer<typeof AnthropicContentBlockSchema>;
@@ -0,0 +1,84 @@
+import type {
+  LlmClient,
+  LlmGenerateOptions,
+  LlmMessage,
+  LlmResponse,
+  LlmUsage,
+  ToolSchema,
+} from "./types.js";
+
+export type ScriptedStep = {
+  text?: string;
+  toolCalls?: Array<{
+    id?: string;
+    name: string;
+    // Objects are JSON-encoded; strings are passed through untouched so tests
+    // can exercise malformed arguments.
+    arguments?: Record<string, unknown> | string;
+  }>;
+  usage?: LlmUsage;
+};
+
+export type ScriptedRequest = {
+  messages: LlmMessage[];
+  tools: ToolSchema[];
+};
+
+// Deterministic provider for tests: replays one canned step per generate()
+// call and records what it was sent. Tool call ids default to
+// `call_<step>_<index>` so transcripts are stable across runs.
+export class ScriptedLlmClient implements LlmClient {
+  readonly requests: ScriptedRequest[] = [];
+
+  constructor(private readonly steps: ScriptedStep[]) {}
+
+  async generate(
+    messages: LlmMessage[],
+    tools: ToolSchema[],
+    options?: LlmGenerateOptions,
+  ): Promise<LlmResponse> {
+    const stepIndex = this.requests.length;
+    this.requests.push({
+      messages: structuredClone(messages),
+      tools: structuredClone(tools),
+    });
+    const step = this.steps[stepIndex];
+    if (!step) {
+      throw new Error(`scripted-llm-exhausted: ${stepIndex + 1} calls`);
+    }
+
+    const toolCalls = (step.toolCalls ?? []).map((call, i) => ({
+      id: call.id ?? `call_${stepIndex + 1}_${i + 1}`,
+      name: call.name,
+      arguments:
+        typeof call.arguments === "string"
+          ? call.arguments
+          : JSON.stringify(call.arguments ?? {}),
+    }));
+    const text = step.text ?? null;
+    if (text) options?.onTextDelta?.(text);
+
+    return {
+      message: {
+        role: "assistant",
+        content: text,
+        tool_calls:
+          toolCalls.length > 0
+            ? toolCalls.map((call) => ({
+                id: call.id,
+                type: "function",
+                function: { name: call.name, arguments: call.arguments },
+              }))
+            : undefined,
+      },
+      text,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: step.usage,
+      finishReason: toolCalls.length > 0 ? "tool_calls" : "stop",
+    };
+  }
+
+  get remaining(): number {
+    return Math.max(0, this.steps.length - this.requests.length);
+  }
+}
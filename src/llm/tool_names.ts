@@ -0,0 +1,58 @@
+import type { ToolSchema } from "./types.js";
+
+// Provider APIs restrict tool names to [a-zA-Z0-9_-]{1,64}; our tool ids use
+// dots. Tools are sent under safe aliases and mapped back on the way in.
+export type ToolNameMap = {
+  tools: ToolSchema[];
+  toOriginal: Map<string, string>;
+};
+
+export function buildToolNameMap(tools: ToolSchema[]): ToolNameMap {
+  const used = new Set<string>();
+  const toOriginal = new Map<string, string>();
+  const mapped: ToolSchema[] = [];
+  for (const tool of tools) {
+    const alias = toSafeToolName(tool.name, used);
+    toOriginal.set(alias, tool.name);
+    mapped.push({ ...tool, name: alias });
+  }
+  return { tools: mapped, toOriginal };
+}
+
+function toSafeToolName(name: string, used: Set<string>): string {
+  const base = name.replace(/[^a-zA-Z0-9_-]/g, "_");
+  const trimmed = base.replace(/^_+|_+$/g, "") || "tool";
+  const hash = fnv1a(name).slice(0, 6);
+  let candidate = trimmed;
+  if (candidate.length > 64) {
+    candidate = candidate.slice(0, 64);
+  }
+  if (!/^[a-zA-Z0-9_-]+$/.test(candidate) || candidate.length === 0) {
+    candidate = `tool_${hash}`;
+  }
+  if (used.has(candidate)) {
+    const suffix = `_${hash}`;
+    const maxPrefix = Math.max(1, 64 - suffix.length);
+    candidate = `${trimmed.slice(0, maxPrefix)}${suffix}`;
+    let counter = 1;
+    while (used.has(candidate)) {
+      const extra = `_${hash}${counter}`;
+      const max = Math.max(1, 64 - extra.length);
+      candidate = `${trimmed.slice(0, max)}${extra}`;
+      counter += 1;
+    }
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+// Small sync hash for alias suffixes; avoids node:crypto so the worker can
+// bundle this module.
+function fnv1a(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
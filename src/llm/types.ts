@@ -24,15 +24,57 @@ export type LlmMessage = {
   name?: string;
 };
 
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
 export type LlmResponse = {
   message: LlmMessage;
   text?: string | null;
   toolCalls?: LlmToolCall[];
+  // Provider-reported token counts, when the API returns them.
+  usage?: LlmUsage;
+  finishReason?: string;
+};
+
+export type LlmProvider =
+  | "openai_chat"
+  | "openai_responses"
+  | "anthropic_messages";
+
+// Shared by the local agent (config.llm) and the worker (per-bot strategy +
+// env). Kept free of Node-only APIs so the worker can bundle this package.
+export type LlmProviderConfig = {
+  provider: LlmProvider;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  toolMode: "auto" | "tools" | "functions" | "none";
+  // Required by anthropic_messages; optional cap for the OpenAI providers.
+  maxTokens?: number;
+  // Stream responses over SSE (openai_responses, anthropic_messages).
+  stream?: boolean;
+  // Retries on 408/429/5xx with exponential backoff (default 3, 500ms, 5s).
+  maxRetries?: number;
+  retryBaseMs?: number;
+  retryMaxMs?: number;
+  // Process-wide cap on in-flight requests; unset means unlimited.
+  maxConcurrency?: number;
+  // Per-attempt timeout until response headers; timeouts are not retried.
+  timeoutMs?: number;
+};
+
+export type LlmGenerateOptions = {
+  // Called with text chunks as they arrive when the provider streams.
+  onTextDelta?: (delta: string) => void;
 };
 
 export type LlmClient = {
   generate: (
     messages: LlmMessage[],
     tools: ToolSchema[],
+    options?: LlmGenerateOptions,
   ) => Promise<LlmResponse>;
 };
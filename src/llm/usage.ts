@@ -0,0 +1,19 @@
+import type { LlmUsage } from "./types.js";
+
+export function emptyUsage(): LlmUsage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+// Accumulates per-call usage into a running total; calls without usage
+// (provider did not report it) leave the total unchanged.
+export function addUsage(
+  total: LlmUsage,
+  usage: LlmUsage | undefined,
+): LlmUsage {
+  if (!usage) return total;
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
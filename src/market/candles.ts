@@ -0,0 +1,182 @@
+// Price samples and OHLCV candles shared by the worker (D1/R2-backed) and the
+// local gateway (disk-backed). Runtime-neutral: no node or Workers APIs.
+//
+// Samples are stored one JSON object per line, grouped per pair and UTC day:
+//   <pair>/<YYYY-MM-DD>.jsonl   {"t":1760000000,"price":151.23,"volume":0}
+// where t is unix seconds and price is quote units per base unit.
+
+export const CANDLE_INTERVALS = ["1m", "5m", "1h", "1d"] as const;
+export type CandleInterval = (typeof CANDLE_INTERVALS)[number];
+
+export const CANDLE_INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  "1m": 60,
+  "5m": 300,
+  "1h": 3600,
+  "1d": 86_400,
+};
+
+export const MAX_CANDLES = 1000;
+
+export type PriceSample = {
+  t: number;
+  price: number;
+  // Base units traded at this sample; 0 for quote-only observations.
+  volume?: number;
+};
+
+// Same shape as the Birdeye-backed market.candles tool output.
+export type Candle = {
+  t: number;
+  o: string;
+  h: string;
+  l: string;
+  c: string;
+  v: string;
+};
+
+export type MarketPair = {
+  baseMint: string;
+  quoteMint: string;
+};
+
+const MINT_ALIASES: Record<string, string> = {
+  SOL: "So11111111111111111111111111111111111111112",
+  USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  USDT: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+};
+
+const MINT_RE = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return (
+    typeof value === "string" &&
+    (CANDLE_INTERVALS as readonly string[]).includes(value)
+  );
+}
+
+// "SOL-USDC" or "<baseMint>-<quoteMint>"; aliases resolve to mints.
+export function parseMarketPair(value: string): MarketPair {
+  const parts = value.trim().split("-");
+  if (parts.length !== 2) throw new Error("invalid-market-pair");
+  const [baseMint, quoteMint] = parts.map(
+    (part) => MINT_ALIASES[part.toUpperCase()] ?? part,
+  );
+  if (
+    !baseMint ||
+    !quoteMint ||
+    baseMint === quoteMint ||
+    !MINT_RE.test(baseMint) ||
+    !MINT_RE.test(quoteMint)
+  ) {
+    throw new Error("invalid-market-pair");
+  }
+  return { baseMint, quoteMint };
+}
+
+export function marketPairKey(pair: MarketPair): string {
+  return `${pair.baseMint}-${pair.quoteMint}`;
+}
+
+export function candleStart(t: number, interval: CandleInterval): number {
+  const seconds = CANDLE_INTERVAL_SECONDS[interval];
+  return Math.floor(t / seconds) * seconds;
+}
+
+export function sampleDay(t: number): string {
+  return new Date(t * 1000).toISOString().slice(0, 10);
+}
+
+export function sampleObjectKey(pair: MarketPair, day: string): string {
+  return `${marketPairKey(pair)}/${day}.jsonl`;
+}
+
+export function formatSampleLine(sample: PriceSample): string {
+  return JSON.stringify({
+    t: sample.t,
+    price: sample.price,
+    volume: sample.volume ?? 0,
+  });
+}
+
+// Malformed lines and non-positive prices are skipped.
+export function parseSampleLines(text: string): PriceSample[] {
+  const samples: PriceSample[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as Record<string, unknown>;
+      const t = Number(parsed.t);
+      const price = Number(parsed.price);
+      const volume = Number(parsed.volume ?? 0);
+      if (!Number.isFinite(t) || !Number.isFinite(price) || price <= 0) {
+        continue;
+      }
+      samples.push({
+        t: Math.floor(t),
+        price,
+        volume: Number.isFinite(volume) ? volume : 0,
+      });
+    } catch {
+      // ignore
+    }
+  }
+  return samples;
+}
+
+// Buckets samples into candles, oldest first, keeping the newest `limit`.
+// Buckets without samples are omitted rather than forward-filled.
+export function aggregateCandles(
+  samples: PriceSample[],
+  interval: CandleInterval,
+  limit = MAX_CANDLES,
+): Candle[] {
+  const sorted = [...samples].sort((a, b) => a.t - b.t);
+  const buckets = new Map<
+    number,
+    { o: number; h: number; l: number; c: number; v: number }
+  >();
+  for (const sample of sorted) {
+    const t = candleStart(sample.t, interval);
+    const volume = sample.volume ?? 0;
+    const bucket = buckets.get(t);
+    if (!bucket) {
+      buckets.set(t, {
+        o: sample.price,
+        h: sample.price,
+        l: sample.price,
+        c: sample.price,
+        v: volume,
+      });
+      continue;
+    }
+    bucket.h = Math.max(bucket.h, sample.price);
+    bucket.l = Math.min(bucket.l, sample.price);
+    bucket.c = sample.price;
+    bucket.v += volume;
+  }
+  const candles = [...buckets.entries()].map(([t, b]) => ({
+    t,
+    o: String(b.o),
+    h: String(b.h),
+    l: String(b.l),
+    c: String(b.c),
+    v: String(b.v),
+  }));
+  return candles.slice(-Math.max(1, Math.min(limit, MAX_CANDLES)));
+}
+
+// UTC days (YYYY-MM-DD) covering the newest `limit` candles ending at `to`.
+export function sampleDays(
+  interval: CandleInterval,
+  limit: number,
+  to: number,
+): string[] {
+  const span = CANDLE_INTERVAL_SECONDS[interval] * Math.max(1, limit);
+  const days: string[] = [];
+  const first = Math.floor((to - span) / 86_400);
+  const last = Math.floor(to / 86_400);
+  for (let day = Math.max(first, last - 366); day <= last; day += 1) {
+    days.push(sampleDay(day * 86_400));
+  }
+  return days;
+}
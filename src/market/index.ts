@@ -0,0 +1,44 @@
+export {
+  aggregateCandles,
+  CANDLE_INTERVAL_SECONDS,
+  CANDLE_INTERVALS,
+  type Candle,
+  type CandleInterval,
+  candleStart,
+  formatSampleLine,
+  isCandleInterval,
+  MAX_CANDLES,
+  type MarketPair,
+  marketPairKey,
+  type PriceSample,
+  parseMarketPair,
+  parseSampleLines,
+  sampleDay,
+  sampleDays,
+  sampleObjectKey,
+} from "./candles.js";
+export {
+  atr,
+  type BollingerSeries,
+  bollingerBands,
+  computeIndicators,
+  ema,
+  type IndicatorSeries,
+  type IndicatorSnapshot,
+  type MacdSeries,
+  macd,
+  type NumericCandle,
+  realizedVolatility,
+  rsi,
+  sma,
+  summarizeIndicators,
+  toNumericCandles,
+  trueRange,
+  vwap,
+} from "./indicators.js";
+export {
+  type LiquidityPair,
+  liquidityByMint,
+  type MintLiquidity,
+  RAYDIUM_PAIRS_PATH,
+} from "./liquidity.js";
@@ -0,0 +1,354 @@
+// Technical indicators over candle series. Pure and deterministic: series
+// functions return one value per input, null until the lookback is filled.
+// Smoothed averages (EMA, RSI, ATR) are seeded with a simple average, and
+// RSI/ATR use Wilder's smoothing, matching the common charting references.
+
+import type { Candle } from "./candles.js";
+
+export type IndicatorSeries = Array<number | null>;
+
+// Candle fields as numbers; accepts the string-valued Candle shape too.
+export type NumericCandle = {
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+};
+
+export function toNumericCandles(
+  candles: Array<Candle | NumericCandle>,
+): NumericCandle[] {
+  return candles
+    .map((candle) => ({
+      t: Number(candle.t),
+      o: Number(candle.o),
+      h: Number(candle.h),
+      l: Number(candle.l),
+      c: Number(candle.c),
+      v: Number(candle.v) || 0,
+    }))
+    .filter(
+      (candle) =>
+        Number.isFinite(candle.t) &&
+        Number.isFinite(candle.h) &&
+        Number.isFinite(candle.l) &&
+        Number.isFinite(candle.c),
+    )
+    .sort((a, b) => a.t - b.t);
+}
+
+function assertPeriod(period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error("invalid-indicator-period");
+  }
+}
+
+export function sma(values: number[], period: number): IndicatorSeries {
+  assertPeriod(period);
+  const out: IndicatorSeries = [];
+  let sum = 0;
+  for (const [i, value] of values.entries()) {
+    sum += value;
+    if (i >= period) sum -= values[i - period] ?? 0;
+    out.push(i >= period - 1 ? sum / period : null);
+  }
+  return out;
+}
+
+// Skips leading nulls so it can smooth another indicator's output.
+export function ema(values: IndicatorSeries, period: number): IndicatorSeries {
+  assertPeriod(period);
+  const alpha = 2 / (period + 1);
+  const out: IndicatorSeries = [];
+  let seed: number[] = [];
+  let prev: number | null = null;
+  for (const value of values) {
+    if (value === null) {
+      out.push(null);
+      continue;
+    }
+    if (prev === null) {
+      seed.push(value);
+      if (seed.length < period) {
+        out.push(null);
+        continue;
+      }
+      prev = seed.reduce((sum, v) => sum + v, 0) / period;
+      seed = [];
+      out.push(prev);
+      continue;
+    }
+    prev = alpha * value + (1 - alpha) * prev;
+    out.push(prev);
+  }
+  return out;
+}
+
+export function rsi(closes: number[], period = 14): IndicatorSeries {
+  assertPeriod(period);
+  const out: IndicatorSeries = closes.map(() => null);
+  if (closes.length <= period) return out;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i += 1) {
+    const change = (closes[i] ?? 0) - (closes[i - 1] ?? 0);
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+  const value = () => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+  out[period] = value();
+  for (let i = period + 1; i < closes.length; i += 1) {
+    const change = (closes[i] ?? 0) - (closes[i - 1] ?? 0);
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    out[i] = value();
+  }
+  return out;
+}
+
+export type MacdSeries = {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+};
+
+export function macd(
+  closes: number[],
+  fast = 12,
+  slow = 26,
+  signalPeriod = 9,
+): MacdSeries {
+  if (fast >= slow) throw new Error("invalid-indicator-period");
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f === null || f === undefined || s === null || s === undefined
+      ? null
+      : f - s;
+  });
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, i) => {
+    const s = signal[i];
+    return value === null || s === null || s === undefined ? null : value - s;
+  });
+  return { macd: line, signal, histogram };
+}
+
+export type BollingerSeries = {
+  middle: IndicatorSeries;
+  upper: IndicatorSeries;
+  lower: IndicatorSeries;
+};
+
+// Population standard deviation, as in Bollinger's definition.
+export function bollingerBands(
+  closes: number[],
+  period = 20,
+  multiplier = 2,
+): BollingerSeries {
+  const middle = sma(closes, period);
+  const upper: IndicatorSeries = [];
+  const lower: IndicatorSeries = [];
+  for (const [i, mean] of middle.entries()) {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      continue;
+    }
+    const window = closes.slice(i - period + 1, i + 1);
+    const variance =
+      window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period;
+    const width = multiplier * Math.sqrt(variance);
+    upper.push(mean + width);
+    lower.push(mean - width);
+  }
+  return { middle, upper, lower };
+}
+
+export function trueRange(candles: NumericCandle[]): number[] {
+  return candles.map((candle, i) => {
+    const prevClose = candles[i - 1]?.c;
+    if (prevClose === undefined) return candle.h - candle.l;
+    return Math.max(
+      candle.h - candle.l,
+      Math.abs(candle.h - prevClose),
+      Math.abs(candle.l - prevClose),
+    );
+  });
+}
+
+export function atr(candles: NumericCandle[], period = 14): IndicatorSeries {
+  assertPeriod(period);
+  const ranges = trueRange(candles);
+  const out: IndicatorSeries = ranges.map(() => null);
+  if (ranges.length < period) return out;
+  let prev = ranges.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < ranges.length; i += 1) {
+    prev = (prev * (period - 1) + (ranges[i] ?? 0)) / period;
+    out[i] = prev;
+  }
+  return out;
+}
+
+// Sample standard deviation of log returns over the trailing `period`
+// returns, per bar (not annualized).
+export function realizedVolatility(
+  closes: number[],
+  period = 20,
+): IndicatorSeries {
+  if (!Number.isInteger(period) || period < 2) {
+    throw new Error("invalid-indicator-period");
+  }
+  const returns = closes.map((close, i) => {
+    const prev = closes[i - 1];
+    return prev === undefined || prev <= 0 || close <= 0
+      ? null
+      : Math.log(close / prev);
+  });
+  return returns.map((_, i) => {
+    if (i < period) return null;
+    const window = returns.slice(i - period + 1, i + 1);
+    if (window.some((r) => r === null)) return null;
+    const values = window as number[];
+    const mean = values.reduce((sum, v) => sum + v, 0) / period;
+    const variance =
+      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (period - 1);
+    return Math.sqrt(variance);
+  });
+}
+
+// Cumulative VWAP over the series using the typical price (h + l + c) / 3.
+// Null while no volume has traded.
+export function vwap(candles: NumericCandle[]): IndicatorSeries {
+  let pv = 0;
+  let volume = 0;
+  return candles.map((candle) => {
+    pv += ((candle.h + candle.l + candle.c) / 3) * candle.v;
+    volume += candle.v;
+    return volume > 0 ? pv / volume : null;
+  });
+}
+
+export type IndicatorSnapshot = {
+  candles: number;
+  t: number | null;
+  close: number | null;
+  sma20: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  rsi14: number | null;
+  macd: {
+    macd: number | null;
+    signal: number | null;
+    histogram: number | null;
+  };
+  bollinger: {
+    upper: number | null;
+    middle: number | null;
+    lower: number | null;
+    // Where the close sits in the band: 0 = lower, 1 = upper.
+    percentB: number | null;
+  };
+  atr14: number | null;
+  // Per-bar stdev of log returns over 20 bars, and annualized when the
+  // candle interval is known.
+  realizedVolatility: { perBar: number | null; annualized: number | null };
+  vwap: number | null;
+};
+
+const SECONDS_PER_YEAR = 365 * 86_400;
+
+function last(series: IndicatorSeries): number | null {
+  return series.length > 0 ? (series[series.length - 1] ?? null) : null;
+}
+
+// Latest value of every indicator with the default periods.
+export function computeIndicators(
+  input: Array<Candle | NumericCandle>,
+  opts?: { intervalSeconds?: number },
+): IndicatorSnapshot {
+  const candles = toNumericCandles(input);
+  const closes = candles.map((candle) => candle.c);
+  const close = closes.length > 0 ? (closes[closes.length - 1] ?? null) : null;
+  const macdSeries = macd(closes);
+  const bands = bollingerBands(closes);
+  const upper = last(bands.upper);
+  const lower = last(bands.lower);
+  const perBar = last(realizedVolatility(closes));
+  const intervalSeconds = opts?.intervalSeconds;
+  return {
+    candles: candles.length,
+    t: candles[candles.length - 1]?.t ?? null,
+    close,
+    sma20: last(sma(closes, 20)),
+    ema12: last(ema(closes, 12)),
+    ema26: last(ema(closes, 26)),
+    rsi14: last(rsi(closes)),
+    macd: {
+      macd: last(macdSeries.macd),
+      signal: last(macdSeries.signal),
+      histogram: last(macdSeries.histogram),
+    },
+    bollinger: {
+      upper,
+      middle: last(bands.middle),
+      lower,
+      percentB:
+        upper !== null && lower !== null && close !== null && upper > lower
+          ? (close - lower) / (upper - lower)
+          : null,
+    },
+    atr14: last(atr(candles)),
+    realizedVolatility: {
+      perBar,
+      annualized:
+        perBar !== null && intervalSeconds && intervalSeconds > 0
+          ? perBar * Math.sqrt(SECONDS_PER_YEAR / intervalSeconds)
+          : null,
+    },
+    vwap: last(vwap(candles)),
+  };
+}
+
+function fmt(value: number | null, digits = 4): string {
+  if (value === null || !Number.isFinite(value)) return "n/a";
+  return Number(value.toPrecision(digits)).toString();
+}
+
+function pct(value: number | null): string {
+  return value === null || !Number.isFinite(value)
+    ? "n/a"
+    : `${(value * 100).toFixed(1)}%`;
+}
+
+// One line per indicator family, for prompts and tool output.
+export function summarizeIndicators(snapshot: IndicatorSnapshot): string {
+  if (snapshot.candles === 0) return "no candles recorded";
+  const trend =
+    snapshot.ema12 === null || snapshot.ema26 === null
+      ? ""
+      : snapshot.ema12 > snapshot.ema26
+        ? " (EMA12 above EMA26)"
+        : " (EMA12 below EMA26)";
+  return [
+    `close ${fmt(snapshot.close, 6)} over ${snapshot.candles} candles`,
+    `SMA20 ${fmt(snapshot.sma20, 6)} · EMA12 ${fmt(snapshot.ema12, 6)} · EMA26 ${fmt(snapshot.ema26, 6)}${trend}`,
+    `RSI14 ${fmt(snapshot.rsi14)}`,
+    `MACD ${fmt(snapshot.macd.macd)} signal ${fmt(snapshot.macd.signal)} histogram ${fmt(snapshot.macd.histogram)}`,
+    `Bollinger(20,2) ${fmt(snapshot.bollinger.lower, 6)}–${fmt(snapshot.bollinger.upper, 6)} %B ${fmt(snapshot.bollinger.percentB, 3)}`,
+    `ATR14 ${fmt(snapshot.atr14)}`,
+    `realized vol ${pct(snapshot.realizedVolatility.perBar)}/bar${
+      snapshot.realizedVolatility.annualized === null
+        ? ""
+        : ` (${pct(snapshot.realizedVolatility.annualized)} annualized)`
+    }`,
+    `VWAP ${fmt(snapshot.vwap, 6)}`,
+  ].join("\n");
+}
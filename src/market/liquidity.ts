@@ -0,0 +1,50 @@
+// Pool liquidity per mint, from Raydium's pair list. Shared by the
+// market.liquidity_by_mint tool and the worker's token screening.
+// Runtime-neutral: no node or Workers APIs.
+
+export const RAYDIUM_PAIRS_PATH = "/v2/main/pairs";
+
+// The fields of a Raydium /v2/main/pairs entry this module reads.
+export type LiquidityPair = {
+  ammId?: string;
+  lpMint?: string;
+  liquidity?: number | string;
+  baseMint?: string;
+  quoteMint?: string;
+};
+
+export type MintLiquidity = {
+  // Sum over the top pools, in USD.
+  totalTvlUsd: string;
+  pools: Array<{ venue: "raydium"; poolId: string; tvlUsd: string }>;
+};
+
+function tvl(value: number | string | undefined): number {
+  const num = typeof value === "number" ? value : Number(value ?? "");
+  return Number.isFinite(num) ? num : 0;
+}
+
+// Pools that trade the mint on either side, deepest first.
+export function liquidityByMint(
+  pairs: LiquidityPair[],
+  mint: string,
+  topPools = 10,
+): MintLiquidity {
+  const pools = pairs
+    .filter((pair) => pair.baseMint === mint || pair.quoteMint === mint)
+    .map((pair) => ({
+      poolId: String(pair.ammId ?? pair.lpMint ?? ""),
+      tvlValue: tvl(pair.liquidity),
+    }))
+    .filter((pool) => pool.poolId)
+    .sort((a, b) => b.tvlValue - a.tvlValue)
+    .slice(0, topPools);
+  return {
+    totalTvlUsd: String(pools.reduce((sum, pool) => sum + pool.tvlValue, 0)),
+    pools: pools.map((pool) => ({
+      venue: "raydium",
+      poolId: pool.poolId,
+      tvlUsd: String(pool.tvlValue),
+    })),
+  };
+}
@@ -0,0 +1,62 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { isErrnoException } from "../util/types.js";
+import {
+  aggregateCandles,
+  type Candle,
+  type CandleInterval,
+  formatSampleLine,
+  type MarketPair,
+  type PriceSample,
+  parseSampleLines,
+  sampleDay,
+  sampleDays,
+  sampleObjectKey,
+} from "./candles.js";
+
+// Disk-backed price samples in the worker's R2 layout, so a synced copy of
+// the bucket's markets/ prefix can be read as-is.
+export class MarketDataStore {
+  constructor(private readonly baseDir = "market-data") {}
+
+  async append(pair: MarketPair, sample: PriceSample): Promise<void> {
+    const filePath = path.join(
+      this.baseDir,
+      sampleObjectKey(pair, sampleDay(sample.t)),
+    );
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, `${formatSampleLine(sample)}\n`, "utf8");
+  }
+
+  async readSamples(pair: MarketPair, days: string[]): Promise<PriceSample[]> {
+    const samples: PriceSample[] = [];
+    for (const day of days) {
+      const filePath = path.join(this.baseDir, sampleObjectKey(pair, day));
+      try {
+        const raw = await fs.readFile(filePath, "utf8");
+        samples.push(...parseSampleLines(raw));
+      } catch (err) {
+        if (isErrnoException(err) && err.code === "ENOENT") continue;
+        throw err;
+      }
+    }
+    return samples;
+  }
+
+  async candles(
+    pair: MarketPair,
+    interval: CandleInterval,
+    limit: number,
+    to = Math.floor(Date.now() / 1000),
+  ): Promise<Candle[]> {
+    const samples = await this.readSamples(
+      pair,
+      sampleDays(interval, limit, to),
+    );
+    return aggregateCandles(
+      samples.filter((sample) => sample.t <= to),
+      interval,
+      limit,
+    );
+  }
+}
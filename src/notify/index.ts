@@ -0,0 +1,17 @@
+export {
+  dispatchNotification,
+  formatNotificationText,
+  isNotificationEventType,
+  isNotificationSinkType,
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_SINK_TYPES,
+  type NotificationDelivery,
+  type NotificationEvent,
+  type NotificationEventType,
+  type NotificationLevel,
+  type NotificationSink,
+  type NotificationSinkType,
+  type NotifyOptions,
+  sendNotification,
+  signWebhookPayload,
+} from "./notify.js";
@@ -0,0 +1,230 @@
+// Notification sinks shared by the local `notify.emit` tool and the edge
+// worker. Runtime-neutral: fetch + WebCrypto only.
+
+export const NOTIFICATION_EVENT_TYPES = [
+  "trade.executed",
+  "trade.failed",
+  "trade.proposed",
+  "policy.rejected",
+  "killswitch.tripped",
+  "bot.disabled",
+  "operator",
+] as const;
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number];
+
+export const NOTIFICATION_SINK_TYPES = [
+  "webhook",
+  "telegram",
+  "discord",
+  "email",
+] as const;
+export type NotificationSinkType = (typeof NOTIFICATION_SINK_TYPES)[number];
+
+export type NotificationLevel = "info" | "warn" | "error";
+
+export type NotificationEvent = {
+  type: NotificationEventType;
+  level: NotificationLevel;
+  title: string;
+  message: string;
+  ts: string;
+  botId?: string | null;
+  metadata?: Record<string, unknown>;
+};
+
+export type NotificationSink =
+  // Generic JSON webhook; signed with HMAC-SHA256 when `secret` is set.
+  | { type: "webhook"; url: string; secret?: string }
+  | { type: "telegram"; botToken: string; chatId: string }
+  | { type: "discord"; webhookUrl: string }
+  // HTTP relay that sends the email (e.g. a transactional email API proxy).
+  | {
+      type: "email";
+      relayUrl: string;
+      to: string;
+      from?: string;
+      token?: string;
+    };
+
+export type NotificationDelivery = {
+  sink: NotificationSinkType;
+  ok: boolean;
+  error?: string;
+};
+
+export type NotifyOptions = {
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+};
+
+const TELEGRAM_API = "https://api.telegram.org";
+// Discord rejects message content over 2000 characters.
+const DISCORD_MAX_CONTENT = 2000;
+
+export function isNotificationEventType(
+  value: unknown,
+): value is NotificationEventType {
+  return (
+    typeof value === "string" &&
+    (NOTIFICATION_EVENT_TYPES as readonly string[]).includes(value)
+  );
+}
+
+export function isNotificationSinkType(
+  value: unknown,
+): value is NotificationSinkType {
+  return (
+    typeof value === "string" &&
+    (NOTIFICATION_SINK_TYPES as readonly string[]).includes(value)
+  );
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Receivers verify `x-ralph-signature` by computing the same HMAC over
+// `${x-ralph-timestamp}.${raw body}`.
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`),
+  );
+  return `sha256=${toHex(signature)}`;
+}
+
+export function formatNotificationText(event: NotificationEvent): string {
+  const prefix =
+    event.level === "info" ? "" : `[${event.level.toUpperCase()}] `;
+  const bot = event.botId ? ` (bot ${event.botId})` : "";
+  return `${prefix}${event.title}${bot}\n${event.message}`;
+}
+
+async function post(
+  url: string,
+  init: { headers?: Record<string, string>; body: string },
+  opts: NotifyOptions | undefined,
+): Promise<void> {
+  const fetchFn = opts?.fetch ?? fetch;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), opts?.timeoutMs ?? 5_000);
+  try {
+    const response = await fetchFn(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...init.headers },
+      body: init.body,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(`notify-http-error: ${response.status} ${text}`.trim());
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function sendNotification(
+  sink: NotificationSink,
+  event: NotificationEvent,
+  opts?: NotifyOptions,
+): Promise<void> {
+  if (sink.type === "webhook") {
+    const body = JSON.stringify(event);
+    const headers: Record<string, string> = { "x-ralph-event": event.type };
+    if (sink.secret) {
+      const timestamp = String(Math.floor(Date.parse(event.ts) / 1000));
+      headers["x-ralph-timestamp"] = timestamp;
+      headers["x-ralph-signature"] = await signWebhookPayload(
+        sink.secret,
+        timestamp,
+        body,
+      );
+    }
+    await post(sink.url, { headers, body }, opts);
+    return;
+  }
+  if (sink.type === "telegram") {
+    await post(
+      `${TELEGRAM_API}/bot${sink.botToken}/sendMessage`,
+      {
+        body: JSON.stringify({
+          chat_id: sink.chatId,
+          text: formatNotificationText(event),
+          disable_web_page_preview: true,
+        }),
+      },
+      opts,
+    );
+    return;
+  }
+  if (sink.type === "discord") {
+    await post(
+      sink.webhookUrl,
+      {
+        body: JSON.stringify({
+          content: formatNotificationText(event).slice(0, DISCORD_MAX_CONTENT),
+        }),
+      },
+      opts,
+    );
+    return;
+  }
+  if (sink.type === "email") {
+    await post(
+      sink.relayUrl,
+      {
+        headers: sink.token ? { authorization: `Bearer ${sink.token}` } : {},
+        body: JSON.stringify({
+          to: sink.to,
+          from: sink.from,
+          subject: event.title,
+          text: formatNotificationText(event),
+          event,
+        }),
+      },
+      opts,
+    );
+    return;
+  }
+  throw new Error(
+    `unsupported-notification-sink: ${String((sink as { type?: unknown }).type)}`,
+  );
+}
+
+// Sends to every sink; one failing sink never blocks the others.
+export async function dispatchNotification(
+  sinks: NotificationSink[],
+  event: NotificationEvent,
+  opts?: NotifyOptions,
+): Promise<NotificationDelivery[]> {
+  return await Promise.all(
+    sinks.map(async (sink) => {
+      try {
+        await sendNotification(sink, event, opts);
+        return { sink: sink.type, ok: true };
+      } catch (err) {
+        return {
+          sink: sink.type,
+          ok: false,
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+    }),
+  );
+}
@@ -0,0 +1,87 @@
+import type { PolicyFacts } from "./rules.js";
+import type { PolicyDocument } from "./schema.js";
+
+// Per-wallet counters behind the cooldown, daily spend and daily trade
+// rules. Each runtime persists them (D1 in the worker, a JSON file locally)
+// and records every broadcast swap; these helpers keep the day rollover and
+// the facts they feed identical in both.
+
+export type PolicyCounters = {
+  // UTC day the trade and spend totals belong to, YYYY-MM-DD.
+  day: string;
+  trades: number;
+  // SOL sold today, in lamports.
+  spentLamports: string;
+  lastTradeAt: string | null;
+};
+
+export type CountedTrade = { inputMint: string; inAmount: string };
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+function utcDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+// The counters as of now: totals reset on a new UTC day, the last trade
+// time carries over so a cooldown spans midnight.
+export function currentPolicyCounters(
+  counters: PolicyCounters | null,
+  now = new Date(),
+): PolicyCounters {
+  const day = utcDay(now);
+  if (counters && counters.day === day) return counters;
+  return {
+    day,
+    trades: 0,
+    spentLamports: "0",
+    lastTradeAt: counters?.lastTradeAt ?? null,
+  };
+}
+
+// Only SOL sold counts toward the daily spend cap.
+export function lamportsSold(trade: CountedTrade): bigint {
+  return trade.inputMint === SOL_MINT && /^[0-9]+$/.test(trade.inAmount)
+    ? BigInt(trade.inAmount)
+    : 0n;
+}
+
+export function recordPolicyTrade(
+  counters: PolicyCounters | null,
+  trade: CountedTrade,
+  now = new Date(),
+): PolicyCounters {
+  const current = currentPolicyCounters(counters, now);
+  return {
+    day: current.day,
+    trades: current.trades + 1,
+    spentLamports: (
+      BigInt(current.spentLamports) + lamportsSold(trade)
+    ).toString(),
+    lastTradeAt: now.toISOString(),
+  };
+}
+
+// Cooldown and daily spend facts for a trade about to be sent.
+export function counterPolicyFacts(
+  policy: Pick<PolicyDocument, "cooldownSeconds" | "dailySpendCapLamports">,
+  counters: PolicyCounters | null,
+  trade: CountedTrade,
+  now = new Date(),
+): Pick<PolicyFacts, "cooldown" | "dailySpend"> {
+  const current = currentPolicyCounters(counters, now);
+  const last = current.lastTradeAt ? Date.parse(current.lastTradeAt) : NaN;
+  return {
+    cooldown: {
+      elapsedSeconds: Number.isFinite(last)
+        ? Math.floor((now.getTime() - last) / 1000)
+        : null,
+      minSeconds: policy.cooldownSeconds,
+    },
+    dailySpend: {
+      spentLamports: current.spentLamports,
+      tradeLamports: lamportsSold(trade).toString(),
+      capLamports: policy.dailySpendCapLamports,
+    },
+  };
+}
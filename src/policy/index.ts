@@ -1,2 +1,35 @@
-export type { RiskResult } from "./policy.js";
-export { evaluateTrade } from "./policy.js";
+export {
+  type CountedTrade,
+  counterPolicyFacts,
+  currentPolicyCounters,
+  lamportsSold,
+  type PolicyCounters,
+  recordPolicyTrade,
+} from "./counters.js";
+export type { RiskResult, SwapQuote } from "./policy.js";
+export {
+  evaluateSwap,
+  evaluateTrade,
+  quotePriceImpactPct,
+  quoteValueAtomic,
+} from "./policy.js";
+export {
+  evaluatePolicy,
+  POLICY_RULES,
+  type PolicyFacts,
+  type PolicyReport,
+  type PolicyRule,
+  type PolicyRuleName,
+  type PolicyRuleResult,
+  type PolicyRuleValue,
+  type PolicyVerdict,
+} from "./rules.js";
+export {
+  POLICY_DEFAULTS,
+  POLICY_VERSION,
+  type PolicyDocument,
+  type PolicyInput,
+  parseLocalPolicy,
+  parsePolicy,
+  upgradePolicy,
+} from "./schema.js";
@@ -1,48 +1,172 @@
-import type {
-  BalancesSnapshot,
-  PolicySnapshot,
-  QuoteSummary,
-} from "../tools/types.js";
+import type { BalancesSnapshot, QuoteSummary } from "../tools/types.js";
+import {
+  counterPolicyFacts,
+  currentPolicyCounters,
+  lamportsSold,
+  type PolicyCounters,
+} from "./counters.js";
+import {
+  evaluatePolicy,
+  type PolicyFacts,
+  type PolicyReport,
+  type PolicyRuleResult,
+} from "./rules.js";
+import {
+  type PolicyDocument,
+  type PolicyInput,
+  parseLocalPolicy,
+} from "./schema.js";
 
 export type RiskResult = {
   allow: boolean;
   reasons: string[];
+  rules: PolicyRuleResult[];
   adjustments?: { slippageBps?: number; maxAmount?: string };
 };
 
-export function evaluateTrade(
-  policy: PolicySnapshot,
-  quoteSummary: QuoteSummary,
-  balances: BalancesSnapshot,
-): RiskResult {
-  const reasons: string[] = [];
-  if (policy.killSwitch) {
-    reasons.push("kill-switch-enabled");
+// The quote fields the swap rules read, common to both runtimes' Jupiter
+// quote types.
+export type SwapQuote = {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  priceImpactPct?: string | number;
+  [k: string]: unknown;
+};
+
+const ATOMIC = /^[0-9]+$/;
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+// USDC value of a quote in atomic units: exact when one side is USDC,
+// otherwise from Jupiter's swapUsdValue estimate.
+export function quoteValueAtomic(quote: SwapQuote): bigint | null {
+  if (quote.inputMint === USDC_MINT && ATOMIC.test(quote.inAmount)) {
+    return BigInt(quote.inAmount);
+  }
+  if (quote.outputMint === USDC_MINT && ATOMIC.test(quote.outAmount)) {
+    return BigInt(quote.outAmount);
+  }
+  const usd = Number(quote.swapUsdValue);
+  if (typeof quote.swapUsdValue !== "string" || !Number.isFinite(usd)) {
+    return null;
   }
+  return BigInt(Math.ceil(usd * 1_000_000));
+}
 
-  if (quoteSummary.priceImpactPct > policy.maxPriceImpactPct) {
-    reasons.push("price-impact-too-high");
+export function quotePriceImpactPct(quote: SwapQuote): number {
+  const raw = quote.priceImpactPct;
+  return typeof raw === "string" ? Number(raw) : (raw ?? 0);
+}
+
+// Every rule the local gateway applies to a swap it is about to send.
+// solLamports is the wallet's SOL balance, or null to skip the reserve rule.
+export function evaluateSwap(
+  policy: PolicyDocument,
+  quote: SwapQuote,
+  wallet: { counters: PolicyCounters | null; solLamports: string | null },
+  now = new Date(),
+): PolicyReport {
+  const facts: PolicyFacts = { killSwitch: policy.killSwitch };
+  if (policy.allowedMints.length > 0) {
+    const outside = [quote.inputMint, quote.outputMint].find(
+      (mint) => !policy.allowedMints.includes(mint),
+    );
+    facts.allowedMints = {
+      observed: outside ?? `${quote.inputMint} -> ${quote.outputMint}`,
+      threshold: policy.allowedMints.join(", "),
+      reason: outside ? "mint-not-allowed" : null,
+    };
+  }
+  if (ATOMIC.test(quote.inAmount)) {
+    facts.tradeAmount = {
+      atomic: quote.inAmount,
+      maxAtomic: policy.maxTradeAmountAtomic,
+    };
   }
+  const value = quoteValueAtomic(quote);
+  facts.tradeValue = {
+    quoteAtomic: value === null ? null : value.toString(),
+    maxQuoteAtomic: policy.maxTradeQuoteAtomic,
+  };
+  facts.priceImpact = {
+    pct: quotePriceImpactPct(quote),
+    maxPct: policy.maxPriceImpactPct,
+  };
+  facts.slippageBps = policy.slippageBps;
+  if (wallet.solLamports !== null) {
+    facts.solReserve = {
+      lamportsAfter: (
+        BigInt(wallet.solLamports) - lamportsSold(quote)
+      ).toString(),
+      minLamports: policy.minSolReserveLamports,
+    };
+  }
+  facts.tradesToday = {
+    count: currentPolicyCounters(wallet.counters, now).trades,
+    max: policy.maxTradesPerDay,
+  };
+  Object.assign(facts, counterPolicyFacts(policy, wallet.counters, quote, now));
+  return evaluatePolicy(facts);
+}
 
+// risk.check_trade: the policy against a quote summary and balances. The
+// summary has no mints, so the allowlist is checked against held tokens and
+// the daily spend only against what was already spent.
+export function evaluateTrade(
+  policyInput: PolicyInput,
+  quoteSummary: QuoteSummary,
+  balances: BalancesSnapshot,
+  counters: PolicyCounters | null = null,
+  now = new Date(),
+): RiskResult {
+  const policy = parseLocalPolicy(policyInput);
+  let allowedMints: { observed: string | null; reason: string | null } | null =
+    null;
   if (policy.allowedMints.length > 0) {
     const allow = new Set(policy.allowedMints);
-    const tokens = balances.tokens.map((token) => token.mint);
-    for (const mint of tokens) {
-      if (!allow.has(mint)) {
-        reasons.push("mint-not-allowed");
-        break;
-      }
-    }
+    const outside = balances.tokens.find((token) => !allow.has(token.mint));
+    allowedMints = {
+      observed: outside?.mint ?? null,
+      reason: outside ? "mint-not-allowed" : null,
+    };
   }
 
-  if (policy.maxSlippageBps <= 0) {
-    reasons.push("slippage-bps-invalid");
-  }
+  const report = evaluatePolicy({
+    killSwitch: policy.killSwitch,
+    allowedMints: allowedMints
+      ? { ...allowedMints, threshold: policy.allowedMints.join(", ") }
+      : undefined,
+    tradeAmount: ATOMIC.test(quoteSummary.inAmount)
+      ? {
+          atomic: quoteSummary.inAmount,
+          maxAtomic: policy.maxTradeAmountAtomic,
+        }
+      : undefined,
+    priceImpact: {
+      pct: quoteSummary.priceImpactPct,
+      maxPct: policy.maxPriceImpactPct,
+    },
+    slippageBps: policy.slippageBps,
+    ...(counters
+      ? {
+          tradesToday: {
+            count: currentPolicyCounters(counters, now).trades,
+            max: policy.maxTradesPerDay,
+          },
+          ...counterPolicyFacts(
+            policy,
+            counters,
+            { inputMint: "", inAmount: "0" },
+            now,
+          ),
+        }
+      : {}),
+  });
 
-  const allowTrade = reasons.length === 0;
-  const adjustments = allowTrade
-    ? { slippageBps: policy.maxSlippageBps }
+  const adjustments = report.allow
+    ? { slippageBps: policy.slippageBps }
     : undefined;
 
-  return { allow: allowTrade, reasons, adjustments };
+  return { ...report, adjustments };
 }
@@ -0,0 +1,213 @@
+// Policy rules shared by the worker's enforcePolicy and the local gateway's
+// trade tools. Callers gather facts about one trade and evaluatePolicy runs
+// POLICY_RULES over them in order, so both reject for the same reasons.
+// Runtime-neutral: no node or Workers APIs.
+
+export type PolicyRuleName =
+  | "kill-switch"
+  | "allowed-mints"
+  | "token-screen"
+  | "suitable-tier"
+  | "max-trade-amount"
+  | "max-trade-value"
+  | "price-impact"
+  | "slippage"
+  | "sol-reserve"
+  | "daily-trades"
+  | "daily-spend"
+  | "cooldown"
+  | "circuit-breaker";
+
+export type PolicyRuleValue = string | number | boolean | null;
+
+export type PolicyRuleResult = {
+  rule: PolicyRuleName;
+  pass: boolean;
+  observed: PolicyRuleValue;
+  threshold: PolicyRuleValue;
+  // Error code of a failed rule, e.g. "mint-not-allowed".
+  reason: string | null;
+};
+
+export type PolicyReport = {
+  allow: boolean;
+  // Reasons of the failed rules, in rule order.
+  reasons: string[];
+  rules: PolicyRuleResult[];
+};
+
+// A rule the caller decides itself (allowlists, screening, breakers); a null
+// reason passes.
+export type PolicyVerdict = {
+  observed: PolicyRuleValue;
+  threshold: PolicyRuleValue;
+  reason: string | null;
+};
+
+// Facts about one trade. An omitted fact skips its rule. Atomic amounts are
+// integer strings; a "0" or 0 limit means unlimited.
+export type PolicyFacts = {
+  killSwitch: boolean;
+  allowedMints?: PolicyVerdict;
+  tokenScreen?: PolicyVerdict;
+  suitableTier?: PolicyVerdict;
+  tradeAmount?: { atomic: string; maxAtomic: string };
+  // quoteAtomic is null when the trade's USDC value is unknown.
+  tradeValue?: { quoteAtomic: string | null; maxQuoteAtomic: string };
+  priceImpact?: { pct: number; maxPct: number };
+  slippageBps?: number;
+  // SOL left in the wallet after the trade.
+  solReserve?: { lamportsAfter: string; minLamports: string };
+  tradesToday?: { count: number; max: number };
+  // SOL sold earlier today and by this trade, against the daily cap.
+  dailySpend?: {
+    spentLamports: string;
+    tradeLamports: string;
+    capLamports: string;
+  };
+  // elapsedSeconds is null before the first trade.
+  cooldown?: { elapsedSeconds: number | null; minSeconds: number };
+  circuitBreaker?: PolicyVerdict;
+};
+
+function exceeds(observed: string, limit: string): boolean {
+  return limit !== "0" && BigInt(observed) > BigInt(limit);
+}
+
+type RuleVerdict = Omit<PolicyRuleResult, "rule" | "pass">;
+
+export type PolicyRule = {
+  rule: PolicyRuleName;
+  // The rule's verdict; undefined skips the rule when its fact is missing.
+  check: (facts: PolicyFacts) => RuleVerdict | undefined;
+};
+
+const decided = (
+  rule: PolicyRuleName,
+  pick: (facts: PolicyFacts) => PolicyVerdict | undefined,
+): PolicyRule => ({ rule, check: pick });
+
+// Every rule, in report order.
+export const POLICY_RULES: readonly PolicyRule[] = [
+  {
+    rule: "kill-switch",
+    check: (facts) => ({
+      observed: facts.killSwitch,
+      threshold: false,
+      reason: facts.killSwitch ? "kill-switch-enabled" : null,
+    }),
+  },
+  decided("allowed-mints", (facts) => facts.allowedMints),
+  decided("token-screen", (facts) => facts.tokenScreen),
+  decided("suitable-tier", (facts) => facts.suitableTier),
+  {
+    rule: "max-trade-amount",
+    check: ({ tradeAmount: amount }) =>
+      amount && {
+        observed: amount.atomic,
+        threshold: amount.maxAtomic,
+        reason: exceeds(amount.atomic, amount.maxAtomic)
+          ? "trade-amount-exceeds-cap"
+          : null,
+      },
+  },
+  {
+    rule: "max-trade-value",
+    check: ({ tradeValue: value }) =>
+      value && {
+        observed: value.quoteAtomic,
+        threshold: value.maxQuoteAtomic,
+        reason:
+          value.maxQuoteAtomic === "0"
+            ? null
+            : value.quoteAtomic === null
+              ? "trade-value-unknown"
+              : exceeds(value.quoteAtomic, value.maxQuoteAtomic)
+                ? "trade-value-exceeds-cap"
+                : null,
+      },
+  },
+  {
+    rule: "price-impact",
+    check: ({ priceImpact: impact }) =>
+      impact && {
+        observed: impact.pct,
+        threshold: impact.maxPct,
+        reason: impact.pct > impact.maxPct ? "price-impact-too-high" : null,
+      },
+  },
+  {
+    rule: "slippage",
+    check: ({ slippageBps }) =>
+      slippageBps === undefined
+        ? undefined
+        : {
+            observed: slippageBps,
+            threshold: 1,
+            reason: slippageBps <= 0 ? "slippage-bps-invalid" : null,
+          },
+  },
+  {
+    rule: "sol-reserve",
+    check: ({ solReserve: reserve }) =>
+      reserve && {
+        observed: reserve.lamportsAfter,
+        threshold: reserve.minLamports,
+        reason:
+          BigInt(reserve.lamportsAfter) < BigInt(reserve.minLamports)
+            ? "insufficient-sol-reserve"
+            : null,
+      },
+  },
+  {
+    rule: "daily-trades",
+    check: ({ tradesToday: trades }) =>
+      trades && {
+        observed: trades.count,
+        threshold: trades.max,
+        reason:
+          trades.max > 0 && trades.count >= trades.max
+            ? "daily-trade-limit-reached"
+            : null,
+      },
+  },
+  {
+    rule: "daily-spend",
+    check: ({ dailySpend: spend }) => {
+      if (!spend) return undefined;
+      const total = (
+        BigInt(spend.spentLamports) + BigInt(spend.tradeLamports)
+      ).toString();
+      return {
+        observed: total,
+        threshold: spend.capLamports,
+        reason: exceeds(total, spend.capLamports)
+          ? "daily-spend-cap-exceeded"
+          : null,
+      };
+    },
+  },
+  {
+    rule: "cooldown",
+    check: ({ cooldown }) =>
+      cooldown && {
+        observed: cooldown.elapsedSeconds,
+        threshold: cooldown.minSeconds,
+        reason:
+          cooldown.elapsedSeconds !== null &&
+          cooldown.elapsedSeconds < cooldown.minSeconds
+            ? "cooldown-active"
+            : null,
+      },
+  },
+  decided("circuit-breaker", (facts) => facts.circuitBreaker),
+];
+
+export function evaluatePolicy(facts: PolicyFacts): PolicyReport {
+  const rules = POLICY_RULES.flatMap(({ rule, check }): PolicyRuleResult[] => {
+    const verdict = check(facts);
+    return verdict ? [{ rule, pass: verdict.reason === null, ...verdict }] : [];
+  });
+  const reasons = rules.flatMap((rule) => (rule.reason ? [rule.reason] : []));
+  return { allow: reasons.length === 0, reasons, rules };
+}
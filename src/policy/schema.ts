@@ -0,0 +1,156 @@
+// The versioned policy document both runtimes read. Version 1 takes the
+// worker's field names; upgradePolicy renames the local gateway's legacy
+// fields (maxTradeAmountLamports, maxSlippageBps) so either shape loads.
+// Runtime-specific fields (the worker's commitment, breakers, priority fees)
+// pass through untouched.
+
+export const POLICY_VERSION = 1;
+
+export type PolicyDocument = {
+  version: typeof POLICY_VERSION;
+  killSwitch: boolean;
+  allowedMints: string[];
+  // Atomic amounts are integer strings; "0" or 0 means unlimited.
+  maxTradeAmountAtomic: string;
+  // Per-trade value cap in quote (USDC) atomic units.
+  maxTradeQuoteAtomic: string;
+  // Decimal fraction, 0.02 = 2%.
+  maxPriceImpactPct: number;
+  slippageBps: number;
+  minSolReserveLamports: string;
+  maxTradesPerDay: number;
+  // Minimum time between executed swaps.
+  cooldownSeconds: number;
+  // SOL sold per UTC day, in lamports.
+  dailySpendCapLamports: string;
+};
+
+// Either shape, as read from a config file or a tool call.
+export type PolicyInput = Partial<PolicyDocument> & Record<string, unknown>;
+
+export const POLICY_DEFAULTS: PolicyDocument = {
+  version: POLICY_VERSION,
+  killSwitch: false,
+  allowedMints: [],
+  maxTradeAmountAtomic: "0",
+  maxTradeQuoteAtomic: "0",
+  maxPriceImpactPct: 1,
+  slippageBps: 50,
+  minSolReserveLamports: "0",
+  maxTradesPerDay: 0,
+  cooldownSeconds: 0,
+  dailySpendCapLamports: "0",
+};
+
+// Legacy local field -> version 1 field.
+const LEGACY_FIELDS: Record<string, keyof PolicyDocument> = {
+  maxTradeAmountLamports: "maxTradeAmountAtomic",
+  maxSlippageBps: "slippageBps",
+};
+
+const ATOMIC = /^[0-9]+$/;
+
+// Renames legacy fields and stamps the version. Never throws: values are
+// checked by parsePolicy. A version 1 field wins over its legacy name.
+export function upgradePolicy(
+  policy: Record<string, unknown>,
+): Record<string, unknown> {
+  const upgraded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(policy)) {
+    const renamed = LEGACY_FIELDS[key];
+    if (!renamed) {
+      upgraded[key] = value;
+    } else if (policy[renamed] === undefined && value !== undefined) {
+      upgraded[renamed] = value;
+    }
+  }
+  // The local schema allowed a null spend cap for "no cap".
+  if (upgraded.dailySpendCapLamports === null) {
+    delete upgraded.dailySpendCapLamports;
+  }
+  if (upgraded.version === undefined) upgraded.version = POLICY_VERSION;
+  return upgraded;
+}
+
+function wholeNumber(value: unknown, max: number): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= max
+  );
+}
+
+// Upgrades and validates a policy, filling unset fields from defaults.
+// Throws "invalid-policy" or "invalid-policy-<field>".
+export function parsePolicy(
+  policy: unknown,
+  defaults: Partial<PolicyDocument> = {},
+): PolicyDocument {
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+    throw new Error("invalid-policy");
+  }
+  const p = upgradePolicy(policy as Record<string, unknown>);
+  const parsed: PolicyDocument = { ...POLICY_DEFAULTS, ...defaults };
+  const set = <K extends keyof PolicyDocument>(
+    key: K,
+    valid: (value: unknown) => boolean,
+  ) => {
+    const value = p[key];
+    if (value === undefined) return;
+    if (!valid(value)) throw new Error(`invalid-policy-${key}`);
+    parsed[key] = value as PolicyDocument[K];
+  };
+
+  set("version", (value) => value === POLICY_VERSION);
+  set("killSwitch", (value) => typeof value === "boolean");
+  set(
+    "allowedMints",
+    (value) =>
+      Array.isArray(value) &&
+      value.every((mint) => typeof mint === "string" && mint.trim() !== ""),
+  );
+  for (const key of [
+    "maxTradeAmountAtomic",
+    "maxTradeQuoteAtomic",
+    "minSolReserveLamports",
+    "dailySpendCapLamports",
+  ] as const) {
+    set(key, (value) => typeof value === "string" && ATOMIC.test(value));
+  }
+  set(
+    "maxPriceImpactPct",
+    (value) =>
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      value >= 0 &&
+      value <= 1,
+  );
+  set(
+    "slippageBps",
+    (value) =>
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      value >= 0 &&
+      value <= 10_000,
+  );
+  set("maxTradesPerDay", (value) => wholeNumber(value, 1000));
+  set("cooldownSeconds", (value) => wholeNumber(value, 86_400));
+  return parsed;
+}
+
+// parsePolicy for the local gateway's own config and tool calls. Its legacy
+// schema had no bound on maxPriceImpactPct; a value above 1 never bound and
+// loads as 1. Worker config writes keep the 0..1 check.
+export function parseLocalPolicy(
+  policy: unknown,
+  defaults: Partial<PolicyDocument> = {},
+): PolicyDocument {
+  if (policy && typeof policy === "object" && !Array.isArray(policy)) {
+    const impact = (policy as Record<string, unknown>).maxPriceImpactPct;
+    if (typeof impact === "number" && impact > 1) {
+      return parsePolicy({ ...policy, maxPriceImpactPct: 1 }, defaults);
+    }
+  }
+  return parsePolicy(policy, defaults);
+}
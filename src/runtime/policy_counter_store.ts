@@ -0,0 +1,58 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  type CountedTrade,
+  currentPolicyCounters,
+  type PolicyCounters,
+  recordPolicyTrade,
+} from "../policy/index.js";
+import { isErrnoException, isRecord } from "../util/types.js";
+
+// The local gateway's policy counters (cooldown, daily spend, daily trades)
+// in one JSON file, so a restart does not reset them.
+export class PolicyCounterStore {
+  constructor(private readonly filePath = "policy-counters.json") {}
+
+  async read(now = new Date()): Promise<PolicyCounters> {
+    return currentPolicyCounters(await this.readStored(), now);
+  }
+
+  async record(trade: CountedTrade, now = new Date()): Promise<PolicyCounters> {
+    const next = recordPolicyTrade(await this.readStored(), trade, now);
+    await fs.mkdir(path.dirname(path.resolve(this.filePath)), {
+      recursive: true,
+    });
+    await fs.writeFile(this.filePath, JSON.stringify(next, null, 2), "utf8");
+    return next;
+  }
+
+  private async readStored(): Promise<PolicyCounters | null> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+      if (
+        isRecord(parsed) &&
+        typeof parsed.day === "string" &&
+        typeof parsed.trades === "number" &&
+        typeof parsed.spentLamports === "string"
+      ) {
+        return {
+          day: parsed.day,
+          trades: parsed.trades,
+          spentLamports: parsed.spentLamports,
+          lastTradeAt:
+            typeof parsed.lastTradeAt === "string" ? parsed.lastTradeAt : null,
+        };
+      }
+      return null;
+    } catch (err) {
+      if (isErrnoException(err) && err.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+}
+
+export function policyCounterStoreFor(config: {
+  runtime: { policyCountersPath?: string };
+}): PolicyCounterStore {
+  return new PolicyCounterStore(config.runtime.policyCountersPath);
+}
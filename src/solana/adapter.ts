@@ -20,4 +20,6 @@ export interface SolanaAdapter {
     confirm?: ConfirmParams,
   ): Promise<SendResult>;
   simulateRawTx?(serializedTx: Uint8Array): Promise<unknown>;
+  // Total fee in lamports of a landed transaction; null if not found yet.
+  getTransactionFeeLamports?(signature: string): Promise<string | null>;
 }
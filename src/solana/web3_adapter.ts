@@ -120,6 +120,15 @@ export class Web3Adapter implements SolanaAdapter {
     return { signature, err: "confirmation-timeout" };
   }
 
+  async getTransactionFeeLamports(signature: string): Promise<string | null> {
+    const tx = await this.connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    const fee = tx?.meta?.fee;
+    return typeof fee === "number" ? fee.toString() : null;
+  }
+
   async simulateRawTx(serializedTx: Uint8Array): Promise<unknown> {
     const tx = VersionedTransaction.deserialize(serializedTx);
     const result = await this.connection.simulateTransaction(tx);
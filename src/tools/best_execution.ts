@@ -0,0 +1,321 @@
+import type { JupiterQuoteResponse } from "../jupiter/schema.js";
+import type { OrcaWhirlpool, RaydiumPair, ToolDeps } from "./tool_deps.js";
+
+export const EXECUTION_VENUES = ["jupiter", "raydium", "orca"] as const;
+export type ExecutionVenue = (typeof EXECUTION_VENUES)[number];
+
+export type SwapMode = "ExactIn" | "ExactOut";
+
+// Deepest direct pool for the pair on a venue, from the venue's own API.
+export type DirectPool = {
+  poolId: string;
+  tvlUsd: number;
+  feeTierBps: number;
+};
+
+export type VenueCandidate = {
+  venue: ExecutionVenue;
+  ok: boolean;
+  error?: string;
+  // Jupiter `dexes` restriction used to quote (and later execute) the venue.
+  dexes?: string[];
+  inAmount?: string;
+  outAmount?: string;
+  priceImpactPct?: number;
+  routeLabels?: string[];
+  pool?: DirectPool | null;
+  quoteResponse?: JupiterQuoteResponse;
+};
+
+export type RouteSelection = {
+  candidate: VenueCandidate;
+  reason: string;
+  withinImpactLimit: boolean;
+};
+
+export const MAX_EXECUTION_SLICES = 10;
+
+function toBigInt(value: string | undefined): bigint | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return BigInt(value);
+}
+
+// Positive when `a` is the better fill: more out for ExactIn, less in for
+// ExactOut.
+function compareFill(
+  a: VenueCandidate,
+  b: VenueCandidate,
+  swapMode: SwapMode,
+): number {
+  if (swapMode === "ExactOut") {
+    const aIn = toBigInt(a.inAmount) ?? 0n;
+    const bIn = toBigInt(b.inAmount) ?? 0n;
+    return aIn === bIn ? 0 : aIn < bIn ? 1 : -1;
+  }
+  const aOut = toBigInt(a.outAmount) ?? 0n;
+  const bOut = toBigInt(b.outAmount) ?? 0n;
+  return aOut === bOut ? 0 : aOut > bOut ? 1 : -1;
+}
+
+function rankCandidates(
+  candidates: VenueCandidate[],
+  swapMode: SwapMode,
+): VenueCandidate[] {
+  return [...candidates].sort((a, b) => {
+    const fill = compareFill(b, a, swapMode);
+    if (fill !== 0) return fill;
+    const impact = (a.priceImpactPct ?? 0) - (b.priceImpactPct ?? 0);
+    if (impact !== 0) return impact;
+    return (
+      EXECUTION_VENUES.indexOf(a.venue) - EXECUTION_VENUES.indexOf(b.venue)
+    );
+  });
+}
+
+// Improvement of `best` over `other` in basis points of `other`'s fill.
+function improvementBps(
+  best: VenueCandidate,
+  other: VenueCandidate,
+  swapMode: SwapMode,
+): number {
+  const field = swapMode === "ExactOut" ? "inAmount" : "outAmount";
+  const a = toBigInt(best[field]);
+  const b = toBigInt(other[field]);
+  if (a === null || b === null || b === 0n) return 0;
+  const diff = swapMode === "ExactOut" ? b - a : a - b;
+  return Number((diff * 10_000n) / b);
+}
+
+// Picks the venue with the best fill among quotes within the price impact
+// limit. When none are within it the best fill overall is returned with
+// withinImpactLimit=false so the caller can slice the order.
+export function selectBestRoute(
+  candidates: VenueCandidate[],
+  opts: { swapMode: SwapMode; maxPriceImpactPct: number },
+): RouteSelection {
+  const usable = candidates.filter(
+    (c) => c.ok && toBigInt(c.inAmount) !== null && toBigInt(c.outAmount),
+  );
+  if (usable.length === 0) {
+    throw new Error("no-venue-quote");
+  }
+  const within = usable.filter(
+    (c) => (c.priceImpactPct ?? 0) <= opts.maxPriceImpactPct,
+  );
+  const ranked = rankCandidates(
+    within.length > 0 ? within : usable,
+    opts.swapMode,
+  );
+  const best = ranked[0];
+  const fill = opts.swapMode === "ExactOut" ? "inAmount" : "outAmount";
+  const parts: string[] = [];
+  if (usable.length === 1) {
+    parts.push(`${best.venue} is the only venue with a quote`);
+  } else if (ranked.length === 1) {
+    parts.push(`${best.venue} is the only venue within the price impact limit`);
+  } else {
+    const runnerUp = ranked[1];
+    const bps = improvementBps(best, runnerUp, opts.swapMode);
+    parts.push(
+      bps > 0
+        ? `${best.venue} ${fill} ${best[fill]} beats ${runnerUp.venue} ${runnerUp[fill]} by ${bps} bps`
+        : `${best.venue} ties ${runnerUp.venue} on ${fill} with lower or equal price impact`,
+    );
+  }
+  if (within.length === 0) {
+    parts.push(
+      `price impact ${best.priceImpactPct ?? 0} exceeds limit ${opts.maxPriceImpactPct}`,
+    );
+  }
+  return {
+    candidate: best,
+    reason: parts.join("; "),
+    withinImpactLimit: within.length > 0,
+  };
+}
+
+// Number of slices needed to bring each child order under the price impact
+// limit and the per-trade cap. Impact is treated as linear in size, which
+// holds for small fractions of pool depth; each slice is re-quoted and
+// re-checked before it executes anyway.
+export function planSliceCount(input: {
+  priceImpactPct: number;
+  maxPriceImpactPct: number;
+  inAmount: string;
+  maxTradeAmountLamports: string;
+  maxSlices?: number;
+}): number {
+  const maxSlices = input.maxSlices ?? MAX_EXECUTION_SLICES;
+  let count = 1;
+  if (input.maxPriceImpactPct > 0 && input.priceImpactPct > 0) {
+    count = Math.max(
+      count,
+      Math.ceil(input.priceImpactPct / input.maxPriceImpactPct),
+    );
+  }
+  const cap = toBigInt(input.maxTradeAmountLamports) ?? 0n;
+  const inAmount = toBigInt(input.inAmount) ?? 0n;
+  if (cap > 0n && inAmount > cap) {
+    count = Math.max(count, Number((inAmount + cap - 1n) / cap));
+  }
+  return Math.min(Math.max(count, 1), maxSlices);
+}
+
+// Splits `amount` into `count` parts; the remainder goes to the first slices.
+export function splitAmount(amount: string, count: number): string[] {
+  const total = BigInt(amount);
+  const n = BigInt(count);
+  const base = total / n;
+  const remainder = total % n;
+  return Array.from({ length: count }, (_, i) =>
+    (base + (BigInt(i) < remainder ? 1n : 0n)).toString(),
+  );
+}
+
+function pairMatches(
+  a: string | undefined,
+  b: string | undefined,
+  inputMint: string,
+  outputMint: string,
+): boolean {
+  return (
+    (a === inputMint && b === outputMint) ||
+    (a === outputMint && b === inputMint)
+  );
+}
+
+export function findDirectPool(
+  venue: "raydium" | "orca",
+  pools: { raydium?: RaydiumPair[]; orca?: OrcaWhirlpool[] },
+  inputMint: string,
+  outputMint: string,
+  toNumber: ToolDeps["toNumber"],
+): DirectPool | null {
+  const matches: DirectPool[] = [];
+  if (venue === "raydium") {
+    for (const pair of pools.raydium ?? []) {
+      if (!pairMatches(pair.baseMint, pair.quoteMint, inputMint, outputMint)) {
+        continue;
+      }
+      const volume = toNumber(pair.volume24hQuote ?? pair.volume24h);
+      const fees = toNumber(pair.fee24hQuote ?? pair.fee24h);
+      matches.push({
+        poolId: String(pair.ammId ?? pair.lpMint ?? ""),
+        tvlUsd: toNumber(pair.liquidity) ?? 0,
+        feeTierBps: volume && fees ? Math.round((fees / volume) * 10_000) : 0,
+      });
+    }
+  } else {
+    for (const pool of pools.orca ?? []) {
+      if (
+        !pairMatches(
+          pool.tokenA?.mint,
+          pool.tokenB?.mint,
+          inputMint,
+          outputMint,
+        )
+      ) {
+        continue;
+      }
+      const feeRate = toNumber(pool.lpFeeRate);
+      matches.push({
+        poolId: String(pool.address ?? ""),
+        tvlUsd: toNumber(pool.tvl) ?? 0,
+        feeTierBps: feeRate ? Math.round(feeRate * 10_000) : 0,
+      });
+    }
+  }
+  const ranked = matches
+    .filter((pool) => pool.poolId)
+    .sort((a, b) => b.tvlUsd - a.tvlUsd);
+  return ranked[0] ?? null;
+}
+
+export type VenueQuoteRequest = {
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  slippageBps: number;
+  swapMode: SwapMode;
+};
+
+// Quotes one venue. Pool venues are quoted through Jupiter restricted to the
+// venue's dex labels with direct routes only, so the estimate is executable
+// through the same restriction.
+export async function quoteVenue(
+  deps: Pick<ToolDeps, "jupiter" | "resolveVenueDexes">,
+  venue: ExecutionVenue,
+  request: VenueQuoteRequest,
+): Promise<VenueCandidate> {
+  try {
+    const { dexes } = await deps.resolveVenueDexes(venue);
+    const { quoteResponse, summary } = await deps.jupiter.quote({
+      ...request,
+      dexes,
+      onlyDirectRoutes: venue === "jupiter" ? undefined : true,
+    });
+    return {
+      venue,
+      ok: true,
+      dexes,
+      inAmount: summary.inAmount,
+      outAmount: summary.outAmount,
+      priceImpactPct: summary.priceImpactPct,
+      routeLabels: summary.routeLabels,
+      quoteResponse,
+    };
+  } catch (err) {
+    return {
+      venue,
+      ok: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+// Quotes every venue and attaches the direct pool each pool venue would use.
+// Pool stats are informational: a venue without a listed pool is still quoted.
+export async function gatherVenueCandidates(
+  deps: Pick<
+    ToolDeps,
+    | "jupiter"
+    | "resolveVenueDexes"
+    | "fetchRaydiumPairs"
+    | "fetchOrcaWhirlpools"
+    | "toNumber"
+  >,
+  venues: ExecutionVenue[],
+  request: VenueQuoteRequest,
+): Promise<VenueCandidate[]> {
+  const [raydium, orca] = await Promise.all([
+    venues.includes("raydium")
+      ? deps.fetchRaydiumPairs().catch(() => [])
+      : Promise.resolve([]),
+    venues.includes("orca")
+      ? deps.fetchOrcaWhirlpools().catch(() => [])
+      : Promise.resolve([]),
+  ]);
+  const candidates: VenueCandidate[] = [];
+  for (const venue of venues) {
+    const candidate = await quoteVenue(deps, venue, request);
+    if (venue !== "jupiter") {
+      candidate.pool = findDirectPool(
+        venue,
+        { raydium, orca },
+        request.inputMint,
+        request.outputMint,
+        deps.toNumber,
+      );
+    }
+    candidates.push(candidate);
+  }
+  return candidates;
+}
+
+// Journal/tool-output view of a candidate, without the raw quote.
+export function summarizeCandidate(
+  candidate: VenueCandidate,
+): Omit<VenueCandidate, "quoteResponse" | "dexes"> {
+  const { quoteResponse: _quote, dexes: _dexes, ...rest } = candidate;
+  return rest;
+}
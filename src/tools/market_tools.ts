@@ -5,6 +5,17 @@ import {
   OpenBookV2Client,
 } from "@openbook-dex/openbook-v2";
 import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import {
+  CANDLE_INTERVAL_SECONDS,
+  CANDLE_INTERVALS,
+  type Candle,
+  type CandleInterval,
+  computeIndicators,
+  liquidityByMint,
+  parseMarketPair,
+  summarizeIndicators,
+} from "../market/index.js";
+import { MarketDataStore } from "../market/store.js";
 import type { ToolContext, ToolRegistry } from "./registry.js";
 import type {
   KalshiMarketDetail,
@@ -344,6 +355,108 @@ export function registerMarketTools(
     },
   });
 
+  registry.register({
+    name: "market.recorded_candles",
+    description:
+      "OHLCV candles aggregated from recorded price samples (worker R2 export or local sampler), oldest first.",
+    schema: {
+      name: "market.recorded_candles",
+      description:
+        "OHLCV candles aggregated from recorded price samples (worker R2 export or local sampler), oldest first.",
+      parameters: {
+        type: "object",
+        properties: {
+          pair: {
+            type: "string",
+            description: 'Base-quote pair, e.g. "SOL-USDC" or "<mint>-<mint>"',
+          },
+          interval: { type: "string", enum: [...CANDLE_INTERVALS] },
+          limit: { type: "integer" },
+          to: { type: "integer", description: "End time, unix seconds" },
+        },
+        required: ["pair", "interval"],
+        additionalProperties: false,
+      },
+    },
+    execute: async (
+      ctx: ToolContext,
+      input: {
+        pair: string;
+        interval: CandleInterval;
+        limit?: number;
+        to?: number;
+      },
+    ) => {
+      const pair = parseMarketPair(input.pair);
+      const store = new MarketDataStore(ctx.config.marketData.dir);
+      const candles = await store.candles(
+        pair,
+        input.interval,
+        input.limit ?? 200,
+        input.to,
+      );
+      return { pair, interval: input.interval, candles };
+    },
+  });
+
+  registry.register({
+    name: "market.indicators",
+    description:
+      "Compute SMA/EMA, RSI, MACD, Bollinger bands, ATR, realized volatility and VWAP over a candle series.",
+    schema: {
+      name: "market.indicators",
+      description:
+        "Compute SMA/EMA, RSI, MACD, Bollinger bands, ATR, realized volatility and VWAP over a candle series. Pass candles (e.g. from market.candles) or a pair and interval to use recorded candles.",
+      parameters: {
+        type: "object",
+        properties: {
+          candles: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                t: { type: "number" },
+                o: { type: "string" },
+                h: { type: "string" },
+                l: { type: "string" },
+                c: { type: "string" },
+                v: { type: "string" },
+              },
+              required: ["t", "o", "h", "l", "c", "v"],
+            },
+          },
+          pair: { type: "string" },
+          interval: { type: "string", enum: [...CANDLE_INTERVALS] },
+          limit: { type: "integer" },
+        },
+        additionalProperties: false,
+      },
+    },
+    execute: async (
+      ctx: ToolContext,
+      input: {
+        candles?: Candle[];
+        pair?: string;
+        interval?: CandleInterval;
+        limit?: number;
+      },
+    ) => {
+      const candles =
+        input.candles ??
+        (await new MarketDataStore(ctx.config.marketData.dir).candles(
+          parseMarketPair(input.pair ?? ""),
+          input.interval ?? "1h",
+          input.limit ?? 200,
+        ));
+      const indicators = computeIndicators(candles, {
+        intervalSeconds: input.interval
+          ? CANDLE_INTERVAL_SECONDS[input.interval]
+          : undefined,
+      });
+      return { indicators, summary: summarizeIndicators(indicators) };
+    },
+  });
+
   registry.register({
     name: "market.prediction_markets_list",
     description: "List active prediction markets for a venue.",
@@ -762,31 +875,7 @@ export function registerMarketTools(
         throw new Error("mint-required");
       }
       const pairs = await fetchRaydiumPairs();
-      const matching = pairs.filter(
-        (item) => item.baseMint === mint || item.quoteMint === mint,
-      );
-      const pools = matching
-        .map((item) => {
-          const tvl = toNumber(item.liquidity);
-          return {
-            venue: "raydium",
-            poolId: String(item.ammId ?? item.lpMint ?? ""),
-            tvlUsd: String(tvl ?? 0),
-            tvlValue: tvl ?? 0,
-          };
-        })
-        .filter((pool) => pool.poolId)
-        .sort((a, b) => b.tvlValue - a.tvlValue);
-
-      const topPools = pools.slice(0, 10).map(({ tvlValue, ...rest }) => rest);
-      const totalTvl = pools
-        .slice(0, 10)
-        .reduce((sum, pool) => sum + pool.tvlValue, 0);
-
-      return {
-        totalTvlUsd: String(totalTvl),
-        pools: topPools,
-      };
+      return liquidityByMint(pairs, mint);
     },
   });
 
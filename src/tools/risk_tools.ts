@@ -1,4 +1,13 @@
+import {
+  bucketRealizedPnl,
+  buildLedger,
+  COST_BASIS_METHODS,
+  type CostBasisMethod,
+  type LedgerSwap,
+  markToMarket,
+} from "../ledger/index.js";
 import { evaluateTrade } from "../policy/index.js";
+import { policyCounterStoreFor } from "../runtime/policy_counter_store.js";
 import type { ToolContext, ToolRegistry } from "./registry.js";
 import type { ToolDeps } from "./tool_deps.js";
 import type {
@@ -78,73 +87,48 @@ export function registerRiskTools(
   registry.register({
     name: "risk.daily_pnl_snapshot",
     description:
-      "Compute a daily PnL snapshot from trade journal and balances.",
+      "Compute a daily PnL snapshot from the trade ledger (FIFO or average cost basis) and balances.",
     schema: {
       name: "risk.daily_pnl_snapshot",
       description:
-        "Compute a daily PnL snapshot from trade journal and balances.",
+        "Compute a daily PnL snapshot from the trade ledger (FIFO or average cost basis) and balances.",
       parameters: {
         type: "object",
         properties: {
           date: { type: "string", description: "YYYY-MM-DD" },
+          costBasis: { type: "string", enum: [...COST_BASIS_METHODS] },
         },
         required: ["date"],
         additionalProperties: false,
       },
     },
     requires: { config: ["rpc.endpoint", "jupiter.apiKey"] },
-    execute: async (ctx: ToolContext, input: { date: string }) => {
-      const entries = await ctx.tradeJournal.read(input.date);
-      const deltaByMint = new Map<string, bigint>();
-      let tradeFlowValueScaled = 0n;
-      for (const entry of entries) {
-        if (
-          entry.type !== "swap" ||
-          entry.status !== "confirmed" ||
-          !entry.inputMint ||
-          !entry.outputMint ||
-          !entry.inAmount ||
-          !entry.outAmount
-        ) {
-          continue;
-        }
-        if (entry.inValueSol && entry.outValueSol) {
-          try {
-            const inValue = parseScaled(
-              String(entry.inValueSol),
-              priceDecimals,
-            );
-            const outValue = parseScaled(
-              String(entry.outValueSol),
-              priceDecimals,
-            );
-            if (inValue !== null && outValue !== null) {
-              tradeFlowValueScaled += outValue - inValue;
-              continue;
-            }
-          } catch {
-            // fall back to price-based valuation
-          }
-        }
-        const inputMint = String(entry.inputMint);
-        const outputMint = String(entry.outputMint);
-        let inAmount: bigint;
-        let outAmount: bigint;
-        try {
-          inAmount = BigInt(String(entry.inAmount));
-          outAmount = BigInt(String(entry.outAmount));
-        } catch {
-          continue;
+    execute: async (
+      ctx: ToolContext,
+      input: { date: string; costBasis?: CostBasisMethod },
+    ) => {
+      // Cost basis needs the full history, not just the requested day.
+      const dates = (await ctx.tradeJournal.listDates()).filter(
+        (date) => date <= input.date,
+      );
+      const swaps: LedgerSwap[] = [];
+      for (const date of dates) {
+        for (const entry of await ctx.tradeJournal.read(date)) {
+          const swap = toLedgerSwap(
+            entry,
+            date,
+            { solDecimals, priceDecimals },
+            parseScaled,
+          );
+          if (swap) swaps.push(swap);
         }
-        deltaByMint.set(
-          inputMint,
-          (deltaByMint.get(inputMint) ?? 0n) - inAmount,
-        );
-        deltaByMint.set(
-          outputMint,
-          (deltaByMint.get(outputMint) ?? 0n) + outAmount,
-        );
       }
+      // Journal values are SOL-denominated and scaled by priceDecimals, which
+      // equals SOL decimals, so lamport amounts are already quote-atomic.
+      const ledger = buildLedger(swaps, {
+        quoteMint: solMint,
+        method: input.costBasis,
+      });
 
       const solLamports = await ctx.solana.getSolBalanceLamports();
       const balances = await ctx.solana.getSplBalances();
@@ -157,7 +141,7 @@ export function registerRiskTools(
 
       const priceMints = new Set<string>([solMint]);
       for (const token of balances) priceMints.add(token.mint);
-      for (const mint of deltaByMint.keys()) priceMints.add(mint);
+      for (const position of ledger.positions) priceMints.add(position.mint);
 
       const tokenInfoMap = await getTokenInfoMap(
         Array.from(priceMints).filter((mint) => mint !== solMint),
@@ -204,24 +188,47 @@ export function registerRiskTools(
         );
       }
 
-      for (const [mint, delta] of deltaByMint.entries()) {
-        const decimals = mintDecimals.get(mint);
-        const priceScaled = priceScaledMap.get(mint);
-        if (decimals === undefined || !priceScaled) continue;
-        tradeFlowValueScaled += valueFromAmount(delta, decimals, priceScaled);
+      const positionValues = new Map<string, bigint | null>();
+      for (const position of ledger.positions) {
+        const decimals = mintDecimals.get(position.mint);
+        const priceScaled = priceScaledMap.get(position.mint);
+        positionValues.set(
+          position.mint,
+          decimals !== undefined && priceScaled
+            ? valueFromAmount(BigInt(position.amount), decimals, priceScaled)
+            : null,
+        );
       }
-
-      const realizedPnl = formatScaled(tradeFlowValueScaled, priceDecimals);
-      const net = formatScaled(portfolioValueScaled, priceDecimals);
-      const unrealizedPnl = formatScaled(
-        portfolioValueScaled - tradeFlowValueScaled,
-        priceDecimals,
+      const marked = markToMarket(ledger.positions, positionValues);
+      const day = bucketRealizedPnl(ledger.trades, "day").find(
+        (bucket) => bucket.start === input.date,
       );
+      const format = (value: string | null) =>
+        value === null ? null : formatScaled(BigInt(value), priceDecimals);
 
       return {
-        realizedPnl,
-        unrealizedPnl,
-        net,
+        realizedPnl: formatScaled(
+          BigInt(day?.realizedPnl ?? "0"),
+          priceDecimals,
+        ),
+        unrealizedPnl: formatScaled(
+          BigInt(marked.unrealizedPnl),
+          priceDecimals,
+        ),
+        net: formatScaled(portfolioValueScaled, priceDecimals),
+        costBasis: ledger.method,
+        trades: day?.trades ?? 0,
+        realizedPnlToDate: formatScaled(
+          BigInt(ledger.realizedPnl),
+          priceDecimals,
+        ),
+        positions: marked.positions.map((position) => ({
+          mint: position.mint,
+          amount: position.amount,
+          costBasis: format(position.costBasis),
+          value: format(position.value),
+          unrealizedPnl: format(position.unrealizedPnl),
+        })),
       };
     },
   });
@@ -275,23 +282,22 @@ export function registerRiskTools(
           },
           policySnapshot: {
             type: "object",
+            description:
+              "Policy document (version 1); the legacy maxTradeAmountLamports and maxSlippageBps fields are also accepted.",
             properties: {
+              version: { type: "integer", enum: [1] },
               killSwitch: { type: "boolean" },
               allowedMints: { type: "array", items: { type: "string" } },
-              maxTradeAmountLamports: { type: "string" },
-              maxSlippageBps: { type: "integer" },
+              maxTradeAmountAtomic: { type: "string" },
+              maxTradeQuoteAtomic: { type: "string" },
               maxPriceImpactPct: { type: "number" },
+              slippageBps: { type: "integer" },
+              minSolReserveLamports: { type: "string" },
+              maxTradesPerDay: { type: "integer" },
               cooldownSeconds: { type: "integer" },
-              dailySpendCapLamports: { type: ["string", "null"] },
+              dailySpendCapLamports: { type: "string" },
             },
-            required: [
-              "killSwitch",
-              "allowedMints",
-              "maxTradeAmountLamports",
-              "maxSlippageBps",
-              "maxPriceImpactPct",
-              "cooldownSeconds",
-            ],
+            required: ["killSwitch", "allowedMints"],
             additionalProperties: true,
           },
         },
@@ -300,7 +306,7 @@ export function registerRiskTools(
       },
     },
     execute: async (
-      _ctx: ToolContext,
+      ctx: ToolContext,
       input: {
         quoteSummary: QuoteSummary;
         balancesSnapshot: BalancesSnapshot;
@@ -311,7 +317,56 @@ export function registerRiskTools(
         input.policySnapshot,
         input.quoteSummary,
         input.balancesSnapshot,
+        await policyCounterStoreFor(ctx.config).read(),
       );
     },
   });
 }
+
+// Maps a confirmed trade.jupiter_swap journal entry onto the ledger. Entries
+// written before `ts` was journaled fall back to the start of their day.
+function toLedgerSwap(
+  entry: Record<string, unknown>,
+  date: string,
+  scale: { solDecimals: number; priceDecimals: number },
+  parseScaled: (value: string, decimals: number) => bigint | null,
+): LedgerSwap | null {
+  if (
+    entry.type !== "swap" ||
+    entry.status !== "confirmed" ||
+    !entry.inputMint ||
+    !entry.outputMint ||
+    !entry.inAmount ||
+    !entry.outAmount
+  ) {
+    return null;
+  }
+  const value = (raw: unknown): string | null => {
+    if (raw === null || raw === undefined || raw === "") return null;
+    const scaled = parseScaled(String(raw), scale.priceDecimals);
+    return scaled === null ? null : scaled.toString();
+  };
+  let feeValueQuote: string | null = null;
+  if (entry.feeLamports) {
+    try {
+      feeValueQuote = (
+        (BigInt(String(entry.feeLamports)) *
+          10n ** BigInt(scale.priceDecimals)) /
+        10n ** BigInt(scale.solDecimals)
+      ).toString();
+    } catch {
+      feeValueQuote = null;
+    }
+  }
+  return {
+    ts: typeof entry.ts === "string" ? entry.ts : `${date}T00:00:00.000Z`,
+    signature: entry.signature ? String(entry.signature) : null,
+    inputMint: String(entry.inputMint),
+    outputMint: String(entry.outputMint),
+    inAmount: String(entry.inAmount),
+    outAmount: String(entry.outAmount),
+    inValueQuote: value(entry.inValueSol),
+    outValueQuote: value(entry.outValueSol),
+    feeValueQuote,
+  };
+}
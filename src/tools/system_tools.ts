@@ -1,6 +1,45 @@
+import type { RalphConfig } from "../config/config.js";
+import {
+  dispatchNotification,
+  type NotificationSink,
+} from "../notify/index.js";
 import { info } from "../util/logger.js";
 import type { ToolContext, ToolRegistry } from "./registry.js";
 
+// Sinks with incomplete settings are skipped.
+export function notifySinksFromConfig(
+  notify: RalphConfig["notify"],
+): NotificationSink[] {
+  const sinks: NotificationSink[] = [];
+  if (notify.webhookUrl) {
+    sinks.push({
+      type: "webhook",
+      url: notify.webhookUrl,
+      secret: notify.webhookSecret,
+    });
+  }
+  if (notify.telegram?.botToken && notify.telegram.chatId) {
+    sinks.push({
+      type: "telegram",
+      botToken: notify.telegram.botToken,
+      chatId: notify.telegram.chatId,
+    });
+  }
+  if (notify.discord?.webhookUrl) {
+    sinks.push({ type: "discord", webhookUrl: notify.discord.webhookUrl });
+  }
+  if (notify.email?.relayUrl && notify.email.to) {
+    sinks.push({
+      type: "email",
+      relayUrl: notify.email.relayUrl,
+      to: notify.email.to,
+      from: notify.email.from,
+      token: notify.email.token,
+    });
+  }
+  return sinks;
+}
+
 export function registerSystemTools(registry: ToolRegistry): void {
   registry.register({
     name: "system.autopilot_tick",
@@ -75,10 +114,12 @@ export function registerSystemTools(registry: ToolRegistry): void {
 
   registry.register({
     name: "notify.emit",
-    description: "Emit operator notifications to console or webhook.",
+    description:
+      "Emit operator notifications to console and the configured webhook, Telegram, Discord and email sinks.",
     schema: {
       name: "notify.emit",
-      description: "Emit operator notifications to console or webhook.",
+      description:
+        "Emit operator notifications to console and the configured webhook, Telegram, Discord and email sinks.",
       parameters: {
         type: "object",
         properties: {
@@ -91,7 +132,7 @@ export function registerSystemTools(registry: ToolRegistry): void {
       },
     },
     execute: async (
-      _ctx: ToolContext,
+      ctx: ToolContext,
       input: {
         level: "info" | "warn" | "error";
         message: string;
@@ -105,7 +146,25 @@ export function registerSystemTools(registry: ToolRegistry): void {
       } else {
         info(input.message, input.metadata);
       }
-      return { ok: true };
+      const sinks = notifySinksFromConfig(ctx.config.notify);
+      if (sinks.length === 0) return { ok: true, deliveries: [] };
+      const deliveries = await dispatchNotification(sinks, {
+        type: "operator",
+        level: input.level,
+        title: input.message.split("\n")[0]?.slice(0, 120) ?? "",
+        message: input.message,
+        ts: new Date().toISOString(),
+        metadata: input.metadata,
+      });
+      for (const delivery of deliveries) {
+        if (!delivery.ok) {
+          info("notify sink failed", {
+            sink: delivery.sink,
+            err: delivery.error,
+          });
+        }
+      }
+      return { ok: true, deliveries };
     },
   });
 }
@@ -1,7 +1,20 @@
 import type { JupiterQuoteResponse } from "../jupiter/schema.js";
+import { evaluateSwap, type PolicyCounters } from "../policy/index.js";
+import { policyCounterStoreFor } from "../runtime/policy_counter_store.js";
+import { sleep } from "../util/time.js";
+import {
+  EXECUTION_VENUES,
+  type ExecutionVenue,
+  gatherVenueCandidates,
+  planSliceCount,
+  quoteVenue,
+  type SwapMode,
+  selectBestRoute,
+  splitAmount,
+  summarizeCandidate,
+} from "./best_execution.js";
 import type { ToolContext, ToolRegistry } from "./registry.js";
 import type { ToolDeps } from "./tool_deps.js";
-import type { PolicySnapshot } from "./types.js";
 
 export function registerTradeTools(
   registry: ToolRegistry,
@@ -17,8 +30,137 @@ export function registerTradeTools(
     parseScaled,
     formatScaled,
     valueFromAmount,
+    defaultSlippageBps,
   } = deps;
 
+  // Policy check, swap build (re-quoting once on a stale quote), sign, send
+  // and journal. Shared by the swap tools so every fill lands in the journal
+  // the same way.
+  const executeSwap = async (
+    ctx: ToolContext,
+    quoteResponse: JupiterQuoteResponse,
+    opts: {
+      commitment?: "processed" | "confirmed" | "finalized";
+      restriction?: RouteRestriction;
+      execution?: Record<string, unknown>;
+      // Counters as of the start of a sliced order, so its slices are not
+      // held back by each other's cooldown. Read fresh when unset.
+      counters?: PolicyCounters;
+    },
+  ): Promise<{
+    signature: string;
+    lastValidBlockHeight: number;
+    status: "confirmed" | "error";
+    quoteResponse: JupiterQuoteResponse;
+  }> => {
+    await enforcePolicy(ctx, quoteResponse, opts.counters);
+    const { swap, quoteResponse: usedQuote } = await swapWithRetry(
+      ctx,
+      quoteResponse,
+      jupiter,
+      (request) => jupiter.swap(request),
+      opts.restriction,
+      opts.counters,
+    );
+    const rawTx = Buffer.from(swap.swapTransaction, "base64");
+    const signed = await ctx.solana.signRawTransaction(rawTx);
+    const result = await ctx.solana.sendAndConfirmRawTx(signed, {
+      commitment: opts.commitment ?? "confirmed",
+    });
+    // A swap that failed on-chain moved no funds and is not counted.
+    if (!result.err) {
+      await policyCounterStoreFor(ctx.config).record(usedQuote);
+    }
+    const tokenInfoMap = await getTokenInfoMap(
+      [usedQuote.inputMint, usedQuote.outputMint].filter(
+        (mint) => mint !== solMint,
+      ),
+    );
+    const inputInfo = tokenInfoMap.get(usedQuote.inputMint) ?? null;
+    const outputInfo = tokenInfoMap.get(usedQuote.outputMint) ?? null;
+
+    const inputSnapshot = await computePriceSnapshot(
+      usedQuote.inputMint,
+      inputInfo,
+    );
+    const outputSnapshot = await computePriceSnapshot(
+      usedQuote.outputMint,
+      outputInfo,
+    );
+
+    const inputPrice =
+      inputSnapshot.mid ?? inputSnapshot.bid ?? inputSnapshot.ask;
+    const outputPrice =
+      outputSnapshot.mid ?? outputSnapshot.bid ?? outputSnapshot.ask;
+
+    let inputValueSol: string | null = null;
+    let outputValueSol: string | null = null;
+
+    try {
+      const inputAmount = BigInt(usedQuote.inAmount ?? "0");
+      const outputAmount = BigInt(usedQuote.outAmount ?? "0");
+      const inputDecimals =
+        usedQuote.inputMint === solMint ? solDecimals : inputInfo?.decimals;
+      const outputDecimals =
+        usedQuote.outputMint === solMint ? solDecimals : outputInfo?.decimals;
+      const inputPriceScaled =
+        usedQuote.inputMint === solMint
+          ? 10n ** BigInt(priceDecimals)
+          : inputPrice
+            ? parseScaled(inputPrice, priceDecimals)
+            : null;
+      const outputPriceScaled =
+        usedQuote.outputMint === solMint
+          ? 10n ** BigInt(priceDecimals)
+          : outputPrice
+            ? parseScaled(outputPrice, priceDecimals)
+            : null;
+      if (inputDecimals !== undefined && inputPriceScaled) {
+        inputValueSol = formatScaled(
+          valueFromAmount(inputAmount, inputDecimals, inputPriceScaled),
+          priceDecimals,
+        );
+      }
+      if (outputDecimals !== undefined && outputPriceScaled) {
+        outputValueSol = formatScaled(
+          valueFromAmount(outputAmount, outputDecimals, outputPriceScaled),
+          priceDecimals,
+        );
+      }
+    } catch {
+      inputValueSol = null;
+      outputValueSol = null;
+    }
+    // Best effort: the ledger treats a missing fee as zero.
+    const feeLamports =
+      !result.err && ctx.solana.getTransactionFeeLamports
+        ? await ctx.solana
+            .getTransactionFeeLamports(result.signature)
+            .catch(() => null)
+        : null;
+    await ctx.tradeJournal.append({
+      type: "swap",
+      ts: new Date().toISOString(),
+      signature: result.signature,
+      status: result.err ? "error" : "confirmed",
+      lastValidBlockHeight: swap.lastValidBlockHeight,
+      inputMint: usedQuote.inputMint,
+      outputMint: usedQuote.outputMint,
+      inAmount: usedQuote.inAmount,
+      outAmount: usedQuote.outAmount,
+      inValueSol: inputValueSol,
+      outValueSol: outputValueSol,
+      feeLamports,
+      ...(opts.execution ? { execution: opts.execution } : {}),
+    });
+    return {
+      signature: result.signature,
+      lastValidBlockHeight: swap.lastValidBlockHeight,
+      status: result.err ? "error" : "confirmed",
+      quoteResponse: usedQuote,
+    };
+  };
+
   registry.register({
     name: "trade.jupiter_swap",
     description: "Build + sign + submit Jupiter swap transaction.",
@@ -53,99 +195,199 @@ export function registerTradeTools(
         txOptions?: { commitment?: "processed" | "confirmed" | "finalized" };
       },
     ) => {
-      enforcePolicy(ctx.config.policy, input.quoteResponse);
-      const { swap, quoteResponse: usedQuote } = await swapWithRetry(
-        ctx,
-        input.quoteResponse,
-        jupiter,
-        (request) => jupiter.swap(request),
-      );
-      const rawTx = Buffer.from(swap.swapTransaction, "base64");
-      const signed = await ctx.solana.signRawTransaction(rawTx);
-      const result = await ctx.solana.sendAndConfirmRawTx(signed, {
-        commitment: input.txOptions?.commitment ?? "confirmed",
+      const result = await executeSwap(ctx, input.quoteResponse, {
+        commitment: input.txOptions?.commitment,
       });
-      const tokenInfoMap = await getTokenInfoMap(
-        [usedQuote.inputMint, usedQuote.outputMint].filter(
-          (mint) => mint !== solMint,
-        ),
-      );
-      const inputInfo = tokenInfoMap.get(usedQuote.inputMint) ?? null;
-      const outputInfo = tokenInfoMap.get(usedQuote.outputMint) ?? null;
-
-      const inputSnapshot = await computePriceSnapshot(
-        usedQuote.inputMint,
-        inputInfo,
-      );
-      const outputSnapshot = await computePriceSnapshot(
-        usedQuote.outputMint,
-        outputInfo,
-      );
-
-      const inputPrice =
-        inputSnapshot.mid ?? inputSnapshot.bid ?? inputSnapshot.ask;
-      const outputPrice =
-        outputSnapshot.mid ?? outputSnapshot.bid ?? outputSnapshot.ask;
+      return {
+        signature: result.signature,
+        lastValidBlockHeight: result.lastValidBlockHeight,
+        status: result.status,
+      };
+    },
+  });
 
-      let inputValueSol: string | null = null;
-      let outputValueSol: string | null = null;
+  registry.register({
+    name: "trade.best_execution",
+    description:
+      "Compare Jupiter, Raydium and Orca quotes, pick the best venue and execute, slicing large orders over time to stay within price impact policy.",
+    schema: {
+      name: "trade.best_execution",
+      description:
+        "Compare Jupiter, Raydium and Orca quotes, pick the best venue and execute, slicing large orders over time to stay within price impact policy.",
+      parameters: {
+        type: "object",
+        properties: {
+          inputMint: { type: "string" },
+          outputMint: { type: "string" },
+          amount: { type: "string" },
+          swapMode: { type: "string", enum: ["ExactIn", "ExactOut"] },
+          slippageBps: { type: "number" },
+          venues: {
+            type: "array",
+            items: { type: "string", enum: [...EXECUTION_VENUES] },
+          },
+          slices: { type: "number" },
+          autoSlice: { type: "boolean" },
+          sliceIntervalSeconds: { type: "number" },
+          dryRun: { type: "boolean" },
+          txOptions: {
+            type: "object",
+            properties: {
+              commitment: {
+                type: "string",
+                enum: ["processed", "confirmed", "finalized"],
+              },
+            },
+            required: [],
+            additionalProperties: false,
+          },
+        },
+        required: ["inputMint", "outputMint", "amount"],
+        additionalProperties: false,
+      },
+    },
+    requires: { config: ["rpc.endpoint", "jupiter.apiKey"] },
+    execute: async (
+      ctx: ToolContext,
+      input: {
+        inputMint: string;
+        outputMint: string;
+        amount: string;
+        swapMode?: SwapMode;
+        slippageBps?: number;
+        venues?: ExecutionVenue[];
+        slices?: number;
+        autoSlice?: boolean;
+        sliceIntervalSeconds?: number;
+        dryRun?: boolean;
+        txOptions?: { commitment?: "processed" | "confirmed" | "finalized" };
+      },
+    ) => {
+      const policy = ctx.config.policy;
+      const swapMode = input.swapMode ?? "ExactIn";
+      const request = {
+        inputMint: input.inputMint,
+        outputMint: input.outputMint,
+        amount: input.amount,
+        slippageBps:
+          input.slippageBps ?? Math.min(defaultSlippageBps, policy.slippageBps),
+        swapMode,
+      };
+      const venues =
+        input.venues && input.venues.length > 0
+          ? [...new Set(input.venues)]
+          : [...EXECUTION_VENUES];
+      const candidates = await gatherVenueCandidates(deps, venues, request);
+      const selection = selectBestRoute(candidates, {
+        swapMode,
+        maxPriceImpactPct: policy.maxPriceImpactPct,
+      });
+      const chosen = selection.candidate;
+      const sliceCount =
+        input.slices ??
+        (input.autoSlice === false
+          ? 1
+          : planSliceCount({
+              priceImpactPct: chosen.priceImpactPct ?? 0,
+              maxPriceImpactPct: policy.maxPriceImpactPct,
+              inAmount: chosen.inAmount ?? "0",
+              maxTradeAmountLamports: policy.maxTradeAmountAtomic,
+            }));
+      const sliceAmounts = splitAmount(input.amount, sliceCount);
+      const sliceIntervalSeconds =
+        sliceCount > 1 ? (input.sliceIntervalSeconds ?? 30) : 0;
+      const summaries = candidates.map(summarizeCandidate);
+      const plan = {
+        venue: chosen.venue,
+        routeLabels: chosen.routeLabels ?? [],
+        reason: selection.reason,
+        swapMode,
+        slices: sliceCount,
+        sliceAmounts,
+        sliceIntervalSeconds,
+        candidates: summaries,
+      };
+      if (input.dryRun) {
+        return { executed: false, ...plan };
+      }
 
-      try {
-        const inputAmount = BigInt(usedQuote.inAmount ?? "0");
-        const outputAmount = BigInt(usedQuote.outAmount ?? "0");
-        const inputDecimals =
-          usedQuote.inputMint === solMint ? solDecimals : inputInfo?.decimals;
-        const outputDecimals =
-          usedQuote.outputMint === solMint ? solDecimals : outputInfo?.decimals;
-        const inputPriceScaled =
-          usedQuote.inputMint === solMint
-            ? 10n ** BigInt(priceDecimals)
-            : inputPrice
-              ? parseScaled(inputPrice, priceDecimals)
-              : null;
-        const outputPriceScaled =
-          usedQuote.outputMint === solMint
-            ? 10n ** BigInt(priceDecimals)
-            : outputPrice
-              ? parseScaled(outputPrice, priceDecimals)
-              : null;
-        if (inputDecimals !== undefined && inputPriceScaled) {
-          inputValueSol = formatScaled(
-            valueFromAmount(inputAmount, inputDecimals, inputPriceScaled),
-            priceDecimals,
-          );
+      const parentId = crypto.randomUUID();
+      const restriction =
+        chosen.venue === "jupiter"
+          ? undefined
+          : { dexes: chosen.dexes, onlyDirectRoutes: true };
+      const fills: Array<{
+        slice: number;
+        signature: string;
+        status: string;
+        inAmount: string;
+        outAmount: string;
+      }> = [];
+      let stoppedReason: string | null = null;
+      const counters = await policyCounterStoreFor(ctx.config).read();
+      for (let i = 0; i < sliceCount; i += 1) {
+        if (i > 0 && sliceIntervalSeconds > 0) {
+          await sleep(sliceIntervalSeconds * 1000);
         }
-        if (outputDecimals !== undefined && outputPriceScaled) {
-          outputValueSol = formatScaled(
-            valueFromAmount(outputAmount, outputDecimals, outputPriceScaled),
-            priceDecimals,
-          );
+        try {
+          let quoteResponse = chosen.quoteResponse;
+          if (sliceCount > 1 || !quoteResponse) {
+            const sliceQuote = await quoteVenue(deps, chosen.venue, {
+              ...request,
+              amount: sliceAmounts[i],
+            });
+            if (!sliceQuote.ok || !sliceQuote.quoteResponse) {
+              throw new Error(sliceQuote.error ?? "no-venue-quote");
+            }
+            quoteResponse = sliceQuote.quoteResponse;
+          }
+          const result = await executeSwap(ctx, quoteResponse, {
+            commitment: input.txOptions?.commitment,
+            restriction,
+            counters,
+            execution: {
+              tool: "trade.best_execution",
+              parentId,
+              venue: chosen.venue,
+              routeLabels: quoteResponse.routePlan.map(
+                (step) => step.swapInfo.label ?? "route",
+              ),
+              reason: selection.reason,
+              slice: i + 1,
+              slices: sliceCount,
+              candidates: summaries,
+            },
+          });
+          fills.push({
+            slice: i + 1,
+            signature: result.signature,
+            status: result.status,
+            inAmount: result.quoteResponse.inAmount,
+            outAmount: result.quoteResponse.outAmount,
+          });
+          if (result.status === "error") {
+            stoppedReason = "slice-failed";
+            break;
+          }
+        } catch (err) {
+          // The first slice fails like a plain swap; later slices keep what
+          // already filled and report why the rest was abandoned.
+          if (i === 0) throw err;
+          stoppedReason = err instanceof Error ? err.message : String(err);
+          break;
         }
-      } catch {
-        inputValueSol = null;
-        outputValueSol = null;
       }
-      await ctx.tradeJournal.append({
-        type: "swap",
-        signature: result.signature,
-        status: result.err ? "error" : "confirmed",
-        lastValidBlockHeight: swap.lastValidBlockHeight,
-        inputMint: usedQuote.inputMint,
-        outputMint: usedQuote.outputMint,
-        inAmount: usedQuote.inAmount,
-        outAmount: usedQuote.outAmount,
-        inValueSol: inputValueSol,
-        outValueSol: outputValueSol,
-      });
-      return {
-        signature: result.signature,
-        lastValidBlockHeight: swap.lastValidBlockHeight,
-        status: result.err ? "error" : "confirmed",
-      };
+      return { executed: true, parentId, ...plan, fills, stoppedReason };
     },
   });
 }
 
+// Keeps a re-quote on the venue the original quote was restricted to.
+type RouteRestriction = {
+  dexes?: string[];
+  onlyDirectRoutes?: boolean;
+};
+
 async function swapWithRetry(
   ctx: ToolContext,
   quoteResponse: JupiterQuoteResponse,
@@ -157,6 +399,8 @@ async function swapWithRetry(
     swapTransaction: string;
     lastValidBlockHeight: number;
   }>,
+  restriction?: RouteRestriction,
+  counters?: PolicyCounters,
 ): Promise<{
   swap: { swapTransaction: string; lastValidBlockHeight: number };
   quoteResponse: JupiterQuoteResponse;
@@ -171,8 +415,8 @@ async function swapWithRetry(
     };
   } catch (err) {
     if (!isSwap422(err)) throw err;
-    const refreshed = await reQuote(jupiter, quoteResponse);
-    enforcePolicy(ctx.config.policy, refreshed);
+    const refreshed = await reQuote(jupiter, quoteResponse, restriction);
+    await enforcePolicy(ctx, refreshed, counters);
     return {
       swap: await swap({
         quoteResponse: refreshed,
@@ -191,6 +435,7 @@ function isSwap422(err: unknown): boolean {
 async function reQuote(
   jupiter: ToolDeps["jupiter"],
   quoteResponse: JupiterQuoteResponse,
+  restriction?: RouteRestriction,
 ): Promise<JupiterQuoteResponse> {
   const swapModeRaw = quoteResponse.swapMode;
   const swapMode =
@@ -214,39 +459,24 @@ async function reQuote(
     amount,
     slippageBps,
     swapMode,
+    ...restriction,
   });
   return refreshed.quoteResponse;
 }
 
-function enforcePolicy(
-  policy: PolicySnapshot,
+// Throws the first failed rule's reason when the quote breaks the policy.
+async function enforcePolicy(
+  ctx: ToolContext,
   quoteResponse: JupiterQuoteResponse,
-): void {
-  if (policy.killSwitch) {
-    throw new Error("kill-switch-enabled");
-  }
-  const inputMint = quoteResponse.inputMint;
-  const outputMint = quoteResponse.outputMint;
-  if (policy.allowedMints.length > 0) {
-    if (
-      (inputMint && !policy.allowedMints.includes(inputMint)) ||
-      (outputMint && !policy.allowedMints.includes(outputMint))
-    ) {
-      throw new Error("mint-not-allowed");
-    }
-  }
-  const inAmount = quoteResponse.inAmount;
-  if (policy.maxTradeAmountLamports !== "0" && inAmount) {
-    if (BigInt(inAmount) > BigInt(policy.maxTradeAmountLamports)) {
-      throw new Error("trade-amount-exceeds-cap");
-    }
-  }
-  const priceImpactPctRaw = quoteResponse.priceImpactPct;
-  const priceImpactPct =
-    typeof priceImpactPctRaw === "string"
-      ? Number(priceImpactPctRaw)
-      : (priceImpactPctRaw ?? 0);
-  if (priceImpactPct > policy.maxPriceImpactPct) {
-    throw new Error("price-impact-too-high");
-  }
+  counters?: PolicyCounters,
+): Promise<void> {
+  const policy = ctx.config.policy;
+  const report = evaluateSwap(policy, quoteResponse, {
+    counters: counters ?? (await policyCounterStoreFor(ctx.config).read()),
+    solLamports:
+      policy.minSolReserveLamports === "0"
+        ? null
+        : await ctx.solana.getSolBalanceLamports(),
+  });
+  if (!report.allow) throw new Error(report.reasons[0]);
 }
@@ -1,3 +1,5 @@
+import type { PolicyInput } from "../policy/index.js";
+
 export type QuoteSummary = {
   inAmount: string;
   outAmount: string;
@@ -15,12 +17,5 @@ export type BalancesSnapshot = {
   }[];
 };
 
-export type PolicySnapshot = {
-  killSwitch: boolean;
-  allowedMints: string[];
-  maxTradeAmountLamports: string;
-  maxSlippageBps: number;
-  maxPriceImpactPct: number;
-  cooldownSeconds: number;
-  dailySpendCapLamports?: string;
-};
+// A policy in either shape; see src/policy/schema.ts.
+export type PolicySnapshot = PolicyInput;
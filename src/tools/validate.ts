@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { JupiterQuoteResponseSchema } from "../jupiter/schema.js";
+import { COST_BASIS_METHODS } from "../ledger/index.js";
+import { CANDLE_INTERVALS, MAX_CANDLES } from "../market/index.js";
+import { parseLocalPolicy } from "../policy/index.js";
+import { EXECUTION_VENUES, MAX_EXECUTION_SLICES } from "./best_execution.js";
 
 const QuoteSchema = z.object({
   inputMint: z.string().min(1),
@@ -24,6 +28,24 @@ const TradeSchema = z.object({
     .optional(),
 });
 
+const BestExecutionSchema = z.object({
+  inputMint: z.string().min(1),
+  outputMint: z.string().min(1),
+  amount: z.string().regex(/^[1-9]\d*$/),
+  swapMode: z.enum(["ExactIn", "ExactOut"]).optional(),
+  slippageBps: z.number().int().nonnegative().optional(),
+  venues: z.array(z.enum(EXECUTION_VENUES)).optional(),
+  slices: z.number().int().min(1).max(MAX_EXECUTION_SLICES).optional(),
+  autoSlice: z.boolean().optional(),
+  sliceIntervalSeconds: z.number().int().min(0).max(600).optional(),
+  dryRun: z.boolean().optional(),
+  txOptions: z
+    .object({
+      commitment: z.enum(["processed", "confirmed", "finalized"]).optional(),
+    })
+    .optional(),
+});
+
 const BalancesSchema = z.object({
   mints: z.array(z.string()).optional(),
 });
@@ -46,14 +68,16 @@ const RiskSchema = z.object({
       }),
     ),
   }),
-  policySnapshot: z.object({
-    killSwitch: z.boolean(),
-    allowedMints: z.array(z.string()),
-    maxTradeAmountLamports: z.string(),
-    maxSlippageBps: z.number().int(),
-    maxPriceImpactPct: z.number(),
-    cooldownSeconds: z.number().int(),
-    dailySpendCapLamports: z.string().optional().nullable(),
+  // Either policy shape; parseLocalPolicy names the first invalid field.
+  policySnapshot: z.record(z.unknown()).superRefine((value, ctx) => {
+    try {
+      parseLocalPolicy(value);
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
   }),
 });
 
@@ -66,6 +90,7 @@ const MaxPositionSchema = z.object({
 
 const DailyPnlSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  costBasis: z.enum(COST_BASIS_METHODS).optional(),
 });
 
 const NotifySchema = z.object({
@@ -181,6 +206,33 @@ const CandlesSchema = z.object({
   limit: z.number().int().positive().max(1000).optional(),
 });
 
+const RecordedCandlesSchema = z.object({
+  pair: z.string().min(1),
+  interval: z.enum(CANDLE_INTERVALS),
+  limit: z.number().int().positive().max(MAX_CANDLES).optional(),
+  to: z.number().int().positive().optional(),
+});
+
+const IndicatorCandleSchema = z.object({
+  t: z.number(),
+  o: z.union([z.string(), z.number()]),
+  h: z.union([z.string(), z.number()]),
+  l: z.union([z.string(), z.number()]),
+  c: z.union([z.string(), z.number()]),
+  v: z.union([z.string(), z.number()]),
+});
+
+const IndicatorsSchema = z
+  .object({
+    candles: z.array(IndicatorCandleSchema).max(MAX_CANDLES).optional(),
+    pair: z.string().min(1).optional(),
+    interval: z.enum(CANDLE_INTERVALS).optional(),
+    limit: z.number().int().positive().max(MAX_CANDLES).optional(),
+  })
+  .refine((input) => input.candles || (input.pair && input.interval), {
+    message: "candles or pair and interval required",
+  });
+
 const PredictionMarketsListSchema = z.object({
   venue: z.string().min(1),
 });
@@ -230,6 +282,8 @@ export const TOOL_VALIDATORS: Record<string, z.ZodTypeAny> = {
   "market.token_metadata": TokenMetadataSchema,
   "market.pyth_price": PythPriceSchema,
   "market.candles": CandlesSchema,
+  "market.recorded_candles": RecordedCandlesSchema,
+  "market.indicators": IndicatorsSchema,
   "market.prediction_markets_list": PredictionMarketsListSchema,
   "market.prediction_market_quote": PredictionMarketQuoteSchema,
   "market.raydium_pool_stats": RaydiumPoolSchema,
@@ -243,6 +297,7 @@ export const TOOL_VALIDATORS: Record<string, z.ZodTypeAny> = {
   "risk.daily_pnl_snapshot": DailyPnlSchema,
   "risk.check_trade": RiskSchema,
   "trade.jupiter_swap": TradeSchema,
+  "trade.best_execution": BestExecutionSchema,
   "notify.emit": NotifySchema,
   "system.autopilot_tick": TickSchema,
   "agent.message": AgentMessageSchema,
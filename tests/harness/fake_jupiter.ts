@@ -0,0 +1,141 @@
+import {
+  base58Decode,
+  bytesToBase64,
+} from "../../apps/worker/src/local_signer";
+
+const FAKE_POOL = "FakePoo1111111111111111111111111111111111111";
+const JUPITER_PROGRAM = new Uint8Array(32).fill(4);
+
+export type FakeJupiterOptions = {
+  // outAmount = inAmount * rate, per "inputMint->outputMint"; 1 otherwise.
+  rates?: Record<string, number>;
+  priceImpactPct?: string;
+  // HTTP statuses returned by the next swap builds, in order (e.g. [422]).
+  swapErrors?: number[];
+  // HTTP statuses returned by the next quotes, in order.
+  quoteErrors?: number[];
+  lastValidBlockHeight?: number;
+};
+
+function isPublicKey(value: string): boolean {
+  try {
+    return base58Decode(value).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+// Unsigned v0 transaction with the user as the only signer and fee payer:
+// header [1, 0, 1], keys [user, program], a fresh blockhash, no
+// instructions and no lookup tables.
+export function buildSwapTransaction(userPublicKey: string): string {
+  const message = new Uint8Array([
+    0x80,
+    1,
+    0,
+    1,
+    2,
+    ...base58Decode(userPublicKey),
+    ...JUPITER_PROGRAM,
+    ...crypto.getRandomValues(new Uint8Array(32)),
+    0,
+    0,
+  ]);
+  return bytesToBase64(new Uint8Array([1, ...new Uint8Array(64), ...message]));
+}
+
+// Jupiter swap API fake: quotes at fixed rates and builds transactions the
+// worker's signers can sign and FakeSolanaRpc can verify.
+export class FakeJupiter {
+  rates: Record<string, number>;
+  priceImpactPct: string;
+  swapErrors: number[];
+  quoteErrors: number[];
+  lastValidBlockHeight: number;
+  readonly quotes: Array<Record<string, string>> = [];
+  readonly swaps: Array<Record<string, unknown>> = [];
+
+  constructor(options: FakeJupiterOptions = {}) {
+    this.rates = options.rates ?? {};
+    this.priceImpactPct = options.priceImpactPct ?? "0";
+    this.swapErrors = [...(options.swapErrors ?? [])];
+    this.quoteErrors = [...(options.quoteErrors ?? [])];
+    this.lastValidBlockHeight = options.lastValidBlockHeight ?? 280_000_150;
+  }
+
+  fetch = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    if (request.method === "GET" && url.pathname === "/swap/v1/quote") {
+      return this.quote(url.searchParams);
+    }
+    if (request.method === "POST" && url.pathname === "/swap/v1/swap") {
+      return this.swap((await request.json()) as Record<string, unknown>);
+    }
+    return Response.json({ error: "not found" }, { status: 404 });
+  };
+
+  private quote(params: URLSearchParams): Response {
+    const query = Object.fromEntries(params.entries());
+    this.quotes.push(query);
+    const status = this.quoteErrors.shift();
+    if (status) {
+      return Response.json({ error: "quote failed" }, { status });
+    }
+    const { inputMint, outputMint, amount } = query;
+    if (!inputMint || !outputMint || !/^[0-9]+$/.test(amount ?? "")) {
+      return Response.json({ error: "invalid quote request" }, { status: 400 });
+    }
+    const rate = this.rates[`${inputMint}->${outputMint}`] ?? 1;
+    const outAmount = BigInt(Math.floor(Number(amount) * rate)).toString();
+    return Response.json({
+      inputMint,
+      inAmount: amount,
+      outputMint,
+      outAmount,
+      otherAmountThreshold: outAmount,
+      swapMode: query.swapMode ?? "ExactIn",
+      slippageBps: Number(query.slippageBps ?? 50),
+      priceImpactPct: this.priceImpactPct,
+      routePlan: [
+        {
+          swapInfo: {
+            ammKey: FAKE_POOL,
+            label: "Fake",
+            inputMint,
+            outputMint,
+            inAmount: amount,
+            outAmount,
+          },
+          percent: 100,
+        },
+      ],
+      // Distinguishes a re-quote from the quote it replaces.
+      contextSlot: this.quotes.length,
+    });
+  }
+
+  private swap(body: Record<string, unknown>): Response {
+    this.swaps.push(body);
+    const status = this.swapErrors.shift();
+    if (status) {
+      return Response.json(
+        { error: "swap build failed" },
+        { status, headers: { "x-request-id": `fake-${this.swaps.length}` } },
+      );
+    }
+    const user = String(body.userPublicKey ?? "");
+    if (!body.quoteResponse || !isPublicKey(user)) {
+      return Response.json({ error: "invalid swap request" }, { status: 400 });
+    }
+    const computeUnitLimit = 200_000;
+    const unitPrice = Number(body.computeUnitPriceMicroLamports ?? 0);
+    return Response.json({
+      swapTransaction: buildSwapTransaction(user),
+      lastValidBlockHeight: this.lastValidBlockHeight,
+      prioritizationFeeLamports: Math.ceil(
+        (unitPrice * computeUnitLimit) / 1_000_000,
+      ),
+      computeUnitLimit,
+    });
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  base58Encode,
+  base64ToBytes,
+} from "../../apps/worker/src/local_signer";
+
+export const NETWORK_FEE_LAMPORTS = 5000;
+
+type SentTransaction = {
+  signature: string;
+  feePayer: string;
+  wire: string;
+  // getSignatureStatuses calls that have seen it so far.
+  polls: number;
+  err: unknown;
+  dropped: boolean;
+};
+
+export type FakeMint = {
+  program?: "spl-token" | "spl-token-2022";
+  mintAuthority?: string | null;
+  freezeAuthority?: string | null;
+  supply: string;
+  extensions?: Array<{ extension: string; state?: Record<string, unknown> }>;
+  // Atomic amounts of the largest token accounts.
+  largestAccounts?: string[];
+};
+
+export type FakeRpcOptions = {
+  // Native balance per wallet, in lamports.
+  balances?: Record<string, bigint | number>;
+  // owner -> mint -> atomic amount.
+  tokenBalances?: Record<string, Record<string, string>>;
+  // Error returned by simulateTransaction.
+  simulationError?: unknown;
+  // Status polls a sent transaction stays "processed" before it confirms.
+  confirmAfterPolls?: number;
+  // On-chain error for every landed transaction.
+  transactionError?: unknown;
+  // Sent transactions are accepted but never land.
+  dropTransactions?: boolean;
+  prioritizationFees?: number[];
+  slot?: number;
+  blockHeight?: number;
+  // Token mint accounts served by getAccountInfo and getTokenLargestAccounts.
+  mints?: Record<string, FakeMint>;
+};
+
+function readCompactU16(
+  bytes: Uint8Array,
+  offset: number,
+): { value: number; size: number } {
+  let value = 0;
+  for (let i = 0; i < 3; i += 1) {
+    const byte = bytes[offset + i] ?? 0;
+    value |= (byte & 0x7f) << (7 * i);
+    if ((byte & 0x80) === 0) return { value, size: i + 1 };
+  }
+  return { value, size: 3 };
+}
+
+// Fee payer, first signature and signed message of a wire transaction.
+function parseWire(wire: Uint8Array): {
+  feePayer: Uint8Array;
+  signature: Uint8Array;
+  message: Uint8Array;
+} {
+  const sigCount = readCompactU16(wire, 0);
+  const messageStart = sigCount.size + sigCount.value * 64;
+  const message = wire.slice(messageStart);
+  let offset = (message[0] ?? 0) & 0x80 ? 1 : 0;
+  offset += 3;
+  const keyCount = readCompactU16(message, offset);
+  offset += keyCount.size;
+  return {
+    feePayer: message.slice(offset, offset + 32),
+    signature: wire.slice(sigCount.size, sigCount.size + 64),
+    message,
+  };
+}
+
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// JSON-RPC fake of the Solana methods the worker calls. Sent transactions
+// must carry a valid fee payer signature, like preflight on a real node.
+export class FakeSolanaRpc {
+  balances: Map<string, bigint>;
+  tokenBalances: Record<string, Record<string, string>>;
+  simulationError: unknown;
+  confirmAfterPolls: number;
+  transactionError: unknown;
+  dropTransactions: boolean;
+  prioritizationFees: number[];
+  slot: number;
+  blockHeight: number;
+  mints: Record<string, FakeMint>;
+  readonly calls: Array<{ method: string; params: unknown[] }> = [];
+  readonly transactions = new Map<string, SentTransaction>();
+
+  constructor(options: FakeRpcOptions = {}) {
+    this.balances = new Map(
+      Object.entries(options.balances ?? {}).map(([wallet, lamports]) => [
+        wallet,
+        BigInt(lamports),
+      ]),
+    );
+    this.tokenBalances = options.tokenBalances ?? {};
+    this.simulationError = options.simulationError ?? null;
+    this.confirmAfterPolls = options.confirmAfterPolls ?? 0;
+    this.transactionError = options.transactionError ?? null;
+    this.dropTransactions = options.dropTransactions ?? false;
+    this.prioritizationFees = options.prioritizationFees ?? [];
+    this.slot = options.slot ?? 300_000_000;
+    this.blockHeight = options.blockHeight ?? 280_000_000;
+    this.mints = { ...options.mints };
+  }
+
+  callCount(method: string): number {
+    return this.calls.filter((call) => call.method === method).length;
+  }
+
+  // Moves the chain forward, e.g. past a blockhash's last valid height.
+  advance(blocks: number): void {
+    this.slot += blocks;
+    this.blockHeight += blocks;
+  }
+
+  fetch = async (request: Request): Promise<Response> => {
+    const body = (await request.json()) as {
+      id?: unknown;
+      method?: string;
+      params?: unknown[];
+    };
+    const method = String(body.method ?? "");
+    const params = Array.isArray(body.params) ? body.params : [];
+    this.calls.push({ method, params });
+    try {
+      const result = await this.handle(method, params);
+      return Response.json({ jsonrpc: "2.0", id: body.id, result });
+    } catch (err) {
+      const error =
+        err instanceof RpcError
+          ? { code: err.code, message: err.message }
+          : { code: -32603, message: String(err) };
+      return Response.json({ jsonrpc: "2.0", id: body.id, error });
+    }
+  };
+
+  private async handle(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "getBalance":
+        return {
+          context: { slot: this.slot },
+          value: Number(this.balances.get(String(params[0])) ?? 0n),
+        };
+      case "getTokenAccountsByOwner": {
+        const owner = String(params[0]);
+        const mint = String((params[1] as { mint?: string })?.mint);
+        const amount = this.tokenBalances[owner]?.[mint];
+        return {
+          context: { slot: this.slot },
+          value:
+            amount === undefined
+              ? []
+              : [
+                  {
+                    pubkey: `${owner.slice(0, 8)}${mint.slice(0, 8)}`,
+                    account: {
+                      data: {
+                        parsed: { info: { mint, tokenAmount: { amount } } },
+                      },
+                    },
+                  },
+                ],
+        };
+      }
+      case "simulateTransaction":
+        await this.verify(String(params[0]));
+        return {
+          context: { slot: this.slot },
+          value: {
+            err: this.simulationError,
+            logs: [],
+            unitsConsumed: 120_000,
+          },
+        };
+      case "sendTransaction": {
+        const sent = await this.verify(String(params[0]));
+        this.transactions.set(sent.signature, sent);
+        return sent.signature;
+      }
+      case "getSignatureStatuses":
+        return {
+          context: { slot: this.slot },
+          value: (params[0] as string[]).map((signature) =>
+            this.status(signature),
+          ),
+        };
+      case "getSlot":
+        return this.slot;
+      case "getBlockHeight":
+        return this.blockHeight;
+      case "getRecentPrioritizationFees":
+        return this.prioritizationFees.map((prioritizationFee, i) => ({
+          slot: this.slot - this.prioritizationFees.length + i,
+          prioritizationFee,
+        }));
+      case "getTransaction":
+        return this.transaction(String(params[0]));
+      case "getAccountInfo": {
+        const mint = this.mints[String(params[0])];
+        return {
+          context: { slot: this.slot },
+          value: mint
+            ? {
+                data: {
+                  program: mint.program ?? "spl-token",
+                  parsed: {
+                    type: "mint",
+                    info: {
+                      mintAuthority: mint.mintAuthority ?? null,
+                      freezeAuthority: mint.freezeAuthority ?? null,
+                      supply: mint.supply,
+                      decimals: 6,
+                      extensions: mint.extensions,
+                    },
+                  },
+                },
+              }
+            : null,
+        };
+      }
+      case "getTokenLargestAccounts":
+        return {
+          context: { slot: this.slot },
+          value: (this.mints[String(params[0])]?.largestAccounts ?? []).map(
+            (amount, i) => ({ address: `holder${i}`, amount }),
+          ),
+        };
+      default:
+        throw new RpcError(-32601, "Method not found");
+    }
+  }
+
+  private async verify(signedBase64: string): Promise<SentTransaction> {
+    const wire = base64ToBytes(signedBase64);
+    const { feePayer, signature, message } = parseWire(wire);
+    const key = await crypto.subtle.importKey(
+      "raw",
+      feePayer,
+      { name: "Ed25519" },
+      false,
+      ["verify"],
+    );
+    const valid = await crypto.subtle.verify(
+      { name: "Ed25519" },
+      key,
+      signature,
+      message,
+    );
+    if (!valid) {
+      throw new RpcError(-32003, "Transaction signature verification failure");
+    }
+    return {
+      signature: base58Encode(signature),
+      feePayer: base58Encode(feePayer),
+      wire: signedBase64,
+      polls: 0,
+      err: this.transactionError,
+      dropped: this.dropTransactions,
+    };
+  }
+
+  private status(signature: string) {
+    const tx = this.transactions.get(signature);
+    if (!tx || tx.dropped) return null;
+    tx.polls += 1;
+    return {
+      slot: this.slot,
+      confirmations: null,
+      err: tx.err,
+      confirmationStatus:
+        tx.polls > this.confirmAfterPolls ? "confirmed" : "processed",
+    };
+  }
+
+  private transaction(signature: string) {
+    const tx = this.transactions.get(signature);
+    if (!tx || tx.dropped || tx.polls <= this.confirmAfterPolls) return null;
+    const balance = Number(this.balances.get(tx.feePayer) ?? 0n);
+    return {
+      slot: this.slot,
+      transaction: { message: { accountKeys: [tx.feePayer] } },
+      meta: {
+        fee: NETWORK_FEE_LAMPORTS,
+        err: tx.err,
+        preBalances: [balance],
+        postBalances: [balance - NETWORK_FEE_LAMPORTS],
+        preTokenBalances: [],
+        postTokenBalances: [],
+      },
+    };
+  }
+}
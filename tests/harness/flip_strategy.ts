@@ -0,0 +1,42 @@
+import { registerStrategy } from "../../apps/worker/src/strategies";
+import { defineStrategy } from "../../apps/worker/src/strategy_sdk";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+type FlipConfig = {
+  type: "test_flip";
+  amount: string;
+};
+
+// Swaps SOL -> USDC on even ticks and back on odd ones.
+registerStrategy(
+  defineStrategy<FlipConfig, { ticks: number }>({
+    type: "test_flip",
+    label: "Flip",
+    description: "Test strategy.",
+    configSchema: {
+      type: "object",
+      required: ["type", "amount"],
+      properties: { type: { const: "test_flip" }, amount: { type: "string" } },
+    },
+    defaultConfig: () => ({ type: "test_flip", amount: "1000000" }),
+    validate: (config) => {
+      if (typeof config.amount !== "string") {
+        throw new Error("invalid-test_flip-amount");
+      }
+    },
+    initialState: () => ({ ticks: 0 }),
+    tick: async (ctx) => {
+      const { ticks } = await ctx.state.get();
+      const fill = await ctx.executeSwap({
+        side: ticks % 2 === 0 ? "sell" : "buy",
+        inputMint: ticks % 2 === 0 ? SOL : USDC,
+        outputMint: ticks % 2 === 0 ? USDC : SOL,
+        amount: ctx.strategy.amount,
+      });
+      ctx.log("info", "flipped", { status: fill?.status });
+      await ctx.state.update((current) => ({ ticks: current.ticks + 1 }));
+    },
+  }),
+);
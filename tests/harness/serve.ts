@@ -0,0 +1,20 @@
+export type FakeServer = {
+  url: string;
+  stop: () => void;
+};
+
+// Serves a fake on an ephemeral localhost port so worker code reaches it
+// through plain fetch, the same way it reaches the real endpoints.
+export function serveFake(fake: {
+  fetch: (request: Request) => Promise<Response> | Response;
+}): FakeServer {
+  const server = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    fetch: (request) => fake.fetch(request),
+  });
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,57 @@
+import { BotLoop as WorkerBotLoop } from "../../apps/worker/src/bot_loop_do";
+import type { Env } from "../../apps/worker/src/types";
+
+export { default } from "../../apps/worker/src/index";
+
+const ALARM_KEY = "harness:alarmAt";
+
+// The worker's BotLoop with two changes for tests: its alarm is only stored
+// (tests fire it through /__harness/alarm, so no tick runs on a wall-clock
+// minute), and every request waits for the tick it queued before responding.
+export class BotLoop extends WorkerBotLoop {
+  private readonly pending: Promise<unknown>[];
+  private readonly alarmStorage: Pick<DurableObjectStorage, "getAlarm">;
+
+  constructor(state: DurableObjectState, env: Env) {
+    const pending: Promise<unknown>[] = [];
+    const storage = state.storage;
+    const wrapped = {
+      get: (key: string) => storage.get(key),
+      put: (key: string, value: unknown) => storage.put(key, value),
+      delete: (key: string) => storage.delete(key),
+      getAlarm: async () => (await storage.get<number>(ALARM_KEY)) ?? null,
+      setAlarm: (at: number | Date) =>
+        storage.put(ALARM_KEY, typeof at === "number" ? at : at.getTime()),
+      deleteAlarm: () => storage.delete(ALARM_KEY),
+    };
+    super(
+      {
+        storage: wrapped,
+        waitUntil: (promise: Promise<unknown>) => {
+          pending.push(promise);
+        },
+      } as unknown as DurableObjectState,
+      env,
+    );
+    this.pending = pending;
+    this.alarmStorage = wrapped as Pick<DurableObjectStorage, "getAlarm">;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const path = new URL(request.url).pathname;
+    if (path === "/__harness/alarm" && request.method === "GET") {
+      return Response.json({ alarmAt: await this.alarmStorage.getAlarm() });
+    }
+    let response: Response;
+    if (path === "/__harness/alarm") {
+      await this.alarm();
+      response = Response.json({ ok: true });
+    } else {
+      response = await super.fetch(request);
+    }
+    while (this.pending.length > 0) {
+      await Promise.all(this.pending.splice(0));
+    }
+    return response;
+  }
+}
@@ -0,0 +1,331 @@
+import { Database, type SQLQueryBindings } from "bun:sqlite";
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Miniflare } from "miniflare";
+import { updateLoopConfig } from "../../apps/worker/src/config";
+import {
+  base58Encode,
+  bytesToBase64,
+  encryptLocalKeypair,
+  generateLocalKeypair,
+} from "../../apps/worker/src/local_signer";
+import type {
+  Env,
+  LoopPolicy,
+  StrategyConfig,
+} from "../../apps/worker/src/types";
+import { FakeJupiter, type FakeJupiterOptions } from "./fake_jupiter";
+import { type FakeRpcOptions, FakeSolanaRpc } from "./fake_rpc";
+import { type FakeServer, serveFake } from "./serve";
+
+const MIGRATIONS_DIR = join(import.meta.dir, "../../apps/worker/migrations");
+const WORKER_ENTRY = join(import.meta.dir, "worker_entry.ts");
+const LOCAL_SIGNER_SECRET = bytesToBase64(new Uint8Array(32).fill(11));
+// The newest date the bundled workerd supports; wrangler.toml's is newer.
+const COMPATIBILITY_DATE = "2025-07-18";
+
+// The migrations as single statements, in order.
+function migrationStatements(): string[] {
+  return readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith(".sql"))
+    .sort()
+    .flatMap((file) =>
+      readFileSync(join(MIGRATIONS_DIR, file), "utf8")
+        .replace(/^\s*--.*$/gm, "")
+        .split(";")
+        .map((statement) => statement.trim())
+        .filter(Boolean),
+    );
+}
+
+type D1Row = Record<string, unknown>;
+
+// D1 binding backed by an in-memory SQLite database with the worker's
+// migrations applied. Like D1, binding undefined is an error.
+export function createD1(): Env["WAITLIST_DB"] {
+  const db = new Database(":memory:");
+  for (const statement of migrationStatements()) db.exec(statement);
+
+  const statement = (sql: string, params: SQLQueryBindings[] = []) => {
+    const query = () => db.query(sql);
+    const run = () => {
+      const result = query().run(...params);
+      return {
+        success: true,
+        results: [],
+        meta: {
+          changes: result.changes,
+          last_row_id: Number(result.lastInsertRowid),
+        },
+      };
+    };
+    const all = () => ({
+      success: true,
+      results: query().all(...params) as D1Row[],
+      meta: {},
+    });
+    return {
+      bind: (...values: unknown[]) => {
+        if (values.some((value) => value === undefined)) {
+          throw new Error("D1_TYPE_ERROR: Type 'undefined' not supported");
+        }
+        return statement(sql, values as SQLQueryBindings[]);
+      },
+      first: async (column?: string) => {
+        const row = (query().get(...params) as D1Row | null) ?? null;
+        if (!row) return null;
+        return column ? (row[column] ?? null) : row;
+      },
+      all: async () => all(),
+      run: async () => run(),
+      // batch() runs writes and reads alike.
+      execute: () => (/^\s*select/i.test(sql) ? all() : run()),
+    };
+  };
+
+  return {
+    prepare: (sql: string) => statement(sql),
+    batch: async (statements: Array<{ execute: () => unknown }>) =>
+      db.transaction(() => statements.map((s) => s.execute()))(),
+    exec: async (sql: string) => {
+      db.exec(sql);
+      return { count: 0, duration: 0 };
+    },
+  } as unknown as Env["WAITLIST_DB"];
+}
+
+// KV binding backed by a Map. expirationTtl is honoured on read.
+export function createKv(): Env["CONFIG_KV"] {
+  const store = new Map<string, { value: string; expiresAt: number | null }>();
+  const read = (key: string) => {
+    const entry = store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return null;
+    }
+    return entry.value;
+  };
+  return {
+    get: async (key: string, type?: string) => {
+      const value = read(key);
+      if (value === null) return null;
+      return type === "json" ? JSON.parse(value) : value;
+    },
+    put: async (
+      key: string,
+      value: string,
+      options?: { expirationTtl?: number },
+    ) => {
+      store.set(key, {
+        value,
+        expiresAt: options?.expirationTtl
+          ? Date.now() + options.expirationTtl * 1000
+          : null,
+      });
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+    },
+  } as unknown as Env["CONFIG_KV"];
+}
+
+// Bundles the worker with the harness entry, plus any extra modules (e.g.
+// one registering a test strategy). Cached per module list. The bundler
+// runs in its own process: Bun.build fails to read modules this process has
+// already loaded.
+const bundles = new Map<string, Promise<string>>();
+
+function bundleWorker(modules: string[]): Promise<string> {
+  const key = modules.join("\n");
+  let bundle = bundles.get(key);
+  if (!bundle) {
+    bundle = (async () => {
+      const dir = mkdtempSync(join(tmpdir(), "worker-harness-"));
+      try {
+        const entry = join(dir, "entry.ts");
+        writeFileSync(
+          entry,
+          [
+            ...modules.map((module) => `import ${JSON.stringify(module)};`),
+            `export * from ${JSON.stringify(WORKER_ENTRY)};`,
+            `export { default } from ${JSON.stringify(WORKER_ENTRY)};`,
+          ].join("\n"),
+        );
+        const build = Bun.spawn(
+          [
+            process.execPath,
+            "build",
+            entry,
+            "--target=browser",
+            "--format=esm",
+          ],
+          { stdout: "pipe", stderr: "pipe" },
+        );
+        const [script, errors, code] = await Promise.all([
+          new Response(build.stdout).text(),
+          new Response(build.stderr).text(),
+          build.exited,
+        ]);
+        if (code !== 0) throw new Error(`worker bundle failed: ${errors}`);
+        return script;
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    })();
+    bundles.set(key, bundle);
+  }
+  return bundle;
+}
+
+export type HarnessBot = {
+  botId: string;
+  wallet: string;
+  // A request to the bot's BotLoop Durable Object; it responds once the
+  // tick it queued (if any) has finished.
+  fetch: (path: string, init?: RequestInit) => Promise<Response>;
+  // POST /tick on the bot's BotLoop and wait for the tick to finish.
+  tick: () => Promise<void>;
+  // Fire the BotLoop alarm and wait for the tick it queues.
+  alarm: () => Promise<void>;
+  // When the BotLoop alarm is set to fire; null when none is set.
+  alarmAt: () => Promise<number | null>;
+};
+
+export type WorkerHarness = {
+  // The worker's bindings, for seeding and inspecting state from the test.
+  env: Env;
+  rpc: FakeSolanaRpc;
+  jupiter: FakeJupiter;
+  createBot: (input: {
+    strategy: StrategyConfig;
+    policy?: LoopPolicy;
+    lamports?: bigint | number;
+    enabled?: boolean;
+  }) => Promise<HarnessBot>;
+  close: () => Promise<void>;
+};
+
+// The worker running in Miniflare, wired to fake RPC and Jupiter servers,
+// with bots that sign through the real local signer. BotLoop ticks run end
+// to end in workerd; see worker_entry.ts for how alarms are fired.
+export async function createWorkerHarness(
+  options: {
+    rpc?: FakeRpcOptions;
+    jupiter?: FakeJupiterOptions;
+    // Modules bundled into the worker alongside it.
+    modules?: string[];
+  } = {},
+): Promise<WorkerHarness> {
+  const rpc = new FakeSolanaRpc(options.rpc);
+  const jupiter = new FakeJupiter(options.jupiter);
+  const servers: FakeServer[] = [serveFake(rpc), serveFake(jupiter)];
+  const vars = {
+    RPC_ENDPOINT: servers[0].url,
+    JUPITER_BASE_URL: servers[1].url,
+    LOCAL_SIGNER_SECRET,
+    LOOP_ENABLED_DEFAULT: "false",
+  };
+  const mf = new Miniflare({
+    modules: true,
+    script: await bundleWorker(options.modules ?? []),
+    compatibilityDate: COMPATIBILITY_DATE,
+    d1Databases: ["WAITLIST_DB"],
+    kvNamespaces: ["CONFIG_KV"],
+    durableObjects: { BOT_LOOP: "BotLoop" },
+    bindings: vars,
+  });
+  const env = {
+    WAITLIST_DB: await mf.getD1Database("WAITLIST_DB"),
+    CONFIG_KV: await mf.getKVNamespace("CONFIG_KV"),
+    BOT_LOOP: await mf.getDurableObjectNamespace("BOT_LOOP"),
+    ...vars,
+  } as unknown as Env;
+  await env.WAITLIST_DB.batch(
+    migrationStatements().map((sql) => env.WAITLIST_DB.prepare(sql)),
+  );
+
+  let bots = 0;
+  const createBot: WorkerHarness["createBot"] = async (input) => {
+    bots += 1;
+    const botId = `bot-${bots}`;
+    const userId = `user-${bots}`;
+    const keypair = await generateLocalKeypair();
+    const wallet = base58Encode(keypair.publicKey);
+    const signerSecret = await encryptLocalKeypair(
+      keypair,
+      LOCAL_SIGNER_SECRET,
+    );
+    await env.WAITLIST_DB.prepare(
+      "INSERT INTO users (id, privy_user_id) VALUES (?1, ?2)",
+    )
+      .bind(userId, `did:privy:${userId}`)
+      .run();
+    await env.WAITLIST_DB.prepare(
+      "INSERT INTO bots (id, user_id, name, enabled, signer_type, privy_wallet_id, wallet_address, signer_secret) VALUES (?1, ?2, ?3, ?4, 'local', '', ?5, ?6)",
+    )
+      .bind(
+        botId,
+        userId,
+        botId,
+        input.enabled === false ? 0 : 1,
+        wallet,
+        signerSecret,
+      )
+      .run();
+    await updateLoopConfig(
+      env,
+      {
+        enabled: input.enabled !== false,
+        policy: input.policy,
+        strategy: input.strategy,
+      },
+      botId,
+    );
+    rpc.balances.set(wallet, BigInt(input.lamports ?? 10_000_000_000n));
+
+    // Addressed the way the worker addresses it; the header names the bot.
+    const stub = env.BOT_LOOP.get(env.BOT_LOOP.idFromName(botId));
+    const fetch = async (path: string, init: RequestInit = {}) => {
+      const headers = new Headers(init.headers);
+      headers.set("x-ralph-bot-id", botId);
+      return await stub.fetch(`https://bot-loop${path}`, {
+        ...init,
+        headers,
+      } as RequestInit);
+    };
+    const post = async (path: string) => {
+      const response = await fetch(path, { method: "POST" });
+      await response.arrayBuffer();
+    };
+    return {
+      botId,
+      wallet,
+      fetch,
+      tick: () => post("/tick"),
+      alarm: () => post("/__harness/alarm"),
+      alarmAt: async () => {
+        const response = await fetch("/__harness/alarm");
+        return ((await response.json()) as { alarmAt: number | null }).alarmAt;
+      },
+    };
+  };
+
+  return {
+    env,
+    rpc,
+    jupiter,
+    createBot,
+    close: async () => {
+      await mf.dispose();
+      for (const server of servers) server.stop();
+    },
+  };
+}
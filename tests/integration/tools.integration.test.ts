@@ -3,6 +3,7 @@ import { Connection, Keypair } from "@solana/web3.js";
 import type { RalphConfig } from "../../src/config/config.js";
 import { SessionJournal, TradeJournal } from "../../src/journal/index.js";
 import { JupiterClient } from "../../src/jupiter/client.js";
+import { parseLocalPolicy } from "../../src/policy/index.js";
 import { createSolanaAdapter } from "../../src/solana/index.js";
 import { loadSecretKey } from "../../src/solana/keys.js";
 import { ToolRegistry } from "../../src/tools/registry.js";
@@ -73,14 +74,14 @@ function buildConfig(): RalphConfig {
     },
     openclaw: {},
     notify: {},
-    policy: {
+    policy: parseLocalPolicy({
       killSwitch: false,
       allowedMints: [],
       maxTradeAmountLamports: "0",
       maxSlippageBps: 50,
       maxPriceImpactPct: 5,
       cooldownSeconds: 0,
-    },
+    }),
   };
 }
 
@@ -0,0 +1,198 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findDirectPool,
+  gatherVenueCandidates,
+  planSliceCount,
+  selectBestRoute,
+  splitAmount,
+  type VenueCandidate,
+} from "../../src/tools/best_execution.js";
+import type { ToolDeps } from "../../src/tools/tool_deps.js";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+function candidate(
+  venue: VenueCandidate["venue"],
+  inAmount: string,
+  outAmount: string,
+  priceImpactPct = 0.1,
+): VenueCandidate {
+  return { venue, ok: true, inAmount, outAmount, priceImpactPct };
+}
+
+const toNumber = (value: string | number | null | undefined) => {
+  const n = Number(value);
+  return value === null || value === undefined || !Number.isFinite(n)
+    ? null
+    : n;
+};
+
+describe("best execution", () => {
+  test("ExactIn picks the largest output and explains why", () => {
+    const selection = selectBestRoute(
+      [
+        candidate("jupiter", "1000", "9900"),
+        candidate("raydium", "1000", "10000"),
+        { venue: "orca", ok: false, error: "Jupiter quote failed: 400" },
+      ],
+      { swapMode: "ExactIn", maxPriceImpactPct: 1 },
+    );
+    expect(selection.candidate.venue).toBe("raydium");
+    expect(selection.withinImpactLimit).toBe(true);
+    expect(selection.reason).toBe(
+      "raydium outAmount 10000 beats jupiter 9900 by 101 bps",
+    );
+  });
+
+  test("ExactOut picks the smallest input", () => {
+    const selection = selectBestRoute(
+      [candidate("jupiter", "1000", "5000"), candidate("orca", "990", "5000")],
+      { swapMode: "ExactOut", maxPriceImpactPct: 1 },
+    );
+    expect(selection.candidate.venue).toBe("orca");
+  });
+
+  test("venues over the price impact limit lose to ones within it", () => {
+    const selection = selectBestRoute(
+      [
+        candidate("jupiter", "1000", "9000", 0.5),
+        candidate("raydium", "1000", "9500", 3),
+      ],
+      { swapMode: "ExactIn", maxPriceImpactPct: 1 },
+    );
+    expect(selection.candidate.venue).toBe("jupiter");
+    expect(selection.reason).toContain("only venue within the price impact");
+
+    const none = selectBestRoute([candidate("raydium", "1000", "9500", 3)], {
+      swapMode: "ExactIn",
+      maxPriceImpactPct: 1,
+    });
+    expect(none.withinImpactLimit).toBe(false);
+    expect(none.reason).toContain("exceeds limit 1");
+  });
+
+  test("ties prefer lower impact, then jupiter", () => {
+    const selection = selectBestRoute(
+      [
+        candidate("orca", "1000", "9000", 0.2),
+        candidate("jupiter", "1000", "9000", 0.2),
+      ],
+      { swapMode: "ExactIn", maxPriceImpactPct: 1 },
+    );
+    expect(selection.candidate.venue).toBe("jupiter");
+  });
+
+  test("no usable quote throws", () => {
+    expect(() =>
+      selectBestRoute([{ venue: "jupiter", ok: false, error: "down" }], {
+        swapMode: "ExactIn",
+        maxPriceImpactPct: 1,
+      }),
+    ).toThrow("no-venue-quote");
+  });
+
+  test("slice count covers price impact and the trade cap", () => {
+    const base = {
+      priceImpactPct: 0.5,
+      maxPriceImpactPct: 1,
+      inAmount: "1000",
+      maxTradeAmountLamports: "0",
+    };
+    expect(planSliceCount(base)).toBe(1);
+    expect(planSliceCount({ ...base, priceImpactPct: 2.5 })).toBe(3);
+    expect(planSliceCount({ ...base, maxTradeAmountLamports: "300" })).toBe(4);
+    expect(planSliceCount({ ...base, priceImpactPct: 50 })).toBe(10);
+  });
+
+  test("split amounts sum to the parent order", () => {
+    expect(splitAmount("10", 3)).toEqual(["4", "3", "3"]);
+    expect(splitAmount("9", 1)).toEqual(["9"]);
+  });
+
+  test("direct pool is the deepest pool for the pair in either order", () => {
+    const pool = findDirectPool(
+      "raydium",
+      {
+        raydium: [
+          { ammId: "small", baseMint: SOL, quoteMint: USDC, liquidity: 10 },
+          {
+            ammId: "deep",
+            baseMint: USDC,
+            quoteMint: SOL,
+            liquidity: "5000",
+            volume24h: 1000,
+            fee24h: 2.5,
+          },
+          { ammId: "other", baseMint: SOL, quoteMint: "X", liquidity: 1e9 },
+        ],
+      },
+      SOL,
+      USDC,
+      toNumber,
+    );
+    expect(pool).toEqual({ poolId: "deep", tvlUsd: 5000, feeTierBps: 25 });
+    expect(findDirectPool("orca", { orca: [] }, SOL, USDC, toNumber)).toBe(
+      null,
+    );
+  });
+
+  test("pool venues are quoted through Jupiter on direct routes only", async () => {
+    const requests: Array<Record<string, unknown>> = [];
+    const deps = {
+      jupiter: {
+        quote: async (request: Record<string, unknown>) => {
+          requests.push(request);
+          if (request.dexes && (request.dexes as string[])[0] === "Orca") {
+            throw new Error("Jupiter quote failed: 400");
+          }
+          return {
+            quoteResponse: { inAmount: "1000", outAmount: "10" },
+            summary: {
+              inAmount: "1000",
+              outAmount: "10",
+              priceImpactPct: 0.1,
+              routeLabels: ["Raydium CLMM"],
+            },
+          };
+        },
+      },
+      resolveVenueDexes: async (venue?: string) =>
+        venue === "raydium"
+          ? { venueUsed: "raydium", dexes: ["Raydium", "Raydium CLMM"] }
+          : venue === "orca"
+            ? { venueUsed: "orca", dexes: ["Orca"] }
+            : { venueUsed: "jupiter" },
+      fetchRaydiumPairs: async () => [
+        { ammId: "pool", baseMint: SOL, quoteMint: USDC, liquidity: 1 },
+      ],
+      fetchOrcaWhirlpools: async () => {
+        throw new Error("orca down");
+      },
+      toNumber,
+    } as unknown as ToolDeps;
+
+    const candidates = await gatherVenueCandidates(
+      deps,
+      ["jupiter", "raydium", "orca"],
+      {
+        inputMint: SOL,
+        outputMint: USDC,
+        amount: "1000",
+        slippageBps: 50,
+        swapMode: "ExactIn",
+      },
+    );
+    expect(requests[0].onlyDirectRoutes).toBeUndefined();
+    expect(requests[1]).toMatchObject({
+      dexes: ["Raydium", "Raydium CLMM"],
+      onlyDirectRoutes: true,
+    });
+    expect(candidates.map((c) => c.ok)).toEqual([true, true, false]);
+    expect(candidates[1].pool?.poolId).toBe("pool");
+    expect(candidates[2]).toMatchObject({
+      error: "Jupiter quote failed: 400",
+      pool: null,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import {
+  atr,
+  bollingerBands,
+  computeIndicators,
+  ema,
+  macd,
+  type NumericCandle,
+  realizedVolatility,
+  rsi,
+  sma,
+  summarizeIndicators,
+  vwap,
+} from "../../src/market/index.js";
+
+// Wilder's RSI worksheet closes; TA-Lib gives RSI(14) 70.46, 66.25, 66.48,
+// 69.35, 66.29, 57.92 from the 15th close on.
+const WILDER_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89,
+  46.03, 45.61, 46.28, 46.28, 46.0, 46.03, 46.41, 46.22, 45.64,
+];
+
+const candles: NumericCandle[] = [
+  { t: 0, o: 9, h: 10, l: 8, c: 9, v: 1 },
+  { t: 60, o: 9, h: 11, l: 9, c: 10, v: 3 },
+  { t: 120, o: 10, h: 13, l: 10, c: 12, v: 0 },
+  { t: 180, o: 12, h: 12, l: 9, c: 9, v: 0 },
+];
+
+function rounded(series: Array<number | null>, digits = 2) {
+  return series.map((v) => (v === null ? null : Number(v.toFixed(digits))));
+}
+
+describe("indicators", () => {
+  test("SMA and EMA", () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    // Seeded with the SMA of the first 3, then alpha = 0.5.
+    expect(ema([2, 4, 6, 8, 12], 3)).toEqual([null, null, 4, 6, 9]);
+    expect(ema([null, 2, 4, 6, 8], 3)).toEqual([null, null, null, 4, 6]);
+    expect(() => sma([1], 0)).toThrow("invalid-indicator-period");
+  });
+
+  test("RSI matches Wilder's reference values", () => {
+    const series = rsi(WILDER_CLOSES);
+    expect(series.slice(0, 14).every((v) => v === null)).toBe(true);
+    expect(rounded(series.slice(14))).toEqual([
+      70.46, 66.25, 66.48, 69.35, 66.29, 57.92,
+    ]);
+    expect(rsi([1, 2, 3, 4], 3)[3]).toBe(100);
+  });
+
+  test("MACD of a linear series settles at the EMA lag difference", () => {
+    // An SMA-seeded EMA of a line lags it by (period - 1) / 2 exactly.
+    const closes = Array.from({ length: 40 }, (_, i) => i);
+    const series = macd(closes);
+    expect(series.macd[24]).toBeNull();
+    expect(series.macd[25]).toBeCloseTo(7, 10);
+    expect(series.signal[32]).toBeNull();
+    expect(series.signal[33]).toBeCloseTo(7, 10);
+    expect(series.histogram[39]).toBeCloseTo(0, 10);
+  });
+
+  test("Bollinger bands use the population standard deviation", () => {
+    const bands = bollingerBands([1, 2, 3, 4, 5], 5, 2);
+    expect(bands.middle[4]).toBe(3);
+    expect(bands.upper[4]).toBeCloseTo(3 + 2 * Math.SQRT2, 10);
+    expect(bands.lower[4]).toBeCloseTo(3 - 2 * Math.SQRT2, 10);
+    expect(bands.upper[3]).toBeNull();
+  });
+
+  test("ATR uses true range and Wilder smoothing", () => {
+    // True ranges 2, 2, 3, 3.
+    expect(atr(candles, 2)).toEqual([null, 2, 2.5, 2.75]);
+  });
+
+  test("realized volatility and VWAP", () => {
+    const vol = realizedVolatility([100, 110, 100, 110], 2);
+    const r = Math.log(1.1);
+    expect(vol[1]).toBeNull();
+    expect(vol[2]).toBeCloseTo(Math.sqrt(2 * r * r), 12);
+    // Typical prices 9 and 10 weighted by volume 1 and 3.
+    expect(vwap(candles)).toEqual([9, 9.75, 9.75, 9.75]);
+    expect(vwap([{ ...candles[0], v: 0 }])).toEqual([null]);
+  });
+
+  test("snapshot and summary of the latest values", () => {
+    const series = Array.from({ length: 40 }, (_, i) => ({
+      t: i * 3600,
+      o: String(100 + i),
+      h: String(101 + i),
+      l: String(99 + i),
+      c: String(100 + i),
+      v: "1",
+    }));
+    const snapshot = computeIndicators(series, { intervalSeconds: 3600 });
+    expect(snapshot).toMatchObject({
+      candles: 40,
+      t: 39 * 3600,
+      close: 139,
+      sma20: 129.5,
+      rsi14: 100,
+      atr14: 2,
+    });
+    expect(snapshot.macd.macd).toBeCloseTo(7, 10);
+    // 129.5 ± 2 * sqrt((20^2 - 1) / 12) for 20 evenly spaced closes.
+    expect(snapshot.bollinger.percentB).toBeCloseTo(
+      (139 - (129.5 - 2 * Math.sqrt(399 / 12))) / (4 * Math.sqrt(399 / 12)),
+      10,
+    );
+    expect(snapshot.realizedVolatility.annualized).toBeCloseTo(
+      (snapshot.realizedVolatility.perBar ?? 0) * Math.sqrt(8760),
+      10,
+    );
+    const summary = summarizeIndicators(snapshot);
+    expect(summary).toContain("RSI14 100");
+    expect(summary).toContain("EMA12 above EMA26");
+
+    const empty = computeIndicators([]);
+    expect(empty.close).toBeNull();
+    expect(summarizeIndicators(empty)).toBe("no candles recorded");
+  });
+});
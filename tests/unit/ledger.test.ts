@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import {
+  bucketRealizedPnl,
+  buildLedger,
+  type LedgerSwap,
+  markToMarket,
+  pnlBucketStart,
+} from "../../src/ledger/index.js";
+
+const Q = "quote-mint";
+const T = "token-mint";
+const U = "other-mint";
+
+const swaps: LedgerSwap[] = [
+  {
+    ts: "2026-03-02T10:00:00.000Z",
+    inputMint: Q,
+    outputMint: T,
+    inAmount: "1000",
+    outAmount: "100",
+    feeValueQuote: "10",
+  },
+  {
+    ts: "2026-03-03T10:00:00.000Z",
+    inputMint: Q,
+    outputMint: T,
+    inAmount: "2000",
+    outAmount: "100",
+  },
+  {
+    ts: "2026-03-09T10:00:00.000Z",
+    inputMint: T,
+    outputMint: Q,
+    inAmount: "150",
+    outAmount: "3000",
+  },
+];
+
+describe("ledger", () => {
+  test("fifo consumes the oldest lots first and folds buy fees into cost", () => {
+    const ledger = buildLedger(swaps, { quoteMint: Q, method: "fifo" });
+    expect(ledger.realizedPnl).toBe("990");
+    expect(ledger.fees).toBe("10");
+    expect(ledger.positions).toEqual([
+      { mint: T, amount: "50", costBasis: "1000" },
+    ]);
+    expect(ledger.trades[2]?.costBasis).toBe("2010");
+  });
+
+  test("average cost pools lots", () => {
+    const ledger = buildLedger(swaps, { quoteMint: Q, method: "average" });
+    expect(ledger.realizedPnl).toBe("743");
+    expect(ledger.positions).toEqual([
+      { mint: T, amount: "50", costBasis: "753" },
+    ]);
+  });
+
+  test("untracked inputs realize nothing and unpriced swaps carry basis", () => {
+    const ledger = buildLedger(
+      [
+        ...swaps.slice(0, 1),
+        {
+          ts: "2026-03-04T00:00:00.000Z",
+          inputMint: T,
+          outputMint: U,
+          inAmount: "100",
+          outAmount: "7",
+        },
+        {
+          ts: "2026-03-05T00:00:00.000Z",
+          inputMint: T,
+          outputMint: Q,
+          inAmount: "20",
+          outAmount: "400",
+        },
+      ],
+      { quoteMint: Q },
+    );
+    expect(ledger.positions).toEqual([
+      { mint: U, amount: "7", costBasis: "1010" },
+    ]);
+    expect(ledger.trades[2]?.untrackedAmount).toBe("20");
+    expect(ledger.realizedPnl).toBe("0");
+  });
+
+  test("marks positions and leaves unpriced ones null", () => {
+    const ledger = buildLedger(swaps, { quoteMint: Q });
+    const marked = markToMarket(
+      [...ledger.positions, { mint: U, amount: "1", costBasis: "5" }],
+      new Map([[T, 1200n]]),
+    );
+    expect(marked.unrealizedPnl).toBe("200");
+    expect(marked.positions[1]?.unrealizedPnl).toBeNull();
+  });
+
+  test("buckets realized pnl by UTC day and Monday-start week", () => {
+    expect(pnlBucketStart("2026-03-04T23:00:00.000Z", "week")).toBe(
+      "2026-03-02",
+    );
+    const ledger = buildLedger(swaps, { quoteMint: Q });
+    expect(bucketRealizedPnl(ledger.trades, "week")).toEqual([
+      {
+        period: "week",
+        start: "2026-03-02",
+        trades: 2,
+        realizedPnl: "0",
+        fees: "10",
+      },
+      {
+        period: "week",
+        start: "2026-03-09",
+        trades: 1,
+        realizedPnl: "990",
+        fees: "0",
+      },
+    ]);
+    expect(bucketRealizedPnl(ledger.trades, "day")).toHaveLength(3);
+  });
+});
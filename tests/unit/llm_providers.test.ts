@@ -0,0 +1,489 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { AnthropicMessagesClient } from "../../src/llm/anthropic_messages.js";
+import {
+  addUsage,
+  createLlmClient,
+  emptyUsage,
+  ScriptedLlmClient,
+} from "../../src/llm/index.js";
+import { OpenAiResponsesClient } from "../../src/llm/openai_responses.js";
+import type {
+  LlmMessage,
+  LlmProviderConfig,
+  ToolSchema,
+} from "../../src/llm/types.js";
+
+type Captured = { body: Record<string, unknown>; headers: Headers };
+
+let server: ReturnType<typeof Bun.serve> | null = null;
+
+afterEach(() => {
+  server?.stop(true);
+  server = null;
+});
+
+function mockServer(
+  handler: (body: Record<string, unknown>, call: number) => Response,
+): { baseUrl: string; calls: Captured[] } {
+  const calls: Captured[] = [];
+  server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const body = (await req.json()) as Record<string, unknown>;
+      calls.push({ body, headers: req.headers });
+      return handler(body, calls.length);
+    },
+  });
+  return { baseUrl: `http://127.0.0.1:${server.port}/v1`, calls };
+}
+
+function sse(events: Array<Record<string, unknown>>): Response {
+  const text = events
+    .map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join("");
+  return new Response(text, {
+    headers: { "content-type": "text/event-stream" },
+  });
+}
+
+function llmConfig(
+  provider: LlmProviderConfig["provider"],
+  baseUrl: string,
+  overrides: Partial<LlmProviderConfig> = {},
+): LlmProviderConfig {
+  return {
+    provider,
+    baseUrl,
+    apiKey: "test-key",
+    model: "test-model",
+    toolMode: "tools",
+    stream: false,
+    ...overrides,
+  };
+}
+
+const tools: ToolSchema[] = [
+  {
+    name: "wallet.get_balance",
+    description: "Get balance",
+    parameters: { type: "object", properties: {} },
+  },
+];
+
+const history: LlmMessage[] = [
+  { role: "system", content: "be careful" },
+  { role: "user", content: "balance?" },
+  {
+    role: "assistant",
+    content: null,
+    tool_calls: [
+      {
+        id: "call_1",
+        type: "function",
+        function: { name: "wallet_get_balance", arguments: '{"a":1}' },
+      },
+      {
+        id: "call_2",
+        type: "function",
+        function: { name: "wallet_get_balance", arguments: "{}" },
+      },
+    ],
+  },
+  { role: "tool", tool_call_id: "call_1", content: "1 SOL" },
+  { role: "tool", tool_call_id: "call_2", content: "2 SOL" },
+];
+
+describe("AnthropicMessagesClient", () => {
+  test("translates messages and tool calls", async () => {
+    const { baseUrl, calls } = mockServer(() =>
+      Response.json({
+        role: "assistant",
+        content: [
+          { type: "text", text: "checking" },
+          {
+            type: "tool_use",
+            id: "toolu_1",
+            name: "wallet_get_balance",
+            input: { mint: "SOL" },
+          },
+        ],
+        stop_reason: "tool_use",
+        usage: { input_tokens: 12, output_tokens: 5 },
+      }),
+    );
+    const client = new AnthropicMessagesClient(
+      llmConfig("anthropic_messages", baseUrl, { maxTokens: 512 }),
+    );
+    const result = await client.generate(history, tools);
+
+    expect(calls[0]?.headers.get("x-api-key")).toBe("test-key");
+    expect(calls[0]?.headers.get("anthropic-version")).toBe("2023-06-01");
+    const body = calls[0]?.body ?? {};
+    expect(body.system).toBe("be careful");
+    expect(body.max_tokens).toBe(512);
+    expect(body.tools).toEqual([
+      {
+        name: "wallet_get_balance",
+        description: "Get balance",
+        input_schema: { type: "object", properties: {} },
+      },
+    ]);
+    expect(body.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "balance?" }] },
+      {
+        role: "assistant",
+        content: [
+          {
+            type: "tool_use",
+            id: "call_1",
+            name: "wallet_get_balance",
+            input: { a: 1 },
+          },
+          {
+            type: "tool_use",
+            id: "call_2",
+            name: "wallet_get_balance",
+            input: {},
+          },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_1", content: "1 SOL" },
+          { type: "tool_result", tool_use_id: "call_2", content: "2 SOL" },
+        ],
+      },
+    ]);
+
+    expect(result.text).toBe("checking");
+    expect(result.toolCalls).toEqual([
+      {
+        id: "toolu_1",
+        name: "wallet.get_balance",
+        arguments: '{"mint":"SOL"}',
+      },
+    ]);
+    expect(result.message.tool_calls?.[0]?.function.name).toBe(
+      "wallet_get_balance",
+    );
+    expect(result.usage).toEqual({
+      inputTokens: 12,
+      outputTokens: 5,
+      totalTokens: 17,
+    });
+    expect(result.finishReason).toBe("tool_use");
+  });
+
+  test("streams text and tool input deltas", async () => {
+    const { baseUrl, calls } = mockServer(() =>
+      sse([
+        {
+          type: "message_start",
+          message: {
+            role: "assistant",
+            content: [],
+            usage: { input_tokens: 20, output_tokens: 1 },
+          },
+        },
+        {
+          type: "content_block_start",
+          index: 0,
+          content_block: { type: "text", text: "" },
+        },
+        {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "text_delta", text: "hel" },
+        },
+        {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "text_delta", text: "lo" },
+        },
+        { type: "content_block_stop", index: 0 },
+        {
+          type: "content_block_start",
+          index: 1,
+          content_block: {
+            type: "tool_use",
+            id: "toolu_2",
+            name: "wallet_get_balance",
+            input: {},
+          },
+        },
+        {
+          type: "content_block_delta",
+          index: 1,
+          delta: { type: "input_json_delta", partial_json: '{"mint":' },
+        },
+        {
+          type: "content_block_delta",
+          index: 1,
+          delta: { type: "input_json_delta", partial_json: '"SOL"}' },
+        },
+        { type: "content_block_stop", index: 1 },
+        {
+          type: "message_delta",
+          delta: { stop_reason: "tool_use" },
+          usage: { output_tokens: 9 },
+        },
+        { type: "message_stop" },
+      ]),
+    );
+    const client = new AnthropicMessagesClient(
+      llmConfig("anthropic_messages", baseUrl, { stream: true }),
+    );
+    const deltas: string[] = [];
+    const result = await client.generate(
+      [{ role: "user", content: "hi" }],
+      tools,
+      { onTextDelta: (delta) => deltas.push(delta) },
+    );
+
+    expect(calls[0]?.body.stream).toBe(true);
+    expect(deltas).toEqual(["hel", "lo"]);
+    expect(result.text).toBe("hello");
+    expect(result.usage).toEqual({
+      inputTokens: 20,
+      outputTokens: 9,
+      totalTokens: 29,
+    });
+    expect(result.toolCalls).toEqual([
+      {
+        id: "toolu_2",
+        name: "wallet.get_balance",
+        arguments: '{"mint":"SOL"}',
+      },
+    ]);
+  });
+
+  test("auto mode falls back to no tools and remembers it", async () => {
+    const { baseUrl, calls } = mockServer((body) =>
+      body.tools
+        ? Response.json(
+            { error: { message: "model does not support tools" } },
+            { status: 400 },
+          )
+        : Response.json({ content: [{ type: "text", text: "ok" }] }),
+    );
+    const client = new AnthropicMessagesClient(
+      llmConfig("anthropic_messages", baseUrl, { toolMode: "auto" }),
+    );
+    const first = await client.generate(history, tools);
+    expect(first.text).toBe("ok");
+    expect(first.toolCalls).toBeUndefined();
+    expect(calls).toHaveLength(2);
+    // Tool history is replayed as text so the request stays valid.
+    const messages = calls[1]?.body.messages as Array<{
+      content: Array<{ type: string }>;
+    }>;
+    expect(
+      messages.flatMap((m) => m.content).every((b) => b.type === "text"),
+    ).toBe(true);
+
+    await client.generate(history, tools);
+    expect(calls).toHaveLength(3);
+    expect(calls[2]?.body.tools).toBeUndefined();
+  });
+});
+
+describe("OpenAiResponsesClient", () => {
+  test("translates messages and function calls", async () => {
+    const { baseUrl, calls } = mockServer(() =>
+      Response.json({
+        output: [
+          { type: "reasoning", summary: [] },
+          {
+            type: "message",
+            role: "assistant",
+            content: [{ type: "output_text", text: "checking" }],
+          },
+          {
+            type: "function_call",
+            id: "fc_1",
+            call_id: "call_9",
+            name: "wallet_get_balance",
+            arguments: '{"mint":"SOL"}',
+          },
+        ],
+        usage: { input_tokens: 30, output_tokens: 4, total_tokens: 34 },
+      }),
+    );
+    const client = new OpenAiResponsesClient(
+      llmConfig("openai_responses", baseUrl, { toolMode: "functions" }),
+    );
+    const result = await client.generate(history, tools);
+
+    expect(calls[0]?.headers.get("authorization")).toBe("Bearer test-key");
+    const body = calls[0]?.body ?? {};
+    expect(body.instructions).toBe("be careful");
+    expect(body.tools).toEqual([
+      {
+        type: "function",
+        name: "wallet_get_balance",
+        description: "Get balance",
+        parameters: { type: "object", properties: {} },
+      },
+    ]);
+    expect(body.input).toEqual([
+      { role: "user", content: "balance?" },
+      {
+        type: "function_call",
+        call_id: "call_1",
+        name: "wallet_get_balance",
+        arguments: '{"a":1}',
+      },
+      {
+        type: "function_call",
+        call_id: "call_2",
+        name: "wallet_get_balance",
+        arguments: "{}",
+      },
+      { type: "function_call_output", call_id: "call_1", output: "1 SOL" },
+      { type: "function_call_output", call_id: "call_2", output: "2 SOL" },
+    ]);
+
+    expect(result.text).toBe("checking");
+    expect(result.usage?.totalTokens).toBe(34);
+    expect(result.toolCalls).toEqual([
+      {
+        id: "call_9",
+        name: "wallet.get_balance",
+        arguments: '{"mint":"SOL"}',
+      },
+    ]);
+  });
+
+  test("streams text deltas and uses the completed response", async () => {
+    const { baseUrl } = mockServer(() =>
+      sse([
+        { type: "response.created", response: { output: [] } },
+        { type: "response.output_text.delta", delta: "hel" },
+        { type: "response.output_text.delta", delta: "lo" },
+        {
+          type: "response.completed",
+          response: {
+            output: [
+              {
+                type: "message",
+                role: "assistant",
+                content: [{ type: "output_text", text: "hello" }],
+              },
+            ],
+          },
+        },
+      ]),
+    );
+    const client = new OpenAiResponsesClient(
+      llmConfig("openai_responses", baseUrl, { stream: true }),
+    );
+    const deltas: string[] = [];
+    const result = await client.generate(
+      [{ role: "user", content: "hi" }],
+      [],
+      { onTextDelta: (delta) => deltas.push(delta) },
+    );
+    expect(deltas).toEqual(["hel", "lo"]);
+    expect(result.text).toBe("hello");
+    expect(result.toolCalls).toBeUndefined();
+  });
+
+  test("auto mode falls back to no tools", async () => {
+    const { baseUrl, calls } = mockServer((body) =>
+      body.tools
+        ? Response.json(
+            { error: { message: "Unknown parameter: 'tools'." } },
+            { status: 400 },
+          )
+        : Response.json({
+            output: [
+              {
+                type: "message",
+                content: [{ type: "output_text", text: "ok" }],
+              },
+            ],
+          }),
+    );
+    const client = createLlmClient(
+      llmConfig("openai_responses", baseUrl, { toolMode: "auto" }),
+    );
+    const result = await client.generate(history, tools);
+    expect(result.text).toBe("ok");
+    expect(calls).toHaveLength(2);
+    const input = calls[1]?.body.input as Array<Record<string, unknown>>;
+    expect(input.some((item) => item.type !== undefined)).toBe(false);
+  });
+});
+
+test("createLlmClient picks the client for each provider", () => {
+  expect(
+    createLlmClient(llmConfig("anthropic_messages", "http://x")),
+  ).toBeInstanceOf(AnthropicMessagesClient);
+  expect(
+    createLlmClient(llmConfig("openai_responses", "http://x")),
+  ).toBeInstanceOf(OpenAiResponsesClient);
+});
+
+test("retries 429 responses before succeeding", async () => {
+  const { baseUrl, calls } = mockServer((_body, call) =>
+    call === 1
+      ? new Response("slow down", { status: 429 })
+      : Response.json({
+          choices: [{ message: { role: "assistant", content: "ok" } }],
+          usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+        }),
+  );
+  const client = createLlmClient(
+    llmConfig("openai_chat", baseUrl, { maxRetries: 1, retryBaseMs: 0 }),
+  );
+  const result = await client.generate([{ role: "user", content: "hi" }], []);
+  expect(calls).toHaveLength(2);
+  expect(result.text).toBe("ok");
+  expect(result.usage).toEqual({
+    inputTokens: 3,
+    outputTokens: 2,
+    totalTokens: 5,
+  });
+});
+
+describe("ScriptedLlmClient", () => {
+  test("replays canned steps and records requests", async () => {
+    const client = new ScriptedLlmClient([
+      {
+        toolCalls: [{ name: "wallet.get_balance", arguments: { mint: "SOL" } }],
+        usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+      },
+      { text: "done" },
+    ]);
+
+    const first = await client.generate(history, tools);
+    expect(first.toolCalls).toEqual([
+      {
+        id: "call_1_1",
+        name: "wallet.get_balance",
+        arguments: '{"mint":"SOL"}',
+      },
+    ]);
+    expect(first.message.tool_calls?.[0]?.id).toBe("call_1_1");
+    expect(first.finishReason).toBe("tool_calls");
+
+    const second = await client.generate([], tools);
+    expect(second.text).toBe("done");
+    expect(second.toolCalls).toBeUndefined();
+
+    expect(client.requests).toHaveLength(2);
+    expect(client.requests[0]?.messages).toEqual(history);
+    expect(client.remaining).toBe(0);
+    await expect(client.generate([], tools)).rejects.toThrow(
+      "scripted-llm-exhausted",
+    );
+
+    const total = addUsage(addUsage(emptyUsage(), first.usage), second.usage);
+    expect(total).toEqual({
+      inputTokens: 10,
+      outputTokens: 2,
+      totalTokens: 12,
+    });
+  });
+});
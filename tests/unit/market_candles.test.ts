@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  aggregateCandles,
+  formatSampleLine,
+  parseMarketPair,
+  parseSampleLines,
+  sampleDays,
+} from "../../src/market/index.js";
+import { MarketDataStore } from "../../src/market/store.js";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const T0 = Date.parse("2026-03-02T10:00:00.000Z") / 1000;
+
+describe("candle aggregation", () => {
+  test("buckets samples into OHLCV per interval", () => {
+    const samples = [
+      { t: T0 + 70, price: 151, volume: 2 },
+      { t: T0, price: 150, volume: 1 },
+      { t: T0 + 30, price: 149 },
+      { t: T0 + 50, price: 153 },
+      { t: T0 + 400, price: 155 },
+    ];
+    expect(aggregateCandles(samples, "1m")).toEqual([
+      { t: T0, o: "150", h: "153", l: "149", c: "153", v: "1" },
+      { t: T0 + 60, o: "151", h: "151", l: "151", c: "151", v: "2" },
+      { t: T0 + 360, o: "155", h: "155", l: "155", c: "155", v: "0" },
+    ]);
+    expect(aggregateCandles(samples, "5m")).toEqual([
+      { t: T0, o: "150", h: "153", l: "149", c: "151", v: "3" },
+      { t: T0 + 300, o: "155", h: "155", l: "155", c: "155", v: "0" },
+    ]);
+    expect(aggregateCandles(samples, "1m", 1)).toHaveLength(1);
+  });
+
+  test("sample lines round-trip and skip malformed entries", () => {
+    const text = [
+      formatSampleLine({ t: T0, price: 150.5 }),
+      "not json",
+      JSON.stringify({ t: T0 + 1, price: 0 }),
+      formatSampleLine({ t: T0 + 2, price: 151, volume: 3 }),
+    ].join("\n");
+    expect(parseSampleLines(text)).toEqual([
+      { t: T0, price: 150.5, volume: 0 },
+      { t: T0 + 2, price: 151, volume: 3 },
+    ]);
+  });
+
+  test("pairs accept aliases and mints", () => {
+    expect(parseMarketPair("sol-usdc")).toEqual({
+      baseMint: SOL,
+      quoteMint: USDC,
+    });
+    expect(parseMarketPair(`${SOL}-${USDC}`)).toEqual({
+      baseMint: SOL,
+      quoteMint: USDC,
+    });
+    expect(() => parseMarketPair("SOL")).toThrow("invalid-market-pair");
+    expect(() => parseMarketPair("SOL-SOL")).toThrow("invalid-market-pair");
+    expect(() => parseMarketPair("SOL-nope")).toThrow("invalid-market-pair");
+  });
+
+  test("sample days cover the requested candle span", () => {
+    expect(sampleDays("1h", 30, T0)).toEqual(["2026-03-01", "2026-03-02"]);
+    expect(sampleDays("1m", 10, T0)).toEqual(["2026-03-02"]);
+  });
+});
+
+describe("MarketDataStore", () => {
+  test("reads back candles from daily sample files", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "ralph-market-data-"));
+    const store = new MarketDataStore(dir);
+    const pair = parseMarketPair("SOL-USDC");
+    await store.append(pair, { t: T0 - 3600, price: 140 });
+    await store.append(pair, { t: T0, price: 150 });
+    await store.append(pair, { t: T0 + 60, price: 152 });
+
+    const files = await fs.readdir(path.join(dir, `${SOL}-${USDC}`));
+    expect(files).toEqual(["2026-03-02.jsonl"]);
+    expect(await store.candles(pair, "1h", 10, T0 + 120)).toEqual([
+      { t: T0 - 3600, o: "140", h: "140", l: "140", c: "140", v: "0" },
+      { t: T0, o: "150", h: "152", l: "150", c: "152", v: "0" },
+    ]);
+    // Samples after `to` are excluded; missing days read as empty.
+    expect(
+      (await store.candles(pair, "1m", 5, T0)).map((candle) => candle.t),
+    ).toEqual([T0 - 3600, T0]);
+    expect(
+      await store.candles(parseMarketPair(`${USDC}-${SOL}`), "1m", 5, T0),
+    ).toEqual([]);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import {
+  dispatchNotification,
+  type NotificationEvent,
+  sendNotification,
+  signWebhookPayload,
+} from "../../src/notify/index.js";
+
+type Captured = { url: string; headers: Headers; body: string };
+
+function captureFetch(status = 200): {
+  fetch: typeof fetch;
+  calls: Captured[];
+} {
+  const calls: Captured[] = [];
+  const fetchFn = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    calls.push({
+      url: String(input),
+      headers: new Headers(init?.headers),
+      body: String(init?.body ?? ""),
+    });
+    return new Response(status === 200 ? "ok" : "nope", { status });
+  }) as typeof fetch;
+  return { fetch: fetchFn, calls };
+}
+
+const event: NotificationEvent = {
+  type: "trade.failed",
+  level: "error",
+  title: "Trade failed",
+  message: "SOL -> USDC: 100 in",
+  ts: "2026-03-01T00:00:00.000Z",
+  botId: "bot-1",
+};
+
+describe("notification sinks", () => {
+  test("webhook posts the event and signs it when a secret is set", async () => {
+    const { fetch, calls } = captureFetch();
+    await sendNotification(
+      { type: "webhook", url: "https://hooks.test/a", secret: "s3cret" },
+      event,
+      { fetch },
+    );
+    const call = calls[0] as Captured;
+    expect(call.url).toBe("https://hooks.test/a");
+    expect(JSON.parse(call.body)).toEqual(event);
+    expect(call.headers.get("x-ralph-event")).toBe("trade.failed");
+    const timestamp = call.headers.get("x-ralph-timestamp") ?? "";
+    expect(timestamp).toBe("1772323200");
+    expect(call.headers.get("x-ralph-signature")).toBe(
+      await signWebhookPayload("s3cret", timestamp, call.body),
+    );
+  });
+
+  test("telegram, discord and email format a text message", async () => {
+    const { fetch, calls } = captureFetch();
+    await sendNotification(
+      { type: "telegram", botToken: "123:abc", chatId: "42" },
+      event,
+      { fetch },
+    );
+    await sendNotification(
+      { type: "discord", webhookUrl: "https://discord.test/hook" },
+      event,
+      { fetch },
+    );
+    await sendNotification(
+      {
+        type: "email",
+        relayUrl: "https://relay.test/send",
+        to: "ops@example.com",
+        token: "relay-token",
+      },
+      event,
+      { fetch },
+    );
+    const text = "[ERROR] Trade failed (bot bot-1)\nSOL -> USDC: 100 in";
+    expect(calls[0]?.url).toBe(
+      "https://api.telegram.org/bot123:abc/sendMessage",
+    );
+    expect(JSON.parse(calls[0]?.body ?? "{}")).toMatchObject({
+      chat_id: "42",
+      text,
+    });
+    expect(JSON.parse(calls[1]?.body ?? "{}")).toEqual({ content: text });
+    expect(calls[2]?.headers.get("authorization")).toBe("Bearer relay-token");
+    expect(JSON.parse(calls[2]?.body ?? "{}")).toMatchObject({
+      to: "ops@example.com",
+      subject: "Trade failed",
+      text,
+    });
+  });
+
+  test("a failing sink does not block the others", async () => {
+    const failing = captureFetch(500);
+    const deliveries = await dispatchNotification(
+      [
+        { type: "discord", webhookUrl: "https://discord.test/hook" },
+        { type: "webhook", url: "https://hooks.test/b" },
+      ],
+      event,
+      { fetch: failing.fetch },
+    );
+    expect(failing.calls).toHaveLength(2);
+    expect(deliveries).toEqual([
+      { sink: "discord", ok: false, error: "notify-http-error: 500 nope" },
+      { sink: "webhook", ok: false, error: "notify-http-error: 500 nope" },
+    ]);
+  });
+});
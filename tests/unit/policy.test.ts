@@ -1,5 +1,20 @@
 import { expect, test } from "bun:test";
-import { evaluateTrade } from "../../src/policy/index.js";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { validatePolicy } from "../../apps/worker/src/validation";
+import {
+  evaluateSwap,
+  evaluateTrade,
+  POLICY_DEFAULTS,
+  parseLocalPolicy,
+  parsePolicy,
+  recordPolicyTrade,
+} from "../../src/policy/index.js";
+import { PolicyCounterStore } from "../../src/runtime/policy_counter_store.js";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
 
 const basePolicy = {
   killSwitch: false,
@@ -55,3 +70,154 @@ test("mint allowlist enforced", () => {
   expect(result.allow).toBe(false);
   expect(result.reasons).toContain("mint-not-allowed");
 });
+
+test("trade amount cap enforced with a rule report", () => {
+  const result = evaluateTrade(
+    { ...basePolicy, maxTradeAmountLamports: "50" },
+    baseQuote,
+    baseBalances,
+  );
+  expect(result.allow).toBe(false);
+  expect(result.reasons).toEqual(["trade-amount-exceeds-cap"]);
+  expect(result.rules.find((rule) => rule.rule === "max-trade-amount")).toEqual(
+    {
+      rule: "max-trade-amount",
+      pass: false,
+      observed: "100",
+      threshold: "50",
+      reason: "trade-amount-exceeds-cap",
+    },
+  );
+});
+
+test("legacy local and worker policies parse into the same document", () => {
+  const local = parsePolicy({
+    killSwitch: false,
+    allowedMints: [SOL, USDC],
+    maxTradeAmountLamports: "500",
+    maxSlippageBps: 30,
+    maxPriceImpactPct: 0.05,
+    cooldownSeconds: 60,
+    dailySpendCapLamports: null,
+  });
+  const worker = parsePolicy({
+    allowedMints: [SOL, USDC],
+    maxTradeAmountAtomic: "500",
+    slippageBps: 30,
+    maxPriceImpactPct: 0.05,
+    cooldownSeconds: 60,
+    commitment: "confirmed",
+  });
+  expect(local).toEqual(worker);
+  expect(local).toEqual({
+    ...POLICY_DEFAULTS,
+    allowedMints: [SOL, USDC],
+    maxTradeAmountAtomic: "500",
+    slippageBps: 30,
+    maxPriceImpactPct: 0.05,
+    cooldownSeconds: 60,
+  });
+  expect(() => parsePolicy({ version: 2 })).toThrow("invalid-policy-version");
+  expect(() => parsePolicy({ maxSlippageBps: -1 })).toThrow(
+    "invalid-policy-slippageBps",
+  );
+  // Legacy local configs used price impact caps above 1; only the local
+  // loader accepts them, as no cap. Worker config writes reject them.
+  expect(() => parsePolicy({ maxPriceImpactPct: 5 })).toThrow(
+    "invalid-policy-maxPriceImpactPct",
+  );
+  expect(parseLocalPolicy({ maxPriceImpactPct: 5 }).maxPriceImpactPct).toBe(1);
+  expect(() => parseLocalPolicy({ maxPriceImpactPct: -0.1 })).toThrow(
+    "invalid-policy-maxPriceImpactPct",
+  );
+  expect(() => validatePolicy({ maxPriceImpactPct: 5 })).toThrow(
+    "invalid-policy-maxPriceImpactPct",
+  );
+});
+
+test("cooldown and daily spend are enforced from the counters", () => {
+  const policy = parsePolicy({
+    cooldownSeconds: 60,
+    dailySpendCapLamports: "1500",
+  });
+  const quote = {
+    inputMint: SOL,
+    outputMint: USDC,
+    inAmount: "1000",
+    outAmount: "150",
+  };
+  const t0 = new Date("2026-03-02T23:59:30.000Z");
+  const counters = recordPolicyTrade(null, quote, t0);
+  const wallet = { counters, solLamports: null };
+
+  const early = evaluateSwap(
+    policy,
+    quote,
+    wallet,
+    new Date(t0.getTime() + 10_000),
+  );
+  expect(early.reasons).toEqual([
+    "daily-spend-cap-exceeded",
+    "cooldown-active",
+  ]);
+  expect(early.rules.find((rule) => rule.rule === "daily-spend")).toMatchObject(
+    {
+      observed: "2000",
+      threshold: "1500",
+    },
+  );
+
+  // The spend resets at UTC midnight; the cooldown runs across it.
+  const nextDay = evaluateSwap(
+    policy,
+    quote,
+    wallet,
+    new Date(t0.getTime() + 45_000),
+  );
+  expect(nextDay.reasons).toEqual(["cooldown-active"]);
+  const later = evaluateSwap(
+    policy,
+    quote,
+    wallet,
+    new Date(t0.getTime() + 60_000),
+  );
+  expect(later.allow).toBe(true);
+});
+
+test("policy counters persist across store instances", async () => {
+  const dir = await fs.mkdtemp(
+    path.join(os.tmpdir(), "ralph-policy-counters-"),
+  );
+  try {
+    const filePath = path.join(dir, "counters.json");
+    const now = new Date("2026-03-02T12:00:00.000Z");
+    await new PolicyCounterStore(filePath).record(
+      { inputMint: SOL, inAmount: "700" },
+      now,
+    );
+    await new PolicyCounterStore(filePath).record(
+      { inputMint: USDC, inAmount: "5" },
+      now,
+    );
+    expect(await new PolicyCounterStore(filePath).read(now)).toEqual({
+      day: "2026-03-02",
+      trades: 2,
+      spentLamports: "700",
+      lastTradeAt: now.toISOString(),
+    });
+
+    const result = evaluateTrade(
+      { ...basePolicy, maxTradesPerDay: 2 },
+      baseQuote,
+      baseBalances,
+      await new PolicyCounterStore(filePath).read(now),
+      now,
+    );
+    expect(result.reasons).toEqual([
+      "daily-trade-limit-reached",
+      "cooldown-active",
+    ]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -34,12 +34,17 @@ const baseConfig: RalphConfig = {
     agents: {},
   },
   policy: {
+    version: 1,
     killSwitch: false,
     allowedMints: [],
-    maxTradeAmountLamports: "0",
-    maxSlippageBps: 50,
+    maxTradeAmountAtomic: "0",
+    maxTradeQuoteAtomic: "0",
     maxPriceImpactPct: 1,
+    slippageBps: 50,
+    minSolReserveLamports: "0",
+    maxTradesPerDay: 0,
     cooldownSeconds: 30,
+    dailySpendCapLamports: "0",
   },
 };
 
@@ -6,13 +6,15 @@ describe("worker agent config", () => {
   test("buildAgentToolset returns default tools", () => {
     const strategy: AgentStrategy = { type: "agent" };
     const { tools } = buildAgentToolset(strategy);
-    const names = tools.map((t) => t.function.name).sort();
+    const names = tools.map((t) => t.name).sort();
     expect(names).toContain("control_finish");
     expect(names).toContain("market_snapshot");
     expect(names).toContain("market_jupiter_quote");
     expect(names).toContain("trade_jupiter_swap");
     expect(names).toContain("memory_update_thesis");
     expect(names).toContain("memory_log_observation");
+    expect(names).toContain("market_candles");
+    expect(names).toContain("market_indicators");
   });
 
   test("allowedActions filters action tools but keeps research tools", () => {
@@ -21,7 +23,7 @@ describe("worker agent config", () => {
       allowedActions: ["trade"],
     };
     const { tools } = buildAgentToolset(strategy);
-    const names = tools.map((t) => t.function.name).sort();
+    const names = tools.map((t) => t.name).sort();
     expect(names).toContain("control_finish");
     expect(names).toContain("market_snapshot");
     expect(names).toContain("market_jupiter_quote");
@@ -36,7 +38,7 @@ describe("worker agent config", () => {
       toolPolicy: { allow: ["market_snapshot"] },
     };
     const { tools } = buildAgentToolset(strategy);
-    expect(tools.map((t) => t.function.name).sort()).toEqual(
+    expect(tools.map((t) => t.name).sort()).toEqual(
       ["control_finish", "market_snapshot"].sort(),
     );
   });
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { resolveAgentLlmConfig } from "../../apps/worker/src/agent_llm";
+import type { AgentStrategy, Env } from "../../apps/worker/src/types";
+import { validateStrategy } from "../../apps/worker/src/validation";
+
+function env(overrides: Partial<Env> = {}): Env {
+  return {
+    ZAI_BASE_URL: "https://api.z.ai/api/paas/v4",
+    ZAI_API_KEY: "zai-key",
+    ZAI_MODEL: "glm-4.7",
+    ANTHROPIC_API_KEY: "anthropic-key",
+    ANTHROPIC_MODEL: "claude-default",
+    ...overrides,
+  } as Env;
+}
+
+const agent: AgentStrategy = { type: "agent" };
+
+describe("worker agent llm config", () => {
+  test("defaults to openai_chat with the ZAI settings", () => {
+    const config = resolveAgentLlmConfig(env(), agent);
+    expect(config.provider).toBe("openai_chat");
+    expect(config.baseUrl).toBe("https://api.z.ai/api/paas/v4");
+    expect(config.apiKey).toBe("zai-key");
+    expect(config.model).toBe("glm-4.7");
+    expect(config.toolMode).toBe("tools");
+  });
+
+  test("per-bot provider and model pick that provider's credentials", () => {
+    const config = resolveAgentLlmConfig(env(), {
+      ...agent,
+      provider: "anthropic_messages",
+      model: "claude-custom",
+    });
+    expect(config.provider).toBe("anthropic_messages");
+    expect(config.baseUrl).toBe("https://api.anthropic.com/v1");
+    expect(config.apiKey).toBe("anthropic-key");
+    expect(config.model).toBe("claude-custom");
+  });
+
+  test("LLM_PROVIDER sets the default provider", () => {
+    expect(() =>
+      resolveAgentLlmConfig(env({ LLM_PROVIDER: "openai_responses" }), agent),
+    ).toThrow("missing-llm-api-key");
+  });
+
+  test("base URL overrides must be allow-listed", () => {
+    const strategy: AgentStrategy = {
+      ...agent,
+      baseUrl: "https://proxy.example.com/v1/",
+    };
+    expect(() => resolveAgentLlmConfig(env(), strategy)).toThrow(
+      "invalid-agent-baseUrl",
+    );
+    const config = resolveAgentLlmConfig(
+      env({ LLM_ALLOWED_BASE_URLS: "https://proxy.example.com/v1" }),
+      strategy,
+    );
+    expect(config.baseUrl).toBe("https://proxy.example.com/v1");
+    expect(config.apiKey).toBe("zai-key");
+  });
+
+  test("missing model is reported", () => {
+    expect(() =>
+      resolveAgentLlmConfig(env({ ZAI_MODEL: undefined }), agent),
+    ).toThrow("missing-llm-model");
+  });
+
+  test("validation rejects unknown providers and bad base URLs", () => {
+    expect(() =>
+      validateStrategy({ type: "agent", provider: "gemini" }),
+    ).toThrow("invalid-agent-provider");
+    expect(() =>
+      validateStrategy({ type: "agent", baseUrl: "ftp://x" }),
+    ).toThrow("invalid-agent-baseUrl");
+    expect(() =>
+      validateStrategy({
+        type: "agent",
+        provider: "openai_responses",
+        model: "gpt-test",
+        baseUrl: "https://api.openai.com/v1",
+      }),
+    ).not.toThrow();
+  });
+});
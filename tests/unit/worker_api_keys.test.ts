@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import {
+  hasApiKeyScope,
+  hashApiKey,
+  isApiKeyToken,
+  parseApiKeyInput,
+  scopeForBotRoute,
+} from "../../apps/worker/src/api_keys";
+
+describe("worker api keys", () => {
+  test("bot routes map to read, trade and config scopes", () => {
+    expect(scopeForBotRoute("GET", "pnl", undefined)).toBe("read");
+    expect(scopeForBotRoute("POST", "backtest", undefined)).toBe("read");
+    expect(scopeForBotRoute("POST", "policy", "evaluate")).toBe("read");
+    expect(scopeForBotRoute("POST", "start", undefined)).toBe("trade");
+    expect(scopeForBotRoute("POST", "tick", undefined)).toBe("trade");
+    expect(scopeForBotRoute("POST", "breaker", "reset")).toBe("trade");
+    expect(scopeForBotRoute("PATCH", "config", undefined)).toBe("config");
+    expect(scopeForBotRoute("PUT", "notifications", undefined)).toBe("config");
+    expect(scopeForBotRoute("PATCH", "agent", "memory")).toBe("config");
+  });
+
+  test("any scope grants read; write scopes are explicit", () => {
+    expect(hasApiKeyScope(["trade"], "read")).toBe(true);
+    expect(hasApiKeyScope(["read"], "trade")).toBe(false);
+    expect(hasApiKeyScope(["read"], "config")).toBe(false);
+    expect(hasApiKeyScope(["trade", "config"], "config")).toBe(true);
+    expect(hasApiKeyScope([], "read")).toBe(false);
+  });
+
+  test("create input is validated", () => {
+    expect(
+      parseApiKeyInput({
+        name: " ci ",
+        scopes: ["read", "trade", "read"],
+        expiresInDays: 30,
+      }),
+    ).toEqual({ name: "ci", scopes: ["read", "trade"], expiresInDays: 30 });
+    expect(
+      parseApiKeyInput({ name: "ci", scopes: ["read"] }).expiresInDays,
+    ).toBeNull();
+    expect(() => parseApiKeyInput({ name: "", scopes: ["read"] })).toThrow(
+      "invalid-api-key-name",
+    );
+    expect(() => parseApiKeyInput({ name: "ci", scopes: ["admin"] })).toThrow(
+      "invalid-api-key-scopes",
+    );
+    expect(() =>
+      parseApiKeyInput({ name: "ci", scopes: ["read"], expiresInDays: 0 }),
+    ).toThrow("invalid-api-key-expiresInDays");
+  });
+
+  test("keys are recognized by prefix and hashed deterministically", async () => {
+    expect(isApiKeyToken("rk_abc")).toBe(true);
+    expect(isApiKeyToken("eyJhbGciOi")).toBe(false);
+    const hash = await hashApiKey("rk_abc");
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashApiKey("rk_abc")).toBe(hash);
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type BacktestCandle,
+  backtestOptionsFromPayload,
+  parseCandlesCsv,
+  parseCandlesJsonl,
+  runBacktest,
+} from "../../apps/worker/src/backtest";
+import type { SuitabilityCeilings } from "../../apps/worker/src/suitability";
+import type { TokenScreen } from "../../apps/worker/src/token_safety";
+import type { LoopPolicy } from "../../apps/worker/src/types";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+function hourly(closes: number[]): BacktestCandle[] {
+  const start = Date.parse("2026-01-01T00:00:00Z") / 1000;
+  return closes.map((c, i) => ({
+    t: start + i * 3600,
+    o: String(c),
+    h: String(c),
+    l: String(c),
+    c: String(c),
+    v: "0",
+  }));
+}
+
+describe("worker backtest", () => {
+  test("dca buys on its interval and tracks equity", () => {
+    const result = runBacktest({
+      config: {
+        enabled: true,
+        policy: { minSolReserveLamports: "0" },
+        strategy: {
+          type: "dca",
+          inputMint: USDC,
+          outputMint: SOL,
+          amount: "10000000",
+          everyMinutes: 120,
+        },
+      },
+      candles: hourly([100, 100, 100, 100, 100]),
+      initialBalances: { baseAtomic: "1000000000", quoteAtomic: "100000000" },
+      quoteModel: { txFeeLamports: 0 },
+    });
+
+    expect(result.trades.map((t) => t.status)).toEqual([
+      "filled",
+      "filled",
+      "filled",
+    ]);
+    expect(result.equity).toHaveLength(5);
+    const last = result.equity[result.equity.length - 1];
+    expect(last?.quoteAtomic).toBe("70000000");
+    expect(result.metrics.trades).toBe(3);
+  });
+
+  test("policy rejections are recorded instead of filled", () => {
+    const result = runBacktest({
+      config: {
+        enabled: true,
+        policy: { allowedMints: [USDC], minSolReserveLamports: "0" },
+        strategy: {
+          type: "dca",
+          inputMint: USDC,
+          outputMint: SOL,
+          amount: "10000000",
+        },
+      },
+      candles: hourly([100, 101]),
+      initialBalances: { baseAtomic: "0", quoteAtomic: "100000000" },
+    });
+
+    expect(result.metrics.trades).toBe(0);
+    expect(result.metrics.rejected).toBe(2);
+    expect(result.trades[0]?.reason).toBe("mint-not-allowed");
+  });
+
+  test("the daily counters reject and skip trades as a live tick would", () => {
+    const sellSol = (policy: LoopPolicy, ceilings?: SuitabilityCeilings) =>
+      runBacktest({
+        config: {
+          enabled: true,
+          policy: { minSolReserveLamports: "0", ...policy },
+          strategy: {
+            type: "dca",
+            inputMint: SOL,
+            outputMint: USDC,
+            amount: "1000000000",
+            everyMinutes: 60,
+          },
+        },
+        // Five hours on one day, then one on the next.
+        candles: hourly([100, 100, 100, 100, 100, 100]).map((c, i) =>
+          i === 5 ? { ...c, t: c.t + 86_400 } : c,
+        ),
+        initialBalances: { baseAtomic: "10000000000", quoteAtomic: "0" },
+        quoteModel: { txFeeLamports: 0 },
+        ceilings,
+      }).trades.map((t) => t.reason);
+
+    expect(sellSol({ cooldownSeconds: 7200 })).toEqual([
+      null,
+      "cooldown-active",
+      null,
+      "cooldown-active",
+      null,
+      null,
+    ]);
+    expect(sellSol({ dailySpendCapLamports: "2500000000" })).toEqual([
+      null,
+      null,
+      "daily-spend-cap-exceeded",
+      "daily-spend-cap-exceeded",
+      "daily-spend-cap-exceeded",
+      null,
+    ]);
+    // The owner's ceiling caps an unlimited maxTradesPerDay; once reached,
+    // the rest of the day is skipped like a live tick.
+    expect(
+      sellSol(
+        {},
+        {
+          riskLevel: 1,
+          maxTradeQuoteAtomic: "1000000000",
+          maxPriceImpactPct: 0.01,
+          maxTradesPerDay: 2,
+          allowedTier: "bluechip",
+        },
+      ),
+    ).toEqual([null, null, null]);
+  });
+
+  test("tier allowlists use the screens they are given", () => {
+    const BONK = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+    const buyBonk = (screens?: TokenScreen[]) =>
+      runBacktest({
+        config: {
+          enabled: true,
+          policy: { allowedMints: ["verified"], minSolReserveLamports: "0" },
+          strategy: {
+            type: "dca",
+            inputMint: USDC,
+            outputMint: BONK,
+            amount: "1000000",
+          },
+        },
+        candles: hourly([2]),
+        pair: { baseMint: BONK, baseDecimals: 5 },
+        initialBalances: {
+          baseAtomic: "0",
+          quoteAtomic: "10000000",
+          solLamports: "1000000",
+        },
+        screens,
+      }).trades[0]?.reason;
+
+    expect(buyBonk()).toBe("token-not-screened");
+    expect(
+      buyBonk([
+        {
+          mint: BONK,
+          tier: "verified",
+          reason: null,
+          program: "spl-token",
+          mintAuthority: null,
+          freezeAuthority: null,
+          extensions: [],
+          topHoldersPct: 0.3,
+          liquidityUsd: 5_000_000,
+          screenedAt: "2026-01-01T00:00:00.000Z",
+        },
+      ]),
+    ).toBeNull();
+  });
+
+  test("rebalance sells base after a rally", () => {
+    const result = runBacktest({
+      config: {
+        enabled: true,
+        policy: { minSolReserveLamports: "0" },
+        strategy: {
+          type: "rebalance",
+          baseMint: SOL,
+          quoteMint: USDC,
+          targetBasePct: 0.5,
+          thresholdPct: 0.05,
+        },
+      },
+      candles: hourly([100, 200]),
+      initialBalances: { baseAtomic: "1000000000", quoteAtomic: "100000000" },
+      quoteModel: { txFeeLamports: 0, depthQuote: 0 },
+    });
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]?.side).toBe("rebalance_sell");
+    expect(result.metrics.returnPct).toBeCloseTo(0.5, 6);
+    expect(result.metrics.maxDrawdownPct).toBe(0);
+  });
+
+  test("agent strategy requires a decider", () => {
+    expect(() =>
+      runBacktest({
+        config: { enabled: true, strategy: { type: "agent" } },
+        candles: hourly([100]),
+        initialBalances: { baseAtomic: "0", quoteAtomic: "0" },
+      }),
+    ).toThrow("missing-backtest-agent-decider");
+  });
+
+  test("non-SOL pairs pay fees and the reserve from a separate SOL balance", () => {
+    const BONK = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+    const result = runBacktest({
+      config: {
+        enabled: true,
+        policy: { minSolReserveLamports: "12000" },
+        strategy: {
+          type: "dca",
+          inputMint: USDC,
+          outputMint: BONK,
+          amount: "1000000",
+        },
+      },
+      candles: hourly([2, 2]),
+      pair: { baseMint: BONK, baseDecimals: 5 },
+      initialBalances: {
+        baseAtomic: "0",
+        quoteAtomic: "10000000",
+        solLamports: "15000",
+      },
+      quoteModel: { txFeeLamports: 5000, depthQuote: 0 },
+    });
+
+    expect(result.trades.map((t) => t.reason)).toEqual([
+      null,
+      "insufficient-sol-reserve",
+    ]);
+    const last = result.equity[result.equity.length - 1];
+    expect(last?.baseAtomic).toBe("50000");
+    expect(last?.quoteAtomic).toBe("9000000");
+  });
+
+  test("rejects malformed request options and JSONL", () => {
+    expect(() =>
+      backtestOptionsFromPayload({ initialBalances: { baseAtomic: 1 } }),
+    ).toThrow("invalid-backtest-initial-balances");
+    expect(() =>
+      backtestOptionsFromPayload({ pair: { baseDecimals: "9" } }),
+    ).toThrow("invalid-backtest-pair");
+    expect(() =>
+      backtestOptionsFromPayload({ quoteModel: { feeBps: -1 } }),
+    ).toThrow("invalid-backtest-quote-model");
+    expect(() => parseCandlesJsonl('{"t":1,"c":"1"}\n{oops')).toThrow(
+      "invalid-backtest-candles-jsonl",
+    );
+  });
+
+  test("parses JSONL and CSV candle fixtures", () => {
+    const jsonl = parseCandlesJsonl(
+      '{"t":1767225600,"o":"1","h":"2","l":"1","c":"2","v":"5"}\n\n{"unixTime":1767229200000,"close":3}\n',
+    );
+    expect(jsonl).toHaveLength(2);
+    expect(jsonl[1]).toEqual({
+      t: 1767229200,
+      o: "3",
+      h: "3",
+      l: "3",
+      c: "3",
+      v: "0",
+    });
+
+    const csv = parseCandlesCsv(
+      "time,open,high,low,close,volume\n2026-01-01T00:00:00Z,1,2,0.5,1.5,10\n",
+    );
+    expect(csv).toEqual([
+      { t: 1767225600, o: "1", h: "2", l: "0.5", c: "1.5", v: "10" },
+    ]);
+  });
+});
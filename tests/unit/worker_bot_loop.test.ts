@@ -0,0 +1,351 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { runAutopilotTick } from "../../apps/worker/src/autopilot";
+import { getLoopConfig, updateLoopConfig } from "../../apps/worker/src/config";
+import { enforcePolicy, normalizePolicy } from "../../apps/worker/src/policy";
+import {
+  getPolicyCounters,
+  recordPolicyCounters,
+} from "../../apps/worker/src/policy_counters";
+import { getLoopState } from "../../apps/worker/src/state";
+import { insertTradeIndex } from "../../apps/worker/src/trade_index";
+import type { DcaStrategy, LoopPolicy } from "../../apps/worker/src/types";
+import { createWorkerHarness, type WorkerHarness } from "../harness/worker_env";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const JUP = "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN";
+
+const dca: DcaStrategy = {
+  type: "dca",
+  inputMint: SOL,
+  outputMint: USDC,
+  amount: "1000000000",
+  everyMinutes: 60,
+};
+
+let harness: WorkerHarness | null = null;
+
+async function start(options: Parameters<typeof createWorkerHarness>[0] = {}) {
+  harness = await createWorkerHarness({
+    ...options,
+    jupiter: { rates: { [`${SOL}->${USDC}`]: 0.15 }, ...options.jupiter },
+  });
+  return harness;
+}
+
+async function trades(h: WorkerHarness, botId: string) {
+  const result = await h.env.WAITLIST_DB.prepare(
+    "SELECT status, signature, size, price, last_valid_block_height, fee_lamports, reconciled_at FROM trade_index WHERE tenant_id = ?1 ORDER BY id",
+  )
+    .bind(botId)
+    .all();
+  return result.results as Array<Record<string, unknown>>;
+}
+
+afterEach(async () => {
+  await harness?.close();
+  harness = null;
+});
+
+describe("worker BotLoop end to end", () => {
+  test("a live DCA tick signs, sends, records and later reconciles the swap", async () => {
+    const h = await start();
+    const bot = await h.createBot({ strategy: dca });
+    await bot.tick();
+
+    expect(h.rpc.callCount("sendTransaction")).toBe(1);
+    const [signature] = [...h.rpc.transactions.keys()];
+    expect(h.rpc.transactions.get(signature)?.feePayer).toBe(bot.wallet);
+    let rows = await trades(h, bot.botId);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      status: "confirmed",
+      signature,
+      size: "1000000000",
+      price: "150000000",
+      last_valid_block_height: 280_000_150,
+      reconciled_at: null,
+    });
+    const ledger = await h.env.WAITLIST_DB.prepare(
+      "SELECT signature, out_amount FROM trade_ledger WHERE tenant_id = ?1",
+    )
+      .bind(bot.botId)
+      .first();
+    expect(ledger).toEqual({ signature, out_amount: "150000000" });
+    expect(await bot.alarmAt()).not.toBeNull();
+
+    // The next alarm reconciles the fee; DCA is not due again yet.
+    await bot.alarm();
+    expect(h.rpc.callCount("sendTransaction")).toBe(1);
+    rows = await trades(h, bot.botId);
+    expect(rows[0].fee_lamports).toBe("5000");
+    expect(rows[0].reconciled_at).not.toBeNull();
+  });
+
+  test("a swap 422 re-quotes and builds from the fresh quote", async () => {
+    const h = await start({ jupiter: { swapErrors: [422] } });
+    const bot = await h.createBot({ strategy: dca });
+    await bot.tick();
+
+    // The ledger's fee valuation quotes too; count the trade quotes.
+    const tradeQuotes = h.jupiter.quotes.filter((q) => q.amount === dca.amount);
+    expect(tradeQuotes).toHaveLength(2);
+    expect(h.jupiter.swaps).toHaveLength(2);
+    const rebuilt = h.jupiter.swaps[1].quoteResponse as { contextSlot: number };
+    expect(rebuilt.contextSlot).toBe(2);
+    expect((await trades(h, bot.botId))[0].status).toBe("confirmed");
+  });
+
+  test("the SOL reserve blocks a DCA buy before quoting", async () => {
+    const h = await start();
+    const bot = await h.createBot({ strategy: dca, lamports: 1_020_000_000n });
+    await bot.tick();
+
+    expect(h.jupiter.quotes).toHaveLength(0);
+    expect(h.rpc.callCount("sendTransaction")).toBe(0);
+    expect(await trades(h, bot.botId)).toHaveLength(0);
+  });
+
+  test("simulation errors are recorded without sending", async () => {
+    const h = await start({
+      rpc: { simulationError: { InstructionError: [2, { Custom: 6001 }] } },
+    });
+    const bot = await h.createBot({
+      strategy: dca,
+      policy: { simulateOnly: true },
+    });
+    await bot.tick();
+
+    expect(h.rpc.callCount("simulateTransaction")).toBe(1);
+    expect(h.rpc.callCount("sendTransaction")).toBe(0);
+    expect((await trades(h, bot.botId))[0]).toMatchObject({
+      status: "simulate_error",
+      signature: null,
+    });
+  });
+
+  test("a delayed confirmation is waited out", async () => {
+    const h = await start({ rpc: { confirmAfterPolls: 1 } });
+    const bot = await h.createBot({ strategy: dca });
+    await bot.tick();
+
+    expect(h.rpc.callCount("getSignatureStatuses")).toBe(2);
+    expect((await trades(h, bot.botId))[0].status).toBe("confirmed");
+  });
+
+  test("an unseen swap is only resubmitted once its blockhash expires", async () => {
+    const h = await start({ rpc: { dropTransactions: true } });
+    const bot = await h.createBot({
+      strategy: dca,
+      policy: {
+        priorityFee: {
+          mode: "static",
+          microLamports: 1000,
+          resubmitAfterSlots: 5,
+          maxResubmits: 1,
+        },
+      },
+    });
+    const tick = bot.tick();
+
+    // Past resubmitAfterSlots, but the first blockhash is still valid.
+    await Bun.sleep(200);
+    h.rpc.advance(10);
+    await Bun.sleep(1500);
+    expect(h.rpc.callCount("sendTransaction")).toBe(1);
+
+    h.rpc.advance(200);
+    await Bun.sleep(1500);
+    expect(h.rpc.callCount("sendTransaction")).toBe(2);
+    // The resubmission expires too and maxResubmits is used up.
+    h.rpc.advance(10);
+    await tick;
+    expect(h.rpc.callCount("sendTransaction")).toBe(2);
+    const rows = await h.env.WAITLIST_DB.prepare(
+      "SELECT status, submit_attempts, replaced_signatures FROM trade_index WHERE tenant_id = ?1",
+    )
+      .bind(bot.botId)
+      .all();
+    expect(rows.results).toHaveLength(1);
+    expect(rows.results[0]).toMatchObject({
+      status: "sent",
+      submit_attempts: 2,
+    });
+  }, 15_000);
+
+  test("a swap failing on-chain trips the failure breaker", async () => {
+    const h = await start({
+      rpc: { transactionError: { InstructionError: [2, { Custom: 6001 }] } },
+    });
+    const bot = await h.createBot({
+      strategy: { ...dca, everyMinutes: 1 },
+      policy: { maxConsecutiveFailedSwaps: 1 },
+    });
+    await bot.tick();
+    expect((await trades(h, bot.botId))[0].status).toBe("error");
+    expect(await getPolicyCounters(h.env, bot.botId)).toMatchObject({
+      trades: 0,
+      spentLamports: "0",
+    });
+
+    await bot.alarm();
+    expect(h.rpc.callCount("sendTransaction")).toBe(1);
+    expect((await getLoopConfig(h.env, bot.botId)).policy?.killSwitch).toBe(
+      true,
+    );
+    expect((await getLoopState(h.env, bot.botId)).risk?.tripped?.reason).toBe(
+      "consecutive-failed-swaps",
+    );
+  });
+
+  test("the legacy cron tick checks circuit breakers too", async () => {
+    const h = await start();
+    await updateLoopConfig(h.env, {
+      enabled: true,
+      strategy: dca,
+      policy: { dryRun: true, maxConsecutiveFailedSwaps: 1 },
+    });
+    await insertTradeIndex(h.env, {
+      tenantId: "default",
+      runId: "earlier-run",
+      venue: "jupiter",
+      market: `${SOL}->${USDC}`,
+      side: "swap",
+      status: "error",
+      signature: "failed-signature",
+    });
+
+    const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+    const result = await runAutopilotTick(h.env, ctx);
+    expect(result.error).toStartWith(
+      "circuit-breaker: consecutive-failed-swaps",
+    );
+    expect((await getLoopConfig(h.env)).policy?.killSwitch).toBe(true);
+    expect(await trades(h, "default")).toHaveLength(1);
+  });
+
+  test("a cooldown does not block the rebalance price quote", async () => {
+    const h = await start();
+    const bot = await h.createBot({
+      strategy: {
+        type: "rebalance",
+        baseMint: SOL,
+        quoteMint: USDC,
+        targetBasePct: 0.5,
+        thresholdPct: 0.05,
+      },
+      policy: { cooldownSeconds: 3600 },
+    });
+    // 10 SOL and 1,500 USDC: already at target.
+    h.rpc.tokenBalances[bot.wallet] = { [USDC]: "1500000000" };
+    await recordPolicyCounters(h.env, bot.botId, {
+      inputMint: SOL,
+      inAmount: "1000000000",
+    });
+
+    await bot.tick();
+    const row = await h.env.WAITLIST_DB.prepare(
+      "SELECT last_error FROM bots WHERE id = ?1",
+    )
+      .bind(bot.botId)
+      .first();
+    expect(row).toEqual({ last_error: null });
+  });
+
+  test("a cooldown does not hold back the later legs of a portfolio tick", async () => {
+    const h = await start({ jupiter: { rates: { [`${USDC}->${JUP}`]: 2 } } });
+    const bot = await h.createBot({
+      strategy: {
+        type: "portfolio",
+        quoteMint: USDC,
+        targets: { [SOL]: 0.5, [JUP]: 0.25, [USDC]: 0.25 },
+      },
+      policy: { cooldownSeconds: 3600 },
+    });
+    // 10 SOL and 500 USDC: sell SOL, then buy JUP.
+    h.rpc.tokenBalances[bot.wallet] = { [USDC]: "500000000" };
+
+    await bot.tick();
+    expect(h.rpc.callCount("sendTransaction")).toBe(2);
+    expect((await trades(h, bot.botId)).map((t) => t.status)).toEqual([
+      "confirmed",
+      "confirmed",
+    ]);
+    expect(await getPolicyCounters(h.env, bot.botId)).toMatchObject({
+      trades: 2,
+      spentLamports: "4750000000",
+    });
+
+    // The next tick is still held back by the cooldown.
+    h.rpc.tokenBalances[bot.wallet] = { [USDC]: "0" };
+    await bot.tick();
+    expect(h.rpc.callCount("sendTransaction")).toBe(2);
+  });
+
+  test("dry-run fills leave a one-shot trigger armed", async () => {
+    const h = await start();
+    const bot = await h.createBot({
+      strategy: {
+        type: "triggers",
+        baseMint: SOL,
+        quoteMint: USDC,
+        triggers: [
+          { id: "tp", kind: "take_profit", price: "100", amount: "1000000000" },
+        ],
+      },
+      policy: { dryRun: true },
+    });
+    const triggerStatus = async () =>
+      (await getLoopState(h.env, bot.botId)).triggers?.tp?.status;
+
+    await bot.tick();
+    await bot.tick();
+    expect((await trades(h, bot.botId)).map((t) => t.status)).toEqual([
+      "dry_run",
+      "dry_run",
+    ]);
+    expect(await triggerStatus()).toBe("armed");
+
+    // Only the live send uses the trigger up.
+    await updateLoopConfig(h.env, { policy: { dryRun: false } }, bot.botId);
+    await bot.tick();
+    await bot.tick();
+    expect(h.rpc.callCount("sendTransaction")).toBe(1);
+    expect(await triggerStatus()).toBe("filled");
+  });
+
+  test("a sent swap bumps the counters behind cooldown and daily spend", async () => {
+    const h = await start();
+    const bot = await h.createBot({
+      strategy: dca,
+      // A config saved in the legacy local shape is upgraded on read.
+      policy: { maxTradeAmountLamports: "1000000000" } as LoopPolicy,
+    });
+    expect((await getLoopConfig(h.env, bot.botId)).policy).toMatchObject({
+      version: 1,
+      maxTradeAmountAtomic: "1000000000",
+    });
+    await bot.tick();
+
+    const counters = await getPolicyCounters(h.env, bot.botId);
+    expect(counters).toMatchObject({ trades: 1, spentLamports: "1000000000" });
+    const policy = normalizePolicy({
+      cooldownSeconds: 3600,
+      dailySpendCapLamports: "1500000000",
+    });
+    policy.counters = counters;
+    const quote = {
+      inputMint: SOL,
+      outputMint: USDC,
+      inAmount: dca.amount,
+      outAmount: "150000000",
+    };
+    await expect(enforcePolicy(policy, quote)).rejects.toThrow(
+      "daily-spend-cap-exceeded",
+    );
+    policy.dailySpendCapLamports = "0";
+    await expect(enforcePolicy(policy, quote)).rejects.toThrow(
+      "cooldown-active",
+    );
+  });
+});
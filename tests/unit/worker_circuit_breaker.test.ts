@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import {
+  countConsecutiveFailures,
+  evaluateBreakers,
+} from "../../apps/worker/src/circuit_breaker";
+import { normalizePolicy } from "../../apps/worker/src/policy";
+import { validatePolicy } from "../../apps/worker/src/validation";
+
+const now = new Date("2026-03-02T12:00:00.000Z");
+
+describe("worker circuit breakers", () => {
+  test("breakers are off by default", () => {
+    const policy = normalizePolicy({});
+    expect(policy.maxDailyLossQuoteAtomic).toBe("0");
+    expect(policy.maxDailyLossPct).toBe(0);
+    expect(policy.maxDrawdownPct).toBe(0);
+    expect(policy.maxConsecutiveFailedSwaps).toBe(0);
+    const result = evaluateBreakers(policy, {
+      state: { day: "2026-03-02", dayStartValueQuote: "1000" },
+      now,
+      equityQuote: 1n,
+      consecutiveFailures: 50,
+    });
+    expect(result.trip).toBeNull();
+  });
+
+  test("first tick of the day sets the baselines", () => {
+    const policy = normalizePolicy({ maxDailyLossQuoteAtomic: "100" });
+    const result = evaluateBreakers(policy, {
+      state: {
+        day: "2026-03-01",
+        dayStartValueQuote: "5000",
+        highWaterMarkQuote: "6000",
+      },
+      now,
+      equityQuote: 1000n,
+      consecutiveFailures: 0,
+    });
+    expect(result.trip).toBeNull();
+    expect(result.nextState).toEqual({
+      day: "2026-03-02",
+      dayStartValueQuote: "1000",
+      highWaterMarkQuote: "6000",
+    });
+  });
+
+  test("daily loss trips in quote units and as a percentage", () => {
+    const state = { day: "2026-03-02", dayStartValueQuote: "1000" };
+    const absolute = evaluateBreakers(
+      normalizePolicy({ maxDailyLossQuoteAtomic: "100" }),
+      { state, now, equityQuote: 900n, consecutiveFailures: 0 },
+    );
+    expect(absolute.trip?.reason).toBe("daily-loss");
+    expect(absolute.nextState.tripped?.at).toBe(now.toISOString());
+
+    const pct = normalizePolicy({ maxDailyLossPct: 0.2 });
+    expect(
+      evaluateBreakers(pct, {
+        state,
+        now,
+        equityQuote: 801n,
+        consecutiveFailures: 0,
+      }).trip,
+    ).toBeNull();
+    expect(
+      evaluateBreakers(pct, {
+        state,
+        now,
+        equityQuote: 800n,
+        consecutiveFailures: 0,
+      }).trip?.reason,
+    ).toBe("daily-loss-pct");
+  });
+
+  test("drawdown is measured from the high-water mark", () => {
+    const policy = normalizePolicy({ maxDrawdownPct: 0.1 });
+    const rising = evaluateBreakers(policy, {
+      state: { day: "2026-03-02", highWaterMarkQuote: "1000" },
+      now,
+      equityQuote: 2000n,
+      consecutiveFailures: 0,
+    });
+    expect(rising.trip).toBeNull();
+    expect(rising.nextState.highWaterMarkQuote).toBe("2000");
+
+    const falling = evaluateBreakers(policy, {
+      state: rising.nextState,
+      now,
+      equityQuote: 1800n,
+      consecutiveFailures: 0,
+    });
+    expect(falling.trip?.reason).toBe("drawdown");
+    expect(falling.nextState.highWaterMarkQuote).toBe("2000");
+  });
+
+  test("unmeasured equity keeps the baselines and only checks failures", () => {
+    const policy = normalizePolicy({
+      maxDrawdownPct: 0.1,
+      maxConsecutiveFailedSwaps: 3,
+    });
+    const state = { day: "2026-03-02", highWaterMarkQuote: "2000" };
+    const result = evaluateBreakers(policy, {
+      state,
+      now,
+      equityQuote: null,
+      consecutiveFailures: 3,
+    });
+    expect(result.trip?.reason).toBe("consecutive-failed-swaps");
+    expect(result.nextState.highWaterMarkQuote).toBe("2000");
+  });
+
+  test("consecutive failures count from the newest swap", () => {
+    expect(countConsecutiveFailures(["error", "error", "confirmed"])).toBe(2);
+    expect(countConsecutiveFailures(["confirmed", "error"])).toBe(0);
+    expect(countConsecutiveFailures([])).toBe(0);
+  });
+
+  test("policy validation rejects out-of-range limits", () => {
+    expect(() => validatePolicy({ maxDailyLossQuoteAtomic: "1.5" })).toThrow(
+      "invalid-policy-maxDailyLossQuoteAtomic",
+    );
+    expect(() => validatePolicy({ maxDailyLossPct: 1.5 })).toThrow(
+      "invalid-policy-maxDailyLossPct",
+    );
+    expect(() => validatePolicy({ maxDrawdownPct: -0.1 })).toThrow(
+      "invalid-policy-maxDrawdownPct",
+    );
+    expect(() => validatePolicy({ maxConsecutiveFailedSwaps: 2.5 })).toThrow(
+      "invalid-policy-maxConsecutiveFailedSwaps",
+    );
+    expect(() =>
+      validatePolicy({
+        maxDailyLossQuoteAtomic: "5000000",
+        maxDailyLossPct: 0.05,
+        maxDrawdownPct: 0.2,
+        maxConsecutiveFailedSwaps: 3,
+      }),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, expect, test } from "bun:test";
+import { scopeForBotRoute } from "../../apps/worker/src/api_keys";
+import {
+  applyChildFill,
+  createParentOrder,
+  deferChild,
+  evaluateChildQuote,
+  isChildDue,
+  isParentExpired,
+  nextChildAmount,
+  planTwapSlices,
+  settlePendingChild,
+  sliceAmountCap,
+  slicePriceImpactLimit,
+} from "../../apps/worker/src/execution";
+import { normalizePolicy } from "../../apps/worker/src/policy";
+import type { ParentOrder } from "../../apps/worker/src/types";
+import { validateStrategy } from "../../apps/worker/src/validation";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const now = new Date("2026-03-02T12:00:00.000Z");
+
+function parent(overrides: Partial<ParentOrder> = {}): ParentOrder {
+  return {
+    ...createParentOrder({
+      strategy: "rebalance",
+      side: "rebalance_sell",
+      inputMint: SOL,
+      outputMint: USDC,
+      totalAmount: 1000n,
+      slices: 4,
+      execution: { mode: "twap", intervalSeconds: 30 },
+      policy: normalizePolicy({ maxPriceImpactPct: 0.01 }),
+      maxSliceAmount: 0n,
+      now,
+    }),
+    ...overrides,
+  };
+}
+
+describe("worker TWAP execution", () => {
+  test("slice count follows price impact and amount caps", () => {
+    const base = {
+      totalAmount: 1000n,
+      fullPriceImpactPct: 0.002,
+      maxSlicePriceImpactPct: 0.005,
+      maxSliceAmount: 0n,
+    };
+    expect(planTwapSlices(base)).toBe(1);
+    expect(planTwapSlices({ ...base, fullPriceImpactPct: 0.012 })).toBe(3);
+    expect(planTwapSlices({ ...base, maxSliceAmount: 300n })).toBe(4);
+    expect(planTwapSlices({ ...base, slices: 2, maxSliceAmount: 300n })).toBe(
+      4,
+    );
+    expect(planTwapSlices({ ...base, fullPriceImpactPct: 10 })).toBe(50);
+  });
+
+  test("per-slice limits never loosen the policy", () => {
+    const policy = normalizePolicy({
+      maxPriceImpactPct: 0.01,
+      maxTradeAmountAtomic: "500",
+    });
+    expect(
+      slicePriceImpactLimit(
+        { mode: "twap", maxSlicePriceImpactPct: 0.5 },
+        policy,
+      ),
+    ).toBe(0.01);
+    expect(
+      slicePriceImpactLimit(
+        { mode: "twap", maxSlicePriceImpactPct: 0.002 },
+        policy,
+      ),
+    ).toBe(0.002);
+    expect(sliceAmountCap(policy, "200")).toBe(200n);
+    expect(sliceAmountCap(policy, undefined)).toBe(500n);
+    expect(sliceAmountCap(normalizePolicy({}), undefined)).toBe(0n);
+  });
+
+  test("children split the remainder and the parent completes", () => {
+    let order = parent();
+    expect(order.nextAt).toBe(now.toISOString());
+    expect(nextChildAmount(order)).toBe(250n);
+
+    order = applyChildFill(
+      order,
+      {
+        inAmount: "250",
+        outAmount: "2500",
+        status: "confirmed",
+        sliceIndex: 1,
+      },
+      now,
+    );
+    expect(order.status).toBe("active");
+    expect(order.refInAmount).toBe("250");
+    expect(isChildDue(order, now)).toBe(false);
+    expect(isChildDue(order, new Date(now.getTime() + 30_000))).toBe(true);
+
+    order = applyChildFill(
+      { ...order, slices: 2 },
+      { inAmount: "750", outAmount: "7400", status: "dry_run", sliceIndex: 2 },
+      now,
+    );
+    expect(order.status).toBe("completed");
+    expect(order.reason).toBe("filled");
+    expect(order.filledAmount).toBe("1000");
+    expect(order.outAmount).toBe("9900");
+  });
+
+  test("a failed child fails the parent", () => {
+    const order = applyChildFill(
+      parent(),
+      { inAmount: "250", outAmount: "0", status: "error", sliceIndex: 1 },
+      now,
+    );
+    expect(order.status).toBe("failed");
+    expect(order.reason).toBe("child-error");
+    expect(order.filledAmount).toBe("0");
+  });
+
+  test("an unconfirmed child stays pending until reconciliation settles it", () => {
+    const sent = applyChildFill(
+      parent(),
+      {
+        inAmount: "250",
+        outAmount: "2500",
+        status: "sent",
+        signature: "sig-1",
+        sliceIndex: 1,
+      },
+      now,
+    );
+    expect(sent.slicesDone).toBe(0);
+    expect(sent.filledAmount).toBe("0");
+    expect(sent.pendingChild).toEqual({
+      sliceIndex: 1,
+      signature: "sig-1",
+      inAmount: "250",
+      outAmount: "2500",
+    });
+    expect(isChildDue(sent, new Date(now.getTime() + 30_000))).toBe(true);
+
+    const unsettled = { filledInAmount: null, filledOutAmount: null };
+    expect(
+      settlePendingChild(sent, { ...unsettled, status: "processed" }, now),
+    ).toBe(sent);
+
+    const landed = settlePendingChild(
+      sent,
+      { status: "confirmed", filledInAmount: "250", filledOutAmount: "2480" },
+      now,
+    );
+    expect(landed.pendingChild).toBeUndefined();
+    expect(landed.slicesDone).toBe(1);
+    expect(landed.filledAmount).toBe("250");
+    expect(landed.outAmount).toBe("2480");
+
+    const expired = settlePendingChild(
+      sent,
+      { ...unsettled, status: "expired" },
+      now,
+    );
+    expect(expired.status).toBe("active");
+    expect(expired.slicesDone).toBe(1);
+    expect(expired.filledAmount).toBe("0");
+  });
+
+  test("child quotes are deferred on impact and cancelled on adverse moves", () => {
+    const order = parent({
+      refInAmount: "250",
+      refOutAmount: "2500",
+      cancelOnAdverseMovePct: 0.02,
+    });
+    expect(
+      evaluateChildQuote(order, {
+        inAmount: "250",
+        outAmount: "2500",
+        priceImpactPct: 0.02,
+      }),
+    ).toEqual({ action: "wait", reason: "slice-price-impact" });
+    expect(
+      evaluateChildQuote(order, {
+        inAmount: "250",
+        outAmount: "2460",
+        priceImpactPct: 0.001,
+      }),
+    ).toEqual({ action: "execute" });
+    expect(
+      evaluateChildQuote(order, {
+        inAmount: "250",
+        outAmount: "2450",
+        priceImpactPct: 0.001,
+      }),
+    ).toEqual({ action: "cancel", reason: "adverse-move", movePct: 0.02 });
+
+    const deferred = deferChild(order, now);
+    expect(deferred.slicesDone).toBe(0);
+    expect(deferred.nextAt).toBe("2026-03-02T12:00:30.000Z");
+  });
+
+  test("parent orders expire after maxDurationMinutes", () => {
+    const order = parent();
+    expect(isParentExpired(order, new Date(now.getTime() + 59 * 60_000))).toBe(
+      false,
+    );
+    expect(isParentExpired(order, new Date(now.getTime() + 60 * 60_000))).toBe(
+      true,
+    );
+  });
+
+  test("strategy validation checks the execution block", () => {
+    const dca = {
+      type: "dca",
+      inputMint: SOL,
+      outputMint: USDC,
+      amount: "1000",
+    };
+    expect(() =>
+      validateStrategy({
+        ...dca,
+        execution: { mode: "twap", slices: 5, intervalSeconds: 60 },
+      }),
+    ).not.toThrow();
+    expect(() =>
+      validateStrategy({ ...dca, execution: { mode: "iceberg" } }),
+    ).toThrow("invalid-dca-execution-mode");
+    expect(() =>
+      validateStrategy({ ...dca, execution: { mode: "twap", slices: 51 } }),
+    ).toThrow("invalid-dca-execution-slices");
+    expect(() =>
+      validateStrategy({
+        type: "rebalance",
+        baseMint: SOL,
+        quoteMint: USDC,
+        targetBasePct: 0.5,
+        execution: { mode: "twap", intervalSeconds: 5 },
+      }),
+    ).toThrow("invalid-rebalance-execution-intervalSeconds");
+  });
+
+  test("cancelling a parent order needs the trade scope", () => {
+    expect(scopeForBotRoute("POST", "execution", "cancel")).toBe("trade");
+    expect(scopeForBotRoute("GET", "execution", undefined)).toBe("read");
+  });
+});
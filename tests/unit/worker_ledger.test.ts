@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { walletTokenDelta } from "../../apps/worker/src/ledger";
+
+const WALLET = "wallet";
+const MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const SOL = "So11111111111111111111111111111111111111112";
+
+function balance(mint: string, owner: string, amount: string) {
+  return { accountIndex: 1, mint, owner, uiTokenAmount: { amount } };
+}
+
+describe("worker ledger", () => {
+  test("uses the wallet's own token balance change", () => {
+    expect(
+      walletTokenDelta(
+        [balance(MINT, WALLET, "500"), balance(MINT, "pool", "9000")],
+        [balance(MINT, WALLET, "1750"), balance(MINT, "pool", "7750")],
+        WALLET,
+        MINT,
+      ),
+    ).toBe(1250n);
+  });
+
+  test("returns null for SOL and for mints the wallet never held", () => {
+    expect(
+      walletTokenDelta(
+        [balance(SOL, WALLET, "1")],
+        [balance(SOL, WALLET, "2")],
+        WALLET,
+        SOL,
+      ),
+    ).toBeNull();
+    expect(walletTokenDelta([], [], WALLET, MINT)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import {
+  estimateLlmCostUsd,
+  parseLlmPricing,
+  usageDay,
+} from "../../apps/worker/src/llm_usage";
+import { validateStrategy } from "../../apps/worker/src/validation";
+
+describe("worker llm usage", () => {
+  test("parses pricing and drops malformed entries", () => {
+    expect(
+      parseLlmPricing(
+        JSON.stringify({
+          "glm-4.7": { input: 0.6, output: 2.2 },
+          broken: { input: "x" },
+          nope: 5,
+        }),
+      ),
+    ).toEqual({ "glm-4.7": { input: 0.6, output: 2.2 } });
+    expect(parseLlmPricing("not json")).toEqual({});
+    expect(parseLlmPricing(undefined)).toEqual({});
+  });
+
+  test("estimates cost per 1M tokens and null for unpriced models", () => {
+    const pricing = { m: { input: 1, output: 4 } };
+    const usage = {
+      inputTokens: 500_000,
+      outputTokens: 250_000,
+      totalTokens: 750_000,
+    };
+    expect(estimateLlmCostUsd(pricing, "m", usage)).toBeCloseTo(1.5, 10);
+    expect(estimateLlmCostUsd(pricing, "other", usage)).toBeNull();
+  });
+
+  test("usage days are UTC dates", () => {
+    expect(usageDay(new Date("2026-03-01T23:30:00-05:00"))).toBe("2026-03-02");
+  });
+
+  test("dailyTokenBudget must be a positive integer", () => {
+    expect(() =>
+      validateStrategy({ type: "agent", dailyTokenBudget: 0 }),
+    ).toThrow("invalid-agent-dailyTokenBudget");
+    expect(() =>
+      validateStrategy({ type: "agent", dailyTokenBudget: 1.5 }),
+    ).toThrow("invalid-agent-dailyTokenBudget");
+    expect(() =>
+      validateStrategy({ type: "agent", dailyTokenBudget: 200_000 }),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  listCandles,
+  orientMarketPair,
+  priceFromQuote,
+  recordPriceSample,
+} from "../../apps/worker/src/market_data";
+import type { Env } from "../../apps/worker/src/types";
+import {
+  createD1,
+  createWorkerHarness,
+  type WorkerHarness,
+} from "../harness/worker_env";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const JUP = "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN";
+const T0 = Date.parse("2026-03-02T10:00:00.000Z") / 1000;
+
+let harness: WorkerHarness | null = null;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = null;
+});
+
+describe("worker market data", () => {
+  test("samples fold into candles for every interval", async () => {
+    const env = { WAITLIST_DB: createD1() } as Env;
+    const pair = { baseMint: SOL, quoteMint: USDC };
+    await recordPriceSample(env, pair, { t: T0, price: 150 });
+    await recordPriceSample(env, pair, { t: T0 + 20, price: 148 });
+    await recordPriceSample(env, pair, { t: T0 + 40, price: 153, volume: 2 });
+    await recordPriceSample(env, pair, { t: T0 + 90, price: 151 });
+
+    expect(await listCandles(env, pair, "1m", 10, T0 + 120)).toEqual([
+      { t: T0, o: "150", h: "153", l: "148", c: "153", v: "2" },
+      { t: T0 + 60, o: "151", h: "151", l: "151", c: "151", v: "0" },
+    ]);
+    expect(await listCandles(env, pair, "1h", 10, T0 + 120)).toEqual([
+      { t: T0, o: "150", h: "153", l: "148", c: "151", v: "2" },
+    ]);
+    // Newest candles win the limit; `to` excludes later buckets.
+    expect(await listCandles(env, pair, "1m", 1, T0 + 120)).toHaveLength(1);
+    expect((await listCandles(env, pair, "1m", 1, T0 + 120))[0].t).toBe(
+      T0 + 60,
+    );
+    expect(await listCandles(env, pair, "1m", 10, T0 - 1)).toEqual([]);
+  });
+
+  test("swaps in either direction price the same market", () => {
+    expect(orientMarketPair(SOL, USDC)).toEqual({
+      baseMint: SOL,
+      quoteMint: USDC,
+    });
+    expect(orientMarketPair(USDC, SOL)).toEqual({
+      baseMint: SOL,
+      quoteMint: USDC,
+    });
+    expect(orientMarketPair(SOL, JUP)).toEqual({
+      baseMint: JUP,
+      quoteMint: SOL,
+    });
+
+    const pair = { baseMint: SOL, quoteMint: USDC };
+    const decimals = { base: 9, quote: 6 };
+    const sell = {
+      inputMint: SOL,
+      outputMint: USDC,
+      inAmount: "2000000000",
+      outAmount: "300000000",
+    };
+    const buy = {
+      inputMint: USDC,
+      outputMint: SOL,
+      inAmount: "150000000",
+      outAmount: "1000000000",
+    };
+    expect(priceFromQuote(sell, pair, decimals)).toBe(150);
+    expect(priceFromQuote(buy, pair, decimals)).toBe(150);
+    expect(priceFromQuote({ ...sell, outAmount: "0" }, pair, decimals)).toBe(
+      null,
+    );
+  });
+
+  test("a DCA tick records the price it quoted", async () => {
+    harness = await createWorkerHarness({
+      jupiter: { rates: { [`${SOL}->${USDC}`]: 0.15 } },
+    });
+    const bot = await harness.createBot({
+      strategy: {
+        type: "dca",
+        inputMint: SOL,
+        outputMint: USDC,
+        amount: "1000000000",
+        everyMinutes: 60,
+      },
+      policy: { dryRun: true },
+    });
+    await bot.tick();
+
+    const candles = await listCandles(
+      harness.env,
+      { baseMint: SOL, quoteMint: USDC },
+      "1m",
+    );
+    expect(candles).toHaveLength(1);
+    expect(candles[0]).toMatchObject({ o: "150", c: "150" });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type NotificationSubscription,
+  parseNotificationSubscriptions,
+  REDACTED_SECRET,
+  redactSubscription,
+} from "../../apps/worker/src/notifications";
+
+const stored: NotificationSubscription = {
+  id: "sub-1",
+  sink: { type: "telegram", botToken: "123:abc", chatId: "42" },
+  events: ["trade.failed"],
+  enabled: true,
+};
+
+describe("worker notification subscriptions", () => {
+  test("secrets are redacted and restored on update", () => {
+    const redacted = redactSubscription(stored);
+    expect(redacted.sink).toEqual({
+      type: "telegram",
+      botToken: REDACTED_SECRET,
+      chatId: "42",
+    });
+    const [parsed] = parseNotificationSubscriptions([redacted], [stored]);
+    expect(parsed?.sink).toEqual(stored.sink);
+  });
+
+  test("redacted secrets cannot be copied into a new subscription", () => {
+    expect(() =>
+      parseNotificationSubscriptions(
+        [{ id: "other", sink: redactSubscription(stored).sink }],
+        [stored],
+      ),
+    ).toThrow("invalid-notification-botToken");
+  });
+
+  test("new subscriptions get an id and every event by default", () => {
+    const [parsed] = parseNotificationSubscriptions(
+      [{ sink: { type: "webhook", url: "https://hooks.test/a" } }],
+      [],
+    );
+    expect(parsed?.id).toBeTruthy();
+    expect(parsed?.enabled).toBe(true);
+    expect(parsed?.events).toContain("killswitch.tripped");
+  });
+
+  test("invalid sinks and events are rejected", () => {
+    expect(() =>
+      parseNotificationSubscriptions([{ sink: { type: "sms" } }], []),
+    ).toThrow("invalid-notification-sink-type");
+    expect(() =>
+      parseNotificationSubscriptions(
+        [{ sink: { type: "discord", webhookUrl: "discord.com/hook" } }],
+        [],
+      ),
+    ).toThrow("invalid-notification-webhookUrl");
+    expect(() =>
+      parseNotificationSubscriptions(
+        [
+          {
+            sink: { type: "webhook", url: "https://hooks.test/a" },
+            events: ["trade.maybe"],
+          },
+        ],
+        [],
+      ),
+    ).toThrow("invalid-notification-events");
+  });
+});
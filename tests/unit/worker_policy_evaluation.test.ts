@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { getLoopConfig } from "../../apps/worker/src/config";
+import {
+  evaluateBotPolicy,
+  validatePolicyEvaluationRequest,
+} from "../../apps/worker/src/policy_evaluation";
+import { insertTradeIndex } from "../../apps/worker/src/trade_index";
+import { evaluatePolicy } from "../../src/policy/index";
+import { createWorkerHarness, type WorkerHarness } from "../harness/worker_env";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+let harness: WorkerHarness | null = null;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = null;
+});
+
+describe("policy evaluation", () => {
+  test("every rule reports its verdict in order", () => {
+    const report = evaluatePolicy({
+      killSwitch: false,
+      allowedMints: { observed: "A -> B", threshold: "A, B", reason: null },
+      tradeAmount: { atomic: "200", maxAtomic: "100" },
+      tradeValue: { quoteAtomic: null, maxQuoteAtomic: "0" },
+      priceImpact: { pct: 0.05, maxPct: 0.02 },
+      tradesToday: { count: 3, max: 0 },
+    });
+    expect(report.allow).toBe(false);
+    expect(report.reasons).toEqual([
+      "trade-amount-exceeds-cap",
+      "price-impact-too-high",
+    ]);
+    expect(report.rules.map((rule) => [rule.rule, rule.pass])).toEqual([
+      ["kill-switch", true],
+      ["allowed-mints", true],
+      ["max-trade-amount", false],
+      ["max-trade-value", true],
+      ["price-impact", false],
+      ["daily-trades", true],
+    ]);
+    expect(report.rules[2]).toEqual({
+      rule: "max-trade-amount",
+      pass: false,
+      observed: "200",
+      threshold: "100",
+      reason: "trade-amount-exceeds-cap",
+    });
+  });
+
+  test("a bot's hypothetical trade is quoted and checked, not executed", async () => {
+    harness = await createWorkerHarness({
+      jupiter: { rates: { [`${SOL}->${USDC}`]: 0.15 } },
+    });
+    const bot = await harness.createBot({
+      strategy: { type: "noop" },
+      policy: {
+        allowedMints: ["bluechip"],
+        maxTradeAmountAtomic: "500000000",
+        maxTradesPerDay: 1,
+        maxConsecutiveFailedSwaps: 1,
+      },
+      lamports: 1_000_000_000,
+    });
+    // A swap sent earlier today, then one that failed on-chain. Only the
+    // first counts toward the daily trade limit.
+    await insertTradeIndex(harness.env, {
+      tenantId: bot.botId,
+      runId: "earlier",
+      venue: "jupiter",
+      market: `${SOL}->${USDC}`,
+      side: "swap",
+      size: "100000000",
+      status: "confirmed",
+      signature: "confirmed-signature",
+    });
+    const failedCounters = await insertTradeIndex(harness.env, {
+      tenantId: bot.botId,
+      runId: "earlier",
+      venue: "jupiter",
+      market: `${SOL}->${USDC}`,
+      side: "swap",
+      size: "100000000",
+      status: "error",
+      signature: "failed-signature",
+    });
+    expect(failedCounters).toBeNull();
+
+    const { quote, report } = await evaluateBotPolicy(
+      harness.env,
+      { id: bot.botId, walletAddress: bot.wallet },
+      validatePolicyEvaluationRequest({
+        inputMint: SOL,
+        outputMint: USDC,
+        amount: "980000000",
+      }),
+    );
+    expect(quote).toMatchObject({
+      inAmount: "980000000",
+      outAmount: "147000000",
+    });
+    expect(report.reasons).toEqual([
+      "trade-amount-exceeds-cap",
+      "insufficient-sol-reserve",
+      "daily-trade-limit-reached",
+      "circuit-breaker-consecutive-failed-swaps",
+    ]);
+    const byRule = Object.fromEntries(
+      report.rules.map((rule) => [rule.rule, rule]),
+    );
+    expect(byRule["allowed-mints"]).toMatchObject({
+      pass: true,
+      threshold: "bluechip",
+    });
+    expect(byRule["sol-reserve"]).toMatchObject({
+      observed: "20000000",
+      threshold: "50000000",
+    });
+    expect(byRule["daily-trades"]).toMatchObject({ observed: 1, threshold: 1 });
+
+    // Nothing was sent, and the breaker did not flip the kill switch.
+    expect(harness.rpc.callCount("sendTransaction")).toBe(0);
+    const config = await getLoopConfig(harness.env, bot.botId);
+    expect(config.policy?.killSwitch).toBeFalsy();
+  });
+
+  test("requests need two mints and a positive atomic amount", () => {
+    expect(() =>
+      validatePolicyEvaluationRequest({ inputMint: SOL, outputMint: USDC }),
+    ).toThrow("invalid-evaluation-amount");
+    expect(() =>
+      validatePolicyEvaluationRequest({
+        inputMint: "SOL",
+        outputMint: USDC,
+        amount: "1",
+      }),
+    ).toThrow("invalid-evaluation-inputMint");
+  });
+});
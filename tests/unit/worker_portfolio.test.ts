@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import {
+  planPortfolio,
+  scalePortfolioBuys,
+} from "../../apps/worker/src/strategy_plan";
+import type { PortfolioStrategy } from "../../apps/worker/src/types";
+import { validateStrategy } from "../../apps/worker/src/validation";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const JUP = "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN";
+
+const strategy: PortfolioStrategy = {
+  type: "portfolio",
+  quoteMint: USDC,
+  targets: { [SOL]: 0.5, [JUP]: 0.25, [USDC]: 0.25 },
+  driftPct: 0.05,
+};
+
+describe("worker portfolio", () => {
+  test("sells overweight assets and buys underweight ones", () => {
+    const plan = planPortfolio({
+      strategy,
+      holdings: [
+        {
+          mint: SOL,
+          balanceAtomic: 7_000_000_000n,
+          valueQuoteAtomic: 700_000_000n,
+        },
+        {
+          mint: JUP,
+          balanceAtomic: 100_000_000n,
+          valueQuoteAtomic: 100_000_000n,
+        },
+        {
+          mint: USDC,
+          balanceAtomic: 200_000_000n,
+          valueQuoteAtomic: 200_000_000n,
+        },
+      ],
+      reserveLamports: 0n,
+      maxTradeAmountAtomic: 0n,
+    });
+
+    expect(plan.totalQuoteAtomic).toBe(1_000_000_000n);
+    expect(plan.sells).toEqual([
+      {
+        mint: SOL,
+        amountAtomic: 2_000_000_000n,
+        valueQuoteAtomic: 200_000_000n,
+      },
+    ]);
+    expect(plan.buys).toEqual([{ mint: JUP, spendQuoteAtomic: 150_000_000n }]);
+  });
+
+  test("leaves assets inside the drift band alone", () => {
+    const plan = planPortfolio({
+      strategy,
+      holdings: [
+        {
+          mint: SOL,
+          balanceAtomic: 5_200_000_000n,
+          valueQuoteAtomic: 520_000_000n,
+        },
+        {
+          mint: JUP,
+          balanceAtomic: 230_000_000n,
+          valueQuoteAtomic: 230_000_000n,
+        },
+        {
+          mint: USDC,
+          balanceAtomic: 250_000_000n,
+          valueQuoteAtomic: 250_000_000n,
+        },
+      ],
+      reserveLamports: 0n,
+      maxTradeAmountAtomic: 0n,
+    });
+    expect(plan.sells).toHaveLength(0);
+    expect(plan.buys).toHaveLength(0);
+  });
+
+  test("respects the SOL reserve and the per-trade cap", () => {
+    const plan = planPortfolio({
+      strategy: { ...strategy, targets: { [SOL]: 0, [USDC]: 1 } },
+      holdings: [
+        {
+          mint: SOL,
+          balanceAtomic: 1_000_000_000n,
+          valueQuoteAtomic: 100_000_000n,
+        },
+        { mint: USDC, balanceAtomic: 0n, valueQuoteAtomic: 0n },
+      ],
+      reserveLamports: 50_000_000n,
+      maxTradeAmountAtomic: 600_000_000n,
+    });
+    expect(plan.sells[0]?.amountAtomic).toBe(600_000_000n);
+
+    const uncapped = planPortfolio({
+      strategy: { ...strategy, targets: { [SOL]: 0, [USDC]: 1 } },
+      holdings: [
+        {
+          mint: SOL,
+          balanceAtomic: 1_000_000_000n,
+          valueQuoteAtomic: 100_000_000n,
+        },
+      ],
+      reserveLamports: 50_000_000n,
+      maxTradeAmountAtomic: 0n,
+    });
+    expect(uncapped.sells[0]?.amountAtomic).toBe(950_000_000n);
+  });
+
+  test("scales buys down to the available quote", () => {
+    expect(
+      scalePortfolioBuys(
+        [
+          { mint: SOL, spendQuoteAtomic: 300n },
+          { mint: JUP, spendQuoteAtomic: 100n },
+        ],
+        200n,
+      ),
+    ).toEqual([
+      { mint: SOL, spendQuoteAtomic: 150n },
+      { mint: JUP, spendQuoteAtomic: 50n },
+    ]);
+  });
+
+  test("validateStrategy requires weights summing to 1", () => {
+    expect(() => validateStrategy(strategy)).not.toThrow();
+    expect(() =>
+      validateStrategy({ ...strategy, targets: { [SOL]: 0.5, [USDC]: 0.4 } }),
+    ).toThrow("invalid-portfolio-targets-sum");
+    expect(() =>
+      validateStrategy({ ...strategy, targets: { [SOL]: 1 } }),
+    ).toThrow("invalid-portfolio-targets");
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, test } from "bun:test";
+import { normalizePolicy } from "../../apps/worker/src/policy";
+import {
+  capMicroLamports,
+  feePercentile,
+  priorityFeeParams,
+  resolvePriorityFee,
+  routeAccounts,
+  swapPriorityFeeLamports,
+} from "../../apps/worker/src/priority_fee";
+import { SolanaRpc } from "../../apps/worker/src/solana_rpc";
+import { validatePolicy } from "../../apps/worker/src/validation";
+import { FakeSolanaRpc } from "../harness/fake_rpc";
+import { serveFake } from "../harness/serve";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+function priorityFee(fee: Record<string, unknown>) {
+  const normalized = normalizePolicy({ priorityFee: fee }).priorityFee;
+  if (!normalized) throw new Error("expected a priority fee");
+  return normalized;
+}
+
+describe("worker priority fees", () => {
+  test("percentile of recent fees uses nearest rank", () => {
+    const fees = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90];
+    expect(feePercentile(fees, 75)).toBe(70);
+    expect(feePercentile(fees, 100)).toBe(90);
+    expect(feePercentile(fees, 1)).toBe(0);
+    expect(feePercentile([], 75)).toBe(0);
+  });
+
+  test("unit price is capped so a full-budget swap stays under maxLamports", () => {
+    // 1_400_000 CU at 1000 µlamports = 1400 lamports.
+    expect(capMicroLamports(5000, "1400")).toBe(1000);
+    expect(capMicroLamports(500, "1400")).toBe(500);
+    expect(capMicroLamports(5000, "0")).toBe(5000);
+  });
+
+  test("resubmissions bump the unit price and add the Jito tip", () => {
+    const fee = priorityFee({
+      mode: "static",
+      microLamports: 1000,
+      jitoTipLamports: "10000",
+    });
+    expect(priorityFeeParams(fee, 1000, 0)).toEqual({
+      computeUnitPriceMicroLamports: 1000,
+      prioritizationFeeLamports: { jitoTipLamports: 10000 },
+      dynamicComputeUnitLimit: true,
+    });
+    expect(priorityFeeParams(fee, 1000, 2).computeUnitPriceMicroLamports).toBe(
+      2250,
+    );
+    const capped = priorityFee({
+      mode: "percentile",
+      maxLamports: "2100",
+      bumpPct: 1,
+    });
+    expect(
+      priorityFeeParams(capped, 1000, 1).computeUnitPriceMicroLamports,
+    ).toBe(1500);
+  });
+
+  test("percentile mode keeps a floor under an idle fee market", async () => {
+    const server = serveFake(new FakeSolanaRpc({ prioritizationFees: [0, 0] }));
+    try {
+      const quote = {
+        inputMint: SOL,
+        outputMint: USDC,
+        inAmount: "1",
+        outAmount: "1",
+      };
+      const resolve = (fee: Record<string, unknown>) =>
+        resolvePriorityFee(
+          new SolanaRpc(server.url),
+          normalizePolicy({ priorityFee: fee }),
+          quote,
+        );
+      expect((await resolve({ mode: "percentile" })).baseMicroLamports).toBe(
+        1000,
+      );
+      expect(
+        (await resolve({ mode: "percentile", microLamports: 5000 }))
+          .baseMicroLamports,
+      ).toBe(5000);
+    } finally {
+      server.stop();
+    }
+  });
+
+  test("maxLamports mode steps up the priority level", () => {
+    const fee = priorityFee({
+      mode: "maxLamports",
+      maxLamports: "5000000",
+      priorityLevel: "medium",
+    });
+    const level = (attempt: number) => {
+      const params = priorityFeeParams(fee, 0, attempt);
+      const lamports = params.prioritizationFeeLamports;
+      return lamports && "priorityLevelWithMaxLamports" in lamports
+        ? lamports.priorityLevelWithMaxLamports
+        : null;
+    };
+    expect(level(0)).toEqual({ priorityLevel: "medium", maxLamports: 5000000 });
+    expect(level(1)?.priorityLevel).toBe("high");
+    expect(level(4)?.priorityLevel).toBe("veryHigh");
+  });
+
+  test("fee spend comes from Jupiter or the compute unit limit", () => {
+    const swap = { swapTransaction: "", lastValidBlockHeight: 1 };
+    expect(
+      swapPriorityFeeLamports(
+        { ...swap, prioritizationFeeLamports: 4200 },
+        { computeUnitPriceMicroLamports: 1 },
+      ),
+    ).toBe("4200");
+    expect(
+      swapPriorityFeeLamports(
+        { ...swap, computeUnitLimit: 200_000 },
+        {
+          computeUnitPriceMicroLamports: 1500,
+          prioritizationFeeLamports: { jitoTipLamports: 1000 },
+        },
+      ),
+    ).toBe("1300");
+    expect(swapPriorityFeeLamports(swap, {})).toBeNull();
+  });
+
+  test("route accounts are the unique pool keys", () => {
+    expect(
+      routeAccounts({
+        inputMint: SOL,
+        outputMint: USDC,
+        inAmount: "1",
+        outAmount: "1",
+        routePlan: [
+          { swapInfo: { ammKey: "PoolA" } },
+          { swapInfo: { ammKey: "PoolB" } },
+          { swapInfo: { ammKey: "PoolA" } },
+        ],
+      }),
+    ).toEqual(["PoolA", "PoolB"]);
+  });
+
+  test("policy normalization fills priority fee defaults", () => {
+    expect(normalizePolicy({}).priorityFee).toBeNull();
+    expect(priorityFee({ mode: "percentile" })).toEqual({
+      mode: "percentile",
+      microLamports: 0,
+      percentile: 75,
+      priorityLevel: "high",
+      maxLamports: "0",
+      jitoTipLamports: "0",
+      resubmitAfterSlots: 0,
+      maxResubmits: 2,
+      bumpPct: 0.5,
+    });
+  });
+
+  test("policy validation checks the priorityFee block", () => {
+    const check = (priorityFee: unknown) => () =>
+      validatePolicy({ priorityFee });
+    expect(
+      check({ mode: "percentile", percentile: 90, resubmitAfterSlots: 20 }),
+    ).not.toThrow();
+    expect(check({ mode: "auto" })).toThrow("invalid-policy-priorityFee-mode");
+    expect(check({ mode: "static" })).toThrow(
+      "invalid-policy-priorityFee-microLamports",
+    );
+    expect(check({ mode: "percentile", percentile: 0 })).toThrow(
+      "invalid-policy-priorityFee-percentile",
+    );
+    expect(check({ mode: "maxLamports", maxLamports: "0" })).toThrow(
+      "invalid-policy-priorityFee-maxLamports",
+    );
+    expect(
+      check({
+        mode: "maxLamports",
+        maxLamports: "100000",
+        jitoTipLamports: "1000",
+      }),
+    ).toThrow("invalid-policy-priorityFee-jitoTipLamports");
+  });
+});
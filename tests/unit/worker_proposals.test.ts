@@ -0,0 +1,181 @@
+import { describe, expect, test } from "bun:test";
+import { defaultAgentStrategy } from "../../apps/worker/src/defaults";
+import {
+  claimApprovedProposals,
+  createTradeProposal,
+  decideTradeProposal,
+  expireTradeProposals,
+  listTradeProposals,
+  requiresApproval,
+  settleTradeProposals,
+} from "../../apps/worker/src/proposals";
+import type { SwapRequest } from "../../apps/worker/src/strategy_sdk";
+import type { Env } from "../../apps/worker/src/types";
+import { validateStrategy } from "../../apps/worker/src/validation";
+import { createD1 } from "../harness/worker_env";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const T0 = new Date("2026-01-01T00:00:00.000Z");
+
+function propose(env: Env, amount: string, now = T0) {
+  return createTradeProposal(env, {
+    tenantId: "bot-1",
+    runId: "run-1",
+    inputMint: SOL,
+    outputMint: USDC,
+    amount,
+    reasoning: "take profit",
+    confidence: "high",
+    quote: { outAmount: "150000" },
+    valueQuoteAtomic: 150_000n,
+    ttlMinutes: 30,
+    now,
+  });
+}
+
+describe("trade proposals", () => {
+  test("approval modes gate by trade value", () => {
+    const agent = defaultAgentStrategy();
+    expect(requiresApproval(agent, 1n)).toBe(false);
+    expect(requiresApproval({ ...agent, approvalMode: "always" }, 1n)).toBe(
+      true,
+    );
+    const above = {
+      ...agent,
+      approvalMode: "above-amount" as const,
+      approvalAboveQuoteAtomic: "100000000",
+    };
+    expect(requiresApproval(above, 100_000_000n)).toBe(false);
+    expect(requiresApproval(above, 100_000_001n)).toBe(true);
+    // No route to USDC: the value is unknown, so ask.
+    expect(requiresApproval(above, null)).toBe(true);
+
+    expect(() => validateStrategy(above)).not.toThrow();
+    expect(() =>
+      validateStrategy({ ...agent, approvalMode: "above-amount" }),
+    ).toThrow("invalid-agent-approvalAboveQuoteAtomic");
+    expect(() => validateStrategy({ ...agent, approvalMode: "never" })).toThrow(
+      "invalid-agent-approvalMode",
+    );
+    expect(() => validateStrategy({ ...agent, approvalTtlMinutes: 0 })).toThrow(
+      "invalid-agent-approvalTtlMinutes",
+    );
+  });
+
+  test("a proposal is decided once and never after it expires", async () => {
+    const env = { WAITLIST_DB: createD1() } as Env;
+    const first = await propose(env, "1000");
+    const second = await propose(env, "2000");
+    expect(first.expiresAt).toBe("2026-01-01T00:30:00.000Z");
+
+    const approved = await decideTradeProposal(
+      env,
+      "bot-1",
+      first.id,
+      "approved",
+      "user-1",
+      new Date("2026-01-01T00:10:00.000Z"),
+    );
+    expect(approved).toMatchObject({ status: "approved", decidedBy: "user-1" });
+    await expect(
+      decideTradeProposal(env, "bot-1", first.id, "rejected", "user-1", T0),
+    ).rejects.toThrow("proposal-not-pending");
+    await expect(
+      decideTradeProposal(
+        env,
+        "bot-1",
+        second.id,
+        "approved",
+        "user-1",
+        new Date("2026-01-01T00:31:00.000Z"),
+      ),
+    ).rejects.toThrow("proposal-expired");
+    await expect(
+      decideTradeProposal(env, "bot-2", first.id, "approved", "user-1", T0),
+    ).rejects.toThrow("not-found");
+
+    const expired = await expireTradeProposals(
+      env,
+      "bot-1",
+      new Date("2026-01-01T00:31:00.000Z"),
+    );
+    expect(expired.map((p) => p.id)).toEqual([second.id]);
+
+    const claimed = await claimApprovedProposals(env, "bot-1", "run-2");
+    expect(claimed.map((p) => p.id)).toEqual([first.id]);
+    expect(await claimApprovedProposals(env, "bot-1", "run-3")).toEqual([]);
+
+    const pending = await listTradeProposals(env, "bot-1", {
+      status: "pending",
+    });
+    expect(pending).toEqual([]);
+  });
+
+  test("settling executes approved proposals and reports expired ones", async () => {
+    const env = { WAITLIST_DB: createD1() } as Env;
+    const executed = await propose(env, "1000");
+    const rejected = await propose(
+      env,
+      "2000",
+      new Date("2026-01-01T00:01:00.000Z"),
+    );
+    const stale = await propose(env, "3000");
+    for (const proposal of [executed, rejected]) {
+      await decideTradeProposal(
+        env,
+        "bot-1",
+        proposal.id,
+        "approved",
+        "user-1",
+        T0,
+      );
+    }
+
+    const requests: SwapRequest[] = [];
+    const result = await settleTradeProposals({
+      env,
+      tenantId: "bot-1",
+      runId: "run-2",
+      log: () => {},
+      // The second swap is rejected by policy on re-quote.
+      executeSwap: async (request) => {
+        requests.push(request);
+        return request.amount === "1000"
+          ? { status: "dry_run", inAmount: "1000", outAmount: "150" }
+          : null;
+      },
+      now: new Date("2026-01-01T01:00:00.000Z"),
+    });
+
+    expect(result.expired.map((p) => p.id)).toEqual([stale.id]);
+    expect(requests).toEqual([
+      {
+        side: "agent_swap",
+        inputMint: SOL,
+        outputMint: USDC,
+        amount: "1000",
+        reasoning: "take profit",
+      },
+      {
+        side: "agent_swap",
+        inputMint: SOL,
+        outputMint: USDC,
+        amount: "2000",
+        reasoning: "take profit",
+      },
+    ]);
+    const stored = await listTradeProposals(env, "bot-1");
+    const byId = new Map(stored.map((p) => [p.id, p]));
+    expect(byId.get(executed.id)).toMatchObject({
+      status: "executed",
+      executedRunId: "run-2",
+      result: { status: "dry_run", inAmount: "1000", outAmount: "150" },
+    });
+    expect(byId.get(rejected.id)).toMatchObject({
+      status: "failed",
+      result: { error: "policy-rejected" },
+    });
+    expect(byId.get(stale.id)?.status).toBe("expired");
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import { countConsecutiveFailures } from "../../apps/worker/src/circuit_breaker";
+import {
+  resolveTradeStatus,
+  tradeFill,
+  tradeStatusFromConfirmation,
+  walletNativeDelta,
+} from "../../apps/worker/src/reconcile";
+import type { TransactionMeta } from "../../apps/worker/src/solana_rpc";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const WALLET = "Wallet111111111111111111111111111111111111";
+const now = new Date("2026-03-02T12:00:00.000Z");
+
+function meta(overrides: Partial<TransactionMeta> = {}): TransactionMeta {
+  return {
+    fee: 5000n,
+    slot: 300,
+    err: null,
+    accountKeys: [WALLET, "Other11111111111111111111111111111111111111"],
+    preBalances: [2_000_000_000n, 0n],
+    postBalances: [999_995_000n, 0n],
+    preTokenBalances: [
+      {
+        accountIndex: 3,
+        mint: USDC,
+        owner: WALLET,
+        uiTokenAmount: { amount: "1000000" },
+      },
+    ],
+    postTokenBalances: [
+      {
+        accountIndex: 3,
+        mint: USDC,
+        owner: WALLET,
+        uiTokenAmount: { amount: "151000000" },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("worker trade reconciliation", () => {
+  test("a confirmation timeout leaves the swap pending", () => {
+    expect(tradeStatusFromConfirmation({ ok: true, status: "finalized" })).toBe(
+      "finalized",
+    );
+    expect(tradeStatusFromConfirmation({ ok: false, status: "timeout" })).toBe(
+      "sent",
+    );
+    expect(
+      tradeStatusFromConfirmation({ ok: false, status: "confirmed" }),
+    ).toBe("error");
+  });
+
+  test("signature statuses resolve pending swaps", () => {
+    const base = {
+      blockHeight: 1000,
+      lastValidBlockHeight: 1100,
+      createdAt: "2026-03-02 11:59:00",
+      now,
+    };
+    expect(
+      resolveTradeStatus({
+        ...base,
+        status: { slot: 300, confirmationStatus: "confirmed" },
+      }),
+    ).toBe("confirmed");
+    expect(
+      resolveTradeStatus({
+        ...base,
+        status: {
+          confirmationStatus: "confirmed",
+          err: { InstructionError: 1 },
+        },
+      }),
+    ).toBe("error");
+    expect(
+      resolveTradeStatus({
+        ...base,
+        status: { confirmationStatus: "processed" },
+      }),
+    ).toBeNull();
+    expect(resolveTradeStatus({ ...base, status: null })).toBeNull();
+  });
+
+  test("unseen swaps expire past their last valid block height", () => {
+    const base = { status: null, createdAt: "2026-03-02 11:59:00", now };
+    expect(
+      resolveTradeStatus({
+        ...base,
+        blockHeight: 1101,
+        lastValidBlockHeight: 1100,
+      }),
+    ).toBe("expired");
+    expect(
+      resolveTradeStatus({
+        ...base,
+        blockHeight: null,
+        lastValidBlockHeight: 1100,
+      }),
+    ).toBeNull();
+    // Without a recorded block height, swaps expire by age.
+    expect(
+      resolveTradeStatus({
+        ...base,
+        blockHeight: null,
+        lastValidBlockHeight: null,
+      }),
+    ).toBeNull();
+    expect(
+      resolveTradeStatus({
+        ...base,
+        createdAt: "2026-03-02 11:50:00",
+        blockHeight: null,
+        lastValidBlockHeight: null,
+      }),
+    ).toBe("expired");
+  });
+
+  test("fills come from the wallet's balance changes", () => {
+    // 1 SOL in (plus the fee), 150 USDC out.
+    expect(walletNativeDelta(meta(), WALLET)).toBe(-1_000_000_000n);
+    expect(tradeFill(meta(), WALLET, SOL, USDC)).toEqual({
+      filledInAmount: "1000000000",
+      filledOutAmount: "150000000",
+    });
+    // USDC -> SOL: the fee is added back to the SOL received.
+    const buy = meta({
+      preBalances: [1_000_000_000n, 0n],
+      postBalances: [1_499_995_000n, 0n],
+      preTokenBalances: meta().postTokenBalances,
+      postTokenBalances: meta().preTokenBalances,
+    });
+    expect(tradeFill(buy, WALLET, USDC, SOL)).toEqual({
+      filledInAmount: "150000000",
+      filledOutAmount: "500000000",
+    });
+    expect(walletNativeDelta(meta(), "Unknown")).toBeNull();
+  });
+
+  test("failed on-chain swaps have no fill", () => {
+    const failed = meta({
+      err: { InstructionError: [2, { Custom: 6001 }] },
+      postBalances: [1_999_995_000n, 0n],
+      postTokenBalances: meta().preTokenBalances,
+    });
+    expect(tradeFill(failed, WALLET, SOL, USDC)).toEqual({
+      filledInAmount: null,
+      filledOutAmount: null,
+    });
+  });
+
+  test("expired swaps trip the failure breaker; pending ones are skipped", () => {
+    expect(countConsecutiveFailures(["sent", "expired", "error"])).toBe(2);
+    expect(countConsecutiveFailures(["processed", "confirmed", "error"])).toBe(
+      0,
+    );
+  });
+});
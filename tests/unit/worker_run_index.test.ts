@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { listRuns, summarizeRun } from "../../apps/worker/src/run_index";
+import { startTickRun } from "../../apps/worker/src/tick_run";
+import type { Env } from "../../apps/worker/src/types";
+import { createD1 } from "../harness/worker_env";
+
+function line(
+  level: string,
+  message: string,
+  meta?: Record<string, unknown>,
+): string {
+  return JSON.stringify({
+    ts: "2026-03-01T00:00:00.000Z",
+    level,
+    message,
+    ...(meta ?? {}),
+  });
+}
+
+describe("worker run index", () => {
+  test("ticks that return before tick start are skipped", () => {
+    expect(summarizeRun([line("warn", "kill switch enabled")], null)).toEqual({
+      status: "skipped",
+      strategy: null,
+      outcome: "kill switch enabled",
+    });
+  });
+
+  test("outcome is the last non-debug message", () => {
+    expect(
+      summarizeRun(
+        [
+          line("info", "tick start", { strategy: "dca" }),
+          line("info", "dca not due yet"),
+          line("debug", "noise"),
+        ],
+        null,
+      ),
+    ).toEqual({ status: "ok", strategy: "dca", outcome: "dca not due yet" });
+  });
+
+  test("agent ticks report their finish reason", () => {
+    const summary = summarizeRun(
+      [
+        line("info", "tick start", { strategy: "agent" }),
+        line("info", "agent tool call", { name: "market_snapshot" }),
+        line("info", "agent tick end", { finishReason: "control_finish" }),
+      ],
+      null,
+    );
+    expect(summary.outcome).toBe("agent: control_finish");
+  });
+
+  test("errors win and malformed lines are ignored", () => {
+    expect(
+      summarizeRun(
+        ["not json", line("info", "tick start", { strategy: "rebalance" })],
+        "rpc-timeout",
+      ),
+    ).toEqual({
+      status: "error",
+      strategy: "rebalance",
+      outcome: "rpc-timeout",
+    });
+  });
+
+  test("no-op ticks are logged but not indexed and old runs are pruned", async () => {
+    const written: string[] = [];
+    const env = {
+      WAITLIST_DB: createD1(),
+      LOGS_BUCKET: {
+        put: async (key: string) => {
+          written.push(key);
+        },
+      },
+    } as unknown as Env;
+    await env.WAITLIST_DB.prepare(
+      "INSERT INTO run_index (tenant_id, run_id, reason, status, log_key, started_at, finished_at, duration_ms) VALUES ('bot-1', 'old', 'cron', 'ok', 'k', '2000-01-01T00:00:00.000Z', '2000-01-01T00:00:00.000Z', 0)",
+    ).run();
+
+    const skipped = startTickRun(env, "bot-1", "cron");
+    skipped.log("warn", "tick skipped (lock held)");
+    await skipped.finish(null);
+    expect(written).toEqual([skipped.logKey]);
+    expect((await listRuns(env, "bot-1")).runs.map((r) => r.runId)).toEqual([
+      "old",
+    ]);
+
+    const ran = startTickRun(env, "bot-1", "cron");
+    ran.log("info", "tick start", { strategy: "dca" });
+    await ran.finish(null);
+    expect((await listRuns(env, "bot-1")).runs.map((r) => r.runId)).toEqual([
+      ran.runId,
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import {
+  base58Decode,
+  base58Encode,
+  base64ToBytes,
+  bytesToBase64,
+  encryptLocalKeypair,
+  generateLocalKeypair,
+} from "../../apps/worker/src/local_signer";
+import { createSigner } from "../../apps/worker/src/signer";
+import type { Env } from "../../apps/worker/src/types";
+
+const SECRET = bytesToBase64(new Uint8Array(32).fill(7));
+
+function env(overrides: Partial<Env> = {}): Env {
+  return { LOCAL_SIGNER_SECRET: SECRET, ...overrides } as Env;
+}
+
+// Minimal v0 wire transaction: one signature slot, header [1, 0, 1],
+// account keys [signer, program], blockhash, no instructions, no lookups.
+function buildWireTransaction(signer: Uint8Array): {
+  wire: string;
+  message: Uint8Array;
+} {
+  const message = new Uint8Array([
+    0x80,
+    1,
+    0,
+    1,
+    2,
+    ...signer,
+    ...new Uint8Array(32).fill(9),
+    ...new Uint8Array(32).fill(3),
+    0,
+    0,
+  ]);
+  const wire = new Uint8Array([1, ...new Uint8Array(64), ...message]);
+  return { wire: bytesToBase64(wire), message };
+}
+
+describe("worker signer", () => {
+  test("base58 round-trips and keeps leading zeros", () => {
+    expect(base58Encode(new Uint8Array(32))).toBe(
+      "11111111111111111111111111111111",
+    );
+    const usdc = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+    expect(base58Encode(base58Decode(usdc))).toBe(usdc);
+  });
+
+  test("local signer signs the matching signature slot", async () => {
+    const keypair = await generateLocalKeypair();
+    const encrypted = await encryptLocalKeypair(keypair, SECRET);
+    expect(encrypted.startsWith("v1:")).toBe(true);
+
+    const signer = createSigner(env(), {
+      signerType: "local",
+      signerSecret: encrypted,
+    });
+    expect(await signer.getAddress()).toBe(base58Encode(keypair.publicKey));
+
+    const { wire, message } = buildWireTransaction(keypair.publicKey);
+    const signed = base64ToBytes(await signer.signTransaction(wire));
+    const signature = signed.slice(1, 65);
+    expect(signed.slice(65)).toEqual(message);
+
+    const publicKey = await crypto.subtle.importKey(
+      "raw",
+      keypair.publicKey,
+      { name: "Ed25519" },
+      false,
+      ["verify"],
+    );
+    expect(
+      await crypto.subtle.verify(
+        { name: "Ed25519" },
+        publicKey,
+        signature,
+        message,
+      ),
+    ).toBe(true);
+  });
+
+  test("local signer refuses transactions it is not a signer for", async () => {
+    const keypair = await generateLocalKeypair();
+    const other = await generateLocalKeypair();
+    const signer = createSigner(env(), {
+      signerType: "local",
+      signerSecret: await encryptLocalKeypair(keypair, SECRET),
+    });
+    const { wire } = buildWireTransaction(other.publicKey);
+    await expect(signer.signTransaction(wire)).rejects.toThrow(
+      "local-signer-not-a-required-signer",
+    );
+  });
+
+  test("local keypairs cannot be decrypted with another secret", async () => {
+    const keypair = await generateLocalKeypair();
+    const signer = createSigner(
+      env({ LOCAL_SIGNER_SECRET: bytesToBase64(new Uint8Array(32).fill(1)) }),
+      {
+        signerType: "local",
+        signerSecret: await encryptLocalKeypair(keypair, SECRET),
+      },
+    );
+    await expect(signer.getAddress()).rejects.toThrow(
+      "local-signer-decrypt-failed",
+    );
+  });
+
+  test("remote signer posts the transaction to the callback", async () => {
+    let received: Record<string, unknown> | null = null;
+    let auth: string | null = null;
+    const server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        auth = req.headers.get("authorization");
+        received = (await req.json()) as Record<string, unknown>;
+        return Response.json({ signedTransaction: "c2lnbmVk" });
+      },
+    });
+    try {
+      const signer = createSigner(
+        env({
+          REMOTE_SIGNER_URL: `http://127.0.0.1:${server.port}/sign`,
+          REMOTE_SIGNER_TOKEN: "t0ken",
+        }),
+        {
+          signerType: "remote",
+          walletAddress: "Wallet111",
+          userId: "user-1",
+          botId: "bot-1",
+        },
+      );
+      expect(await signer.getAddress()).toBe("Wallet111");
+      expect(await signer.signTransaction("dHg=")).toBe("c2lnbmVk");
+      expect(received).toEqual({
+        address: "Wallet111",
+        transaction: "dHg=",
+        encoding: "base64",
+        userId: "user-1",
+        botId: "bot-1",
+      });
+      expect(auth).toBe("Bearer t0ken");
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("createSigner validates the signer reference", () => {
+    expect(() => createSigner(env(), { signerType: "privy" })).toThrow(
+      "missing-privy-wallet-id",
+    );
+    expect(() => createSigner(env(), { signerType: "remote" })).toThrow(
+      "missing-remote-signer-address",
+    );
+    expect(() => createSigner(env(), { signerType: "ledger" })).toThrow(
+      "invalid-signer-type",
+    );
+  });
+});
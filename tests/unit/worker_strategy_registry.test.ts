@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { getLoopState } from "../../apps/worker/src/state";
+import {
+  listStrategies,
+  registerStrategy,
+} from "../../apps/worker/src/strategies";
+import type { StrategyConfig } from "../../apps/worker/src/types";
+import { validateStrategy } from "../../apps/worker/src/validation";
+import "../harness/flip_strategy";
+import { createWorkerHarness, type WorkerHarness } from "../harness/worker_env";
+
+// test_flip is registered here by the import above and in the harness worker
+// through `modules`.
+const FLIP_STRATEGY = join(import.meta.dir, "../harness/flip_strategy.ts");
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+let harness: WorkerHarness | null = null;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = null;
+});
+
+describe("strategy registry", () => {
+  test("built-in strategies ship a schema and a valid default config", () => {
+    const strategies = listStrategies();
+    expect(strategies.map((s) => s.type)).toEqual(
+      expect.arrayContaining([
+        "noop",
+        "dca",
+        "rebalance",
+        "triggers",
+        "portfolio",
+        "agent",
+      ]),
+    );
+    for (const strategy of strategies) {
+      expect(strategy.configSchema.properties?.type).toEqual({
+        const: strategy.type,
+      });
+      expect(strategy.defaultConfig.type).toBe(strategy.type);
+      expect(() => validateStrategy(strategy.defaultConfig)).not.toThrow();
+    }
+  });
+
+  test("validation goes through the registered validator", () => {
+    expect(() => validateStrategy({ type: "grid" })).toThrow(
+      "invalid-strategy-type",
+    );
+    expect(() => validateStrategy({ type: "test_flip" })).toThrow(
+      "invalid-test_flip-amount",
+    );
+    expect(() =>
+      validateStrategy({ type: "dca", inputMint: SOL, outputMint: USDC }),
+    ).toThrow("invalid-dca-amount");
+  });
+
+  test("registration rejects reserved and duplicate types", () => {
+    const base = {
+      label: "x",
+      description: "x",
+      configSchema: {},
+      validate: () => {},
+      initialState: () => null,
+      tick: async () => {},
+    };
+    expect(() =>
+      registerStrategy({
+        ...base,
+        type: "risk",
+        defaultConfig: () => ({ type: "risk" }),
+      }),
+    ).toThrow("strategy-type-reserved");
+    expect(() =>
+      registerStrategy({
+        ...base,
+        type: "dca",
+        defaultConfig: () => ({ type: "dca" }),
+      }),
+    ).toThrow("strategy-already-registered");
+  });
+
+  test("a registered strategy ticks with its state and the swap executor", async () => {
+    harness = await createWorkerHarness({
+      modules: [FLIP_STRATEGY],
+      jupiter: {
+        rates: { [`${SOL}->${USDC}`]: 0.15, [`${USDC}->${SOL}`]: 6.6 },
+      },
+    });
+    const bot = await harness.createBot({
+      strategy: {
+        type: "test_flip",
+        amount: "1000000",
+      } as unknown as StrategyConfig,
+      policy: { dryRun: true },
+    });
+    await bot.tick();
+    await bot.tick();
+
+    const state = await getLoopState(harness.env, bot.botId);
+    expect((state as Record<string, unknown>).test_flip).toEqual({ ticks: 2 });
+    const trades = await harness.env.WAITLIST_DB.prepare(
+      "SELECT side, status FROM trade_index WHERE tenant_id = ?1 ORDER BY id",
+    )
+      .bind(bot.botId)
+      .all();
+    expect(trades.results).toEqual([
+      { side: "sell", status: "dry_run" },
+      { side: "buy", status: "dry_run" },
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { setUserProfile } from "../../apps/worker/src/bots_db";
+import { getLoopConfig } from "../../apps/worker/src/config";
+import {
+  checkPolicyLimits,
+  enforcePolicy,
+  normalizePolicy,
+} from "../../apps/worker/src/policy";
+import { recordPolicyCounters } from "../../apps/worker/src/policy_counters";
+import {
+  applySuitabilityCeilings,
+  assertPolicyWithinCeilings,
+  deriveSuitabilityCeilings,
+  type FinancialProfile,
+  PROFILE_OPTIONS,
+  validateFinancialProfile,
+} from "../../apps/worker/src/suitability";
+import type { DcaStrategy } from "../../apps/worker/src/types";
+import { createWorkerHarness, type WorkerHarness } from "../harness/worker_env";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const BONK = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+
+const cautious: FinancialProfile = {
+  annualIncome: "$25,000 – $50,000",
+  liquidNetWorth: "Less than $10,000",
+  investmentExperience: "Beginner",
+  riskTolerance: "Aggressive",
+  investmentGoal: "Capital preservation",
+  cryptoExperience: "Intermediate",
+  timeHorizon: "1 – 3 years",
+};
+
+const aggressive: FinancialProfile = {
+  ...cautious,
+  liquidNetWorth: "More than $500,000",
+  riskTolerance: "Very aggressive",
+  investmentGoal: "Speculation",
+  cryptoExperience: "Advanced",
+};
+
+let harness: WorkerHarness | null = null;
+
+afterEach(async () => {
+  await harness?.close();
+  harness = null;
+});
+
+describe("suitability", () => {
+  test("profiles are validated against the portal's options", () => {
+    expect(validateFinancialProfile(cautious)).toEqual(cautious);
+    expect(() => validateFinancialProfile(null)).toThrow("invalid-profile");
+    expect(() =>
+      validateFinancialProfile({ ...cautious, riskTolerance: "YOLO" }),
+    ).toThrow("invalid-profile-riskTolerance");
+    expect(() => validateFinancialProfile({ ...cautious, ssn: "x" })).toThrow(
+      "invalid-profile-ssn",
+    );
+  });
+
+  test("the portal offers the worker's profile options", () => {
+    const page = readFileSync(
+      join(import.meta.dir, "../../apps/portal/app/app/page.tsx"),
+      "utf8",
+    );
+    for (const [key, options] of Object.entries(PROFILE_OPTIONS)) {
+      const match = page.match(
+        new RegExp(`key: "${key}",[\\s\\S]*?options: (\\[[\\s\\S]*?\\])`),
+      );
+      expect(match).not.toBeNull();
+      const portal = JSON.parse(
+        (match?.[1] ?? "[]").replace(/,(\s*)\]$/, "$1]"),
+      );
+      expect(portal).toEqual([...options]);
+    }
+  });
+
+  test("ceilings follow the most cautious answer", () => {
+    // Aggressive risk tolerance, capped by the capital preservation goal.
+    expect(deriveSuitabilityCeilings(cautious)).toEqual({
+      riskLevel: 1,
+      maxTradeQuoteAtomic: "40000000",
+      maxPriceImpactPct: 0.01,
+      maxTradesPerDay: 4,
+      allowedTier: "bluechip",
+    });
+    expect(deriveSuitabilityCeilings(aggressive)).toEqual({
+      riskLevel: 4,
+      maxTradeQuoteAtomic: "10000000000",
+      maxPriceImpactPct: 0.05,
+      maxTradesPerDay: 32,
+      allowedTier: "any-screened",
+    });
+  });
+
+  test("the clamped policy rejects unsuitable quotes", async () => {
+    const ceilings = deriveSuitabilityCeilings(cautious);
+    const policy = applySuitabilityCeilings(
+      normalizePolicy({ maxPriceImpactPct: 0.05, maxTradesPerDay: 10 }),
+      ceilings,
+    );
+    expect(policy.maxPriceImpactPct).toBe(0.01);
+    expect(policy.maxTradesPerDay).toBe(4);
+    expect(policy.maxTradeQuoteAtomic).toBe("40000000");
+
+    const quote = {
+      inputMint: USDC,
+      outputMint: SOL,
+      inAmount: "40000000",
+      outAmount: "266666666",
+      priceImpactPct: "0.001",
+    };
+    await expect(enforcePolicy(policy, quote)).resolves.toBeUndefined();
+    await expect(
+      enforcePolicy(policy, { ...quote, inAmount: "40000001" }),
+    ).rejects.toThrow("trade-value-exceeds-cap");
+    await expect(
+      enforcePolicy(policy, { ...quote, outputMint: BONK, swapUsdValue: "1" }),
+    ).rejects.toThrow("mint-not-suitable");
+
+    const open = applySuitabilityCeilings(
+      normalizePolicy({}),
+      deriveSuitabilityCeilings(aggressive),
+    );
+    // Neither side is USDC: the value comes from Jupiter's estimate.
+    const bonk = { ...quote, inputMint: SOL, outputMint: BONK };
+    const screens = new Map([
+      [
+        BONK,
+        {
+          mint: BONK,
+          tier: "any-screened" as const,
+          reason: null,
+          program: "spl-token",
+          mintAuthority: null,
+          freezeAuthority: null,
+          extensions: [],
+          topHoldersPct: 0.4,
+          liquidityUsd: 50_000,
+          screenedAt: "2026-01-01T00:00:00.000Z",
+        },
+      ],
+    ]);
+    expect(() =>
+      checkPolicyLimits(open, { ...bonk, swapUsdValue: "10000.01" }, screens),
+    ).toThrow("trade-value-exceeds-cap");
+    expect(() => checkPolicyLimits(open, bonk, screens)).toThrow(
+      "trade-value-unknown",
+    );
+    // Unscreened, the mint is not suitable at any tier.
+    expect(() => checkPolicyLimits(open, bonk)).toThrow("mint-not-suitable");
+  });
+
+  test("config writes cannot exceed the ceilings", async () => {
+    const ceilings = deriveSuitabilityCeilings(cautious);
+    expect(() =>
+      assertPolicyWithinCeilings(
+        { allowedMints: [SOL, USDC], maxTradeQuoteAtomic: "0" },
+        ceilings,
+      ),
+    ).not.toThrow();
+    expect(() =>
+      assertPolicyWithinCeilings({ maxTradesPerDay: 5 }, ceilings),
+    ).toThrow("invalid-policy-maxTradesPerDay-exceeds-suitability");
+    expect(() =>
+      assertPolicyWithinCeilings({ allowedMints: ["verified"] }, ceilings),
+    ).toThrow("invalid-policy-allowedMints-exceeds-suitability");
+    expect(() =>
+      assertPolicyWithinCeilings(
+        { allowedMints: ["verified", BONK] },
+        deriveSuitabilityCeilings({ ...cautious, investmentGoal: "Growth" }),
+      ),
+    ).not.toThrow();
+
+    harness = await createWorkerHarness();
+    const bot = await harness.createBot({
+      strategy: { type: "noop" },
+      enabled: false,
+    });
+    await setUserProfile(harness.env, "user-1", cautious);
+    const res = await bot.fetch("/config", {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ policy: { allowedMints: [SOL, BONK] } }),
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      ok: false,
+      error: "invalid-policy-allowedMints-exceeds-suitability",
+    });
+  });
+
+  test("start needs an allowlist instead of filling one in", async () => {
+    harness = await createWorkerHarness();
+    const bot = await harness.createBot({
+      strategy: { type: "noop" },
+      policy: { allowedMints: [] },
+      enabled: false,
+    });
+    const send = (path: string, method: string, body?: unknown) =>
+      bot.fetch(path, {
+        method,
+        headers: { "content-type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+    const rejected = await send("/start", "POST");
+    expect(rejected.status).toBe(400);
+    expect(await rejected.json()).toEqual({
+      ok: false,
+      error: "missing-policy-allowedMints",
+    });
+    expect((await getLoopConfig(harness.env, bot.botId)).enabled).toBe(false);
+
+    await send("/config", "PATCH", { policy: { allowedMints: [SOL, USDC] } });
+    const started = await send("/start", "POST");
+    expect(started.status).toBe(200);
+    const config = await getLoopConfig(harness.env, bot.botId);
+    expect(config.enabled).toBe(true);
+    expect(config.policy?.allowedMints).toEqual([SOL, USDC]);
+  });
+
+  test("a bot tick runs under its owner's ceilings", async () => {
+    harness = await createWorkerHarness({
+      jupiter: { rates: { [`${SOL}->${USDC}`]: 0.15 } },
+    });
+    const dca: DcaStrategy = {
+      type: "dca",
+      inputMint: SOL,
+      outputMint: USDC,
+      // 1 SOL is 150 USDC, above the 40 USDC ceiling.
+      amount: "1000000000",
+      everyMinutes: 60,
+    };
+    const bot = await harness.createBot({ strategy: dca });
+    await setUserProfile(harness.env, "user-1", cautious);
+    await bot.tick();
+    expect(harness.rpc.callCount("sendTransaction")).toBe(0);
+    const row = await harness.env.WAITLIST_DB.prepare(
+      "SELECT last_error FROM bots WHERE id = ?1",
+    )
+      .bind(bot.botId)
+      .first();
+    expect(row).toEqual({ last_error: "trade-value-exceeds-cap" });
+
+    // Four swaps sent today already: the tick stops before the strategy
+    // runs. Dry runs never reach the chain and do not count.
+    const capped = await harness.createBot({
+      strategy: { ...dca, amount: "100000000" },
+    });
+    await setUserProfile(harness.env, "user-2", cautious);
+    for (let i = 0; i < 4; i++) {
+      await harness.env.WAITLIST_DB.prepare(
+        "INSERT INTO trade_index (tenant_id, run_id, venue, market, side, status) VALUES (?1, 'earlier', 'jupiter', 'x', 'buy', 'dry_run')",
+      )
+        .bind(capped.botId)
+        .run();
+    }
+    await capped.tick();
+    expect(harness.rpc.callCount("sendTransaction")).toBe(1);
+
+    const limited = await harness.createBot({
+      strategy: { ...dca, amount: "100000000" },
+    });
+    await setUserProfile(harness.env, "user-3", cautious);
+    for (let i = 0; i < 4; i++) {
+      await recordPolicyCounters(harness.env, limited.botId, {
+        inputMint: SOL,
+        inAmount: "100000000",
+      });
+    }
+    await limited.tick();
+    expect(harness.rpc.callCount("sendTransaction")).toBe(1);
+  });
+});
@@ -0,0 +1,200 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { enforcePolicy, normalizePolicy } from "../../apps/worker/src/policy";
+import { SolanaRpc } from "../../apps/worker/src/solana_rpc";
+import { TokenScreener } from "../../apps/worker/src/token_safety";
+import type { DcaStrategy, Env } from "../../apps/worker/src/types";
+import type { LiquidityPair } from "../../src/market/index";
+import { type FakeMint, FakeSolanaRpc } from "../harness/fake_rpc";
+import { type FakeServer, serveFake } from "../harness/serve";
+import {
+  createD1,
+  createWorkerHarness,
+  type WorkerHarness,
+} from "../harness/worker_env";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const DEEP = "HZ1JovNiVvGrGNiiYvEozEVgZ58xaU3RKwX8eACQBCt3";
+const THIN = "4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R";
+const SHALLOW = "orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE";
+const MINTABLE = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+const FEE = "EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm";
+const WHALE = "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr";
+const AUTHORITY = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+
+const MINTS: Record<string, FakeMint> = {
+  [DEEP]: { supply: "1000", largestAccounts: ["100", "100"] },
+  [THIN]: { supply: "1000", largestAccounts: ["400"] },
+  [SHALLOW]: { supply: "1000", largestAccounts: ["100"] },
+  [MINTABLE]: { supply: "1000", mintAuthority: AUTHORITY },
+  [FEE]: {
+    program: "spl-token-2022",
+    supply: "1000",
+    extensions: [
+      {
+        extension: "transferFeeConfig",
+        state: { newerTransferFee: { transferFeeBasisPoints: 0 } },
+      },
+    ],
+  },
+  [WHALE]: { supply: "1000", largestAccounts: ["450", "100"] },
+};
+
+const PAIRS: LiquidityPair[] = [
+  { ammId: "pool-deep", liquidity: 300_000, baseMint: DEEP, quoteMint: SOL },
+  { ammId: "pool-thin", liquidity: 40_000, baseMint: THIN, quoteMint: USDC },
+  { ammId: "pool-shallow", liquidity: 5_000, baseMint: SHALLOW },
+];
+
+let servers: FakeServer[] = [];
+let harness: WorkerHarness | null = null;
+
+afterEach(async () => {
+  for (const server of servers) server.stop();
+  servers = [];
+  await harness?.close();
+  harness = null;
+});
+
+function setup() {
+  const fake = new FakeSolanaRpc({ mints: MINTS });
+  const server = serveFake(fake);
+  servers.push(server);
+  const env = { WAITLIST_DB: createD1() } as Env;
+  let pairFetches = 0;
+  let now = new Date("2026-01-01T00:00:00.000Z");
+  const screener = () =>
+    new TokenScreener(env, new SolanaRpc(server.url), {
+      fetchPairs: async () => {
+        pairFetches += 1;
+        return PAIRS;
+      },
+      now: () => now,
+    });
+  return {
+    fake,
+    env,
+    screener,
+    pairFetches: () => pairFetches,
+    advance: (ms: number) => {
+      now = new Date(now.getTime() + ms);
+    },
+  };
+}
+
+describe("token safety", () => {
+  test("screening sorts mints into tiers or a rejection", async () => {
+    const { fake, screener, pairFetches } = setup();
+    const screens = screener();
+
+    expect((await screens.screen(SOL)).tier).toBe("bluechip");
+    expect(fake.callCount("getAccountInfo")).toBe(0);
+
+    expect(await screens.screen(DEEP)).toMatchObject({
+      tier: "verified",
+      reason: null,
+      program: "spl-token",
+      topHoldersPct: 0.2,
+      liquidityUsd: 300_000,
+    });
+    expect(await screens.screen(THIN)).toMatchObject({
+      tier: "any-screened",
+      topHoldersPct: 0.4,
+      liquidityUsd: 40_000,
+    });
+    const reasons = await Promise.all(
+      [SHALLOW, MINTABLE, FEE, WHALE, AUTHORITY].map(
+        async (mint) => (await screens.screen(mint)).reason,
+      ),
+    );
+    expect(reasons).toEqual([
+      "token-low-liquidity",
+      "token-mint-authority",
+      "token-transfer-fee",
+      "token-holder-concentration",
+      // A wallet, not a mint.
+      "token-not-found",
+    ]);
+    expect(pairFetches()).toBe(1);
+  });
+
+  test("screens are cached until they go stale", async () => {
+    const { fake, screener, advance } = setup();
+    await screener().screen(DEEP);
+    await screener().screen(DEEP);
+    expect(fake.callCount("getAccountInfo")).toBe(1);
+
+    // A later rug: the mint authority is back.
+    fake.mints[DEEP] = { ...MINTS[DEEP], mintAuthority: AUTHORITY };
+    advance(6 * 60 * 60 * 1000 + 1);
+    expect((await screener().screen(DEEP)).reason).toBe("token-mint-authority");
+    expect(fake.callCount("getAccountInfo")).toBe(2);
+  });
+
+  test("policies allow tiers and reject failed screens", async () => {
+    const { screener } = setup();
+    const quote = {
+      inputMint: SOL,
+      outputMint: DEEP,
+      inAmount: "1000000",
+      outAmount: "1000",
+      priceImpactPct: "0",
+    };
+    const verified = {
+      ...normalizePolicy({ allowedMints: ["verified"] }),
+      tokenScreener: screener(),
+    };
+    await expect(enforcePolicy(verified, quote)).resolves.toBeUndefined();
+    await expect(
+      enforcePolicy(verified, { ...quote, outputMint: THIN }),
+    ).rejects.toThrow("mint-not-allowed");
+    await expect(
+      enforcePolicy(verified, { ...quote, outputMint: WHALE }),
+    ).rejects.toThrow("token-holder-concentration");
+
+    // Without an allowlist, the output mint is still screened.
+    const open = { ...normalizePolicy({}), tokenScreener: screener() };
+    await expect(
+      enforcePolicy(open, { ...quote, outputMint: FEE }),
+    ).rejects.toThrow("token-transfer-fee");
+    // Selling out of a token is not screened.
+    await expect(
+      enforcePolicy(open, { ...quote, inputMint: FEE, outputMint: SOL }),
+    ).resolves.toBeUndefined();
+
+    // Without a screener only the bluechip list satisfies a tier.
+    const unscreened = normalizePolicy({ allowedMints: ["any-screened"] });
+    await expect(enforcePolicy(unscreened, quote)).rejects.toThrow(
+      "token-not-screened",
+    );
+    await expect(
+      enforcePolicy(unscreened, { ...quote, outputMint: USDC }),
+    ).resolves.toBeUndefined();
+  });
+
+  test("a bot tick refuses to buy a token that fails screening", async () => {
+    harness = await createWorkerHarness({
+      rpc: { mints: MINTS },
+      jupiter: { rates: { [`${SOL}->${MINTABLE}`]: 1000 } },
+    });
+    const dca: DcaStrategy = {
+      type: "dca",
+      inputMint: SOL,
+      outputMint: MINTABLE,
+      amount: "100000000",
+      everyMinutes: 60,
+    };
+    const bot = await harness.createBot({
+      strategy: dca,
+      policy: { allowedMints: ["any-screened"] },
+    });
+    await bot.tick();
+    expect(harness.rpc.callCount("sendTransaction")).toBe(0);
+    const row = await harness.env.WAITLIST_DB.prepare(
+      "SELECT last_error FROM bots WHERE id = ?1",
+    )
+      .bind(bot.botId)
+      .first();
+    expect(row).toEqual({ last_error: "token-mint-authority" });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import {
+  evaluateTriggers,
+  markTriggerFilled,
+  priceToAtomic,
+} from "../../apps/worker/src/triggers";
+import type { TriggersStrategy } from "../../apps/worker/src/types";
+import { validateStrategy } from "../../apps/worker/src/validation";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const NOW = "2026-01-01T00:00:00.000Z";
+
+function strategy(triggers: TriggersStrategy["triggers"]): TriggersStrategy {
+  return { type: "triggers", baseMint: SOL, quoteMint: USDC, triggers };
+}
+
+function evaluate(
+  s: TriggersStrategy,
+  price: string,
+  states?: Parameters<typeof evaluateTriggers>[0]["states"],
+) {
+  return evaluateTriggers({
+    strategy: s,
+    states,
+    quotePerBaseAtomic: priceToAtomic(price, 6),
+    baseBalanceAtomic: 2_000_000_000n,
+    quoteBalanceAtomic: 500_000_000n,
+    reserveLamports: 0n,
+    nowIso: NOW,
+  });
+}
+
+describe("worker triggers", () => {
+  test("priceToAtomic parses decimal prices", () => {
+    expect(priceToAtomic("120.5", 6)).toBe(120_500_000n);
+    expect(priceToAtomic("1.1234567", 6)).toBe(1_123_456n);
+    expect(() => priceToAtomic("abc", 6)).toThrow("invalid-trigger-price");
+  });
+
+  test("limit buy fires only below its price", () => {
+    const s = strategy([
+      { id: "dip", kind: "limit_buy", price: "120", amount: "50000000" },
+    ]);
+    expect(evaluate(s, "121").fire).toBeNull();
+    const fired = evaluate(s, "119.99").fire;
+    expect(fired?.side).toBe("buy");
+    expect(fired?.amountAtomic).toBe(50_000_000n);
+  });
+
+  test("take profit sells a fraction and cancels its OCO sibling", () => {
+    const s = strategy([
+      {
+        id: "tp",
+        kind: "take_profit",
+        price: "200",
+        sellPct: 0.5,
+        ocoGroup: "x",
+      },
+      { id: "sl", kind: "stop_loss", price: "100", sellPct: 1, ocoGroup: "x" },
+    ]);
+    const result = evaluate(s, "210");
+    expect(result.fire?.trigger.id).toBe("tp");
+    expect(result.fire?.amountAtomic).toBe(1_000_000_000n);
+
+    const states = markTriggerFilled(s, result.states, "tp", NOW);
+    expect(states.tp?.status).toBe("filled");
+    expect(states.sl?.status).toBe("cancelled");
+    expect(evaluate(s, "50", states).fire).toBeNull();
+  });
+
+  test("trailing stop tracks the peak across ticks", () => {
+    const s = strategy([
+      {
+        id: "trail",
+        kind: "trailing_stop",
+        trailingPct: 0.1,
+        amount: "100000000",
+      },
+    ]);
+    const first = evaluate(s, "100");
+    const second = evaluate(s, "150", first.states);
+    expect(second.states.trail?.peakPriceAtomic).toBe("150000000");
+    expect(evaluate(s, "136", second.states).fire).toBeNull();
+    expect(evaluate(s, "135", second.states).fire?.side).toBe("sell");
+  });
+
+  test("removed triggers are cancelled", () => {
+    const s = strategy([
+      { id: "a", kind: "limit_buy", price: "1", amount: "1" },
+    ]);
+    const states = evaluate(s, "100").states;
+    const next = evaluate(
+      strategy([{ id: "b", kind: "limit_buy", price: "1", amount: "1" }]),
+      "100",
+      states,
+    );
+    expect(next.states.a?.status).toBe("cancelled");
+    expect(next.states.b?.status).toBe("armed");
+  });
+
+  test("validateStrategy checks trigger fields", () => {
+    expect(() =>
+      validateStrategy(
+        strategy([{ id: "a", kind: "limit_buy", price: "1", amount: "1" }]),
+      ),
+    ).not.toThrow();
+    expect(() =>
+      validateStrategy({ type: "triggers", baseMint: SOL, quoteMint: USDC }),
+    ).toThrow("invalid-triggers-list");
+    expect(() =>
+      validateStrategy(strategy([{ id: "a", kind: "stop_loss", price: "1" }])),
+    ).toThrow("invalid-trigger-amount");
+    expect(() =>
+      validateStrategy(
+        strategy([
+          { id: "a", kind: "trailing_stop", trailingPct: 1.5, sellPct: 1 },
+        ]),
+      ),
+    ).toThrow("invalid-trigger-trailingPct");
+    expect(() =>
+      validateStrategy(
+        strategy([
+          { id: "a", kind: "limit_buy", price: "1", amount: "1" },
+          { id: "a", kind: "limit_buy", price: "2", amount: "1" },
+        ]),
+      ),
+    ).toThrow("invalid-trigger-id");
+  });
+});